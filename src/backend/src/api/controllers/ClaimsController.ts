@@ -3,10 +3,22 @@ import { controller, httpGet, httpPost, httpPut } from 'inversify-express-utils'
 import { Request, Response } from 'express';
 import { rateLimit } from 'express-rate-limit';
 import { ClaimsService } from '../../services/ClaimsService';
-import { validateCreateClaimRequest, validateUpdateClaimStatusRequest } from '../validators/claims.validator';
+import { ClaimLedgerError } from '../../services/ClaimLedger';
+import { ClaimDuplicateError } from '../../services/ClaimDuplicateDetection';
+import {
+  validateAdjusterAuthorityRequest,
+  validateApprovePaymentRequest,
+  validateCloseSiuReferralRequest,
+  validateCreateClaimRequest,
+  validateRecordClaimTransactionRequest,
+  validateRejectPaymentRequest,
+  validateUpdateClaimStatusRequest,
+  validateVoidClaimTransactionRequest
+} from '../validators/claims.validator';
 import { Logger } from '../../utils/logger';
 import { metricsManager } from '../../utils/metrics';
 import { authorize } from '../../middleware/auth';
+import { DuplicateClaimAction, PaymentApprovalStatus, SiuReferralStatus } from '../../types/claims.types';
 
 /**
  * REST API controller implementing claims management endpoints with comprehensive
@@ -25,7 +37,9 @@ export class ClaimsController {
   constructor(private readonly claimsService: ClaimsService) {}
 
   /**
-   * Creates a new claim with comprehensive validation and monitoring
+   * Creates a new claim with comprehensive validation and monitoring. A claim with
+   * possible duplicates is refused with the matches unless the request says whether
+   * to link it, merge it or proceed; a merge answers with the existing claim.
    * 
    * @route POST /api/v1/claims
    * @security JWT
@@ -47,13 +61,16 @@ export class ClaimsController {
 
       // Create claim
       const claim = await this.claimsService.createClaim(validationResult.data);
+      const statusCode = validationResult.data.duplicateResolution?.action === DuplicateClaimAction.MERGE
+        ? 200
+        : 201;
 
       // Record metrics
       const duration = Date.now() - startTime;
       metricsManager.recordAPIMetrics({
         method: 'POST',
         path: '/api/v1/claims',
-        statusCode: 201,
+        statusCode,
         responseTime: duration,
         requestSize: JSON.stringify(req.body).length,
         responseSize: JSON.stringify(claim).length
@@ -65,8 +82,23 @@ export class ClaimsController {
         duration
       });
 
-      return res.status(201).json(claim);
+      return res.status(statusCode).json(claim);
     } catch (error) {
+      if (error instanceof ClaimDuplicateError) {
+        return res.status(409).json({
+          error: 'Possible duplicate',
+          message: error.message,
+          matches: error.matches
+        });
+      }
+
+      if (error.message?.includes('is not a possible duplicate')) {
+        return res.status(422).json({
+          error: 'Unprocessable entity',
+          message: error.message
+        });
+      }
+
       Logger.error('Failed to create claim', error, { body: req.body });
       return res.status(500).json({
         error: 'Internal server error',
@@ -75,6 +107,274 @@ export class ClaimsController {
     }
   }
 
+  /**
+   * Lists existing claims on the same policy that a submission may duplicate
+   * 
+   * @route POST /api/v1/claims/duplicate-check
+   * @security JWT
+   */
+  @httpPost('/duplicate-check')
+  @authorize('claims:create')
+  async checkDuplicates(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+
+    try {
+      const validationResult = await validateCreateClaimRequest(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.errors
+        });
+      }
+
+      const matches = await this.claimsService.findDuplicateClaims(validationResult.data);
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/duplicate-check',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(matches).length
+      });
+
+      return res.status(200).json(matches);
+    } catch (error) {
+      Logger.error('Failed to check for duplicate claims', error, { policyId: req.body?.policyId });
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to check for duplicate claims'
+      });
+    }
+  }
+
+  /**
+   * Lists each adjuster's payment and reserve authority limits
+   * 
+   * @route GET /api/v1/claims/authorities
+   * @security JWT
+   */
+  @httpGet('/authorities')
+  @authorize('claims:read')
+  async listAuthorities(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+
+    try {
+      const authorities = await this.claimsService.listAdjusterAuthorities();
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/authorities',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: 0,
+        responseSize: JSON.stringify(authorities).length
+      });
+
+      return res.status(200).json(authorities);
+    } catch (error) {
+      Logger.error('Failed to list adjuster authorities', error);
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to list adjuster authorities'
+      });
+    }
+  }
+
+  /**
+   * Sets an adjuster's payment and reserve authority limits
+   * 
+   * @route PUT /api/v1/claims/authorities/:userId
+   * @security JWT
+   */
+  @httpPut('/authorities/:userId')
+  @authorize('claims:update')
+  async setAuthority(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const { userId } = req.params;
+
+    try {
+      const validationResult = await validateAdjusterAuthorityRequest(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.errors
+        });
+      }
+
+      const authority = await this.claimsService.setAdjusterAuthority(
+        userId,
+        validationResult.data,
+        req.user?.id
+      );
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'PUT',
+        path: '/api/v1/claims/authorities/:userId',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(authority).length
+      });
+
+      return res.status(200).json(authority);
+    } catch (error) {
+      Logger.error('Failed to set adjuster authority', error, { userId, body: req.body });
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to set adjuster authority'
+      });
+    }
+  }
+
+  /**
+   * Lists queued payments and reserve changes across claims, pending by default
+   * 
+   * @route GET /api/v1/claims/payment-approvals
+   * @security JWT
+   */
+  @httpGet('/payment-approvals')
+  @authorize('claims:read')
+  async getApprovalQueue(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const status = (req.query.status as PaymentApprovalStatus) || PaymentApprovalStatus.PENDING;
+
+    if (!Object.values(PaymentApprovalStatus).includes(status)) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ path: 'status', message: `Unknown approval status: ${status}` }]
+      });
+    }
+
+    try {
+      const approvals = await this.claimsService.getApprovalQueue(status);
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/payment-approvals',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: 0,
+        responseSize: JSON.stringify(approvals).length
+      });
+
+      return res.status(200).json(approvals);
+    } catch (error) {
+      Logger.error('Failed to retrieve payment approval queue', error, { status });
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve payment approval queue'
+      });
+    }
+  }
+
+  /**
+   * Lists claims referred to special investigations, open referrals by default
+   * 
+   * @route GET /api/v1/claims/siu-referrals
+   * @security JWT
+   */
+  @httpGet('/siu-referrals')
+  @authorize('claims:read')
+  async getSiuQueue(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const status = (req.query.status as SiuReferralStatus) || SiuReferralStatus.OPEN;
+
+    if (!Object.values(SiuReferralStatus).includes(status)) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ path: 'status', message: `Unknown referral status: ${status}` }]
+      });
+    }
+
+    try {
+      const referrals = await this.claimsService.getSiuQueue(status);
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/siu-referrals',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: 0,
+        responseSize: JSON.stringify(referrals).length
+      });
+
+      return res.status(200).json(referrals);
+    } catch (error) {
+      Logger.error('Failed to retrieve SIU referral queue', error, { status });
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve SIU referral queue'
+      });
+    }
+  }
+
+  /**
+   * Closes an SIU referral with the investigation outcome
+   * 
+   * @route POST /api/v1/claims/siu-referrals/:referralId/close
+   * @security JWT
+   */
+  @httpPost('/siu-referrals/:referralId/close')
+  @authorize('claims:update')
+  async closeSiuReferral(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const { referralId } = req.params;
+
+    try {
+      const validationResult = await validateCloseSiuReferralRequest(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.errors
+        });
+      }
+
+      const referral = await this.claimsService.closeSiuReferral(
+        referralId,
+        validationResult.data,
+        req.user?.id
+      );
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/siu-referrals/:referralId/close',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(referral).length
+      });
+
+      return res.status(200).json(referral);
+    } catch (error) {
+      if (error.message?.startsWith('SIU referral not found')) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+      }
+
+      if (error.message === 'SIU referral is already closed') {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      Logger.error('Failed to close SIU referral', error, { referralId });
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to close SIU referral'
+      });
+    }
+  }
+
   /**
    * Retrieves a claim by ID with caching and performance optimization
    * 
@@ -203,7 +503,8 @@ export class ClaimsController {
 
       const updatedClaim = await this.claimsService.updateReserves(
         id,
-        reserveAmount
+        reserveAmount,
+        req.user?.id
       );
 
       const duration = Date.now() - startTime;
@@ -228,4 +529,270 @@ export class ClaimsController {
       });
     }
   }
+
+  /**
+   * Retrieves a claim's financial ledger with its derived totals
+   * 
+   * @route GET /api/v1/claims/:id/payments
+   * @security JWT
+   */
+  @httpGet('/:id/payments')
+  @authorize('claims:read')
+  async getLedger(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+      await this.claimsService.getClaim(id);
+      const ledger = await this.claimsService.getLedger(id);
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/:id/payments',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: 0,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return res.status(200).json(ledger);
+    } catch (error) {
+      if (error.message?.startsWith('Claim not found')) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Claim ${id} not found`
+        });
+      }
+
+      Logger.error('Failed to retrieve claim ledger', error, { claimId: id });
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve claim ledger'
+      });
+    }
+  }
+
+  /**
+   * Records a payment, reserve change or recovery in a claim's ledger. An amount
+   * above the user's authority is queued for approval and answered with 202.
+   * 
+   * @route POST /api/v1/claims/:id/payments
+   * @security JWT
+   */
+  @httpPost('/:id/payments')
+  @authorize('claims:update')
+  async recordTransaction(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const { id } = req.params;
+
+    try {
+      const validationResult = await validateRecordClaimTransactionRequest(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.errors
+        });
+      }
+
+      const ledger = await this.claimsService.recordTransaction(
+        id,
+        validationResult.data,
+        req.user?.id
+      );
+      const statusCode = ledger.queuedApproval ? 202 : 201;
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payments',
+        statusCode,
+        responseTime: duration,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return res.status(statusCode).json(ledger);
+    } catch (error) {
+      return this.handleLedgerError(res, error, 'Failed to record claim transaction', {
+        claimId: id,
+        body: req.body
+      });
+    }
+  }
+
+  /**
+   * Voids a ledger entry by recording a reversing entry
+   * 
+   * @route POST /api/v1/claims/:id/payments/:transactionId/void
+   * @security JWT
+   */
+  @httpPost('/:id/payments/:transactionId/void')
+  @authorize('claims:update')
+  async voidTransaction(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const { id, transactionId } = req.params;
+
+    try {
+      const validationResult = await validateVoidClaimTransactionRequest(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.errors
+        });
+      }
+
+      const ledger = await this.claimsService.voidTransaction(
+        id,
+        transactionId,
+        validationResult.data,
+        req.user?.id
+      );
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payments/:transactionId/void',
+        statusCode: 201,
+        responseTime: duration,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return res.status(201).json(ledger);
+    } catch (error) {
+      return this.handleLedgerError(res, error, 'Failed to void claim transaction', {
+        claimId: id,
+        transactionId
+      });
+    }
+  }
+
+  /**
+   * Approves a queued payment or reserve change; the entry is recorded in the
+   * ledger once the required approvals are in
+   * 
+   * @route POST /api/v1/claims/:id/payment-approvals/:approvalId/approve
+   * @security JWT
+   */
+  @httpPost('/:id/payment-approvals/:approvalId/approve')
+  @authorize('claims:update')
+  async approvePayment(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const { id, approvalId } = req.params;
+
+    try {
+      const validationResult = await validateApprovePaymentRequest(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.errors
+        });
+      }
+
+      const ledger = await this.claimsService.approvePayment(
+        id,
+        approvalId,
+        req.user?.id,
+        validationResult.data.notes
+      );
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payment-approvals/:approvalId/approve',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return res.status(200).json(ledger);
+    } catch (error) {
+      return this.handleLedgerError(res, error, 'Failed to approve claim payment', {
+        claimId: id,
+        approvalId
+      });
+    }
+  }
+
+  /**
+   * Rejects a queued payment or reserve change
+   * 
+   * @route POST /api/v1/claims/:id/payment-approvals/:approvalId/reject
+   * @security JWT
+   */
+  @httpPost('/:id/payment-approvals/:approvalId/reject')
+  @authorize('claims:update')
+  async rejectPayment(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const { id, approvalId } = req.params;
+
+    try {
+      const validationResult = await validateRejectPaymentRequest(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.errors
+        });
+      }
+
+      const ledger = await this.claimsService.rejectPayment(
+        id,
+        approvalId,
+        req.user?.id,
+        validationResult.data.reason
+      );
+
+      const duration = Date.now() - startTime;
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payment-approvals/:approvalId/reject',
+        statusCode: 200,
+        responseTime: duration,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return res.status(200).json(ledger);
+    } catch (error) {
+      return this.handleLedgerError(res, error, 'Failed to reject claim payment', {
+        claimId: id,
+        approvalId
+      });
+    }
+  }
+
+  /**
+   * Maps ledger failures to responses: unknown claims, entries or approvals are not found,
+   * broken ledger rules are unprocessable and anything else is a server error
+   */
+  private handleLedgerError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ): Response {
+    if (error instanceof ClaimLedgerError) {
+      return res.status(422).json({
+        error: 'Unprocessable entity',
+        message: error.message
+      });
+    }
+
+    if (error instanceof Error && (error.message.startsWith('Claim not found') ||
+      error.message.startsWith('Claim transaction not found') ||
+      error.message.startsWith('Payment approval not found'))) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: error.message
+      });
+    }
+
+    Logger.error(message, error, context);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message
+    });
+  }
 }
\ No newline at end of file
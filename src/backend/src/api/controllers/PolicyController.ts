@@ -11,7 +11,18 @@ import { CacheManager } from 'cache-manager'; // ^5.2.0
 import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
 
 import { PolicyService } from '../../services/PolicyService';
-import { IPolicy, PolicyStatus } from '../../types/policy.types';
+import {
+    IPolicy,
+    PolicyStatus,
+    NonRenewalReason,
+    CancellationReason,
+    CancellationMethod,
+    ReinstatementType,
+    ICoverage,
+    SubjectivityStatus
+} from '../../types/policy.types';
+import { ProductValidationStage } from '../../types/product.types';
+import { PolicyType } from '../../constants/policyTypes';
 import { logger } from '../../utils/logger';
 import { oneshieldConfig } from '../../config/oneshield';
 
@@ -54,6 +65,19 @@ export class PolicyController {
             // Validate request body
             this.validatePolicyRequest(policyData);
 
+            // Validate coverages and eligibility against the product definition
+            const productValidation = await this.policyService.checkProductRules(
+                policyData,
+                ProductValidationStage.SUBMISSION
+            );
+            if (!productValidation.success) {
+                res.status(422).json({
+                    message: 'Policy does not meet product requirements',
+                    errors: productValidation.errors
+                });
+                return;
+            }
+
             // Create policy with circuit breaker protection
             const policy = await this.circuitBreaker.fire(
                 async () => await this.policyService.createPolicy(policyData)
@@ -89,9 +113,28 @@ export class PolicyController {
     ): Promise<void> {
         const correlationId = uuidv4();
         const { id } = req.params;
+        const asOf = req.query.asOf ? new Date(req.query.asOf as string) : undefined;
         const cacheKey = `policy:${id}`;
 
         try {
+            // Point-in-time lookups bypass the current-state cache
+            if (asOf) {
+                const version = await this.policyService.getPolicy(id, asOf);
+                if (!version) {
+                    res.status(404).json({ message: 'Policy was not in force on the requested date' });
+                    return;
+                }
+
+                logger.info('Policy version retrieved successfully', {
+                    correlationId,
+                    policyId: id,
+                    asOf
+                });
+
+                res.json(version);
+                return;
+            }
+
             // Check cache first
             const cachedPolicy = await this.cacheManager.get<IPolicy>(cacheKey);
             if (cachedPolicy) {
@@ -244,6 +287,687 @@ export class PolicyController {
         }
     }
 
+    /**
+     * Retrieves active policies due for renewal within the offer window
+     */
+    @Get('/renewals/due')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async getRenewalsDue(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { days } = req.query;
+
+        try {
+            const policies = await this.policyService.findPoliciesDueForRenewal(
+                days ? Number(days) : undefined
+            );
+
+            logger.info('Policies due for renewal retrieved successfully', {
+                correlationId,
+                count: policies.length
+            });
+
+            res.json({ data: policies });
+        } catch (error) {
+            logger.error('Failed to retrieve policies due for renewal', {
+                correlationId,
+                error
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Creates a renewal term for an expiring policy
+     */
+    @Post('/:id/renewals')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async createRenewal(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { rateChange } = req.body;
+
+        try {
+            const renewal = await this.circuitBreaker.fire(
+                async () => await this.policyService.createRenewalTerm(
+                    id,
+                    rateChange !== undefined ? { rateChange } : undefined
+                )
+            );
+
+            // Invalidate cache for the expiring policy
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Policy renewal created successfully', {
+                correlationId,
+                policyId: id,
+                renewalPolicyId: renewal.id
+            });
+
+            res.status(201).json(renewal);
+        } catch (error) {
+            logger.error('Failed to create policy renewal', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Records a non-renewal decision for a policy
+     */
+    @Post('/:id/non-renewal')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async recordNonRenewal(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { reason, noticeDate, notes } = req.body;
+
+        try {
+            const policy = await this.policyService.recordNonRenewal(id, {
+                reason: reason as NonRenewalReason,
+                noticeDate: new Date(noticeDate),
+                decidedBy: req.user?.id,
+                ...(notes ? { notes } : {})
+            });
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Non-renewal recorded successfully', {
+                correlationId,
+                policyId: id,
+                reason
+            });
+
+            res.json(policy);
+        } catch (error) {
+            logger.error('Failed to record non-renewal', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Previews return premium for a prospective cancellation
+     */
+    @Get('/:id/cancellation-quote')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async getCancellationQuote(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { effectiveDate, reason, method } = req.query;
+
+        try {
+            const quote = await this.policyService.quoteCancellation(
+                id,
+                new Date(effectiveDate as string),
+                reason as CancellationReason,
+                method as CancellationMethod | undefined
+            );
+
+            logger.info('Cancellation quote calculated successfully', {
+                correlationId,
+                policyId: id,
+                method: quote.method,
+                returnPremium: quote.returnPremium
+            });
+
+            res.json(quote);
+        } catch (error) {
+            logger.error('Failed to calculate cancellation quote', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Cancels a policy mid-term with return premium refund
+     */
+    @Put('/:id/cancel')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async cancelPolicy(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { effectiveDate, reason, method, notes } = req.body;
+
+        try {
+            const policy = await this.circuitBreaker.fire(
+                async () => await this.policyService.cancelPolicy(id, {
+                    effectiveDate: new Date(effectiveDate),
+                    reason: reason as CancellationReason,
+                    requestedBy: req.user?.id,
+                    ...(method ? { method: method as CancellationMethod } : {}),
+                    ...(notes ? { notes } : {})
+                })
+            );
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Policy cancelled successfully', {
+                correlationId,
+                policyId: id,
+                reason,
+                returnPremium: policy.cancellationInfo?.returnPremium
+            });
+
+            res.json(policy);
+        } catch (error) {
+            logger.error('Failed to cancel policy', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Reinstates a policy cancelled for non-payment
+     */
+    @Post('/:id/reinstate')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async reinstatePolicy(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { type, reinstatementDate, notes } = req.body;
+
+        try {
+            const policy = await this.circuitBreaker.fire(
+                async () => await this.policyService.reinstatePolicy(id, {
+                    type: type as ReinstatementType,
+                    reinstatedBy: req.user?.id,
+                    ...(reinstatementDate ? { reinstatementDate: new Date(reinstatementDate) } : {}),
+                    ...(notes ? { notes } : {})
+                })
+            );
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Policy reinstated successfully', {
+                correlationId,
+                policyId: id,
+                type,
+                premiumChange: policy.reinstatementInfo?.premiumChange
+            });
+
+            res.json(policy);
+        } catch (error) {
+            logger.error('Failed to reinstate policy', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Satisfies or waives an open subjectivity on a policy
+     */
+    @Put('/:id/subjectivities/:subjectivityId')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async resolveSubjectivity(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id, subjectivityId } = req.params;
+        const { status, documentId, notes } = req.body;
+
+        try {
+            const policy = await this.policyService.resolveSubjectivity(id, subjectivityId, {
+                status: status as SubjectivityStatus.SATISFIED | SubjectivityStatus.WAIVED,
+                resolvedBy: req.user?.id,
+                ...(documentId ? { documentId } : {}),
+                ...(notes ? { notes } : {})
+            });
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Subjectivity resolved successfully', {
+                correlationId,
+                policyId: id,
+                subjectivityId,
+                status
+            });
+
+            res.json(policy);
+        } catch (error) {
+            logger.error('Failed to resolve subjectivity', {
+                correlationId,
+                error,
+                policyId: id,
+                subjectivityId
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Alerts on overdue post-bind subjectivities and lists policies eligible for a cancellation notice
+     */
+    @Post('/subjectivities/check')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async checkOverdueSubjectivities(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+
+        try {
+            const result = await this.policyService.checkOverdueSubjectivities();
+
+            logger.info('Overdue subjectivities checked successfully', {
+                correlationId,
+                checked: result.checked,
+                alerted: result.alerted.length,
+                cancellationEligible: result.cancellationEligible.length
+            });
+
+            res.json({ data: result });
+        } catch (error) {
+            logger.error('Failed to check overdue subjectivities', {
+                correlationId,
+                error
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Issues a notice of cancellation for post-bind subjectivities overdue past the grace period
+     */
+    @Post('/:id/subjectivities/cancellation-notice')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async issueSubjectivityCancellationNotice(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+
+        try {
+            const policy = await this.policyService.issueSubjectivityCancellationNotice(id, req.user?.id);
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Subjectivity cancellation notice issued successfully', {
+                correlationId,
+                policyId: id,
+                effectiveDate: policy.underwritingInfo.cancellationNotice?.effectiveDate
+            });
+
+            res.status(201).json(policy);
+        } catch (error) {
+            logger.error('Failed to issue subjectivity cancellation notice', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Previews the prorated premium for a prospective endorsement
+     */
+    @Post('/:id/endorsements/quote')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async quoteEndorsement(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { effectiveDate, annualPremiumChange } = req.body;
+
+        try {
+            const rating = await this.policyService.quoteEndorsement(
+                id,
+                new Date(effectiveDate),
+                annualPremiumChange
+            );
+
+            logger.info('Endorsement quote calculated successfully', {
+                correlationId,
+                policyId: id,
+                premiumChange: rating.premiumChange
+            });
+
+            res.json(rating);
+        } catch (error) {
+            logger.error('Failed to calculate endorsement quote', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Creates a prorated endorsement, re-sequencing later endorsements when back-dated
+     */
+    @Post('/:id/endorsements')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async createEndorsement(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { type, effectiveDate, changes, annualPremiumChange, description } = req.body;
+
+        try {
+            const result = await this.circuitBreaker.fire(
+                async () => await this.policyService.createEndorsement(id, {
+                    type,
+                    effectiveDate: new Date(effectiveDate),
+                    changes,
+                    annualPremiumChange,
+                    requestedBy: req.user?.id,
+                    ...(description ? { description } : {})
+                })
+            );
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Endorsement created successfully', {
+                correlationId,
+                policyId: id,
+                endorsementId: result.endorsement.id,
+                reappliedCount: result.reapplied.length
+            });
+
+            res.status(201).json(result);
+        } catch (error) {
+            logger.error('Failed to create endorsement', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Lists policy versions with field-level changes between them
+     */
+    @Get('/:id/history')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async getPolicyHistory(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+
+        try {
+            const history = await this.policyService.getPolicyHistory(id);
+
+            logger.info('Policy history retrieved successfully', {
+                correlationId,
+                policyId: id,
+                versionCount: history.length
+            });
+
+            res.json(history);
+        } catch (error) {
+            logger.error('Failed to retrieve policy history', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Rates a draft or quoted policy and stores its premium breakdown
+     */
+    @Post('/:id/rate')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async ratePolicy(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { exposures, scheduleModifiers } = req.body;
+
+        try {
+            const policy = await this.policyService.ratePolicy(id, {
+                exposures,
+                ratedBy: req.user?.id,
+                ...(scheduleModifiers ? { scheduleModifiers } : {})
+            });
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Policy rated successfully', {
+                correlationId,
+                policyId: id,
+                premium: policy.premium,
+                rateTableVersion: policy.premiumBreakdown?.rateTableVersion
+            });
+
+            res.json(policy);
+        } catch (error) {
+            logger.error('Failed to rate policy', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Lists the quote options on a submission
+     */
+    @Get('/:id/quotes')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async getQuotes(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+
+        try {
+            const quotes = await this.policyService.getQuotes(id);
+
+            logger.info('Quote options retrieved successfully', {
+                correlationId,
+                policyId: id,
+                count: quotes.length
+            });
+
+            res.json(quotes);
+        } catch (error) {
+            logger.error('Failed to retrieve quote options', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Offers a new quote option on a submission
+     */
+    @Post('/:id/quotes')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async createQuote(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id } = req.params;
+        const { label, coverages, premium, exposures, scheduleModifiers, expirationDate } = req.body;
+
+        try {
+            const quote = await this.policyService.createQuote(id, {
+                label,
+                coverages: coverages.map((coverage: ICoverage) => ({ ...coverage, id: coverage.id || uuidv4() })),
+                createdBy: req.user?.id,
+                ...(premium !== undefined ? { premium } : {}),
+                ...(exposures ? { exposures } : {}),
+                ...(scheduleModifiers ? { scheduleModifiers } : {}),
+                ...(expirationDate ? { expirationDate: new Date(expirationDate) } : {})
+            });
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Quote option created successfully', {
+                correlationId,
+                policyId: id,
+                quoteId: quote.id,
+                premium: quote.premium
+            });
+
+            res.status(201).json(quote);
+        } catch (error) {
+            logger.error('Failed to create quote option', {
+                correlationId,
+                error,
+                policyId: id
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Binds the quote option selected by the insured, superseding the others
+     */
+    @Post('/:id/quotes/:quoteId/bind')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async bindQuote(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const { id, quoteId } = req.params;
+
+        try {
+            const policy = await this.circuitBreaker.fire(
+                async () => await this.policyService.bindQuote(id, quoteId, req.user?.id)
+            );
+
+            await this.cacheManager.del(`policy:${id}`);
+
+            logger.info('Quote option bound successfully', {
+                correlationId,
+                policyId: id,
+                quoteId,
+                premium: policy.premium
+            });
+
+            res.json(policy);
+        } catch (error) {
+            logger.error('Failed to bind quote option', {
+                correlationId,
+                error,
+                policyId: id,
+                quoteId
+            });
+            next(error);
+        }
+    }
+
+    /**
+     * Retrieves the product definition in effect for a policy type
+     */
+    @Get('/products/:policyType')
+    @UseGuards(AuthGuard)
+    @RateLimit({ windowMs: 60000, max: oneshieldConfig.policy.rateLimit.maxRequests })
+    public async getProductDefinition(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const policyType = req.params.policyType as PolicyType;
+        const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+
+        try {
+            const definition = await this.policyService.getProductDefinition(policyType, asOf);
+
+            logger.info('Product definition retrieved successfully', {
+                correlationId,
+                policyType,
+                version: definition.version
+            });
+
+            res.json(definition);
+        } catch (error) {
+            logger.error('Failed to retrieve product definition', {
+                correlationId,
+                error,
+                policyType
+            });
+            next(error);
+        }
+    }
+
     /**
      * Initializes circuit breaker with OneShield configuration
      */
@@ -299,7 +1023,8 @@ export class PolicyController {
                 [PolicyStatus.BOUND]: [PolicyStatus.ACTIVE, PolicyStatus.CANCELLED],
                 [PolicyStatus.ACTIVE]: [PolicyStatus.CANCELLED, PolicyStatus.EXPIRED],
                 [PolicyStatus.CANCELLED]: [],
-                [PolicyStatus.EXPIRED]: []
+                [PolicyStatus.EXPIRED]: [],
+                [PolicyStatus.PENDING_RENEWAL]: [PolicyStatus.QUOTED, PolicyStatus.CANCELLED]
             };
 
             if (!validTransitions[updates.status]) {
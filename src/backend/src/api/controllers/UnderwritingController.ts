@@ -9,20 +9,56 @@ import {
     Controller, 
     Post, 
     Get, 
+    Put,
+    Delete,
     Body, 
     Param, 
+    Query,
     UseInterceptors,
     CacheInterceptor
 } from '@nestjs/common';
 import { UnderwritingService } from '../../services/UnderwritingService';
 import { 
     validateRiskAssessment,
-    validateUnderwritingDecision 
+    validateUnderwritingDecision,
+    validateUnderwritingRule,
+    validateUnderwritingRuleUpdate,
+    validateRuleSimulation,
+    validateUnderwriterAuthority,
+    validateUnderwritingReview,
+    validateDecisionAssignment,
+    validateOutOfOffice,
+    validateSlaPause,
+    validateUnderwritingMetricsQuery,
+    validateAppetiteCheck,
+    validateRescoreRun,
+    validateRescoreResultsQuery
 } from '../validators/underwriting.validator';
 import { 
     IRiskAssessment,
-    IUnderwritingDecision 
+    IUnderwritingDecision,
+    IUnderwritingRule,
+    IRuleSimulationRequest,
+    IRuleSimulationReport,
+    IUnderwritingConfig,
+    IUnderwritingDecisionRecord,
+    IUnderwritingReview,
+    IUnderwriterAuthority,
+    IUnderwritingQueueDepth,
+    IUnderwritingMetrics,
+    ISlaAlert,
+    ISlaClockStatus,
+    ILocationZoneDataset,
+    IRiskScoreBreakdown,
+    ISubmissionChecklist,
+    IAppetiteCheckRequest,
+    IAppetiteCheckResult,
+    IChecklistReminder,
+    IRescoreRequest,
+    IRescoreResult,
+    IRescoreRun
 } from '../../types/underwriting.types';
+import { UnderwritingRuleFilter } from '../../repositories/UnderwritingRuleRepository';
 
 @Controller('api/v1/underwriting')
 @UseInterceptors(CacheInterceptor)
@@ -142,4 +178,502 @@ export class UnderwritingController {
             throw new Error(`Policy evaluation failed: ${error.message}`);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Records an underwriter's review of the latest decision on a policy
+     * @param policyId Policy identifier
+     * @param reviewData Review outcome and notes
+     * @param userId Reviewing underwriter
+     * @returns Updated decision record, or null when the policy has no decision
+     */
+    @Post('decisions/:policyId/review')
+    async reviewDecision(
+        @Param('policyId') policyId: string,
+        @Body() reviewData: unknown,
+        userId: string
+    ): Promise<IUnderwritingDecisionRecord | null> {
+        try {
+            const validatedData = await validateUnderwritingReview(reviewData);
+            return await this.underwritingService.reviewDecision(
+                policyId,
+                validatedData as IUnderwritingReview,
+                userId
+            );
+        } catch (error) {
+            throw new Error(`Decision review failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Reassigns the open decision on a policy
+     * @param policyId Policy identifier
+     * @param assignmentData Optional assignee and the reason for reassignment
+     * @param userId Manager reassigning the decision
+     * @returns Updated decision record, or null when the policy has no decision
+     */
+    @Post('decisions/:policyId/assign')
+    async reassignDecision(
+        @Param('policyId') policyId: string,
+        @Body() assignmentData: unknown,
+        userId: string
+    ): Promise<IUnderwritingDecisionRecord | null> {
+        try {
+            const validatedData = await validateDecisionAssignment(assignmentData);
+            return await this.underwritingService.reassignDecision(
+                policyId,
+                validatedData as { assigneeId?: string; reason: string },
+                userId
+            );
+        } catch (error) {
+            throw new Error(`Decision reassignment failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves open decisions per underwriter
+     * @returns Queue depth per underwriter
+     */
+    @Get('queue/depth')
+    async getQueueDepth(): Promise<IUnderwritingQueueDepth> {
+        try {
+            return await this.underwritingService.getQueueDepth();
+        } catch (error) {
+            throw new Error(`Queue depth retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves a submission's SLA clocks
+     * @param policyId Policy identifier
+     * @returns Clocks with elapsed time and alert level
+     */
+    @Get('decisions/:policyId/sla')
+    async getSlaStatus(@Param('policyId') policyId: string): Promise<ISlaClockStatus[]> {
+        try {
+            return await this.underwritingService.getSlaStatus(policyId);
+        } catch (error) {
+            throw new Error(`SLA status retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Pauses a submission's SLA clocks while it waits on broker documents
+     * @param policyId Policy identifier
+     * @param pauseData What the submission is waiting on
+     * @param userId User pausing the clocks
+     * @returns Clocks with elapsed time and alert level
+     */
+    @Post('decisions/:policyId/sla/pause')
+    async pauseSla(
+        @Param('policyId') policyId: string,
+        @Body() pauseData: unknown,
+        userId?: string
+    ): Promise<ISlaClockStatus[]> {
+        try {
+            const validatedData = await validateSlaPause(pauseData);
+            return await this.underwritingService.pauseSla(policyId, validatedData.reason, userId);
+        } catch (error) {
+            throw new Error(`SLA pause failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Resumes a submission's paused SLA clocks
+     * @param policyId Policy identifier
+     * @param userId User resuming the clocks
+     * @returns Clocks with elapsed time and alert level
+     */
+    @Post('decisions/:policyId/sla/resume')
+    async resumeSla(@Param('policyId') policyId: string, userId?: string): Promise<ISlaClockStatus[]> {
+        try {
+            return await this.underwritingService.resumeSla(policyId, userId);
+        } catch (error) {
+            throw new Error(`SLA resume failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Checks running SLA clocks and raises at-risk and breach alerts
+     * @returns Clocks checked, quote clocks stopped and alerts raised
+     */
+    @Post('sla/check')
+    async checkSlaClocks(): Promise<{ checked: number; completed: number; alerts: ISlaAlert[] }> {
+        try {
+            return await this.underwritingService.checkSlaClocks();
+        } catch (error) {
+            throw new Error(`SLA check failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves a submission's completeness checklist
+     * @param policyId Policy identifier
+     * @returns Checklist, or null when the submission has not been decided
+     */
+    @Get('decisions/:policyId/checklist')
+    async getChecklist(@Param('policyId') policyId: string): Promise<ISubmissionChecklist | null> {
+        try {
+            return await this.underwritingService.getChecklist(policyId);
+        } catch (error) {
+            throw new Error(`Checklist retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Re-checks a submission's checklist, returning it to the review queue when complete
+     * @param policyId Policy identifier
+     * @param userId User who asked for the re-check
+     * @returns Updated checklist, or null when the policy does not exist
+     */
+    @Post('decisions/:policyId/checklist/refresh')
+    async refreshChecklist(@Param('policyId') policyId: string, userId?: string): Promise<ISubmissionChecklist | null> {
+        try {
+            return await this.underwritingService.refreshChecklist(policyId, userId);
+        } catch (error) {
+            throw new Error(`Checklist refresh failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Re-checks submissions waiting on documents and reminds brokers of missing items
+     * @returns Submissions checked and requeued, and reminders sent
+     */
+    @Post('checklist/reminders')
+    async sendChecklistReminders(): Promise<{ checked: number; requeued: number; reminders: IChecklistReminder[] }> {
+        try {
+            return await this.underwritingService.sendChecklistReminders();
+        } catch (error) {
+            throw new Error(`Checklist reminders failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves underwriting throughput metrics
+     * @param query Optional submission window
+     * @returns Automation rate, processing time, open reviews and SLA standing
+     */
+    @Get('sla/metrics')
+    async getUnderwritingMetrics(@Query() query: unknown): Promise<IUnderwritingMetrics> {
+        try {
+            const validatedQuery = await validateUnderwritingMetricsQuery(query);
+            const to = validatedQuery.to || new Date();
+            const from = validatedQuery.from || new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+            return await this.underwritingService.getUnderwritingMetrics(from, to);
+        } catch (error) {
+            throw new Error(`Underwriting metrics retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Marks an underwriter out of office, reassigning their open decisions
+     * @param underwriterId Underwriter user identifier
+     * @param availabilityData End of the absence, or null when back in office
+     * @param userId User recording the absence
+     * @returns Updated authority and reassigned count, or null when the underwriter has no authority
+     */
+    @Put('authorities/:userId/out-of-office')
+    async setOutOfOffice(
+        @Param('userId') underwriterId: string,
+        @Body() availabilityData: unknown,
+        userId?: string
+    ): Promise<{ authority: IUnderwriterAuthority; reassigned: number } | null> {
+        try {
+            const validatedData = await validateOutOfOffice(availabilityData);
+            return await this.underwritingService.setOutOfOffice(underwriterId, validatedData.until, userId);
+        } catch (error) {
+            throw new Error(`Out of office update failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Explains a submission's risk score factor by factor
+     * @param policyId Policy identifier
+     * @returns Breakdown, or null when the policy does not exist
+     */
+    @Get('risk-breakdown/:policyId')
+    async getRiskBreakdown(@Param('policyId') policyId: string): Promise<IRiskScoreBreakdown | null> {
+        try {
+            return await this.underwritingService.getRiskBreakdown(policyId);
+        } catch (error) {
+            throw new Error(`Risk breakdown failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Screens a risk for appetite before a full submission
+     * @param appetiteData Policy type, class code, state, revenue and requested limits
+     * @returns In appetite, refer or out of appetite, with the reasons
+     */
+    @Post('appetite')
+    async checkAppetite(@Body() appetiteData: unknown): Promise<IAppetiteCheckResult> {
+        try {
+            const validatedData = await validateAppetiteCheck(appetiteData);
+            return await this.underwritingService.checkAppetite(validatedData as IAppetiteCheckRequest);
+        } catch (error) {
+            throw new Error(`Appetite check failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Starts re-scoring the in-force book under the current risk factor weights
+     * @param rescoreData Policy type, dry run, chunk size and concurrency
+     * @param userId User starting the run
+     * @returns Run as started; it continues in the background
+     */
+    @Post('rescore')
+    async startRescore(@Body() rescoreData: unknown, userId?: string): Promise<IRescoreRun> {
+        try {
+            const validatedData = await validateRescoreRun(rescoreData);
+            return await this.underwritingService.startRescore(validatedData as IRescoreRequest, userId);
+        } catch (error) {
+            throw new Error(`Re-scoring start failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Resumes a re-scoring run that failed or whose process stopped
+     * @param runId Run identifier
+     * @param userId User resuming the run
+     * @returns Run as resumed, or null when it does not exist
+     */
+    @Post('rescore/:runId/resume')
+    async resumeRescore(@Param('runId') runId: string, userId?: string): Promise<IRescoreRun | null> {
+        try {
+            return await this.underwritingService.resumeRescore(runId, userId);
+        } catch (error) {
+            throw new Error(`Re-scoring resume failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Lists the most recent re-scoring runs
+     * @returns Runs, most recently started first
+     */
+    @Get('rescore')
+    async listRescoreRuns(): Promise<IRescoreRun[]> {
+        try {
+            return await this.underwritingService.listRescoreRuns();
+        } catch (error) {
+            throw new Error(`Re-scoring run listing failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves a re-scoring run and its progress
+     * @param runId Run identifier
+     * @returns Run, or null when it does not exist
+     */
+    @Get('rescore/:runId')
+    async getRescoreRun(@Param('runId') runId: string): Promise<IRescoreRun | null> {
+        try {
+            return await this.underwritingService.getRescoreRun(runId);
+        } catch (error) {
+            throw new Error(`Re-scoring run retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves the old and new scores recorded by a re-scoring run
+     * @param runId Run identifier
+     * @param query Band changes only, and paging
+     * @returns Results, band changes first
+     */
+    @Get('rescore/:runId/results')
+    async getRescoreResults(@Param('runId') runId: string, @Query() query: unknown): Promise<IRescoreResult[]> {
+        try {
+            const validatedQuery = await validateRescoreResultsQuery(query);
+            return await this.underwritingService.getRescoreResults(runId, validatedQuery);
+        } catch (error) {
+            throw new Error(`Re-scoring results retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Lists the location zone datasets in use
+     * @returns Latest vintage of each peril's dataset
+     */
+    @Get('location-zones')
+    async listLocationZoneDatasets(): Promise<ILocationZoneDataset[]> {
+        try {
+            return await this.underwritingService.listLocationZoneDatasets();
+        } catch (error) {
+            throw new Error(`Location zone listing failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Imports a new vintage of a peril's location zone dataset
+     * @param datasetData Dataset contents, validated against the zone file schema
+     * @param userId User importing the dataset
+     * @returns Imported dataset
+     */
+    @Post('location-zones')
+    async importLocationZones(@Body() datasetData: unknown, userId?: string): Promise<ILocationZoneDataset> {
+        try {
+            return await this.underwritingService.importLocationZones(datasetData, userId);
+        } catch (error) {
+            throw new Error(`Location zone import failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Lists underwriter authority matrices
+     * @returns Underwriter authorities
+     */
+    @Get('authorities')
+    async listAuthorities(): Promise<IUnderwriterAuthority[]> {
+        try {
+            return await this.underwritingService.listAuthorities();
+        } catch (error) {
+            throw new Error(`Authority listing failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Sets an underwriter's authority matrix and referral target
+     * @param underwriterId Underwriter user identifier
+     * @param authorityData Authority matrix
+     * @param userId Underwriting manager making the change
+     * @returns Saved authority
+     */
+    @Put('authorities/:userId')
+    async setAuthority(
+        @Param('userId') underwriterId: string,
+        @Body() authorityData: unknown,
+        userId?: string
+    ): Promise<IUnderwriterAuthority> {
+        try {
+            const validatedData = await validateUnderwriterAuthority(authorityData);
+            return await this.underwritingService.setAuthority(
+                { ...validatedData, userId: underwriterId } as IUnderwriterAuthority,
+                userId
+            );
+        } catch (error) {
+            throw new Error(`Authority update failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves the active underwriting configuration
+     * @returns Versioned risk score thresholds, factor weights and auto-approval criteria
+     */
+    @Get('config')
+    async getUnderwritingConfig(): Promise<IUnderwritingConfig> {
+        try {
+            return await this.underwritingService.getUnderwritingConfig();
+        } catch (error) {
+            throw new Error(`Config retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Lists underwriting rules in evaluation order
+     * @param filter Optional policy type, action and active filter
+     * @returns Underwriting rules
+     */
+    @Get('rules')
+    async listRules(
+        @Query() filter: UnderwritingRuleFilter
+    ): Promise<IUnderwritingRule[]> {
+        try {
+            return await this.underwritingService.listRules(filter);
+        } catch (error) {
+            throw new Error(`Rule listing failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retrieves an underwriting rule
+     * @param ruleId Rule identifier
+     * @returns Underwriting rule, or null when none exists
+     */
+    @Get('rules/:id')
+    async getRule(
+        @Param('id') ruleId: string
+    ): Promise<IUnderwritingRule | null> {
+        try {
+            return await this.underwritingService.getRule(ruleId);
+        } catch (error) {
+            throw new Error(`Rule retrieval failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Creates an underwriting rule
+     * @param ruleData Rule definition
+     * @param userId Underwriting manager creating the rule
+     * @returns Created rule
+     */
+    @Post('rules')
+    async createRule(
+        @Body() ruleData: unknown,
+        userId?: string
+    ): Promise<IUnderwritingRule> {
+        try {
+            const validatedData = await validateUnderwritingRule(ruleData);
+            return await this.underwritingService.createRule(validatedData as IUnderwritingRule, userId);
+        } catch (error) {
+            throw new Error(`Rule creation failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Updates an underwriting rule
+     * @param ruleId Rule identifier
+     * @param updates Fields to change
+     * @param userId Underwriting manager changing the rule
+     * @returns Updated rule, or null when none exists
+     */
+    @Put('rules/:id')
+    async updateRule(
+        @Param('id') ruleId: string,
+        @Body() updates: unknown,
+        userId?: string
+    ): Promise<IUnderwritingRule | null> {
+        try {
+            const validatedUpdates = await validateUnderwritingRuleUpdate(updates);
+            return await this.underwritingService.updateRule(
+                ruleId,
+                validatedUpdates as Partial<IUnderwritingRule>,
+                userId
+            );
+        } catch (error) {
+            throw new Error(`Rule update failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Deletes an underwriting rule
+     * @param ruleId Rule identifier
+     * @param userId Underwriting manager deleting the rule
+     * @returns Whether a rule was deleted
+     */
+    @Delete('rules/:id')
+    async deleteRule(
+        @Param('id') ruleId: string,
+        userId?: string
+    ): Promise<boolean> {
+        try {
+            return await this.underwritingService.deleteRule(ruleId, userId);
+        } catch (error) {
+            throw new Error(`Rule deletion failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Replays historical decisions against candidate rules or risk factor weights
+     * @param simulationData Candidate configuration and decisions to replay
+     * @returns Diff report of the decisions that would change
+     */
+    @Post('rules/simulate')
+    async simulateRules(
+        @Body() simulationData: unknown
+    ): Promise<IRuleSimulationReport> {
+        try {
+            const validatedData = await validateRuleSimulation(simulationData);
+            return await this.underwritingService.simulateRules(validatedData as IRuleSimulationRequest);
+        } catch (error) {
+            throw new Error(`Rule simulation failed: ${error.message}`);
+        }
+    }
+}
@@ -128,6 +128,35 @@ export const validateMFA = async (
   }
 };
 
+/**
+ * Middleware factory restricting a route to users holding one of the given roles
+ */
+export const authorizeRoles = (...roles: string[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const user = req.user as jwt.JwtPayload | undefined;
+  const role = typeof user?.role === 'string' ? user.role : undefined;
+
+  if (!role || !roles.includes(role)) {
+    logger.warn('Insufficient role for route', {
+      userId: user?.sub,
+      role,
+      requiredRoles: roles,
+      path: req.path
+    });
+
+    res.status(StatusCodes.FORBIDDEN).json({
+      code: ERROR_CODES.AUTHORIZATION_ERROR,
+      message: 'Insufficient permissions'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Handler for OAuth 2.0 callback with enhanced security validation
  */
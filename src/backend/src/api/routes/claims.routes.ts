@@ -10,10 +10,19 @@ import { rateLimit } from 'express-rate-limit'; // v6.7.0
 import { monitor } from '@opentelemetry/api'; // v1.4.0
 import { correlationId } from 'express-correlation-id'; // v2.0.1
 
-import { authenticateToken } from '../middlewares/auth.middleware';
+import { authenticateToken, authorizeRoles } from '../middlewares/auth.middleware';
 import { validateBody } from '../middlewares/validation.middleware';
 import { ClaimsController } from '../controllers/ClaimsController';
-import { createClaimSchema, updateClaimStatusSchema } from '../validators/claims.validator';
+import {
+  adjusterAuthoritySchema,
+  approvePaymentSchema,
+  closeSiuReferralSchema,
+  createClaimSchema,
+  recordClaimTransactionSchema,
+  rejectPaymentSchema,
+  updateClaimStatusSchema,
+  voidClaimTransactionSchema
+} from '../validators/claims.validator';
 import { logger } from '../../utils/logger';
 import { metricsManager } from '../../utils/metrics';
 import { ERROR_CODES } from '../../constants/errorCodes';
@@ -38,6 +47,12 @@ const cacheConfig = {
   updateAgeOnGet: true
 };
 
+// Roles allowed to set adjuster payment and reserve authority
+const AUTHORITY_MANAGER_ROLES = ['MGA_ADMIN'];
+
+// Roles allowed to close special investigations referrals
+const SIU_REVIEWER_ROLES = ['MGA_ADMIN'];
+
 // Apply global middleware
 claimsRouter.use(correlationId());
 claimsRouter.use(monitor.middleware());
@@ -78,6 +93,208 @@ claimsRouter.post('/',
   }
 );
 
+/**
+ * POST /api/v1/claims/duplicate-check
+ * Lists existing claims on the same policy that a submission may duplicate
+ */
+claimsRouter.post('/duplicate-check',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  validateBody(createClaimSchema),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const matches = await controller.checkDuplicates(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/duplicate-check',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(matches).length
+      });
+
+      return matches;
+    } catch (error) {
+      logger.error('Failed to check for duplicate claims', error, { policyId: req.body.policyId });
+      throw error;
+    }
+  }
+);
+
+/**
+ * GET /api/v1/claims/authorities
+ * Lists each adjuster's payment and reserve authority limits
+ */
+claimsRouter.get('/authorities',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const authorities = await controller.listAuthorities(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/authorities',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: 0,
+        responseSize: JSON.stringify(authorities).length
+      });
+
+      return authorities;
+    } catch (error) {
+      logger.error('Failed to list adjuster authorities', error);
+      throw error;
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/claims/authorities/:userId
+ * Sets an adjuster's payment and reserve authority limits
+ */
+claimsRouter.put('/authorities/:userId',
+  authenticateToken,
+  authorizeRoles(...AUTHORITY_MANAGER_ROLES),
+  rateLimit(rateLimitConfig),
+  validateBody(adjusterAuthoritySchema),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const authority = await controller.setAuthority(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'PUT',
+        path: '/api/v1/claims/authorities/:userId',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(authority).length
+      });
+
+      return authority;
+    } catch (error) {
+      logger.error('Failed to set adjuster authority', error, {
+        userId: req.params.userId,
+        body: req.body
+      });
+      throw error;
+    }
+  }
+);
+
+/**
+ * GET /api/v1/claims/payment-approvals
+ * Lists queued payments and reserve changes across claims, pending by default
+ */
+claimsRouter.get('/payment-approvals',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const approvals = await controller.getApprovalQueue(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/payment-approvals',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: 0,
+        responseSize: JSON.stringify(approvals).length
+      });
+
+      return approvals;
+    } catch (error) {
+      logger.error('Failed to retrieve payment approval queue', error, { status: req.query.status });
+      throw error;
+    }
+  }
+);
+
+/**
+ * GET /api/v1/claims/siu-referrals
+ * Lists claims referred to special investigations, open referrals by default
+ */
+claimsRouter.get('/siu-referrals',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const referrals = await controller.getSiuQueue(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/siu-referrals',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: 0,
+        responseSize: JSON.stringify(referrals).length
+      });
+
+      return referrals;
+    } catch (error) {
+      logger.error('Failed to retrieve SIU referral queue', error, { status: req.query.status });
+      throw error;
+    }
+  }
+);
+
+/**
+ * POST /api/v1/claims/siu-referrals/:referralId/close
+ * Closes an SIU referral with the investigation outcome
+ */
+claimsRouter.post('/siu-referrals/:referralId/close',
+  authenticateToken,
+  authorizeRoles(...SIU_REVIEWER_ROLES),
+  rateLimit(rateLimitConfig),
+  validateBody(closeSiuReferralSchema),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const referral = await controller.closeSiuReferral(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/siu-referrals/:referralId/close',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(referral).length
+      });
+
+      return referral;
+    } catch (error) {
+      logger.error('Failed to close SIU referral', error, {
+        referralId: req.params.referralId
+      });
+      throw error;
+    }
+  }
+);
+
 /**
  * GET /api/v1/claims/:id
  * Retrieves a claim by ID with caching and performance optimization
@@ -181,6 +398,182 @@ claimsRouter.put('/:id/reserves',
   }
 );
 
+/**
+ * GET /api/v1/claims/:id/payments
+ * Retrieves the claim's financial ledger with reserve, paid and recovered totals
+ */
+claimsRouter.get('/:id/payments',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const ledger = await controller.getLedger(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'GET',
+        path: '/api/v1/claims/:id/payments',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: 0,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return ledger;
+    } catch (error) {
+      logger.error('Failed to retrieve claim ledger', error, { claimId: req.params.id });
+      throw error;
+    }
+  }
+);
+
+/**
+ * POST /api/v1/claims/:id/payments
+ * Records a payment, reserve change or recovery in the claim's ledger
+ */
+claimsRouter.post('/:id/payments',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  validateBody(recordClaimTransactionSchema),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const ledger = await controller.recordTransaction(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payments',
+        statusCode: res.statusCode,
+        responseTime: Date.now() - startTime,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return ledger;
+    } catch (error) {
+      logger.error('Failed to record claim transaction', error, {
+        claimId: req.params.id,
+        body: req.body
+      });
+      throw error;
+    }
+  }
+);
+
+/**
+ * POST /api/v1/claims/:id/payments/:transactionId/void
+ * Voids a ledger entry by recording a reversing entry
+ */
+claimsRouter.post('/:id/payments/:transactionId/void',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  validateBody(voidClaimTransactionSchema),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const ledger = await controller.voidTransaction(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payments/:transactionId/void',
+        statusCode: 201,
+        responseTime: Date.now() - startTime,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return ledger;
+    } catch (error) {
+      logger.error('Failed to void claim transaction', error, {
+        claimId: req.params.id,
+        transactionId: req.params.transactionId
+      });
+      throw error;
+    }
+  }
+);
+
+/**
+ * POST /api/v1/claims/:id/payment-approvals/:approvalId/approve
+ * Approves a queued payment or reserve change, recording it once fully approved
+ */
+claimsRouter.post('/:id/payment-approvals/:approvalId/approve',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  validateBody(approvePaymentSchema),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const ledger = await controller.approvePayment(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payment-approvals/:approvalId/approve',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return ledger;
+    } catch (error) {
+      logger.error('Failed to approve claim payment', error, {
+        claimId: req.params.id,
+        approvalId: req.params.approvalId
+      });
+      throw error;
+    }
+  }
+);
+
+/**
+ * POST /api/v1/claims/:id/payment-approvals/:approvalId/reject
+ * Rejects a queued payment or reserve change
+ */
+claimsRouter.post('/:id/payment-approvals/:approvalId/reject',
+  authenticateToken,
+  rateLimit(rateLimitConfig),
+  validateBody(rejectPaymentSchema),
+  async (req, res) => {
+    const startTime = Date.now();
+    const controller = new ClaimsController();
+
+    try {
+      const ledger = await controller.rejectPayment(req, res);
+
+      // Record metrics
+      metricsManager.recordAPIMetrics({
+        method: 'POST',
+        path: '/api/v1/claims/:id/payment-approvals/:approvalId/reject',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        requestSize: JSON.stringify(req.body).length,
+        responseSize: JSON.stringify(ledger).length
+      });
+
+      return ledger;
+    } catch (error) {
+      logger.error('Failed to reject claim payment', error, {
+        claimId: req.params.id,
+        approvalId: req.params.approvalId
+      });
+      throw error;
+    }
+  }
+);
+
 // Error handling middleware
 claimsRouter.use((error: any, req: any, res: any, next: any) => {
   logger.error('Claims route error', error, {
@@ -13,7 +13,7 @@ import { z } from 'zod';
 
 import { PolicyController } from '../controllers/PolicyController';
 import { authenticateToken } from '../middlewares/auth.middleware';
-import { validateBody, validateQuery } from '../middlewares/validation.middleware';
+import { validateBody, validateQuery, validateParams } from '../middlewares/validation.middleware';
 import { logger } from '../../utils/logger';
 import { ERROR_CODES, ERROR_MESSAGES } from '../../constants/errorCodes';
 import { oneshieldConfig } from '../../config/oneshield';
@@ -52,6 +52,121 @@ const policyIdSchema = z.object({
     id: z.string().uuid()
 });
 
+const renewalsDueQuerySchema = z.object({
+    days: z.string().optional().transform(Number)
+});
+
+const renewalSchema = z.object({
+    rateChange: z.number().min(-0.5).max(0.5).optional()
+});
+
+const nonRenewalSchema = z.object({
+    reason: z.enum([
+        'UNDERWRITING',
+        'LOSS_HISTORY',
+        'NON_PAYMENT',
+        'OUT_OF_APPETITE',
+        'INSURED_REQUEST',
+        'CARRIER_WITHDRAWAL'
+    ]),
+    noticeDate: z.string().datetime(),
+    notes: z.string().max(2000).optional()
+});
+
+const cancellationReasons = ['INSURED_REQUEST', 'NON_PAYMENT', 'UNDERWRITING'] as const;
+const cancellationMethods = ['PRO_RATA', 'SHORT_RATE', 'FLAT'] as const;
+
+const cancellationSchema = z.object({
+    effectiveDate: z.string().datetime(),
+    reason: z.enum(cancellationReasons),
+    method: z.enum(cancellationMethods).optional(),
+    notes: z.string().max(2000).optional()
+});
+
+const cancellationQuoteQuerySchema = z.object({
+    effectiveDate: z.string().datetime(),
+    reason: z.enum(cancellationReasons),
+    method: z.enum(cancellationMethods).optional()
+});
+
+const reinstatementSchema = z.object({
+    type: z.enum(['WITH_LAPSE', 'WITHOUT_LAPSE']),
+    reinstatementDate: z.string().datetime().optional(),
+    notes: z.string().max(2000).optional()
+});
+
+const subjectivityParamsSchema = policyIdSchema.extend({
+    subjectivityId: z.string().uuid()
+});
+
+const subjectivityResolutionSchema = z.object({
+    status: z.enum(['SATISFIED', 'WAIVED']),
+    documentId: z.string().uuid().optional(),
+    notes: z.string().max(2000).optional()
+}).refine(resolution => resolution.status !== 'WAIVED' || !!resolution.notes, {
+    message: 'Waiving a subjectivity requires notes',
+    path: ['notes']
+});
+
+const endorsementQuoteSchema = z.object({
+    effectiveDate: z.string().datetime(),
+    annualPremiumChange: z.number().min(-1000000000).max(1000000000)
+});
+
+const endorsementSchema = endorsementQuoteSchema.extend({
+    type: z.string().min(1).max(100),
+    changes: z.object({
+        coverages: z.array(z.record(z.unknown())).optional(),
+        policyHolder: z.record(z.unknown()).optional(),
+        billingInfo: z.record(z.unknown()).optional(),
+        carrierInfo: z.record(z.unknown()).optional()
+    }).strict(),
+    description: z.string().max(500).optional()
+});
+
+const policyAsOfQuerySchema = z.object({
+    asOf: z.string().datetime().optional()
+});
+
+const ratingSchema = z.object({
+    exposures: z.object({
+        REVENUE: z.number().positive().optional(),
+        PAYROLL: z.number().positive().optional(),
+        SQUARE_FOOTAGE: z.number().positive().optional(),
+        VEHICLE_COUNT: z.number().int().positive().optional()
+    }).strict(),
+    scheduleModifiers: z.record(z.number().min(-1).max(1)).optional()
+});
+
+const productDefinitionParamsSchema = z.object({
+    policyType: z.enum(['COMM_PROP', 'GEN_LIAB', 'PROF_LIAB', 'WORK_COMP', 'COMM_AUTO', 'CYBER_LIAB', 'UMBRELLA', 'BOP'])
+});
+
+const eligibilityAnswersSchema = z.record(z.union([z.boolean(), z.number(), z.string()]));
+
+const quoteIdParamsSchema = policyIdSchema.extend({
+    quoteId: z.string().uuid()
+});
+
+const quoteSchema = ratingSchema.partial().extend({
+    label: z.string().min(1).max(100),
+    coverages: z.array(z.object({
+        id: z.string().uuid().optional(),
+        type: z.string().min(1),
+        limits: z.object({
+            perOccurrence: z.number().positive(),
+            aggregate: z.number().positive()
+        }),
+        deductible: z.number().min(0),
+        endorsements: z.array(z.string()).optional(),
+        exclusions: z.array(z.string()).optional()
+    })).min(1),
+    premium: z.number().min(0).max(1000000000).optional(),
+    expirationDate: z.string().datetime().optional()
+}).refine(quote => quote.exposures !== undefined || quote.premium !== undefined, {
+    message: 'Either exposures or a premium is required'
+});
+
 // Configure routes with middleware chains
 router.get('/policies',
     authenticateToken,
@@ -73,9 +188,70 @@ router.get('/policies',
     }
 );
 
+router.get('/policies/renewals/due',
+    authenticateToken,
+    validateQuery(renewalsDueQuerySchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.getRenewalsDue(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to retrieve policies due for renewal', { error });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/subjectivities/check',
+    authenticateToken,
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.checkOverdueSubjectivities(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to check overdue subjectivities', { error });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.get('/policies/products/:policyType',
+    authenticateToken,
+    validateParams(productDefinitionParamsSchema),
+    validateQuery(policyAsOfQuerySchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.getProductDefinition(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to retrieve product definition', { error, policyType: req.params.policyType });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
 router.get('/policies/:id',
     authenticateToken,
     validateParams(policyIdSchema),
+    validateQuery(policyAsOfQuerySchema),
     policyRateLimiter,
     async (req, res, next) => {
         try {
@@ -106,7 +282,8 @@ router.post('/policies',
                 aggregate: z.number()
             }),
             deductible: z.number()
-        })).min(1)
+        })).min(1),
+        eligibilityAnswers: eligibilityAnswersSchema.optional()
     })),
     policyRateLimiter,
     async (req, res, next) => {
@@ -138,7 +315,8 @@ router.put('/policies/:id',
                 aggregate: z.number()
             }),
             deductible: z.number()
-        })).optional()
+        })).optional(),
+        eligibilityAnswers: eligibilityAnswersSchema.optional()
     })),
     policyRateLimiter,
     async (req, res, next) => {
@@ -157,6 +335,296 @@ router.put('/policies/:id',
     }
 );
 
+router.post('/policies/:id/renewals',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(renewalSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.createRenewal(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to create policy renewal', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/non-renewal',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(nonRenewalSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.recordNonRenewal(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to record non-renewal', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.get('/policies/:id/cancellation-quote',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateQuery(cancellationQuoteQuerySchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.getCancellationQuote(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to calculate cancellation quote', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.put('/policies/:id/cancel',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(cancellationSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.cancelPolicy(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to cancel policy', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/reinstate',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(reinstatementSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.reinstatePolicy(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to reinstate policy', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.put('/policies/:id/subjectivities/:subjectivityId',
+    authenticateToken,
+    validateParams(subjectivityParamsSchema),
+    validateBody(subjectivityResolutionSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.resolveSubjectivity(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to resolve subjectivity', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/subjectivities/cancellation-notice',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.issueSubjectivityCancellationNotice(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to issue subjectivity cancellation notice', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/endorsements/quote',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(endorsementQuoteSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.quoteEndorsement(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to calculate endorsement quote', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/endorsements',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(endorsementSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.createEndorsement(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to create endorsement', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.get('/policies/:id/history',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.getPolicyHistory(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to retrieve policy history', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/rate',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(ratingSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.ratePolicy(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to rate policy', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.get('/policies/:id/quotes',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.getQuotes(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to retrieve quote options', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/quotes',
+    authenticateToken,
+    validateParams(policyIdSchema),
+    validateBody(quoteSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.createQuote(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to create quote option', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
+router.post('/policies/:id/quotes/:quoteId/bind',
+    authenticateToken,
+    validateParams(quoteIdParamsSchema),
+    policyRateLimiter,
+    async (req, res, next) => {
+        try {
+            const result = await circuitBreaker.fire(async () => {
+                return await PolicyController.bindQuote(req, res, next);
+            });
+            return result;
+        } catch (error) {
+            logger.error('Failed to bind quote option', { error, policyId: req.params.id });
+            return res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+                code: ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+                message: ERROR_MESSAGES[ERROR_CODES.EXTERNAL_SERVICE_ERROR]
+            });
+        }
+    }
+);
+
 // Configure circuit breaker event handlers
 circuitBreaker.on('open', () => {
     logger.warn('Circuit breaker opened for policy routes');
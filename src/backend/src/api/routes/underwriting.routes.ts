@@ -8,10 +8,30 @@
 import { Router } from 'express'; // ^4.18.2
 import rateLimit from 'express-rate-limit'; // ^6.7.0
 import performanceMonitor from 'express-performance-monitor'; // ^1.0.0
-import { authenticateToken } from '../middlewares/auth.middleware';
-import { validateBody, validateParams } from '../middlewares/validation.middleware';
+import { authenticateToken, authorizeRoles } from '../middlewares/auth.middleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
 import { UnderwritingController } from '../controllers/UnderwritingController';
-import { riskAssessmentSchema, underwritingDecisionSchema } from '../validators/underwriting.validator';
+import {
+  riskAssessmentSchema,
+  underwritingDecisionSchema,
+  underwritingRuleSchema,
+  underwritingRuleUpdateSchema,
+  underwritingRuleParamsSchema,
+  underwritingRuleQuerySchema,
+  ruleSimulationSchema,
+  underwriterAuthoritySchema,
+  underwriterAuthorityParamsSchema,
+  underwritingReviewSchema,
+  underwritingReviewParamsSchema,
+  decisionAssignmentSchema,
+  outOfOfficeSchema,
+  slaPauseSchema,
+  underwritingMetricsQuerySchema,
+  appetiteCheckSchema,
+  rescoreRunSchema,
+  rescoreRunParamsSchema,
+  rescoreResultsQuerySchema
+} from '../validators/underwriting.validator';
 import { logger } from '../../utils/logger';
 import { HTTP_STATUS_CODES, ERROR_CODES } from '../../constants/errorCodes';
 
@@ -28,6 +48,12 @@ const rateLimiter = rateLimit({
   }
 });
 
+// Roles allowed to change underwriting rules and underwriter authority
+const RULE_MANAGER_ROLES = ['MGA_ADMIN', 'UNDERWRITING_MANAGER'];
+
+// Roles allowed to review underwriting decisions
+const REVIEWER_ROLES = ['UNDERWRITER', ...RULE_MANAGER_ROLES];
+
 // Configure performance monitoring
 const performanceOptions = {
   path: '/metrics',
@@ -118,6 +144,531 @@ router.get('/evaluate/:policyId',
   }
 );
 
+/**
+ * GET /api/v1/underwriting/risk-breakdown/:policyId
+ * Explains a submission's risk score with each factor's weighted contribution,
+ * drivers and missing or defaulted inputs
+ */
+router.get('/risk-breakdown/:policyId',
+  authenticateToken,
+  validateParams(riskAssessmentSchema.pick({ policyId: true })),
+  async (req, res, next) => {
+    try {
+      const breakdown = await UnderwritingController.getRiskBreakdown(req.params.policyId);
+      if (!breakdown) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Policy not found'
+        });
+        return;
+      }
+
+      res.status(HTTP_STATUS_CODES.OK).json(breakdown);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/appetite
+ * Screens a risk for appetite before a full submission: in appetite, refer or out of appetite
+ */
+router.post('/appetite',
+  authenticateToken,
+  validateBody(appetiteCheckSchema),
+  async (req, res, next) => {
+    try {
+      const result = await UnderwritingController.checkAppetite(req.body);
+      res.status(HTTP_STATUS_CODES.OK).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/decisions/:policyId/review
+ * Records an underwriter's review; approvals above the reviewer's authority are referred up the chain
+ */
+router.post('/decisions/:policyId/review',
+  authenticateToken,
+  authorizeRoles(...REVIEWER_ROLES),
+  validateParams(underwritingReviewParamsSchema),
+  validateBody(underwritingReviewSchema),
+  async (req, res, next) => {
+    try {
+      const startTime = Date.now();
+      const decision = await UnderwritingController.reviewDecision(req.params.policyId, req.body, req.user?.id);
+      if (!decision) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'No underwriting decision found for policy'
+        });
+        return;
+      }
+
+      logger.info('Underwriting decision reviewed', {
+        policyId: req.params.policyId,
+        userId: req.user?.id,
+        duration: Date.now() - startTime,
+        reviewStatus: decision.reviewStatus,
+        referredTo: decision.referredTo
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(decision);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/decisions/:policyId/assign
+ * Reassigns an open decision to a named underwriter or one picked by the assignment strategy
+ */
+router.post('/decisions/:policyId/assign',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(underwritingReviewParamsSchema),
+  validateBody(decisionAssignmentSchema),
+  async (req, res, next) => {
+    try {
+      const decision = await UnderwritingController.reassignDecision(req.params.policyId, req.body, req.user?.id);
+      if (!decision) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'No underwriting decision found for policy'
+        });
+        return;
+      }
+
+      logger.info('Underwriting decision reassigned', {
+        policyId: req.params.policyId,
+        assignedTo: decision.assignedTo,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(decision);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/decisions/:policyId/sla
+ * Retrieves a submission's SLA clocks with elapsed time and alert level
+ */
+router.get('/decisions/:policyId/sla',
+  authenticateToken,
+  authorizeRoles(...REVIEWER_ROLES),
+  validateParams(underwritingReviewParamsSchema),
+  async (req, res, next) => {
+    try {
+      const clocks = await UnderwritingController.getSlaStatus(req.params.policyId);
+      res.status(HTTP_STATUS_CODES.OK).json(clocks);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/decisions/:policyId/sla/pause
+ * Pauses a submission's SLA clocks while it waits on broker documents
+ */
+router.post('/decisions/:policyId/sla/pause',
+  authenticateToken,
+  authorizeRoles(...REVIEWER_ROLES),
+  validateParams(underwritingReviewParamsSchema),
+  validateBody(slaPauseSchema),
+  async (req, res, next) => {
+    try {
+      const clocks = await UnderwritingController.pauseSla(req.params.policyId, req.body, req.user?.id);
+
+      logger.info('Underwriting SLA paused', {
+        policyId: req.params.policyId,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(clocks);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/decisions/:policyId/sla/resume
+ * Resumes a submission's SLA clocks once broker documents arrive
+ */
+router.post('/decisions/:policyId/sla/resume',
+  authenticateToken,
+  authorizeRoles(...REVIEWER_ROLES),
+  validateParams(underwritingReviewParamsSchema),
+  async (req, res, next) => {
+    try {
+      const clocks = await UnderwritingController.resumeSla(req.params.policyId, req.user?.id);
+
+      logger.info('Underwriting SLA resumed', {
+        policyId: req.params.policyId,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(clocks);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/decisions/:policyId/checklist
+ * Retrieves a submission's required documents and fields and which have been received
+ */
+router.get('/decisions/:policyId/checklist',
+  authenticateToken,
+  validateParams(underwritingReviewParamsSchema),
+  async (req, res, next) => {
+    try {
+      const checklist = await UnderwritingController.getChecklist(req.params.policyId);
+      if (!checklist) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Submission checklist not found'
+        });
+        return;
+      }
+
+      res.status(HTTP_STATUS_CODES.OK).json(checklist);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/decisions/:policyId/checklist/refresh
+ * Re-checks a submission after documents or fields are added; a complete
+ * submission waiting on documents returns to the review queue
+ */
+router.post('/decisions/:policyId/checklist/refresh',
+  authenticateToken,
+  validateParams(underwritingReviewParamsSchema),
+  async (req, res, next) => {
+    try {
+      const checklist = await UnderwritingController.refreshChecklist(req.params.policyId, req.user?.id);
+      if (!checklist) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Policy not found'
+        });
+        return;
+      }
+
+      res.status(HTTP_STATUS_CODES.OK).json(checklist);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/checklist/reminders
+ * Re-checks submissions waiting on documents and reminds brokers of missing items;
+ * intended to be called on a schedule
+ */
+router.post('/checklist/reminders',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  async (req, res, next) => {
+    try {
+      const result = await UnderwritingController.sendChecklistReminders();
+      res.status(HTTP_STATUS_CODES.OK).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/sla/check
+ * Checks running SLA clocks and alerts assigned underwriters and their managers;
+ * intended to be called on a schedule
+ */
+router.post('/sla/check',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  async (req, res, next) => {
+    try {
+      const result = await UnderwritingController.checkSlaClocks();
+      res.status(HTTP_STATUS_CODES.OK).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/sla/metrics
+ * Reports automation rate, processing time from SLA clocks, open reviews and SLA standing
+ */
+router.get('/sla/metrics',
+  authenticateToken,
+  authorizeRoles(...REVIEWER_ROLES),
+  validateQuery(underwritingMetricsQuerySchema),
+  async (req, res, next) => {
+    try {
+      const metrics = await UnderwritingController.getUnderwritingMetrics(req.query);
+      res.status(HTTP_STATUS_CODES.OK).json(metrics);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/queue/depth
+ * Counts open decisions per underwriter
+ */
+router.get('/queue/depth',
+  authenticateToken,
+  authorizeRoles(...REVIEWER_ROLES),
+  async (req, res, next) => {
+    try {
+      const depth = await UnderwritingController.getQueueDepth();
+      res.status(HTTP_STATUS_CODES.OK).json(depth);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/rescore
+ * Starts re-scoring the in-force book after risk factor weights change; the run
+ * continues in the background and its progress is read from GET /rescore/:runId
+ */
+router.post('/rescore',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateBody(rescoreRunSchema),
+  async (req, res, next) => {
+    try {
+      const run = await UnderwritingController.startRescore(req.body, req.user?.id);
+      res.status(HTTP_STATUS_CODES.ACCEPTED).json(run);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/rescore
+ * Lists the most recent re-scoring runs
+ */
+router.get('/rescore',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  async (req, res, next) => {
+    try {
+      const runs = await UnderwritingController.listRescoreRuns();
+      res.status(HTTP_STATUS_CODES.OK).json(runs);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/rescore/:runId
+ * Reports a re-scoring run's progress: policies processed, band changes and failures
+ */
+router.get('/rescore/:runId',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(rescoreRunParamsSchema),
+  async (req, res, next) => {
+    try {
+      const run = await UnderwritingController.getRescoreRun(req.params.runId);
+      if (!run) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Re-scoring run not found'
+        });
+        return;
+      }
+
+      res.status(HTTP_STATUS_CODES.OK).json(run);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/rescore/:runId/results
+ * Lists the old and new scores recorded by a run; bandChanged=true lists only the
+ * policies flagged for renewal review
+ */
+router.get('/rescore/:runId/results',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(rescoreRunParamsSchema),
+  validateQuery(rescoreResultsQuerySchema),
+  async (req, res, next) => {
+    try {
+      const results = await UnderwritingController.getRescoreResults(req.params.runId, req.query);
+      res.status(HTTP_STATUS_CODES.OK).json(results);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/rescore/:runId/resume
+ * Resumes a re-scoring run that failed or whose process stopped, from the last chunk it finished
+ */
+router.post('/rescore/:runId/resume',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(rescoreRunParamsSchema),
+  async (req, res, next) => {
+    try {
+      const run = await UnderwritingController.resumeRescore(req.params.runId, req.user?.id);
+      if (!run) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Re-scoring run not found'
+        });
+        return;
+      }
+
+      res.status(HTTP_STATUS_CODES.ACCEPTED).json(run);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/location-zones
+ * Lists the peril, vintage and source of the location zone datasets in use
+ */
+router.get('/location-zones',
+  authenticateToken,
+  authorizeRoles(...REVIEWER_ROLES),
+  async (req, res, next) => {
+    try {
+      const datasets = await UnderwritingController.listLocationZoneDatasets();
+      res.status(HTTP_STATUS_CODES.OK).json(datasets.map(({ peril, vintage, source }) => ({ peril, vintage, source })));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/location-zones
+ * Imports a new vintage of a peril's location zone dataset; restricted to underwriting managers
+ */
+router.post('/location-zones',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  async (req, res, next) => {
+    try {
+      const dataset = await UnderwritingController.importLocationZones(req.body, req.user?.id);
+
+      logger.info('Location zone dataset imported', {
+        peril: dataset.peril,
+        vintage: dataset.vintage,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.CREATED).json({ peril: dataset.peril, vintage: dataset.vintage, source: dataset.source });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/authorities
+ * Lists underwriter authority matrices
+ */
+router.get('/authorities',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  async (req, res, next) => {
+    try {
+      const authorities = await UnderwritingController.listAuthorities();
+      res.status(HTTP_STATUS_CODES.OK).json(authorities);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/underwriting/authorities/:userId
+ * Sets an underwriter's authority matrix and referral target; restricted to underwriting managers
+ */
+router.put('/authorities/:userId',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(underwriterAuthorityParamsSchema),
+  validateBody(underwriterAuthoritySchema),
+  async (req, res, next) => {
+    try {
+      const authority = await UnderwritingController.setAuthority(req.params.userId, req.body, req.user?.id);
+
+      logger.info('Underwriter authority updated', {
+        underwriterId: authority.userId,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(authority);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/underwriting/authorities/:userId/out-of-office
+ * Marks an underwriter out of office and reassigns their open decisions; restricted to underwriting managers
+ */
+router.put('/authorities/:userId/out-of-office',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(underwriterAuthorityParamsSchema),
+  validateBody(outOfOfficeSchema),
+  async (req, res, next) => {
+    try {
+      const result = await UnderwritingController.setOutOfOffice(req.params.userId, req.body, req.user?.id);
+      if (!result) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Underwriter authority not found'
+        });
+        return;
+      }
+
+      logger.info('Underwriter availability updated', {
+        underwriterId: req.params.userId,
+        reassigned: result.reassigned,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /api/v1/underwriting/health
  * OneShield integration health check endpoint
@@ -141,6 +692,178 @@ router.get('/health',
   }
 );
 
+/**
+ * GET /api/v1/underwriting/config
+ * Publishes the active risk score thresholds, factor weights and auto-approval criteria
+ */
+router.get('/config',
+  authenticateToken,
+  async (req, res, next) => {
+    try {
+      const config = await UnderwritingController.getUnderwritingConfig();
+      res.status(HTTP_STATUS_CODES.OK).json(config);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/rules
+ * Lists underwriting rules in evaluation order
+ */
+router.get('/rules',
+  authenticateToken,
+  validateQuery(underwritingRuleQuerySchema),
+  async (req, res, next) => {
+    try {
+      const rules = await UnderwritingController.listRules(req.query);
+      res.status(HTTP_STATUS_CODES.OK).json(rules);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/rules/simulate
+ * Replays historical decisions against candidate rules or risk factor weights
+ */
+router.post('/rules/simulate',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateBody(ruleSimulationSchema),
+  async (req, res, next) => {
+    try {
+      const startTime = Date.now();
+      const report = await UnderwritingController.simulateRules(req.body);
+
+      logger.info('Rule simulation completed', {
+        duration: Date.now() - startTime,
+        decisionsEvaluated: report.decisionsEvaluated,
+        decisionsChanged: report.decisionsChanged
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/underwriting/rules/:id
+ * Retrieves an underwriting rule
+ */
+router.get('/rules/:id',
+  authenticateToken,
+  validateParams(underwritingRuleParamsSchema),
+  async (req, res, next) => {
+    try {
+      const rule = await UnderwritingController.getRule(req.params.id);
+      if (!rule) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Underwriting rule not found'
+        });
+        return;
+      }
+
+      res.status(HTTP_STATUS_CODES.OK).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/underwriting/rules
+ * Creates an underwriting rule; restricted to underwriting managers
+ */
+router.post('/rules',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateBody(underwritingRuleSchema),
+  async (req, res, next) => {
+    try {
+      const rule = await UnderwritingController.createRule(req.body, req.user?.id);
+
+      logger.info('Underwriting rule created', {
+        ruleId: rule.id,
+        action: rule.action,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.CREATED).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/underwriting/rules/:id
+ * Updates an underwriting rule; restricted to underwriting managers
+ */
+router.put('/rules/:id',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(underwritingRuleParamsSchema),
+  validateBody(underwritingRuleUpdateSchema),
+  async (req, res, next) => {
+    try {
+      const rule = await UnderwritingController.updateRule(req.params.id, req.body, req.user?.id);
+      if (!rule) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Underwriting rule not found'
+        });
+        return;
+      }
+
+      logger.info('Underwriting rule updated', {
+        ruleId: rule.id,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.OK).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/underwriting/rules/:id
+ * Deletes an underwriting rule; restricted to underwriting managers
+ */
+router.delete('/rules/:id',
+  authenticateToken,
+  authorizeRoles(...RULE_MANAGER_ROLES),
+  validateParams(underwritingRuleParamsSchema),
+  async (req, res, next) => {
+    try {
+      const deleted = await UnderwritingController.deleteRule(req.params.id, req.user?.id);
+      if (!deleted) {
+        res.status(HTTP_STATUS_CODES.NOT_FOUND).json({
+          code: ERROR_CODES.NOT_FOUND_ERROR,
+          message: 'Underwriting rule not found'
+        });
+        return;
+      }
+
+      logger.info('Underwriting rule deleted', {
+        ruleId: req.params.id,
+        userId: req.user?.id
+      });
+
+      res.status(HTTP_STATUS_CODES.NO_CONTENT).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Error handling middleware
 router.use((error: any, req: any, res: any, next: any) => {
   logger.error('Underwriting route error', {
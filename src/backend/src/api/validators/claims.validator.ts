@@ -7,7 +7,18 @@
 
 import { z } from 'zod'; // v3.21.4
 import { CLAIM_STATUS } from '../../constants/claimStatus';
-import { CreateClaimRequest } from '../../types/claims.types';
+import {
+  ApprovePaymentRequest,
+  ClaimTransactionType,
+  CloseSiuReferralRequest,
+  CreateClaimRequest,
+  DuplicateClaimAction,
+  RecordClaimTransactionRequest,
+  RejectPaymentRequest,
+  SetAdjusterAuthorityRequest,
+  SiuReferralOutcome,
+  VoidClaimTransactionRequest
+} from '../../types/claims.types';
 import { ValidationUtils, validateRequest, validateDateRange } from '../../utils/validation';
 
 // Coordinate validation constants
@@ -47,13 +58,28 @@ export const claimantInfoSchema = z.object({
   preferredContactMethod: z.enum(['email', 'phone', 'mail'])
 }).strict();
 
+/**
+ * Zod schema for validating the intake decision on a possible duplicate; linking
+ * or merging must name the existing claim
+ */
+export const duplicateResolutionSchema = z.object({
+  action: z.nativeEnum(DuplicateClaimAction),
+  claimId: z.string().uuid().optional()
+}).strict().refine(
+  resolution => resolution.action === DuplicateClaimAction.PROCEED || !!resolution.claimId,
+  { message: 'Claim to link or merge is required', path: ['claimId'] }
+);
+
 /**
  * Comprehensive Zod schema for validating new claim creation requests
  */
 export const createClaimSchema = z.object({
   policyId: z.string().uuid(),
   incidentDate: z.date(),
+  reportedDate: z.date().optional(),
   description: z.string().min(10).max(2000),
+  coverageType: z.string().min(1).max(50).optional(),
+  causeOfLoss: z.string().min(1).max(100).optional(),
   location: claimLocationSchema,
   claimantInfo: claimantInfoSchema,
   initialReserve: z.number().positive().max(999999999.99).multipleOf(0.01),
@@ -62,7 +88,8 @@ export const createClaimSchema = z.object({
     fileSize: z.number().positive().max(10 * 1024 * 1024), // 10MB max
     mimeType: z.string().regex(/^application\/(pdf|msword|vnd\.openxmlformats-officedocument\.wordprocessingml\.document)$|^image\/(jpeg|png|heic)$/),
     content: z.instanceof(Buffer)
-  })).min(1).max(10)
+  })).min(1).max(10),
+  duplicateResolution: duplicateResolutionSchema.optional()
 }).strict();
 
 /**
@@ -75,6 +102,89 @@ export const updateClaimStatusSchema = z.object({
   reserveAmount: z.number().nonnegative().max(999999999.99).multipleOf(0.01)
 }).strict();
 
+/**
+ * Zod schema for validating claim ledger entries. Reserve changes are signed;
+ * payments and recoveries are positive, and payments must name the payee and
+ * the check or ACH reference.
+ */
+export const recordClaimTransactionSchema = z.object({
+  type: z.enum([
+    ClaimTransactionType.INDEMNITY_PAYMENT,
+    ClaimTransactionType.EXPENSE_PAYMENT,
+    ClaimTransactionType.RESERVE_CHANGE,
+    ClaimTransactionType.DEDUCTIBLE_RECOVERY,
+    ClaimTransactionType.SUBROGATION_RECOVERY,
+    ClaimTransactionType.SALVAGE_RECOVERY
+  ]),
+  amount: z.number().min(-999999999.99).max(999999999.99).multipleOf(0.01),
+  payee: z.string().min(1).max(200).optional(),
+  paymentMethod: z.enum(['CHECK', 'ACH']).optional(),
+  reference: z.string().min(1).max(100).optional(),
+  transactionDate: z.coerce.date().optional(),
+  notes: z.string().max(1000).optional()
+}).strict().superRefine((entry, ctx) => {
+  if (entry.type === ClaimTransactionType.RESERVE_CHANGE ? entry.amount === 0 : entry.amount <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['amount'],
+      message: entry.type === ClaimTransactionType.RESERVE_CHANGE
+        ? 'Reserve change cannot be zero'
+        : 'Amount must be positive'
+    });
+  }
+
+  const isPayment = entry.type === ClaimTransactionType.INDEMNITY_PAYMENT ||
+    entry.type === ClaimTransactionType.EXPENSE_PAYMENT;
+  if (isPayment) {
+    (['payee', 'paymentMethod', 'reference'] as const)
+      .filter(field => !entry[field])
+      .forEach(field => ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `Payments require ${field}`
+      }));
+  }
+});
+
+/**
+ * Zod schema for validating a request to void a ledger entry
+ */
+export const voidClaimTransactionSchema = z.object({
+  approvedBy: z.string().uuid(),
+  notes: z.string().min(10).max(1000)
+}).strict();
+
+/**
+ * Zod schema for validating an adjuster's payment and reserve authority limits
+ */
+export const adjusterAuthoritySchema = z.object({
+  maxPaymentAmount: z.number().min(0).max(999999999.99).multipleOf(0.01),
+  maxReserveAmount: z.number().min(0).max(999999999.99).multipleOf(0.01),
+  active: z.boolean()
+}).strict();
+
+/**
+ * Zod schema for validating approval of a queued payment or reserve change
+ */
+export const approvePaymentSchema = z.object({
+  notes: z.string().max(1000).optional()
+}).strict();
+
+/**
+ * Zod schema for validating rejection of a queued payment or reserve change
+ */
+export const rejectPaymentSchema = z.object({
+  reason: z.string().min(10).max(1000)
+}).strict();
+
+/**
+ * Zod schema for validating closure of an SIU referral with its outcome
+ */
+export const closeSiuReferralSchema = z.object({
+  outcome: z.nativeEnum(SiuReferralOutcome),
+  notes: z.string().min(10).max(2000)
+}).strict();
+
 /**
  * Validates a new claim creation request with comprehensive business rules
  * @param requestData The claim creation request data to validate
@@ -124,6 +234,17 @@ export async function validateCreateClaimRequest(
     };
   }
 
+  if (data.reportedDate && (data.reportedDate < data.incidentDate || data.reportedDate > new Date())) {
+    return {
+      success: false,
+      errors: [{
+        path: ['reportedDate'],
+        message: 'Reported date must fall between the incident date and now',
+        code: 'INVALID_DATE_RANGE'
+      }]
+    };
+  }
+
   // Document validation
   const totalFileSize = data.documents.reduce((sum, doc) => sum + doc.fileSize, 0);
   if (totalFileSize > 50 * 1024 * 1024) { // 50MB total limit
@@ -194,4 +315,94 @@ export async function validateUpdateClaimStatusRequest(
     success: true,
     data: data
   };
+}
+
+/**
+ * Validates a claim ledger entry request
+ * @param requestData The ledger entry request data to validate
+ * @returns Promise resolving to validation result
+ */
+export async function validateRecordClaimTransactionRequest(
+  requestData: unknown
+): Promise<ValidationResult<RecordClaimTransactionRequest>> {
+  return validateRequest<RecordClaimTransactionRequest>(
+    recordClaimTransactionSchema,
+    requestData,
+    { enableLogging: true }
+  );
+}
+
+/**
+ * Validates a request to void a claim ledger entry
+ * @param requestData The void request data to validate
+ * @returns Promise resolving to validation result
+ */
+export async function validateVoidClaimTransactionRequest(
+  requestData: unknown
+): Promise<ValidationResult<VoidClaimTransactionRequest>> {
+  return validateRequest<VoidClaimTransactionRequest>(
+    voidClaimTransactionSchema,
+    requestData,
+    { enableLogging: true }
+  );
+}
+
+/**
+ * Validates an adjuster authority request
+ * @param requestData The authority request data to validate
+ * @returns Promise resolving to validation result
+ */
+export async function validateAdjusterAuthorityRequest(
+  requestData: unknown
+): Promise<ValidationResult<SetAdjusterAuthorityRequest>> {
+  return validateRequest<SetAdjusterAuthorityRequest>(
+    adjusterAuthoritySchema,
+    requestData,
+    { enableLogging: true }
+  );
+}
+
+/**
+ * Validates a payment approval request
+ * @param requestData The approval request data to validate
+ * @returns Promise resolving to validation result
+ */
+export async function validateApprovePaymentRequest(
+  requestData: unknown
+): Promise<ValidationResult<ApprovePaymentRequest>> {
+  return validateRequest<ApprovePaymentRequest>(
+    approvePaymentSchema,
+    requestData,
+    { enableLogging: true }
+  );
+}
+
+/**
+ * Validates a payment rejection request
+ * @param requestData The rejection request data to validate
+ * @returns Promise resolving to validation result
+ */
+export async function validateRejectPaymentRequest(
+  requestData: unknown
+): Promise<ValidationResult<RejectPaymentRequest>> {
+  return validateRequest<RejectPaymentRequest>(
+    rejectPaymentSchema,
+    requestData,
+    { enableLogging: true }
+  );
+}
+
+/**
+ * Validates an SIU referral closure request
+ * @param requestData The closure request data to validate
+ * @returns Promise resolving to validation result
+ */
+export async function validateCloseSiuReferralRequest(
+  requestData: unknown
+): Promise<ValidationResult<CloseSiuReferralRequest>> {
+  return validateRequest<CloseSiuReferralRequest>(
+    closeSiuReferralSchema,
+    requestData,
+    { enableLogging: true }
+  );
 }
\ No newline at end of file
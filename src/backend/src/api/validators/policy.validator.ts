@@ -12,9 +12,11 @@ import {
   validateDateRange 
 } from '../utils/validation';
 import { PolicyType } from '../../constants/policyTypes';
+import { IProductDefinition, ProductValidationStage } from '../../types/product.types';
+import { findProductRuleViolations, ProductRulesPolicy } from '../../services/ProductRules';
 
 // Types
-type ValidationResult = {
+export type ValidationResult = {
   success: boolean;
   data?: any;
   errors?: Array<{
@@ -56,7 +58,7 @@ const basePolicySchema = createValidationSchema({
   
   deductible: z.number().min(0),
   
-  status: z.enum(['DRAFT', 'QUOTED', 'BOUND', 'ACTIVE', 'CANCELLED', 'EXPIRED']),
+  status: z.enum(['DRAFT', 'QUOTED', 'BOUND', 'ACTIVE', 'CANCELLED', 'EXPIRED', 'PENDING_RENEWAL']),
   
   carrierCode: z.string().min(2).max(10),
   
@@ -271,4 +273,29 @@ export async function validateEndorsementCreate(
   }
 
   return result;
-}
\ No newline at end of file
+}
+/**
+ * Checks a policy against the product definition of its type
+ * @param policyData Coverages, documents and eligibility answers of the policy
+ * @param definition Product definition in effect on the policy effective date
+ * @param stage Lifecycle stage being validated
+ * @returns Validation result listing every product rule the policy breaks
+ */
+export function validatePolicyAgainstProduct(
+  policyData: ProductRulesPolicy,
+  definition: IProductDefinition,
+  stage: ProductValidationStage
+): ValidationResult {
+  const startTime = Date.now();
+  const errors = findProductRuleViolations(policyData, definition, stage);
+
+  return {
+    success: errors.length === 0,
+    ...(errors.length > 0 ? { errors } : { data: policyData }),
+    context: {
+      timestamp: new Date(),
+      duration: Date.now() - startTime,
+      validationLevel: 'strict'
+    }
+  };
+}
@@ -7,11 +7,13 @@
 
 import { z } from '../../utils/validation';
 import { UnderwritingStatus, PolicyType } from '../../types/underwriting.types';
+import { SubjectivityType } from '../../types/policy.types';
 import { 
   RISK_SCORE_THRESHOLDS, 
   RISK_FACTOR_WEIGHTS,
   VALIDATION_RULES,
-  AUTO_APPROVAL_CRITERIA 
+  AUTO_APPROVAL_CRITERIA,
+  RESCORE_LIMITS
 } from '../../constants/underwritingRules';
 
 // Risk Factor Schema
@@ -103,7 +105,9 @@ export const underwritingDecisionSchema = z.object({
     action: z.string().min(1),
     notes: z.string().min(1),
     previousStatus: z.nativeEnum(UnderwritingStatus),
-    newStatus: z.nativeEnum(UnderwritingStatus)
+    newStatus: z.nativeEnum(UnderwritingStatus),
+    referredTo: z.string().optional(),
+    assignedTo: z.string().optional()
   })),
   oneShieldSyncStatus: z.enum(['PENDING', 'SYNCED', 'FAILED'])
 });
@@ -146,6 +150,207 @@ export const validationResultSchema = z.object({
   })
 });
 
+// Underwriting Rule Condition Schema
+const ruleConditionSchema = z.object({
+  field: z.string()
+    .regex(/^(policy|riskAssessment|riskFactors)(\.[A-Za-z0-9_]+)+$/, {
+      message: 'Field must be a path under policy, riskAssessment or riskFactors'
+    }),
+  operator: z.enum([
+    'EQUALS',
+    'NOT_EQUALS',
+    'GREATER_THAN',
+    'GREATER_THAN_OR_EQUAL',
+    'LESS_THAN',
+    'LESS_THAN_OR_EQUAL',
+    'IN',
+    'NOT_IN',
+    'CONTAINS',
+    'EXISTS'
+  ]),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))])
+}).refine(
+  condition => !['IN', 'NOT_IN'].includes(condition.operator) || Array.isArray(condition.value),
+  { message: 'IN and NOT_IN conditions require a list value' }
+).refine(
+  condition => (!condition.operator.startsWith('GREATER_THAN') && !condition.operator.startsWith('LESS_THAN'))
+    || typeof condition.value === 'number',
+  { message: 'Comparison conditions require a numeric value' }
+).refine(
+  condition => condition.operator !== 'EXISTS' || typeof condition.value === 'boolean',
+  { message: 'EXISTS conditions require a boolean value' }
+);
+
+// Underwriting Rule Schema
+export const underwritingRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().min(10).max(1000),
+  policyType: z.nativeEnum(PolicyType).nullable().default(null),
+  criteria: z.object({
+    conditions: z.array(ruleConditionSchema).min(1).max(25),
+    logicalOperator: z.enum(['AND', 'OR'])
+  }),
+  action: z.enum(['APPROVE', 'DECLINE', 'REFER', 'FLAG']),
+  priority: z.number().int().min(0).max(100000),
+  validationRules: z.array(z.object({
+    field: z.string().min(1),
+    type: z.enum(['REQUIRED', 'FORMAT', 'RANGE', 'CUSTOM']),
+    criteria: z.unknown(),
+    errorMessage: z.string().min(1)
+  })).default([]),
+  riskThresholds: z.object({
+    low: z.number().min(0).max(100),
+    medium: z.number().min(0).max(100),
+    high: z.number().min(0).max(100),
+    automatic: z.number().min(0).max(100)
+  }).optional(),
+  automationEligible: z.boolean().default(false),
+  active: z.boolean().default(true)
+});
+
+// Underwriting Rule Update Schema
+export const underwritingRuleUpdateSchema = underwritingRuleSchema.partial()
+  .refine(updates => Object.keys(updates).length > 0, {
+    message: 'At least one rule field must be provided'
+  });
+
+// Underwriting Rule Params Schema
+export const underwritingRuleParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+// Underwriting Rule Query Schema
+export const underwritingRuleQuerySchema = z.object({
+  policyType: z.nativeEnum(PolicyType).optional(),
+  action: z.enum(['APPROVE', 'DECLINE', 'REFER', 'FLAG']).optional(),
+  active: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+});
+
+// Rule Simulation Schema
+export const ruleSimulationSchema = z.object({
+  policyType: z.nativeEnum(PolicyType).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  rules: z.array(underwritingRuleSchema.extend({
+    id: z.string().min(1).optional()
+  })).min(1).max(200).optional(),
+  riskFactorWeights: z.object({
+    CLAIMS_HISTORY: z.number().min(0).max(1),
+    LOCATION_RISK: z.number().min(0).max(1),
+    COVERAGE_AMOUNT: z.number().min(0).max(1),
+    BUSINESS_TYPE: z.number().min(0).max(1)
+  }).refine(
+    weights => Math.abs(Object.values(weights).reduce((sum, weight) => sum + weight, 0) - 1) < 0.001,
+    { message: 'Risk factor weights must sum to 1.0' }
+  ).optional(),
+  limit: z.number().int().min(1).max(20000).optional()
+}).refine(
+  request => request.rules !== undefined || request.riskFactorWeights !== undefined,
+  { message: 'Provide candidate rules, risk factor weights or both' }
+).refine(
+  request => !request.from || !request.to || request.from <= request.to,
+  { message: 'from must not be after to' }
+);
+
+// Underwriter Authority Schema
+export const underwriterAuthoritySchema = z.object({
+  maxLimit: z.number().nonnegative(),
+  maxPremium: z.number().nonnegative(),
+  maxRiskScore: z.number().min(0).max(100),
+  policyTypes: z.array(z.nativeEnum(PolicyType)).min(1),
+  refersToUserId: z.string().uuid().nullable().default(null),
+  active: z.boolean().default(true)
+});
+
+// Underwriter Authority Params Schema
+export const underwriterAuthorityParamsSchema = z.object({
+  userId: z.string().uuid()
+});
+
+// Subjectivity Schema; post-bind subjectivities are due a number of days after binding
+export const subjectivitySchema = z.object({
+  type: z.nativeEnum(SubjectivityType),
+  description: z.string().min(5).max(500),
+  timing: z.enum(['PRE_BIND', 'POST_BIND']),
+  dueDays: z.number().int().min(1).max(365).optional(),
+  documentType: z.string().min(1).max(100).optional()
+}).refine(
+  subjectivity => subjectivity.timing === 'PRE_BIND' || subjectivity.dueDays !== undefined,
+  { message: 'Post-bind subjectivities require dueDays', path: ['dueDays'] }
+);
+
+// Underwriting Review Schema
+export const underwritingReviewSchema = z.object({
+  status: z.enum([UnderwritingStatus.APPROVED, UnderwritingStatus.DECLINED]),
+  notes: z.string().min(10).max(1000),
+  conditions: z.array(z.string().min(1)).optional(),
+  subjectivities: z.array(subjectivitySchema).max(25).optional()
+});
+
+// Underwriting Review Params Schema
+export const underwritingReviewParamsSchema = z.object({
+  policyId: z.string().uuid()
+});
+
+// Decision Assignment Schema; omit the assignee to pick one with the configured strategy
+export const decisionAssignmentSchema = z.object({
+  assigneeId: z.string().uuid().optional(),
+  reason: z.string().min(5).max(500)
+});
+
+// Out Of Office Schema; a null end date marks the underwriter back in office
+export const outOfOfficeSchema = z.object({
+  until: z.coerce.date().nullable()
+});
+
+// SLA Pause Schema; records what the submission is waiting on from the broker
+export const slaPauseSchema = z.object({
+  reason: z.string().min(5).max(500)
+});
+
+// Underwriting Metrics Query Schema; defaults to submissions received in the last 30 days
+export const underwritingMetricsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to'
+});
+
+// Appetite Check Schema; class codes are NAICS codes of two to six digits
+export const appetiteCheckSchema = z.object({
+  policyType: z.nativeEnum(PolicyType),
+  classCode: z.string().regex(/^[0-9]{2,6}$/, { message: 'Class code must be a 2 to 6 digit NAICS code' }),
+  state: z.string().regex(/^[A-Za-z]{2}$/).transform(state => state.toUpperCase()),
+  revenue: z.number().min(0).max(100000000000),
+  requestedLimits: z.object({
+    perOccurrence: z.number().positive(),
+    aggregate: z.number().positive()
+  }).refine(limits => limits.aggregate >= limits.perOccurrence, {
+    message: 'Aggregate limit must be at least the per occurrence limit'
+  }),
+  effectiveDate: z.coerce.date().optional()
+});
+
+// Rescore Run Schema; leave out policyType to re-score every in-force policy
+export const rescoreRunSchema = z.object({
+  policyType: z.nativeEnum(PolicyType).optional(),
+  dryRun: z.boolean().default(false),
+  chunkSize: z.number().int().min(1).max(RESCORE_LIMITS.MAX_CHUNK_SIZE).optional(),
+  concurrency: z.number().int().min(1).max(RESCORE_LIMITS.MAX_CONCURRENCY).optional()
+});
+
+// Rescore Run Params Schema
+export const rescoreRunParamsSchema = z.object({
+  runId: z.string().uuid()
+});
+
+// Rescore Results Query Schema
+export const rescoreResultsQuerySchema = z.object({
+  bandChanged: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
 // Export validation helper functions
 export const validateRiskAssessment = async (data: unknown) => {
   return riskAssessmentSchema.parseAsync(data);
@@ -157,4 +362,52 @@ export const validateUnderwritingDecision = async (data: unknown) => {
 
 export const validateRequiredDocuments = async (data: unknown) => {
   return z.array(requiredDocumentSchema).parseAsync(data);
+};
+
+export const validateUnderwritingRule = async (data: unknown) => {
+  return underwritingRuleSchema.parseAsync(data);
+};
+
+export const validateUnderwritingRuleUpdate = async (data: unknown) => {
+  return underwritingRuleUpdateSchema.parseAsync(data);
+};
+
+export const validateRuleSimulation = async (data: unknown) => {
+  return ruleSimulationSchema.parseAsync(data);
+};
+
+export const validateUnderwriterAuthority = async (data: unknown) => {
+  return underwriterAuthoritySchema.parseAsync(data);
+};
+
+export const validateUnderwritingReview = async (data: unknown) => {
+  return underwritingReviewSchema.parseAsync(data);
+};
+
+export const validateDecisionAssignment = async (data: unknown) => {
+  return decisionAssignmentSchema.parseAsync(data);
+};
+
+export const validateOutOfOffice = async (data: unknown) => {
+  return outOfOfficeSchema.parseAsync(data);
+};
+
+export const validateSlaPause = async (data: unknown) => {
+  return slaPauseSchema.parseAsync(data);
+};
+
+export const validateUnderwritingMetricsQuery = async (data: unknown) => {
+  return underwritingMetricsQuerySchema.parseAsync(data);
+};
+
+export const validateAppetiteCheck = async (data: unknown) => {
+  return appetiteCheckSchema.parseAsync(data);
+};
+
+export const validateRescoreRun = async (data: unknown) => {
+  return rescoreRunSchema.parseAsync(data);
+};
+
+export const validateRescoreResultsQuery = async (data: unknown) => {
+  return rescoreResultsQuerySchema.parseAsync(data);
 };
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * @file Claims handling configuration module for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { DEFAULT_DUAL_APPROVAL_THRESHOLD } from '../constants/claimAuthority';
+import { DEFAULT_LATE_REPORT_DAYS } from '../constants/claimCoverage';
+import { DEFAULT_DUPLICATE_MATCH_THRESHOLD } from '../constants/claimDuplicates';
+import { DEFAULT_SIU_REFERRAL_THRESHOLD } from '../constants/fraudIndicators';
+
+/**
+ * Reads a positive number from the environment
+ * @param name - Environment variable name
+ * @param fallback - Value used when the variable is unset or not a positive number
+ * @returns Configured number, or the fallback
+ */
+const readPositiveNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+};
+
+/**
+ * Claims handling thresholds, overridable per environment
+ */
+export const claimsConfig = {
+  // Payment amount above which two approvers are required
+  dualApprovalThreshold: readPositiveNumber('CLAIM_DUAL_APPROVAL_THRESHOLD', DEFAULT_DUAL_APPROVAL_THRESHOLD),
+  // Days after the incident within which a loss should be reported
+  lateReportDays: readPositiveNumber('CLAIM_LATE_REPORT_DAYS', DEFAULT_LATE_REPORT_DAYS),
+  // SIU referral score at or above which a claim is referred
+  siuReferralThreshold: readPositiveNumber('CLAIM_SIU_REFERRAL_THRESHOLD', DEFAULT_SIU_REFERRAL_THRESHOLD),
+  // Match score at or above which a claim is a possible duplicate
+  duplicateMatchThreshold: readPositiveNumber('CLAIM_DUPLICATE_MATCH_THRESHOLD', DEFAULT_DUPLICATE_MATCH_THRESHOLD)
+};
+
+export default claimsConfig;
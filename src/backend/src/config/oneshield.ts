@@ -81,7 +81,8 @@ export const oneshieldConfig = {
       update: '/api/policy/v1/policies/:id',
       get: '/api/policy/v1/policies/:id',
       search: '/api/policy/v1/policies/search',
-      bind: '/api/policy/v1/policies/:id/bind'
+      bind: '/api/policy/v1/policies/:id/bind',
+      transaction: '/api/policy/v1/policies/:id/transactions'
     },
     rateLimit: {
       windowMs: 60000,
@@ -0,0 +1,78 @@
+/**
+ * @file Cancellation rules and return premium tables for mid-term cancellations
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * Defines the default return premium method by cancellation reason, the
+ * standard short-rate table used when the insured requests cancellation and
+ * the grace window for reinstating cancelled policies.
+ */
+
+import { CancellationMethod, CancellationReason } from '../types/policy.types';
+
+/**
+ * Default return premium method by cancellation reason
+ * Insured-initiated cancellations are penalized via short-rate; company-initiated are pro-rata
+ */
+export const CANCELLATION_METHOD_BY_REASON: Record<CancellationReason, CancellationMethod> = {
+    [CancellationReason.INSURED_REQUEST]: CancellationMethod.SHORT_RATE,
+    [CancellationReason.NON_PAYMENT]: CancellationMethod.PRO_RATA,
+    [CancellationReason.UNDERWRITING]: CancellationMethod.PRO_RATA
+};
+
+/**
+ * Minimum notice (in days) required before a company-initiated cancellation takes effect
+ */
+export const CANCELLATION_NOTICE_DAYS: Record<CancellationReason, number> = {
+    [CancellationReason.INSURED_REQUEST]: 0,
+    [CancellationReason.NON_PAYMENT]: 10,
+    [CancellationReason.UNDERWRITING]: 30
+};
+
+/**
+ * Number of days the short-rate table is expressed against
+ * Terms of other lengths are scaled to this basis before lookup
+ */
+export const SHORT_RATE_BASIS_DAYS = 365;
+
+/**
+ * Standard one-year short-rate cancellation table
+ * Each entry is [maximum days in force, percent of annual premium earned]
+ */
+export const SHORT_RATE_TABLE: ReadonlyArray<readonly [number, number]> = [
+    [1, 5], [2, 6], [4, 7], [6, 8], [8, 9], [10, 10], [12, 11], [14, 12],
+    [16, 13], [18, 14], [20, 15], [22, 16], [25, 17], [29, 18], [32, 19],
+    [36, 20], [40, 21], [43, 22], [47, 23], [51, 24], [54, 25], [58, 26],
+    [62, 27], [65, 28], [69, 29], [73, 30], [76, 31], [80, 32], [83, 33],
+    [87, 34], [91, 35], [94, 36], [98, 37], [102, 38], [105, 39], [109, 40],
+    [113, 41], [116, 42], [120, 43], [124, 44], [127, 45], [131, 46], [135, 47],
+    [138, 48], [142, 49], [146, 50], [149, 51], [153, 52], [156, 53], [160, 54],
+    [164, 55], [167, 56], [171, 57], [175, 58], [178, 59], [182, 60], [187, 61],
+    [191, 62], [196, 63], [200, 64], [205, 65], [209, 66], [214, 67], [218, 68],
+    [223, 69], [228, 70], [232, 71], [237, 72], [241, 73], [246, 74], [250, 75],
+    [255, 76], [260, 77], [264, 78], [269, 79], [273, 80], [278, 81], [282, 82],
+    [287, 83], [291, 84], [296, 85], [301, 86], [305, 87], [310, 88], [314, 89],
+    [319, 90], [323, 91], [328, 92], [332, 93], [337, 94], [342, 95], [346, 96],
+    [351, 97], [355, 98], [360, 99], [365, 100]
+];
+
+/**
+ * Number of days after the cancellation effective date within which a
+ * non-payment cancellation may be reinstated
+ * Overridable per deployment via REINSTATEMENT_GRACE_DAYS
+ */
+export const REINSTATEMENT_GRACE_DAYS = Number(process.env.REINSTATEMENT_GRACE_DAYS) || 30;
+
+/**
+ * Number of days a post-bind subjectivity may stay overdue before the policy
+ * is eligible for an underwriting cancellation notice
+ * Overridable per deployment via SUBJECTIVITY_CANCELLATION_GRACE_DAYS
+ */
+export const SUBJECTIVITY_CANCELLATION_GRACE_DAYS = Number(process.env.SUBJECTIVITY_CANCELLATION_GRACE_DAYS) || 10;
+
+/**
+ * Cancellation reasons eligible for reinstatement
+ */
+export const REINSTATABLE_CANCELLATION_REASONS: ReadonlyArray<CancellationReason> = [
+    CancellationReason.NON_PAYMENT
+];
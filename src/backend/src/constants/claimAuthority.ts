@@ -0,0 +1,15 @@
+/**
+ * @file Claim payment authority settings
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * Payments above the dual approval threshold need two approvers besides the
+ * adjuster who requested them, whatever that adjuster's own authority. The
+ * threshold in effect is read from the claims configuration, where it can be
+ * set with CLAIM_DUAL_APPROVAL_THRESHOLD.
+ */
+
+/**
+ * Default payment amount above which two approvers are required
+ */
+export const DEFAULT_DUAL_APPROVAL_THRESHOLD = 100000;
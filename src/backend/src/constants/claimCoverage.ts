@@ -0,0 +1,15 @@
+/**
+ * @file Claim coverage verification settings
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * A claim reported more than the late reporting threshold after its incident
+ * carries a late reporting warning for the adjuster. The threshold in effect is
+ * read from the claims configuration, where it can be set with
+ * CLAIM_LATE_REPORT_DAYS.
+ */
+
+/**
+ * Default number of days after the incident within which a loss should be reported
+ */
+export const DEFAULT_LATE_REPORT_DAYS = 30;
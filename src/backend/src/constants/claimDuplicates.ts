@@ -0,0 +1,25 @@
+/**
+ * @file Duplicate claim detection settings
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * A submission is matched against claims on the same policy whose incident falls
+ * within the incident window. Matches scoring at or above the duplicate match
+ * threshold are possible duplicates. The threshold in effect is read from the
+ * claims configuration, where it can be set with CLAIM_DUPLICATE_MATCH_THRESHOLD.
+ */
+
+/**
+ * Days either side of the submitted incident date searched for duplicates
+ */
+export const DUPLICATE_INCIDENT_WINDOW_DAYS = 3;
+
+/**
+ * Distance in miles within which two incident locations are the same place
+ */
+export const DUPLICATE_LOCATION_MILES = 0.5;
+
+/**
+ * Default match score at or above which a claim is a possible duplicate
+ */
+export const DEFAULT_DUPLICATE_MATCH_THRESHOLD = 70;
@@ -0,0 +1,20 @@
+/**
+ * @file Endorsement rules for mid-term policy changes
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * Defines which policy fields may be changed by endorsement. Endorsement
+ * changes are applied to these fields in effective date order so that
+ * out-of-sequence endorsements can be rolled back and re-applied.
+ */
+
+/**
+ * Policy fields an endorsement may change
+ * Premium is never endorsed directly; it is derived from the prorated rating
+ */
+export const ENDORSABLE_POLICY_FIELDS = [
+    'coverages',
+    'policyHolder',
+    'billingInfo',
+    'carrierInfo'
+] as const;
@@ -0,0 +1,50 @@
+/**
+ * @file Claims fraud screening settings
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * Each triggered indicator adds its weight to a claim's SIU referral score.
+ * Claims scoring at or above the referral threshold are referred to special
+ * investigations. The threshold in effect is read from the claims configuration,
+ * where it can be set with CLAIM_SIU_REFERRAL_THRESHOLD.
+ */
+
+import { FraudIndicatorCode } from '../types/claims.types';
+
+/**
+ * Weight each triggered indicator adds to the SIU referral score
+ */
+export const FRAUD_INDICATOR_WEIGHTS: Record<FraudIndicatorCode, number> = {
+    [FraudIndicatorCode.EARLY_LOSS]: 25,
+    [FraudIndicatorCode.POST_ENDORSEMENT_LOSS]: 20,
+    [FraudIndicatorCode.REPEAT_CLAIMANT]: 20,
+    [FraudIndicatorCode.ROUND_AMOUNT]: 10,
+    [FraudIndicatorCode.LOCATION_MISMATCH]: 15,
+    [FraudIndicatorCode.DOCUMENTS_BEFORE_INCIDENT]: 30
+};
+
+/**
+ * Days after policy inception within which a loss is an early loss
+ */
+export const EARLY_LOSS_DAYS = 30;
+
+/**
+ * Days after an endorsement takes effect within which a loss is flagged
+ */
+export const POST_ENDORSEMENT_LOSS_DAYS = 30;
+
+/**
+ * Amounts that are an exact multiple of this unit are round amounts
+ */
+export const ROUND_AMOUNT_UNIT = 1000;
+
+/**
+ * Distance in miles between the incident and the insured address above which
+ * the locations are a mismatch
+ */
+export const LOCATION_MISMATCH_MILES = 50;
+
+/**
+ * Default SIU referral score at or above which a claim is referred
+ */
+export const DEFAULT_SIU_REFERRAL_THRESHOLD = 50;
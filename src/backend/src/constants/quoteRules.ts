@@ -0,0 +1,18 @@
+/**
+ * @file Quote rules for multi-option submissions
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * Defines how long quote options remain bindable and how many options may
+ * be open on a single submission at once.
+ */
+
+/**
+ * Number of days a quote option remains bindable when no expiry is given
+ */
+export const QUOTE_VALIDITY_DAYS = 30;
+
+/**
+ * Maximum number of open (active) quote options per submission
+ */
+export const MAX_ACTIVE_QUOTE_OPTIONS = 5;
@@ -0,0 +1,57 @@
+/**
+ * @file Renewal rules and constants for policy term renewal processing
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ *
+ * Defines the renewal windows, notice requirements and re-rating factors
+ * used when generating renewal terms for expiring policies.
+ */
+
+/**
+ * Renewal processing windows (in days before expiration)
+ */
+export const RENEWAL_WINDOWS = {
+    OFFER_WINDOW_DAYS: 90,          // Policies expiring within this window are picked up for renewal
+    OFFER_VALIDITY_DAYS: 30,        // Renewal offers remain open for this many days
+    MIN_NON_RENEWAL_NOTICE_DAYS: 60 // Minimum notice required before expiration for non-renewal
+} as const;
+
+/**
+ * Default rate trend applied to every renewal term before experience rating
+ */
+export const RENEWAL_RATE_TREND = 0.05;
+
+/**
+ * Premium adjustment applied to renewals within a loss ratio band
+ */
+export interface RenewalExperienceBand {
+    readonly maxLossRatio: number;
+    readonly adjustment: number;
+}
+
+/**
+ * Band applied when the expiring term loss ratio exceeds every listed band
+ */
+export const RENEWAL_WORST_EXPERIENCE_BAND: RenewalExperienceBand = { maxLossRatio: 1.00, adjustment: 0.25 };
+
+/**
+ * Experience-based premium adjustments keyed by expiring term loss ratio
+ * Ordered ascending; the first band whose maxLossRatio is not exceeded applies
+ */
+export const RENEWAL_EXPERIENCE_BANDS: readonly RenewalExperienceBand[] = [
+    { maxLossRatio: 0.30, adjustment: -0.05 },
+    { maxLossRatio: 0.60, adjustment: 0.00 },
+    { maxLossRatio: 0.80, adjustment: 0.10 },
+    RENEWAL_WORST_EXPERIENCE_BAND
+];
+
+/**
+ * Loss ratio above which a renewal must be referred to an underwriter
+ * rather than re-rated automatically
+ */
+export const RENEWAL_REFERRAL_LOSS_RATIO = 1.00;
+
+/**
+ * Maximum adjustment (positive or negative) allowed on a renewal premium
+ */
+export const MAX_RENEWAL_RATE_CHANGE = 0.50;
@@ -5,9 +5,16 @@
  * 
  * Defines the core underwriting rules, thresholds and criteria used by the 
  * automated underwriting engine for risk assessment and policy approval.
+ * Coverage limits, deductibles and required documents are defined per product
+ * in the versioned product definition files under data/products.
  */
 
-import { PolicyType } from './policyTypes';
+/**
+ * Version of the published underwriting configuration
+ * Bump whenever the thresholds, weights or auto-approval criteria below change
+ * so clients holding the previous configuration refresh it
+ */
+export const UNDERWRITING_CONFIG_VERSION = '1.0.0';
 
 /**
  * Risk score thresholds for underwriting decisions
@@ -19,31 +26,6 @@ export const RISK_SCORE_THRESHOLDS = {
     HIGH_RISK: 85      // Requires full underwriter review
 } as const;
 
-/**
- * Coverage limit rules by policy type (in USD)
- * Defines minimum and maximum coverage amounts allowed
- */
-export const COVERAGE_LIMIT_RULES = {
-    [PolicyType.COMMERCIAL_PROPERTY]: {
-        MIN_COVERAGE: 100_000,
-        MAX_COVERAGE: 10_000_000,
-        MIN_DEDUCTIBLE: 1_000,
-        MAX_DEDUCTIBLE: 100_000
-    },
-    [PolicyType.GENERAL_LIABILITY]: {
-        MIN_COVERAGE: 500_000,
-        MAX_COVERAGE: 5_000_000,
-        MIN_DEDUCTIBLE: 2_500,
-        MAX_DEDUCTIBLE: 50_000
-    },
-    [PolicyType.PROFESSIONAL_LIABILITY]: {
-        MIN_COVERAGE: 250_000,
-        MAX_COVERAGE: 3_000_000,
-        MIN_DEDUCTIBLE: 5_000,
-        MAX_DEDUCTIBLE: 25_000
-    }
-} as const;
-
 /**
  * Risk factor weights for calculating overall risk score
  * Weights should sum to 1.0 (100%)
@@ -69,28 +51,53 @@ export const AUTO_APPROVAL_CRITERIA = {
 } as const;
 
 /**
- * Required documentation by policy type for underwriting
- * All documents must be provided for underwriting review
+ * Strategies for assigning in-review and referred submissions to underwriters
+ * ROUND_ROBIN rotates through available underwriters, LEAST_LOADED picks the
+ * smallest open queue, SKILLS_BASED picks the least loaded underwriter whose
+ * authority covers the policy type, limit, premium and risk score
+ */
+export const ASSIGNMENT_STRATEGIES = ['ROUND_ROBIN', 'LEAST_LOADED', 'SKILLS_BASED'] as const;
+
+export const DEFAULT_ASSIGNMENT_STRATEGY = 'SKILLS_BASED';
+
+/**
+ * Underwriting stages timed against broker turnaround promises
+ * INTAKE runs from submission to the automated decision, REVIEW while an
+ * underwriter reviews, REFERRAL while referred above the reviewer's authority,
+ * QUOTE_ISSUED from approval until the first quote option is offered
+ */
+export const SLA_STAGES = ['INTAKE', 'REVIEW', 'REFERRAL', 'QUOTE_ISSUED'] as const;
+
+/**
+ * Turnaround target per stage in minutes, excluding time waiting on broker documents
+ */
+export const SLA_TARGET_MINUTES = {
+    INTAKE: 4 * 60,
+    REVIEW: 2 * 24 * 60,
+    REFERRAL: 24 * 60,
+    QUOTE_ISSUED: 24 * 60
+} as const;
+
+/**
+ * Share of a stage target after which the clock is at risk
+ */
+export const SLA_AT_RISK_RATIO = 0.8;
+
+/**
+ * Hours after a submission goes pending documents at which the broker is reminded
+ * of outstanding checklist items; no reminders are sent after the last one
+ */
+export const CHECKLIST_REMINDER_HOURS = [24, 72, 168] as const;
+
+/**
+ * Defaults and ceilings for re-scoring the in-force book: policies are read in
+ * chunks and a bounded number of each chunk are scored at once
  */
-export const REQUIRED_DOCUMENTS = {
-    [PolicyType.COMMERCIAL_PROPERTY]: [
-        'property_valuation_report',
-        'building_inspection_report',
-        'loss_prevention_measures',
-        'business_continuity_plan'
-    ],
-    [PolicyType.GENERAL_LIABILITY]: [
-        'business_operations_description',
-        'safety_procedures_manual',
-        'employee_training_records',
-        'premises_photos'
-    ],
-    [PolicyType.PROFESSIONAL_LIABILITY]: [
-        'professional_certifications',
-        'service_contracts_sample',
-        'quality_control_procedures',
-        'staff_qualifications'
-    ]
+export const RESCORE_LIMITS = {
+    DEFAULT_CHUNK_SIZE: 200,
+    MAX_CHUNK_SIZE: 1000,
+    DEFAULT_CONCURRENCY: 10,
+    MAX_CONCURRENCY: 50
 } as const;
 
 /**
@@ -117,6 +124,17 @@ export const RISK_MULTIPLIERS = {
     }
 } as const;
 
+/**
+ * Perils with a catastrophe-zone dataset under data/location-zones
+ * The worst zone across perils sets the location risk multiplier
+ */
+export const LOCATION_PERILS = ['FLOOD', 'WIND', 'WILDFIRE', 'EARTHQUAKE', 'CRIME'] as const;
+
+/**
+ * Location risk factor score in a low risk zone, scaled by the zone multiplier
+ */
+export const LOCATION_RISK_BASE_SCORE = 30;
+
 /**
  * Validation rules for underwriting data completeness
  * All required fields must be present and valid
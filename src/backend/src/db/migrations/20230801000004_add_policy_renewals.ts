@@ -0,0 +1,40 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds renewal tracking to the policies table
+ * Links renewal terms to their expiring policy and records non-renewal decisions
+ */
+export async function up(knex: Knex): Promise<void> {
+    // Extend policy status type with the renewal path
+    await knex.raw(`ALTER TYPE policy_status ADD VALUE IF NOT EXISTS 'PENDING_RENEWAL'`);
+
+    await knex.schema.alterTable('policies', (table) => {
+        // Renewal lineage, offer and non-renewal details
+        table.jsonb('renewal_info').nullable();
+    });
+
+    await knex.schema.raw(`
+        -- Expression index for locating the renewal term of an expiring policy
+        CREATE INDEX idx_policies_previous_policy_id
+            ON policies ((renewal_info->>'previousPolicyId'));
+
+        -- Expression index for renewal status queries
+        CREATE INDEX idx_policies_renewal_status
+            ON policies ((renewal_info->>'status'));
+    `);
+}
+
+/**
+ * Removes renewal tracking from the policies table
+ * Note: PostgreSQL does not support removing enum values; PENDING_RENEWAL remains on the type
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.raw(`
+        DROP INDEX IF EXISTS idx_policies_previous_policy_id;
+        DROP INDEX IF EXISTS idx_policies_renewal_status;
+    `);
+
+    await knex.schema.alterTable('policies', (table) => {
+        table.dropColumn('renewal_info');
+    });
+}
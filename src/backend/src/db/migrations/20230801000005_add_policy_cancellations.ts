@@ -0,0 +1,31 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds mid-term cancellation tracking to the policies table
+ * Records cancellation reason, return premium calculation and refund status
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('policies', (table) => {
+        // Cancellation details and return premium breakdown
+        table.jsonb('cancellation_info').nullable();
+    });
+
+    await knex.schema.raw(`
+        -- Expression index for locating cancellations with outstanding refunds
+        CREATE INDEX idx_policies_refund_status
+            ON policies ((cancellation_info->>'refundStatus'));
+    `);
+}
+
+/**
+ * Removes cancellation tracking from the policies table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.raw(`
+        DROP INDEX IF EXISTS idx_policies_refund_status;
+    `);
+
+    await knex.schema.alterTable('policies', (table) => {
+        table.dropColumn('cancellation_info');
+    });
+}
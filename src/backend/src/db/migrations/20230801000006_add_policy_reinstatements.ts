@@ -0,0 +1,25 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds reinstatement tracking and an audit log to the policies table
+ * Records reinstatement variant, lapse period and premium recalculation
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('policies', (table) => {
+        // Reinstatement details for policies restored after cancellation
+        table.jsonb('reinstatement_info').nullable();
+
+        // Append-only audit trail of lifecycle transactions
+        table.jsonb('audit_log').notNullable().defaultTo('[]');
+    });
+}
+
+/**
+ * Removes reinstatement tracking and the audit log from the policies table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('policies', (table) => {
+        table.dropColumn('reinstatement_info');
+        table.dropColumn('audit_log');
+    });
+}
@@ -0,0 +1,36 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds prorated rating and sequencing snapshots to the endorsements table
+ * Drops the effective date constraint so back-dated (out-of-sequence) endorsements can be recorded
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('endorsements', (table) => {
+        // Annualized premium delta and its proration to expiration
+        table.jsonb('rating').nullable();
+
+        // Policy field values replaced by this endorsement, used to roll it back
+        table.jsonb('previous_values').nullable();
+    });
+
+    await knex.raw(`
+        ALTER TABLE endorsements DROP CONSTRAINT IF EXISTS chk_endorsement_effective_date;
+    `);
+}
+
+/**
+ * Removes endorsement rating and restores the effective date constraint
+ * The constraint is restored NOT VALID so existing back-dated endorsements are retained
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.raw(`
+        ALTER TABLE endorsements
+            ADD CONSTRAINT chk_endorsement_effective_date
+            CHECK (effective_date >= created_at) NOT VALID;
+    `);
+
+    await knex.schema.alterTable('endorsements', (table) => {
+        table.dropColumn('rating');
+        table.dropColumn('previous_values');
+    });
+}
@@ -0,0 +1,93 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the policy_versions table holding immutable point-in-time policy snapshots
+ * One row is written per bound transaction; rows are closed or superseded, never rewritten
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('policy_versions', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('policy_id')
+            .notNullable()
+            .references('id')
+            .inTable('policies')
+            .onDelete('CASCADE');
+
+        table.integer('version_number').notNullable();
+
+        table.enu('transaction_type', [
+            'NEW_BUSINESS',
+            'ENDORSEMENT',
+            'RENEWAL',
+            'CANCELLATION',
+            'REINSTATEMENT',
+            'STATUS_CHANGE'
+        ], {
+            useNative: true,
+            enumName: 'policy_transaction_type'
+        }).notNullable();
+
+        // Period during which the snapshot was the policy in force
+        table.timestamp('effective_from').notNullable();
+        table.timestamp('effective_to').nullable();
+
+        // Full policy state as of effective_from
+        table.jsonb('snapshot').notNullable();
+
+        // Originating record (endorsement, expiring policy) and user
+        table.uuid('source_id').nullable();
+        table.string('created_by').nullable();
+
+        // Set when a back-dated transaction displaces this version
+        table.timestamp('superseded_at').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.unique(['policy_id', 'version_number']);
+        table.index(['source_id'], 'idx_policy_versions_source_id');
+    });
+
+    await knex.schema.raw(`
+        -- Supports as-of lookups over the current (non-superseded) version chain
+        CREATE INDEX idx_policy_versions_as_of
+            ON policy_versions (policy_id, effective_from, effective_to)
+            WHERE superseded_at IS NULL;
+
+        -- Snapshots are immutable once written
+        CREATE OR REPLACE FUNCTION prevent_policy_snapshot_update()
+        RETURNS TRIGGER AS $$
+        BEGIN
+            IF NEW.snapshot IS DISTINCT FROM OLD.snapshot
+                OR NEW.effective_from IS DISTINCT FROM OLD.effective_from
+                OR NEW.version_number IS DISTINCT FROM OLD.version_number THEN
+                RAISE EXCEPTION 'Policy version % is immutable', OLD.id;
+            END IF;
+            RETURN NEW;
+        END;
+        $$ LANGUAGE plpgsql;
+
+        CREATE TRIGGER trg_policy_versions_immutable
+            BEFORE UPDATE ON policy_versions
+            FOR EACH ROW
+            EXECUTE FUNCTION prevent_policy_snapshot_update();
+    `);
+}
+
+/**
+ * Drops the policy_versions table and its supporting objects
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.raw(`
+        DROP TRIGGER IF EXISTS trg_policy_versions_immutable ON policy_versions;
+        DROP FUNCTION IF EXISTS prevent_policy_snapshot_update();
+    `);
+
+    await knex.schema.dropTableIfExists('policy_versions');
+    await knex.raw('DROP TYPE IF EXISTS policy_transaction_type');
+}
@@ -0,0 +1,31 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds the rated premium breakdown to the policies table
+ * Records the rate table version, exposure, factors and modifiers behind the premium
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('policies', (table) => {
+        // Premium breakdown produced by the rating engine
+        table.jsonb('premium_breakdown').nullable();
+    });
+
+    await knex.schema.raw(`
+        -- Expression index for locating policies rated on a given rate table version
+        CREATE INDEX idx_policies_rate_table_version
+            ON policies ((premium_breakdown->>'rateTableVersion'));
+    `);
+}
+
+/**
+ * Removes the premium breakdown from the policies table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.raw(`
+        DROP INDEX IF EXISTS idx_policies_rate_table_version;
+    `);
+
+    await knex.schema.alterTable('policies', (table) => {
+        table.dropColumn('premium_breakdown');
+    });
+}
@@ -0,0 +1,71 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the policy_quotes table holding the quote options offered on a submission
+ * Each option carries its own coverages, premium and expiry; one option may be bound
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('policy_quotes', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('policy_id')
+            .notNullable()
+            .references('id')
+            .inTable('policies')
+            .onDelete('CASCADE');
+
+        table.integer('option_number').notNullable();
+        table.string('label', 100).notNullable();
+
+        // Coverage set, premium and rating behind this option
+        table.jsonb('coverages').notNullable();
+        table.decimal('premium', 10, 2).notNullable();
+        table.jsonb('premium_breakdown').nullable();
+
+        table.timestamp('expiration_date').notNullable();
+
+        table.enu('status', ['ACTIVE', 'BOUND', 'SUPERSEDED', 'EXPIRED'], {
+            useNative: true,
+            enumName: 'quote_status'
+        }).notNullable().defaultTo('ACTIVE');
+
+        table.string('created_by').nullable();
+        table.string('bound_by').nullable();
+        table.timestamp('bound_at').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.unique(['policy_id', 'option_number']);
+        table.index(['policy_id', 'status'], 'idx_policy_quotes_policy_status');
+
+        table.check('?? >= 0', ['premium'], 'chk_policy_quotes_premium');
+    });
+
+    await knex.schema.raw(`
+        -- At most one bound option per submission
+        CREATE UNIQUE INDEX idx_policy_quotes_one_bound
+            ON policy_quotes (policy_id)
+            WHERE status = 'BOUND';
+
+        -- Supports expiry sweeps over open options
+        CREATE INDEX idx_policy_quotes_active_expiration
+            ON policy_quotes (expiration_date)
+            WHERE status = 'ACTIVE';
+    `);
+}
+
+/**
+ * Drops the policy_quotes table and its enum type
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('policy_quotes');
+    await knex.raw('DROP TYPE IF EXISTS quote_status');
+}
@@ -0,0 +1,21 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds the answers to the product's eligibility questions to the policies table
+ * Answers are keyed by question ID from the product definition version in effect
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('policies', (table) => {
+        // Eligibility answers captured on submission
+        table.jsonb('eligibility_answers').nullable();
+    });
+}
+
+/**
+ * Removes the eligibility answers from the policies table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('policies', (table) => {
+        table.dropColumn('eligibility_answers');
+    });
+}
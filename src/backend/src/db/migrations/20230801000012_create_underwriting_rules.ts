@@ -0,0 +1,97 @@
+import { Knex } from 'knex'; // v2.5.1
+import { RISK_SCORE_THRESHOLDS } from '../../constants/underwritingRules';
+
+/**
+ * Creates the underwriting_rules table read by the underwriting rules engine
+ * and seeds the default risk score rules the engine replaced, at the default risk
+ * score thresholds
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('underwriting_rules', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.string('name', 100).notNullable();
+        table.text('description').notNullable();
+
+        // Null applies the rule to every policy type
+        table.string('policy_type', 50).nullable();
+
+        // Conditions and logical operator evaluated against the policy and risk assessment
+        table.jsonb('criteria').notNullable();
+
+        table.enu('action', ['APPROVE', 'DECLINE', 'REFER', 'FLAG'], {
+            useNative: true,
+            enumName: 'underwriting_rule_action'
+        }).notNullable();
+
+        // Lower numbers are evaluated first
+        table.integer('priority').notNullable();
+
+        table.jsonb('validation_rules').notNullable().defaultTo('[]');
+        table.jsonb('risk_thresholds').nullable();
+        table.boolean('automation_eligible').notNullable().defaultTo(false);
+        table.boolean('active').notNullable().defaultTo(true);
+
+        table.string('created_by').nullable();
+        table.string('updated_by').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['policy_type', 'active', 'priority'], 'idx_underwriting_rules_lookup');
+    });
+
+    await knex('underwriting_rules').insert([
+        {
+            name: 'Low risk auto-approval',
+            description: 'Automatically approved based on low risk score',
+            criteria: JSON.stringify({
+                conditions: [{ field: 'riskAssessment.riskScore', operator: 'LESS_THAN_OR_EQUAL', value: RISK_SCORE_THRESHOLDS.LOW_RISK }],
+                logicalOperator: 'AND'
+            }),
+            action: 'APPROVE',
+            priority: 100,
+            automation_eligible: true
+        },
+        {
+            name: 'High risk referral',
+            description: 'Requires senior underwriter review',
+            criteria: JSON.stringify({
+                conditions: [{ field: 'riskAssessment.riskScore', operator: 'GREATER_THAN_OR_EQUAL', value: RISK_SCORE_THRESHOLDS.HIGH_RISK }],
+                logicalOperator: 'AND'
+            }),
+            action: 'REFER',
+            priority: 200,
+            automation_eligible: false
+        },
+        {
+            name: 'Standard review',
+            description: 'Standard review required',
+            criteria: JSON.stringify({
+                conditions: [
+                    { field: 'riskAssessment.riskScore', operator: 'GREATER_THAN', value: RISK_SCORE_THRESHOLDS.LOW_RISK },
+                    { field: 'riskAssessment.riskScore', operator: 'LESS_THAN', value: RISK_SCORE_THRESHOLDS.HIGH_RISK }
+                ],
+                logicalOperator: 'AND'
+            }),
+            action: 'FLAG',
+            priority: 300,
+            automation_eligible: false
+        }
+    ]);
+}
+
+/**
+ * Drops the underwriting_rules table and its enum type
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('underwriting_rules');
+    await knex.raw('DROP TYPE IF EXISTS underwriting_rule_action');
+}
@@ -0,0 +1,55 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the underwriting_decisions table recording every automated decision
+ * with the assessment and policy it was made on, so candidate rules can be replayed
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('underwriting_decisions', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('policy_id')
+            .notNullable()
+            .references('id')
+            .inTable('policies')
+            .onDelete('CASCADE');
+
+        table.string('policy_type', 50).notNullable();
+        table.string('status', 50).notNullable();
+
+        // Assessment the decision was made on
+        table.decimal('risk_score', 5, 2).notNullable();
+        table.jsonb('risk_factors').notNullable();
+        table.jsonb('fired_rule_ids').notNullable().defaultTo('[]');
+
+        table.enu('automation_level', ['FULL', 'PARTIAL', 'MANUAL'], {
+            useNative: true,
+            enumName: 'underwriting_automation_level'
+        }).notNullable();
+
+        table.string('decided_by').notNullable();
+
+        // Policy as it stood when decided
+        table.decimal('premium', 12, 2).notNullable().defaultTo(0);
+        table.jsonb('policy_snapshot').notNullable();
+
+        table.timestamp('decided_at').notNullable();
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['policy_type', 'decided_at'], 'idx_underwriting_decisions_type_date');
+        table.index(['policy_id', 'decided_at'], 'idx_underwriting_decisions_policy_date');
+    });
+}
+
+/**
+ * Drops the underwriting_decisions table and its enum type
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('underwriting_decisions');
+    await knex.raw('DROP TYPE IF EXISTS underwriting_automation_level');
+}
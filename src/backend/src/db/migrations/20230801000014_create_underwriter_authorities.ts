@@ -0,0 +1,68 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the underwriter_authorities table holding each underwriter's authority
+ * matrix and referral chain, and adds the manual review outcome to underwriting decisions
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('underwriter_authorities', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('user_id')
+            .notNullable()
+            .unique()
+            .references('id')
+            .inTable('users')
+            .onDelete('CASCADE');
+
+        // Largest per occurrence limit, premium and risk score the underwriter may approve
+        table.decimal('max_limit', 15, 2).notNullable();
+        table.decimal('max_premium', 12, 2).notNullable();
+        table.decimal('max_risk_score', 5, 2).notNullable();
+
+        // Policy types the underwriter may approve
+        table.jsonb('policy_types').notNullable().defaultTo('[]');
+
+        // Next underwriter up the referral chain; null ends the chain
+        table.uuid('refers_to_user_id')
+            .nullable()
+            .references('id')
+            .inTable('users')
+            .onDelete('SET NULL');
+
+        table.boolean('active').notNullable().defaultTo(true);
+
+        table.string('updated_by').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+    });
+
+    await knex.schema.alterTable('underwriting_decisions', (table) => {
+        // Outcome of underwriter review; the automated status is kept for replay
+        table.string('review_status', 50).nullable();
+        table.jsonb('review_history').notNullable().defaultTo('[]');
+
+        // Underwriter the decision is currently referred to
+        table.uuid('referred_to').nullable();
+    });
+}
+
+/**
+ * Removes the manual review columns and drops the underwriter_authorities table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('underwriting_decisions', (table) => {
+        table.dropColumn('review_status');
+        table.dropColumn('review_history');
+        table.dropColumn('referred_to');
+    });
+    await knex.schema.dropTableIfExists('underwriter_authorities');
+}
@@ -0,0 +1,39 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds underwriter assignment to underwriting decisions and the availability
+ * and rotation fields the assignment strategies read to underwriter_authorities
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('underwriter_authorities', (table) => {
+        // Underwriter receives no new work until this time
+        table.timestamp('out_of_office_until').nullable();
+
+        // Most recent assignment, used to rotate round-robin assignment
+        table.timestamp('last_assigned_at').nullable();
+    });
+
+    await knex.schema.alterTable('underwriting_decisions', (table) => {
+        // Underwriter working the decision while it is in review or referred
+        table.uuid('assigned_to').nullable();
+        table.timestamp('assigned_at').nullable();
+
+        table.index(['assigned_to'], 'idx_underwriting_decisions_assigned_to');
+    });
+}
+
+/**
+ * Removes underwriter assignment and availability fields
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('underwriting_decisions', (table) => {
+        table.dropIndex(['assigned_to'], 'idx_underwriting_decisions_assigned_to');
+        table.dropColumn('assigned_to');
+        table.dropColumn('assigned_at');
+    });
+
+    await knex.schema.alterTable('underwriter_authorities', (table) => {
+        table.dropColumn('out_of_office_until');
+        table.dropColumn('last_assigned_at');
+    });
+}
@@ -0,0 +1,57 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the underwriting_sla_clocks table holding one turnaround clock per
+ * submission and underwriting stage
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('underwriting_sla_clocks', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('policy_id')
+            .notNullable()
+            .references('id')
+            .inTable('policies')
+            .onDelete('CASCADE');
+
+        // INTAKE, REVIEW, REFERRAL or QUOTE_ISSUED
+        table.string('stage', 50).notNullable();
+
+        // Turnaround target in force when the clock started
+        table.integer('target_minutes').notNullable();
+
+        table.timestamp('started_at').notNullable();
+
+        // Set while the submission waits on broker documents
+        table.timestamp('paused_at').nullable();
+        table.string('pause_reason').nullable();
+
+        // Time spent paused across earlier pauses, excluded from the elapsed time
+        table.decimal('paused_minutes', 12, 2).notNullable().defaultTo(0);
+
+        table.timestamp('completed_at').nullable();
+
+        // Most severe alert sent for the clock, so each level is alerted once
+        table.string('alert_level', 20).notNullable().defaultTo('ON_TRACK');
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['policy_id', 'stage'], 'idx_underwriting_sla_clocks_policy_stage');
+        table.index(['completed_at'], 'idx_underwriting_sla_clocks_completed_at');
+    });
+}
+
+/**
+ * Drops the underwriting_sla_clocks table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('underwriting_sla_clocks');
+}
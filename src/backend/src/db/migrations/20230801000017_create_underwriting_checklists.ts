@@ -0,0 +1,49 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the underwriting_checklists table tracking each submission's required
+ * documents and fields, and the reminders sent to the broker for missing items
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('underwriting_checklists', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('policy_id')
+            .notNullable()
+            .unique()
+            .references('id')
+            .inTable('policies')
+            .onDelete('CASCADE');
+
+        table.string('policy_type', 50).notNullable();
+
+        // Required documents and fields with whether and when each was received
+        table.jsonb('items').notNullable().defaultTo('[]');
+
+        // Set while the submission waits on broker documents
+        table.timestamp('pending_since').nullable();
+        table.timestamp('completed_at').nullable();
+
+        table.integer('reminders_sent').notNullable().defaultTo(0);
+        table.timestamp('last_reminded_at').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['pending_since'], 'idx_underwriting_checklists_pending_since');
+    });
+}
+
+/**
+ * Drops the underwriting_checklists table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('underwriting_checklists');
+}
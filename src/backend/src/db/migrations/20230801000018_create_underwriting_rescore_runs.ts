@@ -0,0 +1,100 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the underwriting_rescore_runs table tracking batch re-scoring of the
+ * in-force book, and underwriting_rescore_results holding each policy's old and
+ * new scores in a run
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('underwriting_rescore_runs', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        // Null when every policy type is re-scored
+        table.string('policy_type', 50).nullable();
+
+        // Dry runs record results without touching policies
+        table.boolean('dry_run').notNullable().defaultTo(false);
+        table.integer('chunk_size').notNullable();
+        table.integer('concurrency').notNullable();
+
+        // RUNNING, COMPLETED or FAILED
+        table.string('status', 20).notNullable();
+
+        table.integer('total_policies').notNullable().defaultTo(0);
+        table.integer('processed').notNullable().defaultTo(0);
+        table.integer('band_changes').notNullable().defaultTo(0);
+        table.jsonb('failures').notNullable().defaultTo('[]');
+
+        // Last policy of the last finished chunk; a resumed run picks up after it
+        table.uuid('last_policy_id').nullable();
+
+        table.uuid('started_by').nullable();
+        table.timestamp('started_at').notNullable();
+        table.timestamp('completed_at').nullable();
+        table.text('error').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['status'], 'idx_underwriting_rescore_runs_status');
+    });
+
+    await knex.schema.createTable('underwriting_rescore_results', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('run_id')
+            .notNullable()
+            .references('id')
+            .inTable('underwriting_rescore_runs')
+            .onDelete('CASCADE');
+
+        table.uuid('policy_id')
+            .notNullable()
+            .references('id')
+            .inTable('policies')
+            .onDelete('CASCADE');
+
+        table.string('policy_type', 50).notNullable();
+
+        // Score on the policy before the run; null when it had never been scored
+        table.decimal('previous_score', 5, 2).nullable();
+        table.string('previous_band', 10).nullable();
+        table.integer('previous_version').notNullable();
+
+        table.decimal('new_score', 5, 2).notNullable();
+        table.string('new_band', 10).notNullable();
+        table.integer('new_version').notNullable();
+
+        table.boolean('band_changed').notNullable().defaultTo(false);
+        table.timestamp('rescored_at').notNullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        // A policy is re-scored at most once per run, including across resumes
+        table.unique(['run_id', 'policy_id'], 'uq_underwriting_rescore_results_run_policy');
+        table.index(['run_id', 'band_changed'], 'idx_underwriting_rescore_results_band_changed');
+    });
+}
+
+/**
+ * Drops the underwriting_rescore_results and underwriting_rescore_runs tables
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('underwriting_rescore_results');
+    await knex.schema.dropTableIfExists('underwriting_rescore_runs');
+}
@@ -0,0 +1,74 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the claim_transactions table holding each claim's financial ledger:
+ * payments, reserve changes, recoveries and the voids that reverse them
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('claim_transactions', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('claim_id')
+            .notNullable()
+            .references('id')
+            .inTable('claims')
+            .onDelete('CASCADE');
+
+        // INDEMNITY_PAYMENT, EXPENSE_PAYMENT, RESERVE_CHANGE, DEDUCTIBLE_RECOVERY,
+        // SUBROGATION_RECOVERY, SALVAGE_RECOVERY or VOID
+        table.string('type', 30).notNullable();
+
+        // Signed for reserve changes, positive for everything else
+        table.decimal('amount', 15, 2).notNullable();
+
+        table.string('payee', 200).nullable();
+
+        // CHECK or ACH, with the check number or ACH trace number as reference
+        table.string('payment_method', 10).nullable();
+        table.string('reference', 100).nullable();
+
+        // User IDs, or SYSTEM for entries made by the platform
+        table.string('approved_by', 100).notNullable();
+        table.string('entered_by', 100).notNullable();
+        table.timestamp('transaction_date').notNullable();
+        table.text('notes').nullable();
+
+        // Entry reversed by a VOID; each entry can be voided once
+        table.uuid('voids_transaction_id')
+            .nullable()
+            .unique()
+            .references('id')
+            .inTable('claim_transactions');
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['claim_id', 'transaction_date'], 'idx_claim_transactions_claim_date');
+    });
+
+    // Open the ledger of existing claims with their current reserve and paid amounts
+    await knex.raw(`
+        INSERT INTO claim_transactions (claim_id, type, amount, approved_by, entered_by, transaction_date, notes)
+        SELECT id, 'RESERVE_CHANGE', reserve_amount, 'SYSTEM', 'SYSTEM', created_at, 'Opening reserve'
+        FROM claims WHERE reserve_amount <> 0
+    `);
+    await knex.raw(`
+        INSERT INTO claim_transactions (claim_id, type, amount, approved_by, entered_by, transaction_date, notes)
+        SELECT id, 'INDEMNITY_PAYMENT', paid_amount, 'SYSTEM', 'SYSTEM', updated_at, 'Opening paid amount'
+        FROM claims WHERE paid_amount <> 0
+    `);
+}
+
+/**
+ * Drops the claim_transactions table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('claim_transactions');
+}
@@ -0,0 +1,95 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Creates the adjuster_authorities table holding each adjuster's payment and
+ * reserve limits, and claim_payment_approvals queueing amounts above them
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('adjuster_authorities', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('user_id')
+            .notNullable()
+            .unique()
+            .references('id')
+            .inTable('users')
+            .onDelete('CASCADE');
+
+        // Largest single payment, and largest claim reserve, the adjuster may set alone
+        table.decimal('max_payment_amount', 15, 2).notNullable();
+        table.decimal('max_reserve_amount', 15, 2).notNullable();
+
+        table.boolean('active').notNullable().defaultTo(true);
+
+        table.string('updated_by').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+    });
+
+    await knex.schema.createTable('claim_payment_approvals', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('claim_id')
+            .notNullable()
+            .references('id')
+            .inTable('claims')
+            .onDelete('CASCADE');
+
+        // Ledger entry recorded once approved: INDEMNITY_PAYMENT, EXPENSE_PAYMENT or RESERVE_CHANGE
+        table.string('type', 30).notNullable();
+        table.decimal('amount', 15, 2).notNullable();
+        table.string('payee', 200).nullable();
+        table.string('payment_method', 10).nullable();
+        table.string('reference', 100).nullable();
+        table.timestamp('transaction_date').nullable();
+        table.text('notes').nullable();
+
+        table.string('requested_by', 100).notNullable();
+
+        // Why the amount was queued, and how many distinct approvers it needs
+        table.jsonb('reasons').notNullable().defaultTo('[]');
+        table.integer('required_approvals').notNullable().defaultTo(1);
+        table.jsonb('approvals').notNullable().defaultTo('[]');
+
+        // PENDING, APPROVED or REJECTED
+        table.string('status', 20).notNullable();
+        table.string('rejected_by', 100).nullable();
+        table.text('rejection_reason').nullable();
+        table.timestamp('decided_at').nullable();
+
+        // Ledger entry recorded on final approval
+        table.uuid('transaction_id')
+            .nullable()
+            .references('id')
+            .inTable('claim_transactions');
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['status', 'created_at'], 'idx_claim_payment_approvals_queue');
+        table.index(['claim_id', 'status'], 'idx_claim_payment_approvals_claim');
+    });
+}
+
+/**
+ * Drops the claim_payment_approvals and adjuster_authorities tables
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('claim_payment_approvals');
+    await knex.schema.dropTableIfExists('adjuster_authorities');
+}
@@ -0,0 +1,27 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds the coverage and cause of loss reported at first notice, and the coverage
+ * position determined from the policy in force on the incident date, to the claims table
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('claims', (table) => {
+        // Coverage the loss is reported under, matched against the policy's coverage types
+        table.string('coverage_type', 50).nullable();
+        table.string('cause_of_loss', 100).nullable();
+
+        // COVERED, QUESTIONABLE or NOT_COVERED with reasons and late reporting warnings
+        table.jsonb('coverage_position').nullable();
+    });
+}
+
+/**
+ * Removes the coverage position columns from the claims table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('claims', (table) => {
+        table.dropColumn('coverage_position');
+        table.dropColumn('cause_of_loss');
+        table.dropColumn('coverage_type');
+    });
+}
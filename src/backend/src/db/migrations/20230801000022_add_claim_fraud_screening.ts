@@ -0,0 +1,58 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds the latest fraud indicator assessment to the claims table and creates
+ * siu_referrals queueing high-scoring claims for special investigations
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('claims', (table) => {
+        // SIU referral score with the indicators triggered at the last screening
+        table.jsonb('fraud_assessment').nullable();
+    });
+
+    await knex.schema.createTable('siu_referrals', (table) => {
+        table.uuid('id')
+            .primary()
+            .defaultTo(knex.raw('uuid_generate_v4()'))
+            .notNullable();
+
+        table.uuid('claim_id')
+            .notNullable()
+            .references('id')
+            .inTable('claims')
+            .onDelete('CASCADE');
+        table.string('claim_number', 50).notNullable();
+
+        // Score and indicators from the latest screening while the referral is open
+        table.integer('score').notNullable();
+        table.jsonb('indicators').notNullable().defaultTo('[]');
+
+        // OPEN or CLOSED; closed referrals carry CLEARED or FRAUD_CONFIRMED
+        table.string('status', 20).notNullable();
+        table.timestamp('referred_at').notNullable();
+        table.string('outcome', 20).nullable();
+        table.text('notes').nullable();
+        table.string('closed_by', 100).nullable();
+        table.timestamp('closed_at').nullable();
+
+        table.timestamp('created_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+        table.timestamp('updated_at')
+            .notNullable()
+            .defaultTo(knex.fn.now());
+
+        table.index(['status', 'referred_at'], 'idx_siu_referrals_queue');
+        table.index(['claim_id', 'status'], 'idx_siu_referrals_claim');
+    });
+}
+
+/**
+ * Drops the siu_referrals table and the fraud assessment column
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('siu_referrals');
+    await knex.schema.alterTable('claims', (table) => {
+        table.dropColumn('fraud_assessment');
+    });
+}
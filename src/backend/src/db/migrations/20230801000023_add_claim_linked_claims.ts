@@ -0,0 +1,24 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Adds the claims a claim was linked to as a possible duplicate at intake, and an
+ * index on incident date for the duplicate search within a policy
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('claims', (table) => {
+        // IDs of claims reported for the same loss; links are kept on both claims
+        table.jsonb('linked_claim_ids').notNullable().defaultTo('[]');
+
+        table.index(['policy_id', 'incident_date'], 'idx_claims_policy_incident');
+    });
+}
+
+/**
+ * Removes the linked claims column and incident date index from the claims table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('claims', (table) => {
+        table.dropIndex(['policy_id', 'incident_date'], 'idx_claims_policy_incident');
+        table.dropColumn('linked_claim_ids');
+    });
+}
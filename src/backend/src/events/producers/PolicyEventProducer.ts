@@ -1,6 +1,6 @@
 import { Producer } from 'kafkajs'; // v2.2.4
 import { createKafkaClient, createProducer } from '../../config/kafka';
-import { IPolicy } from '../../types/policy.types';
+import { IPolicy, ISubjectivity } from '../../types/policy.types';
 import { Logger } from '../../utils/logger';
 import { MetricsClient } from '../../utils/metrics';
 import { v4 as uuidv4 } from 'uuid'; // v9.0.0
@@ -8,6 +8,7 @@ import { v4 as uuidv4 } from 'uuid'; // v9.0.0
 // Topic constants
 const POLICY_EVENTS_TOPIC = 'mga-os.policy-events';
 const POLICY_STATUS_TOPIC = 'mga-os.policy-status';
+const UNDERWRITING_REQUESTS_TOPIC = 'underwriting.requests';
 
 /**
  * Handles production of policy-related events to Kafka topics with guaranteed delivery,
@@ -211,6 +212,153 @@ export class PolicyEventProducer {
         }
     }
 
+    /**
+     * Publishes a renewal term creation event linking the expiring and renewal policies
+     */
+    public async publishRenewalCreated(renewalPolicy: IPolicy, expiringPolicy: IPolicy): Promise<void> {
+        await this.publishEvent(POLICY_EVENTS_TOPIC, 'POLICY_RENEWAL_CREATED', renewalPolicy.id, {
+            data: {
+                policyId: renewalPolicy.id,
+                policyNumber: renewalPolicy.policyNumber,
+                expiringPolicyId: expiringPolicy.id,
+                effectiveDate: renewalPolicy.effectiveDate,
+                expirationDate: renewalPolicy.expirationDate,
+                expiringPremium: expiringPolicy.premium,
+                renewalPremium: renewalPolicy.premium
+            }
+        });
+    }
+
+    /**
+     * Publishes a non-renewal decision event for notice generation
+     */
+    public async publishNonRenewalRecorded(policy: IPolicy): Promise<void> {
+        await this.publishEvent(POLICY_EVENTS_TOPIC, 'POLICY_NON_RENEWAL_RECORDED', policy.id, {
+            data: {
+                policyId: policy.id,
+                policyNumber: policy.policyNumber,
+                expirationDate: policy.expirationDate,
+                reason: policy.renewalInfo?.nonRenewal?.reason,
+                noticeDate: policy.renewalInfo?.nonRenewal?.noticeDate
+            }
+        });
+    }
+
+    /**
+     * Publishes a reinstatement event for billing and notice generation
+     */
+    public async publishPolicyReinstated(policy: IPolicy): Promise<void> {
+        await this.publishEvent(POLICY_EVENTS_TOPIC, 'POLICY_REINSTATED', policy.id, {
+            data: {
+                policyId: policy.id,
+                policyNumber: policy.policyNumber,
+                reinstatementType: policy.reinstatementInfo?.type,
+                reinstatementDate: policy.reinstatementInfo?.reinstatementDate,
+                lapseDays: policy.reinstatementInfo?.lapseDays,
+                premiumChange: policy.reinstatementInfo?.premiumChange
+            }
+        });
+    }
+
+    /**
+     * Publishes an alert for post-bind subjectivities that have passed their due date
+     */
+    public async publishSubjectivitiesOverdue(policy: IPolicy, subjectivities: ISubjectivity[]): Promise<void> {
+        await this.publishEvent(POLICY_EVENTS_TOPIC, 'POLICY_SUBJECTIVITIES_OVERDUE', policy.id, {
+            data: {
+                policyId: policy.id,
+                policyNumber: policy.policyNumber,
+                brokerId: policy.brokerId,
+                subjectivities: subjectivities.map(({ id, type, description, dueDate }) => ({ id, type, description, dueDate }))
+            }
+        });
+    }
+
+    /**
+     * Publishes a notice of cancellation for overdue subjectivities for notice generation
+     */
+    public async publishCancellationNoticeIssued(policy: IPolicy): Promise<void> {
+        await this.publishEvent(POLICY_EVENTS_TOPIC, 'POLICY_CANCELLATION_NOTICE_ISSUED', policy.id, {
+            data: {
+                policyId: policy.id,
+                policyNumber: policy.policyNumber,
+                noticeDate: policy.underwritingInfo.cancellationNotice?.noticeDate,
+                effectiveDate: policy.underwritingInfo.cancellationNotice?.effectiveDate,
+                subjectivityIds: policy.underwritingInfo.cancellationNotice?.subjectivityIds
+            }
+        });
+    }
+
+    /**
+     * Requests an automated underwriting review for a policy via the underwriting consumer.
+     * The consumer expects policyId and policyType at the top level of the message.
+     */
+    public async publishUnderwritingRequested(policy: IPolicy, trigger: string): Promise<void> {
+        await this.publishEvent(UNDERWRITING_REQUESTS_TOPIC, 'UNDERWRITING_REQUESTED', policy.id, {
+            policyId: policy.id,
+            policyType: policy.type,
+            trigger
+        });
+    }
+
+    /**
+     * Sends a policy event with delivery guarantees and metrics
+     * @private
+     */
+    private async publishEvent(
+        topic: string,
+        eventType: string,
+        key: string,
+        payload: Record<string, unknown>
+    ): Promise<void> {
+        const correlationId = uuidv4();
+        const startTime = Date.now();
+
+        try {
+            const event = {
+                type: eventType,
+                timestamp: new Date().toISOString(),
+                correlationId,
+                ...payload
+            };
+
+            await this.producer.send({
+                topic,
+                messages: [{
+                    key,
+                    value: JSON.stringify(event),
+                    headers: {
+                        correlationId,
+                        eventType
+                    }
+                }],
+                acks: -1,
+                timeout: 30000
+            });
+
+            const duration = Date.now() - startTime;
+            this.metricsClient.recordKafkaMetric('policy_event_published', 1, {
+                eventType,
+                topic
+            });
+            this.metricsClient.recordKafkaMetric('policy_event_latency', duration);
+
+            this.logger.info('Policy event published successfully', {
+                correlationId,
+                eventType,
+                policyId: key,
+                duration
+            });
+        } catch (error) {
+            this.logger.error('Failed to publish policy event', error, {
+                correlationId,
+                eventType,
+                policyId: key
+            });
+            throw error;
+        }
+    }
+
     /**
      * Gracefully shuts down the Kafka producer with cleanup
      */
@@ -6,6 +6,7 @@ import { v4 as uuidv4 } from 'uuid'; // v9.0.0
 import { 
     IOneShieldConfig, 
     IOneShieldBillingRequest, 
+    IOneShieldRefundRequest,
     IOneShieldError,
     OneShieldTransactionType
 } from './types';
@@ -111,6 +112,51 @@ export class BillingClient {
         }
     }
 
+    /**
+     * Posts a return premium refund (e.g. on cancellation) through OneShield's billing system
+     * @param request Refund request details
+     * @returns Promise resolving to the OneShield billing transaction ID
+     */
+    public async processRefund(request: IOneShieldRefundRequest): Promise<string> {
+        const correlationId = uuidv4();
+        const startTime = Date.now();
+
+        try {
+            logger.info('Processing premium refund', {
+                correlationId,
+                policyId: request.policyId,
+                amount: request.amount,
+                transactionType: request.transactionType
+            });
+
+            const { idempotencyKey, ...refund } = request;
+            const response = await this.circuitBreaker.fire(async () => {
+                return this.httpClient.post('/billing/refunds', {
+                    ...refund,
+                    timestamp: new Date().toISOString()
+                }, {
+                    headers: { 'Idempotency-Key': idempotencyKey }
+                });
+            });
+
+            const duration = Date.now() - startTime;
+            this.recordMetrics('processRefund', duration, true);
+
+            logger.info('Premium refund processed successfully', {
+                correlationId,
+                policyId: request.policyId,
+                transactionId: response.data.transactionId,
+                duration
+            });
+
+            return response.data.transactionId;
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            this.recordMetrics('processRefund', duration, false);
+            throw this.handleError(error as Error, correlationId);
+        }
+    }
+
     /**
      * Retrieves billing statement for a policy
      * @param policyId Policy identifier
@@ -7,6 +7,7 @@ import {
     IOneShieldConfig, 
     IOneShieldPolicyRequest, 
     IOneShieldPolicyResponse,
+    IOneShieldTransactionRequest,
     IOneShieldError,
     OneShieldPolicyStatus
 } from './types';
@@ -214,6 +215,48 @@ export class PolicyClient {
         }
     }
 
+    /**
+     * Submits a policy lifecycle transaction (renewal, cancellation, reinstatement) to OneShield
+     */
+    public async submitTransaction(
+        policyId: string,
+        transactionRequest: IOneShieldTransactionRequest
+    ): Promise<IOneShieldPolicyResponse> {
+        const correlationId = uuidv4();
+        logger.info('Submitting policy transaction to OneShield', {
+            correlationId,
+            policyId,
+            transactionType: transactionRequest.transactionType
+        });
+
+        try {
+            const endpoint = oneshieldConfig.policy.endpoints.transaction.replace(':id', policyId);
+            const response = await this.circuitBreaker.execute(async () => {
+                return await this.httpClient.post<IOneShieldPolicyResponse>(
+                    endpoint,
+                    transactionRequest
+                );
+            });
+
+            logger.info('Successfully submitted policy transaction to OneShield', {
+                correlationId,
+                policyId,
+                transactionId: response.data.transactionId,
+                status: response.data.status
+            });
+
+            return response.data;
+        } catch (error) {
+            logger.error('Failed to submit policy transaction to OneShield', {
+                correlationId,
+                error,
+                policyId,
+                transactionType: transactionRequest.transactionType
+            });
+            throw this.transformError(error as AxiosError<IOneShieldError>);
+        }
+    }
+
     /**
      * Handles and transforms OneShield API errors
      */
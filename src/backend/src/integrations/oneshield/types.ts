@@ -152,6 +152,17 @@ export interface IOneShieldPolicyResponse {
     transactionId: string;
 }
 
+/**
+ * Interface for OneShield policy transaction request (renewal, cancellation, etc.)
+ */
+export interface IOneShieldTransactionRequest {
+    transactionType: OneShieldTransactionType;
+    effectiveDate: string;
+    policy: IOneShieldPolicyRequest;
+    premiumChange?: number;
+    reason?: string;
+}
+
 /**
  * Interface for OneShield billing request
  */
@@ -163,6 +174,18 @@ export interface IOneShieldBillingRequest {
     transactionType: OneShieldTransactionType;
 }
 
+/**
+ * Interface for OneShield billing refund request
+ */
+export interface IOneShieldRefundRequest {
+    policyId: string;
+    amount: number;
+    effectiveDate: string;
+    reason: string;
+    transactionType: OneShieldTransactionType;
+    idempotencyKey: string;
+}
+
 /**
  * Interface for OneShield error response
  */
@@ -0,0 +1,106 @@
+/**
+ * @file AdjusterAuthority model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { AdjusterAuthority } from '../types/claims.types';
+import { User } from './User';
+
+/**
+ * Model class representing an adjuster's payment and reserve authority. Amounts
+ * above it are queued for approval.
+ */
+@Table({
+  tableName: 'adjuster_authorities',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'], unique: true }
+  ]
+})
+export class AdjusterAuthorityModel extends Model implements AdjusterAuthority {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    unique: true
+  })
+  public userId!: string;
+
+  @Column({
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  })
+  public maxPaymentAmount!: number;
+
+  @Column({
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  })
+  public maxReserveAmount!: number;
+
+  @Column({
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true
+  })
+  public active!: boolean;
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true
+  })
+  public updatedBy?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates authority data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (this.maxPaymentAmount < 0 || this.maxReserveAmount < 0) {
+      throw new ValidationError('Authority limits cannot be negative');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts authority instance to JSON with numeric amounts
+   * @returns Formatted authority object
+   */
+  public toJSON(): AdjusterAuthority {
+    const json = super.toJSON() as AdjusterAuthority;
+
+    json.maxPaymentAmount = Number(this.maxPaymentAmount);
+    json.maxReserveAmount = Number(this.maxReserveAmount);
+
+    return json;
+  }
+}
+
+// Define relationships
+AdjusterAuthorityModel.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+
+export default AdjusterAuthorityModel;
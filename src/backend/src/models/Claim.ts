@@ -1,6 +1,11 @@
 import { Model, DataTypes } from 'sequelize';
 import { CLAIM_STATUS } from '../constants/claimStatus';
-import type { Claim } from '../types/claims.types';
+import type {
+  Claim,
+  ClaimCoveragePosition,
+  ClaimFraudAssessment,
+  PaymentApprovalAction
+} from '../types/claims.types';
 
 /**
  * Enhanced Sequelize model class for Claims management with comprehensive support for
@@ -120,6 +125,36 @@ export class ClaimModel extends Model implements Claim {
   })
   paidAmount!: number;
 
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: true
+  })
+  coverageType?: string;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: true
+  })
+  causeOfLoss?: string;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  coveragePosition?: ClaimCoveragePosition;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  fraudAssessment?: ClaimFraudAssessment;
+
+  @Column({
+    type: DataTypes.JSONB,
+    defaultValue: []
+  })
+  linkedClaimIds!: string[];
+
   @Column({
     type: DataTypes.JSONB,
     defaultValue: []
@@ -145,6 +180,7 @@ export class ClaimModel extends Model implements Claim {
     timestamp: Date;
     notes: string;
     userId: string;
+    action?: PaymentApprovalAction;
   }>;
 
   @Column({
@@ -0,0 +1,199 @@
+/**
+ * @file ClaimPaymentApproval model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import {
+  ClaimPaymentApproval,
+  ClaimPaymentMethod,
+  PaymentApprovalStatus
+} from '../types/claims.types';
+import { ClaimModel } from './Claim';
+
+/**
+ * Model class holding a payment or reserve change queued because it is above
+ * the requesting adjuster's authority, with the approvals given so far
+ */
+@Table({
+  tableName: 'claim_payment_approvals',
+  timestamps: true,
+  indexes: [
+    { fields: ['status', 'createdAt'] },
+    { fields: ['claimId', 'status'] }
+  ]
+})
+export class ClaimPaymentApprovalModel extends Model implements ClaimPaymentApproval {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'claims',
+      key: 'id'
+    }
+  })
+  public claimId!: string;
+
+  @Column({
+    type: DataTypes.STRING(30),
+    allowNull: false
+  })
+  public type!: ClaimPaymentApproval['type'];
+
+  @Column({
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  })
+  public amount!: number;
+
+  @Column({
+    type: DataTypes.STRING(200),
+    allowNull: true
+  })
+  public payee?: string;
+
+  @Column({
+    type: DataTypes.STRING(10),
+    allowNull: true
+  })
+  public paymentMethod?: ClaimPaymentMethod;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: true
+  })
+  public reference?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public transactionDate?: Date;
+
+  @Column({
+    type: DataTypes.TEXT,
+    allowNull: true
+  })
+  public notes?: string;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: false
+  })
+  public requestedBy!: string;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public reasons!: string[];
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 1
+  })
+  public requiredApprovals!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public approvals!: ClaimPaymentApproval['approvals'];
+
+  @Column({
+    type: DataTypes.STRING(20),
+    allowNull: false
+  })
+  public status!: PaymentApprovalStatus;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: true
+  })
+  public rejectedBy?: string;
+
+  @Column({
+    type: DataTypes.TEXT,
+    allowNull: true
+  })
+  public rejectionReason?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public decidedAt?: Date;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'claim_transactions',
+      key: 'id'
+    }
+  })
+  public transactionId?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates approval data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (this.requiredApprovals < 1 || this.requiredApprovals > 2) {
+      throw new ValidationError('A queued amount needs one or two approvals');
+    }
+
+    if (this.approvals.some(approval => approval.userId === this.requestedBy)) {
+      throw new ValidationError('The requester cannot approve their own request');
+    }
+
+    if (this.status === PaymentApprovalStatus.APPROVED && !this.transactionId) {
+      throw new ValidationError('An approved request must reference its ledger entry');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts approval instance to JSON with a numeric amount
+   * @returns Formatted approval object
+   */
+  public toJSON(): ClaimPaymentApproval {
+    const json = super.toJSON() as ClaimPaymentApproval;
+
+    json.amount = Number(this.amount);
+
+    return json;
+  }
+}
+
+// Define relationships
+ClaimPaymentApprovalModel.belongsTo(ClaimModel, {
+  foreignKey: 'claimId',
+  as: 'claim'
+});
+
+export default ClaimPaymentApprovalModel;
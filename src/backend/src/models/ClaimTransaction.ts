@@ -0,0 +1,161 @@
+/**
+ * @file ClaimTransaction model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import {
+  ClaimPaymentMethod,
+  ClaimTransaction,
+  ClaimTransactionType
+} from '../types/claims.types';
+import { ClaimModel } from './Claim';
+
+/**
+ * Model class holding one entry of a claim's financial ledger. Entries are only
+ * ever inserted; voids are recorded as entries of their own.
+ */
+@Table({
+  tableName: 'claim_transactions',
+  timestamps: true,
+  indexes: [
+    { fields: ['claimId', 'transactionDate'] },
+    { unique: true, fields: ['voidsTransactionId'] }
+  ]
+})
+export class ClaimTransactionModel extends Model implements ClaimTransaction {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'claims',
+      key: 'id'
+    }
+  })
+  public claimId!: string;
+
+  @Column({
+    type: DataTypes.STRING(30),
+    allowNull: false
+  })
+  public type!: ClaimTransactionType;
+
+  @Column({
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  })
+  public amount!: number;
+
+  @Column({
+    type: DataTypes.STRING(200),
+    allowNull: true
+  })
+  public payee?: string;
+
+  @Column({
+    type: DataTypes.STRING(10),
+    allowNull: true
+  })
+  public paymentMethod?: ClaimPaymentMethod;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: true
+  })
+  public reference?: string;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: false
+  })
+  public approvedBy!: string;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: false
+  })
+  public enteredBy!: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public transactionDate!: Date;
+
+  @Column({
+    type: DataTypes.TEXT,
+    allowNull: true
+  })
+  public notes?: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true,
+    unique: true,
+    references: {
+      model: 'claim_transactions',
+      key: 'id'
+    }
+  })
+  public voidsTransactionId?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates transaction data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (!Object.values(ClaimTransactionType).includes(this.type)) {
+      throw new ValidationError('Invalid claim transaction type');
+    }
+
+    if (this.type === ClaimTransactionType.RESERVE_CHANGE ? Number(this.amount) === 0 : Number(this.amount) <= 0) {
+      throw new ValidationError('Claim transaction amount must be non-zero, and positive unless it changes the reserve');
+    }
+
+    if ((this.type === ClaimTransactionType.VOID) !== !!this.voidsTransactionId) {
+      throw new ValidationError('Only a void references the transaction it reverses');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts transaction instance to JSON with a numeric amount
+   * @returns Formatted transaction object
+   */
+  public toJSON(): ClaimTransaction {
+    const json = super.toJSON() as ClaimTransaction;
+
+    json.amount = Number(this.amount);
+
+    return json;
+  }
+}
+
+// Define relationships
+ClaimTransactionModel.belongsTo(ClaimModel, {
+  foreignKey: 'claimId',
+  as: 'claim'
+});
+
+export default ClaimTransactionModel;
@@ -4,14 +4,14 @@
  * @maintainers MGA OS Platform Team
  */
 
-import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
-import { IEndorsement } from '../types/policy.types';
+import { Model, DataTypes, ValidationError, Op } from 'sequelize'; // ^6.32.1
+import { IEndorsement, IEndorsementRating } from '../types/policy.types';
 import { Policy } from './Policy';
 
 /**
  * Enum defining endorsement status values
  */
-enum EndorsementStatus {
+export enum EndorsementStatus {
     PENDING = 'PENDING',
     APPROVED = 'APPROVED',
     REJECTED = 'REJECTED',
@@ -71,6 +71,18 @@ export class Endorsement extends Model implements IEndorsement {
     })
     public premiumChange!: number;
 
+    @Column({
+        type: DataTypes.JSONB,
+        allowNull: true
+    })
+    public rating?: IEndorsementRating;
+
+    @Column({
+        type: DataTypes.JSONB,
+        allowNull: true
+    })
+    public previousValues?: Record<string, unknown>;
+
     @Column({
         type: DataTypes.UUID,
         allowNull: false,
@@ -131,11 +143,6 @@ export class Endorsement extends Model implements IEndorsement {
             throw new ValidationError('Type, effective date, and policy ID are required');
         }
 
-        // Validate effective date is in future
-        if (this.effectiveDate <= new Date()) {
-            throw new ValidationError('Effective date must be in the future');
-        }
-
         // Validate premium change
         if (isNaN(this.premiumChange)) {
             throw new ValidationError('Invalid premium change amount');
@@ -152,6 +159,11 @@ export class Endorsement extends Model implements IEndorsement {
             throw new ValidationError('Referenced policy does not exist');
         }
 
+        // Validate effective date falls within the policy term; back-dated endorsements are allowed
+        if (this.effectiveDate < policy.effectiveDate || this.effectiveDate >= policy.expirationDate) {
+            throw new ValidationError('Effective date must fall within the policy term');
+        }
+
         // Validate no conflicting endorsements
         const conflictingEndorsement = await Endorsement.findOne({
             where: {
@@ -5,7 +5,18 @@
  */
 
 import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
-import { IPolicy, PolicyStatus, ICoverage, IUnderwritingInfo } from '../types/policy.types';
+import {
+  IPolicy,
+  PolicyStatus,
+  ICoverage,
+  IUnderwritingInfo,
+  IRenewalInfo,
+  ICancellationInfo,
+  IReinstatementInfo,
+  IPolicyAuditEntry
+} from '../types/policy.types';
+import { IPremiumBreakdown } from '../types/rating.types';
+import { EligibilityAnswer } from '../types/product.types';
 import { PolicyType, isPolicyType } from '../constants/policyTypes';
 
 /**
@@ -92,6 +103,48 @@ export class Policy extends Model implements IPolicy {
   })
   public oneShieldPolicyId?: string;
 
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true
+  })
+  public brokerId?: string;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  public premiumBreakdown?: IPremiumBreakdown;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  public eligibilityAnswers?: Record<string, EligibilityAnswer>;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  public renewalInfo?: IRenewalInfo;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  public cancellationInfo?: ICancellationInfo;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  public reinstatementInfo?: IReinstatementInfo;
+
+  @Column({
+    type: DataTypes.JSONB,
+    defaultValue: []
+  })
+  public auditLog!: IPolicyAuditEntry[];
+
   @Column({
     type: DataTypes.DATE,
     allowNull: false
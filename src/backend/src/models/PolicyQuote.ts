@@ -0,0 +1,160 @@
+/**
+ * @file PolicyQuote model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { ICoverage, IPolicyQuote, QuoteStatus } from '../types/policy.types';
+import { IPremiumBreakdown } from '../types/rating.types';
+import { Policy } from './Policy';
+
+/**
+ * Model class representing a quote option on a submission.
+ * A submission may carry several options with different limits, deductibles
+ * or coverage sets; exactly one may be bound.
+ */
+@Table({
+  tableName: 'policy_quotes',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['policyId', 'optionNumber'] },
+    { fields: ['policyId', 'status'] },
+    { fields: ['expirationDate'] }
+  ]
+})
+export class PolicyQuote extends Model implements IPolicyQuote {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'policies',
+      key: 'id'
+    }
+  })
+  public policyId!: string;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public optionNumber!: number;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: false
+  })
+  public label!: string;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false
+  })
+  public coverages!: ICoverage[];
+
+  @Column({
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false
+  })
+  public premium!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  public premiumBreakdown?: IPremiumBreakdown;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public expirationDate!: Date;
+
+  @Column({
+    type: DataTypes.ENUM(...Object.values(QuoteStatus)),
+    allowNull: false,
+    defaultValue: QuoteStatus.ACTIVE
+  })
+  public status!: QuoteStatus;
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true
+  })
+  public createdBy?: string;
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true
+  })
+  public boundBy?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public boundAt?: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates quote data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (!this.policyId || !this.label) {
+      throw new ValidationError('Policy ID and option label are required');
+    }
+
+    if (!Array.isArray(this.coverages) || this.coverages.length === 0) {
+      throw new ValidationError('At least one coverage is required');
+    }
+
+    if (this.premium < 0 || this.premium > 1000000000) {
+      throw new ValidationError('Premium amount is invalid');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts quote instance to API-friendly JSON representation
+   * @returns Formatted quote object
+   */
+  public toJSON(): IPolicyQuote {
+    const json = super.toJSON() as IPolicyQuote;
+
+    json.premium = Number(Number(this.premium).toFixed(2));
+    json.expirationDate = this.expirationDate.toISOString();
+    json.boundAt = this.boundAt?.toISOString();
+    json.createdAt = this.createdAt.toISOString();
+    json.updatedAt = this.updatedAt.toISOString();
+
+    return json;
+  }
+}
+
+// Define relationships
+PolicyQuote.belongsTo(Policy, {
+  foreignKey: 'policyId',
+  as: 'policy'
+});
+
+export default PolicyQuote;
@@ -0,0 +1,136 @@
+/**
+ * @file PolicyVersion model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { IPolicy, IPolicyVersion, PolicyTransactionType } from '../types/policy.types';
+import { Policy } from './Policy';
+
+/**
+ * Model class representing an immutable point-in-time snapshot of a policy.
+ * A version is written for every bound transaction; only its effectiveTo and
+ * supersededAt markers are set afterwards, the snapshot itself is never modified.
+ */
+@Table({
+  tableName: 'policy_versions',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    { unique: true, fields: ['policyId', 'versionNumber'] },
+    { fields: ['policyId', 'effectiveFrom'] },
+    { fields: ['sourceId'] }
+  ]
+})
+export class PolicyVersion extends Model implements IPolicyVersion {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'policies',
+      key: 'id'
+    }
+  })
+  public policyId!: string;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public versionNumber!: number;
+
+  @Column({
+    type: DataTypes.ENUM(...Object.values(PolicyTransactionType)),
+    allowNull: false
+  })
+  public transactionType!: PolicyTransactionType;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public effectiveFrom!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public effectiveTo?: Date;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false
+  })
+  public snapshot!: IPolicy;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true
+  })
+  public sourceId?: string;
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true
+  })
+  public createdBy?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public supersededAt?: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  /**
+   * Validates version data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (!this.policyId || !this.snapshot || !this.effectiveFrom) {
+      throw new ValidationError('Policy ID, snapshot and effective-from date are required');
+    }
+
+    if (this.effectiveTo && this.effectiveTo <= this.effectiveFrom) {
+      throw new ValidationError('Effective-to date must be after effective-from date');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts version instance to API-friendly JSON representation
+   * @returns Formatted version object
+   */
+  public toJSON(): IPolicyVersion {
+    const json = super.toJSON() as IPolicyVersion;
+
+    json.effectiveFrom = this.effectiveFrom.toISOString();
+    json.effectiveTo = this.effectiveTo?.toISOString();
+    json.supersededAt = this.supersededAt?.toISOString();
+    json.createdAt = this.createdAt.toISOString();
+
+    return json;
+  }
+}
+
+// Define relationships
+PolicyVersion.belongsTo(Policy, {
+  foreignKey: 'policyId',
+  as: 'policy'
+});
+
+export default PolicyVersion;
@@ -0,0 +1,136 @@
+/**
+ * @file SiuReferral model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import {
+  FraudIndicator,
+  SiuReferral,
+  SiuReferralOutcome,
+  SiuReferralStatus
+} from '../types/claims.types';
+import { ClaimModel } from './Claim';
+
+/**
+ * Model class holding a claim referred to special investigations because its
+ * fraud indicator score reached the referral threshold
+ */
+@Table({
+  tableName: 'siu_referrals',
+  timestamps: true,
+  indexes: [
+    { fields: ['status', 'referredAt'] },
+    { fields: ['claimId', 'status'] }
+  ]
+})
+export class SiuReferralModel extends Model implements SiuReferral {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'claims',
+      key: 'id'
+    }
+  })
+  public claimId!: string;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: false
+  })
+  public claimNumber!: string;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public score!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public indicators!: FraudIndicator[];
+
+  @Column({
+    type: DataTypes.STRING(20),
+    allowNull: false
+  })
+  public status!: SiuReferralStatus;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public referredAt!: Date;
+
+  @Column({
+    type: DataTypes.STRING(20),
+    allowNull: true
+  })
+  public outcome?: SiuReferralOutcome;
+
+  @Column({
+    type: DataTypes.TEXT,
+    allowNull: true
+  })
+  public notes?: string;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: true
+  })
+  public closedBy?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public closedAt?: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates referral data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (this.score < 0 || this.score > 100) {
+      throw new ValidationError('Referral score must be between 0 and 100');
+    }
+
+    if (this.status === SiuReferralStatus.CLOSED && (!this.outcome || !this.closedBy)) {
+      throw new ValidationError('A closed referral must record its outcome and who closed it');
+    }
+
+    await super.validate();
+  }
+}
+
+// Define relationships
+SiuReferralModel.belongsTo(ClaimModel, {
+  foreignKey: 'claimId',
+  as: 'claim'
+});
+
+export default SiuReferralModel;
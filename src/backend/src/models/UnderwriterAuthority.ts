@@ -0,0 +1,147 @@
+/**
+ * @file UnderwriterAuthority model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { PolicyType } from '../constants/policyTypes';
+import { IUnderwriterAuthority } from '../types/underwriting.types';
+import { User } from './User';
+
+/**
+ * Model class representing an underwriter's authority matrix. Decisions outside
+ * the matrix are referred to the next underwriter in the referral chain.
+ */
+@Table({
+  tableName: 'underwriter_authorities',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'], unique: true }
+  ]
+})
+export class UnderwriterAuthority extends Model implements IUnderwriterAuthority {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    unique: true
+  })
+  public userId!: string;
+
+  @Column({
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  })
+  public maxLimit!: number;
+
+  @Column({
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false
+  })
+  public maxPremium!: number;
+
+  @Column({
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false
+  })
+  public maxRiskScore!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public policyTypes!: PolicyType[];
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true
+  })
+  public refersToUserId!: string | null;
+
+  @Column({
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true
+  })
+  public active!: boolean;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public outOfOfficeUntil?: Date | null;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public lastAssignedAt?: Date | null;
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true
+  })
+  public updatedBy?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates authority data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (this.maxLimit < 0 || this.maxPremium < 0) {
+      throw new ValidationError('Authority limits cannot be negative');
+    }
+
+    if (this.maxRiskScore < 0 || this.maxRiskScore > 100) {
+      throw new ValidationError('Maximum risk score must be between 0 and 100');
+    }
+
+    if (this.refersToUserId && this.refersToUserId === this.userId) {
+      throw new ValidationError('An underwriter cannot refer to themselves');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts authority instance to JSON with numeric amounts
+   * @returns Formatted authority object
+   */
+  public toJSON(): IUnderwriterAuthority {
+    const json = super.toJSON() as IUnderwriterAuthority;
+
+    json.maxLimit = Number(this.maxLimit);
+    json.maxPremium = Number(this.maxPremium);
+    json.maxRiskScore = Number(this.maxRiskScore);
+
+    return json;
+  }
+}
+
+// Define relationships
+UnderwriterAuthority.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+
+export default UnderwriterAuthority;
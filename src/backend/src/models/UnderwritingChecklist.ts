@@ -0,0 +1,132 @@
+/**
+ * @file UnderwritingChecklist model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { PolicyType, isPolicyType } from '../constants/policyTypes';
+import { IChecklistItem, ISubmissionChecklist } from '../types/underwriting.types';
+import { Policy } from './Policy';
+
+/**
+ * Model class tracking the documents and fields a submission needs before an
+ * underwriter can work it, and the reminders sent to the broker for missing items
+ */
+@Table({
+  tableName: 'underwriting_checklists',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['policyId'] },
+    { fields: ['pendingSince'] }
+  ]
+})
+export class UnderwritingChecklist extends Model implements ISubmissionChecklist {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    unique: true,
+    references: {
+      model: 'policies',
+      key: 'id'
+    }
+  })
+  public policyId!: string;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: false
+  })
+  public policyType!: PolicyType;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public items!: IChecklistItem[];
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public pendingSince!: Date | null;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public completedAt!: Date | null;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  })
+  public remindersSent!: number;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public lastRemindedAt!: Date | null;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates checklist data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (!isPolicyType(this.policyType)) {
+      throw new ValidationError('Invalid policy type');
+    }
+
+    if (this.pendingSince && this.completedAt) {
+      throw new ValidationError('A checklist cannot be both pending and complete');
+    }
+
+    if (this.remindersSent < 0) {
+      throw new ValidationError('Reminders sent cannot be negative');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts checklist instance to JSON
+   * @returns Formatted checklist object
+   */
+  public toJSON(): ISubmissionChecklist {
+    const json = super.toJSON() as ISubmissionChecklist;
+
+    json.remindersSent = Number(this.remindersSent);
+
+    return json;
+  }
+}
+
+// Define relationships
+UnderwritingChecklist.belongsTo(Policy, {
+  foreignKey: 'policyId',
+  as: 'policy'
+});
+
+export default UnderwritingChecklist;
@@ -0,0 +1,181 @@
+/**
+ * @file UnderwritingDecision model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { PolicyType } from '../constants/policyTypes';
+import { IPolicy } from '../types/policy.types';
+import { IReviewHistory, IRiskFactor, IUnderwritingDecisionRecord, UnderwritingStatus } from '../types/underwriting.types';
+import { Policy } from './Policy';
+
+/**
+ * Model class recording an automated underwriting decision together with the
+ * risk assessment and policy snapshot it was made on. The automated outcome is
+ * never changed; underwriter review is recorded alongside it.
+ */
+@Table({
+  tableName: 'underwriting_decisions',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    { fields: ['policyType', 'decidedAt'] },
+    { fields: ['policyId', 'decidedAt'] },
+    { fields: ['assignedTo'] }
+  ]
+})
+export class UnderwritingDecision extends Model implements IUnderwritingDecisionRecord {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'policies',
+      key: 'id'
+    }
+  })
+  public policyId!: string;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: false
+  })
+  public policyType!: PolicyType;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: false
+  })
+  public status!: UnderwritingStatus;
+
+  @Column({
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false
+  })
+  public riskScore!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false
+  })
+  public riskFactors!: IRiskFactor[];
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public firedRuleIds!: string[];
+
+  @Column({
+    type: DataTypes.ENUM('FULL', 'PARTIAL', 'MANUAL'),
+    allowNull: false
+  })
+  public automationLevel!: 'FULL' | 'PARTIAL' | 'MANUAL';
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: false
+  })
+  public decidedBy!: string;
+
+  @Column({
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0
+  })
+  public premium!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false
+  })
+  public policySnapshot!: IPolicy;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public decidedAt!: Date;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: true
+  })
+  public reviewStatus?: UnderwritingStatus | null;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public reviewHistory!: IReviewHistory[];
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true
+  })
+  public referredTo?: string | null;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true
+  })
+  public assignedTo?: string | null;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public assignedAt?: Date | null;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  /**
+   * Validates decision data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (!this.policyId || !this.status) {
+      throw new ValidationError('Policy ID and decision status are required');
+    }
+
+    if (this.riskScore < 0 || this.riskScore > 100) {
+      throw new ValidationError('Risk score must be between 0 and 100');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts decision instance to JSON with numeric amounts
+   * @returns Formatted decision record
+   */
+  public toJSON(): IUnderwritingDecisionRecord {
+    const json = super.toJSON() as IUnderwritingDecisionRecord;
+
+    json.riskScore = Number(this.riskScore);
+    json.premium = Number(this.premium);
+
+    return json;
+  }
+}
+
+// Define relationships
+UnderwritingDecision.belongsTo(Policy, {
+  foreignKey: 'policyId',
+  as: 'policy'
+});
+
+export default UnderwritingDecision;
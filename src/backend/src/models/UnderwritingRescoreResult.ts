@@ -0,0 +1,161 @@
+/**
+ * @file UnderwritingRescoreResult model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { PolicyType } from '../constants/policyTypes';
+import { IRescoreResult, RiskBand } from '../types/underwriting.types';
+import { Policy } from './Policy';
+import { UnderwritingRescoreRun } from './UnderwritingRescoreRun';
+
+/**
+ * Model class holding one policy's score and risk band before and after a
+ * re-scoring run
+ */
+@Table({
+  tableName: 'underwriting_rescore_results',
+  timestamps: true,
+  indexes: [
+    { unique: true, fields: ['runId', 'policyId'] },
+    { fields: ['runId', 'bandChanged'] }
+  ]
+})
+export class UnderwritingRescoreResult extends Model implements IRescoreResult {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'underwriting_rescore_runs',
+      key: 'id'
+    }
+  })
+  public runId!: string;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'policies',
+      key: 'id'
+    }
+  })
+  public policyId!: string;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: false
+  })
+  public policyType!: PolicyType;
+
+  @Column({
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: true
+  })
+  public previousScore!: number | null;
+
+  @Column({
+    type: DataTypes.STRING(10),
+    allowNull: true
+  })
+  public previousBand!: RiskBand | null;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public previousVersion!: number;
+
+  @Column({
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false
+  })
+  public newScore!: number;
+
+  @Column({
+    type: DataTypes.STRING(10),
+    allowNull: false
+  })
+  public newBand!: RiskBand;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public newVersion!: number;
+
+  @Column({
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  })
+  public bandChanged!: boolean;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public rescoredAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates result data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (this.newScore < 0 || this.newScore > 100) {
+      throw new ValidationError('Risk score must be between 0 and 100');
+    }
+
+    if (this.newVersion <= this.previousVersion) {
+      throw new ValidationError('Re-scoring must bump the assessment version');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts result instance to JSON with numeric scores
+   * @returns Formatted result object
+   */
+  public toJSON(): IRescoreResult {
+    const json = super.toJSON() as IRescoreResult;
+
+    json.previousScore = this.previousScore === null ? null : Number(this.previousScore);
+    json.newScore = Number(this.newScore);
+
+    return json;
+  }
+}
+
+// Define relationships
+UnderwritingRescoreResult.belongsTo(UnderwritingRescoreRun, {
+  foreignKey: 'runId',
+  as: 'run'
+});
+
+UnderwritingRescoreResult.belongsTo(Policy, {
+  foreignKey: 'policyId',
+  as: 'policy'
+});
+
+export default UnderwritingRescoreResult;
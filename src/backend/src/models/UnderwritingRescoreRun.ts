@@ -0,0 +1,152 @@
+/**
+ * @file UnderwritingRescoreRun model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { PolicyType, isPolicyType } from '../constants/policyTypes';
+import { IRescoreFailure, IRescoreRun, RescoreRunStatus } from '../types/underwriting.types';
+
+/**
+ * Model class tracking a batch re-scoring of the in-force book: its options, its
+ * progress and the policy it has reached, so a crashed run can be resumed
+ */
+@Table({
+  tableName: 'underwriting_rescore_runs',
+  timestamps: true,
+  indexes: [
+    { fields: ['status'] }
+  ]
+})
+export class UnderwritingRescoreRun extends Model implements IRescoreRun {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: true
+  })
+  public policyType!: PolicyType | null;
+
+  @Column({
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  })
+  public dryRun!: boolean;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public chunkSize!: number;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public concurrency!: number;
+
+  @Column({
+    type: DataTypes.STRING(20),
+    allowNull: false
+  })
+  public status!: RescoreRunStatus;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  })
+  public totalPolicies!: number;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  })
+  public processed!: number;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  })
+  public bandChanges!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public failures!: IRescoreFailure[];
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true
+  })
+  public lastPolicyId!: string | null;
+
+  @Column({
+    type: DataTypes.UUID,
+    allowNull: true
+  })
+  public startedBy!: string | null;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public startedAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: true
+  })
+  public completedAt!: Date | null;
+
+  @Column({
+    type: DataTypes.TEXT,
+    allowNull: true
+  })
+  public error!: string | null;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates run data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (this.policyType && !isPolicyType(this.policyType)) {
+      throw new ValidationError('Invalid policy type');
+    }
+
+    if (this.chunkSize <= 0 || this.concurrency <= 0) {
+      throw new ValidationError('Chunk size and concurrency must be positive');
+    }
+
+    if (this.completedAt && this.completedAt < this.startedAt) {
+      throw new ValidationError('Re-scoring run cannot complete before it started');
+    }
+
+    await super.validate();
+  }
+}
+
+export default UnderwritingRescoreRun;
@@ -0,0 +1,150 @@
+/**
+ * @file UnderwritingRule model implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Model, DataTypes, ValidationError } from 'sequelize'; // ^6.32.1
+import { PolicyType } from '../constants/policyTypes';
+import { IRuleCondition, IUnderwritingRule, UnderwritingRuleAction } from '../types/underwriting.types';
+
+/**
+ * Model class representing a declarative underwriting rule.
+ * Rules are maintained by underwriting managers and evaluated by the rules
+ * engine in priority order.
+ */
+@Table({
+  tableName: 'underwriting_rules',
+  timestamps: true,
+  indexes: [
+    { fields: ['policyType', 'active', 'priority'] }
+  ]
+})
+export class UnderwritingRule extends Model implements IUnderwritingRule {
+  @Column({
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  })
+  public id!: string;
+
+  @Column({
+    type: DataTypes.STRING(100),
+    allowNull: false
+  })
+  public name!: string;
+
+  @Column({
+    type: DataTypes.TEXT,
+    allowNull: false
+  })
+  public description!: string;
+
+  @Column({
+    type: DataTypes.STRING(50),
+    allowNull: true
+  })
+  public policyType!: PolicyType | null;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false
+  })
+  public criteria!: {
+    conditions: IRuleCondition[];
+    logicalOperator: 'AND' | 'OR';
+  };
+
+  @Column({
+    type: DataTypes.ENUM('APPROVE', 'DECLINE', 'REFER', 'FLAG'),
+    allowNull: false
+  })
+  public action!: UnderwritingRuleAction;
+
+  @Column({
+    type: DataTypes.INTEGER,
+    allowNull: false
+  })
+  public priority!: number;
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  })
+  public validationRules!: IUnderwritingRule['validationRules'];
+
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true
+  })
+  public riskThresholds?: IUnderwritingRule['riskThresholds'];
+
+  @Column({
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  })
+  public automationEligible!: boolean;
+
+  @Column({
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true
+  })
+  public active!: boolean;
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true
+  })
+  public createdBy?: string;
+
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true
+  })
+  public updatedBy?: string;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public createdAt!: Date;
+
+  @Column({
+    type: DataTypes.DATE,
+    allowNull: false
+  })
+  public updatedAt!: Date;
+
+  /**
+   * Validates rule data before save
+   * @throws ValidationError if validation fails
+   */
+  public async validate(): Promise<void> {
+    if (!this.name || !this.description) {
+      throw new ValidationError('Rule name and description are required');
+    }
+
+    if (!this.criteria || !Array.isArray(this.criteria.conditions) || this.criteria.conditions.length === 0) {
+      throw new ValidationError('At least one rule condition is required');
+    }
+
+    if (!Number.isInteger(this.priority) || this.priority < 0) {
+      throw new ValidationError('Rule priority must be a non-negative integer');
+    }
+
+    await super.validate();
+  }
+
+  /**
+   * Converts rule instance to API-friendly JSON representation
+   * @returns Formatted rule object
+   */
+  public toJSON(): IUnderwritingRule {
+    return super.toJSON() as IUnderwritingRule;
+  }
+}
+
+export default UnderwritingRule;
@@ -12,6 +12,7 @@ const kmsClient = new KMSClient({ region: process.env.AWS_REGION || 'us-east-1'
 export enum UserRole {
   MGA_ADMIN = 'MGA_ADMIN',
   UNDERWRITER = 'UNDERWRITER',
+  UNDERWRITING_MANAGER = 'UNDERWRITING_MANAGER',
   CLAIMS_HANDLER = 'CLAIMS_HANDLER',
   AUDITOR = 'AUDITOR'
 }
@@ -43,6 +44,14 @@ const ROLE_PERMISSIONS = {
     'documents:read',
     'documents:write'
   ],
+  [UserRole.UNDERWRITING_MANAGER]: [
+    'policy:read',
+    'policy:write',
+    'risk:assess',
+    'underwriting:rules:write',
+    'documents:read',
+    'documents:write'
+  ],
   [UserRole.CLAIMS_HANDLER]: [
     'claims:read',
     'claims:write',
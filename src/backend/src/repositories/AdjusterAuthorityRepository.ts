@@ -0,0 +1,93 @@
+/**
+ * @file AdjusterAuthority repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction } from 'sequelize'; // ^6.32.1
+import { AdjusterAuthorityModel } from '../models/AdjusterAuthority';
+import { User } from '../models/User';
+import { AdjusterAuthority } from '../types/claims.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Authority data accepted on save; identifiers and timestamps are assigned on save
+ */
+export type AdjusterAuthorityInput = Omit<AdjusterAuthority, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Repository class implementing storage of adjuster payment and reserve authority
+ */
+export class AdjusterAuthorityRepository {
+  /**
+   * Retrieves the authority of an adjuster
+   * @param userId Adjuster user ID
+   * @param transaction Optional transaction
+   * @returns Authority, or null when the adjuster has none
+   */
+  public async findByUserId(userId: string, transaction?: Transaction): Promise<AdjusterAuthority | null> {
+    try {
+      const authority = await AdjusterAuthorityModel.findOne({
+        where: { userId },
+        transaction,
+        timeout: QUERY_TIMEOUT
+      });
+      return authority ? authority.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve adjuster authority', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Lists every adjuster authority with the adjuster's name
+   * @returns Authorities ordered by maximum payment
+   */
+  public async findAll(): Promise<AdjusterAuthority[]> {
+    try {
+      const authorities = await AdjusterAuthorityModel.findAll({
+        include: [{ model: User, as: 'user', attributes: ['firstName', 'lastName'] }],
+        order: [['maxPaymentAmount', 'ASC'], ['createdAt', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return authorities.map(authority => authority.toJSON());
+    } catch (err) {
+      error('Failed to list adjuster authorities', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Creates or replaces the authority of an adjuster
+   * @param authorityData Authority data
+   * @param transaction Optional transaction
+   * @returns Saved authority
+   */
+  public async upsert(
+    authorityData: AdjusterAuthorityInput,
+    transaction?: Transaction
+  ): Promise<AdjusterAuthority> {
+    try {
+      const [authority] = await AdjusterAuthorityModel.upsert(authorityData, {
+        transaction,
+        conflictFields: ['userId']
+      });
+
+      info('Adjuster authority saved successfully', {
+        userId: authorityData.userId,
+        maxPaymentAmount: authorityData.maxPaymentAmount,
+        maxReserveAmount: authorityData.maxReserveAmount
+      });
+
+      return authority.toJSON();
+    } catch (err) {
+      error('Failed to save adjuster authority', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default AdjusterAuthorityRepository;
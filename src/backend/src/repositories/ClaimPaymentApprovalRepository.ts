@@ -0,0 +1,165 @@
+/**
+ * @file ClaimPaymentApproval repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction } from 'sequelize'; // ^6.32.1
+import { getSequelize } from '../config/database';
+import { ClaimPaymentApprovalModel } from '../models/ClaimPaymentApproval';
+import { ClaimPaymentApproval, PaymentApprovalStatus } from '../types/claims.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Approval data accepted on queueing; identifiers and timestamps are assigned on save
+ */
+export type ClaimPaymentApprovalInput = Omit<ClaimPaymentApproval, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Repository class implementing the payment approval queue
+ */
+export class ClaimPaymentApprovalRepository {
+  /**
+   * Queues a payment or reserve change for approval
+   * @param approval Approval request
+   * @param transaction Optional transaction
+   * @returns Queued request
+   */
+  public async create(approval: ClaimPaymentApprovalInput, transaction?: Transaction): Promise<ClaimPaymentApproval> {
+    try {
+      const created = await ClaimPaymentApprovalModel.create(approval, { transaction });
+
+      info('Claim payment queued for approval', {
+        claimId: approval.claimId,
+        approvalId: created.id,
+        type: approval.type,
+        amount: approval.amount,
+        requiredApprovals: approval.requiredApprovals
+      });
+
+      return created.toJSON();
+    } catch (err) {
+      error('Failed to queue claim payment for approval', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a queued request
+   * @param id Approval ID
+   * @returns Request, or null when it does not exist
+   */
+  public async findById(id: string): Promise<ClaimPaymentApproval | null> {
+    try {
+      const approval = await ClaimPaymentApprovalModel.findByPk(id, { timeout: QUERY_TIMEOUT });
+      return approval ? approval.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve claim payment approval', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a queued request and locks its row until the transaction ends, so
+   * concurrent decisions on the same request are applied one after another
+   * @param id Approval ID
+   * @param transaction Transaction holding the lock
+   * @returns Request, or null when it does not exist
+   */
+  public async findByIdForUpdate(id: string, transaction: Transaction): Promise<ClaimPaymentApproval | null> {
+    try {
+      const approval = await ClaimPaymentApprovalModel.findByPk(id, {
+        transaction,
+        lock: Transaction.LOCK.UPDATE,
+        timeout: QUERY_TIMEOUT
+      });
+      return approval ? approval.toJSON() : null;
+    } catch (err) {
+      error('Failed to lock claim payment approval', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Starts a transaction for deciding on a queued request
+   * @returns Transaction to commit or roll back
+   */
+  public async beginTransaction(): Promise<Transaction> {
+    const sequelize = await getSequelize();
+    return sequelize.transaction();
+  }
+
+  /**
+   * Retrieves the requests on a claim
+   * @param claimId Claim ID
+   * @param status Optional status to filter by
+   * @returns Requests, oldest first
+   */
+  public async findByClaimId(claimId: string, status?: PaymentApprovalStatus): Promise<ClaimPaymentApproval[]> {
+    try {
+      const approvals = await ClaimPaymentApprovalModel.findAll({
+        where: { claimId, ...(status ? { status } : {}) },
+        order: [['createdAt', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return approvals.map(approval => approval.toJSON());
+    } catch (err) {
+      error('Failed to retrieve claim payment approvals', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the approval queue
+   * @param status Status to list
+   * @param limit Maximum number of requests
+   * @returns Requests, oldest first
+   */
+  public async findByStatus(status: PaymentApprovalStatus, limit: number = 100): Promise<ClaimPaymentApproval[]> {
+    try {
+      const approvals = await ClaimPaymentApprovalModel.findAll({
+        where: { status },
+        order: [['createdAt', 'ASC']],
+        limit,
+        timeout: QUERY_TIMEOUT
+      });
+
+      return approvals.map(approval => approval.toJSON());
+    } catch (err) {
+      error('Failed to retrieve claim payment approval queue', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Records approvals or the decision on a queued request
+   * @param id Approval ID
+   * @param updates Fields to update
+   * @param transaction Optional transaction
+   * @returns Updated request, or null when it does not exist
+   */
+  public async update(
+    id: string,
+    updates: Partial<ClaimPaymentApprovalInput>,
+    transaction?: Transaction
+  ): Promise<ClaimPaymentApproval | null> {
+    try {
+      const approval = await ClaimPaymentApprovalModel.findByPk(id, { transaction });
+      if (!approval) {
+        return null;
+      }
+
+      await approval.update(updates, { transaction });
+
+      return approval.toJSON();
+    } catch (err) {
+      error('Failed to update claim payment approval', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default ClaimPaymentApprovalRepository;
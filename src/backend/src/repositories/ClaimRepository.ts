@@ -1,7 +1,20 @@
-import { Repository, EntityRepository, FindOptionsWhere, QueryRunner } from 'typeorm';
+import { Repository, EntityRepository, Between, FindOptionsWhere, QueryRunner } from 'typeorm';
+import { Transaction } from 'sequelize';
 import { ClaimModel } from '../models/Claim';
 import { CLAIM_STATUS } from '../constants/claimStatus';
-import { Claim, CreateClaimRequest, UpdateClaimStatusRequest } from '../types/claims.types';
+import {
+  Claim,
+  ClaimantInfo,
+  ClaimCoveragePosition,
+  ClaimDuplicateMatch,
+  ClaimDuplicateResolution,
+  ClaimFinancials,
+  ClaimFraudAssessment,
+  CreateClaimRequest,
+  DuplicateClaimAction,
+  PaymentApprovalAction,
+  UpdateClaimStatusRequest
+} from '../types/claims.types';
 import { Logger } from '../utils/logger';
 import { OneShieldClient } from '@oneshield/client';
 
@@ -96,9 +109,34 @@ export class ClaimRepository extends Repository<ClaimModel> {
   }
 
   /**
-   * Creates a new claim with OneShield synchronization and compliance tracking
+   * Retrieves the claims on a policy whose incident falls within a date range
    */
-  async create(claimData: CreateClaimRequest): Promise<Claim> {
+  async findByIncidentWindow(policyId: string, from: Date, to: Date): Promise<Claim[]> {
+    try {
+      const claims = await this.find({
+        where: { policyId, incidentDate: Between(from, to) } as FindOptionsWhere<ClaimModel>,
+        order: { incidentDate: 'ASC' }
+      });
+
+      this.logger.debug('Retrieved claims by incident window', {
+        policyId,
+        from,
+        to,
+        count: claims.length
+      });
+
+      return claims;
+    } catch (error) {
+      this.logger.error('Error retrieving claims by incident window', error, { policyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a new claim with OneShield synchronization and compliance tracking,
+   * storing the coverage position taken at first notice
+   */
+  async create(claimData: CreateClaimRequest, coveragePosition?: ClaimCoveragePosition): Promise<Claim> {
     const queryRunner = this.queryRunner;
     await queryRunner.startTransaction();
 
@@ -111,7 +149,8 @@ export class ClaimRepository extends Repository<ClaimModel> {
         ...claimData,
         claimNumber,
         status: CLAIM_STATUS.NEW,
-        reportedDate: new Date(),
+        reportedDate: claimData.reportedDate || new Date(),
+        coveragePosition,
         statusHistory: [{
           status: CLAIM_STATUS.NEW,
           timestamp: new Date(),
@@ -122,7 +161,7 @@ export class ClaimRepository extends Repository<ClaimModel> {
           action: 'CLAIM_CREATED',
           timestamp: new Date(),
           userId: 'SYSTEM',
-          details: { claimNumber }
+          details: { claimNumber, coverageDetermination: coveragePosition?.determination }
         }]
       });
 
@@ -171,14 +210,18 @@ export class ClaimRepository extends Repository<ClaimModel> {
       // Validate status transition
       this.validateStatusTransition(claim.status, updateData.status);
 
-      // Update claim status
+      // Money may not move while the latest payment decision is a rejection
+      if (updateData.status === CLAIM_STATUS.IN_PAYMENT) {
+        this.validatePaymentApproval(claim);
+      }
+
+      // Update claim status; reserve changes are recorded in the claim ledger
       await claim.updateStatus(
         updateData.status,
         updateData.notes,
         {
           userId: 'SYSTEM',
-          adjusterId: updateData.adjusterId,
-          reserveChange: updateData.reserveAmount - claim.reserveAmount
+          adjusterId: updateData.adjusterId
         }
       );
 
@@ -200,6 +243,274 @@ export class ClaimRepository extends Repository<ClaimModel> {
     }
   }
 
+  /**
+   * Stores the reserve and paid totals derived from the claim ledger; within a
+   * transaction the totals are written with the ledger entry they follow from, so a
+   * rollback discards both
+   */
+  async updateFinancials(id: string, financials: ClaimFinancials, transaction?: Transaction): Promise<Claim> {
+    try {
+      const claim = await this.findById(id);
+      if (!claim) {
+        throw new Error(`Claim not found: ${id}`);
+      }
+
+      claim.reserveAmount = financials.reserveAmount;
+      claim.paidAmount = financials.paidAmount;
+
+      if (transaction) {
+        await ClaimModel.update(
+          { reserveAmount: financials.reserveAmount, paidAmount: financials.paidAmount },
+          { where: { id }, transaction }
+        );
+      }
+      const updatedClaim = transaction ? claim : await this.save(claim);
+
+      this.logger.info('Claim financials updated', {
+        claimId: id,
+        reserveAmount: financials.reserveAmount,
+        paidAmount: financials.paidAmount
+      });
+
+      return updatedClaim;
+    } catch (error) {
+      this.logger.error('Error updating claim financials', error, { claimId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Records a payment approval or rejection in the claim's status history and audit log
+   */
+  async addPaymentHistory(
+    id: string,
+    entry: { action: PaymentApprovalAction; notes: string; userId: string; details: Record<string, unknown> }
+  ): Promise<Claim> {
+    try {
+      const claim = await this.findById(id) as ClaimModel | null;
+      if (!claim) {
+        throw new Error(`Claim not found: ${id}`);
+      }
+
+      const timestamp = new Date();
+      claim.statusHistory.push({
+        status: claim.status,
+        timestamp,
+        notes: entry.notes,
+        userId: entry.userId,
+        action: entry.action
+      });
+      claim.auditLog.push({
+        action: entry.action,
+        timestamp,
+        userId: entry.userId,
+        details: entry.details
+      });
+
+      const updatedClaim = await this.save(claim);
+
+      this.logger.info('Claim payment history recorded', {
+        claimId: id,
+        action: entry.action,
+        userId: entry.userId
+      });
+
+      return updatedClaim;
+    } catch (error) {
+      this.logger.error('Error recording claim payment history', error, { claimId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the other policies a claimant has claimed on, matching the claimant by
+   * name or email
+   */
+  async findClaimantPolicyIds(claimantInfo: ClaimantInfo, excludePolicyId: string): Promise<string[]> {
+    try {
+      const rows: Array<{ policyId: string }> = await this.createQueryBuilder('claim')
+        .select('DISTINCT claim.policyId', 'policyId')
+        .where('claim.policyId != :excludePolicyId', { excludePolicyId })
+        .andWhere(
+          "((LOWER(claim.claimantInfo ->> 'firstName') = :firstName AND LOWER(claim.claimantInfo ->> 'lastName') = :lastName)" +
+          " OR LOWER(claim.claimantInfo ->> 'email') = :email)",
+          {
+            firstName: claimantInfo.firstName.trim().toLowerCase(),
+            lastName: claimantInfo.lastName.trim().toLowerCase(),
+            email: claimantInfo.email.trim().toLowerCase()
+          }
+        )
+        .getRawMany();
+
+      this.logger.debug('Claimant policies retrieved', {
+        excludePolicyId,
+        policyCount: rows.length
+      });
+
+      return rows.map(row => row.policyId);
+    } catch (error) {
+      this.logger.error('Error retrieving claimant policies', error, { excludePolicyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the claim's latest fraud indicator assessment and records the screening
+   * in the audit log
+   */
+  async updateFraudAssessment(id: string, assessment: ClaimFraudAssessment): Promise<Claim> {
+    try {
+      const claim = await this.findById(id) as ClaimModel | null;
+      if (!claim) {
+        throw new Error(`Claim not found: ${id}`);
+      }
+
+      claim.fraudAssessment = assessment;
+      claim.auditLog.push({
+        action: 'FRAUD_SCREENED',
+        timestamp: assessment.assessedAt,
+        userId: 'SYSTEM',
+        details: {
+          trigger: assessment.trigger,
+          score: assessment.score,
+          referred: assessment.referred,
+          indicators: assessment.indicators.map(indicator => indicator.code)
+        }
+      });
+
+      const updatedClaim = await this.save(claim);
+
+      this.logger.info('Claim fraud assessment updated', {
+        claimId: id,
+        score: assessment.score,
+        referred: assessment.referred
+      });
+
+      return updatedClaim;
+    } catch (error) {
+      this.logger.error('Error updating claim fraud assessment', error, { claimId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Records how a claim with possible duplicates was taken in. A linked claim and the
+   * claim it duplicates each list the other in their linked claims.
+   */
+  async recordDuplicateResolution(
+    id: string,
+    resolution: ClaimDuplicateResolution,
+    matches: ClaimDuplicateMatch[]
+  ): Promise<Claim> {
+    try {
+      const claim = await this.findById(id) as ClaimModel | null;
+      if (!claim) {
+        throw new Error(`Claim not found: ${id}`);
+      }
+
+      const timestamp = new Date();
+      claim.auditLog.push({
+        action: `DUPLICATE_${resolution.action}`,
+        timestamp,
+        userId: 'SYSTEM',
+        details: {
+          linkedClaimId: resolution.claimId,
+          possibleDuplicates: matches.map(match => ({ claimNumber: match.claimNumber, score: match.score }))
+        }
+      });
+
+      if (resolution.action === DuplicateClaimAction.LINK && resolution.claimId) {
+        const linkedClaim = await this.findById(resolution.claimId) as ClaimModel | null;
+        if (!linkedClaim) {
+          throw new Error(`Claim not found: ${resolution.claimId}`);
+        }
+
+        claim.linkedClaimIds = [...(claim.linkedClaimIds || []), linkedClaim.id];
+        linkedClaim.linkedClaimIds = [...(linkedClaim.linkedClaimIds || []), claim.id];
+        linkedClaim.auditLog.push({
+          action: 'CLAIM_LINKED',
+          timestamp,
+          userId: 'SYSTEM',
+          details: { linkedClaimId: claim.id, claimNumber: claim.claimNumber }
+        });
+        await this.save(linkedClaim);
+      }
+
+      const updatedClaim = await this.save(claim);
+
+      this.logger.info('Claim duplicate resolution recorded', {
+        claimId: id,
+        action: resolution.action,
+        linkedClaimId: resolution.claimId
+      });
+
+      return updatedClaim;
+    } catch (error) {
+      this.logger.error('Error recording claim duplicate resolution', error, { claimId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Merges a duplicate submission into an existing claim instead of creating a new
+   * one, keeping the submitted details in the claim's status history and audit log
+   */
+  async mergeSubmission(id: string, submission: CreateClaimRequest): Promise<Claim> {
+    try {
+      const claim = await this.findById(id) as ClaimModel | null;
+      if (!claim) {
+        throw new Error(`Claim not found: ${id}`);
+      }
+
+      const timestamp = new Date();
+      const submittedBy = `${submission.claimantInfo.firstName} ${submission.claimantInfo.lastName}`;
+      claim.statusHistory.push({
+        status: claim.status,
+        timestamp,
+        notes: `Duplicate submission from ${submittedBy} merged`,
+        userId: 'SYSTEM'
+      });
+      claim.auditLog.push({
+        action: 'DUPLICATE_MERGED',
+        timestamp,
+        userId: 'SYSTEM',
+        details: {
+          incidentDate: submission.incidentDate,
+          reportedDate: submission.reportedDate,
+          description: submission.description,
+          location: submission.location,
+          claimantInfo: submission.claimantInfo,
+          initialReserve: submission.initialReserve
+        }
+      });
+
+      const updatedClaim = await this.save(claim);
+
+      this.logger.info('Duplicate submission merged into claim', {
+        claimId: id,
+        claimNumber: claim.claimNumber
+      });
+
+      return updatedClaim;
+    } catch (error) {
+      this.logger.error('Error merging duplicate submission', error, { claimId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Blocks payment while the claim's latest payment decision is a rejection
+   */
+  private validatePaymentApproval(claim: Claim): void {
+    const lastDecision = [...claim.statusHistory]
+      .reverse()
+      .find(entry => entry.action === PaymentApprovalAction.APPROVED || entry.action === PaymentApprovalAction.REJECTED);
+
+    if (lastDecision?.action === PaymentApprovalAction.REJECTED) {
+      throw new Error(`Payment was rejected by ${lastDecision.userId}: ${lastDecision.notes}`);
+    }
+  }
+
   /**
    * Validates claim status transitions based on business rules
    */
@@ -0,0 +1,86 @@
+/**
+ * @file ClaimTransaction repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction } from 'sequelize'; // ^6.32.1
+import { ClaimTransactionModel } from '../models/ClaimTransaction';
+import { ClaimTransaction } from '../types/claims.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Ledger entry data accepted on record; identifiers and timestamps are assigned on save
+ */
+export type ClaimTransactionInput = Omit<ClaimTransaction, 'id' | 'createdAt'>;
+
+/**
+ * Repository class implementing storage of claim financial ledger entries
+ */
+export class ClaimTransactionRepository {
+  /**
+   * Appends an entry to a claim's ledger
+   * @param entry Ledger entry
+   * @param transaction Optional transaction
+   * @returns Stored entry
+   */
+  public async create(entry: ClaimTransactionInput, transaction?: Transaction): Promise<ClaimTransaction> {
+    try {
+      const created = await ClaimTransactionModel.create(entry, { transaction });
+
+      info('Claim transaction recorded', {
+        claimId: entry.claimId,
+        transactionId: created.id,
+        type: entry.type,
+        amount: entry.amount
+      });
+
+      return created.toJSON();
+    } catch (err) {
+      error('Failed to record claim transaction', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a ledger entry
+   * @param id Transaction ID
+   * @returns Entry, or null when it does not exist
+   */
+  public async findById(id: string): Promise<ClaimTransaction | null> {
+    try {
+      const entry = await ClaimTransactionModel.findByPk(id, { timeout: QUERY_TIMEOUT });
+      return entry ? entry.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve claim transaction', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a claim's ledger; within a transaction the entries stay locked until it
+   * ends, so totals derived from them cannot be overtaken by a concurrent entry
+   * @param claimId Claim ID
+   * @param transaction Optional transaction
+   * @returns Entries, oldest first
+   */
+  public async findByClaimId(claimId: string, transaction?: Transaction): Promise<ClaimTransaction[]> {
+    try {
+      const entries = await ClaimTransactionModel.findAll({
+        where: { claimId },
+        order: [['transactionDate', 'ASC'], ['createdAt', 'ASC']],
+        ...(transaction ? { transaction, lock: Transaction.LOCK.UPDATE } : {}),
+        timeout: QUERY_TIMEOUT
+      });
+
+      return entries.map(entry => entry.toJSON());
+    } catch (err) {
+      error('Failed to retrieve claim ledger', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default ClaimTransactionRepository;
@@ -7,7 +7,7 @@
 import { Transaction, Op } from 'sequelize'; // ^6.32.1
 import { retry } from 'retry-ts'; // ^0.1.4
 import { CacheManager } from 'cache-manager'; // ^5.2.0
-import { Endorsement } from '../models/Endorsement';
+import { Endorsement, EndorsementStatus } from '../models/Endorsement';
 import { IEndorsement } from '../types/policy.types';
 import { getSequelize } from '../config/database';
 import { error, info } from '../utils/logger';
@@ -16,6 +16,13 @@ import { error, info } from '../utils/logger';
 const CACHE_TTL = 300; // 5 minutes
 const CACHE_PREFIX = 'endorsement:';
 
+// Endorsement statuses in effect on the policy
+const IN_FORCE_STATUSES = [
+    EndorsementStatus.PENDING,
+    EndorsementStatus.APPROVED,
+    EndorsementStatus.SYNCED
+];
+
 // Retry configuration
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000;
@@ -200,6 +207,35 @@ export class EndorsementRepository {
         }
     }
 
+    /**
+     * Retrieves the in-force endorsements for a policy in effective date order
+     * Used to sequence out-of-sequence endorsements; bypasses the cache
+     * @param policyId Policy ID
+     * @param transaction Optional transaction
+     * @returns In-force endorsements ordered by effective date ascending
+     */
+    public async findInForceByPolicyId(
+        policyId: string,
+        transaction?: Transaction
+    ): Promise<IEndorsement[]> {
+        try {
+            const endorsements = await Endorsement.findAll({
+                where: {
+                    policyId,
+                    status: { [Op.in]: IN_FORCE_STATUSES }
+                },
+                order: [['effectiveDate', 'ASC']],
+                transaction
+            });
+
+            return endorsements.map(e => e.toJSON());
+
+        } catch (err) {
+            error('Failed to retrieve in-force endorsements', err);
+            throw err;
+        }
+    }
+
     /**
      * Updates endorsement with optimistic locking
      * @param id Endorsement ID
@@ -0,0 +1,141 @@
+/**
+ * @file LocationZone repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod'; // ^3.21.4
+import { LOCATION_PERILS, RISK_MULTIPLIERS } from '../constants/underwritingRules';
+import { ILocationZoneDataset, LocationPeril, LocationZone } from '../types/underwriting.types';
+import { error, info } from '../utils/logger';
+
+// Zone files live outside the build output so new data can be imported without a deploy
+const LOCATION_ZONE_DIR = process.env.LOCATION_ZONE_DIR || path.resolve(__dirname, '../../data/location-zones');
+const CACHE_TTL = Number(process.env.LOCATION_ZONE_CACHE_TTL) || 300000; // 5 minutes
+
+const zoneSchema = z.enum(Object.keys(RISK_MULTIPLIERS.LOCATION_TYPE) as [LocationZone, ...LocationZone[]]);
+
+/**
+ * Schema every location zone data file must satisfy
+ */
+export const locationZoneDatasetSchema = z.object({
+  peril: z.enum(LOCATION_PERILS),
+  vintage: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/),
+  source: z.string().min(1),
+  defaultZone: zoneSchema,
+  states: z.record(z.string().regex(/^[A-Z]{2}$/), zoneSchema),
+  zipCodes: z.record(z.string().regex(/^\d{3}(\d{2})?$/), zoneSchema)
+});
+
+/**
+ * Repository class providing access to catastrophe-zone datasets. Files are stored
+ * one per vintage under <LOCATION_ZONE_DIR>/<peril>/<vintage>.json; the latest
+ * vintage of each peril is used and files are re-read once the cache expires.
+ */
+export class LocationZoneRepository {
+  private cache: { datasets: ILocationZoneDataset[]; loadedAt: number } | null = null;
+
+  constructor(private readonly directory: string = LOCATION_ZONE_DIR) {}
+
+  /**
+   * Retrieves the latest vintage of every peril's dataset
+   * @returns Datasets for the perils that have data
+   */
+  public async findLatest(): Promise<ILocationZoneDataset[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL) {
+      return this.cache.datasets;
+    }
+
+    const datasets = (await Promise.all(LOCATION_PERILS.map(peril => this.loadLatest(peril))))
+      .filter((dataset): dataset is ILocationZoneDataset => dataset !== null);
+
+    this.cache = { datasets, loadedAt: Date.now() };
+
+    info('Location zone datasets loaded', {
+      vintages: datasets.map(dataset => `${dataset.peril}@${dataset.vintage}`)
+    });
+
+    return datasets;
+  }
+
+  /**
+   * Imports a new vintage of a peril's dataset. The file is validated before it is
+   * written, and an existing file for the same vintage is replaced.
+   * @param data Dataset contents
+   * @returns Imported dataset
+   * @throws Error when the data is not a valid dataset
+   */
+  public async import(data: unknown): Promise<ILocationZoneDataset> {
+    const parsed = locationZoneDatasetSchema.safeParse(data);
+    if (!parsed.success) {
+      error('Invalid location zone dataset', parsed.error);
+      throw new Error(`Invalid location zone dataset: ${parsed.error.errors.map(issue => issue.message).join('; ')}`);
+    }
+
+    const dataset = parsed.data as ILocationZoneDataset;
+    const perilDir = path.join(this.directory, dataset.peril);
+
+    await fs.mkdir(perilDir, { recursive: true });
+    await fs.writeFile(path.join(perilDir, `${dataset.vintage}.json`), `${JSON.stringify(dataset, null, 2)}\n`);
+    this.clearCache();
+
+    info('Location zone dataset imported', {
+      peril: dataset.peril,
+      vintage: dataset.vintage,
+      zipCodes: Object.keys(dataset.zipCodes).length,
+      states: Object.keys(dataset.states).length
+    });
+
+    return dataset;
+  }
+
+  /**
+   * Discards cached datasets so the next lookup re-reads the data files
+   */
+  public clearCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Reads and validates the latest vintage of a peril's dataset
+   * @param peril Peril
+   * @returns Dataset, or null when the peril has no data files
+   */
+  private async loadLatest(peril: LocationPeril): Promise<ILocationZoneDataset | null> {
+    const perilDir = path.join(this.directory, peril);
+
+    let fileNames: string[];
+    try {
+      fileNames = (await fs.readdir(perilDir)).filter(name => name.endsWith('.json'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+
+    // Vintages are ISO dates, so the last file name is the latest vintage
+    const latest = fileNames.sort().pop();
+    if (!latest) {
+      return null;
+    }
+
+    const filePath = path.join(perilDir, latest);
+    const parsed = locationZoneDatasetSchema.safeParse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+
+    if (!parsed.success) {
+      error('Invalid location zone file', parsed.error, { filePath });
+      throw new Error(`Invalid location zone file: ${filePath}`);
+    }
+
+    if (parsed.data.peril !== peril) {
+      throw new Error(`Location zone file ${filePath} is for ${parsed.data.peril}, not ${peril}`);
+    }
+
+    return parsed.data as ILocationZoneDataset;
+  }
+}
+
+export default LocationZoneRepository;
@@ -0,0 +1,182 @@
+/**
+ * @file PolicyQuote repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Sequelize, Transaction, Op } from 'sequelize'; // ^6.32.1
+import { PolicyQuote } from '../models/PolicyQuote';
+import { IPolicyQuote, QuoteStatus } from '../types/policy.types';
+import { getSequelize } from '../config/database';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Repository class implementing storage of the quote options offered on a submission
+ */
+export class PolicyQuoteRepository {
+  private sequelize: Sequelize;
+
+  constructor() {
+    this.sequelize = getSequelize();
+  }
+
+  /**
+   * Creates a quote option numbered after the submission's existing options
+   * @param quoteData Quote option data
+   * @param transaction Optional transaction
+   * @returns Created quote option
+   */
+  public async create(
+    quoteData: Omit<IPolicyQuote, 'id' | 'optionNumber' | 'status' | 'createdAt' | 'updatedAt'>,
+    transaction?: Transaction
+  ): Promise<IPolicyQuote> {
+    const t = transaction || await this.sequelize.transaction();
+
+    try {
+      const latestOption: number = await PolicyQuote.max('optionNumber', {
+        where: { policyId: quoteData.policyId },
+        transaction: t
+      }) || 0;
+
+      const quote = await PolicyQuote.create(
+        {
+          ...quoteData,
+          optionNumber: latestOption + 1,
+          status: QuoteStatus.ACTIVE
+        },
+        { transaction: t }
+      );
+
+      if (!transaction) {
+        await t.commit();
+      }
+
+      info('Quote option created successfully', {
+        policyId: quoteData.policyId,
+        quoteId: quote.id,
+        optionNumber: quote.optionNumber
+      });
+
+      return quote.toJSON();
+    } catch (err) {
+      if (!transaction) {
+        await t.rollback();
+      }
+      error('Failed to create quote option', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a quote option by ID
+   * @param id Quote option ID
+   * @param transaction Optional transaction
+   * @returns Quote option or null
+   */
+  public async findById(id: string, transaction?: Transaction): Promise<IPolicyQuote | null> {
+    try {
+      const quote = await PolicyQuote.findByPk(id, { transaction });
+      return quote ? quote.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve quote option', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves every quote option on a submission
+   * @param policyId Policy ID
+   * @param transaction Optional transaction
+   * @returns Quote options in option number order
+   */
+  public async findByPolicyId(policyId: string, transaction?: Transaction): Promise<IPolicyQuote[]> {
+    try {
+      const quotes = await PolicyQuote.findAll({
+        where: { policyId },
+        order: [['optionNumber', 'ASC']],
+        timeout: QUERY_TIMEOUT,
+        transaction
+      });
+
+      return quotes.map(quote => quote.toJSON());
+    } catch (err) {
+      error('Failed to retrieve quote options', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Marks open quote options past their expiration date as expired
+   * @param policyId Policy ID
+   * @param asOf Reference date
+   * @param transaction Optional transaction
+   * @returns Number of options expired
+   */
+  public async expireLapsed(policyId: string, asOf: Date, transaction?: Transaction): Promise<number> {
+    try {
+      const [expired] = await PolicyQuote.update(
+        { status: QuoteStatus.EXPIRED },
+        {
+          where: {
+            policyId,
+            status: QuoteStatus.ACTIVE,
+            expirationDate: { [Op.lt]: asOf }
+          },
+          transaction
+        }
+      );
+
+      return expired;
+    } catch (err) {
+      error('Failed to expire quote options', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Marks a quote option bound and supersedes the submission's other open options
+   * @param quote Quote option being bound
+   * @param boundBy Binding user
+   * @param transaction Transaction shared with the policy update
+   * @returns Bound quote option
+   */
+  public async bind(quote: IPolicyQuote, boundBy: string, transaction: Transaction): Promise<IPolicyQuote> {
+    try {
+      const boundAt = new Date();
+
+      await PolicyQuote.update(
+        { status: QuoteStatus.SUPERSEDED },
+        {
+          where: {
+            policyId: quote.policyId,
+            status: QuoteStatus.ACTIVE,
+            id: { [Op.ne]: quote.id }
+          },
+          transaction
+        }
+      );
+
+      await PolicyQuote.update(
+        { status: QuoteStatus.BOUND, boundBy, boundAt },
+        {
+          where: { id: quote.id },
+          transaction
+        }
+      );
+
+      info('Quote option bound successfully', {
+        policyId: quote.policyId,
+        quoteId: quote.id
+      });
+
+      return { ...quote, status: QuoteStatus.BOUND, boundBy, boundAt };
+    } catch (err) {
+      error('Failed to bind quote option', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default PolicyQuoteRepository;
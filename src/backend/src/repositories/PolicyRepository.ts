@@ -8,7 +8,8 @@ import { Sequelize, Transaction, Op } from 'sequelize'; // ^6.32.1
 import { ConnectionPool } from 'sequelize-pool'; // ^6.1.0
 import { caching } from 'cache-manager'; // ^5.2.0
 import { Policy } from '../models/Policy';
-import { IPolicy } from '../types/policy.types';
+import { IPolicy, PolicyStatus } from '../types/policy.types';
+import { PolicyType } from '../constants/policyTypes';
 import { getSequelize } from '../config/database';
 import { logger } from '../utils/logger';
 
@@ -197,6 +198,127 @@ export class PolicyRepository {
     }
   }
 
+  /**
+   * Finds policies in the given statuses whose expiration date falls within a window
+   * @param fromDate Start of expiration window (inclusive)
+   * @param toDate End of expiration window (inclusive)
+   * @param statuses Policy statuses to include
+   * @returns Policies expiring within the window, soonest first
+   */
+  public async findExpiring(
+    fromDate: Date,
+    toDate: Date,
+    statuses: PolicyStatus[] = [PolicyStatus.ACTIVE]
+  ): Promise<IPolicy[]> {
+    try {
+      const policies = await Policy.findAll({
+        where: {
+          status: { [Op.in]: statuses },
+          expirationDate: {
+            [Op.between]: [fromDate, toDate]
+          }
+        },
+        order: [['expirationDate', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      logger.info('Expiring policies retrieved successfully', {
+        count: policies.length,
+        fromDate,
+        toDate
+      });
+
+      return policies.map(policy => policy.toJSON());
+    } catch (error) {
+      logger.error('Failed to retrieve expiring policies', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds policies in the given statuses carrying open post-bind subjectivities
+   * @param statuses Policy statuses to include
+   * @returns Policies with open post-bind subjectivities
+   */
+  public async findWithOpenSubjectivities(
+    statuses: PolicyStatus[] = [PolicyStatus.BOUND, PolicyStatus.ACTIVE]
+  ): Promise<IPolicy[]> {
+    try {
+      const policies = await Policy.findAll({
+        where: {
+          status: { [Op.in]: statuses },
+          underwritingInfo: {
+            [Op.contains]: { subjectivities: [{ timing: 'POST_BIND', status: 'OPEN' }] }
+          }
+        },
+        timeout: QUERY_TIMEOUT
+      });
+
+      logger.info('Policies with open subjectivities retrieved successfully', {
+        count: policies.length
+      });
+
+      return policies.map(policy => policy.toJSON());
+    } catch (error) {
+      logger.error('Failed to retrieve policies with open subjectivities', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Counts policies in the given statuses
+   * @param statuses Policy statuses to include
+   * @param type Optional policy type
+   * @returns Number of matching policies
+   */
+  public async countInStatuses(statuses: PolicyStatus[], type?: PolicyType): Promise<number> {
+    try {
+      return await Policy.count({
+        where: {
+          status: { [Op.in]: statuses },
+          ...(type ? { type } : {})
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to count policies', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the next page of policies in the given statuses in id order, so a
+   * long-running batch can walk the book and pick up where it left off
+   * @param statuses Policy statuses to include
+   * @param afterId Last policy ID already read, or null to start from the beginning
+   * @param limit Page size
+   * @param type Optional policy type
+   * @returns Policies with IDs after afterId
+   */
+  public async findPageAfter(
+    statuses: PolicyStatus[],
+    afterId: string | null,
+    limit: number,
+    type?: PolicyType
+  ): Promise<IPolicy[]> {
+    try {
+      const policies = await Policy.findAll({
+        where: {
+          status: { [Op.in]: statuses },
+          ...(type ? { type } : {}),
+          ...(afterId ? { id: { [Op.gt]: afterId } } : {})
+        },
+        order: [['id', 'ASC']],
+        limit,
+        timeout: QUERY_TIMEOUT
+      });
+
+      return policies.map(policy => policy.toJSON());
+    } catch (error) {
+      logger.error('Failed to retrieve policy page', error);
+      throw error;
+    }
+  }
+
   /**
    * Updates policy by ID with optimistic locking
    * @param id Policy ID
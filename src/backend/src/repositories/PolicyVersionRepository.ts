@@ -0,0 +1,170 @@
+/**
+ * @file PolicyVersion repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Sequelize, Transaction, Op } from 'sequelize'; // ^6.32.1
+import { PolicyVersion } from '../models/PolicyVersion';
+import { IPolicy, IPolicyVersion, PolicyTransactionType } from '../types/policy.types';
+import { getSequelize } from '../config/database';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Repository class implementing append-only storage of point-in-time policy versions
+ */
+export class PolicyVersionRepository {
+  private sequelize: Sequelize;
+
+  constructor() {
+    this.sequelize = getSequelize();
+  }
+
+  /**
+   * Records a new policy version effective from the given date.
+   * Versions effective on or after that date are marked superseded (a back-dated
+   * transaction re-issues them), and the version previously in force is closed.
+   * @param policy Policy state in force from effectiveFrom
+   * @param details Transaction type, effective date, originating record and user
+   * @param transaction Optional transaction
+   * @returns Recorded version
+   */
+  public async record(
+    policy: IPolicy,
+    details: {
+      transactionType: PolicyTransactionType;
+      effectiveFrom: Date;
+      sourceId?: string;
+      createdBy?: string;
+    },
+    transaction?: Transaction
+  ): Promise<IPolicyVersion> {
+    const t = transaction || await this.sequelize.transaction();
+
+    try {
+      const now = new Date();
+
+      // Displace versions the new transaction back-dates over
+      await PolicyVersion.update(
+        { supersededAt: now },
+        {
+          where: {
+            policyId: policy.id,
+            supersededAt: null,
+            effectiveFrom: { [Op.gte]: details.effectiveFrom }
+          },
+          transaction: t
+        }
+      );
+
+      // Close the version in force on the effective date
+      await PolicyVersion.update(
+        { effectiveTo: details.effectiveFrom },
+        {
+          where: {
+            policyId: policy.id,
+            supersededAt: null,
+            effectiveFrom: { [Op.lt]: details.effectiveFrom },
+            [Op.or]: [
+              { effectiveTo: null },
+              { effectiveTo: { [Op.gt]: details.effectiveFrom } }
+            ]
+          },
+          transaction: t
+        }
+      );
+
+      const latestVersion: number = await PolicyVersion.max('versionNumber', {
+        where: { policyId: policy.id },
+        transaction: t
+      }) || 0;
+
+      // Audit trail is not part of the policy state
+      const { auditLog, ...snapshot } = policy;
+
+      const version = await PolicyVersion.create(
+        {
+          policyId: policy.id,
+          versionNumber: latestVersion + 1,
+          transactionType: details.transactionType,
+          effectiveFrom: details.effectiveFrom,
+          snapshot,
+          sourceId: details.sourceId,
+          createdBy: details.createdBy
+        },
+        { transaction: t }
+      );
+
+      if (!transaction) {
+        await t.commit();
+      }
+
+      info('Policy version recorded successfully', {
+        policyId: policy.id,
+        versionNumber: version.versionNumber,
+        transactionType: details.transactionType
+      });
+
+      return version.toJSON();
+    } catch (err) {
+      if (!transaction) {
+        await t.rollback();
+      }
+      error('Failed to record policy version', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Finds the version in force on a given date
+   * @param policyId Policy ID
+   * @param asOf Point in time
+   * @returns Version in force, or null when none covers the date
+   */
+  public async findAsOf(policyId: string, asOf: Date): Promise<IPolicyVersion | null> {
+    try {
+      const version = await PolicyVersion.findOne({
+        where: {
+          policyId,
+          supersededAt: null,
+          effectiveFrom: { [Op.lte]: asOf },
+          [Op.or]: [
+            { effectiveTo: null },
+            { effectiveTo: { [Op.gt]: asOf } }
+          ]
+        },
+        order: [['versionNumber', 'DESC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return version ? version.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve policy version', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves every recorded version of a policy, including superseded versions
+   * @param policyId Policy ID
+   * @returns Versions in recording order
+   */
+  public async findByPolicyId(policyId: string): Promise<IPolicyVersion[]> {
+    try {
+      const versions = await PolicyVersion.findAll({
+        where: { policyId },
+        order: [['versionNumber', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return versions.map(version => version.toJSON());
+    } catch (err) {
+      error('Failed to retrieve policy versions', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default PolicyVersionRepository;
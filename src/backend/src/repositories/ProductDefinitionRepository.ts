@@ -0,0 +1,104 @@
+/**
+ * @file ProductDefinition repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import path from 'path';
+import { z } from 'zod'; // ^3.21.4
+import { PolicyType } from '../constants/policyTypes';
+import { EligibilityAnswerType, IProductDefinition } from '../types/product.types';
+import { VersionedDataFileRepository, versionedDataFileSchema } from './VersionedDataFileRepository';
+
+// Product definitions are data files so underwriting can change a product without a deploy
+const PRODUCT_DEFINITION_DIR = process.env.PRODUCT_DEFINITION_DIR || path.resolve(__dirname, '../../data/products');
+const CACHE_TTL = Number(process.env.PRODUCT_DEFINITION_CACHE_TTL) || 300000; // 5 minutes
+
+const amountRange = z.object({
+  min: z.number().min(0),
+  max: z.number().min(0)
+}).refine(range => range.min <= range.max, { message: 'min must not exceed max' });
+
+/**
+ * Schema every product definition data file must satisfy
+ */
+const productDefinitionSchema = versionedDataFileSchema.extend({
+  name: z.string().min(1),
+  limits: z.object({
+    perOccurrence: amountRange,
+    aggregate: amountRange
+  }),
+  deductible: z.object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+    allowedValues: z.array(z.number().min(0)).min(1).optional()
+  }),
+  allowedCoverages: z.array(z.object({
+    code: z.string().min(1),
+    name: z.string().min(1),
+    required: z.boolean()
+  })).min(1),
+  requiredDocuments: z.array(z.string().min(1)),
+  requiredFields: z.array(z.string().regex(/^[A-Za-z][A-Za-z0-9]*(\.[A-Za-z][A-Za-z0-9]*)*$/)).default([]),
+  eligibilityQuestions: z.array(z.object({
+    id: z.string().regex(/^[a-z][a-z0-9_]*$/),
+    text: z.string().min(1),
+    answerType: z.nativeEnum(EligibilityAnswerType),
+    options: z.array(z.string().min(1)).min(2).optional(),
+    required: z.boolean(),
+    ineligibleWhen: z.object({
+      equals: z.union([z.boolean(), z.string()]).optional(),
+      in: z.array(z.string()).optional(),
+      greaterThan: z.number().optional(),
+      lessThan: z.number().optional()
+    }).optional(),
+    declineReason: z.string().optional()
+  }).refine(question => question.answerType !== EligibilityAnswerType.SELECT || question.options !== undefined, {
+    message: 'SELECT questions must list their options'
+  })),
+  appetite: z.object({
+    excludedStates: z.array(z.string().regex(/^[A-Z]{2}$/)).default([]),
+    referredStates: z.array(z.string().regex(/^[A-Z]{2}$/)).default([]),
+    excludedClassCodes: z.array(z.string().regex(/^[0-9]{2,6}$/)).default([]),
+    referredClassCodes: z.array(z.string().regex(/^[0-9]{2,6}$/)).default([]),
+    maxRevenue: z.number().positive().optional(),
+    referRevenueAbove: z.number().positive().optional()
+  }).default({})
+});
+
+/**
+ * Repository class providing read access to versioned product definition data files.
+ * Files are stored one per version under <PRODUCT_DEFINITION_DIR>/<policy type>/ and
+ * are re-read once the cache expires.
+ */
+export class ProductDefinitionRepository extends VersionedDataFileRepository<IProductDefinition, typeof productDefinitionSchema> {
+  protected readonly schema = productDefinitionSchema;
+
+  constructor(directory: string = PRODUCT_DEFINITION_DIR) {
+    super(directory, CACHE_TTL, 'product definition');
+  }
+
+  /**
+   * Converts a validated product definition file, ordering allowed deductibles
+   * @param data Validated file contents
+   * @param effectiveDate Parsed effective date
+   * @returns Product definition
+   */
+  protected toEntry(
+    data: z.infer<typeof productDefinitionSchema> & { policyType: PolicyType },
+    effectiveDate: Date
+  ): IProductDefinition {
+    return {
+      ...data,
+      effectiveDate,
+      deductible: {
+        ...data.deductible,
+        ...(data.deductible.allowedValues
+          ? { allowedValues: [...data.deductible.allowedValues].sort((a, b) => a - b) }
+          : {})
+      }
+    };
+  }
+}
+
+export default ProductDefinitionRepository;
@@ -0,0 +1,76 @@
+/**
+ * @file RateTable repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import path from 'path';
+import { z } from 'zod'; // ^3.21.4
+import { PolicyType } from '../constants/policyTypes';
+import { ExposureBasis, IRateTable } from '../types/rating.types';
+import { VersionedDataFileRepository, versionedDataFileSchema } from './VersionedDataFileRepository';
+
+// Rate tables live outside the build output so a rate change can ship without a deploy
+const RATE_TABLE_DIR = process.env.RATE_TABLE_DIR || path.resolve(__dirname, '../../data/rate-tables');
+const CACHE_TTL = Number(process.env.RATE_TABLE_CACHE_TTL) || 300000; // 5 minutes
+
+const nonNegative = z.number().min(0);
+const factor = z.number().min(0).max(1);
+
+/**
+ * Schema every rate table data file must satisfy
+ */
+const rateTableSchema = versionedDataFileSchema.extend({
+  exposureBasis: z.nativeEnum(ExposureBasis),
+  exposureUnit: z.number().positive(),
+  baseRate: z.number().positive(),
+  minimumPremium: nonNegative,
+  basicLimit: z.number().positive(),
+  increasedLimitFactors: z.array(z.object({
+    limit: z.number().positive(),
+    factor: z.number().positive()
+  })).min(1),
+  deductibleCredits: z.array(z.object({
+    deductible: nonNegative,
+    credit: factor
+  })),
+  coverageFactors: z.record(z.number().positive()).optional(),
+  scheduleModifiers: z.object({
+    maxTotalCredit: factor,
+    maxTotalDebit: nonNegative,
+    categories: z.record(z.object({
+      maxCredit: factor,
+      maxDebit: nonNegative
+    }))
+  })
+});
+
+/**
+ * Repository class providing read access to versioned rate table data files.
+ * Files are stored one per version under <RATE_TABLE_DIR>/<policy type>/ and
+ * are re-read once the cache expires.
+ */
+export class RateTableRepository extends VersionedDataFileRepository<IRateTable, typeof rateTableSchema> {
+  protected readonly schema = rateTableSchema;
+
+  constructor(directory: string = RATE_TABLE_DIR) {
+    super(directory, CACHE_TTL, 'rate table');
+  }
+
+  /**
+   * Converts a validated rate table file, ordering its curves by limit and deductible
+   * @param data Validated file contents
+   * @param effectiveDate Parsed effective date
+   * @returns Rate table
+   */
+  protected toEntry(data: z.infer<typeof rateTableSchema> & { policyType: PolicyType }, effectiveDate: Date): IRateTable {
+    return {
+      ...data,
+      effectiveDate,
+      increasedLimitFactors: [...data.increasedLimitFactors].sort((a, b) => a.limit - b.limit),
+      deductibleCredits: [...data.deductibleCredits].sort((a, b) => a.deductible - b.deductible)
+    };
+  }
+}
+
+export default RateTableRepository;
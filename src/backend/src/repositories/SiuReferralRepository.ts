@@ -0,0 +1,130 @@
+/**
+ * @file SiuReferral repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction } from 'sequelize'; // ^6.32.1
+import { SiuReferralModel } from '../models/SiuReferral';
+import { SiuReferral, SiuReferralStatus } from '../types/claims.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Referral data accepted on referral; identifiers and timestamps are assigned on save
+ */
+export type SiuReferralInput = Omit<SiuReferral, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Repository class implementing the special investigations referral queue
+ */
+export class SiuReferralRepository {
+  /**
+   * Refers a claim to special investigations
+   * @param referral Referral
+   * @param transaction Optional transaction
+   * @returns Created referral
+   */
+  public async create(referral: SiuReferralInput, transaction?: Transaction): Promise<SiuReferral> {
+    try {
+      const created = await SiuReferralModel.create(referral, { transaction });
+
+      info('Claim referred to special investigations', {
+        claimId: referral.claimId,
+        referralId: created.id,
+        score: referral.score
+      });
+
+      return created.toJSON();
+    } catch (err) {
+      error('Failed to create SIU referral', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a referral
+   * @param id Referral ID
+   * @returns Referral, or null when it does not exist
+   */
+  public async findById(id: string): Promise<SiuReferral | null> {
+    try {
+      const referral = await SiuReferralModel.findByPk(id, { timeout: QUERY_TIMEOUT });
+      return referral ? referral.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve SIU referral', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the open referral on a claim
+   * @param claimId Claim ID
+   * @returns Open referral, or null when the claim has none
+   */
+  public async findOpenByClaimId(claimId: string): Promise<SiuReferral | null> {
+    try {
+      const referral = await SiuReferralModel.findOne({
+        where: { claimId, status: SiuReferralStatus.OPEN },
+        timeout: QUERY_TIMEOUT
+      });
+
+      return referral ? referral.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve open SIU referral', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the referral queue
+   * @param status Status to list
+   * @param limit Maximum number of referrals
+   * @returns Referrals, oldest first
+   */
+  public async findByStatus(status: SiuReferralStatus, limit: number = 100): Promise<SiuReferral[]> {
+    try {
+      const referrals = await SiuReferralModel.findAll({
+        where: { status },
+        order: [['referredAt', 'ASC']],
+        limit,
+        timeout: QUERY_TIMEOUT
+      });
+
+      return referrals.map(referral => referral.toJSON());
+    } catch (err) {
+      error('Failed to retrieve SIU referral queue', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Updates a referral's score or records its outcome
+   * @param id Referral ID
+   * @param updates Fields to update
+   * @param transaction Optional transaction
+   * @returns Updated referral, or null when it does not exist
+   */
+  public async update(
+    id: string,
+    updates: Partial<SiuReferralInput>,
+    transaction?: Transaction
+  ): Promise<SiuReferral | null> {
+    try {
+      const referral = await SiuReferralModel.findByPk(id, { transaction });
+      if (!referral) {
+        return null;
+      }
+
+      await referral.update(updates, { transaction });
+
+      return referral.toJSON();
+    } catch (err) {
+      error('Failed to update SIU referral', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default SiuReferralRepository;
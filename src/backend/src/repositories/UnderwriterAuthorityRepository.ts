@@ -0,0 +1,124 @@
+/**
+ * @file UnderwriterAuthority repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction } from 'sequelize'; // ^6.32.1
+import { UnderwriterAuthority } from '../models/UnderwriterAuthority';
+import { User } from '../models/User';
+import { IUnderwriterAuthority } from '../types/underwriting.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Authority data accepted on save; identifiers and timestamps are assigned on save
+ */
+export type UnderwriterAuthorityInput = Omit<IUnderwriterAuthority, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Repository class implementing storage of underwriter authority matrices
+ */
+export class UnderwriterAuthorityRepository {
+  /**
+   * Retrieves the authority of an underwriter
+   * @param userId Underwriter user ID
+   * @param transaction Optional transaction
+   * @returns Authority, or null when the underwriter has none
+   */
+  public async findByUserId(userId: string, transaction?: Transaction): Promise<IUnderwriterAuthority | null> {
+    try {
+      const authority = await UnderwriterAuthority.findOne({
+        where: { userId },
+        transaction,
+        timeout: QUERY_TIMEOUT
+      });
+      return authority ? authority.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve underwriter authority', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Lists every underwriter authority with the underwriter's name
+   * @returns Authorities ordered by maximum limit
+   */
+  public async findAll(): Promise<IUnderwriterAuthority[]> {
+    try {
+      const authorities = await UnderwriterAuthority.findAll({
+        include: [{ model: User, as: 'user', attributes: ['firstName', 'lastName'] }],
+        order: [['maxLimit', 'ASC'], ['createdAt', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return authorities.map(authority => authority.toJSON());
+    } catch (err) {
+      error('Failed to list underwriter authorities', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Updates fields of an underwriter's authority
+   * @param userId Underwriter user ID
+   * @param updates Fields to change
+   * @param transaction Optional transaction
+   * @returns Updated authority, or null when the underwriter has none
+   */
+  public async update(
+    userId: string,
+    updates: Partial<UnderwriterAuthorityInput>,
+    transaction?: Transaction
+  ): Promise<IUnderwriterAuthority | null> {
+    try {
+      const authority = await UnderwriterAuthority.findOne({ where: { userId }, transaction });
+      if (!authority) {
+        return null;
+      }
+
+      await authority.update(updates, { transaction });
+
+      info('Underwriter authority updated successfully', {
+        userId,
+        fields: Object.keys(updates)
+      });
+
+      return authority.toJSON();
+    } catch (err) {
+      error('Failed to update underwriter authority', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Creates or replaces the authority of an underwriter
+   * @param authorityData Authority data
+   * @param transaction Optional transaction
+   * @returns Saved authority
+   */
+  public async upsert(
+    authorityData: UnderwriterAuthorityInput,
+    transaction?: Transaction
+  ): Promise<IUnderwriterAuthority> {
+    try {
+      const [authority] = await UnderwriterAuthority.upsert(authorityData, {
+        transaction,
+        conflictFields: ['userId']
+      });
+
+      info('Underwriter authority saved successfully', {
+        userId: authorityData.userId,
+        refersToUserId: authorityData.refersToUserId
+      });
+
+      return authority.toJSON();
+    } catch (err) {
+      error('Failed to save underwriter authority', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default UnderwriterAuthorityRepository;
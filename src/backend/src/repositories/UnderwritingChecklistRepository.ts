@@ -0,0 +1,121 @@
+/**
+ * @file UnderwritingChecklist repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction, Op } from 'sequelize'; // ^6.32.1
+import { UnderwritingChecklist } from '../models/UnderwritingChecklist';
+import { ISubmissionChecklist } from '../types/underwriting.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Checklist data accepted on save; identifiers and timestamps are assigned on save
+ */
+export type SubmissionChecklistInput = Omit<ISubmissionChecklist, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Repository class implementing storage of submission completeness checklists
+ */
+export class UnderwritingChecklistRepository {
+  /**
+   * Retrieves a submission's checklist
+   * @param policyId Policy ID
+   * @returns Checklist, or null when the submission has none
+   */
+  public async findByPolicyId(policyId: string): Promise<ISubmissionChecklist | null> {
+    try {
+      const checklist = await UnderwritingChecklist.findOne({
+        where: { policyId },
+        timeout: QUERY_TIMEOUT
+      });
+
+      return checklist ? checklist.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve underwriting checklist', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves checklists of submissions waiting on broker documents
+   * @returns Pending checklists, longest waiting first
+   */
+  public async findPending(): Promise<ISubmissionChecklist[]> {
+    try {
+      const checklists = await UnderwritingChecklist.findAll({
+        where: { pendingSince: { [Op.ne]: null } },
+        order: [['pendingSince', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return checklists.map(checklist => checklist.toJSON());
+    } catch (err) {
+      error('Failed to retrieve pending underwriting checklists', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Creates or replaces a submission's checklist
+   * @param checklist Checklist data
+   * @param transaction Optional transaction
+   * @returns Stored checklist
+   */
+  public async upsert(
+    checklist: SubmissionChecklistInput,
+    transaction?: Transaction
+  ): Promise<ISubmissionChecklist> {
+    try {
+      const [saved] = await UnderwritingChecklist.upsert(checklist, {
+        transaction,
+        conflictFields: ['policyId']
+      });
+
+      info('Underwriting checklist saved', {
+        policyId: checklist.policyId,
+        missing: checklist.items.filter(item => !item.received).length,
+        pending: Boolean(checklist.pendingSince)
+      });
+
+      return saved.toJSON();
+    } catch (err) {
+      error('Failed to save underwriting checklist', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Records a reminder sent to the broker
+   * @param policyId Policy ID
+   * @param remindedAt Time of the reminder
+   * @param transaction Optional transaction
+   * @returns Updated checklist, or null when the submission has none
+   */
+  public async recordReminder(
+    policyId: string,
+    remindedAt: Date,
+    transaction?: Transaction
+  ): Promise<ISubmissionChecklist | null> {
+    try {
+      const checklist = await UnderwritingChecklist.findOne({ where: { policyId }, transaction });
+      if (!checklist) {
+        return null;
+      }
+
+      await checklist.update({
+        remindersSent: checklist.remindersSent + 1,
+        lastRemindedAt: remindedAt
+      }, { transaction });
+
+      return checklist.toJSON();
+    } catch (err) {
+      error('Failed to record underwriting checklist reminder', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default UnderwritingChecklistRepository;
@@ -0,0 +1,210 @@
+/**
+ * @file UnderwritingDecision repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction, Op, WhereOptions, literal } from 'sequelize'; // ^6.32.1
+import { UnderwritingDecision } from '../models/UnderwritingDecision';
+import { PolicyType } from '../constants/policyTypes';
+import { IReviewHistory, IUnderwritingDecisionRecord, UnderwritingStatus } from '../types/underwriting.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+// Statuses that keep a decision in an underwriter's queue
+const OPEN_STATUSES = [UnderwritingStatus.IN_REVIEW, UnderwritingStatus.REFERRED];
+
+/**
+ * Criteria selecting the historical decisions replayed by a simulation
+ */
+export interface DecisionReplayCriteria {
+  policyType?: PolicyType;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+/**
+ * Repository class implementing storage of automated underwriting decisions
+ */
+export class UnderwritingDecisionRepository {
+  /**
+   * Records an underwriting decision
+   * @param record Decision record
+   * @param transaction Optional transaction
+   * @returns Stored decision record
+   */
+  public async create(
+    record: Omit<IUnderwritingDecisionRecord, 'id'>,
+    transaction?: Transaction
+  ): Promise<IUnderwritingDecisionRecord> {
+    try {
+      const decision = await UnderwritingDecision.create(record, { transaction });
+
+      info('Underwriting decision recorded', {
+        policyId: record.policyId,
+        decisionId: decision.id,
+        status: record.status
+      });
+
+      return decision.toJSON();
+    } catch (err) {
+      error('Failed to record underwriting decision', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves every decision made on a policy
+   * @param policyId Policy ID
+   * @returns Decisions, most recent first
+   */
+  public async findByPolicyId(policyId: string): Promise<IUnderwritingDecisionRecord[]> {
+    try {
+      const decisions = await UnderwritingDecision.findAll({
+        where: { policyId },
+        order: [['decidedAt', 'DESC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return decisions.map(decision => decision.toJSON());
+    } catch (err) {
+      error('Failed to retrieve underwriting decisions', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Records underwriter review of a decision
+   * @param id Decision ID
+   * @param review Review status, history and current referral
+   * @param transaction Optional transaction
+   * @returns Updated decision record, or null when no decision has the ID
+   */
+  public async updateReview(
+    id: string,
+    review: Pick<IUnderwritingDecisionRecord, 'reviewStatus' | 'reviewHistory' | 'referredTo'>,
+    transaction?: Transaction
+  ): Promise<IUnderwritingDecisionRecord | null> {
+    try {
+      const decision = await UnderwritingDecision.findByPk(id, { transaction });
+      if (!decision) {
+        return null;
+      }
+
+      await decision.update(review, { transaction });
+
+      info('Underwriting decision review recorded', {
+        decisionId: id,
+        reviewStatus: review.reviewStatus,
+        referredTo: review.referredTo
+      });
+
+      return decision.toJSON();
+    } catch (err) {
+      error('Failed to record underwriting decision review', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Assigns a decision to an underwriter
+   * @param id Decision ID
+   * @param assignment Assignee, assignment time and review history including the assignment entry
+   * @param transaction Optional transaction
+   * @returns Updated decision record, or null when no decision has the ID
+   */
+  public async updateAssignment(
+    id: string,
+    assignment: Pick<IUnderwritingDecisionRecord, 'assignedTo' | 'assignedAt'> & { reviewHistory: IReviewHistory[] },
+    transaction?: Transaction
+  ): Promise<IUnderwritingDecisionRecord | null> {
+    try {
+      const decision = await UnderwritingDecision.findByPk(id, { transaction });
+      if (!decision) {
+        return null;
+      }
+
+      await decision.update(assignment, { transaction });
+
+      info('Underwriting decision assigned', {
+        decisionId: id,
+        assignedTo: assignment.assignedTo
+      });
+
+      return decision.toJSON();
+    } catch (err) {
+      error('Failed to assign underwriting decision', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the decisions waiting on an underwriter: the latest decision per policy
+   * whose review outcome, or automated status when unreviewed, is in review or referred
+   * @param assignedTo Optional assignee; null selects unassigned decisions
+   * @returns Open decisions, oldest first
+   */
+  public async findOpen(assignedTo?: string | null): Promise<IUnderwritingDecisionRecord[]> {
+    try {
+      const where: WhereOptions<IUnderwritingDecisionRecord> = {
+        ...(assignedTo !== undefined ? { assignedTo } : {}),
+        [Op.or]: [
+          { reviewStatus: { [Op.in]: OPEN_STATUSES } },
+          { reviewStatus: null, status: { [Op.in]: OPEN_STATUSES } }
+        ],
+        [Op.and]: [
+          literal(`"UnderwritingDecision"."decided_at" = (
+            SELECT MAX(latest.decided_at) FROM underwriting_decisions latest
+            WHERE latest.policy_id = "UnderwritingDecision"."policy_id"
+          )`)
+        ]
+      };
+
+      const decisions = await UnderwritingDecision.findAll({
+        where,
+        order: [['decidedAt', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return decisions.map(decision => decision.toJSON());
+    } catch (err) {
+      error('Failed to retrieve open underwriting decisions', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves historical decisions to replay against a candidate configuration
+   * @param criteria Policy type, decision date window and maximum record count
+   * @returns Decisions, most recent first
+   */
+  public async findForReplay(criteria: DecisionReplayCriteria): Promise<IUnderwritingDecisionRecord[]> {
+    try {
+      const where: WhereOptions<IUnderwritingDecisionRecord> = {
+        ...(criteria.policyType ? { policyType: criteria.policyType } : {}),
+        ...(criteria.from || criteria.to ? {
+          decidedAt: {
+            ...(criteria.from ? { [Op.gte]: criteria.from } : {}),
+            ...(criteria.to ? { [Op.lte]: criteria.to } : {})
+          }
+        } : {})
+      };
+
+      const decisions = await UnderwritingDecision.findAll({
+        where,
+        order: [['decidedAt', 'DESC']],
+        limit: criteria.limit,
+        timeout: QUERY_TIMEOUT
+      });
+
+      return decisions.map(decision => decision.toJSON());
+    } catch (err) {
+      error('Failed to retrieve underwriting decisions for replay', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default UnderwritingDecisionRepository;
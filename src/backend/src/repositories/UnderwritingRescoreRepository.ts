@@ -0,0 +1,176 @@
+/**
+ * @file UnderwritingRescore repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction, Op } from 'sequelize'; // ^6.32.1
+import { UnderwritingRescoreRun } from '../models/UnderwritingRescoreRun';
+import { UnderwritingRescoreResult } from '../models/UnderwritingRescoreResult';
+import { IRescoreResult, IRescoreRun } from '../types/underwriting.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Run data accepted on start; identifiers and timestamps are assigned on save
+ */
+export type RescoreRunInput = Omit<IRescoreRun, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Repository class implementing storage of re-scoring runs and their results
+ */
+export class UnderwritingRescoreRepository {
+  /**
+   * Records the start of a re-scoring run
+   * @param run Run data
+   * @param transaction Optional transaction
+   * @returns Stored run
+   */
+  public async createRun(run: RescoreRunInput, transaction?: Transaction): Promise<IRescoreRun> {
+    try {
+      const created = await UnderwritingRescoreRun.create(run, { transaction });
+
+      info('Underwriting re-scoring run started', {
+        runId: created.id,
+        policyType: run.policyType,
+        dryRun: run.dryRun,
+        totalPolicies: run.totalPolicies
+      });
+
+      return created.toJSON();
+    } catch (err) {
+      error('Failed to start underwriting re-scoring run', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a re-scoring run
+   * @param id Run ID
+   * @returns Run, or null when it does not exist
+   */
+  public async findRunById(id: string): Promise<IRescoreRun | null> {
+    try {
+      const run = await UnderwritingRescoreRun.findByPk(id, { timeout: QUERY_TIMEOUT });
+      return run ? run.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve underwriting re-scoring run', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the most recent re-scoring runs
+   * @param limit Maximum number of runs
+   * @returns Runs, most recently started first
+   */
+  public async findRecentRuns(limit: number = 20): Promise<IRescoreRun[]> {
+    try {
+      const runs = await UnderwritingRescoreRun.findAll({
+        order: [['startedAt', 'DESC']],
+        limit,
+        timeout: QUERY_TIMEOUT
+      });
+
+      return runs.map(run => run.toJSON());
+    } catch (err) {
+      error('Failed to retrieve underwriting re-scoring runs', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Updates a re-scoring run's progress or status
+   * @param id Run ID
+   * @param updates Fields to update
+   * @param transaction Optional transaction
+   * @returns Updated run, or null when it does not exist
+   */
+  public async updateRun(
+    id: string,
+    updates: Partial<RescoreRunInput>,
+    transaction?: Transaction
+  ): Promise<IRescoreRun | null> {
+    try {
+      const run = await UnderwritingRescoreRun.findByPk(id, { transaction });
+      if (!run) {
+        return null;
+      }
+
+      await run.update(updates, { transaction });
+
+      return run.toJSON();
+    } catch (err) {
+      error('Failed to update underwriting re-scoring run', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Stores one policy's result in a run
+   * @param result Re-scoring result
+   * @param transaction Optional transaction
+   * @returns Stored result
+   */
+  public async recordResult(result: IRescoreResult, transaction?: Transaction): Promise<IRescoreResult> {
+    try {
+      const created = await UnderwritingRescoreResult.create(result, { transaction });
+      return created.toJSON();
+    } catch (err) {
+      error('Failed to record underwriting re-scoring result', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the results a run already holds for the given policies
+   * @param runId Run ID
+   * @param policyIds Policy IDs to look for
+   * @returns Results of the policies already re-scored in the run
+   */
+  public async findResultsForPolicies(runId: string, policyIds: string[]): Promise<IRescoreResult[]> {
+    try {
+      const results = await UnderwritingRescoreResult.findAll({
+        where: { runId, policyId: { [Op.in]: policyIds } },
+        timeout: QUERY_TIMEOUT
+      });
+
+      return results.map(result => result.toJSON());
+    } catch (err) {
+      error('Failed to retrieve re-scored policies', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the results of a run
+   * @param runId Run ID
+   * @param options Whether to return only band changes, and paging
+   * @returns Results, band changes first
+   */
+  public async findResults(
+    runId: string,
+    options: { bandChanged?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<IRescoreResult[]> {
+    try {
+      const results = await UnderwritingRescoreResult.findAll({
+        where: {
+          runId,
+          ...(options.bandChanged !== undefined ? { bandChanged: options.bandChanged } : {})
+        },
+        order: [['bandChanged', 'DESC'], ['rescoredAt', 'ASC']],
+        limit: options.limit || 100,
+        offset: options.offset || 0,
+        timeout: QUERY_TIMEOUT
+      });
+
+      return results.map(result => result.toJSON());
+    } catch (err) {
+      error('Failed to retrieve underwriting re-scoring results', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default UnderwritingRescoreRepository;
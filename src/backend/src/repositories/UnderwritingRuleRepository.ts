@@ -0,0 +1,161 @@
+/**
+ * @file UnderwritingRule repository implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Transaction, Op, WhereOptions } from 'sequelize'; // ^6.32.1
+import { UnderwritingRule } from '../models/UnderwritingRule';
+import { PolicyType } from '../constants/policyTypes';
+import { IUnderwritingRule } from '../types/underwriting.types';
+import { error, info } from '../utils/logger';
+
+const QUERY_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Rule data accepted on create; identifiers and timestamps are assigned on save
+ */
+export type UnderwritingRuleInput = Omit<IUnderwritingRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Filters available when listing rules
+ */
+export interface UnderwritingRuleFilter {
+  policyType?: PolicyType;
+  action?: IUnderwritingRule['action'];
+  active?: boolean;
+}
+
+/**
+ * Repository class implementing storage of declarative underwriting rules
+ */
+export class UnderwritingRuleRepository {
+  /**
+   * Creates an underwriting rule
+   * @param ruleData Rule data
+   * @param transaction Optional transaction
+   * @returns Created rule
+   */
+  public async create(ruleData: UnderwritingRuleInput, transaction?: Transaction): Promise<IUnderwritingRule> {
+    try {
+      const rule = await UnderwritingRule.create(ruleData, { transaction });
+
+      info('Underwriting rule created successfully', {
+        ruleId: rule.id,
+        action: rule.action,
+        priority: rule.priority
+      });
+
+      return rule.toJSON();
+    } catch (err) {
+      error('Failed to create underwriting rule', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves a rule by ID
+   * @param id Rule ID
+   * @param transaction Optional transaction
+   * @returns Rule or null
+   */
+  public async findById(id: string, transaction?: Transaction): Promise<IUnderwritingRule | null> {
+    try {
+      const rule = await UnderwritingRule.findByPk(id, { transaction });
+      return rule ? rule.toJSON() : null;
+    } catch (err) {
+      error('Failed to retrieve underwriting rule', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Lists rules matching a filter. A policy type filter includes rules that apply to every type.
+   * @param filter Optional filter
+   * @returns Rules in evaluation order
+   */
+  public async findAll(filter: UnderwritingRuleFilter = {}): Promise<IUnderwritingRule[]> {
+    try {
+      const where: WhereOptions<IUnderwritingRule> = {
+        ...(filter.policyType ? { policyType: { [Op.or]: [filter.policyType, null] } } : {}),
+        ...(filter.action ? { action: filter.action } : {}),
+        ...(filter.active !== undefined ? { active: filter.active } : {})
+      };
+
+      const rules = await UnderwritingRule.findAll({
+        where,
+        order: [['priority', 'ASC'], ['createdAt', 'ASC']],
+        timeout: QUERY_TIMEOUT
+      });
+
+      return rules.map(rule => rule.toJSON());
+    } catch (err) {
+      error('Failed to list underwriting rules', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Retrieves the active rules that apply to a policy type
+   * @param policyType Policy type
+   * @returns Active rules in evaluation order
+   */
+  public async findActive(policyType: PolicyType): Promise<IUnderwritingRule[]> {
+    return this.findAll({ policyType, active: true });
+  }
+
+  /**
+   * Updates a rule
+   * @param id Rule ID
+   * @param updates Fields to change
+   * @param transaction Optional transaction
+   * @returns Updated rule, or null when no rule has the ID
+   */
+  public async update(
+    id: string,
+    updates: Partial<UnderwritingRuleInput>,
+    transaction?: Transaction
+  ): Promise<IUnderwritingRule | null> {
+    try {
+      const rule = await UnderwritingRule.findByPk(id, { transaction });
+      if (!rule) {
+        return null;
+      }
+
+      await rule.update(updates, { transaction });
+
+      info('Underwriting rule updated successfully', {
+        ruleId: id,
+        fields: Object.keys(updates)
+      });
+
+      return rule.toJSON();
+    } catch (err) {
+      error('Failed to update underwriting rule', err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Deletes a rule
+   * @param id Rule ID
+   * @param transaction Optional transaction
+   * @returns Whether a rule was deleted
+   */
+  public async delete(id: string, transaction?: Transaction): Promise<boolean> {
+    try {
+      const deleted = await UnderwritingRule.destroy({ where: { id }, transaction });
+
+      if (deleted > 0) {
+        info('Underwriting rule deleted successfully', { ruleId: id });
+      }
+
+      return deleted > 0;
+    } catch (err) {
+      error('Failed to delete underwriting rule', err as Error);
+      throw err;
+    }
+  }
+}
+
+export default UnderwritingRuleRepository;
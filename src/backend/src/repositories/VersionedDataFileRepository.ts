@@ -0,0 +1,155 @@
+/**
+ * @file Base repository for versioned data files in MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod'; // ^3.21.4
+import { PolicyType } from '../constants/policyTypes';
+import { error, info } from '../utils/logger';
+
+/**
+ * Interface every versioned data file entry satisfies once loaded
+ */
+export interface IVersionedDataFile {
+  policyType: PolicyType;
+  version: string;
+  effectiveDate: Date;
+}
+
+/**
+ * Fields every versioned data file must declare
+ */
+export const versionedDataFileSchema = z.object({
+  policyType: z.string(),
+  version: z.string().min(1),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+});
+
+/**
+ * Base repository class providing read access to data files stored one per
+ * version under <directory>/<policy type>/<effective date>.json. Files are
+ * validated on load and re-read once the cache expires, so a new version can
+ * ship without a deploy.
+ */
+export abstract class VersionedDataFileRepository<
+  T extends IVersionedDataFile,
+  S extends z.ZodType<z.infer<typeof versionedDataFileSchema>>
+> {
+  private readonly cache = new Map<PolicyType, { entries: T[]; loadedAt: number }>();
+
+  /**
+   * @param directory Root directory of the data files
+   * @param cacheTtl Milliseconds a loaded policy type is served from cache
+   * @param label Human-readable name of the data, used in errors and logs
+   */
+  protected constructor(
+    private readonly directory: string,
+    private readonly cacheTtl: number,
+    private readonly label: string
+  ) {}
+
+  /**
+   * Schema a data file must satisfy; extends versionedDataFileSchema
+   */
+  protected abstract readonly schema: S;
+
+  /**
+   * Converts a validated data file into its loaded form
+   * @param data Validated file contents
+   * @param effectiveDate Parsed effective date
+   * @returns Loaded entry
+   */
+  protected abstract toEntry(data: z.infer<S> & { policyType: PolicyType }, effectiveDate: Date): T;
+
+  /**
+   * Finds the version in effect for a policy type on a given date
+   * @param policyType Policy type
+   * @param asOf Policy effective date
+   * @returns Latest version effective on or before the date, or null when none is
+   */
+  public async findEffective(policyType: PolicyType, asOf: Date): Promise<T | null> {
+    const entries = await this.findByPolicyType(policyType);
+
+    const effective = entries.filter(entry => entry.effectiveDate <= asOf);
+    return effective.length > 0 ? effective[effective.length - 1]! : null;
+  }
+
+  /**
+   * Retrieves every version for a policy type
+   * @param policyType Policy type
+   * @returns Versions ordered by effective date
+   */
+  public async findByPolicyType(policyType: PolicyType): Promise<T[]> {
+    const cached = this.cache.get(policyType);
+    if (cached && Date.now() - cached.loadedAt < this.cacheTtl) {
+      return cached.entries;
+    }
+
+    const entries = await this.load(policyType);
+    this.cache.set(policyType, { entries, loadedAt: Date.now() });
+    return entries;
+  }
+
+  /**
+   * Discards cached versions so the next lookup re-reads the data files
+   */
+  public clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Reads and validates the data files for a policy type
+   * @param policyType Policy type
+   * @returns Parsed versions ordered by effective date
+   */
+  private async load(policyType: PolicyType): Promise<T[]> {
+    const policyTypeDir = path.join(this.directory, policyType);
+
+    let fileNames: string[];
+    try {
+      fileNames = (await fs.readdir(policyTypeDir)).filter(name => name.endsWith('.json'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    const entries = await Promise.all(fileNames.map(async fileName => {
+      const filePath = path.join(policyTypeDir, fileName);
+      const parsed = this.schema.safeParse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+
+      if (!parsed.success) {
+        error(`Invalid ${this.label} file`, parsed.error, { filePath });
+        throw new Error(`Invalid ${this.label} file: ${filePath}`);
+      }
+
+      if (parsed.data.policyType !== policyType) {
+        throw new Error(`${this.capitalizedLabel} ${filePath} is for ${parsed.data.policyType}, not ${policyType}`);
+      }
+
+      return this.toEntry(
+        { ...parsed.data, policyType },
+        new Date(`${parsed.data.effectiveDate}T00:00:00.000Z`)
+      );
+    }));
+
+    entries.sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+    info(`${this.capitalizedLabel}s loaded`, {
+      policyType,
+      versions: entries.map(entry => entry.version)
+    });
+
+    return entries;
+  }
+
+  private get capitalizedLabel(): string {
+    return this.label.charAt(0).toUpperCase() + this.label.slice(1);
+  }
+}
+
+export default VersionedDataFileRepository;
@@ -0,0 +1,131 @@
+/**
+ * @file Appetite screening of risks before a full submission
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { IProductDefinition } from '../types/product.types';
+import {
+    AppetiteOutcome,
+    IAppetiteCheckRequest,
+    IAppetiteReason,
+    IUnderwritingRule,
+    UnderwritingRuleAction
+} from '../types/underwriting.types';
+import { ruleMatches } from './UnderwritingRulesEngine';
+
+// How each rule action screens a risk; approvals decide nothing before a submission is assessed
+const RULE_APPETITE_OUTCOME: Record<UnderwritingRuleAction, IAppetiteReason['outcome'] | null> = {
+    DECLINE: 'OUT_OF_APPETITE',
+    REFER: 'REFER',
+    FLAG: 'REFER',
+    APPROVE: null
+};
+
+/**
+ * Builds the partial policy a screened risk would become, so underwriting rules on
+ * policy fields can be evaluated against it
+ * @param request Screened risk
+ * @returns Policy fields known before submission
+ */
+export function appetitePolicy(request: IAppetiteCheckRequest): Record<string, unknown> {
+    return {
+        type: request.policyType,
+        ...(request.effectiveDate ? { effectiveDate: request.effectiveDate } : {}),
+        policyHolder: {
+            classCode: request.classCode,
+            address: { state: request.state }
+        },
+        coverages: [{ limits: request.requestedLimits }],
+        exposures: { REVENUE: request.revenue }
+    };
+}
+
+/**
+ * Checks whether a class code is listed, directly or by one of its prefixes
+ */
+function classCodeListed(classCode: string, listed: string[]): boolean {
+    return listed.some(code => classCode.startsWith(code));
+}
+
+/**
+ * Screens a risk against the product definition's limits and appetite and against
+ * the underwriting rules that only look at policy fields. Rules on the risk
+ * assessment or risk factors are skipped, as a screened risk has not been assessed.
+ * @param request Screened risk
+ * @param definition Product definition in effect, or null when none is
+ * @param rules Active underwriting rules for the policy type
+ * @returns Outcome, the most severe of the reasons found, and the reasons
+ */
+export function checkAppetite(
+    request: IAppetiteCheckRequest,
+    definition: IProductDefinition | null,
+    rules: IUnderwritingRule[]
+): { outcome: AppetiteOutcome; reasons: IAppetiteReason[] } {
+    if (!definition) {
+        return {
+            outcome: 'OUT_OF_APPETITE',
+            reasons: [{
+                source: 'PRODUCT',
+                outcome: 'OUT_OF_APPETITE',
+                code: 'NO_PRODUCT',
+                message: `No ${request.policyType} product is in effect`
+            }]
+        };
+    }
+
+    const reasons: IAppetiteReason[] = [];
+    const product = (outcome: IAppetiteReason['outcome'], code: string, message: string) =>
+        reasons.push({ source: 'PRODUCT', outcome, code, message });
+
+    const { limits, appetite } = definition;
+    const { perOccurrence, aggregate } = request.requestedLimits;
+    if (perOccurrence < limits.perOccurrence.min || perOccurrence > limits.perOccurrence.max) {
+        product('OUT_OF_APPETITE', 'LIMIT_OUT_OF_RANGE',
+            `Per occurrence limit must be between ${limits.perOccurrence.min} and ${limits.perOccurrence.max}`);
+    }
+    if (aggregate < limits.aggregate.min || aggregate > limits.aggregate.max) {
+        product('OUT_OF_APPETITE', 'LIMIT_OUT_OF_RANGE',
+            `Aggregate limit must be between ${limits.aggregate.min} and ${limits.aggregate.max}`);
+    }
+
+    const state = request.state.toUpperCase();
+    if (appetite.excludedStates.includes(state)) {
+        product('OUT_OF_APPETITE', 'STATE_EXCLUDED', `${definition.name} is not written in ${state}`);
+    } else if (appetite.referredStates.includes(state)) {
+        product('REFER', 'STATE_REFERRED', `${definition.name} risks in ${state} are referred to an underwriter`);
+    }
+
+    if (classCodeListed(request.classCode, appetite.excludedClassCodes)) {
+        product('OUT_OF_APPETITE', 'CLASS_EXCLUDED', `Class code ${request.classCode} is outside appetite`);
+    } else if (classCodeListed(request.classCode, appetite.referredClassCodes)) {
+        product('REFER', 'CLASS_REFERRED', `Class code ${request.classCode} is referred to an underwriter`);
+    }
+
+    if (appetite.maxRevenue !== undefined && request.revenue > appetite.maxRevenue) {
+        product('OUT_OF_APPETITE', 'REVENUE_EXCEEDED', `Revenue above ${appetite.maxRevenue} is outside appetite`);
+    } else if (appetite.referRevenueAbove !== undefined && request.revenue > appetite.referRevenueAbove) {
+        product('REFER', 'REVENUE_REFERRED', `Revenue above ${appetite.referRevenueAbove} is referred to an underwriter`);
+    }
+
+    const context = { policy: appetitePolicy(request), riskFactors: {} };
+    for (const rule of rules) {
+        const outcome = RULE_APPETITE_OUTCOME[rule.action];
+        const screenable = rule.criteria.conditions.every(condition => condition.field.startsWith('policy.'));
+        if (outcome && screenable && ruleMatches(rule, context)) {
+            reasons.push({
+                source: 'RULE',
+                outcome,
+                code: `RULE_${rule.action}`,
+                message: rule.description,
+                ruleId: rule.id
+            });
+        }
+    }
+
+    const outcome: AppetiteOutcome = reasons.some(reason => reason.outcome === 'OUT_OF_APPETITE')
+        ? 'OUT_OF_APPETITE'
+        : reasons.length > 0 ? 'REFER' : 'IN_APPETITE';
+
+    return { outcome, reasons };
+}
@@ -0,0 +1,161 @@
+/**
+ * @file Claim coverage verification at first notice of loss
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { ClaimCoveragePosition, CoverageDetermination } from '../types/claims.types';
+import { ICoverage, IPolicy } from '../types/policy.types';
+import { DAY_MS, containsPhrase, normalizeText } from '../utils/comparison';
+
+// Positions from most to least favourable; a claim takes the least favourable one found
+const DETERMINATION_ORDER = [
+    CoverageDetermination.COVERED,
+    CoverageDetermination.QUESTIONABLE,
+    CoverageDetermination.NOT_COVERED
+];
+
+/**
+ * Loss details a coverage position is taken on
+ */
+export interface IClaimCoverageInput {
+    incidentDate: Date;
+    reportedDate: Date;
+    description: string;
+    coverageType?: string;
+    causeOfLoss?: string;
+    initialReserve: number;
+}
+
+/**
+ * Picks the coverage the loss falls under: the one named by the claim, or the only
+ * coverage on the policy
+ * @param coverages Coverages on the policy
+ * @param coverageType Coverage named by the claim, if any
+ * @returns Matching coverage, or undefined when none can be identified
+ */
+function findClaimedCoverage(coverages: ICoverage[], coverageType?: string): ICoverage | undefined {
+    if (coverageType) {
+        return coverages.find(coverage => normalizeText(coverage.type) === normalizeText(coverageType));
+    }
+
+    return coverages.length === 1 ? coverages[0] : undefined;
+}
+
+/**
+ * Takes a coverage position on a new claim from the policy version in force on the
+ * incident date. The loss must fall within the policy term and under one of its
+ * coverages; a cause of loss naming an exclusion is not covered, while an
+ * unidentified coverage, an excluded peril mentioned in the description or an
+ * initial reserve at or below the deductible or above the limit is questionable.
+ * Reporting later than the threshold is returned as a warning.
+ * @param policy Policy version in force on the incident date
+ * @param loss Loss details from first notice
+ * @param lateReportDays Days after the incident within which a loss should be reported
+ * @returns Coverage position with reasons and warnings
+ */
+export function assessClaimCoverage(
+    policy: IPolicy,
+    loss: IClaimCoverageInput,
+    lateReportDays: number
+): ClaimCoveragePosition {
+    let determination = CoverageDetermination.COVERED;
+    const reasons: string[] = [];
+    const warnings: string[] = [];
+
+    const flag = (position: CoverageDetermination, reason: string): void => {
+        if (DETERMINATION_ORDER.indexOf(position) > DETERMINATION_ORDER.indexOf(determination)) {
+            determination = position;
+        }
+        reasons.push(reason);
+    };
+
+    const incidentDate = new Date(loss.incidentDate);
+    const effectiveDate = new Date(policy.effectiveDate);
+    const expirationDate = new Date(policy.expirationDate);
+
+    if (incidentDate < effectiveDate || incidentDate >= expirationDate) {
+        flag(
+            CoverageDetermination.NOT_COVERED,
+            `Incident date is outside the policy term ${effectiveDate.toISOString().slice(0, 10)} to ${expirationDate.toISOString().slice(0, 10)}`
+        );
+    }
+
+    const coverages = policy.coverages || [];
+    const coverage = findClaimedCoverage(coverages, loss.coverageType);
+
+    if (coverages.length === 0) {
+        flag(CoverageDetermination.NOT_COVERED, 'Policy carries no coverages');
+    } else if (!coverage && loss.coverageType) {
+        flag(CoverageDetermination.NOT_COVERED, `Policy carries no ${loss.coverageType} coverage`);
+    } else if (!coverage) {
+        flag(
+            CoverageDetermination.QUESTIONABLE,
+            `Coverage not identified; policy carries ${coverages.map(item => item.type).join(', ')}`
+        );
+    }
+
+    // Without an identified coverage, any coverage's exclusions may apply
+    const exclusions = coverage
+        ? coverage.exclusions || []
+        : coverages.flatMap(item => item.exclusions || []);
+    const cause = normalizeText(loss.causeOfLoss);
+    const description = normalizeText(loss.description);
+
+    exclusions.forEach(exclusion => {
+        const excluded = normalizeText(exclusion);
+        if (!excluded) {
+            return;
+        }
+
+        // Whole words only, so a "Flood" exclusion does not catch a broken floodlight
+        if (containsPhrase(cause, excluded)) {
+            flag(CoverageDetermination.NOT_COVERED, `Cause of loss falls under exclusion: ${exclusion}`);
+        } else if (containsPhrase(description, excluded)) {
+            flag(CoverageDetermination.QUESTIONABLE, `Description mentions excluded peril: ${exclusion}`);
+        }
+    });
+
+    if (coverage) {
+        if (loss.initialReserve <= coverage.deductible) {
+            flag(
+                CoverageDetermination.QUESTIONABLE,
+                `Initial reserve of ${loss.initialReserve} does not exceed the deductible of ${coverage.deductible}`
+            );
+        }
+
+        if (coverage.limits && loss.initialReserve > coverage.limits.perOccurrence) {
+            flag(
+                CoverageDetermination.QUESTIONABLE,
+                `Initial reserve of ${loss.initialReserve} exceeds the per-occurrence limit of ${coverage.limits.perOccurrence}`
+            );
+        }
+    }
+
+    const daysToReport = Math.max(
+        0,
+        Math.floor((new Date(loss.reportedDate).getTime() - incidentDate.getTime()) / DAY_MS)
+    );
+    const lateReport = daysToReport > lateReportDays;
+    if (lateReport) {
+        warnings.push(`Reported ${daysToReport} days after the incident, beyond the ${lateReportDays} day reporting threshold`);
+    }
+
+    return {
+        determination,
+        reasons,
+        warnings,
+        policyNumber: policy.policyNumber,
+        policyStatus: policy.status,
+        policyTerm: {
+            effectiveDate,
+            expirationDate
+        },
+        ...(coverage ? { coverageId: coverage.id, coverageType: coverage.type, deductible: coverage.deductible } : {}),
+        ...(coverage?.limits ? { perOccurrenceLimit: coverage.limits.perOccurrence } : {}),
+        exclusions,
+        daysToReport,
+        lateReport,
+        verifiedAt: new Date()
+    };
+}
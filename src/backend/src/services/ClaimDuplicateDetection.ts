@@ -0,0 +1,194 @@
+/**
+ * @file Duplicate claim detection at intake
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Claim, ClaimDuplicateMatch, ClaimLocation, ClaimantInfo } from '../types/claims.types';
+import { DAY_MS, normalizeText } from '../utils/comparison';
+import { distanceMiles } from './ClaimFraudIndicators';
+
+// Points each part of a match contributes to its score out of 100
+const INCIDENT_DATE_POINTS = 40;
+const LOCATION_POINTS = 30;
+const CLAIMANT_NAME_POINTS = 30;
+
+// Similarity at or above which an address or name is reported as matching
+const SIMILAR = 0.8;
+
+/**
+ * Raised when a claim is submitted with possible duplicates on its policy and no
+ * decision on how to take it in
+ */
+export class ClaimDuplicateError extends Error {
+    constructor(public readonly matches: ClaimDuplicateMatch[]) {
+        super(`Possible duplicate of ${matches.map(match => match.claimNumber).join(', ')}`);
+        this.name = 'ClaimDuplicateError';
+    }
+}
+
+/**
+ * Submitted details a claim is matched on
+ */
+export interface IClaimDuplicateInput {
+    incidentDate: Date;
+    location: ClaimLocation;
+    claimantInfo: ClaimantInfo;
+}
+
+/**
+ * Settings the matching is run with
+ */
+export interface IClaimDuplicateSettings {
+    incidentWindowDays: number;
+    locationMiles: number;
+    matchThreshold: number;
+}
+
+/**
+ * Edit distance between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Number of single-character insertions, deletions or substitutions
+ */
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                (previous[j] ?? 0) + 1,
+                (current[j - 1] ?? 0) + 1,
+                (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length] ?? 0;
+}
+
+/**
+ * Fuzzy similarity of two strings after normalization
+ * @param a First string
+ * @param b Second string
+ * @returns Similarity from 0 (nothing in common) to 1 (identical)
+ */
+export function textSimilarity(a: string | undefined, b: string | undefined): number {
+    const left = normalizeText(a);
+    const right = normalizeText(b);
+
+    if (!left || !right) {
+        return 0;
+    }
+
+    return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Fuzzy similarity of two claimants' names, allowing for first and last name swapped
+ * @param a First claimant
+ * @param b Second claimant
+ * @returns Similarity from 0 to 1
+ */
+function nameSimilarity(a: ClaimantInfo, b: ClaimantInfo): number {
+    const name = `${a.firstName} ${a.lastName}`;
+
+    return Math.max(
+        textSimilarity(name, `${b.firstName} ${b.lastName}`),
+        textSimilarity(name, `${b.lastName} ${b.firstName}`)
+    );
+}
+
+/**
+ * Scores how likely two incident locations are the same place. Coordinates within
+ * the distance match outright; otherwise the street address is compared fuzzily
+ * within the same ZIP code, or the same city and state.
+ * @param a Submitted location
+ * @param b Existing claim's location
+ * @param locationMiles Distance within which coordinates are the same place
+ * @returns Similarity from 0 to 1 with the reason, if any
+ */
+function locationSimilarity(
+    a: ClaimLocation,
+    b: ClaimLocation,
+    locationMiles: number
+): { similarity: number; reason?: string } {
+    if (a.coordinates && b.coordinates) {
+        const miles = distanceMiles(a.coordinates, b.coordinates);
+        if (miles <= locationMiles) {
+            return { similarity: 1, reason: `Incident locations ${miles.toFixed(1)} miles apart` };
+        }
+    }
+
+    const sameArea = (normalizeText(a.zipCode) && normalizeText(a.zipCode) === normalizeText(b.zipCode)) ||
+        (normalizeText(a.city) === normalizeText(b.city) && normalizeText(a.state) === normalizeText(b.state));
+    if (!sameArea) {
+        return { similarity: 0 };
+    }
+
+    const similarity = textSimilarity(a.address, b.address);
+    return {
+        similarity,
+        ...(similarity >= SIMILAR ? { reason: `Similar incident address: ${b.address}` } : {})
+    };
+}
+
+/**
+ * Matches a submission against existing claims on the same policy. Each claim whose
+ * incident falls within the window scores up to 40 points for the incident date,
+ * falling away with each day apart, and up to 30 each for location and claimant
+ * name similarity. Claims scoring at or above the threshold are possible duplicates.
+ * @param submission Submitted incident date, location and claimant
+ * @param existingClaims Claims on the same policy to match against
+ * @param settings Incident window, location distance and match threshold
+ * @returns Possible duplicates, best match first
+ */
+export function findDuplicateClaims(
+    submission: IClaimDuplicateInput,
+    existingClaims: Claim[],
+    settings: IClaimDuplicateSettings
+): ClaimDuplicateMatch[] {
+    const incidentDate = new Date(submission.incidentDate);
+
+    return existingClaims
+        .map(claim => {
+            const daysApart = Math.round(Math.abs(new Date(claim.incidentDate).getTime() - incidentDate.getTime()) / DAY_MS);
+            if (daysApart > settings.incidentWindowDays) {
+                return null;
+            }
+
+            const reasons = [daysApart === 0
+                ? 'Incident on the same day'
+                : `Incident ${daysApart} ${daysApart === 1 ? 'day' : 'days'} apart`];
+            const location = locationSimilarity(submission.location, claim.location, settings.locationMiles);
+            const name = nameSimilarity(submission.claimantInfo, claim.claimantInfo);
+            const claimantName = `${claim.claimantInfo.firstName} ${claim.claimantInfo.lastName}`;
+
+            if (location.reason) {
+                reasons.push(location.reason);
+            }
+            if (name >= SIMILAR) {
+                reasons.push(name === 1 ? `Same claimant: ${claimantName}` : `Similar claimant name: ${claimantName}`);
+            }
+
+            const score = Math.round(
+                INCIDENT_DATE_POINTS * (1 - daysApart / (settings.incidentWindowDays + 1)) +
+                LOCATION_POINTS * location.similarity +
+                CLAIMANT_NAME_POINTS * name
+            );
+
+            return {
+                claimId: claim.id,
+                claimNumber: claim.claimNumber,
+                status: claim.status,
+                incidentDate: claim.incidentDate,
+                claimantName,
+                score,
+                reasons
+            };
+        })
+        .filter((match): match is ClaimDuplicateMatch => match !== null && match.score >= settings.matchThreshold)
+        .sort((a, b) => b.score - a.score);
+}
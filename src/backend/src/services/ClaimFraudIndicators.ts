@@ -0,0 +1,198 @@
+/**
+ * @file Rules-based claims fraud indicators and SIU referral scoring
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import {
+    EARLY_LOSS_DAYS,
+    FRAUD_INDICATOR_WEIGHTS,
+    LOCATION_MISMATCH_MILES,
+    POST_ENDORSEMENT_LOSS_DAYS,
+    ROUND_AMOUNT_UNIT
+} from '../constants/fraudIndicators';
+import { EndorsementStatus } from '../models/Endorsement';
+import {
+    Claim,
+    ClaimFraudAssessment,
+    ClaimTransaction,
+    FraudIndicator,
+    FraudIndicatorCode,
+    FraudScreeningTrigger
+} from '../types/claims.types';
+import { IPolicy } from '../types/policy.types';
+import { DAY_MS } from '../utils/comparison';
+import { PAYMENT_TYPES, voidedTransactionIds } from './ClaimLedger';
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MAX_SCORE = 100;
+
+// Endorsement statuses in effect on the policy
+const IN_FORCE_ENDORSEMENT_STATUSES: string[] = [
+    EndorsementStatus.PENDING,
+    EndorsementStatus.APPROVED,
+    EndorsementStatus.SYNCED
+];
+
+/**
+ * Everything the fraud indicators are checked against
+ */
+export interface IFraudScreeningContext {
+    claim: Claim;
+    policy: IPolicy | null;
+    otherClaimantPolicyIds: string[];
+    transactions: ClaimTransaction[];
+}
+
+/**
+ * Great-circle distance between two points
+ * @param from First point
+ * @param to Second point
+ * @returns Distance in miles
+ */
+export function distanceMiles(
+    from: { latitude: number; longitude: number },
+    to: { latitude: number; longitude: number }
+): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLon = toRadians(to.longitude - from.longitude);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Whole days from one date to a later one
+ * @param from Earlier date
+ * @param to Later date
+ * @returns Days elapsed, negative when `to` is earlier
+ */
+function daysBetween(from: Date, to: Date): number {
+    return Math.floor((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Builds a triggered indicator with its configured weight
+ * @param code Indicator code
+ * @param description What triggered it on this claim
+ * @returns Triggered indicator
+ */
+function indicator(code: FraudIndicatorCode, description: string): FraudIndicator {
+    return { code, description, weight: FRAUD_INDICATOR_WEIGHTS[code] };
+}
+
+/**
+ * Checks a claim against each fraud indicator:
+ * - the loss occurred shortly after policy inception or after an endorsement took effect
+ * - the claimant has claimed on other policies
+ * - the reserve or a payment is a round amount
+ * - the incident is far from the insured address, or in another state when the
+ *   insured address has no coordinates
+ * - a document was uploaded before the incident occurred
+ * @param context Claim, policy in force on the incident date, other policies the
+ *   claimant has claimed on and the claim's ledger
+ * @returns Triggered indicators
+ */
+export function findFraudIndicators(context: IFraudScreeningContext): FraudIndicator[] {
+    const { claim, policy, otherClaimantPolicyIds, transactions } = context;
+    const indicators: FraudIndicator[] = [];
+    const incidentDate = new Date(claim.incidentDate);
+
+    if (policy) {
+        const daysFromInception = daysBetween(policy.effectiveDate, incidentDate);
+        if (daysFromInception >= 0 && daysFromInception <= EARLY_LOSS_DAYS) {
+            indicators.push(indicator(
+                FraudIndicatorCode.EARLY_LOSS,
+                `Loss occurred ${daysFromInception} days after policy inception`
+            ));
+        }
+
+        const recentEndorsement = (policy.endorsements || [])
+            .filter(endorsement => IN_FORCE_ENDORSEMENT_STATUSES.includes(endorsement.status))
+            .map(endorsement => ({ endorsement, days: daysBetween(endorsement.effectiveDate, incidentDate) }))
+            .filter(({ days }) => days >= 0 && days <= POST_ENDORSEMENT_LOSS_DAYS)
+            .sort((a, b) => a.days - b.days)[0];
+        if (recentEndorsement) {
+            indicators.push(indicator(
+                FraudIndicatorCode.POST_ENDORSEMENT_LOSS,
+                `Loss occurred ${recentEndorsement.days} days after a ${recentEndorsement.endorsement.type} endorsement`
+            ));
+        }
+    }
+
+    if (otherClaimantPolicyIds.length > 0) {
+        indicators.push(indicator(
+            FraudIndicatorCode.REPEAT_CLAIMANT,
+            `Claimant has claimed on ${otherClaimantPolicyIds.length} other ${otherClaimantPolicyIds.length === 1 ? 'policy' : 'policies'}`
+        ));
+    }
+
+    const voided = voidedTransactionIds(transactions);
+    const roundAmounts = [
+        Number(claim.reserveAmount),
+        ...transactions
+            .filter(transaction => PAYMENT_TYPES.includes(transaction.type) && !voided.has(transaction.id))
+            .map(transaction => Number(transaction.amount))
+    ].filter(amount => amount >= ROUND_AMOUNT_UNIT && amount % ROUND_AMOUNT_UNIT === 0);
+    if (roundAmounts.length > 0) {
+        indicators.push(indicator(
+            FraudIndicatorCode.ROUND_AMOUNT,
+            `Round amounts of ${Array.from(new Set(roundAmounts)).join(', ')}`
+        ));
+    }
+
+    const insuredAddress = policy?.policyHolder?.address;
+    const incidentCoordinates = claim.location?.coordinates;
+    if (insuredAddress?.coordinates && incidentCoordinates) {
+        const miles = Math.round(distanceMiles(incidentCoordinates, insuredAddress.coordinates));
+        if (miles > LOCATION_MISMATCH_MILES) {
+            indicators.push(indicator(
+                FraudIndicatorCode.LOCATION_MISMATCH,
+                `Incident is ${miles} miles from the insured address`
+            ));
+        }
+    } else if (insuredAddress?.state && claim.location?.state &&
+        insuredAddress.state.toUpperCase() !== claim.location.state.toUpperCase()) {
+        indicators.push(indicator(
+            FraudIndicatorCode.LOCATION_MISMATCH,
+            `Incident state ${claim.location.state} differs from insured state ${insuredAddress.state}`
+        ));
+    }
+
+    const earlyDocuments = (claim.documents || [])
+        .filter(document => new Date(document.uploadedAt) < incidentDate);
+    if (earlyDocuments.length > 0) {
+        indicators.push(indicator(
+            FraudIndicatorCode.DOCUMENTS_BEFORE_INCIDENT,
+            `${earlyDocuments.map(document => document.fileName).join(', ')} uploaded before the incident`
+        ));
+    }
+
+    return indicators;
+}
+
+/**
+ * Scores a claim for SIU referral from its triggered fraud indicators
+ * @param context Claim and the data its indicators are checked against
+ * @param trigger Claim event that ran the screening
+ * @param referralThreshold Score at or above which the claim is referred
+ * @returns Fraud assessment with the score, triggered indicators and referral decision
+ */
+export function assessFraudRisk(
+    context: IFraudScreeningContext,
+    trigger: FraudScreeningTrigger,
+    referralThreshold: number
+): ClaimFraudAssessment {
+    const indicators = findFraudIndicators(context);
+    const score = Math.min(MAX_SCORE, indicators.reduce((sum, item) => sum + item.weight, 0));
+
+    return {
+        score,
+        indicators,
+        referred: score >= referralThreshold,
+        trigger,
+        assessedAt: new Date()
+    };
+}
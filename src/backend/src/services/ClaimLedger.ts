@@ -0,0 +1,109 @@
+/**
+ * @file Claim financial ledger totals
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { ClaimFinancials, ClaimTransaction, ClaimTransactionType } from '../types/claims.types';
+
+// Entries that pay money out on a claim
+export const PAYMENT_TYPES = [
+    ClaimTransactionType.INDEMNITY_PAYMENT,
+    ClaimTransactionType.EXPENSE_PAYMENT
+];
+
+// Entries that bring money back in on a claim
+export const RECOVERY_TYPES = [
+    ClaimTransactionType.DEDUCTIBLE_RECOVERY,
+    ClaimTransactionType.SUBROGATION_RECOVERY,
+    ClaimTransactionType.SALVAGE_RECOVERY
+];
+
+/**
+ * Raised when an entry would break a ledger rule, such as paying more than the
+ * outstanding reserve or voiding an entry twice
+ */
+export class ClaimLedgerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ClaimLedgerError';
+    }
+}
+
+/**
+ * Rounds an amount to whole cents
+ * @param amount Amount in dollars
+ * @returns Amount rounded to two decimal places
+ */
+export function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Copies the payment details of an entry, leaving out those not given
+ * @param source Entry, request or approval carrying the details
+ * @returns Payee, payment method and reference that are set
+ */
+export function paymentDetails(
+    source: Pick<ClaimTransaction, 'payee' | 'paymentMethod' | 'reference'>
+): Pick<ClaimTransaction, 'payee' | 'paymentMethod' | 'reference'> {
+    return {
+        ...(source.payee ? { payee: source.payee } : {}),
+        ...(source.paymentMethod ? { paymentMethod: source.paymentMethod } : {}),
+        ...(source.reference ? { reference: source.reference } : {})
+    };
+}
+
+/**
+ * Collects the entries that have been reversed by a VOID entry
+ * @param transactions Ledger entries
+ * @returns IDs of voided entries
+ */
+export function voidedTransactionIds(transactions: ClaimTransaction[]): Set<string> {
+    return new Set(transactions
+        .filter(transaction => transaction.type === ClaimTransactionType.VOID && transaction.voidsTransactionId)
+        .map(transaction => transaction.voidsTransactionId as string));
+}
+
+/**
+ * Derives a claim's reserve, paid and recovered totals from its ledger. VOID entries
+ * and the entries they reverse are left out.
+ * @param transactions Ledger entries
+ * @returns Claim financial totals
+ */
+export function summarizeLedger(transactions: ClaimTransaction[]): ClaimFinancials {
+    const voided = voidedTransactionIds(transactions);
+    const totals: Record<ClaimTransactionType, number> = {
+        [ClaimTransactionType.INDEMNITY_PAYMENT]: 0,
+        [ClaimTransactionType.EXPENSE_PAYMENT]: 0,
+        [ClaimTransactionType.RESERVE_CHANGE]: 0,
+        [ClaimTransactionType.DEDUCTIBLE_RECOVERY]: 0,
+        [ClaimTransactionType.SUBROGATION_RECOVERY]: 0,
+        [ClaimTransactionType.SALVAGE_RECOVERY]: 0,
+        [ClaimTransactionType.VOID]: 0
+    };
+
+    transactions
+        .filter(transaction => transaction.type !== ClaimTransactionType.VOID && !voided.has(transaction.id))
+        .forEach(transaction => {
+            totals[transaction.type] += Number(transaction.amount);
+        });
+
+    const reserveAmount = roundCents(totals[ClaimTransactionType.RESERVE_CHANGE]);
+    const paidAmount = roundCents(PAYMENT_TYPES.reduce((sum, type) => sum + totals[type], 0));
+    const recoveredAmount = roundCents(RECOVERY_TYPES.reduce((sum, type) => sum + totals[type], 0));
+    const outstandingReserve = roundCents(reserveAmount - paidAmount);
+
+    return {
+        reserveAmount,
+        paidAmount,
+        indemnityPaid: roundCents(totals[ClaimTransactionType.INDEMNITY_PAYMENT]),
+        expensePaid: roundCents(totals[ClaimTransactionType.EXPENSE_PAYMENT]),
+        outstandingReserve,
+        deductibleRecovered: roundCents(totals[ClaimTransactionType.DEDUCTIBLE_RECOVERY]),
+        subrogationRecovered: roundCents(totals[ClaimTransactionType.SUBROGATION_RECOVERY]),
+        salvageRecovered: roundCents(totals[ClaimTransactionType.SALVAGE_RECOVERY]),
+        recoveredAmount,
+        netIncurred: roundCents(paidAmount + Math.max(outstandingReserve, 0) - recoveredAmount)
+    };
+}
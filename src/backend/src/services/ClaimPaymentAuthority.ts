@@ -0,0 +1,76 @@
+/**
+ * @file Claim payment and reserve authority checks
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { AdjusterAuthority, ClaimTransactionType } from '../types/claims.types';
+import { PAYMENT_TYPES } from './ClaimLedger';
+
+/**
+ * Amounts an adjuster's authority is checked against. Payments are checked by
+ * their amount; reserve changes by the reserve they leave on the claim.
+ */
+export interface IPaymentAuthorityRequirement {
+    type: ClaimTransactionType;
+    amount: number;
+    resultingReserve: number;
+}
+
+/**
+ * Checks whether a ledger entry type moves money or reserves and so needs authority.
+ * Recoveries and voids do not.
+ * @param type Ledger entry type
+ * @returns Whether the entry is checked against adjuster authority
+ */
+export function requiresPaymentAuthority(type: ClaimTransactionType): boolean {
+    return PAYMENT_TYPES.includes(type) || type === ClaimTransactionType.RESERVE_CHANGE;
+}
+
+/**
+ * Lists the ways an entry falls outside an adjuster's authority
+ * @param authority Adjuster authority, or null when none is on file
+ * @param requirement Amounts of the entry
+ * @returns Reasons the adjuster may not record or approve it; empty when within authority
+ */
+export function findPaymentAuthorityBreaches(
+    authority: AdjusterAuthority | null,
+    requirement: IPaymentAuthorityRequirement
+): string[] {
+    if (!authority || !authority.active) {
+        return ['No active payment authority'];
+    }
+
+    if (PAYMENT_TYPES.includes(requirement.type) && requirement.amount > authority.maxPaymentAmount) {
+        return [`Payment ${requirement.amount} exceeds authority of ${authority.maxPaymentAmount}`];
+    }
+
+    if (requirement.type === ClaimTransactionType.RESERVE_CHANGE &&
+        requirement.amount > 0 &&
+        requirement.resultingReserve > authority.maxReserveAmount) {
+        return [`Reserve ${requirement.resultingReserve} exceeds authority of ${authority.maxReserveAmount}`];
+    }
+
+    return [];
+}
+
+/**
+ * Works out how many approvals an entry needs before it is recorded. Payments above
+ * the dual approval threshold need two; anything else outside the requester's
+ * authority needs one.
+ * @param breaches Reasons the entry is outside the requester's authority
+ * @param requirement Amounts of the entry
+ * @param dualApprovalThreshold Payment amount above which two approvers are required
+ * @returns Number of approvals required, zero when the requester may record it
+ */
+export function requiredApprovalCount(
+    breaches: string[],
+    requirement: IPaymentAuthorityRequirement,
+    dualApprovalThreshold: number
+): number {
+    if (PAYMENT_TYPES.includes(requirement.type) && requirement.amount > dualApprovalThreshold) {
+        return 2;
+    }
+
+    return breaches.length > 0 ? 1 : 0;
+}
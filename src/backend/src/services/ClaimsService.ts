@@ -1,10 +1,67 @@
 import { inject, injectable, singleton } from 'inversify';
 import { Logger } from 'winston';
+import { Transaction } from 'sequelize'; // ^6.32.1
 import { MetricsManager } from '../utils/metrics';
 import { ClaimRepository } from '../repositories/ClaimRepository';
+import { ClaimTransactionInput, ClaimTransactionRepository } from '../repositories/ClaimTransactionRepository';
+import { AdjusterAuthorityRepository } from '../repositories/AdjusterAuthorityRepository';
+import { ClaimPaymentApprovalRepository } from '../repositories/ClaimPaymentApprovalRepository';
+import { SiuReferralRepository } from '../repositories/SiuReferralRepository';
 import { ClaimsEventProducer } from '../events/producers/ClaimsEventProducer';
-import { Claim, CreateClaimRequest, UpdateClaimStatusRequest } from '../types/claims.types';
+import { PolicyService } from './PolicyService';
+import {
+  AdjusterAuthority,
+  Claim,
+  ClaimCoveragePosition,
+  ClaimDuplicateMatch,
+  ClaimLedger,
+  ClaimPaymentApproval,
+  ClaimTransaction,
+  ClaimTransactionType,
+  CloseSiuReferralRequest,
+  CoverageDetermination,
+  CreateClaimRequest,
+  DuplicateClaimAction,
+  FraudScreeningTrigger,
+  PaymentApprovalAction,
+  PaymentApprovalStatus,
+  RecordClaimTransactionRequest,
+  RecordClaimTransactionResult,
+  SetAdjusterAuthorityRequest,
+  SiuReferral,
+  SiuReferralStatus,
+  UpdateClaimStatusRequest,
+  VoidClaimTransactionRequest
+} from '../types/claims.types';
+import { claimsConfig } from '../config/claims';
 import { CLAIM_STATUS } from '../constants/claimStatus';
+import {
+  DUPLICATE_INCIDENT_WINDOW_DAYS,
+  DUPLICATE_LOCATION_MILES
+} from '../constants/claimDuplicates';
+import { PolicyStatus } from '../types/policy.types';
+import {
+  ClaimLedgerError,
+  PAYMENT_TYPES,
+  paymentDetails,
+  roundCents,
+  summarizeLedger,
+  voidedTransactionIds
+} from './ClaimLedger';
+import {
+  IPaymentAuthorityRequirement,
+  findPaymentAuthorityBreaches,
+  requiredApprovalCount,
+  requiresPaymentAuthority
+} from './ClaimPaymentAuthority';
+import { assessClaimCoverage } from './ClaimCoverageVerification';
+import { ClaimDuplicateError, findDuplicateClaims } from './ClaimDuplicateDetection';
+import { assessFraudRisk } from './ClaimFraudIndicators';
+
+// Policy statuses under which a loss is covered
+const IN_FORCE_POLICY_STATUSES = [PolicyStatus.BOUND, PolicyStatus.ACTIVE];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Service class implementing comprehensive business logic for claims management
@@ -21,7 +78,12 @@ export class ClaimsService {
     @inject(ClaimRepository) private readonly claimRepository: ClaimRepository,
     @inject(ClaimsEventProducer) private readonly eventProducer: ClaimsEventProducer,
     @inject('Logger') private readonly logger: Logger,
-    @inject('MetricsManager') private readonly metrics: MetricsManager
+    @inject('MetricsManager') private readonly metrics: MetricsManager,
+    @inject('PolicyService') private readonly policyService: PolicyService,
+    @inject(ClaimTransactionRepository) private readonly transactionRepository: ClaimTransactionRepository,
+    @inject(AdjusterAuthorityRepository) private readonly authorityRepository: AdjusterAuthorityRepository,
+    @inject(ClaimPaymentApprovalRepository) private readonly approvalRepository: ClaimPaymentApprovalRepository,
+    @inject(SiuReferralRepository) private readonly siuReferralRepository: SiuReferralRepository
   ) {
     this.initialize();
   }
@@ -40,7 +102,9 @@ export class ClaimsService {
   }
 
   /**
-   * Creates a new claim with comprehensive validation and compliance checks
+   * Creates a new claim with comprehensive validation and compliance checks. A claim
+   * with possible duplicates on its policy is only taken in with a decision to link
+   * it to one of them, merge it into one of them or proceed anyway.
    */
   public async createClaim(claimData: CreateClaimRequest): Promise<Claim> {
     const startTime = Date.now();
@@ -49,8 +113,48 @@ export class ClaimsService {
       // Validate claim data
       this.validateClaimData(claimData);
 
-      // Create claim record
-      const claim = await this.claimRepository.create(claimData);
+      // Search the policy for claims this one may duplicate
+      const { duplicateResolution, ...intake } = claimData;
+      const duplicates = await this.findDuplicateClaims(intake);
+      this.checkDuplicateResolution(claimData, duplicates);
+
+      if (duplicateResolution?.action === DuplicateClaimAction.MERGE) {
+        const merged = await this.claimRepository.mergeSubmission(duplicateResolution.claimId!, intake);
+
+        this.logger.info('Claim submission merged into possible duplicate', {
+          claimId: merged.id,
+          claimNumber: merged.claimNumber,
+          duration: Date.now() - startTime
+        });
+
+        return merged;
+      }
+
+      // Verify coverage against the policy version in force on the date of loss
+      const coveragePosition = await this.verifyCoverage(intake);
+
+      // Create claim record with its coverage position
+      let claim = await this.claimRepository.create(intake, coveragePosition);
+
+      if (duplicateResolution) {
+        await this.claimRepository.recordDuplicateResolution(claim.id, duplicateResolution, duplicates);
+      }
+
+      // Open the ledger with the initial reserve
+      if (claimData.initialReserve > 0) {
+        ({ claim } = await this.appendToLedger(claim.id, {
+          claimId: claim.id,
+          type: ClaimTransactionType.RESERVE_CHANGE,
+          amount: roundCents(claimData.initialReserve),
+          approvedBy: 'SYSTEM',
+          enteredBy: 'SYSTEM',
+          transactionDate: new Date(),
+          notes: 'Initial reserve'
+        }));
+      }
+
+      // Score the claim for SIU referral
+      await this.screenForFraud(claim, 'CLAIM_CREATED');
 
       // Publish claim created event
       await this.eventProducer.publishClaimCreated(claim);
@@ -68,6 +172,7 @@ export class ClaimsService {
       this.logger.info('Claim created successfully', {
         claimId: claim.id,
         claimNumber: claim.claimNumber,
+        coverageDetermination: coveragePosition.determination,
         duration
       });
 
@@ -78,6 +183,40 @@ export class ClaimsService {
     }
   }
 
+  /**
+   * Lists existing claims on the same policy that a submission may duplicate,
+   * matched on incident date, location and claimant name
+   */
+  public async findDuplicateClaims(claimData: CreateClaimRequest): Promise<ClaimDuplicateMatch[]> {
+    try {
+      const incidentDate = new Date(claimData.incidentDate);
+      const window = DUPLICATE_INCIDENT_WINDOW_DAYS * DAY_MS;
+      const candidates = await this.claimRepository.findByIncidentWindow(
+        claimData.policyId,
+        new Date(incidentDate.getTime() - window),
+        new Date(incidentDate.getTime() + window)
+      );
+
+      const matches = findDuplicateClaims(claimData, candidates, {
+        incidentWindowDays: DUPLICATE_INCIDENT_WINDOW_DAYS,
+        locationMiles: DUPLICATE_LOCATION_MILES,
+        matchThreshold: claimsConfig.duplicateMatchThreshold
+      });
+
+      if (matches.length > 0) {
+        this.logger.warn('Possible duplicate claims found', {
+          policyId: claimData.policyId,
+          matches: matches.map(match => ({ claimNumber: match.claimNumber, score: match.score }))
+        });
+      }
+
+      return matches;
+    } catch (error) {
+      this.logger.error('Failed to search for duplicate claims', error, { policyId: claimData.policyId });
+      throw error;
+    }
+  }
+
   /**
    * Retrieves a claim by ID with caching and performance optimization
    */
@@ -120,9 +259,43 @@ export class ClaimsService {
       // Get current claim
       const claim = await this.getClaim(id);
 
+      // The status may not move on while a reserve change awaits approval
+      const pendingReserveChange = (await this.approvalRepository.findByClaimId(id, PaymentApprovalStatus.PENDING))
+        .find(approval => approval.type === ClaimTransactionType.RESERVE_CHANGE);
+      if (pendingReserveChange) {
+        throw new ClaimLedgerError(
+          `Claim status cannot change while reserve change ${pendingReserveChange.id} is pending approval`
+        );
+      }
+
+      // Record a reserve change made with the status update; a change the ledger
+      // rejects, or one queued because it is above the adjuster's authority, leaves
+      // the status as it was
+      const reserveChange = roundCents(updateData.reserveAmount - claim.reserveAmount);
+      if (reserveChange !== 0) {
+        const { approval } = await this.submitToLedger(id, {
+          claimId: id,
+          type: ClaimTransactionType.RESERVE_CHANGE,
+          amount: reserveChange,
+          approvedBy: updateData.adjusterId,
+          enteredBy: updateData.adjusterId,
+          transactionDate: new Date(),
+          notes: updateData.notes
+        });
+
+        if (approval) {
+          throw new ClaimLedgerError(
+            `Reserve change queued for approval as ${approval.id}; resubmit the status change once it is decided`
+          );
+        }
+      }
+
       // Update status
       const updatedClaim = await this.claimRepository.updateStatus(id, updateData);
 
+      // Re-score the claim for SIU referral
+      await this.screenForFraud(updatedClaim, 'STATUS_CHANGED');
+
       // Publish status change event
       await this.eventProducer.publishClaimStatusChanged(
         updatedClaim,
@@ -156,9 +329,15 @@ export class ClaimsService {
   }
 
   /**
-   * Updates claim reserves with financial validation and compliance tracking
+   * Sets a claim's reserve by recording the difference as a reserve change in its
+   * ledger. A change above the user's reserve authority is queued for approval and
+   * the claim is returned unchanged.
    */
-  public async updateReserves(id: string, newReserveAmount: number): Promise<Claim> {
+  public async updateReserves(
+    id: string,
+    newReserveAmount: number,
+    userId: string = 'SYSTEM'
+  ): Promise<Claim> {
     const startTime = Date.now();
 
     try {
@@ -169,14 +348,21 @@ export class ClaimsService {
 
       // Get current claim
       const claim = await this.getClaim(id);
+      const { financials } = await this.getLedger(id);
 
-      // Update reserves
-      const updatedClaim = await this.claimRepository.updateStatus(id, {
-        status: claim.status,
-        notes: `Reserve amount updated to ${newReserveAmount}`,
-        adjusterId: 'SYSTEM',
-        reserveAmount: newReserveAmount
-      });
+      const reserveChange = roundCents(newReserveAmount - financials.reserveAmount);
+      const submitted: { claim?: Claim; approval?: ClaimPaymentApproval } = reserveChange === 0
+        ? {}
+        : await this.submitToLedger(id, {
+          claimId: id,
+          type: ClaimTransactionType.RESERVE_CHANGE,
+          amount: reserveChange,
+          approvedBy: userId,
+          enteredBy: userId,
+          transactionDate: new Date(),
+          notes: `Reserve amount updated to ${newReserveAmount}`
+        });
+      const updatedClaim = submitted.claim || claim;
 
       const duration = Date.now() - startTime;
       this.metrics.recordCacheMetrics({
@@ -189,8 +375,9 @@ export class ClaimsService {
 
       this.logger.info('Claim reserves updated successfully', {
         claimId: id,
-        oldReserves: claim.reserveAmount,
+        oldReserves: financials.reserveAmount,
         newReserves: newReserveAmount,
+        approvalId: submitted.approval?.id,
         duration
       });
 
@@ -204,6 +391,690 @@ export class ClaimsService {
     }
   }
 
+  /**
+   * Retrieves a claim's financial ledger with the totals derived from it
+   */
+  public async getLedger(claimId: string): Promise<ClaimLedger> {
+    try {
+      const [transactions, pendingApprovals] = await Promise.all([
+        this.transactionRepository.findByClaimId(claimId),
+        this.approvalRepository.findByClaimId(claimId, PaymentApprovalStatus.PENDING)
+      ]);
+
+      return {
+        claimId,
+        transactions,
+        financials: summarizeLedger(transactions),
+        pendingApprovals
+      };
+    } catch (error) {
+      this.logger.error('Failed to retrieve claim ledger', error, { claimId });
+      throw error;
+    }
+  }
+
+  /**
+   * Records a payment, reserve change or recovery in a claim's ledger. Payments and
+   * reserve changes above the user's authority, and payments above the dual approval
+   * threshold, are queued for approval instead.
+   */
+  public async recordTransaction(
+    claimId: string,
+    request: RecordClaimTransactionRequest,
+    enteredBy: string
+  ): Promise<RecordClaimTransactionResult> {
+    const startTime = Date.now();
+
+    try {
+      await this.getClaim(claimId);
+
+      const { approval } = await this.submitToLedger(claimId, {
+        claimId,
+        type: request.type,
+        amount: roundCents(request.amount),
+        ...paymentDetails(request),
+        approvedBy: enteredBy,
+        enteredBy,
+        transactionDate: request.transactionDate || new Date(),
+        ...(request.notes ? { notes: request.notes } : {})
+      });
+
+      const duration = Date.now() - startTime;
+      this.metrics.recordCacheMetrics({
+        operation: `${this.metricsPrefix}record_transaction`,
+        hitRate: 1,
+        memoryUsage: 0,
+        evictionCount: 0,
+        latency: duration
+      });
+
+      this.logger.info(approval ? 'Claim transaction queued for approval' : 'Claim transaction recorded successfully', {
+        claimId,
+        type: request.type,
+        amount: request.amount,
+        approvalId: approval?.id,
+        duration
+      });
+
+      const ledger = await this.getLedger(claimId);
+      return approval ? { ...ledger, queuedApproval: approval } : ledger;
+    } catch (error) {
+      this.logger.error('Failed to record claim transaction', error, {
+        claimId,
+        type: request.type
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reverses a ledger entry by recording a void against it
+   */
+  public async voidTransaction(
+    claimId: string,
+    transactionId: string,
+    request: VoidClaimTransactionRequest,
+    enteredBy: string
+  ): Promise<ClaimLedger> {
+    const startTime = Date.now();
+
+    try {
+      const { transactions } = await this.getLedger(claimId);
+      const original = transactions.find(transaction => transaction.id === transactionId);
+
+      if (!original) {
+        throw new Error(`Claim transaction not found: ${transactionId}`);
+      }
+
+      if (original.type === ClaimTransactionType.VOID) {
+        throw new ClaimLedgerError('A void cannot itself be voided');
+      }
+
+      if (voidedTransactionIds(transactions).has(transactionId)) {
+        throw new ClaimLedgerError('Claim transaction has already been voided');
+      }
+
+      await this.appendToLedger(claimId, {
+        claimId,
+        type: ClaimTransactionType.VOID,
+        amount: Math.abs(original.amount),
+        ...paymentDetails(original),
+        approvedBy: request.approvedBy,
+        enteredBy,
+        transactionDate: new Date(),
+        notes: request.notes,
+        voidsTransactionId: transactionId
+      }, transactions);
+
+      const duration = Date.now() - startTime;
+      this.metrics.recordCacheMetrics({
+        operation: `${this.metricsPrefix}void_transaction`,
+        hitRate: 1,
+        memoryUsage: 0,
+        evictionCount: 0,
+        latency: duration
+      });
+
+      this.logger.info('Claim transaction voided successfully', {
+        claimId,
+        transactionId,
+        type: original.type,
+        duration
+      });
+
+      return this.getLedger(claimId);
+    } catch (error) {
+      this.logger.error('Failed to void claim transaction', error, {
+        claimId,
+        transactionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Approves a queued payment or reserve change. The approver must not be the
+   * requester and must hold authority for the amount; once the required number of
+   * distinct approvers have signed off, the entry is recorded in the ledger.
+   */
+  public async approvePayment(
+    claimId: string,
+    approvalId: string,
+    approverId: string,
+    notes?: string
+  ): Promise<ClaimLedger> {
+    const startTime = Date.now();
+
+    try {
+      // The approval row stays locked until the decision is stored, so concurrent
+      // approvers cannot both count as the final sign-off
+      const lock = await this.approvalRepository.beginTransaction();
+      let approval: ClaimPaymentApproval;
+      let approvals: ClaimPaymentApproval['approvals'];
+      let transactionId: string | undefined;
+
+      try {
+        approval = await this.getPendingApproval(claimId, approvalId, approverId, lock);
+
+        if (approval.approvals.some(existing => existing.userId === approverId)) {
+          throw new ClaimLedgerError('Approver has already signed off on this request');
+        }
+
+        approvals = [...approval.approvals, { userId: approverId, approvedAt: new Date(), ...(notes ? { notes } : {}) }];
+
+        if (approvals.length < approval.requiredApprovals) {
+          await this.approvalRepository.update(approvalId, { approvals }, lock);
+        } else {
+          const { transaction } = await this.appendToLedger(claimId, {
+            claimId,
+            type: approval.type,
+            amount: approval.amount,
+            ...paymentDetails(approval),
+            approvedBy: approverId,
+            enteredBy: approval.requestedBy,
+            transactionDate: approval.transactionDate || new Date(),
+            ...(approval.notes ? { notes: approval.notes } : {})
+          }, undefined, lock);
+          transactionId = transaction.id;
+
+          await this.approvalRepository.update(approvalId, {
+            approvals,
+            status: PaymentApprovalStatus.APPROVED,
+            decidedAt: new Date(),
+            transactionId
+          }, lock);
+        }
+
+        await lock.commit();
+      } catch (error) {
+        await lock.rollback();
+        throw error;
+      }
+
+      await this.claimRepository.addPaymentHistory(claimId, transactionId
+        ? {
+          action: PaymentApprovalAction.APPROVED,
+          notes: notes || 'Payment approved',
+          userId: approverId,
+          details: { approvalId, amount: approval.amount, transactionId }
+        }
+        : {
+          action: PaymentApprovalAction.SIGNED_OFF,
+          notes: notes || `Signed off ${approvals.length} of ${approval.requiredApprovals}`,
+          userId: approverId,
+          details: { approvalId, amount: approval.amount }
+        });
+
+      const duration = Date.now() - startTime;
+      this.metrics.recordCacheMetrics({
+        operation: `${this.metricsPrefix}approve_payment`,
+        hitRate: 1,
+        memoryUsage: 0,
+        evictionCount: 0,
+        latency: duration
+      });
+
+      this.logger.info('Claim payment approval recorded', {
+        claimId,
+        approvalId,
+        approvals: approvals.length,
+        requiredApprovals: approval.requiredApprovals,
+        duration
+      });
+
+      return this.getLedger(claimId);
+    } catch (error) {
+      this.logger.error('Failed to approve claim payment', error, {
+        claimId,
+        approvalId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rejects a queued payment or reserve change. A rejected payment also blocks
+   * moving the claim to IN_PAYMENT until a later payment is approved.
+   */
+  public async rejectPayment(
+    claimId: string,
+    approvalId: string,
+    userId: string,
+    reason: string
+  ): Promise<ClaimLedger> {
+    const startTime = Date.now();
+
+    try {
+      const lock = await this.approvalRepository.beginTransaction();
+      let approval: ClaimPaymentApproval;
+
+      try {
+        approval = await this.getPendingApproval(claimId, approvalId, userId, lock);
+
+        await this.approvalRepository.update(approvalId, {
+          status: PaymentApprovalStatus.REJECTED,
+          rejectedBy: userId,
+          rejectionReason: reason,
+          decidedAt: new Date()
+        }, lock);
+        await lock.commit();
+      } catch (error) {
+        await lock.rollback();
+        throw error;
+      }
+
+      await this.claimRepository.addPaymentHistory(claimId, {
+        action: PaymentApprovalAction.REJECTED,
+        notes: reason,
+        userId,
+        details: { approvalId, amount: approval.amount }
+      });
+
+      const duration = Date.now() - startTime;
+      this.metrics.recordCacheMetrics({
+        operation: `${this.metricsPrefix}reject_payment`,
+        hitRate: 1,
+        memoryUsage: 0,
+        evictionCount: 0,
+        latency: duration
+      });
+
+      this.logger.info('Claim payment rejected', {
+        claimId,
+        approvalId,
+        duration
+      });
+
+      return this.getLedger(claimId);
+    } catch (error) {
+      this.logger.error('Failed to reject claim payment', error, {
+        claimId,
+        approvalId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists payment approval requests across all claims, oldest first
+   */
+  public async getApprovalQueue(
+    status: PaymentApprovalStatus = PaymentApprovalStatus.PENDING
+  ): Promise<ClaimPaymentApproval[]> {
+    try {
+      return await this.approvalRepository.findByStatus(status);
+    } catch (error) {
+      this.logger.error('Failed to get payment approval queue', error, { status });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the payment and reserve authority on file for each adjuster
+   */
+  public async listAdjusterAuthorities(): Promise<AdjusterAuthority[]> {
+    try {
+      return await this.authorityRepository.findAll();
+    } catch (error) {
+      this.logger.error('Failed to list adjuster authorities', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sets an adjuster's payment and reserve authority limits
+   */
+  public async setAdjusterAuthority(
+    userId: string,
+    authority: SetAdjusterAuthorityRequest,
+    updatedBy: string
+  ): Promise<AdjusterAuthority> {
+    try {
+      const saved = await this.authorityRepository.upsert({ ...authority, userId, updatedBy });
+
+      this.logger.info('Adjuster authority updated', {
+        userId,
+        maxPaymentAmount: saved.maxPaymentAmount,
+        maxReserveAmount: saved.maxReserveAmount,
+        active: saved.active,
+        updatedBy
+      });
+
+      return saved;
+    } catch (error) {
+      this.logger.error('Failed to set adjuster authority', error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists claims referred to special investigations, oldest first
+   */
+  public async getSiuQueue(status: SiuReferralStatus = SiuReferralStatus.OPEN): Promise<SiuReferral[]> {
+    try {
+      return await this.siuReferralRepository.findByStatus(status);
+    } catch (error) {
+      this.logger.error('Failed to get SIU referral queue', error, { status });
+      throw error;
+    }
+  }
+
+  /**
+   * Closes an open SIU referral with the investigation outcome
+   */
+  public async closeSiuReferral(
+    referralId: string,
+    request: CloseSiuReferralRequest,
+    userId: string
+  ): Promise<SiuReferral> {
+    const startTime = Date.now();
+
+    try {
+      const referral = await this.siuReferralRepository.findById(referralId);
+
+      if (!referral) {
+        throw new Error(`SIU referral not found: ${referralId}`);
+      }
+
+      if (referral.status !== SiuReferralStatus.OPEN) {
+        throw new Error('SIU referral is already closed');
+      }
+
+      const closed = await this.siuReferralRepository.update(referralId, {
+        status: SiuReferralStatus.CLOSED,
+        outcome: request.outcome,
+        notes: request.notes,
+        closedBy: userId,
+        closedAt: new Date()
+      }) as SiuReferral;
+
+      const duration = Date.now() - startTime;
+      this.metrics.recordCacheMetrics({
+        operation: `${this.metricsPrefix}close_siu_referral`,
+        hitRate: 1,
+        memoryUsage: 0,
+        evictionCount: 0,
+        latency: duration
+      });
+
+      this.logger.info('SIU referral closed', {
+        referralId,
+        claimId: referral.claimId,
+        outcome: request.outcome,
+        duration
+      });
+
+      return closed;
+    } catch (error) {
+      this.logger.error('Failed to close SIU referral', error, { referralId });
+      throw error;
+    }
+  }
+
+  /**
+   * Scores a claim against the fraud indicators and stores the assessment on it. A
+   * claim scoring at or above the referral threshold is referred to special
+   * investigations, or its open referral takes the new score. Screening failures are
+   * logged and never block the claim operation that triggered them.
+   */
+  private async screenForFraud(claim: Claim, trigger: FraudScreeningTrigger): Promise<void> {
+    try {
+      const [policy, otherClaimantPolicyIds, transactions] = await Promise.all([
+        this.policyService.getPolicy(claim.policyId, new Date(claim.incidentDate)),
+        this.claimRepository.findClaimantPolicyIds(claim.claimantInfo, claim.policyId),
+        this.transactionRepository.findByClaimId(claim.id)
+      ]);
+
+      const assessment = assessFraudRisk(
+        { claim, policy, otherClaimantPolicyIds, transactions },
+        trigger,
+        claimsConfig.siuReferralThreshold
+      );
+      await this.claimRepository.updateFraudAssessment(claim.id, assessment);
+
+      if (!assessment.referred) {
+        return;
+      }
+
+      const openReferral = await this.siuReferralRepository.findOpenByClaimId(claim.id);
+      if (openReferral) {
+        await this.siuReferralRepository.update(openReferral.id, {
+          score: assessment.score,
+          indicators: assessment.indicators
+        });
+      } else {
+        await this.siuReferralRepository.create({
+          claimId: claim.id,
+          claimNumber: claim.claimNumber,
+          score: assessment.score,
+          indicators: assessment.indicators,
+          status: SiuReferralStatus.OPEN,
+          referredAt: assessment.assessedAt
+        });
+      }
+
+      this.logger.warn('Claim referred to special investigations', {
+        claimId: claim.id,
+        trigger,
+        score: assessment.score,
+        indicators: assessment.indicators.map(indicator => indicator.code)
+      });
+    } catch (error) {
+      this.logger.error('Failed to screen claim for fraud', error, { claimId: claim.id, trigger });
+    }
+  }
+
+  /**
+   * Loads and locks an approval request that the user may decide: it must belong to
+   * the claim, still be pending, not be the user's own request, and be within the
+   * user's authority
+   */
+  private async getPendingApproval(
+    claimId: string,
+    approvalId: string,
+    userId: string,
+    lock: Transaction
+  ): Promise<ClaimPaymentApproval> {
+    const approval = await this.approvalRepository.findByIdForUpdate(approvalId, lock);
+
+    if (!approval || approval.claimId !== claimId) {
+      throw new Error(`Payment approval not found: ${approvalId}`);
+    }
+
+    if (approval.status !== PaymentApprovalStatus.PENDING) {
+      throw new ClaimLedgerError(`Payment approval is already ${approval.status.toLowerCase()}`);
+    }
+
+    if (approval.requestedBy === userId) {
+      throw new ClaimLedgerError('Requester cannot decide their own payment approval');
+    }
+
+    const claim = await this.getClaim(claimId);
+    const breaches = findPaymentAuthorityBreaches(
+      await this.authorityRepository.findByUserId(userId),
+      this.authorityRequirement(approval.type, approval.amount, claim.reserveAmount)
+    );
+
+    if (breaches.length > 0) {
+      throw new ClaimLedgerError(`Approver lacks authority: ${breaches.join('; ')}`);
+    }
+
+    return approval;
+  }
+
+  /**
+   * Records a payment or reserve change when it is within the enterer's authority,
+   * otherwise queues it for approval and notes the request in the claim's history
+   */
+  private async submitToLedger(
+    claimId: string,
+    entry: ClaimTransactionInput
+  ): Promise<{ claim?: Claim; approval?: ClaimPaymentApproval }> {
+    const transactions = await this.transactionRepository.findByClaimId(claimId);
+    this.checkLedger(transactions, entry);
+
+    if (!requiresPaymentAuthority(entry.type)) {
+      return this.appendToLedger(claimId, entry, transactions);
+    }
+
+    const requirement = this.authorityRequirement(
+      entry.type,
+      entry.amount,
+      summarizeLedger(transactions).reserveAmount
+    );
+    const breaches = findPaymentAuthorityBreaches(
+      await this.authorityRepository.findByUserId(entry.enteredBy),
+      requirement
+    );
+    const requiredApprovals = requiredApprovalCount(breaches, requirement, claimsConfig.dualApprovalThreshold);
+
+    if (requiredApprovals === 0) {
+      return this.appendToLedger(claimId, entry, transactions);
+    }
+
+    const reasons = requiredApprovals > 1
+      ? [...breaches, `Payment ${entry.amount} exceeds dual approval threshold of ${claimsConfig.dualApprovalThreshold}`]
+      : breaches;
+
+    const approval = await this.approvalRepository.create({
+      claimId,
+      type: entry.type as ClaimPaymentApproval['type'],
+      amount: entry.amount,
+      ...paymentDetails(entry),
+      transactionDate: entry.transactionDate,
+      ...(entry.notes ? { notes: entry.notes } : {}),
+      requestedBy: entry.enteredBy,
+      reasons,
+      requiredApprovals,
+      approvals: [],
+      status: PaymentApprovalStatus.PENDING
+    });
+
+    await this.claimRepository.addPaymentHistory(claimId, {
+      action: PaymentApprovalAction.REQUESTED,
+      notes: reasons.join('; '),
+      userId: entry.enteredBy,
+      details: { approvalId: approval.id, type: entry.type, amount: entry.amount, requiredApprovals }
+    });
+
+    return { approval };
+  }
+
+  /**
+   * Builds the amounts checked against authority; a reserve change is checked by the
+   * reserve it leaves on the claim
+   */
+  private authorityRequirement(
+    type: ClaimTransactionType,
+    amount: number,
+    currentReserve: number
+  ): IPaymentAuthorityRequirement {
+    return {
+      type,
+      amount,
+      resultingReserve: type === ClaimTransactionType.RESERVE_CHANGE
+        ? roundCents(currentReserve + amount)
+        : currentReserve
+    };
+  }
+
+  /**
+   * Throws when an entry would leave the claim's outstanding reserve negative
+   */
+  private checkLedger(transactions: ClaimTransaction[], entry: ClaimTransactionInput): void {
+    const before = summarizeLedger(transactions);
+    const after = summarizeLedger([...transactions, { ...entry, id: 'pending', createdAt: new Date() }]);
+
+    if (after.outstandingReserve < 0) {
+      throw new ClaimLedgerError(PAYMENT_TYPES.includes(entry.type)
+        ? `Payment of ${entry.amount} exceeds the outstanding reserve of ${before.outstandingReserve}`
+        : `Reserve cannot fall below the amount paid of ${after.paidAmount}`);
+    }
+  }
+
+  /**
+   * Appends an entry to a claim's ledger once the ledger still balances with it,
+   * then stores the derived reserve and paid totals on the claim. The ledger is read
+   * and the entry and totals are written in the given transaction, if any.
+   */
+  private async appendToLedger(
+    claimId: string,
+    entry: ClaimTransactionInput,
+    ledger?: ClaimTransaction[],
+    lock?: Transaction
+  ): Promise<{ claim: Claim; transaction: ClaimTransaction }> {
+    const transactions = ledger || await this.transactionRepository.findByClaimId(claimId, lock);
+    this.checkLedger(transactions, entry);
+
+    const transaction = await this.transactionRepository.create(entry, lock);
+    const claim = await this.claimRepository.updateFinancials(
+      claimId,
+      summarizeLedger([...transactions, transaction]),
+      lock
+    );
+
+    return { claim, transaction };
+  }
+
+  /**
+   * Takes a coverage position on the loss from the policy version in force on the
+   * incident date: its term, coverages, deductibles and exclusions. When the policy
+   * was not in force then, the claim is still taken in with a not covered position
+   * checked against the policy's current state.
+   */
+  private async verifyCoverage(claimData: CreateClaimRequest): Promise<ClaimCoveragePosition> {
+    const policyAsOf = await this.policyService.getPolicy(claimData.policyId, new Date(claimData.incidentDate));
+    const policy = policyAsOf || await this.policyService.getPolicy(claimData.policyId);
+
+    if (!policy) {
+      throw new Error('Policy not found');
+    }
+
+    const assessed = assessClaimCoverage(policy, {
+      incidentDate: claimData.incidentDate,
+      reportedDate: claimData.reportedDate || new Date(),
+      description: claimData.description,
+      ...(claimData.coverageType ? { coverageType: claimData.coverageType } : {}),
+      ...(claimData.causeOfLoss ? { causeOfLoss: claimData.causeOfLoss } : {}),
+      initialReserve: claimData.initialReserve
+    }, claimsConfig.lateReportDays);
+    const position = policyAsOf && IN_FORCE_POLICY_STATUSES.includes(policyAsOf.status)
+      ? assessed
+      : {
+        ...assessed,
+        determination: CoverageDetermination.NOT_COVERED,
+        reasons: ['Policy not in force on the incident date', ...assessed.reasons]
+      };
+
+    if (position.determination !== CoverageDetermination.COVERED || position.lateReport) {
+      this.logger.warn('Claim coverage needs adjuster review', {
+        policyId: claimData.policyId,
+        determination: position.determination,
+        reasons: position.reasons,
+        warnings: position.warnings
+      });
+    }
+
+    return position;
+  }
+
+  /**
+   * Requires a decision on a submission with possible duplicates; a link or merge must
+   * name one of them
+   */
+  private checkDuplicateResolution(claimData: CreateClaimRequest, duplicates: ClaimDuplicateMatch[]): void {
+    const resolution = claimData.duplicateResolution;
+
+    if (duplicates.length > 0 && !resolution) {
+      throw new ClaimDuplicateError(duplicates);
+    }
+
+    if (resolution && resolution.action !== DuplicateClaimAction.PROCEED &&
+      !duplicates.some(match => match.claimId === resolution.claimId)) {
+      throw new Error(`Claim to ${resolution.action.toLowerCase()} is not a possible duplicate: ${resolution.claimId}`);
+    }
+  }
+
   /**
    * Validates claim data against business rules and requirements
    */
@@ -214,6 +1085,10 @@ export class ClaimsService {
       throw new Error('Invalid incident date');
     }
 
+    if (claimData.reportedDate && (claimData.reportedDate < incidentDate || claimData.reportedDate > new Date())) {
+      throw new Error('Reported date must fall between the incident date and now');
+    }
+
     if (!description || description.length < 10) {
       throw new Error('Description must be at least 10 characters');
     }
@@ -0,0 +1,119 @@
+/**
+ * @file Location risk resolution against catastrophe-zone datasets
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { LOCATION_RISK_BASE_SCORE, RISK_MULTIPLIERS } from '../constants/underwritingRules';
+import { IAddress } from '../types/policy.types';
+import { ILocationZoneDataset, ILocationZoneMatch, IRiskFactor, LocationZone } from '../types/underwriting.types';
+
+// How much a zone match is trusted, by how specifically the address matched
+const MATCH_CONFIDENCE: Record<ILocationZoneMatch['matchedBy'], number> = {
+    ZIP: 0.95,
+    ZIP_PREFIX: 0.85,
+    STATE: 0.6,
+    DEFAULT: 0.5
+};
+
+/**
+ * Resolves the zone an address falls in for one peril: an exact zip code match,
+ * then the three digit zip prefix, then the state, then the dataset default
+ * @param dataset Peril zone dataset
+ * @param address Address to resolve
+ * @returns Matched zone and how it was matched
+ */
+export function resolveZone(
+    dataset: ILocationZoneDataset,
+    address: Pick<IAddress, 'zipCode' | 'state'>
+): ILocationZoneMatch {
+    const zip = (address.zipCode || '').trim().slice(0, 5);
+    const prefix = zip.slice(0, 3);
+    const state = (address.state || '').trim().toUpperCase();
+
+    const match = (zone: LocationZone, matchedBy: ILocationZoneMatch['matchedBy'], matchedKey: string | null) => ({
+        peril: dataset.peril,
+        zone,
+        matchedBy,
+        matchedKey,
+        vintage: dataset.vintage,
+        source: dataset.source
+    });
+
+    const zipZone = zip.length === 5 ? dataset.zipCodes[zip] : undefined;
+    if (zipZone) {
+        return match(zipZone, 'ZIP', zip);
+    }
+    const prefixZone = prefix.length === 3 ? dataset.zipCodes[prefix] : undefined;
+    if (prefixZone) {
+        return match(prefixZone, 'ZIP_PREFIX', prefix);
+    }
+    const stateZone = dataset.states[state];
+    if (stateZone) {
+        return match(stateZone, 'STATE', state);
+    }
+    // Zip and state are missing from the dataset; the default zone carries the default risk
+    return match(dataset.defaultZone, 'DEFAULT', null);
+}
+
+/**
+ * Builds the location risk factor for an address. The worst zone across perils
+ * sets the multiplier applied to the base score; every peril's zone and data
+ * vintage are kept in the factor details.
+ * @param datasets Latest dataset of each peril
+ * @param address Risk address, or undefined when the submission has none
+ * @param weight Weight of the location factor
+ * @returns Location risk factor
+ */
+export function assessLocationZones(
+    datasets: ILocationZoneDataset[],
+    address: Pick<IAddress, 'zipCode' | 'state'> | undefined,
+    weight: number
+): IRiskFactor {
+    if (!address || datasets.length === 0) {
+        return {
+            type: 'LOCATION_RISK',
+            score: LOCATION_RISK_BASE_SCORE,
+            weight,
+            details: {
+                description: address ? 'No location zone data available' : 'Submission has no risk address',
+                impact: 'UNKNOWN',
+                mitigation: 'Confirm the risk address and location zone data',
+                drivers: [],
+                missingInputs: [address ? 'location zone data' : 'policyHolder.address']
+            },
+            confidence: 0,
+            dataSource: 'location-zones:none',
+            validationStatus: 'PENDING'
+        };
+    }
+
+    const matches = datasets.map(dataset => resolveZone(dataset, address));
+    const worst = matches.reduce((current, candidate) =>
+        RISK_MULTIPLIERS.LOCATION_TYPE[candidate.zone] > RISK_MULTIPLIERS.LOCATION_TYPE[current.zone] ? candidate : current);
+    const multiplier = RISK_MULTIPLIERS.LOCATION_TYPE[worst.zone];
+
+    return {
+        type: 'LOCATION_RISK',
+        score: Math.min(100, LOCATION_RISK_BASE_SCORE * multiplier),
+        weight,
+        details: {
+            description: `Worst zone ${worst.zone} for ${worst.peril} (${worst.matchedBy.toLowerCase()} match)`,
+            impact: worst.zone,
+            zipCode: address.zipCode,
+            state: address.state,
+            zone: worst.zone,
+            peril: worst.peril,
+            multiplier,
+            drivers: matches
+                .filter(match => match.zone !== 'LOW_RISK_ZONE')
+                .map(match => `${match.peril} ${match.zone} by ${match.matchedBy.toLowerCase().replace('_', ' ')} ${match.matchedKey} (${match.vintage})`),
+            missingInputs: matches.some(match => match.matchedBy === 'DEFAULT') && !address.zipCode ? ['policyHolder.address.zipCode'] : [],
+            perils: matches.map(({ peril, zone, matchedBy, matchedKey, vintage }) =>
+                ({ peril, zone, matchedBy, matchedKey, vintage, multiplier: RISK_MULTIPLIERS.LOCATION_TYPE[zone] }))
+        },
+        confidence: matches.reduce((sum, match) => sum + MATCH_CONFIDENCE[match.matchedBy], 0) / matches.length,
+        dataSource: `location-zones:${matches.map(match => `${match.peril}@${match.vintage}`).join(',')}`,
+        validationStatus: 'VALID'
+    };
+}
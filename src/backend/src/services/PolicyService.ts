@@ -9,16 +9,112 @@ import { Logger } from 'winston'; // ^3.10.0
 import { retry } from 'retry-ts'; // ^0.1.3
 import { CircuitBreaker } from 'opossum'; // ^6.0.1
 import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+import { addDays, differenceInDays } from 'date-fns'; // ^2.30.0
 
 import { PolicyRepository } from '../repositories/PolicyRepository';
 import { PolicyClient } from '../integrations/oneshield/PolicyClient';
-import { IPolicy, PolicyStatus } from '../types/policy.types';
+import { BillingClient } from '../integrations/oneshield/BillingClient';
+import { EndorsementRepository } from '../repositories/EndorsementRepository';
+import { PolicyVersionRepository } from '../repositories/PolicyVersionRepository';
+import { PolicyQuoteRepository } from '../repositories/PolicyQuoteRepository';
+import { ProductDefinitionRepository } from '../repositories/ProductDefinitionRepository';
+import { RatingService } from './RatingService';
+import { PolicyEventProducer } from '../events/producers/PolicyEventProducer';
+import {
+    IPolicy,
+    PolicyStatus,
+    RenewalStatus,
+    NonRenewalReason,
+    CancellationReason,
+    CancellationMethod,
+    ICancellationInfo,
+    IReturnPremium,
+    ReinstatementType,
+    IReinstatementInfo,
+    IEndorsement,
+    IEndorsementRating,
+    PolicyTransactionType,
+    IPolicyVersion,
+    IPolicyVersionHistoryEntry,
+    ICoverage,
+    IPolicyQuote,
+    QuoteStatus,
+    SubjectivityStatus
+} from '../types/policy.types';
+import { IRatingRequest, IPremiumBreakdown } from '../types/rating.types';
+import { IProductDefinition, IProductRuleResult, ProductValidationStage } from '../types/product.types';
+import { PolicyType } from '../constants/policyTypes';
 import { 
     IOneShieldPolicyRequest, 
     IOneShieldPolicyResponse,
-    OneShieldPolicyStatus 
+    OneShieldPolicyStatus,
+    OneShieldTransactionType
 } from '../integrations/oneshield/types';
 import { oneshieldConfig } from '../config/oneshield';
+import {
+    RENEWAL_WINDOWS,
+    RENEWAL_RATE_TREND,
+    RENEWAL_EXPERIENCE_BANDS,
+    RENEWAL_WORST_EXPERIENCE_BAND,
+    RENEWAL_REFERRAL_LOSS_RATIO,
+    MAX_RENEWAL_RATE_CHANGE
+} from '../constants/renewalRules';
+import {
+    CANCELLATION_METHOD_BY_REASON,
+    CANCELLATION_NOTICE_DAYS,
+    SHORT_RATE_BASIS_DAYS,
+    SHORT_RATE_TABLE,
+    REINSTATEMENT_GRACE_DAYS,
+    REINSTATABLE_CANCELLATION_REASONS,
+    SUBJECTIVITY_CANCELLATION_GRACE_DAYS
+} from '../constants/cancellationRules';
+import { ENDORSABLE_POLICY_FIELDS } from '../constants/endorsementRules';
+import { QUOTE_VALIDITY_DAYS, MAX_ACTIVE_QUOTE_OPTIONS } from '../constants/quoteRules';
+import { diffObjects } from '../utils/objectDiff';
+import { findProductRuleViolations } from './ProductRules';
+import { openPreBindSubjectivities, overdueSubjectivities, scheduleSubjectivities } from './Subjectivities';
+
+// Statuses in which premium may still be re-rated; bound policies change premium by endorsement
+const RATEABLE_POLICY_STATUSES: ReadonlyArray<PolicyStatus> = [
+    PolicyStatus.DRAFT,
+    PolicyStatus.QUOTED
+];
+
+// Submission statuses in which quote options may be offered
+const QUOTABLE_POLICY_STATUSES: ReadonlyArray<PolicyStatus> = [
+    PolicyStatus.DRAFT,
+    PolicyStatus.QUOTED,
+    PolicyStatus.PENDING_RENEWAL
+];
+
+// Statuses in which a bound policy's post-bind subjectivities are tracked
+const IN_FORCE_POLICY_STATUSES: ReadonlyArray<PolicyStatus> = [
+    PolicyStatus.BOUND,
+    PolicyStatus.ACTIVE
+];
+
+// Statuses a policy moves through from submission to in force; a change between
+// them restates the policy for its current version rather than starting a new one
+const ISSUANCE_POLICY_STATUSES: ReadonlyArray<PolicyStatus> = [
+    PolicyStatus.DRAFT,
+    PolicyStatus.PENDING_RENEWAL,
+    PolicyStatus.QUOTED,
+    PolicyStatus.BOUND,
+    PolicyStatus.ACTIVE
+];
+
+// Policy fields whose changes are recorded as a policy version
+const VERSIONED_POLICY_FIELDS: ReadonlyArray<string> = [
+    ...ENDORSABLE_POLICY_FIELDS,
+    'status',
+    'premium',
+    'effectiveDate',
+    'expirationDate'
+];
+
+// Policy fields governed by the product definition of the policy type
+type ProductRulesInput = Pick<IPolicy, 'type' | 'effectiveDate' | 'coverages'>
+    & Partial<Pick<IPolicy, 'documents' | 'eligibilityAnswers'>>;
 
 /**
  * Service class implementing comprehensive business logic for policy management
@@ -29,6 +125,13 @@ export class PolicyService {
     private readonly policyClient: PolicyClient;
     private readonly logger: Logger;
     private readonly circuitBreaker: CircuitBreaker;
+    private readonly eventProducer: PolicyEventProducer;
+    private readonly billingClient: BillingClient;
+    private readonly endorsementRepository: EndorsementRepository;
+    private readonly policyVersionRepository: PolicyVersionRepository;
+    private readonly ratingService: RatingService;
+    private readonly policyQuoteRepository: PolicyQuoteRepository;
+    private readonly productDefinitionRepository: ProductDefinitionRepository;
     private readonly maxRetries: number;
     private readonly retryDelay: number;
 
@@ -37,12 +140,26 @@ export class PolicyService {
         policyClient: PolicyClient,
         logger: Logger,
         circuitBreaker: CircuitBreaker,
-        config: typeof oneshieldConfig
+        config: typeof oneshieldConfig,
+        eventProducer: PolicyEventProducer,
+        billingClient: BillingClient,
+        endorsementRepository: EndorsementRepository,
+        policyVersionRepository: PolicyVersionRepository,
+        ratingService: RatingService,
+        policyQuoteRepository: PolicyQuoteRepository,
+        productDefinitionRepository: ProductDefinitionRepository
     ) {
         this.policyRepository = policyRepository;
         this.policyClient = policyClient;
         this.logger = logger;
         this.circuitBreaker = circuitBreaker;
+        this.eventProducer = eventProducer;
+        this.billingClient = billingClient;
+        this.endorsementRepository = endorsementRepository;
+        this.policyVersionRepository = policyVersionRepository;
+        this.ratingService = ratingService;
+        this.policyQuoteRepository = policyQuoteRepository;
+        this.productDefinitionRepository = productDefinitionRepository;
         this.maxRetries = config.connection.retryConfig.maxRetries;
         this.retryDelay = config.connection.retryConfig.initialDelay;
     }
@@ -102,6 +219,15 @@ export class PolicyService {
                 transaction
             );
 
+            await this.policyVersionRepository.record(
+                updatedPolicy,
+                {
+                    transactionType: PolicyTransactionType.NEW_BUSINESS,
+                    effectiveFrom: new Date(updatedPolicy.effectiveDate)
+                },
+                transaction
+            );
+
             await transaction.commit();
 
             this.logger.info('Policy created successfully', {
@@ -123,6 +249,66 @@ export class PolicyService {
         }
     }
 
+    /**
+     * Retrieves a policy, optionally as it stood on a given date
+     * @param policyId Policy ID
+     * @param asOf Optional point in time; returns the version in force on that date
+     * @returns Current policy, or the policy version in force as of the date (null if none was)
+     */
+    public async getPolicy(policyId: string, asOf?: Date): Promise<IPolicy | null> {
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        if (asOf) {
+            const version = await this.policyVersionRepository.findAsOf(policyId, asOf);
+            if (version) {
+                return version.snapshot;
+            }
+
+            // Policies written before versioning have no history; their current state is the only state
+            const versions = await this.policyVersionRepository.findByPolicyId(policyId);
+            if (versions.length === 0 && asOf >= new Date(policy.effectiveDate) && asOf < new Date(policy.expirationDate)) {
+                return policy;
+            }
+
+            return null;
+        }
+
+        // Refresh carrier status from OneShield; the local record remains the source of truth
+        try {
+            await this.circuitBreaker.fire(
+                async () => await this.policyClient.getPolicy(policy.oneShieldPolicyId || policy.id)
+            );
+        } catch (error) {
+            this.logger.warn('Unable to refresh policy from OneShield', {
+                policyId,
+                error
+            });
+        }
+
+        return policy;
+    }
+
+    /**
+     * Lists every recorded version of a policy with field-level changes from the prior version
+     * @param policyId Policy ID
+     * @returns Version history in recording order
+     */
+    public async getPolicyHistory(policyId: string): Promise<IPolicyVersionHistoryEntry[]> {
+        const versions = await this.policyVersionRepository.findByPolicyId(policyId);
+
+        return versions.map(({ snapshot, ...version }, index, all) => ({
+            ...version,
+            changes: diffObjects(
+                all[index - 1]?.snapshot as unknown as Record<string, unknown> | undefined,
+                snapshot as unknown as Record<string, unknown>,
+                ['createdAt', 'updatedAt']
+            )
+        }));
+    }
+
     /**
      * Updates an existing policy with OneShield synchronization
      * @param policyId Policy ID to update
@@ -154,9 +340,21 @@ export class PolicyService {
                 await this.validatePolicyTransition(existingPolicy.status, updates.status, existingPolicy);
             }
 
+            // Submissions stay within their product; bound policies change coverage by endorsement
+            if ((updates.coverages || updates.eligibilityAnswers) && RATEABLE_POLICY_STATUSES.includes(existingPolicy.status)) {
+                await this.enforceProductRules(
+                    { ...existingPolicy, ...updates },
+                    ProductValidationStage.SUBMISSION
+                );
+            }
+
             // Update policy in local database
             const updatedPolicy = await this.policyRepository.update(policyId, updates, transaction);
 
+            if (Object.keys(updates).some(field => VERSIONED_POLICY_FIELDS.includes(field))) {
+                await this.recordUpdateVersion(existingPolicy, updatedPolicy, transaction);
+            }
+
             // Sync with OneShield if policy is active
             if (updatedPolicy.status === PolicyStatus.ACTIVE) {
                 const oneShieldRequest = this.mapToOneShieldPolicy(updatedPolicy);
@@ -191,57 +389,1867 @@ export class PolicyService {
     }
 
     /**
-     * Validates policy state transitions according to business rules
-     * @param currentState Current policy status
-     * @param newState New policy status
-     * @param policy Policy data for validation
-     * @returns Validation result
+     * Records a version for a direct policy update. Changes while the policy moves from
+     * submission to in force restate its current version, so the status and terms hold
+     * from that version's start; any other status change takes effect from now.
+     * @private
+     * @param existingPolicy Policy before the update
+     * @param updatedPolicy Policy after the update
+     * @param transaction Transaction the update runs in
      */
-    public async validatePolicyTransition(
-        currentState: PolicyStatus,
-        newState: PolicyStatus,
-        policy: IPolicy
-    ): Promise<boolean> {
-        // Define valid state transitions
-        const validTransitions: Record<PolicyStatus, PolicyStatus[]> = {
-            [PolicyStatus.DRAFT]: [PolicyStatus.QUOTED],
-            [PolicyStatus.QUOTED]: [PolicyStatus.BOUND, PolicyStatus.CANCELLED],
-            [PolicyStatus.BOUND]: [PolicyStatus.ACTIVE, PolicyStatus.CANCELLED],
-            [PolicyStatus.ACTIVE]: [PolicyStatus.CANCELLED, PolicyStatus.EXPIRED],
-            [PolicyStatus.CANCELLED]: [],
-            [PolicyStatus.EXPIRED]: []
-        };
+    private async recordUpdateVersion(
+        existingPolicy: IPolicy,
+        updatedPolicy: IPolicy,
+        transaction: Transaction
+    ): Promise<void> {
+        const current = (await this.policyVersionRepository.findByPolicyId(existingPolicy.id))
+            .filter(version => !version.supersededAt)
+            .reduce<IPolicyVersion | null>((latest, version) => (
+                !latest || new Date(version.effectiveFrom) > new Date(latest.effectiveFrom) ? version : latest
+            ), null);
+        const currentFrom = new Date(current?.effectiveFrom ?? updatedPolicy.effectiveDate);
+        const restates = updatedPolicy.status === existingPolicy.status
+            || ISSUANCE_POLICY_STATUSES.includes(updatedPolicy.status);
+        const now = new Date();
 
-        // Check if transition is valid
-        if (!validTransitions[currentState].includes(newState)) {
-            throw new Error(`Invalid policy status transition from ${currentState} to ${newState}`);
+        await this.policyVersionRepository.record(
+            updatedPolicy,
+            restates
+                ? {
+                    transactionType: current?.transactionType ?? PolicyTransactionType.NEW_BUSINESS,
+                    effectiveFrom: currentFrom,
+                    ...(current?.sourceId ? { sourceId: current.sourceId } : {})
+                }
+                : {
+                    transactionType: PolicyTransactionType.STATUS_CHANGE,
+                    effectiveFrom: now > currentFrom ? now : currentFrom
+                },
+            transaction
+        );
+    }
+
+    /**
+     * Rates a draft or quoted policy against the rate table in effect on its effective date
+     * and stores the resulting premium and breakdown. Bound policies change premium by endorsement.
+     * @param policyId Policy ID to rate
+     * @param request Exposures, signed schedule modifiers and rating user
+     * @param options Transaction options
+     * @returns Rated policy with premium breakdown
+     */
+    public async ratePolicy(
+        policyId: string,
+        request: {
+            exposures: IRatingRequest['exposures'];
+            scheduleModifiers?: Record<string, number>;
+            ratedBy: string;
+        },
+        options?: { transaction?: Transaction }
+    ): Promise<IPolicy> {
+        const correlationId = uuidv4();
+        this.logger.info('Starting policy rating process', {
+            correlationId,
+            policyId
+        });
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
         }
 
-        // Additional validation rules
-        switch (newState) {
-            case PolicyStatus.BOUND:
-                if (!policy.underwritingInfo.riskScore) {
-                    throw new Error('Risk assessment required before binding');
-                }
-                break;
+        if (!RATEABLE_POLICY_STATUSES.includes(policy.status)) {
+            throw new Error(`Only draft or quoted policies can be rated (current status: ${policy.status})`);
+        }
 
-            case PolicyStatus.ACTIVE:
-                if (!policy.oneShieldPolicyId) {
-                    throw new Error('OneShield synchronization required for activation');
-                }
-                if (!policy.documents.some(doc => doc.type === 'POLICY_DOCUMENT')) {
-                    throw new Error('Policy document required for activation');
-                }
-                break;
+        const premiumBreakdown = await this.ratingService.rate({
+            policyType: policy.type,
+            effectiveDate: new Date(policy.effectiveDate),
+            exposures: request.exposures,
+            coverages: policy.coverages,
+            ...(request.scheduleModifiers ? { scheduleModifiers: request.scheduleModifiers } : {})
+        });
 
-            case PolicyStatus.CANCELLED:
-                if (!policy.underwritingInfo.approvedBy) {
-                    throw new Error('Underwriter approval required for cancellation');
-                }
-                break;
+        const transaction = options?.transaction || await this.policyRepository.getSequelize().transaction();
+
+        try {
+            const ratedPolicy = await this.policyRepository.update(
+                policyId,
+                {
+                    premium: premiumBreakdown.totalPremium,
+                    premiumBreakdown,
+                    auditLog: [
+                        ...(policy.auditLog || []),
+                        {
+                            action: 'RATING',
+                            timestamp: premiumBreakdown.ratedAt,
+                            userId: request.ratedBy,
+                            details: {
+                                previousPremium: policy.premium,
+                                premium: premiumBreakdown.totalPremium,
+                                rateTableVersion: premiumBreakdown.rateTableVersion
+                            }
+                        }
+                    ]
+                },
+                transaction
+            );
+
+            await transaction.commit();
+
+            await this.eventProducer.publishPolicyUpdated(ratedPolicy);
+
+            this.logger.info('Policy rated and premium stored', {
+                correlationId,
+                policyId,
+                rateTableVersion: premiumBreakdown.rateTableVersion,
+                premium: premiumBreakdown.totalPremium
+            });
+
+            return ratedPolicy;
+
+        } catch (error) {
+            await transaction.rollback();
+            this.logger.error('Failed to rate policy', {
+                correlationId,
+                error,
+                policyId
+            });
+            throw error;
         }
+    }
 
-        return true;
+    /**
+     * Offers a quote option on a submission. Options are rated from exposures when
+     * given, otherwise priced by hand; the first option moves the submission to QUOTED.
+     * @param policyId Submission (policy) ID
+     * @param request Option label, coverages, pricing inputs, expiry and quoting user
+     * @param options Transaction options
+     * @returns Created quote option
+     */
+    public async createQuote(
+        policyId: string,
+        request: {
+            label: string;
+            coverages: ICoverage[];
+            premium?: number;
+            exposures?: IRatingRequest['exposures'];
+            scheduleModifiers?: Record<string, number>;
+            expirationDate?: Date;
+            createdBy: string;
+        },
+        options?: { transaction?: Transaction }
+    ): Promise<IPolicyQuote> {
+        const correlationId = uuidv4();
+        this.logger.info('Starting quote option creation', {
+            correlationId,
+            policyId,
+            label: request.label
+        });
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        if (!QUOTABLE_POLICY_STATUSES.includes(policy.status)) {
+            throw new Error(`Quote options can only be offered before binding (current status: ${policy.status})`);
+        }
+
+        const now = new Date();
+        const expirationDate = request.expirationDate || addDays(now, QUOTE_VALIDITY_DAYS);
+        if (expirationDate <= now) {
+            throw new Error('Quote expiration date must be in the future');
+        }
+
+        await this.enforceProductRules(
+            { ...policy, coverages: request.coverages },
+            ProductValidationStage.QUOTE
+        );
+
+        const existingQuotes = await this.getQuotes(policyId);
+        if (existingQuotes.filter(quote => quote.status === QuoteStatus.ACTIVE).length >= MAX_ACTIVE_QUOTE_OPTIONS) {
+            throw new Error(`A submission may have at most ${MAX_ACTIVE_QUOTE_OPTIONS} open quote options`);
+        }
+
+        let premium = request.premium;
+        let premiumBreakdown: IPremiumBreakdown | undefined;
+        if (request.exposures) {
+            premiumBreakdown = await this.ratingService.rate({
+                policyType: policy.type,
+                effectiveDate: new Date(policy.effectiveDate),
+                exposures: request.exposures,
+                coverages: request.coverages,
+                ...(request.scheduleModifiers ? { scheduleModifiers: request.scheduleModifiers } : {})
+            });
+            premium = premiumBreakdown.totalPremium;
+        }
+
+        if (premium === undefined) {
+            throw new Error('Either exposures or a premium is required to quote an option');
+        }
+
+        const transaction = options?.transaction || await this.policyRepository.getSequelize().transaction();
+
+        try {
+            const quote = await this.policyQuoteRepository.create(
+                {
+                    policyId,
+                    label: request.label,
+                    coverages: request.coverages,
+                    premium,
+                    ...(premiumBreakdown ? { premiumBreakdown } : {}),
+                    expirationDate,
+                    createdBy: request.createdBy
+                },
+                transaction
+            );
+
+            let quotedPolicy: IPolicy | undefined;
+            if (policy.status !== PolicyStatus.QUOTED) {
+                await this.validatePolicyTransition(policy.status, PolicyStatus.QUOTED, policy);
+                quotedPolicy = await this.policyRepository.update(
+                    policyId,
+                    { status: PolicyStatus.QUOTED },
+                    transaction
+                );
+            }
+
+            await transaction.commit();
+
+            if (quotedPolicy) {
+                await this.eventProducer.publishPolicyStatusChanged(quotedPolicy, policy.status);
+            }
+
+            this.logger.info('Quote option created successfully', {
+                correlationId,
+                policyId,
+                quoteId: quote.id,
+                optionNumber: quote.optionNumber,
+                premium
+            });
+
+            return quote;
+
+        } catch (error) {
+            await transaction.rollback();
+            this.logger.error('Failed to create quote option', {
+                correlationId,
+                error,
+                policyId
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the quote options on a submission, expiring any past their expiration date
+     * @param policyId Submission (policy) ID
+     * @returns Quote options in option number order
+     */
+    public async getQuotes(policyId: string): Promise<IPolicyQuote[]> {
+        await this.policyQuoteRepository.expireLapsed(policyId, new Date());
+        return this.policyQuoteRepository.findByPolicyId(policyId);
+    }
+
+    /**
+     * Binds the quote option chosen by the insured: its coverages and premium are applied
+     * to the policy, the policy moves to BOUND and the submission's other open options
+     * are superseded
+     * @param policyId Submission (policy) ID
+     * @param quoteId Quote option to bind
+     * @param boundBy Binding user
+     * @param options Transaction options
+     * @returns Bound policy
+     */
+    public async bindQuote(
+        policyId: string,
+        quoteId: string,
+        boundBy: string,
+        options?: { transaction?: Transaction }
+    ): Promise<IPolicy> {
+        const correlationId = uuidv4();
+        this.logger.info('Starting quote option binding', {
+            correlationId,
+            policyId,
+            quoteId
+        });
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        const quote = await this.policyQuoteRepository.findById(quoteId);
+        if (!quote || quote.policyId !== policyId) {
+            throw new Error('Quote option not found');
+        }
+
+        const boundAt = new Date();
+        if (quote.status !== QuoteStatus.ACTIVE) {
+            throw new Error(`Quote option is ${quote.status.toLowerCase()} and cannot be bound`);
+        }
+        if (new Date(quote.expirationDate) <= boundAt) {
+            throw new Error('Quote option has expired');
+        }
+
+        await this.validatePolicyTransition(policy.status, PolicyStatus.BOUND, policy);
+
+        await this.enforceProductRules(
+            { ...policy, coverages: quote.coverages },
+            ProductValidationStage.BIND
+        );
+
+        const transaction = options?.transaction || await this.policyRepository.getSequelize().transaction();
+
+        try {
+            const boundPolicy = await this.policyRepository.update(
+                policyId,
+                {
+                    status: PolicyStatus.BOUND,
+                    coverages: quote.coverages,
+                    premium: quote.premium,
+                    ...(quote.premiumBreakdown ? { premiumBreakdown: quote.premiumBreakdown } : {}),
+                    ...(policy.underwritingInfo?.subjectivities?.length ? {
+                        underwritingInfo: {
+                            ...policy.underwritingInfo,
+                            subjectivities: scheduleSubjectivities(policy.underwritingInfo.subjectivities, boundAt)
+                        }
+                    } : {}),
+                    auditLog: [
+                        ...(policy.auditLog || []),
+                        {
+                            action: 'BIND',
+                            timestamp: boundAt,
+                            userId: boundBy,
+                            details: {
+                                quoteId: quote.id,
+                                optionNumber: quote.optionNumber,
+                                label: quote.label,
+                                premium: quote.premium
+                            }
+                        }
+                    ]
+                },
+                transaction
+            );
+
+            await this.policyQuoteRepository.bind(quote, boundBy, transaction);
+
+            const previousPolicyId = policy.renewalInfo?.previousPolicyId;
+            await this.policyVersionRepository.record(
+                boundPolicy,
+                {
+                    transactionType: previousPolicyId ? PolicyTransactionType.RENEWAL : PolicyTransactionType.NEW_BUSINESS,
+                    effectiveFrom: new Date(boundPolicy.effectiveDate),
+                    ...(previousPolicyId ? { sourceId: previousPolicyId } : {}),
+                    createdBy: boundBy
+                },
+                transaction
+            );
+
+            // Sync bound coverages and premium with OneShield
+            if (boundPolicy.oneShieldPolicyId) {
+                await this.circuitBreaker.fire(
+                    async () => await this.policyClient.updatePolicy(
+                        boundPolicy.oneShieldPolicyId!,
+                        this.mapToOneShieldPolicy(boundPolicy)
+                    )
+                );
+            }
+
+            await transaction.commit();
+
+            await this.eventProducer.publishPolicyStatusChanged(boundPolicy, policy.status);
+
+            this.logger.info('Quote option bound successfully', {
+                correlationId,
+                policyId,
+                quoteId,
+                premium: quote.premium
+            });
+
+            return boundPolicy;
+
+        } catch (error) {
+            await transaction.rollback();
+            this.logger.error('Failed to bind quote option', {
+                correlationId,
+                error,
+                policyId,
+                quoteId
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the product definition in effect for a policy type on a given date
+     * @param policyType Policy type
+     * @param asOf Policy effective date
+     * @returns Product definition version in effect
+     */
+    public async getProductDefinition(policyType: PolicyType, asOf: Date): Promise<IProductDefinition> {
+        const definition = await this.productDefinitionRepository.findEffective(policyType, asOf);
+        if (!definition) {
+            throw new Error(`No product definition is in effect for ${policyType} on ${asOf.toISOString()}`);
+        }
+
+        return definition;
+    }
+
+    /**
+     * Checks a policy against the product definition in effect on its effective date
+     * @param policyData Policy type, effective date, coverages, documents and eligibility answers
+     * @param stage Lifecycle stage being validated
+     * @returns Result listing every product rule the policy breaks
+     */
+    public async checkProductRules(
+        policyData: ProductRulesInput,
+        stage: ProductValidationStage
+    ): Promise<IProductRuleResult> {
+        const definition = await this.getProductDefinition(policyData.type, new Date(policyData.effectiveDate));
+        const errors = findProductRuleViolations(policyData, definition, stage);
+
+        return errors.length > 0 ? { success: false, errors } : { success: true };
+    }
+
+    /**
+     * Finds active policies approaching expiration that have not yet been renewed or non-renewed
+     * @param windowDays Number of days ahead of expiration to look
+     * @param asOf Reference date for the renewal window
+     * @returns Policies eligible for renewal processing
+     */
+    public async findPoliciesDueForRenewal(
+        windowDays: number = RENEWAL_WINDOWS.OFFER_WINDOW_DAYS,
+        asOf: Date = new Date()
+    ): Promise<IPolicy[]> {
+        const expiringPolicies = await this.policyRepository.findExpiring(
+            asOf,
+            addDays(asOf, windowDays)
+        );
+
+        return expiringPolicies.filter(policy =>
+            !policy.renewalInfo || policy.renewalInfo.status === RenewalStatus.PENDING
+        );
+    }
+
+    /**
+     * Creates a linked renewal term for an expiring policy, re-rates its premium,
+     * syncs it to OneShield as a RENEWAL transaction and requests underwriting review
+     * @param policyId Expiring policy ID
+     * @param options Optional rate change override and transaction
+     * @returns Created renewal term
+     */
+    public async createRenewalTerm(
+        policyId: string,
+        options?: { rateChange?: number; transaction?: Transaction }
+    ): Promise<IPolicy> {
+        const correlationId = uuidv4();
+        this.logger.info('Starting policy renewal process', {
+            correlationId,
+            policyId
+        });
+
+        const expiringPolicy = await this.policyRepository.findById(policyId);
+        if (!expiringPolicy) {
+            throw new Error('Policy not found');
+        }
+
+        if (expiringPolicy.status !== PolicyStatus.ACTIVE) {
+            throw new Error(`Only active policies can be renewed (current status: ${expiringPolicy.status})`);
+        }
+
+        if (expiringPolicy.renewalInfo?.status === RenewalStatus.NON_RENEWED) {
+            throw new Error('Policy has been marked for non-renewal');
+        }
+
+        if (expiringPolicy.renewalInfo?.renewalPolicyId) {
+            throw new Error('Renewal term already exists for this policy');
+        }
+
+        const transaction = options?.transaction || await this.policyRepository.getSequelize().transaction();
+
+        try {
+            const termNumber = (expiringPolicy.renewalInfo?.termNumber || 1) + 1;
+            const termDays = differenceInDays(expiringPolicy.expirationDate, expiringPolicy.effectiveDate);
+            const effectiveDate = new Date(expiringPolicy.expirationDate);
+            const offerDate = new Date();
+
+            const rating = options?.rateChange !== undefined
+                ? { rateChange: options.rateChange, lossRatio: this.calculateLossRatio(expiringPolicy), requiresReferral: false }
+                : this.calculateRenewalRateChange(expiringPolicy);
+
+            // Re-scoring moved the expiring term into another risk band
+            const reviewFlag = expiringPolicy.underwritingInfo?.renewalReview;
+
+            const { id, oneShieldPolicyId, ...carriedForward } = expiringPolicy;
+
+            const renewalData: Omit<IPolicy, 'id'> = {
+                ...carriedForward,
+                policyNumber: this.buildRenewalPolicyNumber(expiringPolicy.policyNumber, termNumber),
+                status: PolicyStatus.PENDING_RENEWAL,
+                effectiveDate,
+                expirationDate: addDays(effectiveDate, termDays),
+                premium: Number((expiringPolicy.premium * (1 + rating.rateChange)).toFixed(2)),
+                endorsements: [],
+                documents: [],
+                claimHistory: [],
+                underwritingInfo: {
+                    riskScore: 0,
+                    underwriterNotes: rating.requiresReferral
+                        ? `Renewal referred: expiring term loss ratio ${rating.lossRatio.toFixed(2)} exceeds ${RENEWAL_REFERRAL_LOSS_RATIO.toFixed(2)}`
+                        : reviewFlag
+                            ? `Renewal referred: re-scoring moved the risk band from ${reviewFlag.previousBand || 'unscored'} to ${reviewFlag.newBand}`
+                            : `Renewal of ${expiringPolicy.policyNumber} at ${(rating.rateChange * 100).toFixed(1)}% rate change`
+                },
+                renewalInfo: {
+                    termNumber,
+                    status: RenewalStatus.PENDING,
+                    previousPolicyId: expiringPolicy.id,
+                    offerDate,
+                    offerExpirationDate: addDays(offerDate, RENEWAL_WINDOWS.OFFER_VALIDITY_DAYS),
+                    rateChange: rating.rateChange
+                },
+                createdAt: offerDate,
+                updatedAt: offerDate
+            };
+
+            const renewalPolicy = await this.policyRepository.create(renewalData, transaction);
+
+            // Sync renewal term with OneShield as a RENEWAL transaction on the expiring policy
+            const oneShieldResponse: IOneShieldPolicyResponse = await this.circuitBreaker.fire(
+                async () => await this.policyClient.submitTransaction(
+                    expiringPolicy.oneShieldPolicyId!,
+                    {
+                        transactionType: OneShieldTransactionType.RENEWAL,
+                        effectiveDate: effectiveDate.toISOString(),
+                        policy: this.mapToOneShieldPolicy(renewalPolicy),
+                        premiumChange: Number((renewalPolicy.premium - expiringPolicy.premium).toFixed(2))
+                    }
+                )
+            );
+
+            const syncedRenewal = await this.policyRepository.update(
+                renewalPolicy.id,
+                { oneShieldPolicyId: oneShieldResponse.policyId },
+                transaction
+            );
+
+            await this.policyVersionRepository.record(
+                syncedRenewal,
+                {
+                    transactionType: PolicyTransactionType.RENEWAL,
+                    effectiveFrom: effectiveDate,
+                    sourceId: expiringPolicy.id
+                },
+                transaction
+            );
+
+            await this.policyRepository.update(
+                expiringPolicy.id,
+                {
+                    renewalInfo: {
+                        ...expiringPolicy.renewalInfo,
+                        termNumber: termNumber - 1,
+                        status: RenewalStatus.OFFERED,
+                        renewalPolicyId: renewalPolicy.id
+                    }
+                },
+                transaction
+            );
+
+            await transaction.commit();
+
+            // Send the renewal term back through underwriting
+            await this.eventProducer.publishRenewalCreated(syncedRenewal, expiringPolicy);
+            await this.eventProducer.publishUnderwritingRequested(syncedRenewal, 'RENEWAL');
+
+            this.logger.info('Policy renewal term created successfully', {
+                correlationId,
+                policyId,
+                renewalPolicyId: syncedRenewal.id,
+                rateChange: rating.rateChange,
+                requiresReferral: rating.requiresReferral || Boolean(reviewFlag)
+            });
+
+            return syncedRenewal;
+
+        } catch (error) {
+            await transaction.rollback();
+            this.logger.error('Failed to create policy renewal term', {
+                correlationId,
+                error,
+                policyId
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Creates renewal terms for every policy due for renewal, continuing past individual failures
+     * @param asOf Reference date for the renewal window
+     * @returns Created renewal terms and the policies that failed
+     */
+    public async processRenewals(
+        asOf: Date = new Date()
+    ): Promise<{ renewed: IPolicy[]; failed: Array<{ policyId: string; error: string }> }> {
+        const duePolicies = await this.findPoliciesDueForRenewal(RENEWAL_WINDOWS.OFFER_WINDOW_DAYS, asOf);
+        const renewed: IPolicy[] = [];
+        const failed: Array<{ policyId: string; error: string }> = [];
+
+        for (const policy of duePolicies) {
+            try {
+                renewed.push(await this.createRenewalTerm(policy.id));
+            } catch (error) {
+                failed.push({ policyId: policy.id, error: (error as Error).message });
+            }
+        }
+
+        this.logger.info('Renewal processing completed', {
+            asOf,
+            due: duePolicies.length,
+            renewed: renewed.length,
+            failed: failed.length
+        });
+
+        return { renewed, failed };
+    }
+
+    /**
+     * Records a non-renewal decision on an active policy
+     * @param policyId Policy ID
+     * @param nonRenewal Non-renewal reason, notice date and decision maker
+     * @returns Updated policy
+     */
+    public async recordNonRenewal(
+        policyId: string,
+        nonRenewal: {
+            reason: NonRenewalReason;
+            noticeDate: Date;
+            decidedBy: string;
+            notes?: string;
+        }
+    ): Promise<IPolicy> {
+        const correlationId = uuidv4();
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        if (policy.status !== PolicyStatus.ACTIVE) {
+            throw new Error(`Non-renewal can only be recorded on active policies (current status: ${policy.status})`);
+        }
+
+        if (policy.renewalInfo?.status === RenewalStatus.OFFERED) {
+            throw new Error('Renewal has already been offered for this policy');
+        }
+
+        const noticeDays = differenceInDays(policy.expirationDate, nonRenewal.noticeDate);
+        if (nonRenewal.reason !== NonRenewalReason.INSURED_REQUEST &&
+            noticeDays < RENEWAL_WINDOWS.MIN_NON_RENEWAL_NOTICE_DAYS) {
+            throw new Error(
+                `Non-renewal notice must be given at least ${RENEWAL_WINDOWS.MIN_NON_RENEWAL_NOTICE_DAYS} days before expiration`
+            );
+        }
+
+        const updatedPolicy = await this.policyRepository.update(policyId, {
+            renewalInfo: {
+                ...policy.renewalInfo,
+                termNumber: policy.renewalInfo?.termNumber || 1,
+                status: RenewalStatus.NON_RENEWED,
+                nonRenewal
+            }
+        });
+
+        await this.eventProducer.publishNonRenewalRecorded(updatedPolicy);
+
+        this.logger.info('Non-renewal recorded successfully', {
+            correlationId,
+            policyId,
+            reason: nonRenewal.reason,
+            noticeDays
+        });
+
+        return updatedPolicy;
+    }
+
+    /**
+     * Calculates earned and return premium for cancelling a policy on a given date
+     * @param policy Policy being cancelled
+     * @param cancellationDate Cancellation effective date
+     * @param method Return premium method
+     * @returns Earned and return premium breakdown
+     */
+    public calculateReturnPremium(
+        policy: IPolicy,
+        cancellationDate: Date,
+        method: CancellationMethod
+    ): IReturnPremium {
+        const termDays = Math.max(1, differenceInDays(policy.expirationDate, policy.effectiveDate));
+        const daysInForce = Math.min(
+            termDays,
+            Math.max(0, differenceInDays(cancellationDate, policy.effectiveDate))
+        );
+
+        let earnedPremium: number;
+        switch (method) {
+            case CancellationMethod.FLAT:
+                earnedPremium = 0;
+                break;
+
+            case CancellationMethod.SHORT_RATE: {
+                // Scale the days in force to the table basis so non-annual terms use the same table
+                const basisDays = Math.ceil(daysInForce * SHORT_RATE_BASIS_DAYS / termDays);
+                const entry = SHORT_RATE_TABLE.find(([maxDays]) => basisDays <= maxDays);
+                const percentEarned = basisDays === 0 ? 0 : (entry ? entry[1] : 100);
+                earnedPremium = policy.premium * percentEarned / 100;
+                break;
+            }
+
+            case CancellationMethod.PRO_RATA:
+            default:
+                earnedPremium = policy.premium * daysInForce / termDays;
+                break;
+        }
+
+        earnedPremium = Number(earnedPremium.toFixed(2));
+
+        return {
+            method,
+            daysInForce,
+            termDays,
+            earnedPremium,
+            returnPremium: Number((policy.premium - earnedPremium).toFixed(2))
+        };
+    }
+
+    /**
+     * Previews the return premium for a prospective cancellation without changing the policy
+     * @param policyId Policy ID
+     * @param effectiveDate Prospective cancellation date
+     * @param reason Cancellation reason
+     * @param method Optional return premium method override
+     * @returns Earned and return premium breakdown
+     */
+    public async quoteCancellation(
+        policyId: string,
+        effectiveDate: Date,
+        reason: CancellationReason,
+        method?: CancellationMethod
+    ): Promise<IReturnPremium> {
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        return this.calculateReturnPremium(
+            policy,
+            effectiveDate,
+            this.resolveCancellationMethod(policy, effectiveDate, reason, method)
+        );
+    }
+
+    /**
+     * Cancels a policy mid-term, computing return premium and posting the refund
+     * to OneShield billing as a CANCELLATION transaction
+     * @param policyId Policy ID to cancel
+     * @param request Cancellation effective date, reason and optional method override
+     * @param options Transaction options
+     * @returns Cancelled policy with cancellation details
+     */
+    public async cancelPolicy(
+        policyId: string,
+        request: {
+            effectiveDate: Date;
+            reason: CancellationReason;
+            requestedBy: string;
+            method?: CancellationMethod;
+            notes?: string;
+        },
+        options?: { transaction?: Transaction }
+    ): Promise<IPolicy> {
+        const correlationId = uuidv4();
+        this.logger.info('Starting policy cancellation process', {
+            correlationId,
+            policyId,
+            reason: request.reason
+        });
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        await this.validatePolicyTransition(policy.status, PolicyStatus.CANCELLED, policy);
+
+        if (request.effectiveDate < policy.effectiveDate || request.effectiveDate > policy.expirationDate) {
+            throw new Error('Cancellation date must fall within the policy term');
+        }
+
+        const requestDate = new Date();
+        const noticeDays = CANCELLATION_NOTICE_DAYS[request.reason];
+        // A notice already issued for overdue subjectivities counts toward the notice period
+        const subjectivityNotice = policy.underwritingInfo?.cancellationNotice;
+        const noticeFrom = request.reason === CancellationReason.UNDERWRITING && subjectivityNotice && !subjectivityNotice.rescindedAt
+            ? new Date(subjectivityNotice.noticeDate)
+            : requestDate;
+        if (noticeDays > 0 && differenceInDays(request.effectiveDate, noticeFrom) < noticeDays) {
+            throw new Error(`Cancellation for ${request.reason} requires at least ${noticeDays} days notice`);
+        }
+
+        const method = this.resolveCancellationMethod(policy, request.effectiveDate, request.reason, request.method);
+        const returnPremium = this.calculateReturnPremium(policy, request.effectiveDate, method);
+
+        const transaction = options?.transaction || await this.policyRepository.getSequelize().transaction();
+        let cancelledPolicy: IPolicy;
+
+        try {
+            const cancellationInfo: ICancellationInfo = {
+                ...returnPremium,
+                cancellationId: uuidv4(),
+                effectiveDate: request.effectiveDate,
+                reason: request.reason,
+                requestedBy: request.requestedBy,
+                requestDate,
+                refundStatus: returnPremium.returnPremium > 0 ? 'PENDING' : 'NOT_APPLICABLE',
+                ...(request.notes ? { notes: request.notes } : {})
+            };
+
+            cancelledPolicy = await this.policyRepository.update(
+                policyId,
+                { status: PolicyStatus.CANCELLED, cancellationInfo },
+                transaction
+            );
+
+            // Sync cancellation with OneShield
+            await this.circuitBreaker.fire(
+                async () => await this.policyClient.submitTransaction(
+                    policy.oneShieldPolicyId!,
+                    {
+                        transactionType: OneShieldTransactionType.CANCELLATION,
+                        effectiveDate: request.effectiveDate.toISOString(),
+                        policy: this.mapToOneShieldPolicy(policy),
+                        premiumChange: -returnPremium.returnPremium,
+                        reason: request.reason
+                    }
+                )
+            );
+
+            await this.policyVersionRepository.record(
+                cancelledPolicy,
+                {
+                    transactionType: PolicyTransactionType.CANCELLATION,
+                    effectiveFrom: request.effectiveDate,
+                    createdBy: request.requestedBy
+                },
+                transaction
+            );
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            this.logger.error('Failed to cancel policy', {
+                correlationId,
+                error,
+                policyId
+            });
+            throw error;
+        }
+
+        // The refund is only posted once the cancellation is committed
+        cancelledPolicy = await this.postCancellationRefund(cancelledPolicy, correlationId);
+
+        await this.eventProducer.publishPolicyStatusChanged(cancelledPolicy, policy.status);
+
+        this.logger.info('Policy cancelled successfully', {
+            correlationId,
+            policyId,
+            method,
+            returnPremium: returnPremium.returnPremium,
+            refundStatus: cancelledPolicy.cancellationInfo?.refundStatus
+        });
+
+        return cancelledPolicy;
+    }
+
+    /**
+     * Posts the return premium refund for a committed cancellation. Billing calls are
+     * retried with the cancellation ID as idempotency key so a retry never posts the
+     * refund twice; the cancellation stands even if billing fails.
+     * @private
+     * @param policy Cancelled policy with a pending refund
+     * @param correlationId Correlation ID of the cancellation
+     * @returns Policy with the refund outcome recorded
+     */
+    private async postCancellationRefund(policy: IPolicy, correlationId: string): Promise<IPolicy> {
+        const cancellationInfo = policy.cancellationInfo;
+        if (!cancellationInfo || cancellationInfo.refundStatus !== 'PENDING') {
+            return policy;
+        }
+
+        const refund: Pick<ICancellationInfo, 'refundStatus' | 'refundTransactionId'> = { refundStatus: 'FAILED' };
+        try {
+            refund.refundTransactionId = await retry(
+                async () => await this.billingClient.processRefund({
+                    policyId: policy.oneShieldPolicyId!,
+                    amount: cancellationInfo.returnPremium,
+                    effectiveDate: new Date(cancellationInfo.effectiveDate).toISOString(),
+                    reason: cancellationInfo.reason,
+                    transactionType: OneShieldTransactionType.CANCELLATION,
+                    idempotencyKey: cancellationInfo.cancellationId
+                }),
+                {
+                    retries: this.maxRetries,
+                    delay: this.retryDelay,
+                    onRetry: (error: Error) => {
+                        this.logger.warn('Retrying cancellation refund', {
+                            correlationId,
+                            error: error.message,
+                            policyId: policy.id
+                        });
+                    }
+                }
+            );
+            refund.refundStatus = 'POSTED';
+        } catch (error) {
+            this.logger.error('Failed to post cancellation refund', {
+                correlationId,
+                error,
+                policyId: policy.id,
+                returnPremium: cancellationInfo.returnPremium
+            });
+        }
+
+        return this.policyRepository.update(
+            policy.id,
+            { cancellationInfo: { ...cancellationInfo, ...refund } }
+        );
+    }
+
+    /**
+     * Reinstates a policy cancelled for non-payment within the grace window.
+     * Without lapse, coverage is restored back to the cancellation date and the
+     * full return premium is re-charged; with lapse, the gap is left uncovered
+     * and its pro-rata premium is excluded from the charge.
+     * @param policyId Policy ID to reinstate
+     * @param request Reinstatement variant, date (with lapse only) and requesting user
+     * @param options Transaction options
+     * @returns Reinstated policy with reinstatement details
+     */
+    public async reinstatePolicy(
+        policyId: string,
+        request: {
+            type: ReinstatementType;
+            reinstatedBy: string;
+            reinstatementDate?: Date;
+            notes?: string;
+        },
+        options?: { transaction?: Transaction }
+    ): Promise<IPolicy> {
+        const correlationId = uuidv4();
+        this.logger.info('Starting policy reinstatement process', {
+            correlationId,
+            policyId,
+            type: request.type
+        });
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        // Reinstatement is the only way back from cancellation, so it is not a general transition
+        if (policy.status !== PolicyStatus.CANCELLED) {
+            throw new Error(`Invalid policy status transition from ${policy.status} to ${PolicyStatus.ACTIVE}`);
+        }
+        this.validateReinstatementEligibility(policy);
+        this.validateActivationRequirements(policy);
+
+        const cancellation = policy.cancellationInfo!;
+        const cancellationDate = new Date(cancellation.effectiveDate);
+        const requestDate = new Date();
+
+        const reinstatementDate = request.type === ReinstatementType.WITHOUT_LAPSE
+            ? cancellationDate
+            : request.reinstatementDate || requestDate;
+        if (reinstatementDate < cancellationDate || reinstatementDate >= policy.expirationDate) {
+            throw new Error('Reinstatement date must fall between the cancellation date and policy expiration');
+        }
+        if (reinstatementDate > addDays(cancellationDate, REINSTATEMENT_GRACE_DAYS)) {
+            throw new Error(`Reinstatement date must fall within the ${REINSTATEMENT_GRACE_DAYS} day grace window after cancellation`);
+        }
+
+        // Premium for the uncovered gap is not earned and is excluded from the re-charge
+        const lapseDays = differenceInDays(reinstatementDate, cancellationDate);
+        const lapsePremium = Number((policy.premium * lapseDays / cancellation.termDays).toFixed(2));
+        const premiumChange = Number(Math.max(0, cancellation.returnPremium - lapsePremium).toFixed(2));
+
+        const reinstatementInfo: IReinstatementInfo = {
+            type: request.type,
+            reinstatementDate,
+            cancellationDate,
+            lapseDays,
+            lapsePremium,
+            premiumChange,
+            earnedPremium: Number((cancellation.earnedPremium + premiumChange).toFixed(2)),
+            reinstatedBy: request.reinstatedBy,
+            requestDate,
+            ...(request.notes ? { notes: request.notes } : {})
+        };
+
+        const transaction = options?.transaction || await this.policyRepository.getSequelize().transaction();
+
+        try {
+            const reinstatedPolicy = await this.policyRepository.update(
+                policyId,
+                {
+                    status: PolicyStatus.ACTIVE,
+                    reinstatementInfo,
+                    auditLog: [
+                        ...(policy.auditLog || []),
+                        {
+                            action: 'REINSTATEMENT',
+                            timestamp: requestDate,
+                            userId: request.reinstatedBy,
+                            details: {
+                                previousStatus: policy.status,
+                                cancellationReason: cancellation.reason,
+                                ...reinstatementInfo
+                            }
+                        }
+                    ]
+                },
+                transaction
+            );
+
+            await this.policyVersionRepository.record(
+                reinstatedPolicy,
+                {
+                    transactionType: PolicyTransactionType.REINSTATEMENT,
+                    effectiveFrom: reinstatementDate,
+                    createdBy: request.reinstatedBy
+                },
+                transaction
+            );
+
+            // Sync reinstatement with OneShield
+            await this.circuitBreaker.fire(
+                async () => await this.policyClient.submitTransaction(
+                    policy.oneShieldPolicyId!,
+                    {
+                        transactionType: OneShieldTransactionType.REINSTATEMENT,
+                        effectiveDate: reinstatementDate.toISOString(),
+                        policy: this.mapToOneShieldPolicy(reinstatedPolicy),
+                        premiumChange,
+                        reason: request.type
+                    }
+                )
+            );
+
+            await transaction.commit();
+
+            await this.eventProducer.publishPolicyStatusChanged(reinstatedPolicy, policy.status);
+            await this.eventProducer.publishPolicyReinstated(reinstatedPolicy);
+
+            this.logger.info('Policy reinstated successfully', {
+                correlationId,
+                policyId,
+                type: request.type,
+                lapseDays,
+                premiumChange
+            });
+
+            return reinstatedPolicy;
+
+        } catch (error) {
+            await transaction.rollback();
+            this.logger.error('Failed to reinstate policy', {
+                correlationId,
+                error,
+                policyId
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Resolves an open subjectivity: satisfied by a document on the policy, or waived
+     * by the underwriter. A pending cancellation notice for overdue subjectivities is
+     * rescinded once none remain overdue.
+     * @param policyId Policy ID
+     * @param subjectivityId Subjectivity to resolve
+     * @param resolution Outcome, the satisfying document and the resolving user
+     * @returns Updated policy
+     */
+    public async resolveSubjectivity(
+        policyId: string,
+        subjectivityId: string,
+        resolution: {
+            status: SubjectivityStatus.SATISFIED | SubjectivityStatus.WAIVED;
+            resolvedBy: string;
+            documentId?: string;
+            notes?: string;
+        }
+    ): Promise<IPolicy> {
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        const subjectivities = policy.underwritingInfo?.subjectivities || [];
+        const subjectivity = subjectivities.find(candidate => candidate.id === subjectivityId);
+        if (!subjectivity) {
+            throw new Error('Subjectivity not found');
+        }
+        if (subjectivity.status !== SubjectivityStatus.OPEN) {
+            throw new Error(`Subjectivity is already ${subjectivity.status.toLowerCase()}`);
+        }
+
+        if (resolution.status === SubjectivityStatus.SATISFIED && (subjectivity.documentType || resolution.documentId)) {
+            const document = (policy.documents || []).find(candidate => candidate.id === resolution.documentId);
+            if (!document) {
+                throw new Error('A document on the policy is required to satisfy this subjectivity');
+            }
+            if (subjectivity.documentType && document.type !== subjectivity.documentType) {
+                throw new Error(`Subjectivity requires a ${subjectivity.documentType} document`);
+            }
+        }
+
+        const resolvedAt = new Date();
+        const updatedSubjectivities = subjectivities.map(candidate => candidate.id === subjectivityId ? {
+            ...candidate,
+            status: resolution.status,
+            resolvedBy: resolution.resolvedBy,
+            resolvedAt,
+            ...(resolution.documentId ? { documentId: resolution.documentId } : {}),
+            ...(resolution.notes ? { notes: resolution.notes } : {})
+        } : candidate);
+
+        const notice = policy.underwritingInfo.cancellationNotice;
+        const rescind = !!notice && !notice.rescindedAt &&
+            overdueSubjectivities(updatedSubjectivities, resolvedAt, SUBJECTIVITY_CANCELLATION_GRACE_DAYS).length === 0;
+
+        const updatedPolicy = await this.policyRepository.update(policyId, {
+            underwritingInfo: {
+                ...policy.underwritingInfo,
+                subjectivities: updatedSubjectivities,
+                ...(rescind && notice ? { cancellationNotice: { ...notice, rescindedAt: resolvedAt } } : {})
+            },
+            auditLog: [
+                ...(policy.auditLog || []),
+                {
+                    action: `SUBJECTIVITY_${resolution.status}`,
+                    timestamp: resolvedAt,
+                    userId: resolution.resolvedBy,
+                    details: {
+                        subjectivityId,
+                        description: subjectivity.description,
+                        ...(resolution.documentId ? { documentId: resolution.documentId } : {}),
+                        ...(rescind ? { cancellationNoticeRescinded: true } : {})
+                    }
+                }
+            ]
+        });
+
+        this.logger.info('Subjectivity resolved', {
+            policyId,
+            subjectivityId,
+            status: resolution.status,
+            cancellationNoticeRescinded: rescind
+        });
+
+        return updatedPolicy;
+    }
+
+    /**
+     * Finds in-force policies with overdue post-bind subjectivities. Each overdue
+     * subjectivity is alerted once; policies overdue past the cancellation grace
+     * period without a pending notice are reported as eligible for a cancellation notice.
+     * @param asOf Time of the check
+     * @returns Policies alerted, policies eligible for a cancellation notice and the policies that failed
+     */
+    public async checkOverdueSubjectivities(
+        asOf: Date = new Date()
+    ): Promise<{
+        checked: number;
+        alerted: Array<{ policyId: string; subjectivityIds: string[] }>;
+        cancellationEligible: string[];
+        failed: Array<{ policyId: string; error: string }>;
+    }> {
+        const policies = await this.policyRepository.findWithOpenSubjectivities([...IN_FORCE_POLICY_STATUSES]);
+        const alerted: Array<{ policyId: string; subjectivityIds: string[] }> = [];
+        const cancellationEligible: string[] = [];
+        const failed: Array<{ policyId: string; error: string }> = [];
+
+        for (const policy of policies) {
+            try {
+                const subjectivities = policy.underwritingInfo?.subjectivities || [];
+                const unalerted = overdueSubjectivities(subjectivities, asOf)
+                    .filter(subjectivity => !subjectivity.overdueAlertedAt);
+
+                if (unalerted.length > 0) {
+                    const alertedIds = unalerted.map(subjectivity => subjectivity.id);
+                    const updatedPolicy = await this.policyRepository.update(policy.id, {
+                        underwritingInfo: {
+                            ...policy.underwritingInfo,
+                            subjectivities: subjectivities.map(subjectivity => alertedIds.includes(subjectivity.id)
+                                ? { ...subjectivity, overdueAlertedAt: asOf }
+                                : subjectivity)
+                        }
+                    });
+                    await this.eventProducer.publishSubjectivitiesOverdue(updatedPolicy, unalerted);
+                    alerted.push({ policyId: policy.id, subjectivityIds: alertedIds });
+                }
+
+                const notice = policy.underwritingInfo?.cancellationNotice;
+                if ((!notice || notice.rescindedAt) &&
+                    overdueSubjectivities(subjectivities, asOf, SUBJECTIVITY_CANCELLATION_GRACE_DAYS).length > 0) {
+                    cancellationEligible.push(policy.id);
+                }
+            } catch (error) {
+                failed.push({ policyId: policy.id, error: (error as Error).message });
+            }
+        }
+
+        this.logger.info('Overdue subjectivity check completed', {
+            asOf,
+            checked: policies.length,
+            alerted: alerted.length,
+            cancellationEligible: cancellationEligible.length,
+            failed: failed.length
+        });
+
+        return { checked: policies.length, alerted, cancellationEligible, failed };
+    }
+
+    /**
+     * Issues a notice of underwriting cancellation for post-bind subjectivities
+     * overdue past the grace period. The notice starts the underwriting notice
+     * period, so the policy can be cancelled on its effective date.
+     * @param policyId Policy ID
+     * @param issuedBy Underwriter issuing the notice
+     * @returns Updated policy carrying the cancellation notice
+     */
+    public async issueSubjectivityCancellationNotice(
+        policyId: string,
+        issuedBy: string
+    ): Promise<IPolicy> {
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        if (!IN_FORCE_POLICY_STATUSES.includes(policy.status)) {
+            throw new Error(`Cancellation notices can only be issued on in-force policies (current status: ${policy.status})`);
+        }
+
+        const pending = policy.underwritingInfo?.cancellationNotice;
+        if (pending && !pending.rescindedAt) {
+            throw new Error('A cancellation notice is already pending for this policy');
+        }
+
+        const noticeDate = new Date();
+        const overdue = overdueSubjectivities(
+            policy.underwritingInfo?.subjectivities,
+            noticeDate,
+            SUBJECTIVITY_CANCELLATION_GRACE_DAYS
+        );
+        if (overdue.length === 0) {
+            throw new Error(`No post-bind subjectivity is more than ${SUBJECTIVITY_CANCELLATION_GRACE_DAYS} days overdue`);
+        }
+
+        const effectiveDate = addDays(noticeDate, CANCELLATION_NOTICE_DAYS[CancellationReason.UNDERWRITING]);
+        if (effectiveDate > new Date(policy.expirationDate)) {
+            throw new Error('Policy expires before the cancellation notice period ends');
+        }
+
+        const cancellationNotice = {
+            noticeDate,
+            effectiveDate,
+            issuedBy,
+            subjectivityIds: overdue.map(subjectivity => subjectivity.id)
+        };
+
+        const updatedPolicy = await this.policyRepository.update(policyId, {
+            underwritingInfo: {
+                ...policy.underwritingInfo,
+                cancellationNotice
+            },
+            auditLog: [
+                ...(policy.auditLog || []),
+                {
+                    action: 'CANCELLATION_NOTICE',
+                    timestamp: noticeDate,
+                    userId: issuedBy,
+                    details: {
+                        reason: CancellationReason.UNDERWRITING,
+                        effectiveDate,
+                        subjectivityIds: cancellationNotice.subjectivityIds
+                    }
+                }
+            ]
+        });
+
+        await this.eventProducer.publishCancellationNoticeIssued(updatedPolicy);
+
+        this.logger.info('Subjectivity cancellation notice issued', {
+            policyId,
+            effectiveDate,
+            overdue: overdue.length
+        });
+
+        return updatedPolicy;
+    }
+
+    /**
+     * Prorates an annualized premium delta from the endorsement effective date to policy expiration
+     * @param policy Endorsed policy
+     * @param effectiveDate Endorsement effective date
+     * @param annualPremiumChange Full-term (annualized) premium delta
+     * @returns Prorated endorsement rating
+     */
+    public rateEndorsement(
+        policy: IPolicy,
+        effectiveDate: Date,
+        annualPremiumChange: number
+    ): IEndorsementRating {
+        const termDays = Math.max(1, differenceInDays(policy.expirationDate, policy.effectiveDate));
+        const proratedDays = Math.min(
+            termDays,
+            Math.max(0, differenceInDays(policy.expirationDate, effectiveDate))
+        );
+
+        return {
+            annualPremiumChange,
+            termDays,
+            proratedDays,
+            premiumChange: Number((annualPremiumChange * proratedDays / termDays).toFixed(2))
+        };
+    }
+
+    /**
+     * Previews the prorated premium for a prospective endorsement without changing the policy
+     * @param policyId Policy ID
+     * @param effectiveDate Endorsement effective date
+     * @param annualPremiumChange Full-term (annualized) premium delta
+     * @returns Prorated endorsement rating
+     */
+    public async quoteEndorsement(
+        policyId: string,
+        effectiveDate: Date,
+        annualPremiumChange: number
+    ): Promise<IEndorsementRating> {
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        this.validateEndorsementDate(policy, effectiveDate);
+
+        return this.rateEndorsement(policy, effectiveDate, annualPremiumChange);
+    }
+
+    /**
+     * Creates a rated endorsement and applies its changes to the policy.
+     * A back-dated endorsement that precedes in-force endorsements is handled
+     * out of sequence: later endorsements are rolled back, the new endorsement
+     * is applied, and the later endorsements are re-applied on top of it.
+     * Only what each later endorsement changed is re-applied, so the new
+     * endorsement's changes to the same coverages or fields are kept.
+     * @param policyId Policy ID to endorse
+     * @param request Endorsement type, effective date, field changes and annualized premium delta
+     * @param options Transaction options
+     * @returns Created endorsement, updated policy and the endorsements re-applied after it
+     */
+    public async createEndorsement(
+        policyId: string,
+        request: {
+            type: string;
+            effectiveDate: Date;
+            changes: Record<string, unknown>;
+            annualPremiumChange: number;
+            description?: string;
+            requestedBy: string;
+        },
+        options?: { transaction?: Transaction }
+    ): Promise<{ endorsement: IEndorsement; policy: IPolicy; reapplied: IEndorsement[] }> {
+        const correlationId = uuidv4();
+        this.logger.info('Starting policy endorsement process', {
+            correlationId,
+            policyId,
+            type: request.type
+        });
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        if (![PolicyStatus.BOUND, PolicyStatus.ACTIVE].includes(policy.status)) {
+            throw new Error(`Cannot endorse policy in ${policy.status} status`);
+        }
+
+        this.validateEndorsementDate(policy, request.effectiveDate);
+
+        const invalidFields = Object.keys(request.changes)
+            .filter(field => !(ENDORSABLE_POLICY_FIELDS as readonly string[]).includes(field));
+        if (invalidFields.length > 0) {
+            throw new Error(`Fields cannot be endorsed: ${invalidFields.join(', ')}`);
+        }
+
+        const transaction = options?.transaction || await this.policyRepository.getSequelize().transaction();
+
+        try {
+            const inForce = await this.endorsementRepository.findInForceByPolicyId(policyId, transaction);
+            const later = inForce.filter(e => new Date(e.effectiveDate) > request.effectiveDate);
+
+            // Roll back later endorsements, newest first, to the state in force on the effective date
+            let state = this.pickEndorsableFields(policy);
+            for (const endorsement of [...later].reverse()) {
+                state = { ...state, ...(endorsement.previousValues || {}) };
+            }
+
+            const applied = this.applyEndorsementChanges(state, request.changes);
+            const rating = this.rateEndorsement(policy, request.effectiveDate, request.annualPremiumChange);
+            state = applied.state;
+
+            // Track the state in force from each endorsement so a version can be recorded for it
+            let premium = policy.premium + rating.premiumChange
+                - later.reduce((total, e) => total + (e.premiumChange || 0), 0);
+            const steps: Array<{ state: Record<string, unknown>; premium: number; effectiveFrom: Date; sourceId: string }> = [];
+
+            const endorsement = await this.endorsementRepository.create(
+                {
+                    policyId,
+                    type: request.type,
+                    effectiveDate: request.effectiveDate,
+                    description: request.description || request.type,
+                    changes: request.changes,
+                    premiumChange: rating.premiumChange,
+                    rating,
+                    previousValues: applied.previousValues
+                } as IEndorsement,
+                transaction
+            );
+            steps.push({ state, premium, effectiveFrom: request.effectiveDate, sourceId: endorsement.id });
+
+            // Re-apply later endorsements on top of the new one, re-rating each
+            let premiumDelta = rating.premiumChange;
+            const reapplied: IEndorsement[] = [];
+            for (const laterEndorsement of later) {
+                const rebasedChanges = this.rebaseEndorsementChanges(state, laterEndorsement);
+                const reapply = this.applyEndorsementChanges(state, rebasedChanges);
+                const rerating = this.rateEndorsement(
+                    policy,
+                    new Date(laterEndorsement.effectiveDate),
+                    laterEndorsement.rating?.annualPremiumChange ?? laterEndorsement.premiumChange ?? 0
+                );
+                state = reapply.state;
+                premium += rerating.premiumChange;
+                premiumDelta += rerating.premiumChange - (laterEndorsement.premiumChange || 0);
+                steps.push({
+                    state,
+                    premium,
+                    effectiveFrom: new Date(laterEndorsement.effectiveDate),
+                    sourceId: laterEndorsement.id
+                });
+
+                reapplied.push(await this.endorsementRepository.update(
+                    laterEndorsement.id,
+                    {
+                        changes: rebasedChanges,
+                        premiumChange: rerating.premiumChange,
+                        rating: rerating,
+                        previousValues: reapply.previousValues
+                    },
+                    transaction
+                ));
+            }
+
+            premiumDelta = Number(premiumDelta.toFixed(2));
+
+            const endorsedPolicy = await this.policyRepository.update(
+                policyId,
+                {
+                    ...(state as Partial<IPolicy>),
+                    premium: Number((policy.premium + premiumDelta).toFixed(2)),
+                    auditLog: [
+                        ...(policy.auditLog || []),
+                        {
+                            action: 'ENDORSEMENT',
+                            timestamp: new Date(),
+                            userId: request.requestedBy,
+                            details: {
+                                endorsementId: endorsement.id,
+                                effectiveDate: request.effectiveDate,
+                                premiumChange: premiumDelta,
+                                outOfSequence: later.length > 0,
+                                reappliedEndorsementIds: later.map(e => e.id)
+                            }
+                        }
+                    ]
+                },
+                transaction
+            );
+
+            // Record a version for the new endorsement and re-issue versions for re-applied ones
+            for (const step of steps) {
+                await this.policyVersionRepository.record(
+                    {
+                        ...endorsedPolicy,
+                        ...(step.state as Partial<IPolicy>),
+                        premium: Number(step.premium.toFixed(2))
+                    },
+                    {
+                        transactionType: PolicyTransactionType.ENDORSEMENT,
+                        effectiveFrom: step.effectiveFrom,
+                        sourceId: step.sourceId,
+                        createdBy: request.requestedBy
+                    },
+                    transaction
+                );
+            }
+
+            // Sync endorsement with OneShield
+            await this.circuitBreaker.fire(
+                async () => await this.policyClient.submitTransaction(
+                    policy.oneShieldPolicyId!,
+                    {
+                        transactionType: OneShieldTransactionType.ENDORSEMENT,
+                        effectiveDate: request.effectiveDate.toISOString(),
+                        policy: this.mapToOneShieldPolicy(endorsedPolicy),
+                        premiumChange: premiumDelta,
+                        reason: request.type
+                    }
+                )
+            );
+
+            await transaction.commit();
+
+            await this.eventProducer.publishPolicyUpdated(endorsedPolicy);
+
+            this.logger.info('Policy endorsed successfully', {
+                correlationId,
+                policyId,
+                endorsementId: endorsement.id,
+                premiumChange: premiumDelta,
+                reappliedCount: reapplied.length
+            });
+
+            return { endorsement, policy: endorsedPolicy, reapplied };
+
+        } catch (error) {
+            await transaction.rollback();
+            this.logger.error('Failed to endorse policy', {
+                correlationId,
+                error,
+                policyId
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Validates policy state transitions according to business rules
+     * @param currentState Current policy status
+     * @param newState New policy status
+     * @param policy Policy data for validation
+     * @returns Validation result
+     */
+    public async validatePolicyTransition(
+        currentState: PolicyStatus,
+        newState: PolicyStatus,
+        policy: IPolicy
+    ): Promise<boolean> {
+        // Define valid state transitions
+        const validTransitions: Record<PolicyStatus, PolicyStatus[]> = {
+            [PolicyStatus.DRAFT]: [PolicyStatus.QUOTED],
+            [PolicyStatus.QUOTED]: [PolicyStatus.BOUND, PolicyStatus.CANCELLED],
+            [PolicyStatus.BOUND]: [PolicyStatus.ACTIVE, PolicyStatus.CANCELLED],
+            [PolicyStatus.ACTIVE]: [PolicyStatus.CANCELLED, PolicyStatus.EXPIRED],
+            [PolicyStatus.CANCELLED]: [],
+            [PolicyStatus.EXPIRED]: [],
+            [PolicyStatus.PENDING_RENEWAL]: [PolicyStatus.QUOTED, PolicyStatus.CANCELLED]
+        };
+
+        // Check if transition is valid
+        if (!validTransitions[currentState].includes(newState)) {
+            throw new Error(`Invalid policy status transition from ${currentState} to ${newState}`);
+        }
+
+        // Additional validation rules
+        switch (newState) {
+            case PolicyStatus.BOUND: {
+                if (!policy.underwritingInfo.riskScore) {
+                    throw new Error('Risk assessment required before binding');
+                }
+                const openPreBind = openPreBindSubjectivities(policy.underwritingInfo.subjectivities);
+                if (openPreBind.length > 0) {
+                    throw new Error(
+                        `Pre-bind subjectivities must be satisfied or waived before binding: ${openPreBind.map(subjectivity => subjectivity.description).join('; ')}`
+                    );
+                }
+                break;
+            }
+
+            case PolicyStatus.ACTIVE:
+                this.validateActivationRequirements(policy);
+                break;
+
+            case PolicyStatus.CANCELLED:
+                if (!policy.underwritingInfo.approvedBy) {
+                    throw new Error('Underwriter approval required for cancellation');
+                }
+                break;
+        }
+
+        return true;
+    }
+
+    /**
+     * Validates that a policy is synchronized with OneShield and carries its policy
+     * document before it becomes active
+     * @private
+     */
+    private validateActivationRequirements(policy: IPolicy): void {
+        if (!policy.oneShieldPolicyId) {
+            throw new Error('OneShield synchronization required for activation');
+        }
+        if (!policy.documents.some(doc => doc.type === 'POLICY_DOCUMENT')) {
+            throw new Error('Policy document required for activation');
+        }
+    }
+
+    /**
+     * Validates that a cancelled policy may be reinstated: only eligible cancellation
+     * reasons, and only within the grace window after the cancellation date
+     * @private
+     */
+    private validateReinstatementEligibility(policy: IPolicy): void {
+        const cancellation = policy.cancellationInfo;
+        if (!cancellation || !REINSTATABLE_CANCELLATION_REASONS.includes(cancellation.reason)) {
+            throw new Error('Only policies cancelled for non-payment can be reinstated');
+        }
+
+        const daysSinceCancellation = differenceInDays(new Date(), new Date(cancellation.effectiveDate));
+        if (daysSinceCancellation > REINSTATEMENT_GRACE_DAYS) {
+            throw new Error(`Reinstatement grace window of ${REINSTATEMENT_GRACE_DAYS} days has expired`);
+        }
+    }
+
+    /**
+     * Validates that an endorsement takes effect within the policy term
+     * @private
+     */
+    private validateEndorsementDate(policy: IPolicy, effectiveDate: Date): void {
+        if (effectiveDate < policy.effectiveDate || effectiveDate >= policy.expirationDate) {
+            throw new Error('Endorsement effective date must fall within the policy term');
+        }
+    }
+
+    /**
+     * Extracts the endorsable fields of a policy as a standalone state snapshot
+     * @private
+     */
+    private pickEndorsableFields(policy: IPolicy): Record<string, unknown> {
+        const policyFields = policy as unknown as Record<string, unknown>;
+        return ENDORSABLE_POLICY_FIELDS.reduce((state, field) => ({
+            ...state,
+            [field]: policyFields[field]
+        }), {} as Record<string, unknown>);
+    }
+
+    /**
+     * Applies endorsement changes to a state snapshot, capturing the replaced values for rollback
+     * @private
+     */
+    private applyEndorsementChanges(
+        state: Record<string, unknown>,
+        changes: Record<string, unknown>
+    ): { state: Record<string, unknown>; previousValues: Record<string, unknown> } {
+        const previousValues = Object.keys(changes).reduce((values, field) => ({
+            ...values,
+            [field]: state[field]
+        }), {} as Record<string, unknown>);
+
+        return {
+            state: { ...state, ...changes },
+            previousValues
+        };
+    }
+
+    /**
+     * Rebases an endorsement's changes onto a state it was not originally applied to,
+     * carrying over only what it changed from its previous values. Coverages are
+     * matched by id and object fields key by key, so changes made underneath it by
+     * a back-dated endorsement are kept.
+     * @private
+     */
+    private rebaseEndorsementChanges(
+        state: Record<string, unknown>,
+        endorsement: IEndorsement
+    ): Record<string, unknown> {
+        const previousValues = endorsement.previousValues || {};
+
+        return Object.entries(endorsement.changes || {}).reduce((changes, [field, value]) => {
+            const previous = previousValues[field];
+            const current = state[field];
+
+            if (field === 'coverages' && Array.isArray(value)) {
+                return {
+                    ...changes,
+                    [field]: this.rebaseCoverageChanges(
+                        (current || []) as ICoverage[],
+                        (previous || []) as ICoverage[],
+                        value as ICoverage[]
+                    )
+                };
+            }
+            if (this.isPlainObject(value) && this.isPlainObject(current)) {
+                return {
+                    ...changes,
+                    [field]: { ...current, ...this.changedKeys(previous, value) }
+                };
+            }
+            return { ...changes, [field]: value };
+        }, {} as Record<string, unknown>);
+    }
+
+    /**
+     * Re-applies an endorsement's coverage changes, by coverage id, onto the current coverages
+     * @private
+     * @param current Coverages in force before the endorsement is re-applied
+     * @param previous Coverages the endorsement replaced when originally applied
+     * @param changed Coverages the endorsement set when originally applied
+     * @returns Current coverages with the endorsement's additions, removals and field changes
+     */
+    private rebaseCoverageChanges(current: ICoverage[], previous: ICoverage[], changed: ICoverage[]): ICoverage[] {
+        const previousById = new Map(previous.map(coverage => [coverage.id, coverage]));
+        const changedById = new Map(changed.map(coverage => [coverage.id, coverage]));
+        const currentIds = new Set(current.map(coverage => coverage.id));
+
+        const kept = current
+            .filter(coverage => !previousById.has(coverage.id) || changedById.has(coverage.id))
+            .map(coverage => {
+                const after = changedById.get(coverage.id);
+                if (!after) {
+                    return coverage;
+                }
+                const before = previousById.get(coverage.id);
+                return before
+                    ? { ...coverage, ...this.changedKeys(before, after) } as ICoverage
+                    : after;
+            });
+        const added = changed.filter(coverage => !previousById.has(coverage.id) && !currentIds.has(coverage.id));
+
+        return [...kept, ...added];
+    }
+
+    /**
+     * Picks the keys of an object whose values differ from an earlier version of it
+     * @private
+     */
+    private changedKeys(before: unknown, after: object): Record<string, unknown> {
+        const previous = (this.isPlainObject(before) ? before : {}) as Record<string, unknown>;
+        return Object.entries(after).reduce((changed, [key, value]) => (
+            JSON.stringify(value) === JSON.stringify(previous[key])
+                ? changed
+                : { ...changed, [key]: value }
+        ), {} as Record<string, unknown>);
+    }
+
+    /**
+     * Whether a value is a plain object rather than an array, date or primitive
+     * @private
+     */
+    private isPlainObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+    }
+
+    /**
+     * Resolves the return premium method for a cancellation; cancelling at inception is always flat
+     * @private
+     */
+    private resolveCancellationMethod(
+        policy: IPolicy,
+        effectiveDate: Date,
+        reason: CancellationReason,
+        override?: CancellationMethod
+    ): CancellationMethod {
+        if (effectiveDate <= policy.effectiveDate) {
+            return CancellationMethod.FLAT;
+        }
+        return override || CANCELLATION_METHOD_BY_REASON[reason];
+    }
+
+    /**
+     * Calculates the renewal rate change from trend and expiring term loss experience
+     * @private
+     * @param policy Expiring policy
+     * @returns Rate change, loss ratio and whether the renewal requires referral
+     */
+    private calculateRenewalRateChange(policy: IPolicy): {
+        rateChange: number;
+        lossRatio: number;
+        requiresReferral: boolean;
+    } {
+        const lossRatio = this.calculateLossRatio(policy);
+        const band = RENEWAL_EXPERIENCE_BANDS.find(b => lossRatio <= b.maxLossRatio)
+            || RENEWAL_WORST_EXPERIENCE_BAND;
+
+        const rateChange = Math.max(
+            -MAX_RENEWAL_RATE_CHANGE,
+            Math.min(MAX_RENEWAL_RATE_CHANGE, RENEWAL_RATE_TREND + band.adjustment)
+        );
+
+        return {
+            rateChange,
+            lossRatio,
+            requiresReferral: lossRatio > RENEWAL_REFERRAL_LOSS_RATIO
+        };
+    }
+
+    /**
+     * Calculates incurred loss ratio for a policy term
+     * @private
+     * @param policy Policy to evaluate
+     * @returns Incurred losses divided by premium
+     */
+    private calculateLossRatio(policy: IPolicy): number {
+        if (!policy.premium) {
+            return 0;
+        }
+        const incurred = (policy.claimHistory || []).reduce((total, claim) => total + claim.amount, 0);
+        return incurred / policy.premium;
+    }
+
+    /**
+     * Builds the policy number for a renewal term from the original policy number
+     * @private
+     * @param policyNumber Expiring policy number
+     * @param termNumber Renewal term number
+     * @returns Renewal policy number
+     */
+    private buildRenewalPolicyNumber(policyNumber: string, termNumber: number): string {
+        const baseNumber = policyNumber.replace(/-R\d+$/, '');
+        return `${baseNumber}-R${termNumber.toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Rejects a policy that breaks the rules of its product definition
+     * @param policyData Policy to check
+     * @param stage Lifecycle stage being validated
+     */
+    private async enforceProductRules(
+        policyData: ProductRulesInput,
+        stage: ProductValidationStage
+    ): Promise<void> {
+        const result = await this.checkProductRules(policyData, stage);
+        if (!result.success) {
+            const messages = (result.errors || []).map(error => error.message);
+            throw new Error(`Policy does not meet ${policyData.type} product requirements: ${messages.join('; ')}`);
+        }
     }
 
     /**
@@ -0,0 +1,168 @@
+/**
+ * @file Product definition rules evaluated against policies
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { IPolicy } from '../types/policy.types';
+import {
+    EligibilityAnswer,
+    EligibilityAnswerType,
+    IEligibilityQuestion,
+    IProductDefinition,
+    IProductRuleViolation,
+    ProductValidationStage
+} from '../types/product.types';
+
+/**
+ * Policy fields checked against the product definition
+ */
+export type ProductRulesPolicy = Pick<IPolicy, 'coverages'> & Partial<Pick<IPolicy, 'documents' | 'eligibilityAnswers'>>;
+
+/**
+ * Checks an answer matches the format of its eligibility question
+ */
+function isValidEligibilityAnswer(question: IEligibilityQuestion, answer: EligibilityAnswer): boolean {
+    switch (question.answerType) {
+        case EligibilityAnswerType.BOOLEAN:
+            return typeof answer === 'boolean';
+        case EligibilityAnswerType.NUMBER:
+            return typeof answer === 'number' && Number.isFinite(answer);
+        case EligibilityAnswerType.SELECT:
+            return typeof answer === 'string' && (question.options || []).includes(answer);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Checks whether an answer falls within a question's ineligible answers
+ */
+function isIneligibleAnswer(question: IEligibilityQuestion, answer: EligibilityAnswer): boolean {
+    const rule = question.ineligibleWhen;
+    if (!rule) {
+        return false;
+    }
+
+    return (rule.equals !== undefined && answer === rule.equals)
+        || (rule.in !== undefined && typeof answer === 'string' && rule.in.includes(answer))
+        || (rule.greaterThan !== undefined && typeof answer === 'number' && answer > rule.greaterThan)
+        || (rule.lessThan !== undefined && typeof answer === 'number' && answer < rule.lessThan);
+}
+
+/**
+ * Checks a policy against the product definition of its type. Every stage checks
+ * coverages, limits and deductibles; submission and bind also check eligibility
+ * answers, and bind requires every required document to be on file.
+ * @param policyData Coverages, documents and eligibility answers of the policy
+ * @param definition Product definition in effect on the policy effective date
+ * @param stage Lifecycle stage being validated
+ * @returns Every product rule the policy breaks
+ */
+export function findProductRuleViolations(
+    policyData: ProductRulesPolicy,
+    definition: IProductDefinition,
+    stage: ProductValidationStage
+): IProductRuleViolation[] {
+    const violations: IProductRuleViolation[] = [];
+    const { limits, deductible } = definition;
+
+    policyData.coverages.forEach((coverage, index) => {
+        const path = ['coverages', String(index)];
+
+        if (!definition.allowedCoverages.some(allowed => allowed.code === coverage.type)) {
+            violations.push({
+                path: [...path, 'type'],
+                message: `Coverage ${coverage.type} is not offered on ${definition.name}`,
+                code: 'COVERAGE_NOT_OFFERED'
+            });
+        }
+
+        (['perOccurrence', 'aggregate'] as const).forEach(limitType => {
+            const limit = coverage.limits[limitType];
+            const range = limits[limitType];
+            if (limit < range.min || limit > range.max) {
+                violations.push({
+                    path: [...path, 'limits', limitType],
+                    message: `${coverage.type} ${limitType} limit must be between ${range.min} and ${range.max}`,
+                    code: 'LIMIT_OUT_OF_RANGE',
+                    details: { limit, ...range }
+                });
+            }
+        });
+
+        if (coverage.limits.aggregate < coverage.limits.perOccurrence) {
+            violations.push({
+                path: [...path, 'limits', 'aggregate'],
+                message: `${coverage.type} aggregate limit must not be less than the per occurrence limit`,
+                code: 'LIMIT_OUT_OF_RANGE'
+            });
+        }
+
+        const deductibleAllowed = deductible.allowedValues
+            ? deductible.allowedValues.includes(coverage.deductible)
+            : coverage.deductible >= deductible.min && coverage.deductible <= deductible.max;
+        if (!deductibleAllowed) {
+            violations.push({
+                path: [...path, 'deductible'],
+                message: deductible.allowedValues
+                    ? `${coverage.type} deductible must be one of ${deductible.allowedValues.join(', ')}`
+                    : `${coverage.type} deductible must be between ${deductible.min} and ${deductible.max}`,
+                code: 'DEDUCTIBLE_NOT_ALLOWED',
+                details: { deductible: coverage.deductible }
+            });
+        }
+    });
+
+    definition.allowedCoverages
+        .filter(allowed => allowed.required && !policyData.coverages.some(coverage => coverage.type === allowed.code))
+        .forEach(allowed => violations.push({
+            path: ['coverages'],
+            message: `${allowed.name} (${allowed.code}) is required on ${definition.name}`,
+            code: 'REQUIRED_COVERAGE_MISSING'
+        }));
+
+    if (stage !== ProductValidationStage.QUOTE) {
+        const answers = policyData.eligibilityAnswers || {};
+
+        definition.eligibilityQuestions.forEach(question => {
+            const path = ['eligibilityAnswers', question.id];
+            const answer = answers[question.id];
+
+            if (answer === undefined || answer === '') {
+                if (question.required) {
+                    violations.push({ path, message: `Eligibility question "${question.text}" must be answered`, code: 'ELIGIBILITY_ANSWER_MISSING' });
+                }
+                return;
+            }
+
+            if (!isValidEligibilityAnswer(question, answer)) {
+                violations.push({ path, message: `Answer to "${question.text}" is not valid`, code: 'ELIGIBILITY_ANSWER_INVALID' });
+                return;
+            }
+
+            if (isIneligibleAnswer(question, answer)) {
+                violations.push({
+                    path,
+                    message: question.declineReason || `Risk is ineligible for ${definition.name}`,
+                    code: 'INELIGIBLE_RISK',
+                    details: { questionId: question.id, answer }
+                });
+            }
+        });
+    }
+
+    if (stage === ProductValidationStage.BIND) {
+        const documentTypes = new Set((policyData.documents || []).map(document => document.type));
+
+        definition.requiredDocuments
+            .filter(documentType => !documentTypes.has(documentType))
+            .forEach(documentType => violations.push({
+                path: ['documents'],
+                message: `Required document ${documentType} has not been provided`,
+                code: 'REQUIRED_DOCUMENT_MISSING'
+            }));
+    }
+
+    return violations;
+}
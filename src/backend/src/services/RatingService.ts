@@ -0,0 +1,192 @@
+/**
+ * @file Rating service implementation for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { Logger } from 'winston'; // ^3.10.0
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+
+import { RateTableRepository } from '../repositories/RateTableRepository';
+import { PolicyType } from '../constants/policyTypes';
+import {
+    IRateTable,
+    IRatingRequest,
+    IPremiumBreakdown,
+    IIncreasedLimitFactor,
+    IDeductibleCredit,
+    Rater
+} from '../types/rating.types';
+
+const round = (value: number, places: number = 2): number => Number(value.toFixed(places));
+
+/**
+ * Interpolates the increased limits factor for a limit from a rate table curve
+ * Limits between curve points are linearly interpolated; limits outside the curve are not rated
+ * @param curve Increased limits factors ordered by limit
+ * @param limit Per-occurrence limit
+ * @returns Increased limits factor
+ */
+export function interpolateIncreasedLimitFactor(curve: IIncreasedLimitFactor[], limit: number): number {
+    const lowest = curve[0]!;
+    const highest = curve[curve.length - 1]!;
+    if (limit < lowest.limit || limit > highest.limit) {
+        throw new Error(`Limit ${limit} is outside the rated range of ${lowest.limit} to ${highest.limit}`);
+    }
+
+    const upperIndex = curve.findIndex(point => point.limit >= limit);
+    const upper = curve[upperIndex]!;
+    if (upper.limit === limit || upperIndex === 0) {
+        return upper.factor;
+    }
+
+    const lower = curve[upperIndex - 1]!;
+    return lower.factor + (upper.factor - lower.factor) * (limit - lower.limit) / (upper.limit - lower.limit);
+}
+
+/**
+ * Looks up the deductible credit for a selected deductible
+ * @param credits Deductible credit steps ordered by deductible
+ * @param deductible Selected deductible
+ * @returns Credit of the highest step not exceeding the deductible
+ */
+export function findDeductibleCredit(credits: IDeductibleCredit[], deductible: number): number {
+    const step = credits.filter(credit => credit.deductible <= deductible).pop();
+    return step ? step.credit : 0;
+}
+
+/**
+ * Standard rating algorithm used for every policy type without a registered override:
+ * exposure / unit x base rate, then per coverage x coverage factor x ILF x (1 - deductible credit),
+ * then x (1 + schedule modifiers), subject to the minimum premium
+ */
+export const standardRater: Rater = (table: IRateTable, request: IRatingRequest): IPremiumBreakdown => {
+    const exposure = request.exposures[table.exposureBasis];
+    if (exposure === undefined || exposure <= 0) {
+        throw new Error(`${table.exposureBasis} exposure is required to rate ${table.policyType}`);
+    }
+
+    if (request.coverages.length === 0) {
+        throw new Error('At least one coverage is required for rating');
+    }
+
+    const basePremium = exposure / table.exposureUnit * table.baseRate;
+
+    const coverages = request.coverages.map(coverage => {
+        const coverageFactor = table.coverageFactors?.[coverage.type] ?? 1;
+        const increasedLimitFactor = round(
+            interpolateIncreasedLimitFactor(table.increasedLimitFactors, coverage.limits.perOccurrence),
+            4
+        );
+        const deductibleCredit = findDeductibleCredit(table.deductibleCredits, coverage.deductible);
+
+        return {
+            coverageId: coverage.id,
+            coverageType: coverage.type,
+            limit: coverage.limits.perOccurrence,
+            deductible: coverage.deductible,
+            coverageFactor,
+            increasedLimitFactor,
+            deductibleCredit,
+            premium: round(basePremium * coverageFactor * increasedLimitFactor * (1 - deductibleCredit))
+        };
+    });
+
+    // Schedule modifiers are signed: credits negative, debits positive
+    const scheduleModifiers = request.scheduleModifiers || {};
+    let scheduleTotal = 0;
+    for (const [category, value] of Object.entries(scheduleModifiers)) {
+        const range = table.scheduleModifiers.categories[category];
+        if (!range) {
+            throw new Error(`Schedule modifier category ${category} is not defined for ${table.policyType}`);
+        }
+        if (value < -range.maxCredit || value > range.maxDebit) {
+            throw new Error(`Schedule modifier ${category} must be between -${range.maxCredit} and ${range.maxDebit}`);
+        }
+        scheduleTotal += value;
+    }
+
+    scheduleTotal = round(scheduleTotal, 4);
+    if (scheduleTotal < -table.scheduleModifiers.maxTotalCredit || scheduleTotal > table.scheduleModifiers.maxTotalDebit) {
+        throw new Error(
+            `Total schedule modification must be between -${table.scheduleModifiers.maxTotalCredit} and ${table.scheduleModifiers.maxTotalDebit}`
+        );
+    }
+
+    const subtotal = round(coverages.reduce((total, coverage) => total + coverage.premium, 0));
+    const scheduleModifier = round(1 + scheduleTotal, 4);
+    const modifiedPremium = round(subtotal * scheduleModifier);
+    const minimumPremiumApplied = modifiedPremium < table.minimumPremium;
+
+    return {
+        policyType: table.policyType,
+        rateTableVersion: table.version,
+        rateTableEffectiveDate: table.effectiveDate,
+        exposureBasis: table.exposureBasis,
+        exposure,
+        exposureUnit: table.exposureUnit,
+        baseRate: table.baseRate,
+        basePremium: round(basePremium),
+        coverages,
+        subtotal,
+        scheduleModifiers,
+        scheduleModifier,
+        minimumPremium: table.minimumPremium,
+        minimumPremiumApplied,
+        totalPremium: minimumPremiumApplied ? table.minimumPremium : modifiedPremium,
+        ratedAt: new Date()
+    };
+};
+
+/**
+ * Service class computing policy premium from versioned rate tables.
+ * Rating algorithms are pluggable per policy type; types without a registered
+ * rater use the standard algorithm.
+ */
+export class RatingService {
+    private readonly rateTableRepository: RateTableRepository;
+    private readonly logger: Logger;
+    private readonly raters = new Map<PolicyType, Rater>();
+
+    constructor(rateTableRepository: RateTableRepository, logger: Logger) {
+        this.rateTableRepository = rateTableRepository;
+        this.logger = logger;
+    }
+
+    /**
+     * Registers a rating algorithm for a policy type, replacing the standard algorithm
+     * @param policyType Policy type
+     * @param rater Rating algorithm
+     */
+    public registerRater(policyType: PolicyType, rater: Rater): void {
+        this.raters.set(policyType, rater);
+    }
+
+    /**
+     * Rates a policy against the rate table in effect on its effective date
+     * @param request Policy type, effective date, exposures, coverages and schedule modifiers
+     * @returns Premium breakdown
+     */
+    public async rate(request: IRatingRequest): Promise<IPremiumBreakdown> {
+        const correlationId = uuidv4();
+
+        const table = await this.rateTableRepository.findEffective(request.policyType, new Date(request.effectiveDate));
+        if (!table) {
+            throw new Error(`No rate table is in effect for ${request.policyType} on ${new Date(request.effectiveDate).toISOString()}`);
+        }
+
+        const rater = this.raters.get(request.policyType) || standardRater;
+        const breakdown = rater(table, request);
+
+        this.logger.info('Policy rated successfully', {
+            correlationId,
+            policyType: request.policyType,
+            rateTableVersion: table.version,
+            totalPremium: breakdown.totalPremium
+        });
+
+        return breakdown;
+    }
+}
+
+export default RatingService;
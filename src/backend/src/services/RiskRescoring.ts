@@ -0,0 +1,104 @@
+/**
+ * @file Batch re-scoring of in-force policies
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { IPolicy, IRenewalReviewFlag } from '../types/policy.types';
+import { IRescoreResult, riskBand } from '../types/underwriting.types';
+
+/**
+ * Runs a task over items with at most `limit` tasks in flight at once
+ * @param items Items to process
+ * @param limit Maximum number of concurrent tasks
+ * @param task Task run for each item
+ * @returns Settled outcome of each task, in item order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+    const outcomes: PromiseSettledResult<R>[] = new Array(items.length);
+    // Workers share one iterator, so each item is taken by exactly one of them
+    const queue = items.entries();
+
+    const worker = async (): Promise<void> => {
+        for (const [index, item] of queue) {
+            try {
+                outcomes[index] = { status: 'fulfilled', value: await task(item) };
+            } catch (reason) {
+                outcomes[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+    return outcomes;
+}
+
+/**
+ * Compares a policy's score before a run with its new score. Policies never scored
+ * have no previous band and count as a band change.
+ * @param runId Re-scoring run
+ * @param policy In-force policy
+ * @param newScore Score under the current weights
+ * @param at Time of the re-score
+ * @returns Old and new scores, bands and assessment versions
+ */
+export function buildRescoreResult(
+    runId: string,
+    policy: Pick<IPolicy, 'id' | 'type' | 'underwritingInfo'>,
+    newScore: number,
+    at: Date = new Date()
+): IRescoreResult {
+    const previousScore = policy.underwritingInfo?.riskScore ?? null;
+    const previousBand = previousScore === null ? null : riskBand(previousScore);
+    const previousVersion = policy.underwritingInfo?.riskAssessmentVersion || 1;
+    const score = Number(newScore.toFixed(2));
+    const newBand = riskBand(score);
+
+    return {
+        runId,
+        policyId: policy.id,
+        policyType: policy.type,
+        previousScore,
+        previousBand,
+        previousVersion,
+        newScore: score,
+        newBand,
+        newVersion: previousVersion + 1,
+        bandChanged: previousBand !== newBand,
+        rescoredAt: at
+    };
+}
+
+/**
+ * Checks whether a recorded result still has to be written to its policy, as when
+ * a run crashed between recording the result and updating the policy
+ * @param result Recorded result
+ * @param policy Policy as it is now
+ * @returns Whether the policy is still on an older assessment version
+ */
+export function isResultPending(
+    result: IRescoreResult,
+    policy: Pick<IPolicy, 'underwritingInfo'>
+): boolean {
+    return (policy.underwritingInfo?.riskAssessmentVersion || 1) < result.newVersion;
+}
+
+/**
+ * Builds the renewal review flag raised when a result moved a policy's band
+ * @param result Re-scoring result with a band change
+ * @returns Flag recorded on the policy's underwriting info
+ */
+export function renewalReviewFlag(result: IRescoreResult): IRenewalReviewFlag {
+    return {
+        runId: result.runId,
+        previousBand: result.previousBand,
+        newBand: result.newBand,
+        previousScore: result.previousScore,
+        newScore: result.newScore,
+        flaggedAt: result.rescoredAt
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * @file Factor-by-factor explanation of weighted risk scores
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { RISK_FACTOR_WEIGHTS } from '../constants/underwritingRules';
+import { IRiskFactor, IRiskFactorContribution } from '../types/underwriting.types';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Lists what raised a factor's score: the drivers its assessor recorded, or the
+ * description when the assessor recorded none
+ * @param factor Risk factor
+ * @returns Driver descriptions
+ */
+export function factorDrivers(factor: IRiskFactor): string[] {
+    if (Array.isArray(factor.details?.drivers)) {
+        return factor.details.drivers;
+    }
+    return factor.details?.description ? [factor.details.description] : [];
+}
+
+/**
+ * Breaks a weighted risk score down into each factor's contribution. Contributions
+ * are ordered largest first with a running total, so that they read as a waterfall
+ * ending at the risk score.
+ * @param factors Assessed risk factors
+ * @param weights Weight of each factor type
+ * @returns Contributions, weighted factor types that were not assessed, and every missing input
+ */
+export function buildRiskBreakdown(
+    factors: IRiskFactor[],
+    weights: Record<string, number> = RISK_FACTOR_WEIGHTS
+): {
+    riskScore: number;
+    contributions: IRiskFactorContribution[];
+    missingFactors: string[];
+    missingInputs: string[];
+} {
+    const weighted = factors
+        .map(factor => {
+            const weight = weights[factor.type] || 0;
+            return { factor, weight, weightedPoints: factor.score * weight };
+        })
+        .sort((a, b) => b.weightedPoints - a.weightedPoints);
+
+    const riskScore = weighted.reduce((sum, { weightedPoints }) => sum + weightedPoints, 0);
+
+    let runningTotal = 0;
+    const contributions = weighted.map(({ factor, weight, weightedPoints }) => {
+        runningTotal += weightedPoints;
+        const missingInputs: string[] = factor.details?.missingInputs || [];
+
+        return {
+            type: factor.type,
+            score: factor.score,
+            weight,
+            weightedPoints: round(weightedPoints),
+            runningTotal: round(runningTotal),
+            share: riskScore > 0 ? round((weightedPoints / riskScore) * 100) : 0,
+            confidence: factor.confidence,
+            drivers: factorDrivers(factor),
+            missingInputs,
+            // A factor its assessor could not validate scored on a default
+            defaulted: factor.validationStatus !== 'VALID' || factor.confidence === 0,
+            dataSource: factor.dataSource,
+            details: factor.details
+        };
+    });
+
+    const assessed = new Set(factors.map(factor => factor.type));
+
+    return {
+        riskScore: round(riskScore),
+        contributions,
+        missingFactors: Object.entries(weights)
+            .filter(([type, weight]) => weight > 0 && !assessed.has(type))
+            .map(([type]) => type),
+        missingInputs: Array.from(new Set(contributions.flatMap(contribution => contribution.missingInputs)))
+    };
+}
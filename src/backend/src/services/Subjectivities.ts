@@ -0,0 +1,77 @@
+/**
+ * @file Underwriting subjectivity scheduling and evaluation
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { addDays } from 'date-fns'; // ^2.30.0
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+
+import { ISubjectivity, ISubjectivityRequest, SubjectivityStatus } from '../types/policy.types';
+
+/**
+ * Creates open subjectivities from an underwriter's request
+ * @param inputs Requested subjectivities
+ * @param createdBy Underwriter attaching them
+ * @param at Time they were attached
+ * @returns Open subjectivities; post-bind due dates are set on binding
+ */
+export function createSubjectivities(
+    inputs: ISubjectivityRequest[],
+    createdBy: string,
+    at: Date = new Date()
+): ISubjectivity[] {
+    return inputs.map(input => ({
+        id: uuidv4(),
+        type: input.type,
+        description: input.description,
+        timing: input.timing,
+        ...(input.timing === 'POST_BIND' ? { dueDays: input.dueDays || 0 } : {}),
+        ...(input.documentType ? { documentType: input.documentType } : {}),
+        status: SubjectivityStatus.OPEN,
+        createdBy,
+        createdAt: at
+    }));
+}
+
+/**
+ * Lists the pre-bind subjectivities still open; binding waits on these
+ * @param subjectivities Policy subjectivities
+ * @returns Open pre-bind subjectivities
+ */
+export function openPreBindSubjectivities(subjectivities: ISubjectivity[] = []): ISubjectivity[] {
+    return subjectivities.filter(subjectivity =>
+        subjectivity.timing === 'PRE_BIND' && subjectivity.status === SubjectivityStatus.OPEN);
+}
+
+/**
+ * Sets the due date of each post-bind subjectivity from the bind date
+ * @param subjectivities Policy subjectivities
+ * @param boundAt Time the policy was bound
+ * @returns Subjectivities with post-bind due dates set; existing due dates are kept
+ */
+export function scheduleSubjectivities(subjectivities: ISubjectivity[] = [], boundAt: Date): ISubjectivity[] {
+    return subjectivities.map(subjectivity =>
+        subjectivity.timing === 'POST_BIND' && !subjectivity.dueDate
+            ? { ...subjectivity, dueDate: addDays(boundAt, subjectivity.dueDays || 0) }
+            : subjectivity);
+}
+
+/**
+ * Lists the open post-bind subjectivities past their due date
+ * @param subjectivities Policy subjectivities
+ * @param at Time of the check
+ * @param graceDays Days past the due date to allow before counting one as overdue
+ * @returns Overdue subjectivities
+ */
+export function overdueSubjectivities(
+    subjectivities: ISubjectivity[] = [],
+    at: Date = new Date(),
+    graceDays: number = 0
+): ISubjectivity[] {
+    return subjectivities.filter(subjectivity =>
+        subjectivity.timing === 'POST_BIND' &&
+        subjectivity.status === SubjectivityStatus.OPEN &&
+        !!subjectivity.dueDate &&
+        addDays(new Date(subjectivity.dueDate), graceDays) < at);
+}
@@ -0,0 +1,102 @@
+/**
+ * @file Submission completeness checklist evaluation
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { CHECKLIST_REMINDER_HOURS } from '../constants/underwritingRules';
+import { IPolicy } from '../types/policy.types';
+import { IProductDefinition } from '../types/product.types';
+import { IChecklistItem, ISubmissionChecklist } from '../types/underwriting.types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Reads a dot path from a submission
+ * @param source Submission data
+ * @param path Dot path such as policyHolder.address.zipCode
+ * @returns Value at the path, or undefined when any segment is missing
+ */
+function valueAt(source: object, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+        source
+    );
+}
+
+/**
+ * Checks whether a field value counts as provided: empty strings and empty lists do not
+ */
+function isProvided(value: unknown): boolean {
+    if (value === undefined || value === null) {
+        return false;
+    }
+    if (typeof value === 'string') {
+        return value.trim().length > 0;
+    }
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return true;
+}
+
+/**
+ * Checks a submission against the documents and fields its product requires. Items
+ * already received keep the time they were first received.
+ * @param definition Product definition in effect for the submission
+ * @param policy Submitted policy
+ * @param previous Items of the submission's existing checklist
+ * @param at Time of the check
+ * @returns One item per required document, then per required field
+ */
+export function buildChecklist(
+    definition: Pick<IProductDefinition, 'requiredDocuments' | 'requiredFields'> | null,
+    policy: Partial<IPolicy>,
+    previous: IChecklistItem[] = [],
+    at: Date = new Date()
+): IChecklistItem[] {
+    const documentTypes = new Set((policy.documents || []).map(document => document.type));
+
+    const item = (kind: IChecklistItem['kind'], key: string, received: boolean): IChecklistItem => {
+        const earlier = previous.find(candidate => candidate.kind === kind && candidate.key === key);
+        return {
+            kind,
+            key,
+            received,
+            receivedAt: received ? earlier?.receivedAt || at : null
+        };
+    };
+
+    return [
+        ...(definition?.requiredDocuments || []).map(documentType =>
+            item('DOCUMENT', documentType, documentTypes.has(documentType))),
+        ...(definition?.requiredFields || []).map(path =>
+            item('FIELD', path, isProvided(valueAt(policy, path))))
+    ];
+}
+
+/**
+ * Lists the checklist items still outstanding
+ * @param items Checklist items
+ * @returns Keys of the documents and fields not yet received
+ */
+export function missingItems(items: IChecklistItem[]): string[] {
+    return items.filter(item => !item.received).map(item => item.key);
+}
+
+/**
+ * Checks whether the broker is due another reminder. Reminders follow
+ * CHECKLIST_REMINDER_HOURS from when the submission went pending documents.
+ * @param checklist Submission checklist
+ * @param at Time of the check
+ * @returns Whether a reminder is due
+ */
+export function isReminderDue(checklist: ISubmissionChecklist, at: Date = new Date()): boolean {
+    const reminderHours = CHECKLIST_REMINDER_HOURS[checklist.remindersSent];
+    if (!checklist.pendingSince || reminderHours === undefined) {
+        return false;
+    }
+
+    const dueAt = new Date(checklist.pendingSince).getTime() + reminderHours * MS_PER_HOUR;
+    return at.getTime() >= dueAt;
+}
@@ -0,0 +1,64 @@
+/**
+ * @file Underwriter assignment strategies for the underwriting queue
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { AssignmentStrategy, IUnderwriterAuthority } from '../types/underwriting.types';
+import { IAuthorityRequirement, findAuthorityBreaches } from './UnderwriterAuthorityMatrix';
+
+/**
+ * Checks whether an underwriter can take new work
+ * @param authority Underwriter authority
+ * @param at Time of assignment
+ * @returns Whether the underwriter is active and not out of office
+ */
+export function isAvailable(authority: IUnderwriterAuthority, at: Date = new Date()): boolean {
+    return authority.active && (!authority.outOfOfficeUntil || new Date(authority.outOfOfficeUntil) <= at);
+}
+
+/**
+ * Orders underwriters by when they were last assigned work, never-assigned first
+ */
+function byLastAssigned(a: IUnderwriterAuthority, b: IUnderwriterAuthority): number {
+    const aTime = a.lastAssignedAt ? new Date(a.lastAssignedAt).getTime() : 0;
+    const bTime = b.lastAssignedAt ? new Date(b.lastAssignedAt).getTime() : 0;
+    return aTime - bTime || a.userId.localeCompare(b.userId);
+}
+
+/**
+ * Selects the underwriter to assign a submission to
+ * @param strategy Assignment strategy
+ * @param authorities Underwriter authorities
+ * @param workload Open queue size per underwriter user ID
+ * @param requirement Authority requirement of the policy, used by skills-based assignment
+ * @param exclude Underwriters that must not be picked, such as the current assignee
+ * @returns User ID of the selected underwriter, or null when nobody is eligible
+ */
+export function selectAssignee(
+    strategy: AssignmentStrategy,
+    authorities: IUnderwriterAuthority[],
+    workload: Record<string, number>,
+    requirement: IAuthorityRequirement,
+    exclude: string[] = []
+): string | null {
+    let candidates = authorities.filter(authority =>
+        isAvailable(authority) && !exclude.includes(authority.userId));
+
+    if (strategy === 'SKILLS_BASED') {
+        candidates = candidates.filter(authority => findAuthorityBreaches(authority, requirement).length === 0);
+    }
+
+    if (candidates.length === 0) {
+        return null;
+    }
+
+    // Round robin picks whoever was assigned longest ago; otherwise the least loaded,
+    // rotating between underwriters with equal queues
+    const compare = strategy === 'ROUND_ROBIN'
+        ? byLastAssigned
+        : (a: IUnderwriterAuthority, b: IUnderwriterAuthority) =>
+            (workload[a.userId] || 0) - (workload[b.userId] || 0) || byLastAssigned(a, b);
+
+    return candidates.reduce((selected, candidate) => compare(candidate, selected) < 0 ? candidate : selected).userId;
+}
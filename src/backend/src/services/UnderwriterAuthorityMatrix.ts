@@ -0,0 +1,120 @@
+/**
+ * @file Underwriter authority matrix checks and referral chain routing for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { PolicyType } from '../constants/policyTypes';
+import { IPolicy } from '../types/policy.types';
+import { IUnderwriterAuthority } from '../types/underwriting.types';
+
+/**
+ * Policy attributes an underwriter's authority is checked against
+ */
+export interface IAuthorityRequirement {
+    policyType: PolicyType;
+    limit: number;
+    premium: number;
+    riskScore: number;
+}
+
+/**
+ * Result of routing a decision up the referral chain. A final hop to null
+ * means the chain ran out before reaching an underwriter with authority.
+ */
+export interface IReferralRoute {
+    hops: Array<{ from: string; to: string | null; breaches: string[] }>;
+    referredTo: string | null;
+}
+
+/**
+ * Builds the authority requirement of a policy. The limit is the largest per
+ * occurrence limit across its coverages.
+ * @param policy Policy being decided
+ * @param riskScore Risk score of the decision
+ * @returns Authority requirement
+ */
+export function buildAuthorityRequirement(
+    policy: Pick<IPolicy, 'type' | 'premium' | 'coverages'>,
+    riskScore: number
+): IAuthorityRequirement {
+    const coverages = policy.coverages || [];
+
+    return {
+        policyType: policy.type,
+        limit: Math.max(0, ...coverages.map(coverage => Number(coverage.limits?.perOccurrence) || 0)),
+        premium: Number(policy.premium) || 0,
+        riskScore
+    };
+}
+
+/**
+ * Lists the ways a requirement falls outside an underwriter's authority
+ * @param authority Underwriter authority, or null when none is on file
+ * @param requirement Authority requirement of the policy
+ * @returns Reasons the underwriter may not approve; empty when within authority
+ */
+export function findAuthorityBreaches(
+    authority: IUnderwriterAuthority | null,
+    requirement: IAuthorityRequirement
+): string[] {
+    if (!authority || !authority.active) {
+        return ['No active underwriting authority'];
+    }
+
+    const breaches: string[] = [];
+
+    if (!authority.policyTypes.includes(requirement.policyType)) {
+        breaches.push(`Policy type ${requirement.policyType} is outside authority`);
+    }
+    if (requirement.limit > authority.maxLimit) {
+        breaches.push(`Limit ${requirement.limit} exceeds authority of ${authority.maxLimit}`);
+    }
+    if (requirement.premium > authority.maxPremium) {
+        breaches.push(`Premium ${requirement.premium} exceeds authority of ${authority.maxPremium}`);
+    }
+    if (requirement.riskScore > authority.maxRiskScore) {
+        breaches.push(`Risk score ${requirement.riskScore} exceeds authority of ${authority.maxRiskScore}`);
+    }
+
+    return breaches;
+}
+
+/**
+ * Walks the referral chain from an underwriter until it reaches one with authority
+ * for the requirement. Every hop is returned with the reasons the underwriter it
+ * left could not approve. The chain ends without a referee when it runs out or loops.
+ * @param userId Underwriter the decision starts with
+ * @param requirement Authority requirement of the policy
+ * @param loadAuthority Loads an underwriter's authority
+ * @returns Referral hops and the underwriter the decision ends with
+ */
+export async function routeReferral(
+    userId: string,
+    requirement: IAuthorityRequirement,
+    loadAuthority: (userId: string) => Promise<IUnderwriterAuthority | null>
+): Promise<IReferralRoute> {
+    const hops: IReferralRoute['hops'] = [];
+    const visited = new Set<string>([userId]);
+
+    let current = userId;
+    let authority = await loadAuthority(current);
+    let breaches = findAuthorityBreaches(authority, requirement);
+
+    while (breaches.length > 0) {
+        const next = authority?.refersToUserId;
+        if (!next || visited.has(next)) {
+            hops.push({ from: current, to: null, breaches });
+            return { hops, referredTo: null };
+        }
+
+        hops.push({ from: current, to: next, breaches });
+        visited.add(next);
+
+        current = next;
+        authority = await loadAuthority(current);
+        breaches = findAuthorityBreaches(authority, requirement);
+    }
+
+    return { hops, referredTo: current };
+}
@@ -0,0 +1,194 @@
+/**
+ * @file Declarative underwriting rules engine for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { createHash } from 'crypto';
+import {
+    IRiskAssessment,
+    IRuleCondition,
+    IRuleEvaluationContext,
+    IRuleEvaluationResult,
+    IUnderwritingRule,
+    UnderwritingRuleAction,
+    UnderwritingStatus
+} from '../types/underwriting.types';
+
+/**
+ * Underwriting status each rule action resolves to
+ */
+export const RULE_ACTION_STATUS: Record<UnderwritingRuleAction, UnderwritingStatus> = {
+    APPROVE: UnderwritingStatus.APPROVED,
+    DECLINE: UnderwritingStatus.DECLINED,
+    REFER: UnderwritingStatus.REFERRED,
+    FLAG: UnderwritingStatus.IN_REVIEW
+};
+
+/**
+ * Builds the context rules are evaluated against
+ * @param policy Policy being underwritten
+ * @param riskAssessment Risk assessment of the policy
+ * @returns Evaluation context with risk factor scores keyed by factor type
+ */
+export function buildRuleContext(policy: object, riskAssessment: IRiskAssessment): IRuleEvaluationContext {
+    return {
+        policy,
+        riskAssessment,
+        riskFactors: Object.fromEntries(riskAssessment.riskFactors.map(factor => [factor.type, factor.score]))
+    };
+}
+
+/**
+ * Resolves a dot path such as riskAssessment.riskScore against the evaluation context
+ * @param context Evaluation context
+ * @param field Dot path
+ * @returns Value at the path, or undefined when any segment is missing
+ */
+function resolveField(context: IRuleEvaluationContext, field: string): unknown {
+    return field.split('.').reduce<unknown>(
+        (value, segment) => (typeof value === 'object' && value !== null
+            ? (value as Record<string, unknown>)[segment]
+            : undefined),
+        context
+    );
+}
+
+/**
+ * Evaluates a single rule condition. Conditions on a missing field only match EXISTS false.
+ * @param condition Rule condition
+ * @param context Evaluation context
+ * @returns Whether the condition holds
+ */
+export function evaluateCondition(condition: IRuleCondition, context: IRuleEvaluationContext): boolean {
+    const actual = resolveField(context, condition.field);
+    const { value } = condition;
+
+    if (condition.operator === 'EXISTS') {
+        return (actual !== undefined && actual !== null) === (value !== false);
+    }
+
+    if (actual === undefined || actual === null) {
+        return false;
+    }
+
+    switch (condition.operator) {
+        case 'EQUALS':
+            return actual === value;
+        case 'NOT_EQUALS':
+            return actual !== value;
+        case 'GREATER_THAN':
+            return Number(actual) > Number(value);
+        case 'GREATER_THAN_OR_EQUAL':
+            return Number(actual) >= Number(value);
+        case 'LESS_THAN':
+            return Number(actual) < Number(value);
+        case 'LESS_THAN_OR_EQUAL':
+            return Number(actual) <= Number(value);
+        case 'IN':
+            return Array.isArray(value) && value.includes(actual);
+        case 'NOT_IN':
+            return Array.isArray(value) && !value.includes(actual);
+        case 'CONTAINS':
+            if (Array.isArray(actual)) {
+                return actual.includes(value);
+            }
+            return typeof actual === 'string' && typeof value === 'string' && actual.includes(value);
+        default:
+            throw new Error(`Unsupported rule operator: ${condition.operator}`);
+    }
+}
+
+/**
+ * Evaluates whether a rule's criteria match the context
+ * @param rule Underwriting rule
+ * @param context Evaluation context
+ * @returns Whether the rule fires
+ */
+export function ruleMatches(rule: IUnderwritingRule, context: IRuleEvaluationContext): boolean {
+    const { conditions, logicalOperator } = rule.criteria;
+    if (conditions.length === 0) {
+        return false;
+    }
+
+    return logicalOperator === 'OR'
+        ? conditions.some(condition => evaluateCondition(condition, context))
+        : conditions.every(condition => evaluateCondition(condition, context));
+}
+
+/**
+ * Evaluates underwriting rules in priority order, lowest priority number first.
+ * FLAG rules record a concern and evaluation continues; the first APPROVE, DECLINE
+ * or REFER rule that fires decides. When only FLAG rules fire the result is FLAG,
+ * and when no rule fires the policy is referred to an underwriter.
+ * @param rules Active rules for the policy type
+ * @param context Evaluation context
+ * @returns Action taken and the rules that fired
+ */
+export function evaluateRules(rules: IUnderwritingRule[], context: IRuleEvaluationContext): IRuleEvaluationResult {
+    const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+    const fired: IUnderwritingRule[] = [];
+    let action: UnderwritingRuleAction | null = null;
+    let evaluatedRuleCount = 0;
+
+    for (const rule of ordered) {
+        evaluatedRuleCount++;
+        if (!ruleMatches(rule, context)) {
+            continue;
+        }
+
+        fired.push(rule);
+        if (rule.action !== 'FLAG') {
+            action = rule.action;
+            break;
+        }
+    }
+
+    return {
+        action: action || (fired.length > 0 ? 'FLAG' : 'REFER'),
+        firedRuleIds: fired.map(rule => rule.id),
+        reasons: fired.map(rule => rule.description),
+        evaluatedRuleCount
+    };
+}
+
+/**
+ * Reads the risk score boundary the rules set for an action from their conditions on
+ * riskAssessment.riskScore: the highest score an APPROVE rule approves, or the lowest
+ * score a REFER rule refers
+ * @param rules Underwriting rules
+ * @param action Action whose boundary to read
+ * @returns Boundary score, or null when no rule sets one
+ */
+export function riskScoreBoundary(rules: IUnderwritingRule[], action: 'APPROVE' | 'REFER'): number | null {
+    const operators = action === 'APPROVE'
+        ? ['LESS_THAN', 'LESS_THAN_OR_EQUAL']
+        : ['GREATER_THAN', 'GREATER_THAN_OR_EQUAL'];
+
+    const scores = rules
+        .filter(rule => rule.action === action)
+        .flatMap(rule => rule.criteria.conditions)
+        .filter(condition => condition.field === 'riskAssessment.riskScore' && operators.includes(condition.operator))
+        .map(condition => Number(condition.value))
+        .filter(score => Number.isFinite(score));
+
+    if (scores.length === 0) {
+        return null;
+    }
+    return action === 'APPROVE' ? Math.max(...scores) : Math.min(...scores);
+}
+
+/**
+ * Fingerprints a rule set; any change to a rule's criteria, action, priority, policy
+ * type or active flag, or adding or removing a rule, changes the fingerprint
+ * @param rules Underwriting rules
+ * @returns Short hex digest
+ */
+export function ruleSetDigest(rules: IUnderwritingRule[]): string {
+    const fingerprint = [...rules]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(rule => JSON.stringify([rule.id, rule.policyType, rule.action, rule.priority, rule.active, rule.criteria]))
+        .join('\n');
+
+    return createHash('sha256').update(fingerprint).digest('hex').slice(0, 12);
+}
@@ -8,9 +8,61 @@ import { Injectable } from '@nestjs/common';
 import { Logger } from 'winston';
 import { OneShieldClient } from '@mga/oneshield-client'; // ^2.0.0
 import { Policy } from '../models/Policy';
-import { IRiskAssessment, IRiskFactor, IUnderwritingDecision, UnderwritingStatus, isAutoApprovalEligible } from '../types/underwriting.types';
-import { RISK_SCORE_THRESHOLDS, RISK_FACTOR_WEIGHTS, AUTO_APPROVAL_CRITERIA, RISK_MULTIPLIERS, VALIDATION_RULES } from '../constants/underwritingRules';
+import {
+    IRiskAssessment,
+    IRiskFactor,
+    IUnderwritingDecision,
+    IUnderwritingRule,
+    IRuleSimulationRequest,
+    IRuleSimulationReport,
+    IDecisionChange,
+    IDecisionTransition,
+    IUnderwritingConfig,
+    IUnderwritingDecisionRecord,
+    IUnderwritingReview,
+    IUnderwriterAuthority,
+    IReviewHistory,
+    IUnderwritingQueueDepth,
+    IUnderwritingMetrics,
+    ISlaAlert,
+    ISlaClockStatus,
+    ILocationZoneDataset,
+    IRiskScoreBreakdown,
+    ISubmissionChecklist,
+    IChecklistReminder,
+    IAppetiteCheckRequest,
+    IAppetiteCheckResult,
+    IRescoreFailure,
+    IRescoreRequest,
+    IRescoreResult,
+    IRescoreRun,
+    AssignmentStrategy,
+    SlaAlertLevel,
+    SlaStage,
+    UnderwritingStatus,
+    isAutoApprovalEligible
+} from '../types/underwriting.types';
+import { UNDERWRITING_CONFIG_VERSION, RESCORE_LIMITS, ASSIGNMENT_STRATEGIES, DEFAULT_ASSIGNMENT_STRATEGY, SLA_TARGET_MINUTES, RISK_SCORE_THRESHOLDS, RISK_FACTOR_WEIGHTS, AUTO_APPROVAL_CRITERIA, RISK_MULTIPLIERS, VALIDATION_RULES } from '../constants/underwritingRules';
 import { PolicyType } from '../constants/policyTypes';
+import { IPolicy, PolicyStatus } from '../types/policy.types';
+import { UnderwritingRuleRepository, UnderwritingRuleInput, UnderwritingRuleFilter } from '../repositories/UnderwritingRuleRepository';
+import { UnderwritingDecisionRepository } from '../repositories/UnderwritingDecisionRepository';
+import { UnderwriterAuthorityRepository, UnderwriterAuthorityInput } from '../repositories/UnderwriterAuthorityRepository';
+import { UnderwritingSlaClockRepository } from '../repositories/UnderwritingSlaClockRepository';
+import { LocationZoneRepository } from '../repositories/LocationZoneRepository';
+import { ProductDefinitionRepository } from '../repositories/ProductDefinitionRepository';
+import { UnderwritingChecklistRepository } from '../repositories/UnderwritingChecklistRepository';
+import { UnderwritingRescoreRepository } from '../repositories/UnderwritingRescoreRepository';
+import { RULE_ACTION_STATUS, buildRuleContext, evaluateRules, riskScoreBoundary, ruleSetDigest } from './UnderwritingRulesEngine';
+import { buildAuthorityRequirement, routeReferral } from './UnderwriterAuthorityMatrix';
+import { isAvailable, selectAssignee } from './UnderwriterAssignment';
+import { evaluateSla, isMoreSevere, pausedSince, summarizeProcessingTime } from './UnderwritingSla';
+import { assessLocationZones } from './LocationRisk';
+import { buildRiskBreakdown } from './RiskScoreBreakdown';
+import { buildChecklist, isReminderDue, missingItems } from './SubmissionChecklist';
+import { createSubjectivities } from './Subjectivities';
+import { checkAppetite } from './AppetiteCheck';
+import { buildRescoreResult, isResultPending, mapWithConcurrency, renewalReviewFlag } from './RiskRescoring';
 import { Cache } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { RateLimit } from '@nestjs/throttler';
@@ -20,13 +72,32 @@ import { RateLimit } from '@nestjs/throttler';
 export class UnderwritingService {
     private readonly CACHE_TTL = 3600; // 1 hour cache TTL
     private readonly RISK_ASSESSMENT_PREFIX = 'risk_assessment:';
+    private readonly DEFAULT_SIMULATION_LIMIT = 5000;
+    private readonly METRICS_DECISION_LIMIT = 10000;
+    // Policy statuses showing a quote option has been offered
+    private readonly QUOTE_ISSUED_STATUSES = [PolicyStatus.QUOTED, PolicyStatus.BOUND, PolicyStatus.ACTIVE];
+    // Policy statuses re-scored by a batch run
+    private readonly IN_FORCE_STATUSES = [PolicyStatus.BOUND, PolicyStatus.ACTIVE];
+    // Re-scoring runs executing in this process
+    private readonly activeRescoreRuns = new Set<string>();
+    private readonly ASSIGNMENT_STRATEGY: AssignmentStrategy = ASSIGNMENT_STRATEGIES.includes(
+        process.env.UNDERWRITING_ASSIGNMENT_STRATEGY as AssignmentStrategy
+    ) ? process.env.UNDERWRITING_ASSIGNMENT_STRATEGY as AssignmentStrategy : DEFAULT_ASSIGNMENT_STRATEGY;
 
     constructor(
         private readonly policyRepository: any,
         private readonly logger: Logger,
         private readonly oneShieldClient: OneShieldClient,
         private readonly cacheManager: Cache,
-        private readonly eventEmitter: EventEmitter2
+        private readonly eventEmitter: EventEmitter2,
+        private readonly ruleRepository: UnderwritingRuleRepository,
+        private readonly decisionRepository: UnderwritingDecisionRepository,
+        private readonly authorityRepository: UnderwriterAuthorityRepository,
+        private readonly slaClockRepository: UnderwritingSlaClockRepository,
+        private readonly locationZoneRepository: LocationZoneRepository,
+        private readonly productDefinitionRepository: ProductDefinitionRepository,
+        private readonly checklistRepository: UnderwritingChecklistRepository,
+        private readonly rescoreRepository: UnderwritingRescoreRepository
     ) {
         this.logger.info('Initializing UnderwritingService with enhanced automation capabilities');
     }
@@ -62,6 +133,9 @@ export class UnderwritingService {
             }
             await policy.validate();
 
+            // Intake is timed from submission until the decision
+            await this.startIntakeClock(policy);
+
             // Calculate risk factors
             const riskFactors: IRiskFactor[] = await this.calculateRiskFactors(policy, policyType);
 
@@ -78,7 +152,8 @@ export class UnderwritingService {
                 policyType,
                 validationErrors: [],
                 lastModified: new Date(),
-                version: 1
+                // Bumped each time the in-force book is re-scored
+                version: policy.underwritingInfo?.riskAssessmentVersion || 1
             };
 
             // Cache assessment if enabled
@@ -128,11 +203,24 @@ export class UnderwritingService {
                 throw new Error('OneShield system unavailable');
             }
 
+            const policy = await this.policyRepository.findById(riskAssessment.policyId);
+            if (!policy) {
+                throw new Error(`Policy not found: ${riskAssessment.policyId}`);
+            }
+
             // Determine automation level
             const automationLevel = this.determineAutomationLevel(riskAssessment);
 
-            // Apply decision logic
-            const decision = this.applyDecisionRules(riskAssessment, policyType);
+            // Evaluate the active underwriting rules for the policy type
+            const decision = await this.applyDecisionRules(riskAssessment, policyType, policy);
+
+            // Submissions missing required documents or fields wait on the broker before review
+            const checklist = await this.saveChecklist(policy, policyType, decision.status !== UnderwritingStatus.DECLINED);
+            const missing = missingItems(checklist.items);
+            if (checklist.pendingSince) {
+                decision.status = UnderwritingStatus.PENDING_DOCUMENTS;
+                decision.notes = `${decision.notes}; waiting on ${missing.join(', ')}`;
+            }
 
             // Sync with OneShield
             const oneShieldSync = await this.syncWithOneShield(decision, policyType);
@@ -154,16 +242,56 @@ export class UnderwritingService {
                     previousStatus: UnderwritingStatus.PENDING_REVIEW,
                     newStatus: decision.status
                 }],
-                oneShieldSyncStatus: oneShieldSync.status
+                oneShieldSyncStatus: oneShieldSync.status,
+                firedRuleIds: decision.firedRuleIds
             };
 
+            // Record the decision and what it was made on for later replay
+            const record = await this.decisionRepository.create({
+                policyId: riskAssessment.policyId,
+                policyType,
+                status: decision.status,
+                riskScore: riskAssessment.riskScore,
+                riskFactors: riskAssessment.riskFactors,
+                firedRuleIds: decision.firedRuleIds,
+                automationLevel,
+                decidedBy: underwritingDecision.decidedBy,
+                premium: Number(policy.premium) || 0,
+                policySnapshot: policy,
+                decidedAt: underwritingDecision.decisionDate,
+                reviewHistory: underwritingDecision.reviewHistory
+            });
+
+            // Put decisions needing an underwriter in someone's queue
+            if (this.isOpen(record)) {
+                await this.assignDecision(record, policy, {
+                    assignedBy: 'AUTOMATED_ENGINE',
+                    reason: `Assigned by ${this.ASSIGNMENT_STRATEGY} strategy`
+                });
+            }
+
+            // Close the intake clock and start timing the stage the decision leads to
+            await this.startIntakeClock(policy);
+            await this.advanceSla(riskAssessment.policyId, this.slaStageFor(decision.status), underwritingDecision.decisionDate);
+
+            // Time waiting on the broker does not count against the review target
+            if (checklist.pendingSince) {
+                await this.pauseSla(riskAssessment.policyId, `Waiting on broker for ${missing.join(', ')}`, 'AUTOMATED_ENGINE');
+                this.eventEmitter.emit('underwriting.checklist.pending', {
+                    policyId: riskAssessment.policyId,
+                    brokerId: policy.brokerId || null,
+                    missing
+                });
+            }
+
             // Emit decision event
             this.eventEmitter.emit('underwriting.decision.made', underwritingDecision);
 
             this.logger.info('Completed underwriting decision', {
                 policyId: riskAssessment.policyId,
                 status: decision.status,
-                automationLevel
+                automationLevel,
+                firedRuleIds: decision.firedRuleIds
             });
 
             return underwritingDecision;
@@ -177,6 +305,1151 @@ export class UnderwritingService {
         }
     }
 
+    /**
+     * Records an underwriter's review of the latest decision on a policy. Approvals
+     * outside the reviewer's authority are blocked and routed up the referral chain
+     * to the first underwriter with authority; each hop is added to the review history.
+     * @param policyId Policy identifier
+     * @param review Review outcome and notes
+     * @param userId Reviewing underwriter
+     * @returns Updated decision record, or null when the policy has no decision
+     */
+    public async reviewDecision(
+        policyId: string,
+        review: IUnderwritingReview,
+        userId: string
+    ): Promise<IUnderwritingDecisionRecord | null> {
+        const [decision] = await this.decisionRepository.findByPolicyId(policyId);
+        if (!decision) {
+            return null;
+        }
+
+        const previousStatus = decision.reviewStatus || decision.status;
+        if (decision.reviewStatus === UnderwritingStatus.APPROVED) {
+            throw new Error('Decision has already been approved by an underwriter');
+        }
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error(`Policy not found: ${policyId}`);
+        }
+
+        const timestamp = new Date();
+        const reviewHistory: IReviewHistory[] = [...(decision.reviewHistory || [])];
+
+        // Declines need no authority; approvals must fall within the reviewer's matrix
+        if (review.status === UnderwritingStatus.APPROVED) {
+            const route = await routeReferral(
+                userId,
+                buildAuthorityRequirement(policy, decision.riskScore),
+                referee => this.authorityRepository.findByUserId(referee)
+            );
+
+            if (route.referredTo !== userId) {
+                route.hops.forEach(hop => reviewHistory.push({
+                    timestamp,
+                    reviewer: hop.from,
+                    action: hop.to ? 'REFERRED' : 'REFERRAL_CHAIN_EXHAUSTED',
+                    notes: hop.to
+                        ? hop.breaches.join('; ')
+                        : `${hop.breaches.join('; ')}; no underwriter further up the referral chain`,
+                    previousStatus,
+                    newStatus: UnderwritingStatus.REFERRED,
+                    ...(hop.to ? { referredTo: hop.to } : {})
+                }));
+
+                let referred = await this.decisionRepository.updateReview(decision.id, {
+                    reviewStatus: UnderwritingStatus.REFERRED,
+                    reviewHistory,
+                    referredTo: route.referredTo
+                });
+
+                // The referee works the decision; when the chain ran out, find anyone with authority
+                if (referred) {
+                    referred = await this.assignDecision(referred, policy, route.referredTo ? {
+                        assigneeId: route.referredTo,
+                        assignedBy: userId,
+                        reason: 'Referred above reviewer authority'
+                    } : {
+                        strategy: 'SKILLS_BASED',
+                        exclude: route.hops.map(hop => hop.from),
+                        assignedBy: userId,
+                        reason: 'Referral chain exhausted; assigned to an underwriter with authority'
+                    });
+                }
+                await this.advanceSla(policyId, 'REFERRAL', timestamp);
+
+                this.eventEmitter.emit('underwriting.decision.referred', {
+                    policyId,
+                    referredBy: userId,
+                    referredTo: route.referredTo
+                });
+                this.logger.info('Underwriting approval referred above reviewer authority', {
+                    policyId,
+                    userId,
+                    referredTo: route.referredTo,
+                    hops: route.hops.length
+                });
+
+                return referred;
+            }
+        }
+
+        reviewHistory.push({
+            timestamp,
+            reviewer: userId,
+            action: 'REVIEW_DECISION',
+            notes: review.notes,
+            previousStatus,
+            newStatus: review.status
+        });
+
+        const reviewed = await this.decisionRepository.updateReview(decision.id, {
+            reviewStatus: review.status,
+            reviewHistory,
+            referredTo: null
+        });
+
+        await this.advanceSla(policyId, this.slaStageFor(review.status), timestamp);
+
+        if (review.status === UnderwritingStatus.APPROVED) {
+            await this.policyRepository.update(policyId, {
+                underwritingInfo: {
+                    ...policy.underwritingInfo,
+                    underwriterNotes: review.notes,
+                    approvalDate: timestamp,
+                    approvedBy: userId,
+                    specialConditions: review.conditions || policy.underwritingInfo?.specialConditions,
+                    subjectivities: [
+                        ...(policy.underwritingInfo?.subjectivities || []),
+                        ...createSubjectivities(review.subjectivities || [], userId, timestamp)
+                    ]
+                }
+            });
+        }
+
+        this.eventEmitter.emit('underwriting.decision.reviewed', {
+            policyId,
+            reviewedBy: userId,
+            status: review.status
+        });
+        this.logger.info('Underwriting decision reviewed', { policyId, userId, status: review.status });
+
+        return reviewed;
+    }
+
+    /**
+     * Reassigns the open decision on a policy, to a named underwriter or, when none
+     * is given, to another underwriter picked by the configured strategy
+     * @param policyId Policy identifier
+     * @param assignment Optional assignee and the reason for reassignment
+     * @param userId Manager reassigning the decision
+     * @returns Updated decision record, or null when the policy has no decision
+     */
+    public async reassignDecision(
+        policyId: string,
+        assignment: { assigneeId?: string; reason: string },
+        userId: string
+    ): Promise<IUnderwritingDecisionRecord | null> {
+        const [decision] = await this.decisionRepository.findByPolicyId(policyId);
+        if (!decision) {
+            return null;
+        }
+
+        if (!this.isOpen(decision)) {
+            throw new Error('Only decisions in review or referred can be reassigned');
+        }
+
+        if (assignment.assigneeId) {
+            const assignee = await this.authorityRepository.findByUserId(assignment.assigneeId);
+            if (!assignee || !isAvailable(assignee)) {
+                throw new Error(`Underwriter ${assignment.assigneeId} is not available for assignment`);
+            }
+        }
+
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            throw new Error(`Policy not found: ${policyId}`);
+        }
+
+        return this.assignDecision(decision, policy, {
+            ...(assignment.assigneeId ? { assigneeId: assignment.assigneeId } : {}),
+            exclude: decision.assignedTo ? [decision.assignedTo] : [],
+            assignedBy: userId,
+            reason: assignment.reason
+        });
+    }
+
+    /**
+     * Marks an underwriter out of office until a date, or back in office when the date
+     * is null. Open decisions assigned to an absent underwriter are reassigned.
+     * @param underwriterId Underwriter user identifier
+     * @param until End of the absence, or null
+     * @param userId User recording the absence
+     * @returns Updated authority and the number of decisions reassigned, or null when the
+     * underwriter has no authority on file
+     */
+    public async setOutOfOffice(
+        underwriterId: string,
+        until: Date | null,
+        userId?: string
+    ): Promise<{ authority: IUnderwriterAuthority; reassigned: number } | null> {
+        const authority = await this.authorityRepository.update(underwriterId, {
+            outOfOfficeUntil: until,
+            ...(userId ? { updatedBy: userId } : {})
+        });
+        if (!authority) {
+            return null;
+        }
+
+        let reassigned = 0;
+        if (!isAvailable(authority)) {
+            const open = await this.decisionRepository.findOpen(underwriterId);
+            for (const decision of open) {
+                const policy = await this.policyRepository.findById(decision.policyId);
+                if (!policy) {
+                    continue;
+                }
+
+                const updated = await this.assignDecision(decision, policy, {
+                    exclude: [underwriterId],
+                    assignedBy: userId || 'AUTOMATED_ENGINE',
+                    reason: `Reassigned while the assignee is out of office until ${until?.toISOString()}`
+                });
+                if (updated?.assignedTo !== underwriterId) {
+                    reassigned++;
+                }
+            }
+        }
+
+        this.eventEmitter.emit('underwriting.authority.outOfOffice', { underwriterId, until, reassigned });
+        this.logger.info('Underwriter availability updated', { underwriterId, until, reassigned, userId });
+
+        return { authority, reassigned };
+    }
+
+    /**
+     * Counts open decisions per underwriter
+     * @returns Queue depth per underwriter, unassigned count and the active strategy
+     */
+    public async getQueueDepth(): Promise<IUnderwritingQueueDepth> {
+        const [authorities, open] = await Promise.all([
+            this.authorityRepository.findAll(),
+            this.decisionRepository.findOpen()
+        ]);
+
+        const underwriters = authorities.map(authority => {
+            const assigned = open.filter(decision => decision.assignedTo === authority.userId);
+            const referred = assigned.filter(decision =>
+                (decision.reviewStatus || decision.status) === UnderwritingStatus.REFERRED).length;
+
+            return {
+                userId: authority.userId,
+                name: authority.user ? `${authority.user.firstName} ${authority.user.lastName}` : authority.userId,
+                inReview: assigned.length - referred,
+                referred,
+                total: assigned.length,
+                outOfOfficeUntil: isAvailable(authority) ? null : authority.outOfOfficeUntil || null
+            };
+        });
+
+        const known = new Set(authorities.map(authority => authority.userId));
+
+        return {
+            strategy: this.ASSIGNMENT_STRATEGY,
+            underwriters,
+            unassigned: open.filter(decision => !decision.assignedTo || !known.has(decision.assignedTo)).length
+        };
+    }
+
+    /**
+     * Evaluates a submission's SLA clocks
+     * @param policyId Policy identifier
+     * @returns Clocks in the order they started, with elapsed time and alert level
+     */
+    public async getSlaStatus(policyId: string): Promise<ISlaClockStatus[]> {
+        const clocks = await this.slaClockRepository.findByPolicyId(policyId);
+        const now = new Date();
+        return clocks.map(clock => evaluateSla(clock, now));
+    }
+
+    /**
+     * Pauses a submission's running SLA clocks while it waits on broker documents
+     * @param policyId Policy identifier
+     * @param reason What the submission is waiting on
+     * @param userId User pausing the clocks
+     * @returns Evaluated clocks of the submission
+     */
+    public async pauseSla(policyId: string, reason: string, userId?: string): Promise<ISlaClockStatus[]> {
+        const running = (await this.slaClockRepository.findRunning(policyId)).filter(clock => !clock.pausedAt);
+        if (running.length === 0) {
+            throw new Error(`No running SLA clock to pause for policy ${policyId}`);
+        }
+
+        const pausedAt = new Date();
+        for (const clock of running) {
+            await this.slaClockRepository.update(clock.id, { pausedAt, pauseReason: reason });
+        }
+
+        this.eventEmitter.emit('underwriting.sla.paused', { policyId, reason, pausedBy: userId });
+        this.logger.info('Underwriting SLA paused', { policyId, reason, userId });
+
+        return this.getSlaStatus(policyId);
+    }
+
+    /**
+     * Resumes a submission's paused SLA clocks, excluding the paused time from their elapsed time
+     * @param policyId Policy identifier
+     * @param userId User resuming the clocks
+     * @returns Evaluated clocks of the submission
+     */
+    public async resumeSla(policyId: string, userId?: string): Promise<ISlaClockStatus[]> {
+        const paused = (await this.slaClockRepository.findRunning(policyId)).filter(clock => clock.pausedAt);
+        if (paused.length === 0) {
+            throw new Error(`No paused SLA clock to resume for policy ${policyId}`);
+        }
+
+        const resumedAt = new Date();
+        for (const clock of paused) {
+            await this.slaClockRepository.update(clock.id, {
+                pausedAt: null,
+                pauseReason: null,
+                pausedMinutes: clock.pausedMinutes + pausedSince(clock, resumedAt)
+            });
+        }
+
+        this.eventEmitter.emit('underwriting.sla.resumed', { policyId, resumedBy: userId });
+        this.logger.info('Underwriting SLA resumed', { policyId, userId });
+
+        return this.getSlaStatus(policyId);
+    }
+
+    /**
+     * Checks every running SLA clock, alerting the assigned underwriter and their
+     * manager the first time a clock becomes at risk and again when it breaches.
+     * Quote clocks stop once the policy service has offered a quote option.
+     * @param at Time of the check
+     * @returns Number of clocks checked, quote clocks stopped and alerts raised
+     */
+    public async checkSlaClocks(at: Date = new Date()): Promise<{
+        checked: number;
+        completed: number;
+        alerts: ISlaAlert[];
+    }> {
+        const running = (await this.slaClockRepository.findRunning()).filter(clock => !clock.pausedAt);
+        const alerts: ISlaAlert[] = [];
+        let completed = 0;
+
+        for (const clock of running) {
+            if (clock.stage === 'QUOTE_ISSUED') {
+                const policy = await this.policyRepository.findById(clock.policyId);
+                if (policy && this.QUOTE_ISSUED_STATUSES.includes(policy.status)) {
+                    // The quote moved the policy on, so its last update is when the quote was offered
+                    const quotedAt = policy.updatedAt ? new Date(policy.updatedAt) : at;
+                    await this.slaClockRepository.update(clock.id, {
+                        completedAt: quotedAt > new Date(clock.startedAt) && quotedAt < at ? quotedAt : at
+                    });
+                    completed++;
+                    continue;
+                }
+            }
+
+            const status = evaluateSla(clock, at);
+            if (status.level === 'ON_TRACK' || !isMoreSevere(status.level, clock.alertLevel)) {
+                continue;
+            }
+
+            await this.slaClockRepository.update(clock.id, { alertLevel: status.level });
+
+            const alert: ISlaAlert = {
+                policyId: clock.policyId,
+                stage: clock.stage,
+                level: status.level,
+                elapsedMinutes: status.elapsedMinutes,
+                targetMinutes: clock.targetMinutes,
+                recipients: await this.slaAlertRecipients(clock.policyId)
+            };
+            alerts.push(alert);
+
+            this.eventEmitter.emit(
+                status.level === 'BREACHED' ? 'underwriting.sla.breached' : 'underwriting.sla.atRisk',
+                alert
+            );
+        }
+
+        this.logger.info('Underwriting SLA check completed', {
+            checked: running.length,
+            completed,
+            alerts: alerts.length
+        });
+
+        return { checked: running.length, completed, alerts };
+    }
+
+    /**
+     * Summarizes underwriting throughput for submissions received within a window
+     * @param from Window start
+     * @param to Window end
+     * @returns Automation rate, processing time from SLA clocks, open reviews,
+     * risk score distribution and running clocks by alert level
+     */
+    public async getUnderwritingMetrics(from: Date, to: Date): Promise<IUnderwritingMetrics> {
+        const [clocks, decisions, open, running] = await Promise.all([
+            this.slaClockRepository.findForSubmissionsStartedBetween(from, to),
+            this.decisionRepository.findForReplay({ from, to, limit: this.METRICS_DECISION_LIMIT }),
+            this.decisionRepository.findOpen(),
+            this.slaClockRepository.findRunning()
+        ]);
+
+        const riskScoreDistribution = { low: 0, medium: 0, high: 0 };
+        decisions.forEach(decision => {
+            if (decision.riskScore <= RISK_SCORE_THRESHOLDS.LOW_RISK) {
+                riskScoreDistribution.low++;
+            } else if (decision.riskScore >= RISK_SCORE_THRESHOLDS.HIGH_RISK) {
+                riskScoreDistribution.high++;
+            } else {
+                riskScoreDistribution.medium++;
+            }
+        });
+
+        const now = new Date();
+        const sla: Record<SlaAlertLevel, number> = { ON_TRACK: 0, AT_RISK: 0, BREACHED: 0 };
+        running.forEach(clock => sla[evaluateSla(clock, now).level]++);
+
+        const automated = decisions.filter(decision => decision.automationLevel === 'FULL').length;
+
+        return {
+            automationRate: decisions.length ? Math.round((automated / decisions.length) * 1000) / 10 : 0,
+            ...summarizeProcessingTime(clocks),
+            pendingReviews: open.length,
+            riskScoreDistribution,
+            sla
+        };
+    }
+
+    /**
+     * Retrieves a submission's completeness checklist
+     * @param policyId Policy identifier
+     * @returns Checklist, or null when the submission has not been decided
+     */
+    public async getChecklist(policyId: string): Promise<ISubmissionChecklist | null> {
+        return this.checklistRepository.findByPolicyId(policyId);
+    }
+
+    /**
+     * Re-checks a submission's checklist against its current documents and fields.
+     * A submission waiting on documents re-enters the review queue once every item
+     * has been received, with its SLA clocks resumed.
+     * @param policyId Policy identifier
+     * @param userId User who asked for the re-check
+     * @returns Updated checklist, or null when the policy does not exist
+     */
+    public async refreshChecklist(policyId: string, userId?: string): Promise<ISubmissionChecklist | null> {
+        const policy = await this.policyRepository.findById(policyId);
+        if (!policy) {
+            return null;
+        }
+
+        const [decision] = await this.decisionRepository.findByPolicyId(policyId);
+        const waiting = (decision?.reviewStatus || decision?.status) === UnderwritingStatus.PENDING_DOCUMENTS;
+
+        const checklist = await this.saveChecklist(policy, policy.type, waiting);
+        if (!decision || !waiting || checklist.pendingSince) {
+            return checklist;
+        }
+
+        const timestamp = new Date();
+        const queued = await this.decisionRepository.updateReview(decision.id, {
+            reviewStatus: UnderwritingStatus.IN_REVIEW,
+            reviewHistory: [...(decision.reviewHistory || []), {
+                timestamp,
+                reviewer: userId || 'AUTOMATED_ENGINE',
+                action: 'DOCUMENTS_RECEIVED',
+                notes: 'Every checklist item has been received',
+                previousStatus: UnderwritingStatus.PENDING_DOCUMENTS,
+                newStatus: UnderwritingStatus.IN_REVIEW
+            }],
+            referredTo: null
+        });
+
+        if (queued) {
+            await this.assignDecision(queued, policy, {
+                assignedBy: userId || 'AUTOMATED_ENGINE',
+                reason: 'Submission complete; returned to the review queue'
+            });
+        }
+
+        const paused = (await this.slaClockRepository.findRunning(policyId)).some(clock => clock.pausedAt);
+        if (paused) {
+            await this.resumeSla(policyId, userId);
+        }
+
+        this.eventEmitter.emit('underwriting.checklist.completed', { policyId, brokerId: policy.brokerId || null });
+        this.logger.info('Submission checklist complete; returned to review queue', { policyId, userId });
+
+        return checklist;
+    }
+
+    /**
+     * Re-checks every submission waiting on documents, returning complete ones to the
+     * review queue and reminding brokers of outstanding items on the
+     * CHECKLIST_REMINDER_HOURS schedule; intended to be called on a schedule
+     * @param at Time of the check
+     * @returns Number of submissions checked and requeued, and the reminders sent
+     */
+    public async sendChecklistReminders(at: Date = new Date()): Promise<{
+        checked: number;
+        requeued: number;
+        reminders: IChecklistReminder[];
+    }> {
+        const pending = await this.checklistRepository.findPending();
+        const reminders: IChecklistReminder[] = [];
+        let requeued = 0;
+
+        for (const { policyId } of pending) {
+            const checklist = await this.refreshChecklist(policyId);
+            if (!checklist) {
+                continue;
+            }
+            if (!checklist.pendingSince) {
+                requeued++;
+                continue;
+            }
+            if (!isReminderDue(checklist, at)) {
+                continue;
+            }
+
+            const policy = await this.policyRepository.findById(policyId);
+            const reminder: IChecklistReminder = {
+                policyId,
+                brokerId: policy?.brokerId || null,
+                missing: missingItems(checklist.items),
+                reminderNumber: checklist.remindersSent + 1
+            };
+
+            await this.checklistRepository.recordReminder(policyId, at);
+            this.eventEmitter.emit('underwriting.checklist.reminder', reminder);
+            reminders.push(reminder);
+        }
+
+        this.logger.info('Submission checklist reminders sent', {
+            checked: pending.length,
+            requeued,
+            reminders: reminders.length
+        });
+
+        return { checked: pending.length, requeued, reminders };
+    }
+
+    /**
+     * Lists the location zone datasets in use
+     * @returns Latest vintage of each peril's dataset
+     */
+    public async listLocationZoneDatasets(): Promise<ILocationZoneDataset[]> {
+        return this.locationZoneRepository.findLatest();
+    }
+
+    /**
+     * Imports a new vintage of a peril's location zone dataset; assessments made
+     * afterwards resolve addresses against it
+     * @param data Dataset contents
+     * @param userId User importing the dataset
+     * @returns Imported dataset
+     */
+    public async importLocationZones(data: unknown, userId?: string): Promise<ILocationZoneDataset> {
+        const dataset = await this.locationZoneRepository.import(data);
+
+        this.eventEmitter.emit('underwriting.locationZones.imported', {
+            peril: dataset.peril,
+            vintage: dataset.vintage,
+            importedBy: userId
+        });
+        this.logger.info('Location zone dataset imported', { peril: dataset.peril, vintage: dataset.vintage, userId });
+
+        return dataset;
+    }
+
+    /**
+     * Explains a submission's risk score factor by factor. The factors of the latest
+     * decision are used so the breakdown matches what was decided; submissions not yet
+     * decided are assessed.
+     * @param policyId Policy identifier
+     * @returns Breakdown, or null when the policy does not exist
+     */
+    public async getRiskBreakdown(policyId: string): Promise<IRiskScoreBreakdown | null> {
+        const [latest] = await this.decisionRepository.findByPolicyId(policyId);
+
+        let factors: IRiskFactor[];
+        let assessedAt: Date;
+        if (latest) {
+            factors = latest.riskFactors;
+            assessedAt = latest.decidedAt;
+        } else {
+            const policy = await this.policyRepository.findById(policyId);
+            if (!policy) {
+                return null;
+            }
+            const assessment = await this.assessRisk(policyId, policy.type);
+            factors = assessment.riskFactors;
+            assessedAt = assessment.assessmentDate;
+        }
+
+        const breakdown = buildRiskBreakdown(factors);
+
+        return {
+            policyId,
+            riskScore: breakdown.riskScore,
+            source: latest ? 'DECISION' : 'ASSESSMENT',
+            assessedAt,
+            contributions: breakdown.contributions,
+            missingFactors: breakdown.missingFactors,
+            missingInputs: breakdown.missingInputs
+        };
+    }
+
+    /**
+     * Screens a risk for appetite before a full submission, against the product
+     * definition in effect and the active underwriting rules on policy fields
+     * @param request Policy type, class code, state, revenue and requested limits
+     * @returns In appetite, refer or out of appetite, with the reasons
+     */
+    public async checkAppetite(request: IAppetiteCheckRequest): Promise<IAppetiteCheckResult> {
+        const checkedAt = new Date();
+        const [definition, rules] = await Promise.all([
+            this.productDefinitionRepository.findEffective(request.policyType, request.effectiveDate || checkedAt),
+            this.ruleRepository.findActive(request.policyType)
+        ]);
+
+        const { outcome, reasons } = checkAppetite(request, definition, rules);
+
+        this.logger.info('Appetite checked', {
+            policyType: request.policyType,
+            classCode: request.classCode,
+            state: request.state,
+            outcome,
+            reasons: reasons.map(reason => reason.code)
+        });
+
+        return {
+            policyType: request.policyType,
+            outcome,
+            reasons,
+            productVersion: definition?.version || null,
+            checkedAt
+        };
+    }
+
+    /**
+     * Starts re-scoring every in-force policy under the current risk factor weights.
+     * The run continues in the background; its progress is read with getRescoreRun.
+     * @param request Policy type to limit the run to, dry run, chunk size and concurrency
+     * @param userId User starting the run
+     * @returns Run as started
+     */
+    public async startRescore(request: IRescoreRequest, userId?: string): Promise<IRescoreRun> {
+        const totalPolicies = await this.policyRepository.countInStatuses(this.IN_FORCE_STATUSES, request.policyType);
+
+        const run = await this.rescoreRepository.createRun({
+            policyType: request.policyType || null,
+            dryRun: request.dryRun === true,
+            chunkSize: request.chunkSize || RESCORE_LIMITS.DEFAULT_CHUNK_SIZE,
+            concurrency: request.concurrency || RESCORE_LIMITS.DEFAULT_CONCURRENCY,
+            status: 'RUNNING',
+            totalPolicies,
+            processed: 0,
+            bandChanges: 0,
+            failures: [],
+            lastPolicyId: null,
+            startedBy: userId || null,
+            startedAt: new Date(),
+            completedAt: null,
+            error: null
+        });
+
+        this.launchRescore(run.id);
+        return run;
+    }
+
+    /**
+     * Resumes a re-scoring run that failed or whose process stopped, from the last
+     * chunk it finished
+     * @param runId Run identifier
+     * @param userId User resuming the run
+     * @returns Run as resumed, or null when it does not exist
+     */
+    public async resumeRescore(runId: string, userId?: string): Promise<IRescoreRun | null> {
+        const run = await this.rescoreRepository.findRunById(runId);
+        if (!run) {
+            return null;
+        }
+        if (run.status === 'COMPLETED') {
+            throw new Error(`Re-scoring run ${runId} has already completed`);
+        }
+        if (this.activeRescoreRuns.has(runId)) {
+            throw new Error(`Re-scoring run ${runId} is already in progress`);
+        }
+
+        // Claimed before the status update so a second resume arriving meanwhile is refused
+        this.activeRescoreRuns.add(runId);
+        let resumed: IRescoreRun | null;
+        try {
+            resumed = await this.rescoreRepository.updateRun(runId, { status: 'RUNNING', error: null });
+        } catch (error) {
+            this.activeRescoreRuns.delete(runId);
+            throw error;
+        }
+
+        this.logger.info('Re-scoring run resumed', {
+            runId,
+            processed: run.processed,
+            totalPolicies: run.totalPolicies,
+            userId
+        });
+
+        this.launchRescore(runId);
+        return resumed;
+    }
+
+    /**
+     * Re-scores the in-force book in chunks of the run's size, scoring up to the run's
+     * concurrency at once. Each policy gets a new assessment version; the old and new
+     * scores are recorded, and policies whose risk band changed are flagged for
+     * renewal review. Dry runs record results without touching policies. Progress is
+     * saved after each chunk so a crashed run resumes where it stopped.
+     * @param runId Run identifier
+     * @returns Completed run
+     */
+    public async runRescore(runId: string): Promise<IRescoreRun> {
+        let run = await this.rescoreRepository.findRunById(runId);
+        if (!run) {
+            throw new Error(`Re-scoring run not found: ${runId}`);
+        }
+
+        this.activeRescoreRuns.add(runId);
+        const startTime = Date.now();
+
+        try {
+            for (;;) {
+                const policies: IPolicy[] = await this.policyRepository.findPageAfter(
+                    this.IN_FORCE_STATUSES,
+                    run.lastPolicyId,
+                    run.chunkSize,
+                    run.policyType || undefined
+                );
+                const lastPolicy = policies[policies.length - 1];
+                if (!lastPolicy) {
+                    break;
+                }
+
+                // Policies re-scored before a crash keep their result
+                const recorded = new Map((await this.rescoreRepository.findResultsForPolicies(
+                    runId,
+                    policies.map(policy => policy.id)
+                )).map(result => [result.policyId, result]));
+
+                const current = run;
+                const outcomes = await mapWithConcurrency(policies, run.concurrency, policy =>
+                    this.rescorePolicy(current, policy, recorded.get(policy.id)));
+
+                const failures: IRescoreFailure[] = [];
+                let bandChanges = 0;
+                policies.forEach((policy, index) => {
+                    const outcome = outcomes[index];
+                    if (outcome?.status === 'fulfilled') {
+                        bandChanges += outcome.value.bandChanged ? 1 : 0;
+                    } else if (outcome) {
+                        failures.push({ policyId: policy.id, error: outcome.reason?.message || String(outcome.reason) });
+                    }
+                });
+
+                run = (await this.rescoreRepository.updateRun(runId, {
+                    processed: run.processed + policies.length,
+                    bandChanges: run.bandChanges + bandChanges,
+                    failures: [...run.failures, ...failures],
+                    lastPolicyId: lastPolicy.id
+                }))!;
+
+                this.eventEmitter.emit('underwriting.rescore.progress', {
+                    runId,
+                    processed: run.processed,
+                    totalPolicies: run.totalPolicies,
+                    bandChanges: run.bandChanges,
+                    failed: run.failures.length
+                });
+            }
+
+            run = (await this.rescoreRepository.updateRun(runId, {
+                status: 'COMPLETED',
+                completedAt: new Date()
+            }))!;
+
+            this.eventEmitter.emit('underwriting.rescore.completed', run);
+
+            this.logger.info('Re-scoring run completed', {
+                runId,
+                dryRun: run.dryRun,
+                processed: run.processed,
+                bandChanges: run.bandChanges,
+                failed: run.failures.length,
+                duration: Date.now() - startTime
+            });
+
+            return run;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await this.rescoreRepository.updateRun(runId, { status: 'FAILED', error: message });
+            this.logger.error('Re-scoring run failed', {
+                runId,
+                processed: run.processed,
+                error: message
+            });
+            throw error;
+        } finally {
+            this.activeRescoreRuns.delete(runId);
+        }
+    }
+
+    /**
+     * Retrieves a re-scoring run and its progress
+     * @param runId Run identifier
+     * @returns Run, or null when it does not exist
+     */
+    public async getRescoreRun(runId: string): Promise<IRescoreRun | null> {
+        return this.rescoreRepository.findRunById(runId);
+    }
+
+    /**
+     * Lists the most recent re-scoring runs
+     * @returns Runs, most recently started first
+     */
+    public async listRescoreRuns(): Promise<IRescoreRun[]> {
+        return this.rescoreRepository.findRecentRuns();
+    }
+
+    /**
+     * Retrieves the old and new scores recorded by a re-scoring run
+     * @param runId Run identifier
+     * @param options Whether to return only band changes, and paging
+     * @returns Results, band changes first
+     */
+    public async getRescoreResults(
+        runId: string,
+        options: { bandChanged?: boolean; limit?: number; offset?: number } = {}
+    ): Promise<IRescoreResult[]> {
+        return this.rescoreRepository.findResults(runId, options);
+    }
+
+    /**
+     * Lists underwriter authority matrices
+     * @returns Authorities ordered by maximum limit
+     */
+    public async listAuthorities(): Promise<IUnderwriterAuthority[]> {
+        return this.authorityRepository.findAll();
+    }
+
+    /**
+     * Sets an underwriter's authority matrix and referral target
+     * @param authorityData Authority matrix
+     * @param userId Underwriting manager making the change
+     * @returns Saved authority
+     */
+    public async setAuthority(
+        authorityData: Omit<UnderwriterAuthorityInput, 'updatedBy'>,
+        userId?: string
+    ): Promise<IUnderwriterAuthority> {
+        const authority = await this.authorityRepository.upsert({
+            ...authorityData,
+            ...(userId ? { updatedBy: userId } : {})
+        });
+
+        this.eventEmitter.emit('underwriting.authority.updated', { authority, updatedBy: userId });
+        this.logger.info('Underwriter authority updated', { underwriterId: authority.userId, userId });
+
+        return authority;
+    }
+
+    /**
+     * Lists underwriting rules
+     * @param filter Optional policy type, action and active filter
+     * @returns Rules in evaluation order
+     */
+    public async listRules(filter: UnderwritingRuleFilter = {}): Promise<IUnderwritingRule[]> {
+        return this.ruleRepository.findAll(filter);
+    }
+
+    /**
+     * Retrieves an underwriting rule
+     * @param ruleId Rule identifier
+     * @returns Rule, or null when none exists
+     */
+    public async getRule(ruleId: string): Promise<IUnderwritingRule | null> {
+        return this.ruleRepository.findById(ruleId);
+    }
+
+    /**
+     * Creates an underwriting rule; it takes effect on the next decision
+     * @param ruleData Rule definition
+     * @param userId Underwriting manager creating the rule
+     * @returns Created rule
+     */
+    public async createRule(
+        ruleData: Omit<UnderwritingRuleInput, 'createdBy' | 'updatedBy'>,
+        userId?: string
+    ): Promise<IUnderwritingRule> {
+        const rule = await this.ruleRepository.create({
+            ...ruleData,
+            ...(userId ? { createdBy: userId, updatedBy: userId } : {})
+        });
+
+        this.eventEmitter.emit('underwriting.rule.created', rule);
+        this.logger.info('Underwriting rule created', { ruleId: rule.id, userId });
+
+        return rule;
+    }
+
+    /**
+     * Updates an underwriting rule; the change applies to the next decision
+     * @param ruleId Rule identifier
+     * @param updates Fields to change
+     * @param userId Underwriting manager changing the rule
+     * @returns Updated rule, or null when none exists
+     */
+    public async updateRule(
+        ruleId: string,
+        updates: Partial<Omit<UnderwritingRuleInput, 'createdBy' | 'updatedBy'>>,
+        userId?: string
+    ): Promise<IUnderwritingRule | null> {
+        const rule = await this.ruleRepository.update(ruleId, {
+            ...updates,
+            ...(userId ? { updatedBy: userId } : {})
+        });
+
+        if (rule) {
+            this.eventEmitter.emit('underwriting.rule.updated', rule);
+            this.logger.info('Underwriting rule updated', { ruleId, userId, fields: Object.keys(updates) });
+        }
+
+        return rule;
+    }
+
+    /**
+     * Deletes an underwriting rule
+     * @param ruleId Rule identifier
+     * @param userId Underwriting manager deleting the rule
+     * @returns Whether a rule was deleted
+     */
+    public async deleteRule(ruleId: string, userId?: string): Promise<boolean> {
+        const deleted = await this.ruleRepository.delete(ruleId);
+
+        if (deleted) {
+            this.eventEmitter.emit('underwriting.rule.deleted', { ruleId, deletedBy: userId });
+            this.logger.info('Underwriting rule deleted', { ruleId, userId });
+        }
+
+        return deleted;
+    }
+
+    /**
+     * Returns the active risk score thresholds, risk factor weights and auto-approval
+     * criteria so clients render risk bands from the same values the engine uses.
+     * The low and high risk thresholds are read from the active rules that apply to
+     * every policy type, falling back to the defaults when no rule sets them, and the
+     * version changes whenever one of those rules does.
+     * @returns Versioned underwriting configuration
+     */
+    public async getUnderwritingConfig(): Promise<IUnderwritingConfig> {
+        const rules = (await this.ruleRepository.findAll({ active: true }))
+            .filter(rule => rule.policyType === null);
+        const lowRisk = riskScoreBoundary(rules, 'APPROVE') ?? RISK_SCORE_THRESHOLDS.LOW_RISK;
+        const highRisk = riskScoreBoundary(rules, 'REFER') ?? RISK_SCORE_THRESHOLDS.HIGH_RISK;
+
+        return {
+            version: rules.length > 0
+                ? `${UNDERWRITING_CONFIG_VERSION}+${ruleSetDigest(rules)}`
+                : UNDERWRITING_CONFIG_VERSION,
+            riskScoreThresholds: {
+                lowRisk,
+                mediumRisk: RISK_SCORE_THRESHOLDS.MEDIUM_RISK,
+                highRisk
+            },
+            riskFactorWeights: { ...RISK_FACTOR_WEIGHTS },
+            autoApprovalCriteria: {
+                maxRiskScore: lowRisk,
+                minYearsInBusiness: AUTO_APPROVAL_CRITERIA.MIN_YEARS_IN_BUSINESS,
+                maxClaimsCount: AUTO_APPROVAL_CRITERIA.MAX_CLAIMS_COUNT,
+                maxClaimsAmount: AUTO_APPROVAL_CRITERIA.MAX_CLAIMS_AMOUNT,
+                minCreditScore: AUTO_APPROVAL_CRITERIA.MIN_CREDIT_SCORE,
+                requiredDocumentsComplete: AUTO_APPROVAL_CRITERIA.REQUIRED_DOCUMENTS_COMPLETE
+            }
+        };
+    }
+
+    /**
+     * Replays historical decisions against candidate rules and/or risk factor weights
+     * and reports the decisions that would change. The most recent decision per policy
+     * in the window is replayed; candidates left out fall back to the current configuration.
+     * @param request Candidate rules, weights and the decisions to replay
+     * @returns Diff report of changed decisions
+     */
+    public async simulateRules(request: IRuleSimulationRequest): Promise<IRuleSimulationReport> {
+        const startTime = Date.now();
+
+        const records = await this.decisionRepository.findForReplay({
+            ...(request.policyType ? { policyType: request.policyType } : {}),
+            ...(request.from ? { from: request.from } : {}),
+            ...(request.to ? { to: request.to } : {}),
+            limit: request.limit || this.DEFAULT_SIMULATION_LIMIT
+        });
+
+        // Latest decision per policy; records arrive most recent first
+        const latest = new Map<string, typeof records[number]>();
+        records.forEach(record => {
+            if (!latest.has(record.policyId)) {
+                latest.set(record.policyId, record);
+            }
+        });
+
+        const candidateRules: IUnderwritingRule[] | null = request.rules
+            ? request.rules.map((rule, index) => ({ ...rule, id: rule.id || `candidate-${index + 1}` }))
+            : null;
+        const currentRules = new Map<PolicyType, IUnderwritingRule[]>();
+
+        const changes: IDecisionChange[] = [];
+        const transitions = new Map<string, IDecisionTransition>();
+
+        for (const record of latest.values()) {
+            let rules: IUnderwritingRule[];
+            if (candidateRules) {
+                rules = candidateRules.filter(rule =>
+                    rule.active !== false && (!rule.policyType || rule.policyType === record.policyType)
+                );
+            } else {
+                if (!currentRules.has(record.policyType)) {
+                    currentRules.set(record.policyType, await this.ruleRepository.findActive(record.policyType));
+                }
+                rules = currentRules.get(record.policyType)!;
+            }
+
+            const simulatedRiskScore = request.riskFactorWeights
+                ? Number(this.calculateWeightedRiskScore(record.riskFactors, request.riskFactorWeights).toFixed(2))
+                : record.riskScore;
+
+            const assessment: IRiskAssessment = {
+                policyId: record.policyId,
+                riskScore: simulatedRiskScore,
+                riskFactors: record.riskFactors,
+                assessmentDate: record.decidedAt,
+                assessedBy: 'SIMULATION',
+                policyType: record.policyType,
+                validationErrors: [],
+                lastModified: record.decidedAt,
+                version: 1
+            };
+
+            const result = evaluateRules(rules, buildRuleContext(record.policySnapshot, assessment));
+            const simulatedStatus = RULE_ACTION_STATUS[result.action];
+
+            if (simulatedStatus === record.status) {
+                continue;
+            }
+
+            changes.push({
+                policyId: record.policyId,
+                policyNumber: record.policySnapshot.policyNumber,
+                policyType: record.policyType,
+                premium: record.premium,
+                originalStatus: record.status,
+                simulatedStatus,
+                originalRiskScore: record.riskScore,
+                simulatedRiskScore,
+                firedRuleIds: result.firedRuleIds,
+                decidedAt: record.decidedAt
+            });
+
+            const key = `${record.status}->${simulatedStatus}`;
+            const transition = transitions.get(key) || { from: record.status, to: simulatedStatus, count: 0, premium: 0 };
+            transition.count++;
+            transition.premium = Number((transition.premium + record.premium).toFixed(2));
+            transitions.set(key, transition);
+        }
+
+        const report: IRuleSimulationReport = {
+            decisionsEvaluated: latest.size,
+            decisionsChanged: changes.length,
+            premiumAffected: Number(changes.reduce((sum, change) => sum + change.premium, 0).toFixed(2)),
+            transitions: Array.from(transitions.values()).sort((a, b) => b.count - a.count),
+            changes: changes.sort((a, b) => b.premium - a.premium),
+            candidate: {
+                ruleCount: candidateRules
+                    ? candidateRules.length
+                    : new Set(Array.from(currentRules.values()).flat().map(rule => rule.id)).size,
+                usesCurrentRules: !candidateRules,
+                riskFactorWeights: request.riskFactorWeights || { ...RISK_FACTOR_WEIGHTS }
+            },
+            simulatedAt: new Date()
+        };
+
+        this.logger.info('Completed underwriting rule simulation', {
+            decisionsEvaluated: report.decisionsEvaluated,
+            decisionsChanged: report.decisionsChanged,
+            duration: Date.now() - startTime
+        });
+
+        return report;
+    }
+
+    /**
+     * Runs a re-scoring run in the background, recording why it failed
+     * @private
+     */
+    private launchRescore(runId: string): void {
+        // Registered before the run's first await so a resume arriving meanwhile is refused
+        this.activeRescoreRuns.add(runId);
+        this.runRescore(runId)
+            .catch(error => {
+                this.logger.error('Re-scoring run stopped', { runId, error: error.message });
+            })
+            .finally(() => this.activeRescoreRuns.delete(runId));
+    }
+
+    /**
+     * Re-scores one policy in a run and, unless the run is a dry run, writes the new
+     * score and assessment version to the policy. A result recorded before a crash
+     * is written to the policy if it had not been yet, without scoring again.
+     * @private
+     */
+    private async rescorePolicy(
+        run: IRescoreRun,
+        policy: IPolicy,
+        recorded?: IRescoreResult
+    ): Promise<IRescoreResult> {
+        let result = recorded;
+        if (!result) {
+            const riskFactors = await this.calculateRiskFactors(policy as unknown as Policy, policy.type);
+            result = await this.rescoreRepository.recordResult(
+                buildRescoreResult(run.id, policy, this.calculateWeightedRiskScore(riskFactors))
+            );
+        }
+
+        if (run.dryRun || !isResultPending(result, policy)) {
+            return result;
+        }
+
+        await this.policyRepository.update(policy.id, {
+            underwritingInfo: {
+                ...policy.underwritingInfo,
+                riskScore: result.newScore,
+                riskAssessmentVersion: result.newVersion,
+                ...(result.bandChanged ? { renewalReview: renewalReviewFlag(result) } : {})
+            }
+        });
+
+        // Assessments cached under the old weights would otherwise be served for up to an hour
+        await this.cacheManager.del(`${this.RISK_ASSESSMENT_PREFIX}${policy.id}`);
+
+        return result;
+    }
+
     /**
      * Calculates risk factors based on policy data
      * @private
@@ -199,13 +1472,244 @@ export class UnderwritingService {
         return factors;
     }
 
+    /**
+     * Assesses location risk by resolving the policyholder's address against the
+     * catastrophe-zone datasets
+     * @private
+     */
+    private async assessLocationRisk(policy: Policy): Promise<IRiskFactor> {
+        const datasets = await this.locationZoneRepository.findLatest();
+        const address = (policy as Partial<IPolicy>).policyHolder?.address;
+        return assessLocationZones(datasets, address, RISK_FACTOR_WEIGHTS.LOCATION_RISK);
+    }
+
+    /**
+     * Checks whether a decision is waiting on an underwriter
+     * @param decision Decision record
+     * @returns Whether the review outcome, or automated status when unreviewed, is in review or referred
+     */
+    private isOpen(decision: IUnderwritingDecisionRecord): boolean {
+        const status = decision.reviewStatus || decision.status;
+        return status === UnderwritingStatus.IN_REVIEW || status === UnderwritingStatus.REFERRED;
+    }
+
+    /**
+     * Assigns a decision to a named underwriter or one picked by an assignment strategy,
+     * recording the assignment in the review history. Decisions nobody is eligible for
+     * are left as they are.
+     * @param decision Decision record
+     * @param policy Policy the decision was made on
+     * @param options Assignee or strategy, underwriters to skip, and who assigned it and why
+     * @returns Updated decision record
+     */
+    private async assignDecision(
+        decision: IUnderwritingDecisionRecord,
+        policy: IPolicy,
+        options: {
+            assigneeId?: string;
+            strategy?: AssignmentStrategy;
+            exclude?: string[];
+            assignedBy: string;
+            reason: string;
+        }
+    ): Promise<IUnderwritingDecisionRecord | null> {
+        let assignee = options.assigneeId || null;
+
+        if (!assignee) {
+            const [authorities, open] = await Promise.all([
+                this.authorityRepository.findAll(),
+                this.decisionRepository.findOpen()
+            ]);
+
+            const workload: Record<string, number> = {};
+            open.forEach(openDecision => {
+                if (openDecision.assignedTo) {
+                    workload[openDecision.assignedTo] = (workload[openDecision.assignedTo] || 0) + 1;
+                }
+            });
+
+            assignee = selectAssignee(
+                options.strategy || this.ASSIGNMENT_STRATEGY,
+                authorities,
+                workload,
+                buildAuthorityRequirement(policy, decision.riskScore),
+                options.exclude
+            );
+        }
+
+        if (!assignee) {
+            this.logger.warn('No underwriter available for assignment', {
+                policyId: decision.policyId,
+                strategy: options.strategy || this.ASSIGNMENT_STRATEGY
+            });
+            return decision;
+        }
+
+        const status = decision.reviewStatus || decision.status;
+        const assignedAt = new Date();
+
+        const assigned = await this.decisionRepository.updateAssignment(decision.id, {
+            assignedTo: assignee,
+            assignedAt,
+            reviewHistory: [...(decision.reviewHistory || []), {
+                timestamp: assignedAt,
+                reviewer: options.assignedBy,
+                action: decision.assignedTo ? 'REASSIGNED' : 'ASSIGNED',
+                notes: options.reason,
+                previousStatus: status,
+                newStatus: status,
+                assignedTo: assignee
+            }]
+        });
+        await this.authorityRepository.update(assignee, { lastAssignedAt: assignedAt });
+
+        this.eventEmitter.emit('underwriting.decision.assigned', {
+            policyId: decision.policyId,
+            assignedTo: assignee,
+            previousAssignee: decision.assignedTo || null
+        });
+
+        return assigned;
+    }
+
+    /**
+     * Maps an underwriting outcome to the SLA stage it leads to
+     * @param status Automated or review outcome
+     * @returns Next stage, or null when underwriting is over
+     */
+    private slaStageFor(status: UnderwritingStatus): SlaStage | null {
+        switch (status) {
+            case UnderwritingStatus.IN_REVIEW:
+            case UnderwritingStatus.PENDING_REVIEW:
+            case UnderwritingStatus.PENDING_DOCUMENTS:
+                return 'REVIEW';
+            case UnderwritingStatus.REFERRED:
+                return 'REFERRAL';
+            case UnderwritingStatus.APPROVED:
+                return 'QUOTE_ISSUED';
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Starts a submission's intake clock from when it was submitted, unless it has clocks already
+     * @param policy Submitted policy
+     */
+    private async startIntakeClock(policy: IPolicy): Promise<void> {
+        const clocks = await this.slaClockRepository.findByPolicyId(policy.id);
+        if (clocks.length > 0) {
+            return;
+        }
+
+        await this.slaClockRepository.create({
+            policyId: policy.id,
+            stage: 'INTAKE',
+            targetMinutes: SLA_TARGET_MINUTES.INTAKE,
+            startedAt: policy.createdAt ? new Date(policy.createdAt) : new Date(),
+            pausedAt: null,
+            pauseReason: null,
+            pausedMinutes: 0,
+            completedAt: null,
+            alertLevel: 'ON_TRACK'
+        });
+    }
+
+    /**
+     * Checks a submission against its product's required documents and fields and
+     * stores the checklist. Reminder history carries over while it stays pending.
+     * @param policy Submitted policy
+     * @param policyType Policy type
+     * @param waitOnMissing Whether missing items put the submission in pending documents
+     * @returns Stored checklist
+     */
+    private async saveChecklist(
+        policy: IPolicy,
+        policyType: PolicyType,
+        waitOnMissing: boolean
+    ): Promise<ISubmissionChecklist> {
+        const at = new Date();
+        const [definition, previous] = await Promise.all([
+            this.productDefinitionRepository.findEffective(policyType, policy.effectiveDate ? new Date(policy.effectiveDate) : at),
+            this.checklistRepository.findByPolicyId(policy.id)
+        ]);
+
+        const items = buildChecklist(definition, policy, previous?.items, at);
+        const complete = missingItems(items).length === 0;
+        const stillPending = Boolean(previous?.pendingSince) && waitOnMissing && !complete;
+
+        return this.checklistRepository.upsert({
+            policyId: policy.id,
+            policyType,
+            items,
+            pendingSince: waitOnMissing && !complete ? previous?.pendingSince || at : null,
+            completedAt: complete ? previous?.completedAt || at : null,
+            remindersSent: previous && stillPending ? previous.remindersSent : 0,
+            lastRemindedAt: previous && stillPending ? previous.lastRemindedAt : null
+        });
+    }
+
+    /**
+     * Stops a submission's running clocks and starts the clock of its next stage.
+     * A clock already running for the next stage keeps running.
+     * @param policyId Policy identifier
+     * @param stage Next stage, or null when underwriting is over
+     * @param at Time of the transition
+     */
+    private async advanceSla(policyId: string, stage: SlaStage | null, at: Date): Promise<void> {
+        const running = await this.slaClockRepository.findRunning(policyId);
+
+        for (const clock of running.filter(runningClock => runningClock.stage !== stage)) {
+            await this.slaClockRepository.update(clock.id, {
+                completedAt: at,
+                pausedAt: null,
+                pausedMinutes: clock.pausedMinutes + pausedSince(clock, at)
+            });
+        }
+
+        if (stage && !running.some(clock => clock.stage === stage)) {
+            await this.slaClockRepository.create({
+                policyId,
+                stage,
+                targetMinutes: SLA_TARGET_MINUTES[stage],
+                startedAt: at,
+                pausedAt: null,
+                pauseReason: null,
+                pausedMinutes: 0,
+                completedAt: null,
+                alertLevel: 'ON_TRACK'
+            });
+        }
+    }
+
+    /**
+     * Finds who is alerted about a submission's SLA: its assigned underwriter and
+     * the underwriter they refer to
+     * @param policyId Policy identifier
+     * @returns Recipient user IDs; empty while nobody is assigned
+     */
+    private async slaAlertRecipients(policyId: string): Promise<string[]> {
+        const [decision] = await this.decisionRepository.findByPolicyId(policyId);
+        if (!decision?.assignedTo) {
+            return [];
+        }
+
+        const authority = await this.authorityRepository.findByUserId(decision.assignedTo);
+        return authority?.refersToUserId
+            ? [decision.assignedTo, authority.refersToUserId]
+            : [decision.assignedTo];
+    }
+
     /**
      * Calculates weighted risk score from factors
      * @private
      */
-    private calculateWeightedRiskScore(factors: IRiskFactor[]): number {
+    private calculateWeightedRiskScore(
+        factors: IRiskFactor[],
+        weights: Record<string, number> = RISK_FACTOR_WEIGHTS
+    ): number {
         return factors.reduce((score, factor) => {
-            const weight = RISK_FACTOR_WEIGHTS[factor.type] || 0;
+            const weight = weights[factor.type] || 0;
             return score + (factor.score * weight);
         }, 0);
     }
@@ -222,36 +1726,40 @@ export class UnderwritingService {
     }
 
     /**
-     * Applies underwriting decision rules
+     * Applies the declarative underwriting rules to a risk assessment
      * @private
      */
-    private applyDecisionRules(assessment: IRiskAssessment, policyType: PolicyType): {
+    private async applyDecisionRules(
+        assessment: IRiskAssessment,
+        policyType: PolicyType,
+        policy: IPolicy
+    ): Promise<{
         status: UnderwritingStatus;
         notes: string;
         conditions: string[];
-    } {
-        const { riskScore } = assessment;
+        firedRuleIds: string[];
+    }> {
+        const rules = await this.ruleRepository.findActive(policyType);
+        const result = evaluateRules(rules, buildRuleContext(policy, assessment));
 
-        if (riskScore <= RISK_SCORE_THRESHOLDS.LOW_RISK) {
-            return {
-                status: UnderwritingStatus.APPROVED,
-                notes: 'Automatically approved based on low risk score',
-                conditions: []
-            };
-        }
+        const firedRules = rules.filter(rule => result.firedRuleIds.includes(rule.id));
 
-        if (riskScore >= RISK_SCORE_THRESHOLDS.HIGH_RISK) {
-            return {
-                status: UnderwritingStatus.REFERRED,
-                notes: 'Referred for manual review due to high risk score',
-                conditions: ['Requires senior underwriter review']
-            };
-        }
+        this.logger.debug('Evaluated underwriting rules', {
+            policyId: assessment.policyId,
+            action: result.action,
+            evaluatedRuleCount: result.evaluatedRuleCount,
+            firedRuleIds: result.firedRuleIds
+        });
 
         return {
-            status: UnderwritingStatus.IN_REVIEW,
-            notes: 'Pending standard underwriter review',
-            conditions: ['Standard review required']
+            status: RULE_ACTION_STATUS[result.action],
+            notes: firedRules.length > 0
+                ? `Underwriting rules returned ${result.action}: ${firedRules.map(rule => rule.name).join(', ')}`
+                : 'No underwriting rule matched; referred for underwriter review',
+            conditions: firedRules
+                .filter(rule => rule.action !== 'APPROVE')
+                .map(rule => rule.description),
+            firedRuleIds: result.firedRuleIds
         };
     }
 
@@ -7,6 +7,7 @@
  */
 
 import { CLAIM_STATUS } from '../constants/claimStatus';
+import type { PolicyStatus } from './policy.types';
 
 /**
  * Interface defining the structure of a claim incident location with detailed address information
@@ -75,6 +76,11 @@ export interface Claim {
   claimantInfo: ClaimantInfo;
   reserveAmount: number;
   paidAmount: number;
+  coverageType?: string;
+  causeOfLoss?: string;
+  coveragePosition?: ClaimCoveragePosition;
+  fraudAssessment?: ClaimFraudAssessment;
+  linkedClaimIds?: string[];
   documents: ClaimDocument[];
   adjusterId: string;
   statusHistory: Array<{
@@ -82,6 +88,7 @@ export interface Claim {
     timestamp: Date;
     notes: string;
     userId: string;
+    action?: PaymentApprovalAction;
   }>;
   createdAt: Date;
   updatedAt: Date;
@@ -94,7 +101,10 @@ export interface Claim {
 export interface CreateClaimRequest {
   policyId: string;
   incidentDate: Date;
+  reportedDate?: Date;
   description: string;
+  coverageType?: string;
+  causeOfLoss?: string;
   location: ClaimLocation;
   claimantInfo: ClaimantInfo;
   initialReserve: number;
@@ -104,6 +114,156 @@ export interface CreateClaimRequest {
     mimeType: string;
     content: Buffer;
   }>;
+  duplicateResolution?: ClaimDuplicateResolution;
+}
+
+/**
+ * How a claim submitted while it has possible duplicates is taken in
+ */
+export enum DuplicateClaimAction {
+  LINK = 'LINK',
+  MERGE = 'MERGE',
+  PROCEED = 'PROCEED'
+}
+
+/**
+ * Interface defining the intake decision on a possible duplicate: create the claim
+ * linked to the existing one, merge the submission into it, or create it anyway
+ */
+export interface ClaimDuplicateResolution {
+  action: DuplicateClaimAction;
+  claimId?: string;
+}
+
+/**
+ * Interface defining an existing claim on the same policy that a submission may
+ * duplicate, with its match score out of 100 and what matched
+ */
+export interface ClaimDuplicateMatch {
+  claimId: string;
+  claimNumber: string;
+  status: CLAIM_STATUS;
+  incidentDate: Date;
+  claimantName: string;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Coverage position taken on a claim at first notice of loss
+ */
+export enum CoverageDetermination {
+  COVERED = 'COVERED',
+  QUESTIONABLE = 'QUESTIONABLE',
+  NOT_COVERED = 'NOT_COVERED'
+}
+
+/**
+ * Interface defining the coverage position attached to a claim at first notice,
+ * from the policy version in force on the incident date. Reasons explain a
+ * questionable or not covered position; warnings, such as late reporting, are
+ * for the adjuster and do not change the position.
+ */
+export interface ClaimCoveragePosition {
+  determination: CoverageDetermination;
+  reasons: string[];
+  warnings: string[];
+  policyNumber: string;
+  policyStatus: PolicyStatus;
+  policyTerm: {
+    effectiveDate: Date;
+    expirationDate: Date;
+  };
+  coverageId?: string;
+  coverageType?: string;
+  deductible?: number;
+  perOccurrenceLimit?: number;
+  exclusions: string[];
+  daysToReport: number;
+  lateReport: boolean;
+  verifiedAt: Date;
+}
+
+/**
+ * Fraud indicators the claims fraud screening checks for
+ */
+export enum FraudIndicatorCode {
+  EARLY_LOSS = 'EARLY_LOSS',
+  POST_ENDORSEMENT_LOSS = 'POST_ENDORSEMENT_LOSS',
+  REPEAT_CLAIMANT = 'REPEAT_CLAIMANT',
+  ROUND_AMOUNT = 'ROUND_AMOUNT',
+  LOCATION_MISMATCH = 'LOCATION_MISMATCH',
+  DOCUMENTS_BEFORE_INCIDENT = 'DOCUMENTS_BEFORE_INCIDENT'
+}
+
+/**
+ * Interface defining a fraud indicator triggered on a claim and its weight in the score
+ */
+export interface FraudIndicator {
+  code: FraudIndicatorCode;
+  description: string;
+  weight: number;
+}
+
+/**
+ * Claim event that ran the fraud screening
+ */
+export type FraudScreeningTrigger = 'CLAIM_CREATED' | 'STATUS_CHANGED';
+
+/**
+ * Interface defining the latest fraud screening of a claim. The SIU referral score
+ * is the sum of the triggered indicators' weights, capped at 100.
+ */
+export interface ClaimFraudAssessment {
+  score: number;
+  indicators: FraudIndicator[];
+  referred: boolean;
+  trigger: FraudScreeningTrigger;
+  assessedAt: Date;
+}
+
+/**
+ * Status of a claim referral to special investigations
+ */
+export enum SiuReferralStatus {
+  OPEN = 'OPEN',
+  CLOSED = 'CLOSED'
+}
+
+/**
+ * Finding recorded when special investigations close a referral
+ */
+export enum SiuReferralOutcome {
+  CLEARED = 'CLEARED',
+  FRAUD_CONFIRMED = 'FRAUD_CONFIRMED'
+}
+
+/**
+ * Interface defining a claim referred to the special investigations queue because
+ * its fraud screening score reached the referral threshold
+ */
+export interface SiuReferral {
+  id: string;
+  claimId: string;
+  claimNumber: string;
+  score: number;
+  indicators: FraudIndicator[];
+  status: SiuReferralStatus;
+  referredAt: Date;
+  outcome?: SiuReferralOutcome;
+  notes?: string;
+  closedBy?: string;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for closing a special investigations referral
+ */
+export interface CloseSiuReferralRequest {
+  outcome: SiuReferralOutcome;
+  notes: string;
 }
 
 /**
@@ -115,4 +275,189 @@ export interface UpdateClaimStatusRequest {
   notes: string;
   adjusterId: string;
   reserveAmount: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Types of entry in a claim's financial ledger. Reserve changes carry a signed
+ * amount; every other entry carries a positive amount.
+ */
+export enum ClaimTransactionType {
+  INDEMNITY_PAYMENT = 'INDEMNITY_PAYMENT',
+  EXPENSE_PAYMENT = 'EXPENSE_PAYMENT',
+  RESERVE_CHANGE = 'RESERVE_CHANGE',
+  DEDUCTIBLE_RECOVERY = 'DEDUCTIBLE_RECOVERY',
+  SUBROGATION_RECOVERY = 'SUBROGATION_RECOVERY',
+  SALVAGE_RECOVERY = 'SALVAGE_RECOVERY',
+  VOID = 'VOID'
+}
+
+/**
+ * Method by which a payment was issued or a recovery received
+ */
+export type ClaimPaymentMethod = 'CHECK' | 'ACH';
+
+/**
+ * Interface defining one entry in a claim's financial ledger. Entries are never
+ * changed once recorded; a mistake is reversed with a VOID entry.
+ */
+export interface ClaimTransaction {
+  id: string;
+  claimId: string;
+  type: ClaimTransactionType;
+  amount: number;
+  payee?: string;
+  paymentMethod?: ClaimPaymentMethod;
+  reference?: string;
+  approvedBy: string;
+  enteredBy: string;
+  transactionDate: Date;
+  notes?: string;
+  voidsTransactionId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface defining a request to record a ledger entry on a claim
+ */
+export interface RecordClaimTransactionRequest {
+  type: Exclude<ClaimTransactionType, ClaimTransactionType.VOID>;
+  amount: number;
+  payee?: string;
+  paymentMethod?: ClaimPaymentMethod;
+  reference?: string;
+  transactionDate?: Date;
+  notes?: string;
+}
+
+/**
+ * Interface defining a request to void a ledger entry
+ */
+export interface VoidClaimTransactionRequest {
+  approvedBy: string;
+  notes: string;
+}
+
+/**
+ * Interface defining a claim's financial totals as derived from its ledger
+ */
+export interface ClaimFinancials {
+  reserveAmount: number;
+  paidAmount: number;
+  indemnityPaid: number;
+  expensePaid: number;
+  outstandingReserve: number;
+  deductibleRecovered: number;
+  subrogationRecovered: number;
+  salvageRecovered: number;
+  recoveredAmount: number;
+  netIncurred: number;
+}
+
+/**
+ * Interface defining a claim's ledger entries with the totals derived from them
+ */
+export interface ClaimLedger {
+  claimId: string;
+  transactions: ClaimTransaction[];
+  financials: ClaimFinancials;
+  pendingApprovals: ClaimPaymentApproval[];
+}
+
+/**
+ * Interface defining the outcome of a ledger entry request: recorded at once when
+ * within the adjuster's authority, otherwise queued for approval
+ */
+export interface RecordClaimTransactionResult extends ClaimLedger {
+  queuedApproval?: ClaimPaymentApproval;
+}
+
+/**
+ * Interface defining an adjuster's payment and reserve authority. Payments above
+ * `maxPaymentAmount`, and reserve changes leaving the reserve above
+ * `maxReserveAmount`, go to the approval queue.
+ */
+export interface AdjusterAuthority {
+  id: string;
+  userId: string;
+  maxPaymentAmount: number;
+  maxReserveAmount: number;
+  active: boolean;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Status of a queued payment or reserve change
+ */
+export enum PaymentApprovalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED'
+}
+
+/**
+ * Entries written to a claim's status history as queued amounts are decided.
+ * SIGNED_OFF is a first approval of a dual approval; APPROVED is the final one.
+ */
+export enum PaymentApprovalAction {
+  REQUESTED = 'PAYMENT_APPROVAL_REQUESTED',
+  SIGNED_OFF = 'PAYMENT_SIGNED_OFF',
+  APPROVED = 'PAYMENT_APPROVED',
+  REJECTED = 'PAYMENT_REJECTED'
+}
+
+/**
+ * Interface defining a payment or reserve change waiting on approval, with the
+ * approvals given so far. The ledger entry is recorded once the required number of
+ * distinct approvers, none of them the requester, have approved.
+ */
+export interface ClaimPaymentApproval {
+  id: string;
+  claimId: string;
+  type: ClaimTransactionType.INDEMNITY_PAYMENT | ClaimTransactionType.EXPENSE_PAYMENT | ClaimTransactionType.RESERVE_CHANGE;
+  amount: number;
+  payee?: string;
+  paymentMethod?: ClaimPaymentMethod;
+  reference?: string;
+  transactionDate?: Date;
+  notes?: string;
+  requestedBy: string;
+  reasons: string[];
+  requiredApprovals: number;
+  approvals: Array<{
+    userId: string;
+    approvedAt: Date;
+    notes?: string;
+  }>;
+  status: PaymentApprovalStatus;
+  rejectedBy?: string;
+  rejectionReason?: string;
+  decidedAt?: Date;
+  transactionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for setting an adjuster's payment and reserve authority
+ */
+export interface SetAdjusterAuthorityRequest {
+  maxPaymentAmount: number;
+  maxReserveAmount: number;
+  active: boolean;
+}
+
+/**
+ * Interface for approving a queued payment or reserve change
+ */
+export interface ApprovePaymentRequest {
+  notes?: string;
+}
+
+/**
+ * Interface for rejecting a queued payment or reserve change
+ */
+export interface RejectPaymentRequest {
+  reason: string;
+}
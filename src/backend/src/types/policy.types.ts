@@ -5,6 +5,9 @@
  */
 
 import { PolicyType } from '../constants/policyTypes';
+import { IPremiumBreakdown } from './rating.types';
+import { EligibilityAnswer } from './product.types';
+import type { RiskBand } from './underwriting.types';
 
 /**
  * Enum defining all possible policy statuses in the system
@@ -15,6 +18,101 @@ export enum PolicyStatus {
     BOUND = 'BOUND',
     ACTIVE = 'ACTIVE',
     CANCELLED = 'CANCELLED',
+    EXPIRED = 'EXPIRED',
+    PENDING_RENEWAL = 'PENDING_RENEWAL'
+}
+
+/**
+ * Enum defining the renewal status of a policy term (whether its next term has been offered)
+ */
+export enum RenewalStatus {
+    PENDING = 'PENDING',
+    OFFERED = 'OFFERED',
+    NON_RENEWED = 'NON_RENEWED'
+}
+
+/**
+ * Enum defining reasons for a non-renewal decision
+ */
+export enum NonRenewalReason {
+    UNDERWRITING = 'UNDERWRITING',
+    LOSS_HISTORY = 'LOSS_HISTORY',
+    NON_PAYMENT = 'NON_PAYMENT',
+    OUT_OF_APPETITE = 'OUT_OF_APPETITE',
+    INSURED_REQUEST = 'INSURED_REQUEST',
+    CARRIER_WITHDRAWAL = 'CARRIER_WITHDRAWAL'
+}
+
+/**
+ * Enum defining reason codes for mid-term cancellation
+ */
+export enum CancellationReason {
+    INSURED_REQUEST = 'INSURED_REQUEST',
+    NON_PAYMENT = 'NON_PAYMENT',
+    UNDERWRITING = 'UNDERWRITING'
+}
+
+/**
+ * Enum defining return premium calculation methods for cancellation
+ */
+export enum CancellationMethod {
+    PRO_RATA = 'PRO_RATA',
+    SHORT_RATE = 'SHORT_RATE',
+    FLAT = 'FLAT'
+}
+
+/**
+ * Enum defining reinstatement variants
+ * WITH_LAPSE leaves a coverage gap between cancellation and reinstatement;
+ * WITHOUT_LAPSE restores coverage back to the cancellation date
+ */
+export enum ReinstatementType {
+    WITH_LAPSE = 'WITH_LAPSE',
+    WITHOUT_LAPSE = 'WITHOUT_LAPSE'
+}
+
+/**
+ * Enum defining the kinds of subjectivity an underwriter may attach to an approval
+ */
+export enum SubjectivityType {
+    DOCUMENT = 'DOCUMENT',
+    INSPECTION = 'INSPECTION',
+    SIGNATURE = 'SIGNATURE',
+    PAYMENT = 'PAYMENT',
+    OTHER = 'OTHER'
+}
+
+/**
+ * Enum defining the lifecycle of a subjectivity
+ * Open pre-bind subjectivities block binding; open post-bind subjectivities
+ * become overdue once their due date passes
+ */
+export enum SubjectivityStatus {
+    OPEN = 'OPEN',
+    SATISFIED = 'SATISFIED',
+    WAIVED = 'WAIVED'
+}
+
+/**
+ * Enum defining the bound transactions that produce a policy version
+ */
+export enum PolicyTransactionType {
+    NEW_BUSINESS = 'NEW_BUSINESS',
+    ENDORSEMENT = 'ENDORSEMENT',
+    RENEWAL = 'RENEWAL',
+    CANCELLATION = 'CANCELLATION',
+    REINSTATEMENT = 'REINSTATEMENT',
+    STATUS_CHANGE = 'STATUS_CHANGE'
+}
+
+/**
+ * Enum defining the lifecycle of a quote option on a submission
+ * Binding one option supersedes the submission's other open options
+ */
+export enum QuoteStatus {
+    ACTIVE = 'ACTIVE',
+    BOUND = 'BOUND',
+    SUPERSEDED = 'SUPERSEDED',
     EXPIRED = 'EXPIRED'
 }
 
@@ -108,6 +206,10 @@ export interface IAddress {
     state: string;
     zipCode: string;
     country: string;
+    coordinates?: {
+        latitude: number;
+        longitude: number;
+    };
 }
 
 /**
@@ -129,6 +231,7 @@ export interface IPolicyHolder {
     type: PolicyHolderType;
     legalName: string;
     taxId: string;
+    classCode?: string;
     address: IAddress;
     contact: IContact;
     verificationStatus: VerificationStatus;
@@ -192,6 +295,138 @@ export interface IUnderwritingInfo {
     approvalDate?: Date;
     approvedBy?: string;
     specialConditions?: string[];
+    subjectivities?: ISubjectivity[];
+    cancellationNotice?: ISubjectivityCancellationNotice;
+    riskAssessmentVersion?: number;
+    renewalReview?: IRenewalReviewFlag;
+}
+
+/**
+ * Interface defining a flag raised when re-scoring moved an in-force policy into a
+ * different risk band; its renewal is referred to an underwriter
+ */
+export interface IRenewalReviewFlag {
+    runId: string;
+    previousBand: RiskBand | null;
+    newBand: RiskBand;
+    previousScore: number | null;
+    newScore: number;
+    flaggedAt: Date;
+}
+
+/**
+ * Interface defining a condition of an underwriting approval. Pre-bind
+ * subjectivities must be met before binding; post-bind subjectivities are due
+ * a number of days after binding.
+ */
+export interface ISubjectivity {
+    id: string;
+    type: SubjectivityType;
+    description: string;
+    timing: 'PRE_BIND' | 'POST_BIND';
+    dueDays?: number;
+    dueDate?: Date;
+    documentType?: string;
+    documentId?: string;
+    status: SubjectivityStatus;
+    resolvedBy?: string;
+    resolvedAt?: Date;
+    notes?: string;
+    overdueAlertedAt?: Date;
+    createdBy: string;
+    createdAt: Date;
+}
+
+/**
+ * Type defining a subjectivity as requested by an underwriter, before it is tracked
+ */
+export type ISubjectivityRequest = Pick<ISubjectivity, 'type' | 'description' | 'timing'>
+    & Partial<Pick<ISubjectivity, 'dueDays' | 'documentType'>>;
+
+/**
+ * Interface defining a notice of cancellation issued for overdue post-bind subjectivities
+ */
+export interface ISubjectivityCancellationNotice {
+    noticeDate: Date;
+    effectiveDate: Date;
+    issuedBy: string;
+    subjectivityIds: string[];
+    rescindedAt?: Date;
+}
+
+/**
+ * Interface defining a recorded non-renewal decision
+ */
+export interface INonRenewal {
+    reason: NonRenewalReason;
+    noticeDate: Date;
+    decidedBy: string;
+    notes?: string;
+}
+
+/**
+ * Interface defining renewal linkage and status between policy terms
+ */
+export interface IRenewalInfo {
+    termNumber: number;
+    status: RenewalStatus;
+    previousPolicyId?: string;
+    renewalPolicyId?: string;
+    offerDate?: Date;
+    offerExpirationDate?: Date;
+    rateChange?: number;
+    nonRenewal?: INonRenewal;
+}
+
+/**
+ * Interface defining return premium calculation results
+ */
+export interface IReturnPremium {
+    method: CancellationMethod;
+    daysInForce: number;
+    termDays: number;
+    earnedPremium: number;
+    returnPremium: number;
+}
+
+/**
+ * Interface defining a recorded mid-term cancellation
+ */
+export interface ICancellationInfo extends IReturnPremium {
+    cancellationId: string;
+    effectiveDate: Date;
+    reason: CancellationReason;
+    requestedBy: string;
+    requestDate: Date;
+    refundStatus: 'PENDING' | 'POSTED' | 'FAILED' | 'NOT_APPLICABLE';
+    refundTransactionId?: string;
+    notes?: string;
+}
+
+/**
+ * Interface defining a recorded reinstatement of a cancelled policy
+ */
+export interface IReinstatementInfo {
+    type: ReinstatementType;
+    reinstatementDate: Date;
+    cancellationDate: Date;
+    lapseDays: number;
+    lapsePremium: number;
+    premiumChange: number;
+    earnedPremium: number;
+    reinstatedBy: string;
+    requestDate: Date;
+    notes?: string;
+}
+
+/**
+ * Interface defining a policy audit log entry
+ */
+export interface IPolicyAuditEntry {
+    action: string;
+    timestamp: Date;
+    userId: string;
+    details: Record<string, unknown>;
 }
 
 /**
@@ -204,6 +439,22 @@ export interface IEndorsement {
     description: string;
     premium: number;
     status: string;
+    policyId?: string;
+    changes?: Record<string, unknown>;
+    premiumChange?: number;
+    rating?: IEndorsementRating;
+    previousValues?: Record<string, unknown>;
+}
+
+/**
+ * Interface defining the prorated rating of an endorsement
+ * The annualized premium delta is earned only from the endorsement effective date to expiration
+ */
+export interface IEndorsementRating {
+    annualPremiumChange: number;
+    termDays: number;
+    proratedDays: number;
+    premiumChange: number;
 }
 
 /**
@@ -229,14 +480,78 @@ export interface IPolicy {
     effectiveDate: Date;
     expirationDate: Date;
     premium: number;
+    premiumBreakdown?: IPremiumBreakdown;
     coverages: ICoverage[];
+    eligibilityAnswers?: Record<string, EligibilityAnswer>;
     underwritingInfo: IUnderwritingInfo;
     endorsements: IEndorsement[];
     documents: IDocument[];
     policyHolder: IPolicyHolder;
+    brokerId?: string;
     claimHistory: IClaimHistory[];
     carrierInfo: ICarrierInfo;
     billingInfo: IBillingInfo;
+    renewalInfo?: IRenewalInfo;
+    cancellationInfo?: ICancellationInfo;
+    reinstatementInfo?: IReinstatementInfo;
+    auditLog?: IPolicyAuditEntry[];
+    oneShieldPolicyId?: string;
     createdAt: Date;
     updatedAt: Date;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface defining a quote option offered on a submission
+ * Each option carries its own coverage set, premium and expiry
+ */
+export interface IPolicyQuote {
+    id: string;
+    policyId: string;
+    optionNumber: number;
+    label: string;
+    coverages: ICoverage[];
+    premium: number;
+    premiumBreakdown?: IPremiumBreakdown;
+    expirationDate: Date;
+    status: QuoteStatus;
+    createdBy?: string;
+    boundBy?: string;
+    boundAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Interface defining an immutable point-in-time policy version
+ * The snapshot is in force from effectiveFrom until effectiveTo (open-ended when absent);
+ * a version displaced by a later back-dated transaction is marked superseded
+ */
+export interface IPolicyVersion {
+    id: string;
+    policyId: string;
+    versionNumber: number;
+    transactionType: PolicyTransactionType;
+    effectiveFrom: Date;
+    effectiveTo?: Date;
+    snapshot: IPolicy;
+    sourceId?: string;
+    createdBy?: string;
+    supersededAt?: Date;
+    createdAt: Date;
+}
+
+/**
+ * Interface defining a single field-level change between policy versions
+ */
+export interface IPolicyFieldChange {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+/**
+ * Interface defining a policy history entry with field-level diff from the prior version
+ */
+export interface IPolicyVersionHistoryEntry extends Omit<IPolicyVersion, 'snapshot'> {
+    changes: IPolicyFieldChange[];
+}
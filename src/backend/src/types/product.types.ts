@@ -0,0 +1,128 @@
+/**
+ * @file Product definition type definitions for MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { PolicyType } from '../constants/policyTypes';
+
+/**
+ * Enum defining the answer formats of an eligibility question
+ */
+export enum EligibilityAnswerType {
+    BOOLEAN = 'BOOLEAN',
+    NUMBER = 'NUMBER',
+    SELECT = 'SELECT'
+}
+
+/**
+ * Enum defining the points in the policy lifecycle at which a product definition is enforced.
+ * Submissions are checked for coverages and eligibility, quote options for coverages only,
+ * and binding additionally requires every required document.
+ */
+export enum ProductValidationStage {
+    SUBMISSION = 'SUBMISSION',
+    QUOTE = 'QUOTE',
+    BIND = 'BIND'
+}
+
+/**
+ * Answer given to an eligibility question, keyed by question ID on the policy
+ */
+export type EligibilityAnswer = boolean | number | string;
+
+/**
+ * Interface defining an inclusive numeric range
+ */
+export interface IAmountRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * Interface defining a coverage that may be written on a product
+ */
+export interface ICoverageDefinition {
+    code: string;
+    name: string;
+    required: boolean;
+}
+
+/**
+ * Interface defining the answers that make a risk ineligible for a product
+ */
+export interface IIneligibleWhen {
+    equals?: boolean | string;
+    in?: string[];
+    greaterThan?: number;
+    lessThan?: number;
+}
+
+/**
+ * Interface defining an eligibility question asked on submission
+ */
+export interface IEligibilityQuestion {
+    id: string;
+    text: string;
+    answerType: EligibilityAnswerType;
+    options?: string[];
+    required: boolean;
+    ineligibleWhen?: IIneligibleWhen;
+    declineReason?: string;
+}
+
+/**
+ * Interface defining the risks a product will write, used to screen risks before
+ * a full submission. A listed class code also covers every class code starting
+ * with it, so a NAICS sector or subsector can be listed whole.
+ */
+export interface IProductAppetite {
+    excludedStates: string[];
+    referredStates: string[];
+    excludedClassCodes: string[];
+    referredClassCodes: string[];
+    maxRevenue?: number;
+    referRevenueAbove?: number;
+}
+
+/**
+ * Interface defining a version of a product: the limits, deductibles, coverages,
+ * documents and eligibility questions a policy type is written with. Required
+ * fields are dot paths into the submitted policy, checked at underwriting intake.
+ */
+export interface IProductDefinition {
+    policyType: PolicyType;
+    version: string;
+    effectiveDate: Date;
+    name: string;
+    limits: {
+        perOccurrence: IAmountRange;
+        aggregate: IAmountRange;
+    };
+    deductible: IAmountRange & {
+        allowedValues?: number[];
+    };
+    allowedCoverages: ICoverageDefinition[];
+    requiredDocuments: string[];
+    requiredFields: string[];
+    eligibilityQuestions: IEligibilityQuestion[];
+    appetite: IProductAppetite;
+}
+
+/**
+ * Interface defining a product rule a policy breaks
+ */
+export interface IProductRuleViolation {
+    path: string[];
+    message: string;
+    code: string;
+    details?: Record<string, unknown>;
+}
+
+/**
+ * Interface defining the outcome of checking a policy against its product definition
+ */
+export interface IProductRuleResult {
+    success: boolean;
+    errors?: IProductRuleViolation[];
+}
@@ -0,0 +1,122 @@
+/**
+ * @file Rating type definitions for the MGA Operating System
+ * @version 1.0.0
+ * @maintainers MGA OS Platform Team
+ */
+
+import { PolicyType } from '../constants/policyTypes';
+import { ICoverage } from './policy.types';
+
+/**
+ * Enum defining the exposure bases premium may be rated on
+ */
+export enum ExposureBasis {
+    REVENUE = 'REVENUE',
+    PAYROLL = 'PAYROLL',
+    SQUARE_FOOTAGE = 'SQUARE_FOOTAGE',
+    VEHICLE_COUNT = 'VEHICLE_COUNT'
+}
+
+/**
+ * Interface defining a point on an increased limits factor curve
+ * Factors are relative to the table's basic limit (factor 1.00)
+ */
+export interface IIncreasedLimitFactor {
+    limit: number;
+    factor: number;
+}
+
+/**
+ * Interface defining a deductible credit step
+ * The highest step not exceeding the selected deductible applies
+ */
+export interface IDeductibleCredit {
+    deductible: number;
+    credit: number;
+}
+
+/**
+ * Interface defining the permitted range of a schedule rating category
+ */
+export interface IScheduleModifierRange {
+    maxCredit: number;
+    maxDebit: number;
+}
+
+/**
+ * Interface defining a versioned rate table for a policy type
+ * Loaded from data files; the latest table effective on or before the policy
+ * effective date is used to rate it
+ */
+export interface IRateTable {
+    policyType: PolicyType;
+    version: string;
+    effectiveDate: Date;
+    exposureBasis: ExposureBasis;
+    exposureUnit: number;
+    baseRate: number;
+    minimumPremium: number;
+    basicLimit: number;
+    increasedLimitFactors: IIncreasedLimitFactor[];
+    deductibleCredits: IDeductibleCredit[];
+    coverageFactors?: Record<string, number>;
+    scheduleModifiers: {
+        maxTotalCredit: number;
+        maxTotalDebit: number;
+        categories: Record<string, IScheduleModifierRange>;
+    };
+}
+
+/**
+ * Interface defining the inputs to a rating calculation
+ * Schedule modifiers are signed: negative values are credits, positive values debits
+ */
+export interface IRatingRequest {
+    policyType: PolicyType;
+    effectiveDate: Date;
+    exposures: Partial<Record<ExposureBasis, number>>;
+    coverages: ICoverage[];
+    scheduleModifiers?: Record<string, number>;
+}
+
+/**
+ * Interface defining the rated premium of a single coverage
+ */
+export interface ICoveragePremium {
+    coverageId: string;
+    coverageType: string;
+    limit: number;
+    deductible: number;
+    coverageFactor: number;
+    increasedLimitFactor: number;
+    deductibleCredit: number;
+    premium: number;
+}
+
+/**
+ * Interface defining a premium breakdown stored with the rated policy
+ */
+export interface IPremiumBreakdown {
+    policyType: PolicyType;
+    rateTableVersion: string;
+    rateTableEffectiveDate: Date;
+    exposureBasis: ExposureBasis;
+    exposure: number;
+    exposureUnit: number;
+    baseRate: number;
+    basePremium: number;
+    coverages: ICoveragePremium[];
+    subtotal: number;
+    scheduleModifiers: Record<string, number>;
+    scheduleModifier: number;
+    minimumPremium: number;
+    minimumPremiumApplied: boolean;
+    totalPremium: number;
+    ratedAt: Date;
+}
+
+/**
+ * Rating algorithm for a policy type
+ * Computes a premium breakdown from the effective rate table and rating inputs
+ */
+export type Rater = (table: IRateTable, request: IRatingRequest) => IPremiumBreakdown;
@@ -5,13 +5,15 @@
  */
 
 import { PolicyType } from '../constants/policyTypes';
-import { RISK_SCORE_THRESHOLDS } from '../constants/underwritingRules';
+import { IPolicy, ISubjectivityRequest } from './policy.types';
+import { RISK_SCORE_THRESHOLDS, RISK_MULTIPLIERS, ASSIGNMENT_STRATEGIES, SLA_STAGES, LOCATION_PERILS } from '../constants/underwritingRules';
 
 /**
  * Enum defining all possible underwriting review statuses
  */
 export enum UnderwritingStatus {
     PENDING_REVIEW = 'PENDING_REVIEW',
+    PENDING_DOCUMENTS = 'PENDING_DOCUMENTS',
     IN_REVIEW = 'IN_REVIEW',
     APPROVED = 'APPROVED',
     DECLINED = 'DECLINED',
@@ -34,7 +36,8 @@ export interface IRiskAssessment {
 }
 
 /**
- * Interface defining the structure of a risk factor assessment
+ * Interface defining the structure of a risk factor assessment. Assessors list
+ * what raised the score in drivers and the inputs they had to default in missingInputs.
  */
 export interface IRiskFactor {
     type: string;
@@ -44,6 +47,8 @@ export interface IRiskFactor {
         description?: string;
         impact?: string;
         mitigation?: string;
+        drivers?: string[];
+        missingInputs?: string[];
         [key: string]: any;
     };
     confidence: number;
@@ -51,6 +56,73 @@ export interface IRiskFactor {
     validationStatus: 'VALID' | 'INVALID' | 'PENDING';
 }
 
+/**
+ * Interface defining one factor's contribution to a risk score
+ */
+export interface IRiskFactorContribution {
+    type: string;
+    score: number;
+    weight: number;
+    weightedPoints: number;
+    runningTotal: number;
+    share: number;
+    confidence: number;
+    drivers: string[];
+    missingInputs: string[];
+    defaulted: boolean;
+    dataSource: string;
+    details: IRiskFactor['details'];
+}
+
+/**
+ * Interface defining a risk score broken down factor by factor. Contributions are
+ * ordered largest first and add up to the risk score.
+ */
+export interface IRiskScoreBreakdown {
+    policyId: string;
+    riskScore: number;
+    source: 'DECISION' | 'ASSESSMENT';
+    assessedAt: Date;
+    contributions: IRiskFactorContribution[];
+    missingFactors: string[];
+    missingInputs: string[];
+}
+
+/**
+ * Peril covered by a location zone dataset
+ */
+export type LocationPeril = typeof LOCATION_PERILS[number];
+
+/**
+ * Catastrophe zone an address falls in for a peril
+ */
+export type LocationZone = keyof typeof RISK_MULTIPLIERS.LOCATION_TYPE;
+
+/**
+ * Interface defining one vintage of a peril's zone dataset. Zip keys are five
+ * digit zip codes or three digit zip prefixes; states are two letter codes.
+ */
+export interface ILocationZoneDataset {
+    peril: LocationPeril;
+    vintage: string;
+    source: string;
+    defaultZone: LocationZone;
+    states: Record<string, LocationZone>;
+    zipCodes: Record<string, LocationZone>;
+}
+
+/**
+ * Interface defining the zone an address resolved to for one peril
+ */
+export interface ILocationZoneMatch {
+    peril: LocationPeril;
+    zone: LocationZone;
+    matchedBy: 'ZIP' | 'ZIP_PREFIX' | 'STATE' | 'DEFAULT';
+    matchedKey: string | null;
+    vintage: string;
+    source: string;
+}
+
 /**
  * Interface defining the structure of an underwriting decision
  */
@@ -65,18 +137,177 @@ export interface IUnderwritingDecision {
     automationLevel: 'FULL' | 'PARTIAL' | 'MANUAL';
     reviewHistory: IReviewHistory[];
     oneShieldSyncStatus: 'PENDING' | 'SYNCED' | 'FAILED';
+    firedRuleIds?: string[];
 }
 
 /**
- * Interface defining the structure of a review history entry
+ * Interface defining the structure of a review history entry. Referral hops
+ * carry the underwriter the decision was passed to.
  */
-interface IReviewHistory {
+export interface IReviewHistory {
     timestamp: Date;
     reviewer: string;
     action: string;
     notes: string;
     previousStatus: UnderwritingStatus;
     newStatus: UnderwritingStatus;
+    referredTo?: string;
+    assignedTo?: string;
+}
+
+/**
+ * Interface defining an underwriter's authority matrix and place in the referral chain
+ */
+export interface IUnderwriterAuthority {
+    id: string;
+    userId: string;
+    maxLimit: number;
+    maxPremium: number;
+    maxRiskScore: number;
+    policyTypes: PolicyType[];
+    refersToUserId: string | null;
+    active: boolean;
+    outOfOfficeUntil?: Date | null;
+    lastAssignedAt?: Date | null;
+    user?: { firstName: string; lastName: string };
+    updatedBy?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Strategy used to assign submissions to underwriters
+ */
+export type AssignmentStrategy = typeof ASSIGNMENT_STRATEGIES[number];
+
+/**
+ * Interface defining an underwriter's open queue
+ */
+export interface IUnderwriterQueueDepth {
+    userId: string;
+    name: string;
+    inReview: number;
+    referred: number;
+    total: number;
+    outOfOfficeUntil: Date | null;
+}
+
+/**
+ * Interface defining queue depth across underwriters
+ */
+export interface IUnderwritingQueueDepth {
+    strategy: AssignmentStrategy;
+    underwriters: IUnderwriterQueueDepth[];
+    unassigned: number;
+}
+
+/**
+ * Underwriting stage timed by an SLA clock
+ */
+export type SlaStage = typeof SLA_STAGES[number];
+
+/**
+ * Standing of an SLA clock against its target
+ */
+export type SlaAlertLevel = 'ON_TRACK' | 'AT_RISK' | 'BREACHED';
+
+/**
+ * Interface defining the turnaround clock of one underwriting stage of a submission
+ */
+export interface ISlaClock {
+    id: string;
+    policyId: string;
+    stage: SlaStage;
+    targetMinutes: number;
+    startedAt: Date;
+    pausedAt: Date | null;
+    pauseReason: string | null;
+    pausedMinutes: number;
+    completedAt: Date | null;
+    alertLevel: SlaAlertLevel;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Interface defining an SLA clock evaluated at a point in time
+ */
+export interface ISlaClockStatus extends ISlaClock {
+    elapsedMinutes: number;
+    remainingMinutes: number;
+    level: SlaAlertLevel;
+}
+
+/**
+ * Interface defining an at-risk or breached alert raised by an SLA check
+ */
+export interface ISlaAlert {
+    policyId: string;
+    stage: SlaStage;
+    level: Exclude<SlaAlertLevel, 'ON_TRACK'>;
+    elapsedMinutes: number;
+    targetMinutes: number;
+    recipients: string[];
+}
+
+/**
+ * Interface defining one required document or field on a submission checklist
+ */
+export interface IChecklistItem {
+    kind: 'DOCUMENT' | 'FIELD';
+    key: string;
+    received: boolean;
+    receivedAt: Date | null;
+}
+
+/**
+ * Interface defining a submission's completeness checklist and the reminders
+ * sent to the broker while items are outstanding
+ */
+export interface ISubmissionChecklist {
+    id: string;
+    policyId: string;
+    policyType: PolicyType;
+    items: IChecklistItem[];
+    pendingSince: Date | null;
+    completedAt: Date | null;
+    remindersSent: number;
+    lastRemindedAt: Date | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Interface defining a reminder sent to a broker for outstanding checklist items
+ */
+export interface IChecklistReminder {
+    policyId: string;
+    brokerId: string | null;
+    missing: string[];
+    reminderNumber: number;
+}
+
+/**
+ * Interface defining underwriting throughput metrics. Processing times are in
+ * minutes of SLA clock time, excluding time waiting on broker documents.
+ */
+export interface IUnderwritingMetrics {
+    automationRate: number;
+    averageProcessingTime: number;
+    averageStageTime: Record<SlaStage, number>;
+    pendingReviews: number;
+    riskScoreDistribution: Record<string, number>;
+    sla: Record<SlaAlertLevel, number>;
+}
+
+/**
+ * Interface defining an underwriter's review of a recorded decision
+ */
+export interface IUnderwritingReview {
+    status: UnderwritingStatus.APPROVED | UnderwritingStatus.DECLINED;
+    notes: string;
+    conditions?: string[];
+    subjectivities?: ISubjectivityRequest[];
 }
 
 /**
@@ -100,26 +331,312 @@ interface IRiskThreshold {
 }
 
 /**
- * Interface defining the structure of an underwriting rule
+ * Action an underwriting rule takes when its criteria match
+ */
+export type UnderwritingRuleAction = 'APPROVE' | 'DECLINE' | 'REFER' | 'FLAG';
+
+/**
+ * Operators available to underwriting rule conditions
+ */
+export type RuleConditionOperator =
+    | 'EQUALS'
+    | 'NOT_EQUALS'
+    | 'GREATER_THAN'
+    | 'GREATER_THAN_OR_EQUAL'
+    | 'LESS_THAN'
+    | 'LESS_THAN_OR_EQUAL'
+    | 'IN'
+    | 'NOT_IN'
+    | 'CONTAINS'
+    | 'EXISTS';
+
+/**
+ * Interface defining a single underwriting rule condition.
+ * The field is a dot path into the evaluation context, e.g. riskAssessment.riskScore,
+ * riskFactors.CLAIMS_HISTORY or policy.premium.
+ */
+export interface IRuleCondition {
+    field: string;
+    operator: RuleConditionOperator;
+    value: unknown;
+}
+
+/**
+ * Interface defining the structure of an underwriting rule.
+ * Rules without a policy type apply to every policy type.
  */
 export interface IUnderwritingRule {
     id: string;
     name: string;
     description: string;
-    policyType: PolicyType;
+    policyType: PolicyType | null;
     criteria: {
-        conditions: Array<{
-            field: string;
-            operator: string;
-            value: any;
-        }>;
+        conditions: IRuleCondition[];
         logicalOperator: 'AND' | 'OR';
     };
-    action: 'APPROVE' | 'DECLINE' | 'REFER' | 'FLAG';
+    action: UnderwritingRuleAction;
     priority: number;
     validationRules: IValidationRule[];
-    riskThresholds: IRiskThreshold;
+    riskThresholds?: IRiskThreshold;
     automationEligible: boolean;
+    active: boolean;
+    createdBy?: string;
+    updatedBy?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Interface defining the data an underwriting rule is evaluated against.
+ * Rules address policy fields by path, so the policy may be any policy shaped object.
+ */
+export interface IRuleEvaluationContext {
+    policy: object;
+    riskAssessment?: IRiskAssessment;
+    riskFactors: Record<string, number>;
+}
+
+/**
+ * Interface defining the outcome of evaluating the underwriting rules for a policy
+ */
+export interface IRuleEvaluationResult {
+    action: UnderwritingRuleAction;
+    firedRuleIds: string[];
+    reasons: string[];
+    evaluatedRuleCount: number;
+}
+
+/**
+ * Interface defining a stored underwriting decision, kept so rule changes can be replayed
+ * against historical assessments
+ */
+export interface IUnderwritingDecisionRecord {
+    id: string;
+    policyId: string;
+    policyType: PolicyType;
+    status: UnderwritingStatus;
+    riskScore: number;
+    riskFactors: IRiskFactor[];
+    firedRuleIds: string[];
+    automationLevel: 'FULL' | 'PARTIAL' | 'MANUAL';
+    decidedBy: string;
+    premium: number;
+    policySnapshot: IPolicy;
+    decidedAt: Date;
+    reviewStatus?: UnderwritingStatus | null;
+    reviewHistory?: IReviewHistory[];
+    referredTo?: string | null;
+    assignedTo?: string | null;
+    assignedAt?: Date | null;
+}
+
+/**
+ * Candidate rule supplied to a simulation; IDs are optional for rules not yet saved
+ */
+export type CandidateUnderwritingRule = Omit<IUnderwritingRule, 'id'> & { id?: string };
+
+/**
+ * Interface defining a what-if simulation of candidate rules or risk factor weights
+ * against historical decisions. Omitted candidates fall back to the current configuration.
+ */
+export interface IRuleSimulationRequest {
+    policyType?: PolicyType;
+    from?: Date;
+    to?: Date;
+    rules?: CandidateUnderwritingRule[];
+    riskFactorWeights?: Record<string, number>;
+    limit?: number;
+}
+
+/**
+ * Interface defining a historical decision the candidate configuration would change
+ */
+export interface IDecisionChange {
+    policyId: string;
+    policyNumber?: string;
+    policyType: PolicyType;
+    premium: number;
+    originalStatus: UnderwritingStatus;
+    simulatedStatus: UnderwritingStatus;
+    originalRiskScore: number;
+    simulatedRiskScore: number;
+    firedRuleIds: string[];
+    decidedAt: Date;
+}
+
+/**
+ * Interface defining the number and premium of decisions moving between two statuses
+ */
+export interface IDecisionTransition {
+    from: UnderwritingStatus;
+    to: UnderwritingStatus;
+    count: number;
+    premium: number;
+}
+
+/**
+ * Interface defining the diff report produced by a rule simulation
+ */
+export interface IRuleSimulationReport {
+    decisionsEvaluated: number;
+    decisionsChanged: number;
+    premiumAffected: number;
+    transitions: IDecisionTransition[];
+    changes: IDecisionChange[];
+    candidate: {
+        ruleCount: number;
+        usesCurrentRules: boolean;
+        riskFactorWeights: Record<string, number>;
+    };
+    simulatedAt: Date;
+}
+
+/**
+ * Interface defining the underwriting configuration published to clients. Scores at or
+ * below lowRisk are low severity, scores at or above highRisk are high severity and
+ * scores in between are medium severity.
+ */
+export interface IUnderwritingConfig {
+    version: string;
+    riskScoreThresholds: {
+        lowRisk: number;
+        mediumRisk: number;
+        highRisk: number;
+    };
+    riskFactorWeights: Record<string, number>;
+    autoApprovalCriteria: {
+        maxRiskScore: number;
+        minYearsInBusiness: number;
+        maxClaimsCount: number;
+        maxClaimsAmount: number;
+        minCreditScore: number;
+        requiredDocumentsComplete: boolean;
+    };
+}
+
+/**
+ * Outcome of screening a risk against underwriting appetite
+ */
+export type AppetiteOutcome = 'IN_APPETITE' | 'REFER' | 'OUT_OF_APPETITE';
+
+/**
+ * Interface defining a risk screened for appetite before a full submission
+ */
+export interface IAppetiteCheckRequest {
+    policyType: PolicyType;
+    classCode: string;
+    state: string;
+    revenue: number;
+    requestedLimits: {
+        perOccurrence: number;
+        aggregate: number;
+    };
+    effectiveDate?: Date;
+}
+
+/**
+ * Interface defining why a screened risk is referred or out of appetite. Product
+ * reasons come from the product definition, rule reasons from underwriting rules.
+ */
+export interface IAppetiteReason {
+    source: 'PRODUCT' | 'RULE';
+    outcome: Exclude<AppetiteOutcome, 'IN_APPETITE'>;
+    code: string;
+    message: string;
+    ruleId?: string;
+}
+
+/**
+ * Interface defining the result of an appetite check
+ */
+export interface IAppetiteCheckResult {
+    policyType: PolicyType;
+    outcome: AppetiteOutcome;
+    reasons: IAppetiteReason[];
+    productVersion: string | null;
+    checkedAt: Date;
+}
+
+/**
+ * Risk band a score falls in, matching the bands clients render from the published thresholds
+ */
+export type RiskBand = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/**
+ * Status of a re-scoring run; a run left RUNNING by a crashed process can be resumed
+ */
+export type RescoreRunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+/**
+ * Interface defining a request to re-score the in-force book
+ */
+export interface IRescoreRequest {
+    policyType?: PolicyType;
+    dryRun?: boolean;
+    chunkSize?: number;
+    concurrency?: number;
+}
+
+/**
+ * Interface defining a policy that could not be re-scored in a run
+ */
+export interface IRescoreFailure {
+    policyId: string;
+    error: string;
+}
+
+/**
+ * Interface defining a re-scoring run and its progress. Policies are re-scored in
+ * id order; lastPolicyId is the last policy of the last finished chunk, where a
+ * resumed run picks up.
+ */
+export interface IRescoreRun {
+    id: string;
+    policyType: PolicyType | null;
+    dryRun: boolean;
+    chunkSize: number;
+    concurrency: number;
+    status: RescoreRunStatus;
+    totalPolicies: number;
+    processed: number;
+    bandChanges: number;
+    failures: IRescoreFailure[];
+    lastPolicyId: string | null;
+    startedBy: string | null;
+    startedAt: Date;
+    completedAt: Date | null;
+    error: string | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Interface defining one policy's old and new scores in a re-scoring run
+ */
+export interface IRescoreResult {
+    id?: string;
+    runId: string;
+    policyId: string;
+    policyType: PolicyType;
+    previousScore: number | null;
+    previousBand: RiskBand | null;
+    previousVersion: number;
+    newScore: number;
+    newBand: RiskBand;
+    newVersion: number;
+    bandChanged: boolean;
+    rescoredAt: Date;
+}
+
+/**
+ * Determines the risk band of a score: at or below the low risk threshold is LOW,
+ * at or above the high risk threshold is HIGH, anything between is MEDIUM
+ */
+export function riskBand(score: number): RiskBand {
+    if (score <= RISK_SCORE_THRESHOLDS.LOW_RISK) {
+        return 'LOW';
+    }
+    return score >= RISK_SCORE_THRESHOLDS.HIGH_RISK ? 'HIGH' : 'MEDIUM';
 }
 
 /**
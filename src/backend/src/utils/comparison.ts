@@ -0,0 +1,31 @@
+/**
+ * @file Comparison utility module for MGA Operating System
+ * @version 1.0.0
+ * @description Helpers for comparing dates and free text across records, used by
+ * the claim intake checks.
+ */
+
+/**
+ * Milliseconds in a day
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalizes free text for comparison
+ * @param value - Text to normalize
+ * @returns Lower-cased text with runs of whitespace and punctuation collapsed
+ */
+export function normalizeText(value: string | undefined): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Checks whether normalized text contains a normalized phrase as whole words,
+ * so that "flood" matches "flood damage" but not "floodlight"
+ * @param text - Normalized text to search
+ * @param phrase - Normalized phrase to look for
+ * @returns True when the phrase's words appear together in the text
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  return phrase !== '' && ` ${text} `.includes(` ${phrase} `);
+}
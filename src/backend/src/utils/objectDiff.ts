@@ -0,0 +1,74 @@
+/**
+ * @file Object diff utility module for MGA Operating System
+ * @version 1.0.0
+ * @description Produces field-level differences between two snapshots of a record,
+ * used to describe what changed between policy versions.
+ */
+
+/**
+ * Field-level change between two snapshots
+ */
+export type FieldChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+/**
+ * Checks whether a value is a plain object that should be diffed field by field
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Normalizes leaf values so dates and their ISO strings compare equal
+ */
+const normalize = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Computes field-level changes between two snapshots.
+ * Nested objects and arrays are walked recursively and reported with dotted paths
+ * (e.g. `coverages[0].deductible`); leaf values are compared by value.
+ * @param before Previous snapshot (undefined for the first version)
+ * @param after Current snapshot
+ * @param ignoredFields Top-level fields excluded from the comparison
+ * @returns List of changed fields
+ */
+export function diffObjects(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown>,
+  ignoredFields: string[] = []
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  const walk = (path: string, from: unknown, to: unknown): void => {
+    if (Array.isArray(from) && Array.isArray(to)) {
+      const length = Math.max(from.length, to.length);
+      for (let index = 0; index < length; index++) {
+        walk(`${path}[${index}]`, from[index], to[index]);
+      }
+      return;
+    }
+
+    if (isPlainObject(from) && isPlainObject(to)) {
+      const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+      keys.forEach(key => walk(path ? `${path}.${key}` : key, from[key], to[key]));
+      return;
+    }
+
+    if (JSON.stringify(normalize(from)) !== JSON.stringify(normalize(to))) {
+      changes.push({ field: path, from, to });
+    }
+  };
+
+  const strip = (snapshot: Record<string, unknown> | undefined): Record<string, unknown> => {
+    const stripped = { ...(snapshot || {}) };
+    ignoredFields.forEach(field => delete stripped[field]);
+    return stripped;
+  };
+
+  walk('', strip(before), strip(after));
+
+  return changes;
+}
@@ -10,6 +10,8 @@ import { faker } from '@faker-js/faker'; // ^8.0.2
 import { OneShieldClient } from '@oneshield/api-client'; // ^2.0.0
 import { TestDatabase } from '@testing-library/database-mock'; // ^1.0.0
 import { UnderwritingService } from '../../src/services/UnderwritingService';
+import { LocationZoneRepository } from '../../src/repositories/LocationZoneRepository';
+import { ProductDefinitionRepository } from '../../src/repositories/ProductDefinitionRepository';
 import { mockPolicies } from '../mocks/policyData';
 import { PolicyType } from '../../src/constants/policyTypes';
 import { UnderwritingStatus } from '../../src/types/underwriting.types';
@@ -39,7 +41,14 @@ beforeAll(async () => {
             apiKey: 'test_key'
         }),
         {} as any, // Mock cache
-        {} as any  // Mock event emitter
+        {} as any, // Mock event emitter
+        testDb.getRepository('underwriting_rules'),
+        testDb.getRepository('underwriting_decisions'),
+        testDb.getRepository('underwriter_authorities'),
+        testDb.getRepository('underwriting_sla_clocks'),
+        new LocationZoneRepository(),
+        new ProductDefinitionRepository(),
+        testDb.getRepository('underwriting_checklists')
     );
 
     // Configure OneShield API mocks
@@ -1,13 +1,36 @@
 import { ClaimsService } from '../../../src/services/ClaimsService';
 import { ClaimRepository } from '../../../src/repositories/ClaimRepository';
+import { ClaimTransactionRepository } from '../../../src/repositories/ClaimTransactionRepository';
+import { AdjusterAuthorityRepository } from '../../../src/repositories/AdjusterAuthorityRepository';
+import { ClaimPaymentApprovalRepository } from '../../../src/repositories/ClaimPaymentApprovalRepository';
+import { SiuReferralRepository } from '../../../src/repositories/SiuReferralRepository';
 import { ClaimsEventProducer } from '../../../src/events/producers/ClaimsEventProducer';
 import { CLAIM_STATUS } from '../../../src/constants/claimStatus';
 import mockClaims from '../../mocks/claimsData';
 import { Logger } from '../../../src/utils/logger';
 import { MetricsManager } from '../../../src/utils/metrics';
+import { PolicyService } from '../../../src/services/PolicyService';
+import { PolicyStatus } from '../../../src/types/policy.types';
+import {
+  ClaimPaymentApproval,
+  ClaimTransaction,
+  ClaimTransactionType,
+  CoverageDetermination,
+  DuplicateClaimAction,
+  FraudIndicatorCode,
+  PaymentApprovalAction,
+  PaymentApprovalStatus,
+  SiuReferral,
+  SiuReferralOutcome,
+  SiuReferralStatus
+} from '../../../src/types/claims.types';
 
 // Mock dependencies
 jest.mock('../../../src/repositories/ClaimRepository');
+jest.mock('../../../src/repositories/ClaimTransactionRepository');
+jest.mock('../../../src/repositories/AdjusterAuthorityRepository');
+jest.mock('../../../src/repositories/ClaimPaymentApprovalRepository');
+jest.mock('../../../src/repositories/SiuReferralRepository');
 jest.mock('../../../src/events/producers/ClaimsEventProducer');
 jest.mock('../../../src/utils/logger');
 jest.mock('../../../src/utils/metrics');
@@ -18,6 +41,27 @@ describe('ClaimsService', () => {
   let mockEventProducer: jest.Mocked<ClaimsEventProducer>;
   let mockLogger: jest.Mocked<Logger>;
   let mockMetrics: jest.Mocked<MetricsManager>;
+  let mockPolicyService: jest.Mocked<PolicyService>;
+  let mockTransactionRepository: jest.Mocked<ClaimTransactionRepository>;
+  let mockAuthorityRepository: jest.Mocked<AdjusterAuthorityRepository>;
+  let mockApprovalRepository: jest.Mocked<ClaimPaymentApprovalRepository>;
+  let mockSiuReferralRepository: jest.Mocked<SiuReferralRepository>;
+  let ledger: ClaimTransaction[];
+  let approvals: ClaimPaymentApproval[];
+  let lock: { commit: jest.Mock; rollback: jest.Mock };
+  let referrals: SiuReferral[];
+
+  const ledgerEntry = (overrides: Partial<ClaimTransaction>): ClaimTransaction => ({
+    id: `txn${ledger.length + 1}`,
+    claimId: 'claim123',
+    type: ClaimTransactionType.RESERVE_CHANGE,
+    amount: 0,
+    approvedBy: 'mgr001',
+    enteredBy: 'adj789',
+    transactionDate: new Date('2023-01-12T09:00:00Z'),
+    createdAt: new Date('2023-01-12T09:00:00Z'),
+    ...overrides
+  });
 
   beforeEach(() => {
     // Reset all mocks
@@ -28,7 +72,18 @@ describe('ClaimsService', () => {
       findById: jest.fn(),
       create: jest.fn(),
       updateStatus: jest.fn(),
-      updateReserves: jest.fn()
+      updateReserves: jest.fn(),
+      updateFinancials: jest.fn().mockImplementation(async (id, financials) => ({
+        ...mockClaims.find(claim => claim.id === id),
+        reserveAmount: financials.reserveAmount,
+        paidAmount: financials.paidAmount
+      })),
+      addPaymentHistory: jest.fn(),
+      findClaimantPolicyIds: jest.fn().mockResolvedValue([]),
+      updateFraudAssessment: jest.fn(),
+      findByIncidentWindow: jest.fn().mockResolvedValue([]),
+      recordDuplicateResolution: jest.fn(),
+      mergeSubmission: jest.fn()
     } as any;
 
     mockEventProducer = {
@@ -49,12 +104,106 @@ describe('ClaimsService', () => {
       recordCacheMetrics: jest.fn()
     } as any;
 
+    // Policy pol456 is in force for a year either side of today with one property coverage
+    mockPolicyService = {
+      getPolicy: jest.fn().mockResolvedValue({
+        id: 'pol456',
+        policyNumber: 'POL-2023-456',
+        status: PolicyStatus.ACTIVE,
+        effectiveDate: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000),
+        expirationDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+        coverages: [{
+          id: 'cov1',
+          type: 'PROPERTY',
+          limits: { perOccurrence: 500000, aggregate: 1000000 },
+          deductible: 1000,
+          exclusions: ['Flood', 'Wear and tear']
+        }]
+      })
+    } as any;
+
+    // Ledger of claim123 opens with its 25,000 reserve
+    ledger = [];
+    ledger.push(ledgerEntry({ amount: 25000, notes: 'Initial reserve' }));
+
+    mockTransactionRepository = {
+      findByClaimId: jest.fn().mockImplementation(async (id) => ledger.filter(entry => entry.claimId === id)),
+      create: jest.fn().mockImplementation(async (entry) => {
+        const recorded = ledgerEntry(entry);
+        ledger.push(recorded);
+        return recorded;
+      })
+    } as any;
+
+    // Every adjuster may pay up to 25,000 and reserve up to 100,000 alone
+    mockAuthorityRepository = {
+      findByUserId: jest.fn().mockImplementation(async (userId) => ({
+        id: `auth-${userId}`,
+        userId,
+        maxPaymentAmount: 25000,
+        maxReserveAmount: 100000,
+        active: true
+      }))
+    } as any;
+
+    approvals = [];
+    lock = { commit: jest.fn(), rollback: jest.fn() };
+    mockApprovalRepository = {
+      create: jest.fn().mockImplementation(async (approval) => {
+        const created = {
+          ...approval,
+          id: `appr${approvals.length + 1}`,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        approvals.push(created);
+        return created;
+      }),
+      findById: jest.fn().mockImplementation(async (id) => approvals.find(approval => approval.id === id) || null),
+      findByIdForUpdate: jest.fn().mockImplementation(async (id) => approvals.find(approval => approval.id === id) || null),
+      beginTransaction: jest.fn().mockResolvedValue(lock),
+      findByClaimId: jest.fn().mockImplementation(async (claimId, status) => approvals
+        .filter(approval => approval.claimId === claimId && (!status || approval.status === status))),
+      update: jest.fn().mockImplementation(async (id, updates) => {
+        const approval = approvals.find(existing => existing.id === id) as ClaimPaymentApproval;
+        Object.assign(approval, updates);
+        return approval;
+      })
+    } as any;
+
+    referrals = [];
+    mockSiuReferralRepository = {
+      create: jest.fn().mockImplementation(async (referral) => {
+        const created = {
+          ...referral,
+          id: `siu${referrals.length + 1}`,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        referrals.push(created);
+        return created;
+      }),
+      findById: jest.fn().mockImplementation(async (id) => referrals.find(referral => referral.id === id) || null),
+      findOpenByClaimId: jest.fn().mockImplementation(async (claimId) => referrals
+        .find(referral => referral.claimId === claimId && referral.status === SiuReferralStatus.OPEN) || null),
+      update: jest.fn().mockImplementation(async (id, updates) => {
+        const referral = referrals.find(existing => existing.id === id) as SiuReferral;
+        Object.assign(referral, updates);
+        return referral;
+      })
+    } as any;
+
     // Create service instance with mocked dependencies
     claimsService = new ClaimsService(
       mockClaimRepository,
       mockEventProducer,
       mockLogger,
-      mockMetrics
+      mockMetrics,
+      mockPolicyService,
+      mockTransactionRepository,
+      mockAuthorityRepository,
+      mockApprovalRepository,
+      mockSiuReferralRepository
     );
   });
 
@@ -69,6 +218,11 @@ describe('ClaimsService', () => {
       documents: []
     };
 
+    beforeEach(() => {
+      // A new claim has an empty ledger
+      ledger = [];
+    });
+
     it('should create a new claim successfully with valid data', async () => {
       const expectedClaim = { ...mockClaims[0] };
       mockClaimRepository.create.mockResolvedValue(expectedClaim);
@@ -77,11 +231,33 @@ describe('ClaimsService', () => {
       const result = await claimsService.createClaim(validClaimData);
 
       expect(result).toEqual(expectedClaim);
-      expect(mockClaimRepository.create).toHaveBeenCalledWith(validClaimData);
+      expect(mockClaimRepository.create).toHaveBeenCalledWith(validClaimData, expect.objectContaining({
+        determination: CoverageDetermination.COVERED,
+        coverageId: 'cov1',
+        deductible: 1000,
+        lateReport: false
+      }));
       expect(mockEventProducer.publishClaimCreated).toHaveBeenCalledWith(expectedClaim);
       expect(mockMetrics.recordCacheMetrics).toHaveBeenCalled();
     });
 
+    it('should open the claim ledger with the initial reserve', async () => {
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim(validClaimData);
+
+      expect(mockTransactionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        claimId: 'claim123',
+        type: ClaimTransactionType.RESERVE_CHANGE,
+        amount: 25000
+      }), undefined);
+      expect(mockClaimRepository.updateFinancials).toHaveBeenCalledWith(
+        'claim123',
+        expect.objectContaining({ reserveAmount: 25000, paidAmount: 0 }),
+        undefined
+      );
+    });
+
     it('should throw ValidationError if claim data is incomplete', async () => {
       const invalidData = { ...validClaimData, description: '' };
 
@@ -108,6 +284,102 @@ describe('ClaimsService', () => {
       expect(mockClaimRepository.create).toHaveBeenCalledTimes(2);
       expect(mockEventProducer.publishClaimCreated).toHaveBeenCalledTimes(2);
     });
+
+    it('should check coverage against the policy version in force on the incident date', async () => {
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim(validClaimData);
+
+      expect(mockPolicyService.getPolicy).toHaveBeenCalledWith('pol456', validClaimData.incidentDate);
+    });
+
+    it('should take a not covered position when the cause of loss is excluded', async () => {
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim({ ...validClaimData, coverageType: 'property', causeOfLoss: 'Flood' });
+
+      const [, position] = mockClaimRepository.create.mock.calls[0];
+      expect(position!.determination).toBe(CoverageDetermination.NOT_COVERED);
+      expect(position!.reasons).toEqual(['Cause of loss falls under exclusion: Flood']);
+    });
+
+    it('should match exclusions as whole words only', async () => {
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim({
+        ...validClaimData,
+        description: 'Floodlight fell through the conservatory roof',
+        coverageType: 'property',
+        causeOfLoss: 'Tear'
+      });
+
+      const [, position] = mockClaimRepository.create.mock.calls[0];
+      expect(position!.determination).toBe(CoverageDetermination.COVERED);
+      expect(position!.reasons).toEqual([]);
+    });
+
+    it('should take a questionable position when the description mentions an excluded peril', async () => {
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim({ ...validClaimData, description: 'Basement flooded; flood water ruined the boiler' });
+
+      const [, position] = mockClaimRepository.create.mock.calls[0];
+      expect(position!.determination).toBe(CoverageDetermination.QUESTIONABLE);
+      expect(position!.reasons).toEqual(['Description mentions excluded peril: Flood']);
+    });
+
+    it('should take a questionable position when the coverage cannot be identified', async () => {
+      const policy = await mockPolicyService.getPolicy('pol456');
+      mockPolicyService.getPolicy.mockResolvedValue({
+        ...policy!,
+        coverages: [...policy!.coverages, { ...policy!.coverages[0], id: 'cov2', type: 'GENERAL_LIABILITY', exclusions: [] }]
+      });
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim(validClaimData);
+
+      const [, position] = mockClaimRepository.create.mock.calls[0];
+      expect(position!.determination).toBe(CoverageDetermination.QUESTIONABLE);
+      expect(position!.reasons).toEqual(['Coverage not identified; policy carries PROPERTY, GENERAL_LIABILITY']);
+    });
+
+    it('should warn about a loss reported after the late reporting threshold', async () => {
+      const incidentDate = new Date(Date.now() - 45 * 24 * 60 * 60 * 1000);
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim({ ...validClaimData, incidentDate, reportedDate: new Date() });
+
+      const [, position] = mockClaimRepository.create.mock.calls[0];
+      expect(position!.determination).toBe(CoverageDetermination.COVERED);
+      expect(position!.lateReport).toBe(true);
+      expect(position!.warnings).toEqual(['Reported 45 days after the incident, beyond the 30 day reporting threshold']);
+    });
+
+    it('should take a not covered position when the policy was not in force on the incident date', async () => {
+      const policy = await mockPolicyService.getPolicy('pol456');
+      mockPolicyService.getPolicy.mockResolvedValue({ ...policy!, status: PolicyStatus.CANCELLED });
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim(validClaimData);
+
+      const [, position] = mockClaimRepository.create.mock.calls[0];
+      expect(position!.determination).toBe(CoverageDetermination.NOT_COVERED);
+      expect(position!.reasons).toEqual(['Policy not in force on the incident date']);
+    });
+
+    it('should take a not covered position from the current policy when no version covers the incident date', async () => {
+      const policy = await mockPolicyService.getPolicy('pol456');
+      mockPolicyService.getPolicy.mockImplementation(async (_policyId, asOf) => asOf ? null : policy);
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim(validClaimData);
+
+      const [, position] = mockClaimRepository.create.mock.calls[0];
+      expect(mockPolicyService.getPolicy).toHaveBeenCalledWith('pol456');
+      expect(position!.determination).toBe(CoverageDetermination.NOT_COVERED);
+      expect(position!.reasons).toEqual(['Policy not in force on the incident date']);
+      expect(position!.policyNumber).toBe(policy!.policyNumber);
+    });
   });
 
   describe('getClaim', () => {
@@ -207,25 +479,24 @@ describe('ClaimsService', () => {
     const claimId = 'claim123';
     const newReserveAmount = 50000.00;
 
-    it('should update claim reserves successfully with valid amount', async () => {
-      const originalClaim = { ...mockClaims[0] };
-      const updatedClaim = { 
-        ...originalClaim, 
-        reserveAmount: newReserveAmount 
-      };
-
-      mockClaimRepository.findById.mockResolvedValue(originalClaim);
-      mockClaimRepository.updateStatus.mockResolvedValue(updatedClaim);
+    it('should record the reserve increase as a ledger entry', async () => {
+      mockClaimRepository.findById.mockResolvedValue({ ...mockClaims[0] });
 
-      const result = await claimsService.updateReserves(claimId, newReserveAmount);
+      const result = await claimsService.updateReserves(claimId, newReserveAmount, 'adj789');
 
-      expect(result).toEqual(updatedClaim);
-      expect(mockClaimRepository.updateStatus).toHaveBeenCalledWith(
+      expect(mockTransactionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        claimId,
+        type: ClaimTransactionType.RESERVE_CHANGE,
+        amount: 25000,
+        approvedBy: 'adj789'
+      }), undefined);
+      expect(mockClaimRepository.updateFinancials).toHaveBeenCalledWith(
         claimId,
-        expect.objectContaining({
-          reserveAmount: newReserveAmount
-        })
+        expect.objectContaining({ reserveAmount: newReserveAmount }),
+        undefined
       );
+      expect(result.reserveAmount).toBe(newReserveAmount);
+      expect(mockClaimRepository.updateStatus).not.toHaveBeenCalled();
     });
 
     it('should throw ValidationError if reserve amount is negative', async () => {
@@ -233,26 +504,519 @@ describe('ClaimsService', () => {
         .rejects
         .toThrow('Reserve amount cannot be negative');
 
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not record an entry when the reserve is unchanged', async () => {
+      mockClaimRepository.findById.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.updateReserves(claimId, 25000);
+
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not lower the reserve below the amount already paid', async () => {
+      mockClaimRepository.findById.mockResolvedValue({ ...mockClaims[0] });
+      ledger.push(ledgerEntry({ type: ClaimTransactionType.INDEMNITY_PAYMENT, amount: 20000 }));
+
+      await expect(claimsService.updateReserves(claimId, 15000))
+        .rejects
+        .toThrow('Reserve cannot fall below the amount paid of 20000');
+
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claim ledger', () => {
+    const claimId = 'claim123';
+    const payment = {
+      type: ClaimTransactionType.INDEMNITY_PAYMENT as const,
+      amount: 10000,
+      payee: 'ABC Restoration LLC',
+      paymentMethod: 'CHECK' as const,
+      reference: '100245'
+    };
+
+    beforeEach(() => {
+      mockClaimRepository.findById.mockResolvedValue({ ...mockClaims[0] });
+    });
+
+    it('should derive reserve, paid and recovered totals from the ledger', async () => {
+      ledger.push(
+        ledgerEntry({ type: ClaimTransactionType.INDEMNITY_PAYMENT, amount: 12000 }),
+        ledgerEntry({ type: ClaimTransactionType.EXPENSE_PAYMENT, amount: 1500 }),
+        ledgerEntry({ type: ClaimTransactionType.RESERVE_CHANGE, amount: -5000 }),
+        ledgerEntry({ type: ClaimTransactionType.SUBROGATION_RECOVERY, amount: 4000 }),
+        ledgerEntry({ type: ClaimTransactionType.SALVAGE_RECOVERY, amount: 750.5 })
+      );
+
+      const { financials } = await claimsService.getLedger(claimId);
+
+      expect(financials).toEqual({
+        reserveAmount: 20000,
+        paidAmount: 13500,
+        indemnityPaid: 12000,
+        expensePaid: 1500,
+        outstandingReserve: 6500,
+        deductibleRecovered: 0,
+        subrogationRecovered: 4000,
+        salvageRecovered: 750.5,
+        recoveredAmount: 4750.5,
+        netIncurred: 15249.5
+      });
+    });
+
+    it('should record a payment and store the derived totals on the claim', async () => {
+      const result = await claimsService.recordTransaction(claimId, payment, 'adj789');
+
+      expect(mockTransactionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        ...payment,
+        claimId,
+        approvedBy: 'adj789',
+        enteredBy: 'adj789'
+      }), undefined);
+      expect(mockClaimRepository.updateFinancials).toHaveBeenCalledWith(
+        claimId,
+        expect.objectContaining({ reserveAmount: 25000, paidAmount: 10000 }),
+        undefined
+      );
+      expect(result.financials.outstandingReserve).toBe(15000);
+      expect(result.transactions).toHaveLength(2);
+    });
+
+    it('should reject a payment above the outstanding reserve', async () => {
+      await expect(claimsService.recordTransaction(claimId, { ...payment, amount: 25000.01 }, 'adj789'))
+        .rejects
+        .toThrow('Payment of 25000.01 exceeds the outstanding reserve of 25000');
+
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+      expect(mockClaimRepository.updateFinancials).not.toHaveBeenCalled();
+    });
+
+    it('should void a payment once and restore the outstanding reserve', async () => {
+      await claimsService.recordTransaction(claimId, payment, 'adj789');
+      const paymentId = ledger[1].id;
+
+      const result = await claimsService.voidTransaction(
+        claimId,
+        paymentId,
+        { approvedBy: 'mgr001', notes: 'Check returned by payee' },
+        'adj789'
+      );
+
+      expect(mockTransactionRepository.create).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: ClaimTransactionType.VOID,
+        amount: 10000,
+        reference: '100245',
+        voidsTransactionId: paymentId
+      }), undefined);
+      expect(result.financials.paidAmount).toBe(0);
+      expect(result.financials.outstandingReserve).toBe(25000);
+
+      await expect(claimsService.voidTransaction(
+        claimId,
+        paymentId,
+        { approvedBy: 'mgr001', notes: 'Check returned by payee' },
+        'adj789'
+      )).rejects.toThrow('Claim transaction has already been voided');
+    });
+
+    it('should not void a reserve change that paid amounts depend on', async () => {
+      await claimsService.recordTransaction(claimId, payment, 'adj789');
+
+      await expect(claimsService.voidTransaction(
+        claimId,
+        ledger[0].id,
+        { approvedBy: 'mgr001', notes: 'Reserve entered in error' },
+        'adj789'
+      )).rejects.toThrow('Reserve cannot fall below the amount paid of 10000');
+    });
+  });
+
+  describe('payment authority', () => {
+    const claimId = 'claim123';
+    const payment = {
+      type: ClaimTransactionType.INDEMNITY_PAYMENT as const,
+      amount: 30000,
+      payee: 'ABC Restoration LLC',
+      paymentMethod: 'CHECK' as const,
+      reference: '100246'
+    };
+
+    beforeEach(() => {
+      mockClaimRepository.findById.mockResolvedValue({ ...mockClaims[0], reserveAmount: 200000 });
+      ledger.push(ledgerEntry({ amount: 175000 }));
+    });
+
+    it('should queue a payment above the adjuster\'s authority instead of recording it', async () => {
+      const result = await claimsService.recordTransaction(claimId, payment, 'adj789');
+
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+      expect(result.queuedApproval).toEqual(expect.objectContaining({
+        requestedBy: 'adj789',
+        requiredApprovals: 1,
+        status: PaymentApprovalStatus.PENDING,
+        reasons: ['Payment 30000 exceeds authority of 25000']
+      }));
+      expect(result.pendingApprovals).toHaveLength(1);
+      expect(mockClaimRepository.addPaymentHistory).toHaveBeenCalledWith(claimId, expect.objectContaining({
+        action: PaymentApprovalAction.REQUESTED,
+        userId: 'adj789'
+      }));
+    });
+
+    it('should queue a reserve increase above the adjuster\'s reserve authority', async () => {
+      const result = await claimsService.updateReserves(claimId, 250000, 'adj789');
+
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+      expect(result.reserveAmount).toBe(200000);
+      expect(approvals[0].reasons).toEqual(['Reserve 250000 exceeds authority of 100000']);
+    });
+
+    it('should leave the status unchanged when the reserve change made with it is queued', async () => {
+      await expect(claimsService.updateClaimStatus(claimId, {
+        status: CLAIM_STATUS.UNDER_REVIEW,
+        notes: 'Severity increased',
+        adjusterId: 'adj789',
+        reserveAmount: 250000
+      })).rejects.toThrow('Reserve change queued for approval as appr1; resubmit the status change once it is decided');
+
+      expect(approvals[0].status).toBe(PaymentApprovalStatus.PENDING);
       expect(mockClaimRepository.updateStatus).not.toHaveBeenCalled();
     });
 
-    it('should handle concurrent reserve update requests', async () => {
-      const originalClaim = { ...mockClaims[0] };
-      const updatedClaim = { 
-        ...originalClaim, 
-        reserveAmount: newReserveAmount 
-      };
+    it('should not change the status while a reserve change is pending approval', async () => {
+      await claimsService.updateReserves(claimId, 250000, 'adj789');
 
-      mockClaimRepository.findById.mockResolvedValue(originalClaim);
-      mockClaimRepository.updateStatus.mockResolvedValue(updatedClaim);
+      await expect(claimsService.updateClaimStatus(claimId, {
+        status: CLAIM_STATUS.UNDER_REVIEW,
+        notes: 'Claim under review by adjuster',
+        adjusterId: 'adj789',
+        reserveAmount: 200000
+      })).rejects.toThrow('Claim status cannot change while reserve change appr1 is pending approval');
 
-      const results = await Promise.all([
-        claimsService.updateReserves(claimId, newReserveAmount),
-        claimsService.updateReserves(claimId, newReserveAmount)
+      expect(mockClaimRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not let the requester approve their own payment', async () => {
+      const { queuedApproval } = await claimsService.recordTransaction(claimId, payment, 'adj789');
+
+      await expect(claimsService.approvePayment(claimId, queuedApproval!.id, 'adj789'))
+        .rejects
+        .toThrow('Requester cannot decide their own payment approval');
+    });
+
+    it('should reject an approver without authority for the amount', async () => {
+      const { queuedApproval } = await claimsService.recordTransaction(claimId, payment, 'adj789');
+
+      await expect(claimsService.approvePayment(claimId, queuedApproval!.id, 'adj555'))
+        .rejects
+        .toThrow('Approver lacks authority: Payment 30000 exceeds authority of 25000');
+    });
+
+    it('should record a payment above the dual approval threshold after two distinct approvals', async () => {
+      mockAuthorityRepository.findByUserId.mockImplementation(async (userId) => ({
+        id: `auth-${userId}`,
+        userId,
+        maxPaymentAmount: userId === 'adj789' ? 25000 : 500000,
+        maxReserveAmount: 500000,
+        active: true
+      }));
+
+      const { queuedApproval } = await claimsService.recordTransaction(
+        claimId,
+        { ...payment, amount: 150000 },
+        'adj789'
+      );
+      expect(queuedApproval!.requiredApprovals).toBe(2);
+
+      await claimsService.approvePayment(claimId, queuedApproval!.id, 'mgr001', 'Reviewed invoice');
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+      expect(mockClaimRepository.addPaymentHistory).toHaveBeenLastCalledWith(claimId, expect.objectContaining({
+        action: PaymentApprovalAction.SIGNED_OFF,
+        userId: 'mgr001'
+      }));
+
+      await expect(claimsService.approvePayment(claimId, queuedApproval!.id, 'mgr001'))
+        .rejects
+        .toThrow('Approver has already signed off on this request');
+      expect(lock.rollback).toHaveBeenCalledTimes(1);
+
+      const result = await claimsService.approvePayment(claimId, queuedApproval!.id, 'mgr002');
+
+      expect(mockTransactionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        amount: 150000,
+        approvedBy: 'mgr002',
+        enteredBy: 'adj789'
+      }), lock);
+      expect(mockTransactionRepository.findByClaimId).toHaveBeenCalledWith(claimId, lock);
+      expect(mockClaimRepository.updateFinancials).toHaveBeenLastCalledWith(
+        claimId,
+        expect.objectContaining({ paidAmount: 150000 }),
+        lock
+      );
+      expect(mockApprovalRepository.findByIdForUpdate).toHaveBeenLastCalledWith(queuedApproval!.id, lock);
+      expect(lock.commit).toHaveBeenCalledTimes(2);
+      expect(approvals[0].status).toBe(PaymentApprovalStatus.APPROVED);
+      expect(approvals[0].transactionId).toBe(ledger[ledger.length - 1].id);
+      expect(result.financials.paidAmount).toBe(150000);
+      expect(result.pendingApprovals).toHaveLength(0);
+    });
+
+    it('should record a rejection in the claim history and close the request', async () => {
+      const { queuedApproval } = await claimsService.recordTransaction(claimId, payment, 'adj789');
+      mockAuthorityRepository.findByUserId.mockResolvedValue({
+        id: 'auth-mgr001',
+        userId: 'mgr001',
+        maxPaymentAmount: 100000,
+        maxReserveAmount: 500000,
+        active: true
+      });
+
+      await claimsService.rejectPayment(claimId, queuedApproval!.id, 'mgr001', 'Invoice does not match estimate');
+
+      expect(approvals[0]).toEqual(expect.objectContaining({
+        status: PaymentApprovalStatus.REJECTED,
+        rejectedBy: 'mgr001',
+        rejectionReason: 'Invoice does not match estimate'
+      }));
+      expect(mockClaimRepository.addPaymentHistory).toHaveBeenLastCalledWith(claimId, {
+        action: PaymentApprovalAction.REJECTED,
+        notes: 'Invoice does not match estimate',
+        userId: 'mgr001',
+        details: { approvalId: queuedApproval!.id, amount: 30000 }
+      });
+      await expect(claimsService.approvePayment(claimId, queuedApproval!.id, 'mgr002'))
+        .rejects
+        .toThrow('Payment approval is already rejected');
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fraud screening', () => {
+    // No initial reserve so the created claim is screened as the repository returns it
+    const validClaimData = {
+      policyId: 'pol456',
+      incidentDate: new Date('2023-01-10T08:00:00Z'),
+      description: 'Water damage from burst pipe',
+      location: mockClaims[0].location,
+      claimantInfo: mockClaims[0].claimantInfo,
+      initialReserve: 0,
+      documents: []
+    };
+
+    // A repeat claimant with a photo uploaded before the incident and a round reserve scores 60
+    const flaggedClaim = {
+      ...mockClaims[0],
+      documents: [{ ...mockClaims[0].documents[0], uploadedAt: new Date('2023-01-08T10:00:00Z') }]
+    };
+
+    beforeEach(() => {
+      ledger = [];
+      mockClaimRepository.findClaimantPolicyIds.mockResolvedValue(['pol111']);
+    });
+
+    it('should refer a claim to special investigations when its score reaches the threshold', async () => {
+      mockClaimRepository.create.mockResolvedValue(flaggedClaim);
+
+      const result = await claimsService.createClaim(validClaimData);
+
+      expect(result).toEqual(flaggedClaim);
+      expect(mockClaimRepository.findClaimantPolicyIds).toHaveBeenCalledWith(flaggedClaim.claimantInfo, 'pol456');
+      const [, assessment] = mockClaimRepository.updateFraudAssessment.mock.calls[0];
+      expect(assessment.indicators.map(indicator => indicator.code)).toEqual([
+        FraudIndicatorCode.REPEAT_CLAIMANT,
+        FraudIndicatorCode.ROUND_AMOUNT,
+        FraudIndicatorCode.DOCUMENTS_BEFORE_INCIDENT
       ]);
+      expect(assessment).toEqual(expect.objectContaining({ score: 60, referred: true, trigger: 'CLAIM_CREATED' }));
+      expect(referrals).toEqual([expect.objectContaining({
+        claimId: 'claim123',
+        claimNumber: flaggedClaim.claimNumber,
+        score: 60,
+        status: SiuReferralStatus.OPEN
+      })]);
+    });
 
-      expect(results).toHaveLength(2);
-      expect(mockClaimRepository.updateStatus).toHaveBeenCalledTimes(2);
+    it('should re-score an open referral on status change instead of referring again', async () => {
+      mockClaimRepository.create.mockResolvedValue(flaggedClaim);
+      await claimsService.createClaim(validClaimData);
+
+      mockClaimRepository.findById.mockResolvedValue(flaggedClaim);
+      mockClaimRepository.updateStatus.mockResolvedValue({
+        ...flaggedClaim,
+        status: CLAIM_STATUS.UNDER_REVIEW,
+        location: { ...flaggedClaim.location, state: 'NY' }
+      });
+      mockPolicyService.getPolicy.mockResolvedValue({
+        ...await mockPolicyService.getPolicy('pol456'),
+        policyHolder: { address: { street: '1 Main St', city: 'Hartford', state: 'CT', zipCode: '06103' } }
+      } as any);
+
+      await claimsService.updateClaimStatus('claim123', {
+        status: CLAIM_STATUS.UNDER_REVIEW,
+        notes: 'Claim under review by adjuster',
+        adjusterId: 'adj789',
+        reserveAmount: 25000.00
+      });
+
+      expect(mockSiuReferralRepository.create).toHaveBeenCalledTimes(1);
+      expect(referrals).toHaveLength(1);
+      expect(referrals[0].score).toBe(75);
+      expect(referrals[0].indicators.map(indicator => indicator.code)).toContain(FraudIndicatorCode.LOCATION_MISMATCH);
+    });
+
+    it('should store the assessment without referring a claim below the threshold', async () => {
+      mockClaimRepository.findClaimantPolicyIds.mockResolvedValue([]);
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[0] });
+
+      await claimsService.createClaim(validClaimData);
+
+      expect(mockClaimRepository.updateFraudAssessment).toHaveBeenCalledWith('claim123', expect.objectContaining({
+        score: 10,
+        referred: false
+      }));
+      expect(mockSiuReferralRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should close an open referral with its outcome', async () => {
+      mockClaimRepository.create.mockResolvedValue(flaggedClaim);
+      await claimsService.createClaim(validClaimData);
+
+      const closed = await claimsService.closeSiuReferral('siu1', {
+        outcome: SiuReferralOutcome.CLEARED,
+        notes: 'Photo metadata shows camera clock was wrong'
+      }, 'siu001');
+
+      expect(closed).toEqual(expect.objectContaining({
+        status: SiuReferralStatus.CLOSED,
+        outcome: SiuReferralOutcome.CLEARED,
+        closedBy: 'siu001'
+      }));
+      await expect(claimsService.closeSiuReferral('siu1', {
+        outcome: SiuReferralOutcome.FRAUD_CONFIRMED,
+        notes: 'Second closure attempt'
+      }, 'siu001'))
+        .rejects
+        .toThrow('SIU referral is already closed');
+    });
+  });
+
+  describe('duplicate detection', () => {
+    // Reported by the broker a day after the insured reported claim123 at the same address
+    const brokerSubmission = {
+      policyId: 'pol456',
+      incidentDate: new Date('2023-01-11T08:00:00Z'),
+      description: 'Burst pipe flooded the master bathroom',
+      location: mockClaims[0].location,
+      claimantInfo: { ...mockClaims[0].claimantInfo, firstName: 'Jon' },
+      initialReserve: 25000.00,
+      documents: []
+    };
+
+    beforeEach(() => {
+      ledger = [];
+      mockClaimRepository.findByIncidentWindow.mockResolvedValue([mockClaims[0]]);
+    });
+
+    it('should refuse a likely duplicate on the same policy until a decision is made', async () => {
+      await expect(claimsService.createClaim(brokerSubmission))
+        .rejects
+        .toThrow('Possible duplicate of CLM-2023-001');
+
+      expect(mockClaimRepository.findByIncidentWindow).toHaveBeenCalledWith(
+        'pol456',
+        new Date('2023-01-08T08:00:00Z'),
+        new Date('2023-01-14T08:00:00Z')
+      );
+      expect(mockClaimRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should score matches on incident date, location and claimant name', async () => {
+      const matches = await claimsService.findDuplicateClaims(brokerSubmission);
+
+      expect(matches).toEqual([expect.objectContaining({
+        claimId: 'claim123',
+        claimNumber: 'CLM-2023-001',
+        score: 87,
+        reasons: [
+          'Incident 1 day apart',
+          'Incident locations 0.0 miles apart',
+          'Similar claimant name: John Smith'
+        ]
+      })]);
+    });
+
+    it('should not match a different loss on the same policy', async () => {
+      const matches = await claimsService.findDuplicateClaims({
+        ...brokerSubmission,
+        incidentDate: new Date('2023-01-13T08:00:00Z'),
+        location: {
+          ...mockClaims[0].location,
+          address: '9 Harbor Rd',
+          city: 'New Haven',
+          zipCode: '06511',
+          coordinates: { latitude: 41.3083, longitude: -72.9279 }
+        },
+        claimantInfo: { ...mockClaims[0].claimantInfo, firstName: 'Maria', lastName: 'Garcia' }
+      });
+
+      expect(matches).toEqual([]);
+    });
+
+    it('should create a linked claim when the user links it to the possible duplicate', async () => {
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[1] });
+      const duplicateResolution = { action: DuplicateClaimAction.LINK, claimId: 'claim123' };
+
+      await claimsService.createClaim({ ...brokerSubmission, duplicateResolution });
+
+      expect(mockClaimRepository.create).toHaveBeenCalledWith(brokerSubmission, expect.anything());
+      expect(mockClaimRepository.recordDuplicateResolution).toHaveBeenCalledWith(
+        'claim124',
+        duplicateResolution,
+        [expect.objectContaining({ claimId: 'claim123' })]
+      );
+    });
+
+    it('should merge the submission into the existing claim without creating one', async () => {
+      mockClaimRepository.mergeSubmission.mockResolvedValue({ ...mockClaims[0] });
+
+      const result = await claimsService.createClaim({
+        ...brokerSubmission,
+        duplicateResolution: { action: DuplicateClaimAction.MERGE, claimId: 'claim123' }
+      });
+
+      expect(result.id).toBe('claim123');
+      expect(mockClaimRepository.mergeSubmission).toHaveBeenCalledWith('claim123', brokerSubmission);
+      expect(mockClaimRepository.create).not.toHaveBeenCalled();
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not link or merge into a claim that is not a possible duplicate', async () => {
+      await expect(claimsService.createClaim({
+        ...brokerSubmission,
+        duplicateResolution: { action: DuplicateClaimAction.MERGE, claimId: 'claim999' }
+      }))
+        .rejects
+        .toThrow('Claim to merge is not a possible duplicate: claim999');
+
+      expect(mockClaimRepository.mergeSubmission).not.toHaveBeenCalled();
+    });
+
+    it('should create the claim anyway when the user proceeds', async () => {
+      mockClaimRepository.create.mockResolvedValue({ ...mockClaims[1] });
+
+      await claimsService.createClaim({
+        ...brokerSubmission,
+        duplicateResolution: { action: DuplicateClaimAction.PROCEED }
+      });
+
+      expect(mockClaimRepository.create).toHaveBeenCalled();
+      expect(mockClaimRepository.recordDuplicateResolution).toHaveBeenCalledWith(
+        'claim124',
+        { action: DuplicateClaimAction.PROCEED },
+        [expect.objectContaining({ claimNumber: 'CLM-2023-001' })]
+      );
     });
   });
 });
\ No newline at end of file
@@ -4,8 +4,27 @@ import winston from 'winston';
 import { PolicyService } from '../../src/services/PolicyService';
 import { PolicyRepository } from '../../src/repositories/PolicyRepository';
 import { PolicyClient } from '../../src/integrations/oneshield/PolicyClient';
+import { PolicyEventProducer } from '../../src/events/producers/PolicyEventProducer';
+import { BillingClient } from '../../src/integrations/oneshield/BillingClient';
+import { EndorsementRepository } from '../../src/repositories/EndorsementRepository';
+import { PolicyVersionRepository } from '../../src/repositories/PolicyVersionRepository';
+import { RatingService } from '../../src/services/RatingService';
+import { PolicyQuoteRepository } from '../../src/repositories/PolicyQuoteRepository';
+import { ProductDefinitionRepository } from '../../src/repositories/ProductDefinitionRepository';
 import { mockPolicy, generateMockPolicy } from '../mocks/policyData';
-import { PolicyStatus } from '../../src/types/policy.types';
+import {
+    PolicyStatus,
+    RenewalStatus,
+    NonRenewalReason,
+    CancellationReason,
+    CancellationMethod,
+    ReinstatementType,
+    QuoteStatus,
+    SubjectivityStatus,
+    SubjectivityType
+} from '../../src/types/policy.types';
+import { EligibilityAnswerType, ProductValidationStage } from '../../src/types/product.types';
+import { PolicyType } from '../../src/constants/policyTypes';
 import { CircuitBreaker } from 'opossum';
 import { oneshieldConfig } from '../../src/config/oneshield';
 
@@ -18,6 +37,29 @@ let mockPolicyRepository: jest.Mocked<PolicyRepository>;
 let mockPolicyClient: jest.Mocked<PolicyClient>;
 let mockLogger: jest.Mocked<winston.Logger>;
 let mockCircuitBreaker: jest.Mocked<CircuitBreaker>;
+let mockEventProducer: jest.Mocked<PolicyEventProducer>;
+let mockBillingClient: jest.Mocked<BillingClient>;
+let mockEndorsementRepository: jest.Mocked<EndorsementRepository>;
+let mockPolicyVersionRepository: jest.Mocked<PolicyVersionRepository>;
+let mockRatingService: jest.Mocked<RatingService>;
+let mockPolicyQuoteRepository: jest.Mocked<PolicyQuoteRepository>;
+let mockProductDefinitionRepository: jest.Mocked<ProductDefinitionRepository>;
+
+// Product definition returned for every policy type unless a test overrides it
+const productDefinition = {
+    policyType: 'GEN_LIAB',
+    version: '2023.1',
+    effectiveDate: new Date('2023-01-01T00:00:00Z'),
+    name: 'General Liability',
+    limits: {
+        perOccurrence: { min: 500000, max: 5000000 },
+        aggregate: { min: 1000000, max: 10000000 }
+    },
+    deductible: { min: 2500, max: 50000 },
+    allowedCoverages: [{ code: 'GEN_LIAB', name: 'Commercial General Liability', required: true }],
+    requiredDocuments: [],
+    eligibilityQuestions: []
+} as any;
 
 describe('PolicyService', () => {
     beforeEach(() => {
@@ -27,6 +69,8 @@ describe('PolicyService', () => {
             update: jest.fn(),
             findById: jest.fn(),
             findByCriteria: jest.fn(),
+            findExpiring: jest.fn(),
+            findWithOpenSubjectivities: jest.fn(),
             getSequelize: jest.fn().mockReturnValue({
                 transaction: jest.fn().mockResolvedValue({
                     commit: jest.fn(),
@@ -38,7 +82,8 @@ describe('PolicyService', () => {
         mockPolicyClient = {
             createPolicy: jest.fn(),
             updatePolicy: jest.fn(),
-            getPolicy: jest.fn()
+            getPolicy: jest.fn(),
+            submitTransaction: jest.fn()
         } as any;
 
         mockLogger = {
@@ -51,13 +96,63 @@ describe('PolicyService', () => {
             fire: jest.fn()
         } as any;
 
+        mockEventProducer = {
+            publishRenewalCreated: jest.fn(),
+            publishNonRenewalRecorded: jest.fn(),
+            publishUnderwritingRequested: jest.fn(),
+            publishPolicyStatusChanged: jest.fn(),
+            publishPolicyUpdated: jest.fn(),
+            publishPolicyReinstated: jest.fn(),
+            publishSubjectivitiesOverdue: jest.fn(),
+            publishCancellationNoticeIssued: jest.fn()
+        } as any;
+
+        mockBillingClient = {
+            processRefund: jest.fn()
+        } as any;
+
+        mockEndorsementRepository = {
+            create: jest.fn(),
+            update: jest.fn(),
+            findInForceByPolicyId: jest.fn()
+        } as any;
+
+        mockPolicyVersionRepository = {
+            record: jest.fn(),
+            findAsOf: jest.fn(),
+            findByPolicyId: jest.fn().mockResolvedValue([])
+        } as any;
+
+        mockRatingService = {
+            rate: jest.fn()
+        } as any;
+
+        mockPolicyQuoteRepository = {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findByPolicyId: jest.fn().mockResolvedValue([]),
+            expireLapsed: jest.fn().mockResolvedValue(0),
+            bind: jest.fn()
+        } as any;
+
+        mockProductDefinitionRepository = {
+            findEffective: jest.fn().mockResolvedValue(productDefinition)
+        } as any;
+
         // Initialize service with mocks
         policyService = new PolicyService(
             mockPolicyRepository,
             mockPolicyClient,
             mockLogger,
             mockCircuitBreaker,
-            oneshieldConfig
+            oneshieldConfig,
+            mockEventProducer,
+            mockBillingClient,
+            mockEndorsementRepository,
+            mockPolicyVersionRepository,
+            mockRatingService,
+            mockPolicyQuoteRepository,
+            mockProductDefinitionRepository
         );
     });
 
@@ -262,6 +357,999 @@ describe('PolicyService', () => {
         });
     });
 
+    describe('renewals', () => {
+        const expiringPolicy = generateMockPolicy({
+            status: PolicyStatus.ACTIVE,
+            policyNumber: 'CO-123456-789',
+            premium: 10000,
+            effectiveDate: new Date('2024-01-01T00:00:00Z'),
+            expirationDate: new Date('2025-01-01T00:00:00Z'),
+            claimHistory: [],
+            oneShieldPolicyId: 'OS-123'
+        });
+
+        it('should create a re-rated renewal term and sync it as a RENEWAL transaction', async () => {
+            // Arrange
+            mockPolicyRepository.findById.mockResolvedValue(expiringPolicy);
+            mockPolicyRepository.create.mockImplementation(async (data: any) => ({ ...data, id: 'renewal-id' }));
+            mockPolicyRepository.update.mockImplementation(async (id: string, updates: any) => ({
+                ...(id === 'renewal-id' ? { id } : expiringPolicy),
+                ...updates
+            }));
+            mockCircuitBreaker.fire.mockImplementation(async (fn: any) => fn());
+            mockPolicyClient.submitTransaction.mockResolvedValue({ policyId: 'OS-456' } as any);
+
+            // Act
+            const result = await policyService.createRenewalTerm(expiringPolicy.id);
+
+            // Assert
+            const renewalData = mockPolicyRepository.create.mock.calls[0][0] as any;
+            expect(renewalData.status).toBe(PolicyStatus.PENDING_RENEWAL);
+            expect(renewalData.policyNumber).toBe('CO-123456-789-R02');
+            expect(renewalData.effectiveDate).toEqual(expiringPolicy.expirationDate);
+            expect(renewalData.premium).toBe(10000);
+            expect(renewalData.renewalInfo).toEqual(expect.objectContaining({
+                termNumber: 2,
+                previousPolicyId: expiringPolicy.id
+            }));
+            expect(mockPolicyClient.submitTransaction).toHaveBeenCalledWith(
+                'OS-123',
+                expect.objectContaining({ transactionType: 'RENEWAL' })
+            );
+            expect(mockPolicyRepository.update).toHaveBeenCalledWith(
+                expiringPolicy.id,
+                { renewalInfo: expect.objectContaining({ status: RenewalStatus.OFFERED, renewalPolicyId: 'renewal-id' }) },
+                expect.any(Object)
+            );
+            expect(mockEventProducer.publishUnderwritingRequested).toHaveBeenCalledWith(result, 'RENEWAL');
+            expect(result.oneShieldPolicyId).toBe('OS-456');
+        });
+
+        it('should reject renewal of a non-renewed policy', async () => {
+            // Arrange
+            mockPolicyRepository.findById.mockResolvedValue({
+                ...expiringPolicy,
+                renewalInfo: { termNumber: 1, status: RenewalStatus.NON_RENEWED }
+            });
+
+            // Act & Assert
+            await expect(policyService.createRenewalTerm(expiringPolicy.id))
+                .rejects
+                .toThrow('Policy has been marked for non-renewal');
+            expect(mockPolicyRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should record a non-renewal with sufficient notice', async () => {
+            // Arrange
+            mockPolicyRepository.findById.mockResolvedValue(expiringPolicy);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...expiringPolicy,
+                ...updates
+            }));
+
+            // Act
+            const result = await policyService.recordNonRenewal(expiringPolicy.id, {
+                reason: NonRenewalReason.LOSS_HISTORY,
+                noticeDate: new Date('2024-10-01T00:00:00Z'),
+                decidedBy: 'underwriter@mga.com'
+            });
+
+            // Assert
+            expect(result.renewalInfo?.status).toBe(RenewalStatus.NON_RENEWED);
+            expect(mockEventProducer.publishNonRenewalRecorded).toHaveBeenCalledWith(result);
+        });
+
+        it('should reject a non-renewal notice given too late', async () => {
+            // Arrange
+            mockPolicyRepository.findById.mockResolvedValue(expiringPolicy);
+
+            // Act & Assert
+            await expect(policyService.recordNonRenewal(expiringPolicy.id, {
+                reason: NonRenewalReason.UNDERWRITING,
+                noticeDate: new Date('2024-12-15T00:00:00Z'),
+                decidedBy: 'underwriter@mga.com'
+            })).rejects.toThrow('Non-renewal notice must be given');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should only pick up policies without a pending renewal decision', async () => {
+            // Arrange
+            mockPolicyRepository.findExpiring.mockResolvedValue([
+                expiringPolicy,
+                { ...expiringPolicy, id: 'offered', renewalInfo: { termNumber: 1, status: RenewalStatus.OFFERED } },
+                { ...expiringPolicy, id: 'non-renewed', renewalInfo: { termNumber: 1, status: RenewalStatus.NON_RENEWED } }
+            ]);
+
+            // Act
+            const result = await policyService.findPoliciesDueForRenewal(90, new Date('2024-11-01T00:00:00Z'));
+
+            // Assert
+            expect(result.map(policy => policy.id)).toEqual([expiringPolicy.id]);
+        });
+    });
+
+    describe('cancellation', () => {
+        const activePolicy = generateMockPolicy({
+            status: PolicyStatus.ACTIVE,
+            premium: 3650,
+            effectiveDate: new Date('2024-01-01T00:00:00Z'),
+            expirationDate: new Date('2024-12-31T00:00:00Z'),
+            oneShieldPolicyId: 'OS-123'
+        });
+
+        it('should calculate pro-rata return premium on days in force', () => {
+            // Act
+            const result = policyService.calculateReturnPremium(
+                activePolicy,
+                new Date('2024-04-10T00:00:00Z'),
+                CancellationMethod.PRO_RATA
+            );
+
+            // Assert
+            expect(result).toEqual({
+                method: CancellationMethod.PRO_RATA,
+                daysInForce: 100,
+                termDays: 365,
+                earnedPremium: 1000,
+                returnPremium: 2650
+            });
+        });
+
+        it('should calculate short-rate return premium from the short-rate table', () => {
+            // Act
+            const result = policyService.calculateReturnPremium(
+                activePolicy,
+                new Date('2024-04-10T00:00:00Z'),
+                CancellationMethod.SHORT_RATE
+            );
+
+            // Assert: 100 days in force earns 38% under the standard table
+            expect(result.earnedPremium).toBe(1387);
+            expect(result.returnPremium).toBe(2263);
+        });
+
+        it('should cancel the policy and post the return premium refund to billing', async () => {
+            // Arrange
+            const effectiveDate = new Date(Date.now() + 45 * 24 * 60 * 60 * 1000);
+            const policy = {
+                ...activePolicy,
+                effectiveDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+                expirationDate: new Date(Date.now() + 335 * 24 * 60 * 60 * 1000)
+            };
+            let stored: any = policy;
+            const transaction = { commit: jest.fn(), rollback: jest.fn() };
+            (mockPolicyRepository.getSequelize().transaction as jest.Mock).mockResolvedValue(transaction);
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => {
+                stored = { ...stored, ...updates };
+                return stored;
+            });
+            mockCircuitBreaker.fire.mockImplementation(async (fn: any) => fn());
+            mockPolicyClient.submitTransaction.mockResolvedValue({ policyId: 'OS-123' } as any);
+            mockBillingClient.processRefund.mockResolvedValue('REF-001');
+
+            // Act
+            const result = await policyService.cancelPolicy(policy.id, {
+                effectiveDate,
+                reason: CancellationReason.UNDERWRITING,
+                requestedBy: 'underwriter@mga.com'
+            });
+
+            // Assert
+            const returnPremium = result.cancellationInfo!.returnPremium;
+            expect(result.status).toBe(PolicyStatus.CANCELLED);
+            expect(result.cancellationInfo).toEqual(expect.objectContaining({
+                method: CancellationMethod.PRO_RATA,
+                refundStatus: 'POSTED',
+                refundTransactionId: 'REF-001'
+            }));
+            expect(mockPolicyClient.submitTransaction).toHaveBeenCalledWith(
+                'OS-123',
+                expect.objectContaining({ transactionType: 'CANCELLATION', premiumChange: -returnPremium })
+            );
+            expect(mockBillingClient.processRefund).toHaveBeenCalledWith(expect.objectContaining({
+                policyId: 'OS-123',
+                amount: returnPremium,
+                idempotencyKey: result.cancellationInfo!.cancellationId
+            }));
+            expect(transaction.commit.mock.invocationCallOrder[0])
+                .toBeLessThan(mockBillingClient.processRefund.mock.invocationCallOrder[0]!);
+            expect(mockEventProducer.publishPolicyStatusChanged).toHaveBeenCalledWith(result, PolicyStatus.ACTIVE);
+        });
+
+        it('should not post a refund when the cancellation is rolled back', async () => {
+            // Arrange
+            const policy = {
+                ...activePolicy,
+                effectiveDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+                expirationDate: new Date(Date.now() + 335 * 24 * 60 * 60 * 1000)
+            };
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+            mockCircuitBreaker.fire.mockRejectedValue(new Error('OneShield unavailable'));
+
+            // Act & Assert
+            await expect(policyService.cancelPolicy(policy.id, {
+                effectiveDate: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000),
+                reason: CancellationReason.UNDERWRITING,
+                requestedBy: 'underwriter@mga.com'
+            })).rejects.toThrow('OneShield unavailable');
+            expect(mockBillingClient.processRefund).not.toHaveBeenCalled();
+        });
+
+        it('should reject a company-initiated cancellation without sufficient notice', async () => {
+            // Arrange
+            mockPolicyRepository.findById.mockResolvedValue({
+                ...activePolicy,
+                effectiveDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+                expirationDate: new Date(Date.now() + 335 * 24 * 60 * 60 * 1000)
+            });
+
+            // Act & Assert
+            await expect(policyService.cancelPolicy(activePolicy.id, {
+                effectiveDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
+                reason: CancellationReason.NON_PAYMENT,
+                requestedBy: 'billing@mga.com'
+            })).rejects.toThrow('requires at least 10 days notice');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('reinstatement', () => {
+        const DAY_MS = 24 * 60 * 60 * 1000;
+        const cancellationDate = new Date(Date.now() - 10 * DAY_MS);
+        const cancelledPolicy = generateMockPolicy({
+            status: PolicyStatus.CANCELLED,
+            premium: 3650,
+            effectiveDate: new Date(Date.now() - 100 * DAY_MS),
+            expirationDate: new Date(Date.now() + 265 * DAY_MS),
+            oneShieldPolicyId: 'OS-123',
+            documents: [{ type: 'POLICY_DOCUMENT' }],
+            cancellationInfo: {
+                method: CancellationMethod.PRO_RATA,
+                daysInForce: 90,
+                termDays: 365,
+                earnedPremium: 900,
+                returnPremium: 2750,
+                effectiveDate: cancellationDate,
+                reason: CancellationReason.NON_PAYMENT,
+                requestedBy: 'billing@mga.com',
+                requestDate: new Date(Date.now() - 20 * DAY_MS),
+                refundStatus: 'NOT_APPLICABLE'
+            }
+        } as any);
+
+        beforeEach(() => {
+            mockPolicyRepository.findById.mockResolvedValue(cancelledPolicy);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...cancelledPolicy,
+                ...updates
+            }));
+            mockCircuitBreaker.fire.mockImplementation(async (fn: any) => fn());
+            mockPolicyClient.submitTransaction.mockResolvedValue({ policyId: 'OS-123' } as any);
+        });
+
+        it('should reinstate without lapse and re-charge the full return premium', async () => {
+            // Act
+            const result = await policyService.reinstatePolicy(cancelledPolicy.id, {
+                type: ReinstatementType.WITHOUT_LAPSE,
+                reinstatedBy: 'billing@mga.com'
+            });
+
+            // Assert
+            expect(result.status).toBe(PolicyStatus.ACTIVE);
+            expect(result.reinstatementInfo).toEqual(expect.objectContaining({
+                reinstatementDate: cancellationDate,
+                lapseDays: 0,
+                premiumChange: 2750,
+                earnedPremium: 3650
+            }));
+            expect(result.auditLog).toEqual([
+                expect.objectContaining({ action: 'REINSTATEMENT', userId: 'billing@mga.com' })
+            ]);
+            expect(mockPolicyClient.submitTransaction).toHaveBeenCalledWith(
+                'OS-123',
+                expect.objectContaining({ transactionType: 'REINSTATEMENT', premiumChange: 2750 })
+            );
+            expect(mockEventProducer.publishPolicyReinstated).toHaveBeenCalledWith(result);
+        });
+
+        it('should exclude premium for the lapse period when reinstating with lapse', async () => {
+            // Act
+            const result = await policyService.reinstatePolicy(cancelledPolicy.id, {
+                type: ReinstatementType.WITH_LAPSE,
+                reinstatedBy: 'billing@mga.com',
+                reinstatementDate: new Date(cancellationDate.getTime() + 10 * DAY_MS)
+            });
+
+            // Assert: 10 lapse days at 10/day are not earned
+            expect(result.reinstatementInfo).toEqual(expect.objectContaining({
+                lapseDays: 10,
+                lapsePremium: 100,
+                premiumChange: 2650,
+                earnedPremium: 3550
+            }));
+        });
+
+        it('should reject reinstatement outside the grace window', async () => {
+            // Arrange
+            mockPolicyRepository.findById.mockResolvedValue({
+                ...cancelledPolicy,
+                cancellationInfo: {
+                    ...cancelledPolicy.cancellationInfo!,
+                    effectiveDate: new Date(Date.now() - 45 * DAY_MS)
+                }
+            });
+
+            // Act & Assert
+            await expect(policyService.reinstatePolicy(cancelledPolicy.id, {
+                type: ReinstatementType.WITHOUT_LAPSE,
+                reinstatedBy: 'billing@mga.com'
+            })).rejects.toThrow('grace window');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should reject reinstatement of a policy cancelled for underwriting reasons', async () => {
+            // Arrange
+            mockPolicyRepository.findById.mockResolvedValue({
+                ...cancelledPolicy,
+                cancellationInfo: {
+                    ...cancelledPolicy.cancellationInfo!,
+                    reason: CancellationReason.UNDERWRITING
+                }
+            });
+
+            // Act & Assert
+            await expect(policyService.reinstatePolicy(cancelledPolicy.id, {
+                type: ReinstatementType.WITHOUT_LAPSE,
+                reinstatedBy: 'billing@mga.com'
+            })).rejects.toThrow('Only policies cancelled for non-payment can be reinstated');
+        });
+
+        it('should reject a lapse reinstatement dated beyond the grace window', async () => {
+            // Act & Assert: the request is within the window, the reinstatement date is not
+            await expect(policyService.reinstatePolicy(cancelledPolicy.id, {
+                type: ReinstatementType.WITH_LAPSE,
+                reinstatedBy: 'billing@mga.com',
+                reinstatementDate: new Date(cancellationDate.getTime() + 31 * DAY_MS)
+            })).rejects.toThrow('Reinstatement date must fall within the 30 day grace window after cancellation');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should sync the reinstated policy with OneShield', async () => {
+            // Arrange
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...cancelledPolicy,
+                ...updates,
+                premium: 3700
+            }));
+
+            // Act
+            await policyService.reinstatePolicy(cancelledPolicy.id, {
+                type: ReinstatementType.WITHOUT_LAPSE,
+                reinstatedBy: 'billing@mga.com'
+            });
+
+            // Assert
+            expect(mockPolicyClient.submitTransaction).toHaveBeenCalledWith(
+                'OS-123',
+                expect.objectContaining({ policy: expect.objectContaining({ premium: 3700 }) })
+            );
+        });
+
+        it('should not reactivate a cancelled policy through a direct status update', async () => {
+            // Act & Assert
+            await expect(policyService.updatePolicy(cancelledPolicy.id, { status: PolicyStatus.ACTIVE }))
+                .rejects.toThrow('Invalid policy status transition from CANCELLED to ACTIVE');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('endorsements', () => {
+        const DAY_MS = 24 * 60 * 60 * 1000;
+
+        it('should prorate the annualized premium delta to expiration', () => {
+            // Arrange
+            const policy = generateMockPolicy({
+                effectiveDate: new Date('2024-01-01T00:00:00Z'),
+                expirationDate: new Date('2024-12-31T00:00:00Z')
+            });
+
+            // Act
+            const rating = policyService.rateEndorsement(policy, new Date('2024-07-02T00:00:00Z'), 730);
+
+            // Assert
+            expect(rating).toEqual({
+                annualPremiumChange: 730,
+                termDays: 365,
+                proratedDays: 182,
+                premiumChange: 364
+            });
+        });
+
+        it('should roll back and re-apply later endorsements when a back-dated endorsement arrives', async () => {
+            // Arrange: the later endorsement lowered the deductible, the back-dated one raises the limits
+            const coverageA = { id: 'cov-a', type: 'PROPERTY', limits: { perOccurrence: 100000, aggregate: 200000 }, deductible: 1000 };
+            const coverageB = { ...coverageA, deductible: 500 };
+            const coverageC = { ...coverageA, limits: { perOccurrence: 250000, aggregate: 500000 } };
+            const coverageBC = { ...coverageC, deductible: 500 };
+            const policy = generateMockPolicy({
+                status: PolicyStatus.ACTIVE,
+                premium: 3925,
+                effectiveDate: new Date(Date.now() - 100 * DAY_MS),
+                expirationDate: new Date(Date.now() + 265 * DAY_MS),
+                coverages: [coverageB],
+                oneShieldPolicyId: 'OS-123'
+            });
+            const laterEndorsement = {
+                id: 'end-later',
+                type: 'DEDUCTIBLE_CHANGE',
+                effectiveDate: new Date(Date.now() - 10 * DAY_MS),
+                changes: { coverages: [coverageB] },
+                previousValues: { coverages: [coverageA] },
+                premiumChange: 275,
+                rating: { annualPremiumChange: 365, termDays: 365, proratedDays: 275, premiumChange: 275 }
+            } as any;
+
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+            mockEndorsementRepository.findInForceByPolicyId.mockResolvedValue([laterEndorsement]);
+            mockEndorsementRepository.create.mockImplementation(async (data: any) => ({ ...data, id: 'end-new' }));
+            mockEndorsementRepository.update.mockImplementation(async (id: string, updates: any) => ({
+                ...laterEndorsement,
+                ...updates
+            }));
+            mockCircuitBreaker.fire.mockImplementation(async (fn: any) => fn());
+            mockPolicyClient.submitTransaction.mockResolvedValue({ policyId: 'OS-123' } as any);
+
+            // Act
+            const result = await policyService.createEndorsement(policy.id, {
+                type: 'LIMIT_CHANGE',
+                effectiveDate: new Date(Date.now() - 50 * DAY_MS),
+                changes: { coverages: [coverageC] },
+                annualPremiumChange: 730,
+                requestedBy: 'underwriter@mga.com'
+            });
+
+            // Assert: the new endorsement is applied to the state before the later one
+            expect(mockEndorsementRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    premiumChange: 630,
+                    previousValues: { coverages: [coverageA] }
+                }),
+                expect.any(Object)
+            );
+            // Assert: only the later endorsement's deductible change is re-applied on top of the new one
+            expect(mockEndorsementRepository.update).toHaveBeenCalledWith(
+                'end-later',
+                expect.objectContaining({
+                    changes: { coverages: [coverageBC] },
+                    premiumChange: 275,
+                    previousValues: { coverages: [coverageC] }
+                }),
+                expect.any(Object)
+            );
+            expect(result.reapplied).toHaveLength(1);
+            expect(mockPolicyVersionRepository.record.mock.calls.map(call => call[1].sourceId))
+                .toEqual(['end-new', 'end-later']);
+            expect(result.policy.coverages).toEqual([coverageBC]);
+            expect(result.policy.premium).toBe(4555);
+            expect(mockPolicyClient.submitTransaction).toHaveBeenCalledWith(
+                'OS-123',
+                expect.objectContaining({ transactionType: 'ENDORSEMENT', premiumChange: 630 })
+            );
+        });
+
+        it('should reject an endorsement outside the policy term', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.ACTIVE });
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+
+            // Act & Assert
+            await expect(policyService.quoteEndorsement(
+                policy.id,
+                new Date(policy.expirationDate.getTime() + DAY_MS),
+                1000
+            )).rejects.toThrow('Endorsement effective date must fall within the policy term');
+        });
+    });
+
+    describe('versioning', () => {
+        it('should record a cancellation version effective from the cancellation date', async () => {
+            // Arrange
+            const DAY_MS = 24 * 60 * 60 * 1000;
+            const effectiveDate = new Date(Date.now() + 45 * DAY_MS);
+            const policy = generateMockPolicy({
+                status: PolicyStatus.ACTIVE,
+                effectiveDate: new Date(Date.now() - 30 * DAY_MS),
+                expirationDate: new Date(Date.now() + 335 * DAY_MS),
+                oneShieldPolicyId: 'OS-123'
+            });
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+            mockCircuitBreaker.fire.mockImplementation(async (fn: any) => fn());
+            mockBillingClient.processRefund.mockResolvedValue('REF-001');
+
+            // Act
+            const result = await policyService.cancelPolicy(policy.id, {
+                effectiveDate,
+                reason: CancellationReason.UNDERWRITING,
+                requestedBy: 'underwriter@mga.com'
+            });
+
+            // Assert
+            expect(mockPolicyVersionRepository.record).toHaveBeenCalledWith(
+                result,
+                expect.objectContaining({ transactionType: 'CANCELLATION', effectiveFrom: effectiveDate }),
+                expect.any(Object)
+            );
+        });
+
+        it('should return the in-force policy as of a date after activating it through status updates', async () => {
+            // Arrange: repositories backed by in-memory state so recorded versions can be read back
+            const DAY_MS = 24 * 60 * 60 * 1000;
+            const { id, ...policyData } = generateMockPolicy({
+                status: PolicyStatus.DRAFT,
+                effectiveDate: new Date(Date.now() - 30 * DAY_MS),
+                expirationDate: new Date(Date.now() + 335 * DAY_MS),
+                underwritingInfo: { riskScore: 85, subjectivities: [] },
+                documents: [{ type: 'POLICY_DOCUMENT' }]
+            } as any);
+            let stored: any;
+            let versions: any[] = [];
+            mockPolicyRepository.create.mockImplementation(async (data: any) => (stored = { ...data, id }));
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => (stored = { ...stored, ...updates }));
+            mockPolicyRepository.findById.mockImplementation(async () => stored);
+            mockPolicyVersionRepository.record.mockImplementation(async (snapshot: any, details: any) => {
+                versions = versions.map(version => !version.supersededAt && version.effectiveFrom >= details.effectiveFrom
+                    ? { ...version, supersededAt: new Date() }
+                    : version);
+                versions.push({ ...details, id: `v${versions.length + 1}`, snapshot });
+                return versions[versions.length - 1];
+            });
+            mockPolicyVersionRepository.findByPolicyId.mockImplementation(async () => versions);
+            mockPolicyVersionRepository.findAsOf.mockImplementation(async (_id: string, asOf: Date) => versions
+                .filter(version => !version.supersededAt && version.effectiveFrom <= asOf)
+                .pop() || null);
+            mockCircuitBreaker.fire.mockResolvedValue({ policyId: 'OS-123', status: 'DRAFT' });
+
+            // Act
+            await policyService.createPolicy(policyData);
+            for (const status of [PolicyStatus.QUOTED, PolicyStatus.BOUND, PolicyStatus.ACTIVE]) {
+                await policyService.updatePolicy(id, { status });
+            }
+            const result = await policyService.getPolicy(id, new Date(Date.now() - 10 * DAY_MS));
+
+            // Assert
+            expect(result?.status).toBe(PolicyStatus.ACTIVE);
+            expect(mockPolicyVersionRepository.record).toHaveBeenLastCalledWith(
+                expect.objectContaining({ status: PolicyStatus.ACTIVE }),
+                expect.objectContaining({ transactionType: 'NEW_BUSINESS', effectiveFrom: policyData.effectiveDate }),
+                expect.any(Object)
+            );
+        });
+
+        it('should return the policy version in force as of a date', async () => {
+            // Arrange
+            const snapshot = { ...mockPolicy, coverages: [] };
+            mockPolicyRepository.findById.mockResolvedValue(mockPolicy);
+            mockPolicyVersionRepository.findAsOf.mockResolvedValue({ snapshot } as any);
+
+            // Act
+            const result = await policyService.getPolicy(mockPolicy.id, new Date('2024-03-01T00:00:00Z'));
+
+            // Assert
+            expect(result).toBe(snapshot);
+            expect(mockCircuitBreaker.fire).not.toHaveBeenCalled();
+        });
+
+        it('should list versions with field-level diffs from the prior version', async () => {
+            // Arrange
+            const first = { ...mockPolicy, premium: 1000, status: PolicyStatus.ACTIVE };
+            const second = { ...first, premium: 1250 };
+            mockPolicyVersionRepository.findByPolicyId.mockResolvedValue([
+                { id: 'v1', versionNumber: 1, snapshot: first },
+                { id: 'v2', versionNumber: 2, snapshot: second }
+            ] as any);
+
+            // Act
+            const history = await policyService.getPolicyHistory(mockPolicy.id);
+
+            // Assert
+            expect(history[1].changes).toEqual([{ field: 'premium', from: 1000, to: 1250 }]);
+            expect(history[1]).not.toHaveProperty('snapshot');
+        });
+    });
+
+    describe('ratePolicy', () => {
+        it('should store the rated premium and breakdown on a quoted policy', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.QUOTED, premium: 1000 });
+            const breakdown = {
+                rateTableVersion: '2024.1',
+                totalPremium: 4860.5,
+                ratedAt: new Date()
+            } as any;
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockRatingService.rate.mockResolvedValue(breakdown);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+
+            // Act
+            const result = await policyService.ratePolicy(policy.id, {
+                exposures: { REVENUE: 1200000 },
+                scheduleModifiers: { MANAGEMENT: -0.05 },
+                ratedBy: 'underwriter@mga.com'
+            });
+
+            // Assert
+            expect(mockRatingService.rate).toHaveBeenCalledWith(expect.objectContaining({
+                policyType: policy.type,
+                exposures: { REVENUE: 1200000 },
+                coverages: policy.coverages,
+                scheduleModifiers: { MANAGEMENT: -0.05 }
+            }));
+            expect(result.premium).toBe(4860.5);
+            expect(result.premiumBreakdown).toBe(breakdown);
+            expect(result.auditLog?.[result.auditLog.length - 1]).toEqual(expect.objectContaining({
+                action: 'RATING',
+                details: expect.objectContaining({ previousPremium: 1000, rateTableVersion: '2024.1' })
+            }));
+            expect(mockEventProducer.publishPolicyUpdated).toHaveBeenCalledWith(result);
+        });
+
+        it('should reject rating a bound policy', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.ACTIVE });
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+
+            // Act & Assert
+            await expect(policyService.ratePolicy(policy.id, {
+                exposures: { REVENUE: 1200000 },
+                ratedBy: 'underwriter@mga.com'
+            })).rejects.toThrow('Only draft or quoted policies can be rated');
+            expect(mockRatingService.rate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('quotes', () => {
+        const DAY_MS = 24 * 60 * 60 * 1000;
+        const coverages = [{
+            id: 'cov-1',
+            type: 'GEN_LIAB',
+            limits: { perOccurrence: 2000000, aggregate: 4000000 },
+            deductible: 10000
+        }];
+
+        it('should rate a quote option from exposures and move the submission to QUOTED', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.DRAFT });
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockRatingService.rate.mockResolvedValue({ totalPremium: 5200, ratedAt: new Date() } as any);
+            mockPolicyQuoteRepository.create.mockImplementation(async (data: any) => ({
+                ...data,
+                id: 'quote-1',
+                optionNumber: 1,
+                status: QuoteStatus.ACTIVE
+            }));
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+
+            // Act
+            const quote = await policyService.createQuote(policy.id, {
+                label: '2M / 10K deductible',
+                coverages,
+                exposures: { REVENUE: 1200000 },
+                createdBy: 'underwriter@mga.com'
+            });
+
+            // Assert
+            expect(mockRatingService.rate).toHaveBeenCalledWith(expect.objectContaining({ coverages }));
+            expect(quote.premium).toBe(5200);
+            expect(new Date(quote.expirationDate).getTime()).toBeGreaterThan(Date.now() + 29 * DAY_MS);
+            expect(mockPolicyRepository.update).toHaveBeenCalledWith(
+                policy.id,
+                { status: PolicyStatus.QUOTED },
+                expect.any(Object)
+            );
+            expect(mockEventProducer.publishPolicyStatusChanged).toHaveBeenCalledWith(
+                expect.objectContaining({ status: PolicyStatus.QUOTED }),
+                PolicyStatus.DRAFT
+            );
+        });
+
+        it('should bind the selected option and supersede the others', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.QUOTED, oneShieldPolicyId: 'OS-123' });
+            const quote = {
+                id: 'quote-2',
+                policyId: policy.id,
+                optionNumber: 2,
+                label: '2M / 10K deductible',
+                coverages,
+                premium: 5200,
+                expirationDate: new Date(Date.now() + 10 * DAY_MS),
+                status: QuoteStatus.ACTIVE
+            } as any;
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyQuoteRepository.findById.mockResolvedValue(quote);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+            mockCircuitBreaker.fire.mockImplementation(async (fn: any) => fn());
+
+            // Act
+            const result = await policyService.bindQuote(policy.id, quote.id, 'underwriter@mga.com');
+
+            // Assert
+            expect(result.status).toBe(PolicyStatus.BOUND);
+            expect(result.coverages).toBe(coverages);
+            expect(result.premium).toBe(5200);
+            expect(mockPolicyQuoteRepository.bind).toHaveBeenCalledWith(quote, 'underwriter@mga.com', expect.any(Object));
+            expect(mockPolicyClient.updatePolicy).toHaveBeenCalledWith('OS-123', expect.any(Object));
+            expect(mockPolicyVersionRepository.record).toHaveBeenCalledWith(
+                result,
+                expect.objectContaining({ transactionType: 'NEW_BUSINESS' }),
+                expect.any(Object)
+            );
+        });
+
+        it('should reject binding an expired option', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.QUOTED });
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyQuoteRepository.findById.mockResolvedValue({
+                id: 'quote-1',
+                policyId: policy.id,
+                status: QuoteStatus.ACTIVE,
+                expirationDate: new Date(Date.now() - DAY_MS)
+            } as any);
+
+            // Act & Assert
+            await expect(policyService.bindQuote(policy.id, 'quote-1', 'underwriter@mga.com'))
+                .rejects.toThrow('Quote option has expired');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('product definitions', () => {
+        const coverage = {
+            id: 'cov-1',
+            type: 'GEN_LIAB',
+            limits: { perOccurrence: 1000000, aggregate: 2000000 },
+            deductible: 5000
+        };
+
+        it('should reject a quote option outside the product limits', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.DRAFT });
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+
+            // Act & Assert
+            await expect(policyService.createQuote(policy.id, {
+                label: '10M limit',
+                coverages: [{ ...coverage, limits: { perOccurrence: 10000000, aggregate: 10000000 } }],
+                premium: 25000,
+                createdBy: 'underwriter@mga.com'
+            })).rejects.toThrow('perOccurrence limit must be between 500000 and 5000000');
+            expect(mockPolicyQuoteRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should not bind until every required document is on file', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.QUOTED, documents: [] });
+            mockProductDefinitionRepository.findEffective.mockResolvedValue({
+                ...productDefinition,
+                requiredDocuments: ['loss_runs']
+            });
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyQuoteRepository.findById.mockResolvedValue({
+                id: 'quote-1',
+                policyId: policy.id,
+                coverages: [coverage],
+                premium: 5200,
+                status: QuoteStatus.ACTIVE,
+                expirationDate: new Date(Date.now() + 24 * 60 * 60 * 1000)
+            } as any);
+
+            // Act & Assert
+            await expect(policyService.bindQuote(policy.id, 'quote-1', 'underwriter@mga.com'))
+                .rejects.toThrow('Required document loss_runs has not been provided');
+            expect(mockPolicyQuoteRepository.bind).not.toHaveBeenCalled();
+        });
+
+        it('should report ineligible answers and missing required coverages on submission', async () => {
+            // Arrange
+            mockProductDefinitionRepository.findEffective.mockResolvedValue({
+                ...productDefinition,
+                eligibilityQuestions: [{
+                    id: 'hazardous_materials',
+                    text: 'Does the business handle hazardous materials?',
+                    answerType: EligibilityAnswerType.BOOLEAN,
+                    required: true,
+                    ineligibleWhen: { equals: true },
+                    declineReason: 'Hazardous materials exposures are outside appetite'
+                }]
+            });
+
+            // Act
+            const result = await policyService.checkProductRules({
+                type: PolicyType.GENERAL_LIABILITY,
+                effectiveDate: new Date('2024-06-01T00:00:00Z'),
+                coverages: [{ ...coverage, type: 'PRODUCTS_COMPLETED_OPS' }],
+                eligibilityAnswers: { hazardous_materials: true }
+            }, ProductValidationStage.SUBMISSION);
+
+            // Assert
+            expect(result.success).toBe(false);
+            expect(result.errors!.map(error => error.code)).toEqual([
+                'COVERAGE_NOT_OFFERED',
+                'REQUIRED_COVERAGE_MISSING',
+                'INELIGIBLE_RISK'
+            ]);
+        });
+
+        it('should fail when no product definition is in effect', async () => {
+            // Arrange
+            mockProductDefinitionRepository.findEffective.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(policyService.getProductDefinition(PolicyType.GENERAL_LIABILITY, new Date('2020-01-01T00:00:00Z')))
+                .rejects.toThrow('No product definition is in effect for GEN_LIAB');
+        });
+    });
+
+    describe('subjectivities', () => {
+        const DAY_MS = 24 * 60 * 60 * 1000;
+        const subjectivity = (overrides: Record<string, unknown>) => ({
+            id: 'subj-1',
+            type: SubjectivityType.DOCUMENT,
+            description: 'Signed loss control survey',
+            timing: 'PRE_BIND',
+            documentType: 'LOSS_CONTROL_SURVEY',
+            status: SubjectivityStatus.OPEN,
+            createdBy: 'underwriter@mga.com',
+            createdAt: new Date(),
+            ...overrides
+        }) as any;
+
+        it('should not bind while a pre-bind subjectivity is open', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.QUOTED });
+            policy.underwritingInfo.subjectivities = [subjectivity({})];
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyQuoteRepository.findById.mockResolvedValue({
+                id: 'quote-1',
+                policyId: policy.id,
+                coverages: policy.coverages,
+                premium: 5200,
+                status: QuoteStatus.ACTIVE,
+                expirationDate: new Date(Date.now() + 10 * DAY_MS)
+            } as any);
+
+            // Act & Assert
+            await expect(policyService.bindQuote(policy.id, 'quote-1', 'underwriter@mga.com'))
+                .rejects.toThrow('Pre-bind subjectivities must be satisfied or waived before binding: Signed loss control survey');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should set post-bind due dates when the policy is bound', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.QUOTED });
+            policy.underwritingInfo.subjectivities = [
+                subjectivity({ status: SubjectivityStatus.SATISFIED }),
+                subjectivity({ id: 'subj-2', timing: 'POST_BIND', dueDays: 30, description: 'Roof inspection' })
+            ];
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyQuoteRepository.findById.mockResolvedValue({
+                id: 'quote-1',
+                policyId: policy.id,
+                coverages: policy.coverages,
+                premium: 5200,
+                status: QuoteStatus.ACTIVE,
+                expirationDate: new Date(Date.now() + 10 * DAY_MS)
+            } as any);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+
+            // Act
+            const result = await policyService.bindQuote(policy.id, 'quote-1', 'underwriter@mga.com');
+
+            // Assert
+            const [preBind, postBind] = result.underwritingInfo.subjectivities!;
+            expect(preBind.dueDate).toBeUndefined();
+            expect(new Date(postBind.dueDate!).getTime()).toBeGreaterThan(Date.now() + 29 * DAY_MS);
+            expect(new Date(postBind.dueDate!).getTime()).toBeLessThanOrEqual(Date.now() + 30 * DAY_MS);
+        });
+
+        it('should only satisfy a document subjectivity with a document of the required type', async () => {
+            // Arrange
+            const policy = generateMockPolicy({ status: PolicyStatus.QUOTED });
+            policy.underwritingInfo.subjectivities = [subjectivity({})];
+            policy.documents = [{ ...policy.documents[0], id: 'doc-1', type: 'INVOICE' }];
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+
+            // Act & Assert
+            await expect(policyService.resolveSubjectivity(policy.id, 'subj-1', {
+                status: SubjectivityStatus.SATISFIED,
+                resolvedBy: 'underwriter@mga.com',
+                documentId: 'doc-1'
+            })).rejects.toThrow('Subjectivity requires a LOSS_CONTROL_SURVEY document');
+
+            // Arrange
+            policy.documents.push({ ...policy.documents[0], id: 'doc-2', type: 'LOSS_CONTROL_SURVEY' });
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+
+            // Act
+            const result = await policyService.resolveSubjectivity(policy.id, 'subj-1', {
+                status: SubjectivityStatus.SATISFIED,
+                resolvedBy: 'underwriter@mga.com',
+                documentId: 'doc-2'
+            });
+
+            // Assert
+            expect(result.underwritingInfo.subjectivities![0]).toEqual(expect.objectContaining({
+                status: SubjectivityStatus.SATISFIED,
+                documentId: 'doc-2',
+                resolvedBy: 'underwriter@mga.com'
+            }));
+        });
+
+        it('should alert overdue post-bind subjectivities once and flag policies for a cancellation notice', async () => {
+            // Arrange
+            const policy = generateMockPolicy({
+                status: PolicyStatus.ACTIVE,
+                expirationDate: new Date(Date.now() + 300 * DAY_MS)
+            });
+            policy.underwritingInfo.subjectivities = [
+                subjectivity({ timing: 'POST_BIND', dueDays: 30, dueDate: new Date(Date.now() - 20 * DAY_MS) }),
+                subjectivity({ id: 'subj-2', timing: 'POST_BIND', dueDays: 60, dueDate: new Date(Date.now() + 10 * DAY_MS) })
+            ];
+            mockPolicyRepository.findWithOpenSubjectivities.mockResolvedValue([policy]);
+            mockPolicyRepository.findById.mockResolvedValue(policy);
+            mockPolicyRepository.update.mockImplementation(async (_id: string, updates: any) => ({
+                ...policy,
+                ...updates
+            }));
+
+            // Act
+            const result = await policyService.checkOverdueSubjectivities();
+            const noticed = await policyService.issueSubjectivityCancellationNotice(policy.id, 'underwriter@mga.com');
+
+            // Assert
+            expect(result.alerted).toEqual([{ policyId: policy.id, subjectivityIds: ['subj-1'] }]);
+            expect(result.cancellationEligible).toEqual([policy.id]);
+            expect(mockEventProducer.publishSubjectivitiesOverdue).toHaveBeenCalledWith(
+                expect.any(Object),
+                [expect.objectContaining({ id: 'subj-1' })]
+            );
+            expect(noticed.underwritingInfo.cancellationNotice).toEqual(expect.objectContaining({
+                subjectivityIds: ['subj-1'],
+                issuedBy: 'underwriter@mga.com'
+            }));
+            expect(mockEventProducer.publishCancellationNoticeIssued).toHaveBeenCalledWith(noticed);
+        });
+    });
+
     describe('getPolicy', () => {
         it('should retrieve policy with OneShield data within performance threshold', async () => {
             // Arrange
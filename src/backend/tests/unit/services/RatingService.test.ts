@@ -0,0 +1,137 @@
+import { describe, beforeEach, test, expect, jest } from '@jest/globals';
+import path from 'path';
+import { RatingService, interpolateIncreasedLimitFactor } from '../../../src/services/RatingService';
+import { RateTableRepository } from '../../../src/repositories/RateTableRepository';
+import { PolicyType, VALID_POLICY_TYPES } from '../../../src/constants/policyTypes';
+import { ExposureBasis, IRatingRequest } from '../../../src/types/rating.types';
+
+// Mock external dependencies
+jest.mock('../../../src/utils/logger');
+
+// Rate table data files shipped with the service
+const RATE_TABLE_DIR = path.resolve(__dirname, '../../../data/rate-tables');
+
+describe('RatingService', () => {
+    let ratingService: RatingService;
+    let rateTableRepository: RateTableRepository;
+    let mockLogger: jest.Mocked<any>;
+
+    const ratingRequest = (overrides: Partial<IRatingRequest> = {}): IRatingRequest => ({
+        policyType: PolicyType.GENERAL_LIABILITY,
+        effectiveDate: new Date('2024-06-01T00:00:00Z'),
+        exposures: { [ExposureBasis.REVENUE]: 1200000 },
+        coverages: [{
+            id: 'cov-1',
+            type: 'GEN_LIAB',
+            limits: { perOccurrence: 1000000, aggregate: 2000000 },
+            deductible: 5000
+        }],
+        ...overrides
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockLogger = {
+            info: jest.fn(),
+            error: jest.fn()
+        };
+
+        rateTableRepository = new RateTableRepository(RATE_TABLE_DIR);
+        ratingService = new RatingService(rateTableRepository, mockLogger);
+    });
+
+    describe('rate table data files', () => {
+        test('should provide a valid rate table for every policy type', async () => {
+            for (const policyType of VALID_POLICY_TYPES) {
+                const table = await rateTableRepository.findEffective(policyType, new Date('2024-06-01T00:00:00Z'));
+                expect(table).not.toBeNull();
+            }
+        });
+
+        test('should select the latest rate table effective on the policy effective date', async () => {
+            const before = await ratingService.rate(ratingRequest({ effectiveDate: new Date('2023-12-31T00:00:00Z') }));
+            const after = await ratingService.rate(ratingRequest({ effectiveDate: new Date('2024-01-01T00:00:00Z') }));
+
+            expect(before.rateTableVersion).toBe('2023.1');
+            expect(after.rateTableVersion).toBe('2024.1');
+        });
+
+        test('should reject policies effective before the first rate table', async () => {
+            await expect(ratingService.rate(ratingRequest({ effectiveDate: new Date('2020-01-01T00:00:00Z') })))
+                .rejects.toThrow('No rate table is in effect');
+        });
+    });
+
+    describe('rate', () => {
+        test('should apply base rate, ILF, deductible credit and schedule modifiers', async () => {
+            const breakdown = await ratingService.rate(ratingRequest({
+                scheduleModifiers: { MANAGEMENT: -0.05 }
+            }));
+
+            // 1,200,000 / 1,000 x 4.05 = 4,860; x 1.00 ILF x (1 - 0.07) = 4,519.80; x 0.95 = 4,293.81
+            expect(breakdown.basePremium).toBe(4860);
+            expect(breakdown.coverages[0]).toEqual(expect.objectContaining({
+                increasedLimitFactor: 1,
+                deductibleCredit: 0.07,
+                premium: 4519.8
+            }));
+            expect(breakdown.scheduleModifier).toBe(0.95);
+            expect(breakdown.totalPremium).toBe(4293.81);
+            expect(breakdown.minimumPremiumApplied).toBe(false);
+        });
+
+        test('should apply the minimum premium', async () => {
+            const breakdown = await ratingService.rate(ratingRequest({
+                exposures: { [ExposureBasis.REVENUE]: 100000 }
+            }));
+
+            expect(breakdown.minimumPremiumApplied).toBe(true);
+            expect(breakdown.totalPremium).toBe(850);
+        });
+
+        test('should require the exposure basis of the rate table', async () => {
+            await expect(ratingService.rate(ratingRequest({
+                exposures: { [ExposureBasis.PAYROLL]: 500000 }
+            }))).rejects.toThrow('REVENUE exposure is required to rate GEN_LIAB');
+        });
+
+        test('should reject schedule modifiers outside the permitted range', async () => {
+            await expect(ratingService.rate(ratingRequest({
+                scheduleModifiers: { MANAGEMENT: -0.2 }
+            }))).rejects.toThrow('Schedule modifier MANAGEMENT must be between');
+
+            await expect(ratingService.rate(ratingRequest({
+                scheduleModifiers: { UNKNOWN: 0.01 }
+            }))).rejects.toThrow('Schedule modifier category UNKNOWN is not defined');
+        });
+
+        test('should use a registered rater in place of the standard algorithm', async () => {
+            const rater = jest.fn().mockReturnValue({ totalPremium: 1234 });
+            ratingService.registerRater(PolicyType.GENERAL_LIABILITY, rater as any);
+
+            const breakdown = await ratingService.rate(ratingRequest());
+
+            expect(rater).toHaveBeenCalledWith(
+                expect.objectContaining({ version: '2024.1' }),
+                expect.objectContaining({ policyType: PolicyType.GENERAL_LIABILITY })
+            );
+            expect(breakdown.totalPremium).toBe(1234);
+        });
+    });
+
+    describe('interpolateIncreasedLimitFactor', () => {
+        const curve = [
+            { limit: 1000000, factor: 1.0 },
+            { limit: 2000000, factor: 1.18 }
+        ];
+
+        test('should interpolate between curve points', () => {
+            expect(interpolateIncreasedLimitFactor(curve, 1500000)).toBeCloseTo(1.09);
+        });
+
+        test('should reject limits outside the curve', () => {
+            expect(() => interpolateIncreasedLimitFactor(curve, 5000000)).toThrow('outside the rated range');
+        });
+    });
+});
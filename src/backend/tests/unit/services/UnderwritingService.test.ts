@@ -1,8 +1,13 @@
 import { describe, beforeEach, test, expect, jest } from '@jest/globals';
 import { MockInstance } from 'jest-mock';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { UnderwritingService } from '../../../src/services/UnderwritingService';
-import { IRiskAssessment } from '../../../src/types/underwriting.types';
-import { RISK_SCORE_THRESHOLDS } from '../../../src/constants/underwritingRules';
+import { assessLocationZones } from '../../../src/services/LocationRisk';
+import { LocationZoneRepository } from '../../../src/repositories/LocationZoneRepository';
+import { IRescoreResult, IRescoreRun, IRiskAssessment, IRiskFactor, ISlaClock, ISubmissionChecklist, IUnderwriterAuthority, IUnderwritingDecisionRecord, IUnderwritingRule } from '../../../src/types/underwriting.types';
+import { CHECKLIST_REMINDER_HOURS, LOCATION_PERILS, RISK_SCORE_THRESHOLDS, RISK_FACTOR_WEIGHTS, SLA_TARGET_MINUTES, UNDERWRITING_CONFIG_VERSION } from '../../../src/constants/underwritingRules';
 import { PolicyType } from '../../../src/constants/policyTypes';
 import { UnderwritingStatus } from '../../../src/types/underwriting.types';
 
@@ -12,6 +17,9 @@ jest.mock('../../../src/integrations/OneShieldClient');
 jest.mock('../../../src/utils/logger');
 jest.mock('../../../src/utils/cache');
 
+// Location zone data files shipped with the service
+const LOCATION_ZONE_DIR = path.resolve(__dirname, '../../../data/location-zones');
+
 describe('UnderwritingService', () => {
     let underwritingService: UnderwritingService;
     let mockPolicyRepository: jest.Mocked<any>;
@@ -19,6 +27,18 @@ describe('UnderwritingService', () => {
     let mockOneShieldClient: jest.Mocked<any>;
     let mockCacheManager: jest.Mocked<any>;
     let mockEventEmitter: jest.Mocked<any>;
+    let mockRuleRepository: jest.Mocked<any>;
+    let mockDecisionRepository: jest.Mocked<any>;
+    let mockAuthorityRepository: jest.Mocked<any>;
+    let mockSlaClockRepository: jest.Mocked<any>;
+    let mockProductDefinitionRepository: jest.Mocked<any>;
+    let mockChecklistRepository: jest.Mocked<any>;
+    let mockRescoreRepository: jest.Mocked<any>;
+    let storedDecision: any;
+    let storedClocks: ISlaClock[];
+    let storedChecklist: ISubmissionChecklist | null;
+    let storedRun: IRescoreRun | null;
+    let storedResults: IRescoreResult[];
 
     const testPolicy = {
         id: 'test-policy-123',
@@ -35,16 +55,80 @@ describe('UnderwritingService', () => {
         validate: jest.fn()
     };
 
+    const buildRule = (overrides: Partial<IUnderwritingRule>): IUnderwritingRule => ({
+        id: 'rule-default',
+        name: 'Default rule',
+        description: 'Default rule description',
+        policyType: null,
+        criteria: { conditions: [], logicalOperator: 'AND' },
+        action: 'FLAG',
+        priority: 100,
+        validationRules: [],
+        automationEligible: false,
+        active: true,
+        ...overrides
+    });
+
+    // Mirrors the default risk score rules seeded by the underwriting_rules migration
+    const defaultRules: IUnderwritingRule[] = [
+        buildRule({
+            id: 'rule-low-risk',
+            name: 'Low risk auto-approval',
+            description: 'Automatically approved based on low risk score',
+            criteria: {
+                conditions: [{ field: 'riskAssessment.riskScore', operator: 'LESS_THAN_OR_EQUAL', value: RISK_SCORE_THRESHOLDS.LOW_RISK }],
+                logicalOperator: 'AND'
+            },
+            action: 'APPROVE',
+            priority: 100,
+            automationEligible: true
+        }),
+        buildRule({
+            id: 'rule-high-risk',
+            name: 'High risk referral',
+            description: 'Requires senior underwriter review',
+            criteria: {
+                conditions: [{ field: 'riskAssessment.riskScore', operator: 'GREATER_THAN_OR_EQUAL', value: RISK_SCORE_THRESHOLDS.HIGH_RISK }],
+                logicalOperator: 'AND'
+            },
+            action: 'REFER',
+            priority: 200
+        }),
+        buildRule({
+            id: 'rule-standard-review',
+            name: 'Standard review',
+            description: 'Standard review required',
+            criteria: {
+                conditions: [
+                    { field: 'riskAssessment.riskScore', operator: 'GREATER_THAN', value: RISK_SCORE_THRESHOLDS.LOW_RISK },
+                    { field: 'riskAssessment.riskScore', operator: 'LESS_THAN', value: RISK_SCORE_THRESHOLDS.HIGH_RISK }
+                ],
+                logicalOperator: 'AND'
+            },
+            action: 'FLAG',
+            priority: 300
+        })
+    ];
+
     beforeEach(() => {
         // Reset all mocks
         jest.clearAllMocks();
 
         // Initialize mocks
+        storedDecision = {};
+        storedClocks = [];
+        storedChecklist = null;
+        storedRun = null;
+        storedResults = [];
         mockPolicyRepository = {
-            findById: jest.fn().mockResolvedValue(testPolicy)
+            findById: jest.fn().mockResolvedValue(testPolicy),
+            update: jest.fn().mockResolvedValue(testPolicy),
+            countInStatuses: jest.fn().mockResolvedValue(0),
+            findPageAfter: jest.fn().mockResolvedValue([])
         };
         mockLogger = {
             info: jest.fn(),
+            warn: jest.fn(),
             error: jest.fn(),
             debug: jest.fn()
         };
@@ -54,11 +138,81 @@ describe('UnderwritingService', () => {
         };
         mockCacheManager = {
             get: jest.fn().mockResolvedValue(null),
-            set: jest.fn().mockResolvedValue(true)
+            set: jest.fn().mockResolvedValue(true),
+            del: jest.fn().mockResolvedValue(true)
         };
         mockEventEmitter = {
             emit: jest.fn()
         };
+        mockRuleRepository = {
+            findActive: jest.fn().mockResolvedValue(defaultRules),
+            findAll: jest.fn().mockResolvedValue(defaultRules),
+            findById: jest.fn().mockResolvedValue(null),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn()
+        };
+        mockDecisionRepository = {
+            create: jest.fn().mockImplementation(async (record: any) => (storedDecision = { id: 'decision-1', ...record })),
+            findByPolicyId: jest.fn().mockResolvedValue([]),
+            findForReplay: jest.fn().mockResolvedValue([]),
+            findOpen: jest.fn().mockResolvedValue([]),
+            updateReview: jest.fn().mockImplementation(async (id: string, review: any) =>
+                (storedDecision = { ...storedDecision, id, ...review })),
+            updateAssignment: jest.fn().mockImplementation(async (id: string, assignment: any) =>
+                (storedDecision = { ...storedDecision, id, ...assignment }))
+        };
+        mockAuthorityRepository = {
+            findByUserId: jest.fn().mockResolvedValue(null),
+            findAll: jest.fn().mockResolvedValue([]),
+            update: jest.fn().mockResolvedValue(null),
+            upsert: jest.fn()
+        };
+        mockSlaClockRepository = {
+            create: jest.fn().mockImplementation(async (clock: any) => {
+                const created = { id: `clock-${storedClocks.length + 1}`, ...clock };
+                storedClocks.push(created);
+                return created;
+            }),
+            findByPolicyId: jest.fn().mockImplementation(async (policyId: string) =>
+                storedClocks.filter(clock => clock.policyId === policyId)),
+            findRunning: jest.fn().mockImplementation(async (policyId?: string) =>
+                storedClocks.filter(clock => !clock.completedAt && (!policyId || clock.policyId === policyId))),
+            findForSubmissionsStartedBetween: jest.fn().mockImplementation(async () => storedClocks),
+            update: jest.fn().mockImplementation(async (id: string, updates: any) => {
+                const index = storedClocks.findIndex(clock => clock.id === id);
+                storedClocks[index] = { ...storedClocks[index], ...updates };
+                return storedClocks[index];
+            })
+        };
+
+        // Products without required documents or fields unless a test supplies one
+        mockProductDefinitionRepository = {
+            findEffective: jest.fn().mockResolvedValue(null)
+        };
+        mockChecklistRepository = {
+            findByPolicyId: jest.fn().mockImplementation(async () => storedChecklist),
+            findPending: jest.fn().mockImplementation(async () =>
+                (storedChecklist?.pendingSince ? [storedChecklist] : [])),
+            upsert: jest.fn().mockImplementation(async (checklist: any) =>
+                (storedChecklist = { id: 'checklist-1', ...checklist })),
+            recordReminder: jest.fn().mockImplementation(async (policyId: string, remindedAt: Date) =>
+                (storedChecklist = { ...storedChecklist!, remindersSent: storedChecklist!.remindersSent + 1, lastRemindedAt: remindedAt }))
+        };
+        mockRescoreRepository = {
+            createRun: jest.fn().mockImplementation(async (run: any) => (storedRun = { id: 'run-1', ...run })),
+            findRunById: jest.fn().mockImplementation(async () => storedRun),
+            findRecentRuns: jest.fn().mockImplementation(async () => (storedRun ? [storedRun] : [])),
+            updateRun: jest.fn().mockImplementation(async (id: string, updates: any) =>
+                (storedRun = { ...storedRun!, ...updates })),
+            recordResult: jest.fn().mockImplementation(async (result: IRescoreResult) => {
+                storedResults.push(result);
+                return result;
+            }),
+            findResultsForPolicies: jest.fn().mockImplementation(async (runId: string, policyIds: string[]) =>
+                storedResults.filter(result => result.runId === runId && policyIds.includes(result.policyId))),
+            findResults: jest.fn().mockImplementation(async () => storedResults)
+        };
 
         // Initialize service
         underwritingService = new UnderwritingService(
@@ -66,7 +220,15 @@ describe('UnderwritingService', () => {
             mockLogger,
             mockOneShieldClient,
             mockCacheManager,
-            mockEventEmitter
+            mockEventEmitter,
+            mockRuleRepository,
+            mockDecisionRepository,
+            mockAuthorityRepository,
+            mockSlaClockRepository,
+            new LocationZoneRepository(LOCATION_ZONE_DIR),
+            mockProductDefinitionRepository,
+            mockChecklistRepository,
+            mockRescoreRepository
         );
     });
 
@@ -186,6 +348,1050 @@ describe('UnderwritingService', () => {
         });
     });
 
+    describe('underwriting rules', () => {
+        const testRiskAssessment: IRiskAssessment = {
+            policyId: testPolicy.id,
+            riskScore: 50,
+            riskFactors: [{
+                type: 'CLAIMS_HISTORY',
+                score: 70,
+                weight: 0.35,
+                details: {},
+                confidence: 0.9,
+                dataSource: 'CLAIMS_SYSTEM',
+                validationStatus: 'VALID'
+            }],
+            assessmentDate: new Date(),
+            assessedBy: 'AUTOMATED_ENGINE',
+            policyType: testPolicy.type,
+            validationErrors: [],
+            lastModified: new Date(),
+            version: 1
+        };
+
+        test('should evaluate the active rules for the policy type and record fired rules', async () => {
+            const result = await underwritingService.makeUnderwritingDecision(
+                testRiskAssessment,
+                testPolicy.type
+            );
+
+            expect(mockRuleRepository.findActive).toHaveBeenCalledWith(testPolicy.type);
+            expect(result.status).toBe(UnderwritingStatus.IN_REVIEW);
+            expect(mockDecisionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+                policyId: testPolicy.id,
+                status: UnderwritingStatus.IN_REVIEW,
+                firedRuleIds: ['rule-standard-review'],
+                premium: testPolicy.premium
+            }));
+            expect(result.firedRuleIds).toEqual(['rule-standard-review']);
+            expect(result.conditions).toEqual(['Standard review required']);
+        });
+
+        test('should decline when a higher priority decline rule fires', async () => {
+            mockRuleRepository.findActive.mockResolvedValueOnce([
+                ...defaultRules,
+                buildRule({
+                    id: 'rule-claims-decline',
+                    name: 'Poor claims history',
+                    description: 'Claims history outside appetite',
+                    criteria: {
+                        conditions: [
+                            { field: 'riskFactors.CLAIMS_HISTORY', operator: 'GREATER_THAN', value: 60 },
+                            { field: 'policy.premium', operator: 'LESS_THAN', value: 10000 }
+                        ],
+                        logicalOperator: 'AND'
+                    },
+                    action: 'DECLINE',
+                    priority: 10
+                })
+            ]);
+
+            const result = await underwritingService.makeUnderwritingDecision(
+                testRiskAssessment,
+                testPolicy.type
+            );
+
+            expect(result.status).toBe(UnderwritingStatus.DECLINED);
+            expect(result.firedRuleIds).toEqual(['rule-claims-decline']);
+            expect(result.conditions).toEqual(['Claims history outside appetite']);
+        });
+
+        test('should refer when no rule fires', async () => {
+            mockRuleRepository.findActive.mockResolvedValueOnce([]);
+
+            const result = await underwritingService.makeUnderwritingDecision(
+                testRiskAssessment,
+                testPolicy.type
+            );
+
+            expect(result.status).toBe(UnderwritingStatus.REFERRED);
+            expect(result.firedRuleIds).toEqual([]);
+        });
+
+        test('should record the user who creates a rule', async () => {
+            const { id, ...ruleData } = defaultRules[0];
+            mockRuleRepository.create.mockImplementation(async (data: any) => ({ id: 'rule-new', ...data }));
+
+            const result = await underwritingService.createRule(ruleData, 'manager-1');
+
+            expect(mockRuleRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+                createdBy: 'manager-1',
+                updatedBy: 'manager-1'
+            }));
+            expect(result.id).toBe('rule-new');
+            expect(mockEventEmitter.emit).toHaveBeenCalledWith('underwriting.rule.created', result);
+        });
+    });
+
+    describe('simulateRules', () => {
+        const buildRecord = (overrides: Partial<IUnderwritingDecisionRecord>): IUnderwritingDecisionRecord => ({
+            id: 'decision-default',
+            policyId: 'policy-default',
+            policyType: PolicyType.COMMERCIAL_PROPERTY,
+            status: UnderwritingStatus.APPROVED,
+            riskScore: 28,
+            riskFactors: [
+                { type: 'CLAIMS_HISTORY', score: 20, weight: 0.35, details: {}, confidence: 0.9, dataSource: 'CLAIMS_SYSTEM', validationStatus: 'VALID' },
+                { type: 'LOCATION_RISK', score: 40, weight: 0.25, details: {}, confidence: 0.9, dataSource: 'GEO_SERVICE', validationStatus: 'VALID' },
+                { type: 'COVERAGE_AMOUNT', score: 30, weight: 0.20, details: {}, confidence: 0.9, dataSource: 'POLICY', validationStatus: 'VALID' },
+                { type: 'BUSINESS_TYPE', score: 25, weight: 0.20, details: {}, confidence: 0.9, dataSource: 'POLICY', validationStatus: 'VALID' }
+            ],
+            firedRuleIds: ['rule-low-risk'],
+            automationLevel: 'FULL',
+            decidedBy: 'AUTOMATED_ENGINE',
+            premium: 5000,
+            policySnapshot: { policyNumber: 'POL-001', premium: 5000 },
+            decidedAt: new Date('2024-03-01T00:00:00Z'),
+            ...overrides
+        });
+
+        test('should report decisions a lower approval threshold would refer', async () => {
+            // Arrange
+            mockDecisionRepository.findForReplay.mockResolvedValueOnce([
+                buildRecord({ id: 'decision-1', policyId: 'policy-1', riskScore: 28, premium: 5000 }),
+                buildRecord({ id: 'decision-2', policyId: 'policy-2', riskScore: 12, premium: 8000 })
+            ]);
+            const candidateRules = defaultRules.map(({ id, ...rule }) => rule);
+            candidateRules[0].criteria = {
+                conditions: [{ field: 'riskAssessment.riskScore', operator: 'LESS_THAN_OR_EQUAL', value: 20 }],
+                logicalOperator: 'AND'
+            };
+            candidateRules[2].criteria = {
+                conditions: [{ field: 'riskAssessment.riskScore', operator: 'GREATER_THAN', value: 20 }],
+                logicalOperator: 'AND'
+            };
+
+            // Act
+            const report = await underwritingService.simulateRules({ rules: candidateRules });
+
+            // Assert
+            expect(report.decisionsEvaluated).toBe(2);
+            expect(report.decisionsChanged).toBe(1);
+            expect(report.premiumAffected).toBe(5000);
+            expect(report.transitions).toEqual([{
+                from: UnderwritingStatus.APPROVED,
+                to: UnderwritingStatus.IN_REVIEW,
+                count: 1,
+                premium: 5000
+            }]);
+            expect(report.changes[0]).toEqual(expect.objectContaining({
+                policyId: 'policy-1',
+                policyNumber: 'POL-001',
+                firedRuleIds: ['candidate-3']
+            }));
+            expect(mockRuleRepository.findActive).not.toHaveBeenCalled();
+        });
+
+        test('should rescore with candidate weights against the current rules', async () => {
+            // Arrange
+            mockDecisionRepository.findForReplay.mockResolvedValueOnce([
+                buildRecord({ id: 'decision-1', policyId: 'policy-1' })
+            ]);
+
+            // Act
+            const report = await underwritingService.simulateRules({
+                riskFactorWeights: { CLAIMS_HISTORY: 0, LOCATION_RISK: 1, COVERAGE_AMOUNT: 0, BUSINESS_TYPE: 0 }
+            });
+
+            // Assert
+            expect(mockRuleRepository.findActive).toHaveBeenCalledWith(PolicyType.COMMERCIAL_PROPERTY);
+            expect(report.candidate.usesCurrentRules).toBe(true);
+            expect(report.changes[0]).toEqual(expect.objectContaining({
+                originalStatus: UnderwritingStatus.APPROVED,
+                simulatedStatus: UnderwritingStatus.IN_REVIEW,
+                originalRiskScore: 28,
+                simulatedRiskScore: 40
+            }));
+        });
+
+        test('should replay only the latest decision per policy', async () => {
+            // Arrange
+            mockDecisionRepository.findForReplay.mockResolvedValueOnce([
+                buildRecord({ id: 'decision-2', policyId: 'policy-1', status: UnderwritingStatus.IN_REVIEW, riskScore: 50 }),
+                buildRecord({ id: 'decision-1', policyId: 'policy-1', status: UnderwritingStatus.APPROVED, riskScore: 28 })
+            ]);
+
+            // Act
+            const report = await underwritingService.simulateRules({
+                rules: defaultRules.map(({ id, ...rule }) => rule)
+            });
+
+            // Assert
+            expect(report.decisionsEvaluated).toBe(1);
+            expect(report.decisionsChanged).toBe(0);
+        });
+    });
+
+    describe('reviewDecision', () => {
+        const referredDecision = {
+            id: 'decision-1',
+            policyId: testPolicy.id,
+            policyType: PolicyType.COMMERCIAL_PROPERTY,
+            status: UnderwritingStatus.REFERRED,
+            riskScore: 88,
+            reviewHistory: []
+        };
+
+        const buildAuthority = (overrides: Partial<IUnderwriterAuthority>): IUnderwriterAuthority => ({
+            id: 'authority-default',
+            userId: 'underwriter-default',
+            maxLimit: 500000,
+            maxPremium: 10000,
+            maxRiskScore: 60,
+            policyTypes: [PolicyType.COMMERCIAL_PROPERTY],
+            refersToUserId: null,
+            active: true,
+            ...overrides
+        });
+
+        // Junior refers to senior, senior refers to chief; only chief covers a 1M limit at score 88
+        const authorities: Record<string, IUnderwriterAuthority> = {
+            junior: buildAuthority({ userId: 'junior', refersToUserId: 'senior' }),
+            senior: buildAuthority({ userId: 'senior', maxLimit: 750000, maxRiskScore: 90, refersToUserId: 'chief' }),
+            chief: buildAuthority({ userId: 'chief', maxLimit: 5000000, maxPremium: 100000, maxRiskScore: 100 })
+        };
+
+        beforeEach(() => {
+            storedDecision = { ...referredDecision };
+            mockDecisionRepository.findByPolicyId.mockResolvedValue([referredDecision]);
+            mockAuthorityRepository.findByUserId.mockImplementation(async (userId: string) => authorities[userId] || null);
+        });
+
+        test('should approve and record the review when within the reviewer authority', async () => {
+            // Act
+            const result = await underwritingService.reviewDecision(
+                testPolicy.id,
+                { status: UnderwritingStatus.APPROVED, notes: 'Reviewed loss runs and inspection report' },
+                'chief'
+            );
+
+            // Assert
+            expect(result?.reviewStatus).toBe(UnderwritingStatus.APPROVED);
+            expect(result?.referredTo).toBeNull();
+            expect(result?.reviewHistory).toEqual([
+                expect.objectContaining({ reviewer: 'chief', action: 'REVIEW_DECISION', newStatus: UnderwritingStatus.APPROVED })
+            ]);
+            expect(mockPolicyRepository.update).toHaveBeenCalledWith(testPolicy.id, {
+                underwritingInfo: expect.objectContaining({ approvedBy: 'chief' })
+            });
+        });
+
+        test('should block an approval above authority and record each referral hop', async () => {
+            // Act
+            const result = await underwritingService.reviewDecision(
+                testPolicy.id,
+                { status: UnderwritingStatus.APPROVED, notes: 'Reviewed loss runs and inspection report' },
+                'junior'
+            );
+
+            // Assert
+            expect(result?.reviewStatus).toBe(UnderwritingStatus.REFERRED);
+            expect(result?.referredTo).toBe('chief');
+            expect(result?.assignedTo).toBe('chief');
+            expect(result?.reviewHistory).toEqual([
+                expect.objectContaining({ reviewer: 'junior', action: 'REFERRED', referredTo: 'senior' }),
+                expect.objectContaining({ reviewer: 'senior', action: 'REFERRED', referredTo: 'chief' }),
+                expect.objectContaining({ reviewer: 'junior', action: 'ASSIGNED', assignedTo: 'chief' })
+            ]);
+            expect(result?.reviewHistory?.[1].notes).toContain('Limit 1000000 exceeds authority of 750000');
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+        });
+
+        test('should leave the decision unassigned when the referral chain runs out', async () => {
+            // Arrange
+            mockAuthorityRepository.findByUserId.mockImplementation(async (userId: string) =>
+                userId === 'chief' ? null : authorities[userId]);
+
+            // Act
+            const result = await underwritingService.reviewDecision(
+                testPolicy.id,
+                { status: UnderwritingStatus.APPROVED, notes: 'Reviewed loss runs and inspection report' },
+                'senior'
+            );
+
+            // Assert
+            expect(result?.reviewStatus).toBe(UnderwritingStatus.REFERRED);
+            expect(result?.referredTo).toBeNull();
+            expect(result?.reviewHistory?.map(entry => entry.action)).toEqual(['REFERRED', 'REFERRAL_CHAIN_EXHAUSTED']);
+        });
+
+        test('should allow a decline without approval authority', async () => {
+            // Act
+            const result = await underwritingService.reviewDecision(
+                testPolicy.id,
+                { status: UnderwritingStatus.DECLINED, notes: 'Outside appetite for this occupancy' },
+                'junior'
+            );
+
+            // Assert
+            expect(result?.reviewStatus).toBe(UnderwritingStatus.DECLINED);
+            expect(mockAuthorityRepository.findByUserId).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('underwriter assignment', () => {
+        const inReviewAssessment: IRiskAssessment = {
+            policyId: testPolicy.id,
+            riskScore: 50,
+            riskFactors: [],
+            assessmentDate: new Date(),
+            assessedBy: 'AUTOMATED_ENGINE',
+            policyType: testPolicy.type,
+            validationErrors: [],
+            lastModified: new Date(),
+            version: 1
+        };
+
+        const buildAuthority = (overrides: Partial<IUnderwriterAuthority>): IUnderwriterAuthority => ({
+            id: `authority-${overrides.userId}`,
+            userId: 'underwriter-default',
+            maxLimit: 2000000,
+            maxPremium: 50000,
+            maxRiskScore: 80,
+            policyTypes: [PolicyType.COMMERCIAL_PROPERTY],
+            refersToUserId: null,
+            active: true,
+            outOfOfficeUntil: null,
+            lastAssignedAt: null,
+            ...overrides
+        });
+
+        // Alice and Bob can write the test policy, Carol is away and Dave writes another line
+        const team = [
+            buildAuthority({ userId: 'alice' }),
+            buildAuthority({ userId: 'bob' }),
+            buildAuthority({ userId: 'carol', outOfOfficeUntil: new Date(Date.now() + 24 * 60 * 60 * 1000) }),
+            buildAuthority({ userId: 'dave', policyTypes: [PolicyType.GENERAL_LIABILITY] })
+        ];
+
+        const openDecision = (id: string, assignedTo: string | null, status = UnderwritingStatus.IN_REVIEW) => ({
+            id,
+            policyId: `policy-${id}`,
+            status,
+            riskScore: 50,
+            assignedTo,
+            reviewHistory: []
+        });
+
+        beforeEach(() => {
+            mockAuthorityRepository.findAll.mockResolvedValue(team);
+            mockAuthorityRepository.findByUserId.mockImplementation(async (userId: string) =>
+                team.find(authority => authority.userId === userId) || null);
+        });
+
+        test('should assign an in-review decision to the least loaded underwriter with authority', async () => {
+            // Arrange
+            mockDecisionRepository.findOpen.mockResolvedValue([
+                openDecision('d1', 'alice'),
+                openDecision('d2', 'alice'),
+                openDecision('d3', 'bob')
+            ]);
+
+            // Act
+            const result = await underwritingService.makeUnderwritingDecision(inReviewAssessment, testPolicy.type);
+
+            // Assert
+            expect(result.status).toBe(UnderwritingStatus.IN_REVIEW);
+            expect(mockDecisionRepository.updateAssignment).toHaveBeenCalledWith('decision-1', expect.objectContaining({
+                assignedTo: 'bob'
+            }));
+            expect(mockAuthorityRepository.update).toHaveBeenCalledWith('bob', { lastAssignedAt: expect.any(Date) });
+        });
+
+        test('should reassign open work when an underwriter goes out of office', async () => {
+            // Arrange
+            const until = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+            mockAuthorityRepository.update.mockImplementation(async (userId: string, updates: any) =>
+                ({ ...team.find(authority => authority.userId === userId), ...updates }));
+            mockDecisionRepository.findOpen.mockResolvedValue([openDecision('d1', 'alice')]);
+
+            // Act
+            const result = await underwritingService.setOutOfOffice('alice', until, 'manager-1');
+
+            // Assert
+            expect(result?.reassigned).toBe(1);
+            expect(mockDecisionRepository.updateAssignment).toHaveBeenCalledWith('d1', expect.objectContaining({
+                assignedTo: 'bob',
+                reviewHistory: [expect.objectContaining({ action: 'REASSIGNED', assignedTo: 'bob' })]
+            }));
+        });
+
+        test('should reject manual reassignment to an underwriter who is out of office', async () => {
+            // Arrange
+            mockDecisionRepository.findByPolicyId.mockResolvedValue([openDecision('d1', 'alice')]);
+
+            // Act & Assert
+            await expect(underwritingService.reassignDecision(
+                'policy-d1',
+                { assigneeId: 'carol', reason: 'Specialist review' },
+                'manager-1'
+            )).rejects.toThrow('Underwriter carol is not available for assignment');
+        });
+
+        test('should report queue depth per underwriter', async () => {
+            // Arrange
+            mockDecisionRepository.findOpen.mockResolvedValue([
+                openDecision('d1', 'alice'),
+                openDecision('d2', 'alice', UnderwritingStatus.REFERRED),
+                openDecision('d3', 'bob'),
+                openDecision('d4', null)
+            ]);
+
+            // Act
+            const depth = await underwritingService.getQueueDepth();
+
+            // Assert
+            expect(depth.unassigned).toBe(1);
+            expect(depth.underwriters.find(underwriter => underwriter.userId === 'alice')).toEqual(
+                expect.objectContaining({ inReview: 1, referred: 1, total: 2, outOfOfficeUntil: null })
+            );
+            expect(depth.underwriters.find(underwriter => underwriter.userId === 'carol')?.outOfOfficeUntil)
+                .toEqual(team[2].outOfOfficeUntil);
+        });
+    });
+
+    describe('SLA clocks', () => {
+        const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+        const buildClock = (overrides: Partial<ISlaClock>): ISlaClock => ({
+            id: `clock-${storedClocks.length + 1}`,
+            policyId: testPolicy.id,
+            stage: 'REVIEW',
+            targetMinutes: SLA_TARGET_MINUTES.REVIEW,
+            startedAt: new Date(),
+            pausedAt: null,
+            pauseReason: null,
+            pausedMinutes: 0,
+            completedAt: null,
+            alertLevel: 'ON_TRACK',
+            ...overrides
+        });
+
+        test('should close intake and start the review clock when a decision goes to review', async () => {
+            // Arrange
+            const assessment: IRiskAssessment = {
+                policyId: testPolicy.id,
+                riskScore: 50,
+                riskFactors: [],
+                assessmentDate: new Date(),
+                assessedBy: 'AUTOMATED_ENGINE',
+                policyType: testPolicy.type,
+                validationErrors: [],
+                lastModified: new Date(),
+                version: 1
+            };
+
+            // Act
+            await underwritingService.makeUnderwritingDecision(assessment, testPolicy.type);
+
+            // Assert
+            expect(storedClocks).toEqual([
+                expect.objectContaining({ stage: 'INTAKE', completedAt: expect.any(Date) }),
+                expect.objectContaining({ stage: 'REVIEW', completedAt: null, targetMinutes: SLA_TARGET_MINUTES.REVIEW })
+            ]);
+        });
+
+        test('should not count time waiting on broker documents', async () => {
+            // Arrange
+            storedClocks.push(buildClock({
+                startedAt: minutesAgo(600),
+                pausedAt: minutesAgo(360),
+                pauseReason: 'Waiting on loss runs'
+            }));
+
+            // Act
+            const [clock] = await underwritingService.resumeSla(testPolicy.id, 'underwriter-1');
+
+            // Assert
+            expect(clock.pausedAt).toBeNull();
+            expect(clock.pausedMinutes).toBeCloseTo(360, 0);
+            expect(clock.elapsedMinutes).toBe(240);
+            expect(mockEventEmitter.emit).toHaveBeenCalledWith('underwriting.sla.resumed', expect.any(Object));
+        });
+
+        test('should alert the assignee and their manager once when a clock breaches', async () => {
+            // Arrange
+            storedClocks.push(buildClock({ startedAt: minutesAgo(SLA_TARGET_MINUTES.REVIEW + 60) }));
+            mockDecisionRepository.findByPolicyId.mockResolvedValue([{ id: 'decision-1', assignedTo: 'alice' }]);
+            mockAuthorityRepository.findByUserId.mockResolvedValue({ userId: 'alice', refersToUserId: 'manager-1' });
+
+            // Act
+            const first = await underwritingService.checkSlaClocks();
+            const second = await underwritingService.checkSlaClocks();
+
+            // Assert
+            expect(first.alerts).toEqual([expect.objectContaining({
+                stage: 'REVIEW',
+                level: 'BREACHED',
+                recipients: ['alice', 'manager-1']
+            })]);
+            expect(second.alerts).toHaveLength(0);
+            expect(mockEventEmitter.emit).toHaveBeenCalledTimes(1);
+            expect(mockEventEmitter.emit).toHaveBeenCalledWith('underwriting.sla.breached', first.alerts[0]);
+        });
+
+        test('should report average processing time from completed submissions', async () => {
+            // Arrange
+            storedClocks.push(
+                buildClock({ policyId: 'p1', stage: 'INTAKE', startedAt: minutesAgo(300), completedAt: minutesAgo(240) }),
+                buildClock({ policyId: 'p1', stage: 'REVIEW', startedAt: minutesAgo(240), completedAt: minutesAgo(120) }),
+                buildClock({ policyId: 'p2', stage: 'INTAKE', startedAt: minutesAgo(200), completedAt: minutesAgo(180) }),
+                buildClock({
+                    policyId: 'p2',
+                    stage: 'QUOTE_ISSUED',
+                    startedAt: minutesAgo(180),
+                    completedAt: minutesAgo(60),
+                    pausedMinutes: 20
+                }),
+                buildClock({ policyId: 'p3', stage: 'REVIEW', startedAt: minutesAgo(30) })
+            );
+
+            // Act
+            const metrics = await underwritingService.getUnderwritingMetrics(minutesAgo(1440), new Date());
+
+            // Assert
+            expect(metrics.averageProcessingTime).toBe(150);
+            expect(metrics.averageStageTime).toEqual({ INTAKE: 40, REVIEW: 120, REFERRAL: 0, QUOTE_ISSUED: 100 });
+            expect(metrics.sla.ON_TRACK).toBe(1);
+        });
+    });
+
+    describe('submission checklist', () => {
+        const assessment: IRiskAssessment = {
+            policyId: testPolicy.id,
+            riskScore: 25,
+            riskFactors: [],
+            assessmentDate: new Date(),
+            assessedBy: 'AUTOMATED_ENGINE',
+            policyType: testPolicy.type,
+            validationErrors: [],
+            lastModified: new Date(),
+            version: 1
+        };
+
+        beforeEach(() => {
+            mockProductDefinitionRepository.findEffective.mockResolvedValue({
+                requiredDocuments: ['loss_runs'],
+                requiredFields: ['policyHolder.taxId']
+            });
+            mockPolicyRepository.findById.mockResolvedValue({
+                ...testPolicy,
+                brokerId: 'broker-1',
+                documents: [],
+                policyHolder: { taxId: '12-3456789' }
+            });
+        });
+
+        test('should hold a submission with missing documents and pause its SLA clocks', async () => {
+            // Act
+            const decision = await underwritingService.makeUnderwritingDecision(assessment, testPolicy.type);
+
+            // Assert
+            expect(decision.status).toBe(UnderwritingStatus.PENDING_DOCUMENTS);
+            expect(storedChecklist?.items).toEqual([
+                expect.objectContaining({ kind: 'DOCUMENT', key: 'loss_runs', received: false }),
+                expect.objectContaining({ kind: 'FIELD', key: 'policyHolder.taxId', received: true })
+            ]);
+            expect(storedClocks.find(clock => clock.stage === 'REVIEW')).toEqual(expect.objectContaining({
+                pausedAt: expect.any(Date),
+                pauseReason: 'Waiting on broker for loss_runs'
+            }));
+            expect(mockDecisionRepository.updateAssignment).not.toHaveBeenCalled();
+            expect(mockEventEmitter.emit).toHaveBeenCalledWith('underwriting.checklist.pending', {
+                policyId: testPolicy.id,
+                brokerId: 'broker-1',
+                missing: ['loss_runs']
+            });
+        });
+
+        test('should remind the broker on schedule until every item is received', async () => {
+            // Arrange
+            await underwritingService.makeUnderwritingDecision(assessment, testPolicy.type);
+            mockDecisionRepository.findByPolicyId.mockResolvedValue([storedDecision]);
+            const dueAt = new Date(Date.now() + CHECKLIST_REMINDER_HOURS[0] * 60 * 60 * 1000);
+
+            // Act
+            const early = await underwritingService.sendChecklistReminders(new Date());
+            const due = await underwritingService.sendChecklistReminders(dueAt);
+            const repeated = await underwritingService.sendChecklistReminders(dueAt);
+
+            // Assert
+            expect(early.reminders).toHaveLength(0);
+            expect(due.reminders).toEqual([{
+                policyId: testPolicy.id,
+                brokerId: 'broker-1',
+                missing: ['loss_runs'],
+                reminderNumber: 1
+            }]);
+            expect(repeated.reminders).toHaveLength(0);
+            expect(mockEventEmitter.emit).toHaveBeenCalledWith('underwriting.checklist.reminder', due.reminders[0]);
+        });
+
+        test('should return a completed submission to the review queue and resume its clocks', async () => {
+            // Arrange
+            await underwritingService.makeUnderwritingDecision(assessment, testPolicy.type);
+            mockDecisionRepository.findByPolicyId.mockResolvedValue([storedDecision]);
+            mockPolicyRepository.findById.mockResolvedValue({
+                ...testPolicy,
+                brokerId: 'broker-1',
+                documents: [{ type: 'loss_runs' }],
+                policyHolder: { taxId: '12-3456789' }
+            });
+
+            // Act
+            const result = await underwritingService.sendChecklistReminders();
+
+            // Assert
+            expect(result.requeued).toBe(1);
+            expect(storedChecklist).toEqual(expect.objectContaining({ pendingSince: null, completedAt: expect.any(Date) }));
+            expect(storedDecision.reviewStatus).toBe(UnderwritingStatus.IN_REVIEW);
+            expect(storedDecision.reviewHistory).toContainEqual(expect.objectContaining({
+                action: 'DOCUMENTS_RECEIVED',
+                previousStatus: UnderwritingStatus.PENDING_DOCUMENTS,
+                newStatus: UnderwritingStatus.IN_REVIEW
+            }));
+            expect(storedClocks.every(clock => !clock.pausedAt)).toBe(true);
+            expect(mockEventEmitter.emit).toHaveBeenCalledWith('underwriting.checklist.completed', expect.any(Object));
+        });
+    });
+
+    describe('location risk', () => {
+        test('should provide a zone dataset for every peril', async () => {
+            const datasets = await new LocationZoneRepository(LOCATION_ZONE_DIR).findLatest();
+
+            expect(datasets.map(dataset => dataset.peril).sort()).toEqual([...LOCATION_PERILS].sort());
+        });
+
+        test('should apply the worst zone multiplier and record each peril zone and vintage', async () => {
+            // Arrange
+            const datasets = await new LocationZoneRepository(LOCATION_ZONE_DIR).findLatest();
+
+            // Act
+            const factor = assessLocationZones(datasets, { zipCode: '33139', state: 'FL' }, RISK_FACTOR_WEIGHTS.LOCATION_RISK);
+
+            // Assert
+            expect(factor.details.zone).toBe('CATASTROPHE_ZONE');
+            expect(factor.details.multiplier).toBe(2.5);
+            expect(factor.score).toBe(75);
+            expect(factor.details.perils).toContainEqual(expect.objectContaining({
+                peril: 'FLOOD',
+                zone: 'CATASTROPHE_ZONE',
+                matchedBy: 'ZIP',
+                vintage: '2023-06'
+            }));
+            expect(factor.dataSource).toContain('FLOOD@2023-06');
+            expect(factor.validationStatus).toBe('VALID');
+        });
+
+        test('should fall back to the state zone when the zip code is not listed', async () => {
+            // Arrange
+            const datasets = await new LocationZoneRepository(LOCATION_ZONE_DIR).findLatest();
+
+            // Act
+            const factor = assessLocationZones(datasets, { zipCode: '97401', state: 'or' }, RISK_FACTOR_WEIGHTS.LOCATION_RISK);
+
+            // Assert
+            expect(factor.details.zone).toBe('MODERATE_RISK_ZONE');
+            expect(factor.details.perils).toContainEqual(expect.objectContaining({
+                peril: 'WILDFIRE',
+                matchedBy: 'STATE',
+                matchedKey: 'OR'
+            }));
+            expect(factor.details.perils).toContainEqual(expect.objectContaining({ peril: 'FLOOD', matchedBy: 'DEFAULT' }));
+        });
+
+        test('should resolve against an imported vintage and reject invalid files', async () => {
+            // Arrange
+            const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'location-zones-'));
+            const repository = new LocationZoneRepository(directory);
+
+            // Act
+            await repository.import({
+                peril: 'FLOOD',
+                vintage: '2024-01',
+                source: 'Test import',
+                defaultZone: 'LOW_RISK_ZONE',
+                states: {},
+                zipCodes: { '97401': 'HIGH_RISK_ZONE' }
+            });
+            const factor = assessLocationZones(await repository.findLatest(), { zipCode: '97401', state: 'OR' }, 0.25);
+
+            // Assert
+            expect(factor.details.zone).toBe('HIGH_RISK_ZONE');
+            expect(factor.dataSource).toBe('location-zones:FLOOD@2024-01');
+            await expect(repository.import({ peril: 'HAIL', vintage: '2024-01' })).rejects.toThrow('Invalid location zone dataset');
+
+            await fs.rm(directory, { recursive: true, force: true });
+        });
+    });
+
+    describe('checkAppetite', () => {
+        const appetiteDefinition = {
+            policyType: PolicyType.GENERAL_LIABILITY,
+            version: '2023.1',
+            name: 'General Liability',
+            limits: {
+                perOccurrence: { min: 500000, max: 5000000 },
+                aggregate: { min: 1000000, max: 10000000 }
+            },
+            appetite: {
+                excludedStates: [],
+                referredStates: ['NY'],
+                excludedClassCodes: ['211'],
+                referredClassCodes: ['7224'],
+                maxRevenue: 50000000,
+                referRevenueAbove: 25000000
+            }
+        };
+        const appetiteRequest = {
+            policyType: PolicyType.GENERAL_LIABILITY,
+            classCode: '722410',
+            state: 'NY',
+            revenue: 2000000,
+            requestedLimits: { perOccurrence: 1000000, aggregate: 2000000 }
+        };
+
+        test('should refer a risk the product refers and skip rules that need a risk assessment', async () => {
+            // Arrange
+            mockProductDefinitionRepository.findEffective.mockResolvedValue(appetiteDefinition);
+
+            // Act
+            const result = await underwritingService.checkAppetite(appetiteRequest);
+
+            // Assert
+            expect(result.outcome).toBe('REFER');
+            expect(result.reasons.map(reason => reason.code)).toEqual(['STATE_REFERRED', 'CLASS_REFERRED']);
+            expect(result.productVersion).toBe('2023.1');
+            expect(mockRuleRepository.findActive).toHaveBeenCalledWith(PolicyType.GENERAL_LIABILITY);
+        });
+
+        test('should put a risk out of appetite when a rule on policy fields declines it', async () => {
+            // Arrange
+            mockProductDefinitionRepository.findEffective.mockResolvedValue(appetiteDefinition);
+            mockRuleRepository.findActive.mockResolvedValue([
+                ...defaultRules,
+                buildRule({
+                    id: 'rule-large-bars',
+                    description: 'Bars with revenue above 1M are declined',
+                    criteria: {
+                        conditions: [
+                            { field: 'policy.policyHolder.classCode', operator: 'EQUALS', value: '722410' },
+                            { field: 'policy.exposures.REVENUE', operator: 'GREATER_THAN', value: 1000000 }
+                        ],
+                        logicalOperator: 'AND'
+                    },
+                    action: 'DECLINE',
+                    priority: 10
+                })
+            ]);
+
+            // Act
+            const result = await underwritingService.checkAppetite({ ...appetiteRequest, state: 'TX' });
+
+            // Assert
+            expect(result.outcome).toBe('OUT_OF_APPETITE');
+            expect(result.reasons).toEqual([
+                expect.objectContaining({ source: 'PRODUCT', code: 'CLASS_REFERRED', outcome: 'REFER' }),
+                expect.objectContaining({ source: 'RULE', ruleId: 'rule-large-bars', outcome: 'OUT_OF_APPETITE' })
+            ]);
+        });
+
+        test('should put a risk out of appetite when no product is in effect', async () => {
+            // Act
+            const result = await underwritingService.checkAppetite(appetiteRequest);
+
+            // Assert
+            expect(result.outcome).toBe('OUT_OF_APPETITE');
+            expect(result.reasons[0].code).toBe('NO_PRODUCT');
+            expect(result.productVersion).toBeNull();
+        });
+    });
+
+    describe('re-scoring the in-force book', () => {
+        // Factors scoring the same on every weighted factor, so the risk score equals the factor score
+        const factorsScoring = (score: number): IRiskFactor[] =>
+            Object.entries(RISK_FACTOR_WEIGHTS).map(([type, weight]) => ({
+                type,
+                score,
+                weight,
+                details: {},
+                confidence: 1,
+                dataSource: 'test',
+                validationStatus: 'VALID' as const
+            }));
+
+        const inForcePolicy = (id: string, riskScore: number, riskAssessmentVersion?: number) => ({
+            ...testPolicy,
+            id,
+            status: 'ACTIVE',
+            underwritingInfo: { riskScore, underwriterNotes: '', ...(riskAssessmentVersion ? { riskAssessmentVersion } : {}) }
+        });
+
+        const startRun = (overrides: Partial<IRescoreRun> = {}): IRescoreRun => (storedRun = {
+            id: 'run-1',
+            policyType: null,
+            dryRun: false,
+            chunkSize: 1,
+            concurrency: 2,
+            status: 'RUNNING',
+            totalPolicies: 2,
+            processed: 0,
+            bandChanges: 0,
+            failures: [],
+            lastPolicyId: null,
+            startedBy: 'manager-1',
+            startedAt: new Date('2023-09-01T00:00:00Z'),
+            completedAt: null,
+            error: null,
+            ...overrides
+        });
+
+        // Serves the book one chunk at a time in id order
+        const serveBook = (policies: ReturnType<typeof inForcePolicy>[]) =>
+            mockPolicyRepository.findPageAfter.mockImplementation(async (statuses: string[], afterId: string | null, limit: number) =>
+                policies.filter(policy => !afterId || policy.id > afterId).slice(0, limit));
+
+        test('should bump the assessment version, store both scores and flag band changes for renewal review', async () => {
+            // Arrange
+            startRun();
+            serveBook([inForcePolicy('policy-a', 20), inForcePolicy('policy-b', 50, 3)]);
+            jest.spyOn(underwritingService as any, 'calculateRiskFactors').mockResolvedValue(factorsScoring(50));
+
+            // Act
+            const run = await underwritingService.runRescore('run-1');
+
+            // Assert
+            expect(run).toEqual(expect.objectContaining({
+                status: 'COMPLETED',
+                processed: 2,
+                bandChanges: 1,
+                lastPolicyId: 'policy-b'
+            }));
+            expect(storedResults).toEqual([
+                expect.objectContaining({
+                    policyId: 'policy-a',
+                    previousScore: 20,
+                    previousBand: 'LOW',
+                    previousVersion: 1,
+                    newScore: 50,
+                    newBand: 'MEDIUM',
+                    newVersion: 2,
+                    bandChanged: true
+                }),
+                expect.objectContaining({ policyId: 'policy-b', previousVersion: 3, newVersion: 4, bandChanged: false })
+            ]);
+            expect(mockPolicyRepository.update).toHaveBeenCalledWith('policy-a', {
+                underwritingInfo: expect.objectContaining({
+                    riskScore: 50,
+                    riskAssessmentVersion: 2,
+                    renewalReview: expect.objectContaining({ runId: 'run-1', previousBand: 'LOW', newBand: 'MEDIUM' })
+                })
+            });
+            expect(mockPolicyRepository.update).toHaveBeenCalledWith('policy-b', {
+                underwritingInfo: expect.not.objectContaining({ renewalReview: expect.anything() })
+            });
+            expect(mockCacheManager.del).toHaveBeenCalledWith('risk_assessment:policy-a');
+            expect(mockEventEmitter.emit).toHaveBeenCalledWith('underwriting.rescore.progress', expect.objectContaining({
+                runId: 'run-1',
+                processed: 1,
+                totalPolicies: 2
+            }));
+        });
+
+        test('should record results without touching policies on a dry run', async () => {
+            // Arrange
+            startRun({ dryRun: true, totalPolicies: 1 });
+            serveBook([inForcePolicy('policy-a', 20)]);
+            jest.spyOn(underwritingService as any, 'calculateRiskFactors').mockResolvedValue(factorsScoring(90));
+
+            // Act
+            const run = await underwritingService.runRescore('run-1');
+
+            // Assert
+            expect(run.bandChanges).toBe(1);
+            expect(storedResults[0]).toEqual(expect.objectContaining({ newBand: 'HIGH', bandChanged: true }));
+            expect(mockPolicyRepository.update).not.toHaveBeenCalled();
+            expect(mockCacheManager.del).not.toHaveBeenCalled();
+        });
+
+        test('should resume after a crash without scoring a policy twice', async () => {
+            // Arrange: the crash came after policy-a's result was recorded but before its policy was updated
+            startRun({ chunkSize: 10 });
+            serveBook([inForcePolicy('policy-a', 20), inForcePolicy('policy-b', 50)]);
+            storedResults.push({
+                runId: 'run-1',
+                policyId: 'policy-a',
+                policyType: testPolicy.type,
+                previousScore: 20,
+                previousBand: 'LOW',
+                previousVersion: 1,
+                newScore: 40,
+                newBand: 'MEDIUM',
+                newVersion: 2,
+                bandChanged: true,
+                rescoredAt: new Date('2023-09-01T00:05:00Z')
+            });
+            const calculateRiskFactors = jest.spyOn(underwritingService as any, 'calculateRiskFactors')
+                .mockResolvedValue(factorsScoring(50));
+
+            // Act
+            const run = await underwritingService.runRescore('run-1');
+
+            // Assert
+            expect(calculateRiskFactors).toHaveBeenCalledTimes(1);
+            expect(storedResults.map(result => result.policyId)).toEqual(['policy-a', 'policy-b']);
+            expect(mockPolicyRepository.update).toHaveBeenCalledWith('policy-a', {
+                underwritingInfo: expect.objectContaining({ riskScore: 40, riskAssessmentVersion: 2 })
+            });
+            expect(run).toEqual(expect.objectContaining({ status: 'COMPLETED', processed: 2, bandChanges: 1 }));
+        });
+
+        test('should refuse to resume a completed run', async () => {
+            startRun({ status: 'COMPLETED', completedAt: new Date('2023-09-01T01:00:00Z') });
+
+            await expect(underwritingService.resumeRescore('run-1')).rejects.toThrow('has already completed');
+        });
+
+        test('should refuse a second resume while the first is still starting', async () => {
+            startRun({ status: 'FAILED', error: 'Worker stopped' });
+            serveBook([]);
+
+            const first = underwritingService.resumeRescore('run-1');
+            const second = underwritingService.resumeRescore('run-1');
+
+            await expect(first).resolves.toEqual(expect.objectContaining({ status: 'RUNNING' }));
+            await expect(second).rejects.toThrow('is already in progress');
+        });
+    });
+
+    describe('getRiskBreakdown', () => {
+        test('should explain the decided score factor by factor, largest contribution first', async () => {
+            // Arrange
+            const noAddress = assessLocationZones([], undefined, RISK_FACTOR_WEIGHTS.LOCATION_RISK);
+            mockDecisionRepository.findByPolicyId.mockResolvedValue([{
+                id: 'decision-1',
+                policyId: testPolicy.id,
+                riskScore: 36,
+                riskFactors: [
+                    noAddress,
+                    {
+                        type: 'CLAIMS_HISTORY',
+                        score: 60,
+                        weight: RISK_FACTOR_WEIGHTS.CLAIMS_HISTORY,
+                        details: { description: 'Two losses in three years', drivers: ['2 property losses since 2021'] },
+                        confidence: 0.9,
+                        dataSource: 'claims',
+                        validationStatus: 'VALID'
+                    }
+                ],
+                decidedAt: new Date('2023-08-01T10:00:00Z')
+            }]);
+
+            // Act
+            const breakdown = await underwritingService.getRiskBreakdown(testPolicy.id);
+
+            // Assert
+            expect(breakdown?.source).toBe('DECISION');
+            expect(breakdown?.riskScore).toBe(28.5);
+            expect(breakdown?.contributions.map(contribution => contribution.type)).toEqual(['CLAIMS_HISTORY', 'LOCATION_RISK']);
+            expect(breakdown?.contributions[0]).toEqual(expect.objectContaining({
+                weightedPoints: 21,
+                runningTotal: 21,
+                drivers: ['2 property losses since 2021'],
+                defaulted: false
+            }));
+            expect(breakdown?.contributions[1]).toEqual(expect.objectContaining({
+                weightedPoints: 7.5,
+                runningTotal: 28.5,
+                defaulted: true,
+                missingInputs: ['policyHolder.address']
+            }));
+            expect(breakdown?.missingFactors).toEqual(['COVERAGE_AMOUNT', 'BUSINESS_TYPE']);
+            expect(breakdown?.missingInputs).toEqual(['policyHolder.address']);
+        });
+
+        test('should return null when the policy does not exist', async () => {
+            mockPolicyRepository.findById.mockResolvedValueOnce(null);
+
+            await expect(underwritingService.getRiskBreakdown('missing-policy')).resolves.toBeNull();
+        });
+    });
+
+    describe('getUnderwritingConfig', () => {
+        test('should publish the thresholds and weights the engine uses', async () => {
+            // Act
+            const config = await underwritingService.getUnderwritingConfig();
+
+            // Assert
+            expect(mockRuleRepository.findAll).toHaveBeenCalledWith({ active: true });
+            expect(config.version).toMatch(new RegExp(`^${UNDERWRITING_CONFIG_VERSION}\\+[0-9a-f]{12}$`));
+            expect(config.riskScoreThresholds).toEqual({
+                lowRisk: RISK_SCORE_THRESHOLDS.LOW_RISK,
+                mediumRisk: RISK_SCORE_THRESHOLDS.MEDIUM_RISK,
+                highRisk: RISK_SCORE_THRESHOLDS.HIGH_RISK
+            });
+            expect(config.riskFactorWeights).toEqual(RISK_FACTOR_WEIGHTS);
+            expect(config.autoApprovalCriteria.maxRiskScore).toBe(RISK_SCORE_THRESHOLDS.LOW_RISK);
+        });
+
+        test('should follow the active rules and bump the version when a rule changes', async () => {
+            // Arrange
+            const before = await underwritingService.getUnderwritingConfig();
+            mockRuleRepository.findAll.mockResolvedValueOnce([
+                buildRule({
+                    ...defaultRules[0],
+                    criteria: {
+                        conditions: [{ field: 'riskAssessment.riskScore', operator: 'LESS_THAN_OR_EQUAL', value: 25 }],
+                        logicalOperator: 'AND'
+                    }
+                }),
+                ...defaultRules.slice(1)
+            ]);
+
+            // Act
+            const after = await underwritingService.getUnderwritingConfig();
+
+            // Assert
+            expect(after.riskScoreThresholds.lowRisk).toBe(25);
+            expect(after.autoApprovalCriteria.maxRiskScore).toBe(25);
+            expect(after.riskScoreThresholds.highRisk).toBe(RISK_SCORE_THRESHOLDS.HIGH_RISK);
+            expect(after.version).not.toBe(before.version);
+        });
+
+        test('should fall back to the default thresholds when no rule sets them', async () => {
+            // Arrange
+            mockRuleRepository.findAll.mockResolvedValueOnce([]);
+
+            // Act
+            const config = await underwritingService.getUnderwritingConfig();
+
+            // Assert
+            expect(config.version).toBe(UNDERWRITING_CONFIG_VERSION);
+            expect(config.riskScoreThresholds.lowRisk).toBe(RISK_SCORE_THRESHOLDS.LOW_RISK);
+            expect(config.riskScoreThresholds.highRisk).toBe(RISK_SCORE_THRESHOLDS.HIGH_RISK);
+        });
+    });
+
     describe('evaluatePolicy', () => {
         test('should perform end-to-end policy evaluation', async () => {
             // Mock risk assessment result
@@ -9,9 +9,15 @@ import { apiClient } from '../config/api.config';
 import { API_ENDPOINTS } from '../constants/api.constants';
 import {
   Claim,
+  ClaimDuplicateMatch,
   CreateClaimRequest,
   UpdateClaimStatusRequest,
-  ClaimDocument
+  ClaimDocument,
+  ClaimLedger,
+  RecordClaimTransactionRequest,
+  RecordClaimTransactionResult,
+  SiuReferral,
+  VoidClaimTransactionRequest
 } from '../types/claims.types';
 import { CLAIM_STATUS, MAX_FILE_SIZE_MB, ALLOWED_FILE_TYPES } from '../constants/claims.constants';
 
@@ -93,6 +99,23 @@ async function createClaim(claimData: CreateClaimRequest): Promise<Claim> {
   }
 }
 
+/**
+ * Searches the policy for existing claims a new submission may duplicate
+ * @param claimData Claim about to be submitted
+ * @returns Promise resolving to the possible duplicates, best match first
+ */
+async function checkClaimDuplicates(claimData: CreateClaimRequest): Promise<ClaimDuplicateMatch[]> {
+  try {
+    const response = await apiClient.post<ClaimDuplicateMatch[]>(
+      API_ENDPOINTS.CLAIMS.DUPLICATE_CHECK,
+      claimData
+    );
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
 /**
  * Updates the status of an existing claim
  * @param claimId Unique identifier of the claim
@@ -160,6 +183,177 @@ async function uploadClaimDocument(
   }
 }
 
+/**
+ * Retrieves a claim's financial ledger with its reserve, paid and recovered totals
+ * @param claimId Unique identifier of the claim
+ * @returns Promise resolving to the claim ledger
+ */
+async function getClaimLedger(claimId: string): Promise<ClaimLedger> {
+  try {
+    const response = await apiClient.get<ClaimLedger>(
+      API_ENDPOINTS.CLAIMS.PAYMENTS.replace(':id', claimId)
+    );
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
+/**
+ * Records a payment, reserve change or recovery in a claim's ledger
+ * @param claimId Unique identifier of the claim
+ * @param transaction Ledger entry to record
+ * @returns Promise resolving to the updated claim ledger, with the approval request
+ * when the entry was queued instead of recorded
+ */
+async function recordClaimTransaction(
+  claimId: string,
+  transaction: RecordClaimTransactionRequest
+): Promise<RecordClaimTransactionResult> {
+  try {
+    const response = await apiClient.post<RecordClaimTransactionResult>(
+      API_ENDPOINTS.CLAIMS.PAYMENTS.replace(':id', claimId),
+      transaction,
+      {
+        headers: {
+          'X-Audit-User': 'true'
+        }
+      }
+    );
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
+/**
+ * Voids a ledger entry by recording a reversing entry
+ * @param claimId Unique identifier of the claim
+ * @param transactionId Ledger entry to void
+ * @param request Approving user and reason for the void
+ * @returns Promise resolving to the updated claim ledger
+ */
+async function voidClaimTransaction(
+  claimId: string,
+  transactionId: string,
+  request: VoidClaimTransactionRequest
+): Promise<ClaimLedger> {
+  try {
+    const response = await apiClient.post<ClaimLedger>(
+      `${API_ENDPOINTS.CLAIMS.PAYMENTS.replace(':id', claimId)}/${transactionId}/void`,
+      request,
+      {
+        headers: {
+          'X-Audit-User': 'true'
+        }
+      }
+    );
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
+/**
+ * Approves a queued payment or reserve change
+ * @param claimId Unique identifier of the claim
+ * @param approvalId Approval request to approve
+ * @param notes Optional approval notes
+ * @returns Promise resolving to the updated claim ledger
+ */
+async function approveClaimPayment(
+  claimId: string,
+  approvalId: string,
+  notes?: string
+): Promise<ClaimLedger> {
+  try {
+    const response = await apiClient.post<ClaimLedger>(
+      `${API_ENDPOINTS.CLAIMS.PAYMENT_APPROVALS.replace(':id', claimId)}/${approvalId}/approve`,
+      notes ? { notes } : {},
+      {
+        headers: {
+          'X-Audit-User': 'true'
+        }
+      }
+    );
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
+/**
+ * Rejects a queued payment or reserve change
+ * @param claimId Unique identifier of the claim
+ * @param approvalId Approval request to reject
+ * @param reason Reason for the rejection
+ * @returns Promise resolving to the updated claim ledger
+ */
+async function rejectClaimPayment(
+  claimId: string,
+  approvalId: string,
+  reason: string
+): Promise<ClaimLedger> {
+  try {
+    const response = await apiClient.post<ClaimLedger>(
+      `${API_ENDPOINTS.CLAIMS.PAYMENT_APPROVALS.replace(':id', claimId)}/${approvalId}/reject`,
+      { reason },
+      {
+        headers: {
+          'X-Audit-User': 'true'
+        }
+      }
+    );
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
+/**
+ * Retrieves claims referred to special investigations
+ * @param status Referral status to list, open by default
+ * @returns Promise resolving to the referrals, oldest first
+ */
+async function getSiuReferrals(status: SiuReferral['status'] = 'OPEN'): Promise<SiuReferral[]> {
+  try {
+    const response = await apiClient.get<SiuReferral[]>(API_ENDPOINTS.CLAIMS.SIU_REFERRALS, {
+      params: { status }
+    });
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
+/**
+ * Closes an SIU referral with the investigation outcome
+ * @param referralId Referral to close
+ * @param outcome Investigation outcome
+ * @param notes Investigation notes
+ * @returns Promise resolving to the closed referral
+ */
+async function closeSiuReferral(
+  referralId: string,
+  outcome: NonNullable<SiuReferral['outcome']>,
+  notes: string
+): Promise<SiuReferral> {
+  try {
+    const response = await apiClient.post<SiuReferral>(
+      `${API_ENDPOINTS.CLAIMS.SIU_REFERRALS}/${referralId}/close`,
+      { outcome, notes },
+      {
+        headers: {
+          'X-Audit-User': 'true'
+        }
+      }
+    );
+    return response.data;
+  } catch (error) {
+    throw handleClaimsApiError(error as AxiosError);
+  }
+}
+
 // Validation helpers
 function validateClaimData(data: CreateClaimRequest): void {
   if (!data.policyId || !data.incidentDate || !data.description) {
@@ -219,6 +413,14 @@ export const claimsApi = {
   getClaims,
   getClaimById,
   createClaim,
+  checkClaimDuplicates,
   updateClaimStatus,
-  uploadClaimDocument
+  uploadClaimDocument,
+  getClaimLedger,
+  recordClaimTransaction,
+  voidClaimTransaction,
+  approveClaimPayment,
+  rejectClaimPayment,
+  getSiuReferrals,
+  closeSiuReferral
 };
\ No newline at end of file
@@ -7,7 +7,24 @@
 import { AxiosResponse } from 'axios';
 import { apiClient } from '../config/api.config';
 import { API_ENDPOINTS } from '../constants/api.constants';
-import { IPolicy, PolicyType, PolicyStatus, IEndorsement } from '../types/policy.types';
+import { POLICY_TYPE_PRODUCT_CODES } from '../constants/policy.constants';
+import {
+  IPolicy,
+  PolicyType,
+  PolicyStatus,
+  IEndorsement,
+  IEndorsementRating,
+  NonRenewalReason,
+  CancellationReason,
+  CancellationMethod,
+  IReturnPremium,
+  ReinstatementType,
+  IPolicyVersionHistoryEntry,
+  ExposureBasis,
+  IPolicyQuote,
+  IQuoteCoverage,
+  IProductDefinition
+} from '../types/policy.types';
 import { PaginationParams, ApiResponse } from '../types/common.types';
 
 // Cache configuration
@@ -134,34 +151,267 @@ export async function addPolicyEndorsement(
 }
 
 /**
- * Retrieves policy history
+ * Previews the prorated premium for a prospective endorsement
  * @param policyId Policy identifier
- * @returns Promise resolving to policy history
+ * @param effectiveDate Endorsement effective date (ISO string)
+ * @param annualPremiumChange Full-term (annualized) premium delta
+ * @returns Promise resolving to prorated endorsement rating
+ */
+export async function getEndorsementQuote(
+  policyId: string,
+  effectiveDate: string,
+  annualPremiumChange: number
+): Promise<AxiosResponse<ApiResponse<IEndorsementRating>>> {
+  return apiClient.post<ApiResponse<IEndorsementRating>>(
+    API_ENDPOINTS.POLICY.ENDORSEMENT_QUOTE.replace(':id', policyId),
+    { effectiveDate, annualPremiumChange }
+  );
+}
+
+/**
+ * Retrieves policy version history with field-level changes between versions
+ * @param policyId Policy identifier
+ * @returns Promise resolving to policy versions in recording order
  */
 export async function getPolicyHistory(
   policyId: string
-): Promise<AxiosResponse<ApiResponse<Array<{ timestamp: string; changes: Record<string, any> }>>>> {
-  return apiClient.get<ApiResponse<Array<{ timestamp: string; changes: Record<string, any> }>>>(
+): Promise<AxiosResponse<ApiResponse<IPolicyVersionHistoryEntry[]>>> {
+  return apiClient.get<ApiResponse<IPolicyVersionHistoryEntry[]>>(
     API_ENDPOINTS.POLICY.HISTORY.replace(':id', policyId)
   );
 }
 
 /**
- * Cancels an active policy
+ * Retrieves the policy as it stood on a given date
  * @param policyId Policy identifier
- * @param reason Cancellation reason
- * @returns Promise resolving to cancelled policy
+ * @param asOf Point in time (ISO string)
+ * @returns Promise resolving to the policy version in force on that date
+ */
+export async function getPolicyAsOf(
+  policyId: string,
+  asOf: string
+): Promise<AxiosResponse<ApiResponse<IPolicy>>> {
+  return apiClient.get<ApiResponse<IPolicy>>(
+    `${API_ENDPOINTS.POLICY.BASE}/${policyId}?asOf=${encodeURIComponent(asOf)}`
+  );
+}
+
+/**
+ * Cancels an active policy mid-term
+ * @param policyId Policy identifier
+ * @param cancellation Cancellation effective date, reason and optional method override
+ * @returns Promise resolving to cancelled policy with return premium details
  */
 export async function cancelPolicy(
   policyId: string,
-  reason: string
+  cancellation: {
+    effectiveDate: string;
+    reason: CancellationReason;
+    method?: CancellationMethod;
+    notes?: string;
+  }
 ): Promise<AxiosResponse<ApiResponse<IPolicy>>> {
   // Invalidate cache
   policyCache.delete(policyId);
 
   return apiClient.put<ApiResponse<IPolicy>>(
-    `${API_ENDPOINTS.POLICY.UPDATE.replace(':id', policyId)}/cancel`,
-    { reason, status: PolicyStatus.CANCELLED }
+    API_ENDPOINTS.POLICY.CANCEL.replace(':id', policyId),
+    cancellation
+  );
+}
+
+/**
+ * Previews the return premium for a prospective cancellation
+ * @param policyId Policy identifier
+ * @param effectiveDate Prospective cancellation date (ISO string)
+ * @param reason Cancellation reason
+ * @param method Optional return premium method override
+ * @returns Promise resolving to earned and return premium breakdown
+ */
+export async function getCancellationQuote(
+  policyId: string,
+  effectiveDate: string,
+  reason: CancellationReason,
+  method?: CancellationMethod
+): Promise<AxiosResponse<ApiResponse<IReturnPremium>>> {
+  const queryParams = new URLSearchParams({ effectiveDate, reason });
+  if (method) {
+    queryParams.append('method', method);
+  }
+
+  return apiClient.get<ApiResponse<IReturnPremium>>(
+    `${API_ENDPOINTS.POLICY.CANCELLATION_QUOTE.replace(':id', policyId)}?${queryParams}`
+  );
+}
+
+/**
+ * Reinstates a policy cancelled for non-payment
+ * @param policyId Policy identifier
+ * @param reinstatement Reinstatement variant and, for lapsed reinstatements, the reinstatement date
+ * @returns Promise resolving to reinstated policy
+ */
+export async function reinstatePolicy(
+  policyId: string,
+  reinstatement: {
+    type: ReinstatementType;
+    reinstatementDate?: string;
+    notes?: string;
+  }
+): Promise<AxiosResponse<ApiResponse<IPolicy>>> {
+  // Invalidate cache
+  policyCache.delete(policyId);
+
+  return apiClient.post<ApiResponse<IPolicy>>(
+    API_ENDPOINTS.POLICY.REINSTATE.replace(':id', policyId),
+    reinstatement
+  );
+}
+
+/**
+ * Rates a draft or quoted policy from its exposures and schedule modifiers
+ * @param policyId Policy identifier
+ * @param rating Exposures by basis and signed schedule modifiers (credits negative)
+ * @returns Promise resolving to rated policy with its premium breakdown
+ */
+export async function ratePolicy(
+  policyId: string,
+  rating: {
+    exposures: Partial<Record<ExposureBasis, number>>;
+    scheduleModifiers?: Record<string, number>;
+  }
+): Promise<AxiosResponse<ApiResponse<IPolicy>>> {
+  // Invalidate cache
+  policyCache.delete(policyId);
+
+  return apiClient.post<ApiResponse<IPolicy>>(
+    API_ENDPOINTS.POLICY.RATE.replace(':id', policyId),
+    rating
+  );
+}
+
+/**
+ * Retrieves the quote options offered on a submission
+ * @param policyId Submission (policy) identifier
+ * @returns Promise resolving to quote options in option order
+ */
+export async function getQuotes(
+  policyId: string
+): Promise<AxiosResponse<ApiResponse<IPolicyQuote[]>>> {
+  return apiClient.get<ApiResponse<IPolicyQuote[]>>(
+    API_ENDPOINTS.POLICY.QUOTES.replace(':id', policyId)
+  );
+}
+
+/**
+ * Offers a new quote option on a submission
+ * @param policyId Submission (policy) identifier
+ * @param quote Option label, coverages, expiry and either exposures to rate or a premium
+ * @returns Promise resolving to created quote option
+ */
+export async function createQuote(
+  policyId: string,
+  quote: {
+    label: string;
+    coverages: IQuoteCoverage[];
+    premium?: number;
+    exposures?: Partial<Record<ExposureBasis, number>>;
+    scheduleModifiers?: Record<string, number>;
+    expirationDate?: string;
+  }
+): Promise<AxiosResponse<ApiResponse<IPolicyQuote>>> {
+  return apiClient.post<ApiResponse<IPolicyQuote>>(
+    API_ENDPOINTS.POLICY.QUOTES.replace(':id', policyId),
+    quote
+  );
+}
+
+/**
+ * Binds the quote option selected by the insured; other open options are superseded
+ * @param policyId Submission (policy) identifier
+ * @param quoteId Quote option identifier
+ * @returns Promise resolving to bound policy
+ */
+export async function bindQuote(
+  policyId: string,
+  quoteId: string
+): Promise<AxiosResponse<ApiResponse<IPolicy>>> {
+  // Invalidate cache
+  policyCache.delete(policyId);
+
+  return apiClient.post<ApiResponse<IPolicy>>(
+    API_ENDPOINTS.POLICY.QUOTE_BIND.replace(':id', policyId).replace(':quoteId', quoteId)
+  );
+}
+
+/**
+ * Retrieves the product definition in effect for a policy type
+ * @param policyType Policy type
+ * @param asOf Optional policy effective date (ISO string); defaults to today
+ * @returns Promise resolving to the product's limits, deductibles, coverages, documents and eligibility questions
+ */
+export async function getProductDefinition(
+  policyType: PolicyType,
+  asOf?: string
+): Promise<AxiosResponse<ApiResponse<IProductDefinition>>> {
+  const query = asOf ? `?asOf=${encodeURIComponent(asOf)}` : '';
+  return apiClient.get<ApiResponse<IProductDefinition>>(
+    `${API_ENDPOINTS.POLICY.PRODUCT_DEFINITION.replace(':policyType', POLICY_TYPE_PRODUCT_CODES[policyType])}${query}`
+  );
+}
+
+/**
+ * Creates a renewal term for an expiring policy
+ * @param policyId Expiring policy identifier
+ * @param rateChange Optional rate change override (e.g. 0.05 for +5%)
+ * @returns Promise resolving to the created renewal term
+ */
+export async function createPolicyRenewal(
+  policyId: string,
+  rateChange?: number
+): Promise<AxiosResponse<ApiResponse<IPolicy>>> {
+  // Invalidate cache
+  policyCache.delete(policyId);
+
+  return apiClient.post<ApiResponse<IPolicy>>(
+    API_ENDPOINTS.POLICY.RENEWALS.replace(':id', policyId),
+    rateChange !== undefined ? { rateChange } : {}
+  );
+}
+
+/**
+ * Records a non-renewal decision for a policy
+ * @param policyId Policy identifier
+ * @param reason Non-renewal reason code
+ * @param noticeDate Date the non-renewal notice is sent
+ * @param notes Optional supporting notes
+ * @returns Promise resolving to updated policy
+ */
+export async function recordNonRenewal(
+  policyId: string,
+  reason: NonRenewalReason,
+  noticeDate: string,
+  notes?: string
+): Promise<AxiosResponse<ApiResponse<IPolicy>>> {
+  // Invalidate cache
+  policyCache.delete(policyId);
+
+  return apiClient.post<ApiResponse<IPolicy>>(
+    API_ENDPOINTS.POLICY.NON_RENEWAL.replace(':id', policyId),
+    { reason, noticeDate, notes }
+  );
+}
+
+/**
+ * Retrieves active policies due for renewal
+ * @param days Optional look-ahead window in days
+ * @returns Promise resolving to policies due for renewal
+ */
+export async function getRenewalsDue(
+  days?: number
+): Promise<AxiosResponse<ApiResponse<IPolicy[]>>> {
+  const query = days !== undefined ? `?days=${days}` : '';
+  return apiClient.get<ApiResponse<IPolicy[]>>(
+    `${API_ENDPOINTS.POLICY.RENEWALS_DUE}${query}`
   );
 }
 
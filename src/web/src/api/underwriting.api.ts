@@ -8,6 +8,18 @@ import { AxiosResponse } from 'axios'; // ^1.4.0
 import CircuitBreaker from 'opossum'; // ^6.0.0
 import { apiClient } from '../config/api.config';
 import { API_ENDPOINTS } from '../constants/api.constants';
+import {
+  IUnderwritingConfig,
+  IUnderwritingQueueDepth,
+  IUnderwritingRule,
+  IRuleSimulationRequest,
+  IRuleSimulationReport,
+  IRiskScoreBreakdown,
+  ISubmissionChecklist,
+  IAppetiteCheckRequest,
+  IAppetiteCheckResult
+} from '../types/underwriting.types';
+import { UnderwritingMetrics } from '../types/analytics.types';
 
 // Circuit breaker configuration for underwriting operations
 const UNDERWRITING_CIRCUIT_BREAKER = new CircuitBreaker(
@@ -169,6 +181,200 @@ export async function submitForUnderwriting(
   }
 }
 
+/**
+ * Retrieves the active underwriting configuration
+ * @returns Promise resolving to the versioned risk thresholds, factor weights and auto-approval criteria
+ */
+export async function getUnderwritingConfig(): Promise<IUnderwritingConfig> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.get<IUnderwritingConfig>(API_ENDPOINTS.UNDERWRITING.CONFIG)
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Underwriting config retrieval failed:', {
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the number of open submissions assigned to each underwriter
+ * @returns Promise resolving to per-underwriter queue depth
+ */
+export async function getUnderwritingQueueDepth(): Promise<IUnderwritingQueueDepth> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.get<IUnderwritingQueueDepth>(API_ENDPOINTS.UNDERWRITING.QUEUE_DEPTH)
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Underwriting queue depth retrieval failed:', {
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Retrieves underwriting throughput with processing times measured by SLA clocks
+ * @returns Promise resolving to underwriting metrics for the last 30 days
+ */
+export async function getUnderwritingMetrics(): Promise<UnderwritingMetrics> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.get<UnderwritingMetrics>(API_ENDPOINTS.UNDERWRITING.SLA_METRICS)
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Underwriting metrics retrieval failed:', {
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a policy's risk score broken down into each factor's weighted contribution
+ * @param policyId Unique identifier of the policy
+ * @returns Promise resolving to the factor contributions, drivers and missing inputs
+ */
+export async function getRiskBreakdown(policyId: string): Promise<IRiskScoreBreakdown> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.get<IRiskScoreBreakdown>(
+        API_ENDPOINTS.UNDERWRITING.RISK_BREAKDOWN.replace(':policyId', policyId)
+      )
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Risk breakdown retrieval failed:', {
+      policyId,
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a submission's required documents and fields and which have been received
+ * @param policyId Unique identifier of the policy
+ * @returns Promise resolving to the submission checklist
+ */
+export async function getSubmissionChecklist(policyId: string): Promise<ISubmissionChecklist> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.get<ISubmissionChecklist>(
+        API_ENDPOINTS.UNDERWRITING.CHECKLIST.replace(':policyId', policyId)
+      )
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Submission checklist retrieval failed:', {
+      policyId,
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Re-checks a submission's checklist after documents or fields are added; a complete
+ * submission waiting on documents returns to the review queue
+ * @param policyId Unique identifier of the policy
+ * @returns Promise resolving to the updated checklist
+ */
+export async function refreshSubmissionChecklist(policyId: string): Promise<ISubmissionChecklist> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.post<ISubmissionChecklist>(
+        API_ENDPOINTS.UNDERWRITING.CHECKLIST_REFRESH.replace(':policyId', policyId)
+      )
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Submission checklist refresh failed:', {
+      policyId,
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Screens a risk against product appetite and underwriting rules before a full
+ * submission is prepared
+ * @param request Class code, state, revenue and limits of the risk
+ * @returns Promise resolving to the outcome and the reasons behind it
+ */
+export async function checkAppetite(request: IAppetiteCheckRequest): Promise<IAppetiteCheckResult> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.post<IAppetiteCheckResult>(API_ENDPOINTS.UNDERWRITING.APPETITE, request)
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Appetite check failed:', {
+      policyType: request.policyType,
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the underwriting rules in evaluation order
+ * @returns Promise resolving to the current rules
+ */
+export async function getUnderwritingRules(): Promise<IUnderwritingRule[]> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.get<IUnderwritingRule[]>(API_ENDPOINTS.UNDERWRITING.RULES)
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Underwriting rules retrieval failed:', {
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
+/**
+ * Replays historical decisions against candidate rules or risk factor weights
+ * @param request Candidate configuration and the decisions to replay
+ * @returns Promise resolving to the diff report of changed decisions
+ */
+export async function simulateUnderwritingRules(
+  request: IRuleSimulationRequest
+): Promise<IRuleSimulationReport> {
+  try {
+    const response = await UNDERWRITING_CIRCUIT_BREAKER.fire(
+      apiClient.post<IRuleSimulationReport>(
+        API_ENDPOINTS.UNDERWRITING.RULES_SIMULATE,
+        request,
+        { timeout: 60000 } // Replays can cover thousands of decisions
+      )
+    );
+    return response.data;
+  } catch (error) {
+    console.error('Underwriting rule simulation failed:', {
+      error,
+      timestamp: new Date().toISOString()
+    });
+    throw error;
+  }
+}
+
 // Event listener for circuit breaker state changes
 UNDERWRITING_CIRCUIT_BREAKER.on('open', () => {
   console.warn('Underwriting circuit breaker opened:', {
@@ -7,6 +7,8 @@ import useWebSocket from 'react-use-websocket';
 
 import { UnderwritingMetrics } from '../../types/analytics.types';
 import StatusBadge from '../common/StatusBadge';
+import { useUnderwritingConfig } from '../../hooks/useUnderwriting';
+import { IUnderwritingConfig } from '../../types/underwriting.types';
 
 // WebSocket endpoint for real-time updates
 const WS_ENDPOINT = `${process.env.REACT_APP_WS_URL}/analytics/risk-scores`;
@@ -37,6 +39,22 @@ const getRiskLevelColor = (riskLevel: string, theme: any) => {
   return colors[riskLevel.toLowerCase()] || theme.palette.grey[500];
 };
 
+// Label a distribution level with the score band published by the underwriting engine
+const formatRiskLevelLabel = (
+  riskLevel: string,
+  thresholds?: IUnderwritingConfig['riskScoreThresholds']
+): string => {
+  if (!thresholds) return riskLevel;
+
+  const bands: Record<string, string> = {
+    low: `0-${thresholds.lowRisk}`,
+    medium: `${thresholds.lowRisk}-${thresholds.highRisk}`,
+    high: `${thresholds.highRisk}-100`
+  };
+  const band = bands[riskLevel.toLowerCase()];
+  return band ? `${riskLevel} (${band})` : riskLevel;
+};
+
 // Format risk score with trend analysis
 const formatRiskScore = (
   score: number,
@@ -58,6 +76,7 @@ const RiskScoreWidget: React.FC<RiskScoreWidgetProps> = ({
   refreshInterval = 30000
 }) => {
   const theme = useTheme();
+  const { config } = useUnderwritingConfig();
   const [metrics, setMetrics] = useState<UnderwritingMetrics | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -74,11 +93,11 @@ const RiskScoreWidget: React.FC<RiskScoreWidgetProps> = ({
     if (!metrics?.riskScoreDistribution) return [];
     
     return Object.entries(metrics.riskScoreDistribution).map(([level, value]) => ({
-      name: level,
+      name: formatRiskLevelLabel(level, config?.riskScoreThresholds),
       value,
       color: getRiskLevelColor(level, theme)
     }));
-  }, [metrics?.riskScoreDistribution, theme]);
+  }, [metrics?.riskScoreDistribution, theme, config]);
 
   // Virtual scroll for large datasets
   const rowVirtualizer = useVirtualizer({
@@ -0,0 +1,91 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  Grid,
+  Paper,
+  Typography
+} from '@mui/material';
+import { formatCurrency } from '../../utils/format.utils';
+import {
+  ClaimCoveragePosition as IClaimCoveragePosition,
+  CoverageDetermination
+} from '../../types/claims.types';
+
+// Props interface for the ClaimCoveragePosition component
+interface ClaimCoveragePositionProps {
+  position: IClaimCoveragePosition;
+}
+
+// Display label and chip colour for each coverage position
+const DETERMINATION_DISPLAY: Record<CoverageDetermination, { label: string; color: 'success' | 'warning' | 'error' }> = {
+  COVERED: { label: 'Covered', color: 'success' },
+  QUESTIONABLE: { label: 'Questionable', color: 'warning' },
+  NOT_COVERED: { label: 'Not covered', color: 'error' }
+};
+
+/**
+ * ClaimCoveragePosition Component
+ * Shows the coverage position taken on a claim at first notice of loss with the
+ * policy term and coverage it was checked against, its reasons and any late
+ * reporting warning for the adjuster
+ */
+const ClaimCoveragePosition: React.FC<ClaimCoveragePositionProps> = ({ position }) => {
+  const display = DETERMINATION_DISPLAY[position.determination];
+
+  const details: Array<[string, string]> = [
+    ['Policy', `${position.policyNumber} (${position.policyStatus})`],
+    ['Term', `${new Date(position.policyTerm.effectiveDate).toLocaleDateString()} – ${new Date(position.policyTerm.expirationDate).toLocaleDateString()}`],
+    ['Coverage', position.coverageType || 'Not identified'],
+    ['Deductible', position.deductible !== undefined ? formatCurrency(position.deductible) : '—'],
+    ['Per-occurrence limit', position.perOccurrenceLimit !== undefined ? formatCurrency(position.perOccurrenceLimit) : '—'],
+    ['Days to report', String(position.daysToReport)]
+  ];
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 3 }} aria-label="Coverage position">
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <Typography variant="h6" component="h2">
+          Coverage Position
+        </Typography>
+        <Chip size="small" color={display.color} label={display.label} />
+      </Box>
+
+      {position.warnings.map(warning => (
+        <Alert key={warning} severity="warning" sx={{ mb: 2 }}>
+          {warning}
+        </Alert>
+      ))}
+
+      <Grid container spacing={2}>
+        {details.map(([label, value]) => (
+          <Grid item xs={6} md={4} key={label}>
+            <Typography variant="caption" color="text.secondary">
+              {label}
+            </Typography>
+            <Typography variant="body2">{value}</Typography>
+          </Grid>
+        ))}
+      </Grid>
+
+      {position.reasons.length > 0 && (
+        <Box component="ul" sx={{ mt: 2, mb: 0, pl: 3 }}>
+          {position.reasons.map(reason => (
+            <Typography component="li" variant="body2" key={reason}>
+              {reason}
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      {position.exclusions.length > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+          Exclusions: {position.exclusions.join(', ')}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default ClaimCoveragePosition;
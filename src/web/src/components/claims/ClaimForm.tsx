@@ -11,8 +11,17 @@ import {
   Alert,
   CircularProgress
 } from '@chakra-ui/react';
-import { Claim, ClaimLocation, ClaimantInfo, ClaimDocument } from '../../types/claims.types';
+import {
+  Claim,
+  ClaimLocation,
+  ClaimantInfo,
+  ClaimDocument,
+  ClaimDuplicateMatch,
+  ClaimDuplicateResolution,
+  CreateClaimRequest
+} from '../../types/claims.types';
 import { useClaims } from '../../hooks/useClaims';
+import { claimsApi } from '../../api/claims.api';
 import { validateClaimForm, validateClaimDocument } from '../../validators/claims.validator';
 import FileUpload from '../common/FileUpload';
 import DatePicker from '../common/DatePicker';
@@ -27,7 +36,10 @@ interface ClaimFormProps {
 interface ClaimFormData {
   policyId: string;
   incidentDate: Date;
+  reportedDate: Date;
   description: string;
+  coverageType: string;
+  causeOfLoss: string;
   location: ClaimLocation;
   claimantInfo: ClaimantInfo;
   initialReserve: number;
@@ -51,7 +63,10 @@ export const ClaimForm: React.FC<ClaimFormProps> = ({
     defaultValues: {
       policyId,
       incidentDate: new Date(),
+      reportedDate: new Date(),
       description: '',
+      coverageType: '',
+      causeOfLoss: '',
       location: {
         address: '',
         city: '',
@@ -76,8 +91,28 @@ export const ClaimForm: React.FC<ClaimFormProps> = ({
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
-  // Form submission handler
-  const onSubmit = useCallback(async (data: ClaimFormData) => {
+  // Possible duplicates awaiting a link, merge or proceed decision
+  const [duplicates, setDuplicates] = useState<ClaimDuplicateMatch[]>([]);
+  const [pendingData, setPendingData] = useState<ClaimFormData | null>(null);
+
+  // Builds the claim request from the form data
+  const toClaimRequest = (data: ClaimFormData): CreateClaimRequest => ({
+    policyId: data.policyId,
+    incidentDate: data.incidentDate,
+    reportedDate: data.reportedDate,
+    description: data.description,
+    ...(data.coverageType.trim() ? { coverageType: data.coverageType.trim() } : {}),
+    ...(data.causeOfLoss.trim() ? { causeOfLoss: data.causeOfLoss.trim() } : {}),
+    location: data.location,
+    claimantInfo: data.claimantInfo,
+    initialReserve: data.initialReserve
+  });
+
+  // Submits the claim, with the decision on its possible duplicates if there are any
+  const submitClaimData = useCallback(async (
+    data: ClaimFormData,
+    duplicateResolution?: ClaimDuplicateResolution
+  ) => {
     try {
       setIsProcessing(true);
       setUploadError(null);
@@ -88,14 +123,20 @@ export const ClaimForm: React.FC<ClaimFormProps> = ({
         throw new Error(Object.values(validation.errors).flat().join('. '));
       }
 
-      // Submit claim
+      // Check the policy for the same loss reported already
+      if (!duplicateResolution) {
+        const matches = await claimsApi.checkClaimDuplicates(toClaimRequest(data));
+        if (matches.length > 0) {
+          setDuplicates(matches);
+          setPendingData(data);
+          return;
+        }
+      }
+
+      // Submit claim; a merge returns the existing claim
       const claim = await submitClaim({
-        policyId: data.policyId,
-        incidentDate: data.incidentDate,
-        description: data.description,
-        location: data.location,
-        claimantInfo: data.claimantInfo,
-        initialReserve: data.initialReserve
+        ...toClaimRequest(data),
+        ...(duplicateResolution ? { duplicateResolution } : {})
       });
 
       // Upload documents if present
@@ -104,6 +145,8 @@ export const ClaimForm: React.FC<ClaimFormProps> = ({
       }
 
       // Reset form and notify success
+      setDuplicates([]);
+      setPendingData(null);
       reset();
       onSubmitSuccess?.(claim);
 
@@ -114,6 +157,19 @@ export const ClaimForm: React.FC<ClaimFormProps> = ({
     }
   }, [submitClaim, uploadDocuments, reset, onSubmitSuccess]);
 
+  // Form submission handler
+  const onSubmit = useCallback(
+    (data: ClaimFormData) => submitClaimData(data),
+    [submitClaimData]
+  );
+
+  // Duplicate prompt handler: link to, merge into, or proceed past the possible duplicates
+  const handleDuplicateDecision = useCallback((resolution: ClaimDuplicateResolution) => {
+    if (pendingData) {
+      submitClaimData(pendingData, resolution);
+    }
+  }, [pendingData, submitClaimData]);
+
   // File upload handler
   const handleFileUpload = useCallback(async (files: File[]) => {
     const validFiles: File[] = [];
@@ -174,6 +230,61 @@ export const ClaimForm: React.FC<ClaimFormProps> = ({
           />
         </Grid>
 
+        <Grid item xs={12} md={6}>
+          <Controller
+            name="reportedDate"
+            control={control}
+            render={({ field }) => (
+              <DatePicker
+                label="Date Reported"
+                value={field.value}
+                onChange={field.onChange}
+                error={!!errors.reportedDate}
+                helperText={errors.reportedDate?.message || 'When the loss was first reported to us'}
+                validationRules={{
+                  allowPastDates: true,
+                  businessDaysOnly: false
+                }}
+                aria-label="Select date the loss was reported"
+              />
+            )}
+          />
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Controller
+            name="coverageType"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Coverage"
+                error={!!errors.coverageType}
+                helperText={errors.coverageType?.message || 'Policy coverage the loss is reported under'}
+                fullWidth
+                inputProps={{ maxLength: 50, 'aria-label': 'Coverage' }}
+              />
+            )}
+          />
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Controller
+            name="causeOfLoss"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Cause of Loss"
+                error={!!errors.causeOfLoss}
+                helperText={errors.causeOfLoss?.message}
+                fullWidth
+                inputProps={{ maxLength: 100, 'aria-label': 'Cause of loss' }}
+              />
+            )}
+          />
+        </Grid>
+
         <Grid item xs={12}>
           <Controller
             name="description"
@@ -367,6 +478,54 @@ export const ClaimForm: React.FC<ClaimFormProps> = ({
           />
         </Grid>
 
+        {/* Possible Duplicate Prompt */}
+        {duplicates.length > 0 && (
+          <Grid item xs={12}>
+            <Alert status="warning" mb={4} flexDirection="column" alignItems="flex-start" role="alertdialog">
+              {duplicates.map(match => (
+                <Box key={match.claimId} mb={3} width="100%">
+                  <Typography fontWeight="bold">
+                    Possible duplicate of {match.claimNumber} (match {match.score}%)
+                  </Typography>
+                  <Typography fontSize="sm">
+                    {match.claimantName}, incident {new Date(match.incidentDate).toLocaleDateString()}, {match.status}
+                  </Typography>
+                  <Typography fontSize="sm" mb={2}>
+                    {match.reasons.join('; ')}
+                  </Typography>
+                  <Box display="flex" gap={2}>
+                    <Button
+                      size="sm"
+                      onClick={() => handleDuplicateDecision({ action: 'LINK', claimId: match.claimId })}
+                      disabled={isProcessing}
+                      aria-label={`Submit and link to ${match.claimNumber}`}
+                    >
+                      Link to {match.claimNumber}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleDuplicateDecision({ action: 'MERGE', claimId: match.claimId })}
+                      disabled={isProcessing}
+                      aria-label={`Merge into ${match.claimNumber}`}
+                    >
+                      Merge into {match.claimNumber}
+                    </Button>
+                  </Box>
+                </Box>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDuplicateDecision({ action: 'PROCEED' })}
+                disabled={isProcessing}
+                aria-label="Submit as a new claim anyway"
+              >
+                Proceed anyway
+              </Button>
+            </Alert>
+          </Grid>
+        )}
+
         {/* Error Display */}
         {uploadError && (
           <Grid item xs={12}>
@@ -0,0 +1,64 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  Paper,
+  Typography
+} from '@mui/material';
+import { ClaimFraudAssessment as IClaimFraudAssessment } from '../../types/claims.types';
+
+// Props interface for the ClaimFraudAssessment component
+interface ClaimFraudAssessmentProps {
+  assessment: IClaimFraudAssessment;
+}
+
+// Display label for the claim event that ran the screening
+const TRIGGER_LABELS: Record<IClaimFraudAssessment['trigger'], string> = {
+  CLAIM_CREATED: 'claim creation',
+  STATUS_CHANGED: 'status change'
+};
+
+/**
+ * ClaimFraudAssessment Component
+ * Shows a claim's SIU referral score with the fraud indicators behind it and
+ * whether the claim has been referred to special investigations
+ */
+const ClaimFraudAssessment: React.FC<ClaimFraudAssessmentProps> = ({ assessment }) => (
+  <Paper variant="outlined" sx={{ p: 2, mb: 3 }} aria-label="Fraud screening">
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+      <Typography variant="h6" component="h2">
+        Fraud Screening
+      </Typography>
+      <Chip
+        size="small"
+        color={assessment.referred ? 'error' : assessment.score > 0 ? 'warning' : 'success'}
+        label={`Score ${assessment.score}`}
+      />
+    </Box>
+
+    {assessment.referred && (
+      <Alert severity="error" sx={{ mb: 2 }}>
+        Referred to special investigations
+      </Alert>
+    )}
+
+    {assessment.indicators.length > 0 ? (
+      <Box component="ul" sx={{ mt: 0, mb: 0, pl: 3 }}>
+        {assessment.indicators.map(indicator => (
+          <Typography component="li" variant="body2" key={indicator.code}>
+            {indicator.description} (+{indicator.weight})
+          </Typography>
+        ))}
+      </Box>
+    ) : (
+      <Typography variant="body2">No fraud indicators triggered</Typography>
+    )}
+
+    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+      Screened on {TRIGGER_LABELS[assessment.trigger]}, {new Date(assessment.assessedAt).toLocaleString()}
+    </Typography>
+  </Paper>
+);
+
+export default ClaimFraudAssessment;
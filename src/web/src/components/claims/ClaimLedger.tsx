@@ -0,0 +1,471 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { formatCurrency } from '../../utils/format.utils';
+import {
+  ClaimLedger as IClaimLedger,
+  ClaimPaymentApproval,
+  ClaimTransaction,
+  ClaimTransactionType,
+  RecordClaimTransactionRequest,
+  VoidClaimTransactionRequest
+} from '../../types/claims.types';
+
+// Props interface for the ClaimLedger component
+interface ClaimLedgerProps {
+  ledger: IClaimLedger;
+  onRecord: (transaction: RecordClaimTransactionRequest) => Promise<void>;
+  onVoid: (transactionId: string, request: VoidClaimTransactionRequest) => Promise<void>;
+  onApprove: (approvalId: string) => Promise<void>;
+  onReject: (approvalId: string, reason: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+// Display label for each ledger entry type
+const TYPE_LABELS: Record<ClaimTransactionType, string> = {
+  INDEMNITY_PAYMENT: 'Indemnity payment',
+  EXPENSE_PAYMENT: 'Expense payment',
+  RESERVE_CHANGE: 'Reserve change',
+  DEDUCTIBLE_RECOVERY: 'Deductible recovery',
+  SUBROGATION_RECOVERY: 'Subrogation recovery',
+  SALVAGE_RECOVERY: 'Salvage recovery',
+  VOID: 'Void'
+};
+
+// Entry types that pay money out and so need a payee and a check or ACH reference
+const PAYMENT_TYPES: ClaimTransactionType[] = ['INDEMNITY_PAYMENT', 'EXPENSE_PAYMENT'];
+
+const EMPTY_FORM = {
+  type: 'INDEMNITY_PAYMENT' as RecordClaimTransactionRequest['type'],
+  amount: '',
+  payee: '',
+  paymentMethod: 'CHECK' as 'CHECK' | 'ACH',
+  reference: '',
+  notes: ''
+};
+
+/**
+ * ClaimLedger Component
+ * Lists a claim's payments, reserve changes, recoveries and voids with the totals
+ * derived from them, enters new entries and voids existing ones. Entries above the
+ * user's authority wait in the pending approvals list until approved or rejected.
+ */
+const ClaimLedger: React.FC<ClaimLedgerProps> = ({
+  ledger,
+  onRecord,
+  onVoid,
+  onApprove,
+  onReject,
+  isSubmitting = false
+}) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [voidTarget, setVoidTarget] = useState<ClaimTransaction | null>(null);
+  const [voidRequest, setVoidRequest] = useState<VoidClaimTransactionRequest>({ approvedBy: '', notes: '' });
+  const [rejectTarget, setRejectTarget] = useState<ClaimPaymentApproval | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const { transactions, financials, pendingApprovals } = ledger;
+
+  // Entries reversed by a void are shown struck through and cannot be voided again
+  const voidedIds = useMemo(() => new Set(transactions
+    .filter(transaction => transaction.voidsTransactionId)
+    .map(transaction => transaction.voidsTransactionId as string)), [transactions]);
+
+  const isPayment = PAYMENT_TYPES.includes(form.type);
+  const amount = Number(form.amount);
+  const canRecord = form.amount.trim() !== '' &&
+    !isNaN(amount) &&
+    (form.type === 'RESERVE_CHANGE' ? amount !== 0 : amount > 0) &&
+    (!isPayment || amount <= financials.outstandingReserve) &&
+    (!isPayment || (form.payee.trim() !== '' && form.reference.trim() !== ''));
+
+  const handleChange = useCallback((field: keyof typeof EMPTY_FORM) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setForm(current => ({ ...current, [field]: event.target.value }));
+    }, []);
+
+  const handleRecord = useCallback(async () => {
+    const hasPaymentDetails = form.type !== 'RESERVE_CHANGE';
+    try {
+      await onRecord({
+        type: form.type,
+        amount: Number(form.amount),
+        ...(hasPaymentDetails && form.payee.trim() ? { payee: form.payee.trim() } : {}),
+        ...(hasPaymentDetails && form.reference.trim()
+          ? { paymentMethod: form.paymentMethod, reference: form.reference.trim() }
+          : {}),
+        ...(form.notes.trim() ? { notes: form.notes.trim() } : {})
+      });
+      setForm(EMPTY_FORM);
+    } catch {
+      // The failure is reported by the page; keep the entry so it can be corrected
+    }
+  }, [form, onRecord]);
+
+  const handleVoid = useCallback(async () => {
+    if (!voidTarget) return;
+
+    try {
+      await onVoid(voidTarget.id, voidRequest);
+      setVoidTarget(null);
+      setVoidRequest({ approvedBy: '', notes: '' });
+    } catch {
+      // The failure is reported by the page; leave the dialog open
+    }
+  }, [voidTarget, voidRequest, onVoid]);
+
+  const handleReject = useCallback(async () => {
+    if (!rejectTarget) return;
+
+    try {
+      await onReject(rejectTarget.id, rejectReason.trim());
+      setRejectTarget(null);
+      setRejectReason('');
+    } catch {
+      // The failure is reported by the page; leave the dialog open
+    }
+  }, [rejectTarget, rejectReason, onReject]);
+
+  const handleApprove = useCallback(async (approvalId: string) => {
+    try {
+      await onApprove(approvalId);
+    } catch {
+      // The failure is reported by the page
+    }
+  }, [onApprove]);
+
+  const totals: Array<[string, number]> = [
+    ['Reserve', financials.reserveAmount],
+    ['Indemnity paid', financials.indemnityPaid],
+    ['Expense paid', financials.expensePaid],
+    ['Outstanding reserve', financials.outstandingReserve],
+    ['Deductible recovered', financials.deductibleRecovered],
+    ['Subrogation recovered', financials.subrogationRecovered],
+    ['Salvage recovered', financials.salvageRecovered],
+    ['Net incurred', financials.netIncurred]
+  ];
+
+  return (
+    <Box>
+      {/* Derived totals */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {totals.map(([label, value]) => (
+          <Grid item xs={6} md={3} key={label}>
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="caption" color="text.secondary">
+                {label}
+              </Typography>
+              <Typography variant="h6">{formatCurrency(value)}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Entries waiting on approval */}
+      {pendingApprovals.length > 0 && (
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+          <Typography variant="h6" component="h2" sx={{ px: 2, pt: 2 }}>
+            Pending Approval
+          </Typography>
+          <Table size="small" aria-label="Pending payment approvals">
+            <TableHead>
+              <TableRow>
+                <TableCell>Requested</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell>Payee</TableCell>
+                <TableCell>Requested by</TableCell>
+                <TableCell>Reasons</TableCell>
+                <TableCell>Approvals</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {pendingApprovals.map(approval => (
+                <TableRow key={approval.id}>
+                  <TableCell>{new Date(approval.createdAt).toLocaleDateString()}</TableCell>
+                  <TableCell>{TYPE_LABELS[approval.type]}</TableCell>
+                  <TableCell align="right">{formatCurrency(approval.amount)}</TableCell>
+                  <TableCell>{approval.payee || '—'}</TableCell>
+                  <TableCell>{approval.requestedBy}</TableCell>
+                  <TableCell>{approval.reasons.join('; ')}</TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      color={approval.requiredApprovals > 1 ? 'warning' : 'default'}
+                      label={`${approval.approvals.length} of ${approval.requiredApprovals}`}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Button
+                      size="small"
+                      onClick={() => handleApprove(approval.id)}
+                      disabled={isSubmitting}
+                      aria-label={`Approve ${TYPE_LABELS[approval.type]} of ${formatCurrency(approval.amount)}`}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="small"
+                      color="error"
+                      onClick={() => setRejectTarget(approval)}
+                      disabled={isSubmitting}
+                      aria-label={`Reject ${TYPE_LABELS[approval.type]} of ${formatCurrency(approval.amount)}`}
+                    >
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Ledger entries */}
+      <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+        <Table size="small" aria-label="Claim ledger">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell align="right">Amount</TableCell>
+              <TableCell>Payee</TableCell>
+              <TableCell>Method / reference</TableCell>
+              <TableCell>Approved by</TableCell>
+              <TableCell>Notes</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {transactions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8}>
+                  <Typography variant="body2" color="text.secondary">
+                    No transactions recorded
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : transactions.map(transaction => {
+              const isVoided = voidedIds.has(transaction.id);
+              return (
+                <TableRow
+                  key={transaction.id}
+                  sx={isVoided ? { '& td': { textDecoration: 'line-through', color: 'text.disabled' } } : undefined}
+                >
+                  <TableCell>{new Date(transaction.transactionDate).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {transaction.type === 'VOID'
+                      ? <Chip size="small" color="warning" label={TYPE_LABELS.VOID} />
+                      : TYPE_LABELS[transaction.type]}
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(transaction.amount)}</TableCell>
+                  <TableCell>{transaction.payee || '—'}</TableCell>
+                  <TableCell>
+                    {transaction.reference ? `${transaction.paymentMethod} ${transaction.reference}` : '—'}
+                  </TableCell>
+                  <TableCell>{transaction.approvedBy}</TableCell>
+                  <TableCell>{transaction.notes || ''}</TableCell>
+                  <TableCell align="right">
+                    {transaction.type !== 'VOID' && !isVoided && (
+                      <Button
+                        size="small"
+                        color="error"
+                        onClick={() => setVoidTarget(transaction)}
+                        disabled={isSubmitting}
+                        aria-label={`Void ${TYPE_LABELS[transaction.type]} of ${formatCurrency(transaction.amount)}`}
+                      >
+                        Void
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Entry form */}
+      <Paper variant="outlined" sx={{ p: 2 }}>
+        <Typography variant="h6" component="h2" gutterBottom>
+          Record Transaction
+        </Typography>
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={4}>
+            <TextField
+              select
+              fullWidth
+              label="Type"
+              value={form.type}
+              onChange={handleChange('type')}
+            >
+              {(Object.keys(TYPE_LABELS) as ClaimTransactionType[])
+                .filter(type => type !== 'VOID')
+                .map(type => (
+                  <MenuItem key={type} value={type}>{TYPE_LABELS[type]}</MenuItem>
+                ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Amount"
+              value={form.amount}
+              onChange={handleChange('amount')}
+              helperText={form.type === 'RESERVE_CHANGE'
+                ? 'Negative to lower the reserve'
+                : isPayment ? `Outstanding reserve ${formatCurrency(financials.outstandingReserve)}` : undefined}
+              error={isPayment && amount > financials.outstandingReserve}
+            />
+          </Grid>
+          {form.type !== 'RESERVE_CHANGE' && (
+            <>
+              <Grid item xs={12} md={4}>
+                <TextField
+                  fullWidth
+                  label={isPayment ? 'Payee' : 'Received from'}
+                  value={form.payee}
+                  onChange={handleChange('payee')}
+                />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <TextField
+                  select
+                  fullWidth
+                  label="Method"
+                  value={form.paymentMethod}
+                  onChange={handleChange('paymentMethod')}
+                >
+                  <MenuItem value="CHECK">Check</MenuItem>
+                  <MenuItem value="ACH">ACH</MenuItem>
+                </TextField>
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <TextField
+                  fullWidth
+                  label={form.paymentMethod === 'CHECK' ? 'Check number' : 'ACH trace number'}
+                  value={form.reference}
+                  onChange={handleChange('reference')}
+                />
+              </Grid>
+            </>
+          )}
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Notes"
+              value={form.notes}
+              onChange={handleChange('notes')}
+            />
+          </Grid>
+        </Grid>
+        <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end' }}>
+          <Button
+            variant="contained"
+            onClick={handleRecord}
+            disabled={!canRecord || isSubmitting}
+          >
+            Record
+          </Button>
+        </Box>
+      </Paper>
+
+      {/* Void confirmation */}
+      <Dialog open={!!voidTarget} onClose={() => setVoidTarget(null)} fullWidth maxWidth="sm">
+        <DialogTitle>Void transaction</DialogTitle>
+        <DialogContent>
+          {voidTarget && (
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              {TYPE_LABELS[voidTarget.type]} of {formatCurrency(voidTarget.amount)}
+              {voidTarget.payee ? ` to ${voidTarget.payee}` : ''} will be reversed.
+            </Typography>
+          )}
+          <TextField
+            fullWidth
+            label="Approved by (user ID)"
+            value={voidRequest.approvedBy}
+            onChange={(event) => setVoidRequest(current => ({ ...current, approvedBy: event.target.value }))}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Reason"
+            value={voidRequest.notes}
+            onChange={(event) => setVoidRequest(current => ({ ...current, notes: event.target.value }))}
+            helperText="At least 10 characters"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setVoidTarget(null)}>Cancel</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={handleVoid}
+            disabled={!voidRequest.approvedBy.trim() || voidRequest.notes.trim().length < 10 || isSubmitting}
+          >
+            Void
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reject confirmation */}
+      <Dialog open={!!rejectTarget} onClose={() => setRejectTarget(null)} fullWidth maxWidth="sm">
+        <DialogTitle>Reject payment</DialogTitle>
+        <DialogContent>
+          {rejectTarget && (
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              {TYPE_LABELS[rejectTarget.type]} of {formatCurrency(rejectTarget.amount)}
+              {rejectTarget.payee ? ` to ${rejectTarget.payee}` : ''} will not be recorded.
+            </Typography>
+          )}
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Reason"
+            value={rejectReason}
+            onChange={(event) => setRejectReason(event.target.value)}
+            helperText="At least 10 characters"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRejectTarget(null)}>Cancel</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={handleReject}
+            disabled={rejectReason.trim().length < 10 || isSubmitting}
+          >
+            Reject
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ClaimLedger;
@@ -106,19 +106,19 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, isPermanent =
       path: POLICY_ROUTES.ROOT,
       label: 'Policies',
       icon: <Policy />,
-      requiredRoles: ['MGA_ADMIN', 'UNDERWRITER'],
+      requiredRoles: ['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER'],
       children: [
         {
           path: POLICY_ROUTES.LIST,
           label: 'Policy List',
           icon: <Folder />,
-          requiredRoles: ['MGA_ADMIN', 'UNDERWRITER']
+          requiredRoles: ['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']
         },
         {
           path: POLICY_ROUTES.NEW,
           label: 'New Policy',
           icon: <Description />,
-          requiredRoles: ['MGA_ADMIN', 'UNDERWRITER']
+          requiredRoles: ['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']
         }
       ]
     },
@@ -126,13 +126,13 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, isPermanent =
       path: UNDERWRITING_ROUTES.ROOT,
       label: 'Underwriting',
       icon: <Assessment />,
-      requiredRoles: ['MGA_ADMIN', 'UNDERWRITER'],
+      requiredRoles: ['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER'],
       children: [
         {
           path: UNDERWRITING_ROUTES.QUEUE,
           label: 'Review Queue',
           icon: <Assignment />,
-          requiredRoles: ['MGA_ADMIN', 'UNDERWRITER']
+          requiredRoles: ['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']
         },
         {
           path: UNDERWRITING_ROUTES.ANALYTICS,
@@ -152,7 +152,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, isPermanent =
       path: DOCUMENT_ROUTES.ROOT,
       label: 'Documents',
       icon: <Folder />,
-      requiredRoles: ['MGA_ADMIN', 'UNDERWRITER', 'CLAIMS_HANDLER', 'AUDITOR']
+      requiredRoles: ['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER', 'CLAIMS_HANDLER', 'AUDITOR']
     }
   ], []);
 
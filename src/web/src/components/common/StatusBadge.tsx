@@ -30,7 +30,8 @@ const StyledChip = styled(Chip, {
         [PolicyStatus.BOUND]: theme.palette.success.dark,
         [PolicyStatus.ACTIVE]: theme.palette.success.main,
         [PolicyStatus.CANCELLED]: theme.palette.error.main,
-        [PolicyStatus.EXPIRED]: theme.palette.error.light
+        [PolicyStatus.EXPIRED]: theme.palette.error.light,
+        [PolicyStatus.PENDING_RENEWAL]: theme.palette.info.light
       },
       claim: {
         [CLAIM_STATUS.NEW]: theme.palette.info.main,
@@ -98,7 +99,8 @@ const StatusBadge: React.FC<StatusBadgeProps> = React.memo(({
         [PolicyStatus.BOUND]: 'Bound',
         [PolicyStatus.ACTIVE]: 'Active',
         [PolicyStatus.CANCELLED]: 'Cancelled',
-        [PolicyStatus.EXPIRED]: 'Expired'
+        [PolicyStatus.EXPIRED]: 'Expired',
+        [PolicyStatus.PENDING_RENEWAL]: 'Pending Renewal'
       },
       claim: CLAIM_STATUS,
       underwriting: {
@@ -5,7 +5,7 @@
  * @version 1.0.0
  */
 
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import * as yup from 'yup';
 import { yupResolver } from '@hookform/resolvers/yup';
@@ -25,7 +25,7 @@ import {
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers';
 import { analytics } from '@segment/analytics-next';
-import { IEndorsement } from '../../types/policy.types';
+import { IEndorsement, IEndorsementRating } from '../../types/policy.types';
 import { PolicyService } from '../../services/policy.service';
 
 // Endorsement types based on business requirements
@@ -37,6 +37,9 @@ const ENDORSEMENT_TYPES = {
   LOCATION_CHANGE: 'Location Change',
 } as const;
 
+// Delay before re-rating after the user stops typing
+const QUOTE_DEBOUNCE_MS = 500;
+
 // Validation schema with business rules
 const endorsementSchema = yup.object().shape({
   type: yup.string()
@@ -44,14 +47,13 @@ const endorsementSchema = yup.object().shape({
     .oneOf(Object.values(ENDORSEMENT_TYPES), 'Invalid endorsement type'),
   effectiveDate: yup.date()
     .required('Effective date is required')
-    .min(new Date(), 'Effective date cannot be in the past')
     .max(
       new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
       'Effective date cannot be more than 90 days in the future'
     ),
   changes: yup.object().required('Changes are required'),
-  premiumChange: yup.number()
-    .required('Premium change is required')
+  annualPremiumChange: yup.number()
+    .required('Annual premium change is required')
     .test('premium-limit', 'Premium change exceeds allowed limit', 
       (value) => Math.abs(value || 0) <= 1000000),
 });
@@ -82,10 +84,14 @@ export const EndorsementForm: React.FC<EndorsementFormProps> = ({
       type: initialData?.type || '',
       effectiveDate: initialData?.effectiveDate || new Date(),
       changes: initialData?.changes || {},
-      premiumChange: initialData?.premiumChange || 0,
+      annualPremiumChange: initialData?.annualPremiumChange || 0,
     },
   });
 
+  const [rating, setRating] = useState<IEndorsementRating | null>(null);
+  const [isRating, setIsRating] = useState(false);
+  const [ratingError, setRatingError] = useState<string | null>(null);
+
   // Track form changes for analytics
   const formValues = watch();
   useEffect(() => {
@@ -147,11 +153,45 @@ export const EndorsementForm: React.FC<EndorsementFormProps> = ({
     }
   };
 
-  // Memoized premium calculation
-  const calculatedPremium = useMemo(() => {
-    // Add premium calculation logic based on changes
-    return formValues.premiumChange;
-  }, [formValues.premiumChange]);
+  // Prorate the annualized premium change to expiration before submission
+  const { effectiveDate, annualPremiumChange } = formValues;
+  useEffect(() => {
+    const annualChange = Number(annualPremiumChange);
+    if (!effectiveDate || isNaN(annualChange)) {
+      setRating(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsRating(true);
+      try {
+        const result = await PolicyService.quoteEndorsement(
+          policyId,
+          new Date(effectiveDate),
+          annualChange
+        );
+        if (!cancelled) {
+          setRating(result);
+          setRatingError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setRating(null);
+          setRatingError(error instanceof Error ? error.message : 'Unable to calculate premium');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsRating(false);
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [policyId, effectiveDate, annualPremiumChange]);
 
   return (
     <Box
@@ -235,20 +275,20 @@ export const EndorsementForm: React.FC<EndorsementFormProps> = ({
           />
         </Grid>
 
-        {/* Premium Change */}
+        {/* Annualized Premium Change */}
         <Grid item xs={12} md={6}>
           <Controller
-            name="premiumChange"
+            name="annualPremiumChange"
             control={control}
             render={({ field }) => (
               <TextField
                 {...field}
-                label="Premium Change"
+                label="Annual Premium Change"
                 type="number"
                 fullWidth
                 required
-                error={!!errors.premiumChange}
-                helperText={errors.premiumChange?.message}
+                error={!!errors.annualPremiumChange}
+                helperText={errors.annualPremiumChange?.message || 'Full-term premium delta before proration'}
                 InputProps={{
                   startAdornment: '$',
                 }}
@@ -257,11 +297,23 @@ export const EndorsementForm: React.FC<EndorsementFormProps> = ({
           />
         </Grid>
 
-        {/* Calculated Premium Display */}
+        {/* Prorated Premium Display */}
         <Grid item xs={12}>
-          <Typography variant="subtitle1" gutterBottom>
-            Calculated Premium Change: ${calculatedPremium.toFixed(2)}
-          </Typography>
+          {ratingError ? (
+            <Alert severity="warning">{ratingError}</Alert>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }} aria-live="polite">
+              <Typography variant="subtitle1">
+                Prorated Premium Change: {rating ? `$${rating.premiumChange.toFixed(2)}` : '—'}
+              </Typography>
+              {isRating && <CircularProgress size={16} aria-label="Calculating premium" />}
+              {rating && !isRating && (
+                <Typography variant="body2" color="textSecondary">
+                  ({rating.proratedDays} of {rating.termDays} days remaining in term)
+                </Typography>
+              )}
+            </Box>
+          )}
         </Grid>
 
         {/* Form Actions */}
@@ -278,7 +330,7 @@ export const EndorsementForm: React.FC<EndorsementFormProps> = ({
             <Button
               type="submit"
               variant="contained"
-              disabled={isSubmitting || !isDirty}
+              disabled={isSubmitting || !isDirty || isRating || !rating}
               startIcon={isSubmitting ? <CircularProgress size={20} /> : null}
             >
               Submit Endorsement
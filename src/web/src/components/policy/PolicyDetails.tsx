@@ -11,9 +11,10 @@ import {
   useTheme
 } from '@mui/material';
 import { formatCurrency, formatDate } from '@mui/x-data-grid';
-import { IPolicy, PolicyType, PolicyStatus } from '../../types/policy.types';
+import { IPolicy, PolicyType, PolicyStatus, SubjectivityStatus } from '../../types/policy.types';
 import PolicyService from '../../services/policy.service';
 import PolicyTimeline from './PolicyTimeline';
+import SubjectivityList from './SubjectivityList';
 import StatusBadge from '../common/StatusBadge';
 
 // Interface for component props
@@ -89,9 +90,15 @@ const PolicyDetails: React.FC<PolicyDetailsProps> = ({
     return policy.coverages.reduce((sum, coverage) => sum + coverage.premium, 0);
   }, [policy]);
 
+  const openPreBindCount = useMemo(() => {
+    return (policy?.underwritingInfo.subjectivities || []).filter(
+      subjectivity => subjectivity.timing === 'PRE_BIND' && subjectivity.status === SubjectivityStatus.OPEN
+    ).length;
+  }, [policy?.underwritingInfo.subjectivities]);
+
   const canBindPolicy = useMemo(() => {
-    return policy?.status === PolicyStatus.APPROVED;
-  }, [policy?.status]);
+    return policy?.status === PolicyStatus.APPROVED && openPreBindCount === 0;
+  }, [policy?.status, openPreBindCount]);
 
   // Event handlers
   const handleBindPolicy = async () => {
@@ -168,6 +175,11 @@ const PolicyDetails: React.FC<PolicyDetailsProps> = ({
               Bind Policy
             </Button>
           )}
+          {showActions && policy.status === PolicyStatus.APPROVED && openPreBindCount > 0 && (
+            <Typography variant="body2" color="textSecondary">
+              {openPreBindCount} pre-bind subjectivit{openPreBindCount === 1 ? 'y' : 'ies'} open
+            </Typography>
+          )}
         </Box>
 
         <Divider sx={{ mb: 3 }} />
@@ -221,6 +233,68 @@ const PolicyDetails: React.FC<PolicyDetailsProps> = ({
             ))}
           </Grid>
 
+          {/* Premium Breakdown */}
+          {policy.premiumBreakdown && (
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>
+                Premium Breakdown
+              </Typography>
+              <Typography variant="body2" color="textSecondary" gutterBottom>
+                Rate table {policy.premiumBreakdown.rateTableVersion} effective{' '}
+                {formatDate(new Date(policy.premiumBreakdown.rateTableEffectiveDate))}
+              </Typography>
+              <Grid container spacing={2}>
+                <Grid item xs={12} sm={6} md={3}>
+                  <Typography color="textSecondary">Exposure</Typography>
+                  <Typography>
+                    {policy.premiumBreakdown.exposure.toLocaleString()} ({policy.premiumBreakdown.exposureBasis})
+                  </Typography>
+                </Grid>
+                <Grid item xs={12} sm={6} md={3}>
+                  <Typography color="textSecondary">Base Rate</Typography>
+                  <Typography>
+                    {policy.premiumBreakdown.baseRate} per {policy.premiumBreakdown.exposureUnit.toLocaleString()}
+                  </Typography>
+                </Grid>
+                <Grid item xs={12} sm={6} md={3}>
+                  <Typography color="textSecondary">Base Premium</Typography>
+                  <Typography>{formatCurrency(policy.premiumBreakdown.basePremium, 'USD')}</Typography>
+                </Grid>
+                <Grid item xs={12} sm={6} md={3}>
+                  <Typography color="textSecondary">Schedule Modifier</Typography>
+                  <Typography>{policy.premiumBreakdown.scheduleModifier.toFixed(2)}</Typography>
+                </Grid>
+                {policy.premiumBreakdown.coverages.map(coverage => (
+                  <React.Fragment key={coverage.coverageId}>
+                    <Grid item xs={12} sm={6} md={3}>
+                      <Typography color="textSecondary">{coverage.coverageType}</Typography>
+                      <Typography>{formatCurrency(coverage.limit, 'USD')} limit</Typography>
+                    </Grid>
+                    <Grid item xs={12} sm={6} md={3}>
+                      <Typography color="textSecondary">ILF</Typography>
+                      <Typography>{coverage.increasedLimitFactor.toFixed(4)}</Typography>
+                    </Grid>
+                    <Grid item xs={12} sm={6} md={3}>
+                      <Typography color="textSecondary">Deductible Credit</Typography>
+                      <Typography>{(coverage.deductibleCredit * 100).toFixed(1)}%</Typography>
+                    </Grid>
+                    <Grid item xs={12} sm={6} md={3}>
+                      <Typography color="textSecondary">Coverage Premium</Typography>
+                      <Typography>{formatCurrency(coverage.premium, 'USD')}</Typography>
+                    </Grid>
+                  </React.Fragment>
+                ))}
+                <Grid item xs={12} sm={6} md={3}>
+                  <Typography color="textSecondary">Rated Premium</Typography>
+                  <Typography>
+                    {formatCurrency(policy.premiumBreakdown.totalPremium, 'USD')}
+                    {policy.premiumBreakdown.minimumPremiumApplied && ' (minimum premium)'}
+                  </Typography>
+                </Grid>
+              </Grid>
+            </Grid>
+          )}
+
           {/* Underwriting Information */}
           <Grid item xs={12}>
             <Typography variant="h6" gutterBottom>
@@ -245,6 +319,13 @@ const PolicyDetails: React.FC<PolicyDetailsProps> = ({
                 <Typography color="textSecondary">Notes</Typography>
                 <Typography>{policy.underwritingInfo.underwriterNotes}</Typography>
               </Grid>
+              <Grid item xs={12}>
+                <Typography color="textSecondary">Subjectivities</Typography>
+                <SubjectivityList
+                  subjectivities={policy.underwritingInfo.subjectivities || []}
+                  cancellationNotice={policy.underwritingInfo.cancellationNotice}
+                />
+              </Grid>
             </Grid>
           </Grid>
 
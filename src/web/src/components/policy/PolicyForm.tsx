@@ -11,22 +11,39 @@ import {
   Select,
   MenuItem,
   FormControl,
+  FormControlLabel,
   FormHelperText,
+  FormLabel,
+  InputLabel,
+  Radio,
+  RadioGroup,
+  List,
+  ListItem,
+  ListItemText,
   CircularProgress,
   Alert,
   Paper
 } from '@mui/material';
 import { debounce } from 'lodash';
-import { IPolicy, PolicyType, PolicyStatus } from '../../types/policy.types';
+import {
+  IPolicy,
+  PolicyType,
+  PolicyStatus,
+  IProductDefinition,
+  IEligibilityQuestion,
+  EligibilityAnswer,
+  EligibilityAnswerType
+} from '../../types/policy.types';
 import { PolicyService } from '../../services/policy.service';
-import { validatePolicy } from '../../validators/policy.validator';
+import { validatePolicy, validatePolicyProduct } from '../../validators/policy.validator';
 import { POLICY_VALIDATION, POLICY_TYPES } from '../../constants/policy.constants';
+import { formatCurrency } from '../../utils/format.utils';
 
 // Form steps configuration
 const FORM_STEPS = [
   { label: 'Basic Information', description: 'Enter policy details' },
   { label: 'Coverage Configuration', description: 'Configure policy coverages' },
-  { label: 'Underwriting Review', description: 'Review and validate policy' },
+  { label: 'Underwriting Review', description: 'Answer eligibility questions' },
   { label: 'Document Upload', description: 'Upload required documents' }
 ];
 
@@ -50,6 +67,7 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors, isSubmitting, isDirty }
   } = useForm<IPolicy>({
     defaultValues: {
@@ -67,8 +85,51 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
     error?: string;
   }>({ isValidating: false });
 
+  const [productDefinition, setProductDefinition] = useState<IProductDefinition | null>(null);
+  const [productError, setProductError] = useState<string | null>(null);
+
   // Watch form values for validation
   const watchedValues = watch();
+  const policyType = watch('type');
+  const effectiveDate = watch('effectiveDate');
+
+  // Load the product definition in effect for the selected policy type and effective date
+  useEffect(() => {
+    let cancelled = false;
+    const asOf = effectiveDate && !isNaN(Date.parse(effectiveDate))
+      ? new Date(effectiveDate).toISOString()
+      : undefined;
+
+    setProductDefinition(null);
+    setProductError(null);
+
+    PolicyService.fetchProductDefinition(policyType, asOf)
+      .then(definition => {
+        if (cancelled) return;
+        setProductDefinition(definition);
+
+        // Start new submissions with the product's required coverages
+        if (!getValues('coverages')?.length) {
+          setValue('coverages', definition.allowedCoverages
+            .filter(coverage => coverage.required)
+            .map(coverage => ({
+              type: coverage.code,
+              limit: definition.limits.perOccurrence.min,
+              deductible: definition.deductible.allowedValues?.[0] ?? definition.deductible.min,
+              premium: 0
+            })));
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setProductError('Failed to load the product rules for this policy type.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [policyType, effectiveDate]);
 
   // Debounced OneShield validation
   const validateWithOneShield = useCallback(
@@ -87,17 +148,20 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
     []
   );
 
-  // Validate form data on change
+  // Validate form data on change; eligibility is checked once the underwriting step is reached
   useEffect(() => {
     if (isDirty) {
       const validationResult = validatePolicy(watchedValues as IPolicy);
-      setValidationErrors(validationResult.errors);
+      const productValidation = productDefinition
+        ? validatePolicyProduct(watchedValues, productDefinition, { checkEligibility: activeStep >= 2 })
+        : { isValid: true, errors: {} };
+      setValidationErrors({ ...validationResult.errors, ...productValidation.errors });
 
-      if (validationResult.isValid) {
+      if (validationResult.isValid && productValidation.isValid) {
         validateWithOneShield(watchedValues);
       }
     }
-  }, [watchedValues, isDirty]);
+  }, [watchedValues, isDirty, productDefinition, activeStep]);
 
   // Form submission handler
   const handleFormSubmit = async (formData: IPolicy) => {
@@ -109,6 +173,17 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
         return;
       }
 
+      // Product rules must be loaded and met before submission
+      if (!productDefinition) {
+        setValidationErrors({ product: ['Product rules have not loaded for this policy type.'] });
+        return;
+      }
+      const productValidation = validatePolicyProduct(formData, productDefinition, { checkEligibility: true });
+      if (!productValidation.isValid) {
+        setValidationErrors(productValidation.errors);
+        return;
+      }
+
       // OneShield validation
       await PolicyService.validateWithOneShield(formData);
 
@@ -122,6 +197,15 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
     }
   };
 
+  // Records an answer to an eligibility question
+  const setEligibilityAnswer = (questionId: string, answer: EligibilityAnswer) => {
+    setValue(
+      'eligibilityAnswers',
+      { ...(getValues('eligibilityAnswers') || {}), [questionId]: answer },
+      { shouldDirty: true }
+    );
+  };
+
   // Step navigation
   const handleNext = () => setActiveStep(prev => prev + 1);
   const handleBack = () => setActiveStep(prev => prev - 1);
@@ -193,6 +277,13 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
   // Render coverage configuration step
   const renderCoverages = () => (
     <Box sx={{ p: 2 }}>
+      {productDefinition && (
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          {productDefinition.name} (version {productDefinition.version}): limits{' '}
+          {formatCurrency(productDefinition.limits.perOccurrence.min)} to{' '}
+          {formatCurrency(productDefinition.limits.perOccurrence.max)} per occurrence
+        </Typography>
+      )}
       <Controller
         name="coverages"
         control={control}
@@ -201,17 +292,25 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
           <Box>
             {field.value?.map((coverage, index) => (
               <Paper key={index} sx={{ p: 2, mb: 2 }}>
-                <TextField
-                  fullWidth
-                  label="Coverage Type"
-                  value={coverage.type}
-                  onChange={e => {
-                    const newCoverages = [...field.value];
-                    newCoverages[index].type = e.target.value;
-                    setValue('coverages', newCoverages);
-                  }}
-                  sx={{ mb: 2 }}
-                />
+                <FormControl fullWidth sx={{ mb: 2 }} disabled={!productDefinition}>
+                  <InputLabel id={`coverage-type-label-${index}`}>Coverage Type</InputLabel>
+                  <Select
+                    labelId={`coverage-type-label-${index}`}
+                    label="Coverage Type"
+                    value={coverage.type}
+                    onChange={e => {
+                      const newCoverages = [...field.value];
+                      newCoverages[index].type = e.target.value as string;
+                      setValue('coverages', newCoverages);
+                    }}
+                  >
+                    {productDefinition?.allowedCoverages.map(allowed => (
+                      <MenuItem key={allowed.code} value={allowed.code}>
+                        {allowed.name}{allowed.required ? ' (required)' : ''}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
                 <TextField
                   fullWidth
                   type="number"
@@ -222,18 +321,61 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
                     newCoverages[index].limit = Number(e.target.value);
                     setValue('coverages', newCoverages);
                   }}
+                  inputProps={productDefinition ? {
+                    min: productDefinition.limits.perOccurrence.min,
+                    max: productDefinition.limits.perOccurrence.max
+                  } : undefined}
                   sx={{ mb: 2 }}
                 />
+                {productDefinition?.deductible.allowedValues ? (
+                  <FormControl fullWidth sx={{ mb: 2 }}>
+                    <InputLabel id={`coverage-deductible-label-${index}`}>Deductible</InputLabel>
+                    <Select
+                      labelId={`coverage-deductible-label-${index}`}
+                      label="Deductible"
+                      value={coverage.deductible}
+                      onChange={e => {
+                        const newCoverages = [...field.value];
+                        newCoverages[index].deductible = Number(e.target.value);
+                        setValue('coverages', newCoverages);
+                      }}
+                    >
+                      {productDefinition.deductible.allowedValues.map(value => (
+                        <MenuItem key={value} value={value}>
+                          {formatCurrency(value)}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                ) : (
+                  <TextField
+                    fullWidth
+                    type="number"
+                    label="Deductible"
+                    value={coverage.deductible}
+                    onChange={e => {
+                      const newCoverages = [...field.value];
+                      newCoverages[index].deductible = Number(e.target.value);
+                      setValue('coverages', newCoverages);
+                    }}
+                    inputProps={productDefinition ? {
+                      min: productDefinition.deductible.min,
+                      max: productDefinition.deductible.max
+                    } : undefined}
+                    sx={{ mb: 2 }}
+                  />
+                )}
               </Paper>
             ))}
             <Button
               variant="outlined"
+              disabled={!productDefinition}
               onClick={() => {
                 const newCoverages = [...(field.value || [])];
                 newCoverages.push({
                   type: '',
-                  limit: POLICY_VALIDATION.MIN_COVERAGE_AMOUNT,
-                  deductible: 0,
+                  limit: productDefinition?.limits.perOccurrence.min ?? POLICY_VALIDATION.MIN_COVERAGE_AMOUNT,
+                  deductible: productDefinition?.deductible.allowedValues?.[0] ?? productDefinition?.deductible.min ?? 0,
                   premium: 0
                 });
                 setValue('coverages', newCoverages);
@@ -247,6 +389,91 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
     </Box>
   );
 
+  // Render a single eligibility question by its answer type
+  const renderEligibilityQuestion = (question: IEligibilityQuestion) => {
+    const answer = watchedValues.eligibilityAnswers?.[question.id];
+
+    switch (question.answerType) {
+      case EligibilityAnswerType.BOOLEAN:
+        return (
+          <RadioGroup
+            row
+            aria-labelledby={`eligibility-${question.id}`}
+            value={answer === undefined ? '' : String(answer)}
+            onChange={e => setEligibilityAnswer(question.id, e.target.value === 'true')}
+          >
+            <FormControlLabel value="true" control={<Radio />} label="Yes" />
+            <FormControlLabel value="false" control={<Radio />} label="No" />
+          </RadioGroup>
+        );
+      case EligibilityAnswerType.NUMBER:
+        return (
+          <TextField
+            type="number"
+            size="small"
+            value={answer ?? ''}
+            onChange={e => setEligibilityAnswer(question.id, e.target.value === '' ? '' : Number(e.target.value))}
+            inputProps={{ 'aria-labelledby': `eligibility-${question.id}` }}
+          />
+        );
+      case EligibilityAnswerType.SELECT:
+        return (
+          <Select
+            size="small"
+            value={answer ?? ''}
+            onChange={e => setEligibilityAnswer(question.id, e.target.value as string)}
+            inputProps={{ 'aria-labelledby': `eligibility-${question.id}` }}
+            sx={{ minWidth: 240 }}
+          >
+            {question.options?.map(option => (
+              <MenuItem key={option} value={option}>
+                {option.replace(/_/g, ' ')}
+              </MenuItem>
+            ))}
+          </Select>
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Render eligibility questions for the underwriting review step
+  const renderEligibility = () => (
+    <Box sx={{ p: 2 }}>
+      {!productDefinition ? (
+        <CircularProgress size={24} aria-label="Loading eligibility questions" />
+      ) : (
+        productDefinition.eligibilityQuestions.map(question => (
+          <FormControl key={question.id} fullWidth sx={{ mb: 3 }} required={question.required}>
+            <FormLabel id={`eligibility-${question.id}`} sx={{ mb: 1 }}>
+              {question.text}
+            </FormLabel>
+            {renderEligibilityQuestion(question)}
+          </FormControl>
+        ))
+      )}
+    </Box>
+  );
+
+  // Render the documents the product requires before binding
+  const renderDocuments = () => (
+    <Box sx={{ p: 2 }}>
+      <Typography variant="subtitle1" gutterBottom>
+        Required Documents
+      </Typography>
+      <Typography variant="body2" color="textSecondary">
+        These documents must be on file before the policy can be bound.
+      </Typography>
+      <List dense aria-label="Required documents">
+        {productDefinition?.requiredDocuments.map(document => (
+          <ListItem key={document}>
+            <ListItemText primary={document.replace(/_/g, ' ')} />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+
   return (
     <Box sx={{ width: '100%', maxWidth: 800, mx: 'auto' }}>
       <Stepper activeStep={activeStep} sx={{ mb: 4 }}>
@@ -276,6 +503,13 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
         </Alert>
       )}
 
+      {/* Product Definition Status */}
+      {productError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {productError}
+        </Alert>
+      )}
+
       {/* OneShield Status */}
       {oneShieldStatus.isValidating && (
         <Alert severity="info" sx={{ mb: 2 }}>
@@ -292,7 +526,8 @@ const PolicyForm: React.FC<PolicyFormProps> = ({
       <form onSubmit={handleSubmit(handleFormSubmit)}>
         {activeStep === 0 && renderBasicInfo()}
         {activeStep === 1 && renderCoverages()}
-        {/* Additional steps rendered similarly */}
+        {activeStep === 2 && renderEligibility()}
+        {activeStep === 3 && renderDocuments()}
 
         {/* Navigation */}
         <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 4 }}>
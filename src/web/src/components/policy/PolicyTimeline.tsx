@@ -49,6 +49,16 @@ const getEventDotColor = (eventType: string, importance: EventImportance): strin
       [EventImportance.HIGH]: 'success',
       [EventImportance.MEDIUM]: 'success',
       [EventImportance.LOW]: 'success'
+    },
+    cancellation: {
+      [EventImportance.HIGH]: 'error',
+      [EventImportance.MEDIUM]: 'error',
+      [EventImportance.LOW]: 'error'
+    },
+    reinstatement: {
+      [EventImportance.HIGH]: 'success',
+      [EventImportance.MEDIUM]: 'success',
+      [EventImportance.LOW]: 'success'
     }
   };
 
@@ -102,6 +112,39 @@ const generateTimelineEvents = (
     });
   });
 
+  // Add cancellation event with return premium details
+  if (policy.cancellationInfo) {
+    const cancellation = policy.cancellationInfo;
+    events.push({
+      id: `cancellation-${policy.id}`,
+      date: new Date(cancellation.effectiveDate),
+      type: 'cancellation',
+      description: `Cancelled: ${cancellation.reason.replace(/_/g, ' ')} (${cancellation.method.replace(/_/g, ' ')})`,
+      importance: EventImportance.HIGH,
+      metadata: {
+        returnPremium: cancellation.returnPremium,
+        refundStatus: cancellation.refundStatus
+      }
+    });
+  }
+
+  // Add reinstatement event with lapse details
+  if (policy.reinstatementInfo) {
+    const reinstatement = policy.reinstatementInfo;
+    events.push({
+      id: `reinstatement-${policy.id}`,
+      date: new Date(reinstatement.reinstatementDate),
+      type: 'reinstatement',
+      description: reinstatement.lapseDays > 0
+        ? `Reinstated with ${reinstatement.lapseDays}-day lapse`
+        : 'Reinstated without lapse',
+      importance: EventImportance.HIGH,
+      metadata: {
+        premiumChange: reinstatement.premiumChange
+      }
+    });
+  }
+
   // Apply date range filter if specified
   let filteredEvents = events;
   if (dateRange) {
@@ -180,6 +223,12 @@ const PolicyTimeline: React.FC<PolicyTimelineProps> = ({
                   Premium Change: ${event.metadata.premiumChange.toLocaleString()}
                 </Typography>
               )}
+              {event.type === 'cancellation' && (
+                <Typography variant="body2" color="textSecondary" sx={{ mt: 0.5 }}>
+                  Return Premium: ${Number(event.metadata?.returnPremium).toLocaleString()}
+                  {' '}({String(event.metadata?.refundStatus).replace(/_/g, ' ')})
+                </Typography>
+              )}
             </TimelineContent>
           </TimelineItem>
         ))}
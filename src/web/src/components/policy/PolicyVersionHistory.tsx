@@ -0,0 +1,118 @@
+import React from 'react';
+import {
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { ExpandMore } from '@mui/icons-material';
+import { IPolicyVersionHistoryEntry } from '../../types/policy.types';
+import { formatDate } from '../../utils/date.utils';
+
+// Props interface for the PolicyVersionHistory component
+interface PolicyVersionHistoryProps {
+  versions: IPolicyVersionHistoryEntry[];
+  className?: string;
+}
+
+// Formats a changed value for display in the diff table
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '—';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * PolicyVersionHistory Component
+ * Lists point-in-time policy versions, newest first, with field-level changes from the prior version
+ */
+const PolicyVersionHistory: React.FC<PolicyVersionHistoryProps> = ({
+  versions,
+  className
+}) => {
+  if (versions.length === 0) {
+    return (
+      <Typography variant="body2" color="textSecondary">
+        No versions have been recorded for this policy.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box className={className} role="region" aria-label="Policy Version History">
+      {[...versions].reverse().map(version => (
+        <Accordion key={version.id} disableGutters>
+          <AccordionSummary
+            expandIcon={<ExpandMore />}
+            aria-controls={`version-${version.versionNumber}-content`}
+            id={`version-${version.versionNumber}-header`}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+              <Typography variant="subtitle1">
+                Version {version.versionNumber}
+              </Typography>
+              <Chip
+                label={version.transactionType.replace(/_/g, ' ')}
+                size="small"
+                color="primary"
+                variant="outlined"
+              />
+              <Typography variant="body2" color="textSecondary">
+                {formatDate(new Date(version.effectiveFrom))}
+                {' – '}
+                {version.effectiveTo ? formatDate(new Date(version.effectiveTo)) : 'Current'}
+              </Typography>
+              {version.supersededAt && (
+                <Chip label="Superseded" size="small" color="warning" />
+              )}
+            </Box>
+          </AccordionSummary>
+          <AccordionDetails id={`version-${version.versionNumber}-content`}>
+            {version.changes.length === 0 ? (
+              <Typography variant="body2" color="textSecondary">
+                No field changes from the prior version.
+              </Typography>
+            ) : (
+              <Table size="small" aria-label={`Changes in version ${version.versionNumber}`}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Field</TableCell>
+                    <TableCell>Before</TableCell>
+                    <TableCell>After</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {version.changes.map(change => (
+                    <TableRow key={change.field}>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{change.field}</TableCell>
+                      <TableCell>{formatValue(change.from)}</TableCell>
+                      <TableCell>{formatValue(change.to)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {version.createdBy && (
+              <Typography variant="caption" color="textSecondary" sx={{ display: 'block', mt: 1 }}>
+                Recorded by {version.createdBy} on {formatDate(new Date(version.createdAt))}
+              </Typography>
+            )}
+          </AccordionDetails>
+        </Accordion>
+      ))}
+    </Box>
+  );
+};
+
+export default PolicyVersionHistory;
@@ -0,0 +1,181 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  useTheme
+} from '@mui/material';
+import { IPolicyQuote, QuoteStatus } from '../../types/policy.types';
+import { formatCurrency } from '../../utils/format.utils';
+import { formatDate } from '../../utils/date.utils';
+
+// Props interface for the QuoteComparison component
+interface QuoteComparisonProps {
+  quotes: IPolicyQuote[];
+  onBind?: (quote: IPolicyQuote) => void;
+  bindingQuoteId?: string | null;
+  className?: string;
+}
+
+// A compared attribute: one display value per quote option
+interface ComparisonRow {
+  label: string;
+  values: string[];
+}
+
+// Chip colors by quote status
+const STATUS_COLORS: Record<QuoteStatus, 'success' | 'primary' | 'default' | 'warning'> = {
+  [QuoteStatus.ACTIVE]: 'success',
+  [QuoteStatus.BOUND]: 'primary',
+  [QuoteStatus.SUPERSEDED]: 'default',
+  [QuoteStatus.EXPIRED]: 'warning'
+};
+
+/**
+ * Builds comparison rows across options: premium, expiry, then limits and
+ * deductible for every coverage type offered in any option
+ */
+const buildComparisonRows = (quotes: IPolicyQuote[]): ComparisonRow[] => {
+  const coverageTypes = Array.from(
+    new Set(quotes.flatMap(quote => quote.coverages.map(coverage => coverage.type)))
+  );
+
+  const rows: ComparisonRow[] = [
+    { label: 'Premium', values: quotes.map(quote => formatCurrency(quote.premium)) },
+    { label: 'Quote Expires', values: quotes.map(quote => formatDate(new Date(quote.expirationDate))) }
+  ];
+
+  coverageTypes.forEach(type => {
+    const coverageFor = (quote: IPolicyQuote) => quote.coverages.find(coverage => coverage.type === type);
+
+    rows.push(
+      {
+        label: `${type} Limits`,
+        values: quotes.map(quote => {
+          const coverage = coverageFor(quote);
+          return coverage
+            ? `${formatCurrency(coverage.limits.perOccurrence)} / ${formatCurrency(coverage.limits.aggregate)}`
+            : 'Not offered';
+        })
+      },
+      {
+        label: `${type} Deductible`,
+        values: quotes.map(quote => {
+          const coverage = coverageFor(quote);
+          return coverage ? formatCurrency(coverage.deductible) : '—';
+        })
+      }
+    );
+  });
+
+  return rows;
+};
+
+/**
+ * QuoteComparison Component
+ * Shows quote options side by side, highlighting the attributes that differ between them
+ */
+const QuoteComparison: React.FC<QuoteComparisonProps> = ({
+  quotes,
+  onBind,
+  bindingQuoteId,
+  className
+}) => {
+  const theme = useTheme();
+
+  const rows = useMemo(() => buildComparisonRows(quotes), [quotes]);
+
+  const lowestPremium = useMemo(() => {
+    const active = quotes.filter(quote => quote.status === QuoteStatus.ACTIVE);
+    return active.length > 1 ? Math.min(...active.map(quote => quote.premium)) : null;
+  }, [quotes]);
+
+  if (quotes.length === 0) {
+    return (
+      <Typography variant="body2" color="textSecondary">
+        No quote options have been offered on this submission.
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer className={className} role="region" aria-label="Quote Option Comparison">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            {quotes.map(quote => (
+              <TableCell key={quote.id} align="center">
+                <Typography variant="subtitle2">
+                  Option {quote.optionNumber}: {quote.label}
+                </Typography>
+                <Box sx={{ display: 'flex', justifyContent: 'center', gap: 1, mt: 0.5 }}>
+                  <Chip label={quote.status} size="small" color={STATUS_COLORS[quote.status]} />
+                  {quote.status === QuoteStatus.ACTIVE && quote.premium === lowestPremium && (
+                    <Chip label="Lowest premium" size="small" variant="outlined" color="success" />
+                  )}
+                </Box>
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => {
+            const differs = new Set(row.values).size > 1;
+
+            return (
+              <TableRow
+                key={row.label}
+                sx={differs ? { backgroundColor: theme.palette.action.hover } : undefined}
+              >
+                <TableCell component="th" scope="row">
+                  <Typography variant="body2" fontWeight={differs ? 600 : 400}>
+                    {row.label}
+                  </Typography>
+                </TableCell>
+                {row.values.map((value, index) => (
+                  <TableCell
+                    key={quotes[index].id}
+                    align="center"
+                    sx={differs ? { fontWeight: 600, color: theme.palette.primary.main } : undefined}
+                  >
+                    {value}
+                  </TableCell>
+                ))}
+              </TableRow>
+            );
+          })}
+          {onBind && (
+            <TableRow>
+              <TableCell />
+              {quotes.map(quote => (
+                <TableCell key={quote.id} align="center">
+                  {quote.status === QuoteStatus.ACTIVE && (
+                    <Button
+                      variant="contained"
+                      size="small"
+                      onClick={() => onBind(quote)}
+                      disabled={Boolean(bindingQuoteId)}
+                      aria-label={`Bind option ${quote.optionNumber}`}
+                    >
+                      {bindingQuoteId === quote.id ? 'Binding...' : 'Bind'}
+                    </Button>
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default QuoteComparison;
@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import { formatDate } from '@mui/x-data-grid';
+import {
+  ISubjectivity,
+  ISubjectivityCancellationNotice,
+  SubjectivityStatus
+} from '../../types/policy.types';
+
+// Props interface for the SubjectivityList component
+interface SubjectivityListProps {
+  subjectivities: ISubjectivity[];
+  cancellationNotice?: ISubjectivityCancellationNotice;
+}
+
+// Chip color for each subjectivity status
+const STATUS_COLORS: Record<SubjectivityStatus, 'warning' | 'success' | 'default'> = {
+  [SubjectivityStatus.OPEN]: 'warning',
+  [SubjectivityStatus.SATISFIED]: 'success',
+  [SubjectivityStatus.WAIVED]: 'default'
+};
+
+const isOverdue = (subjectivity: ISubjectivity): boolean =>
+  subjectivity.status === SubjectivityStatus.OPEN &&
+  !!subjectivity.dueDate &&
+  new Date(subjectivity.dueDate) < new Date();
+
+// Describes when a subjectivity is due
+const dueLabel = (subjectivity: ISubjectivity): string => {
+  if (subjectivity.timing === 'PRE_BIND') return 'Before binding';
+  if (subjectivity.dueDate) return `Due ${formatDate(new Date(subjectivity.dueDate))}`;
+  return `Due ${subjectivity.dueDays} days after binding`;
+};
+
+/**
+ * SubjectivityList Component
+ * Lists the subjectivities of an underwriting approval with when each is due and
+ * whether it has been met. Open pre-bind subjectivities hold up binding; overdue
+ * post-bind ones are flagged along with any cancellation notice they led to.
+ */
+const SubjectivityList: React.FC<SubjectivityListProps> = ({ subjectivities, cancellationNotice }) => {
+  if (subjectivities.length === 0) {
+    return (
+      <Typography color="textSecondary">No subjectivities</Typography>
+    );
+  }
+
+  return (
+    <Box>
+      {cancellationNotice && !cancellationNotice.rescindedAt && (
+        <Alert severity="error" sx={{ mb: 1 }}>
+          Cancellation notice issued {formatDate(new Date(cancellationNotice.noticeDate))}, effective{' '}
+          {formatDate(new Date(cancellationNotice.effectiveDate))}
+        </Alert>
+      )}
+      <List dense disablePadding>
+        {subjectivities.map(subjectivity => (
+          <ListItem key={subjectivity.id} disableGutters>
+            <ListItemText
+              primary={subjectivity.description}
+              secondary={[
+                dueLabel(subjectivity),
+                subjectivity.documentType && `Requires ${subjectivity.documentType}`,
+                subjectivity.notes
+              ].filter(Boolean).join(' · ')}
+            />
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {isOverdue(subjectivity) && <Chip size="small" color="error" label="Overdue" />}
+              <Chip
+                size="small"
+                color={STATUS_COLORS[subjectivity.status]}
+                label={subjectivity.status}
+              />
+            </Box>
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default SubjectivityList;
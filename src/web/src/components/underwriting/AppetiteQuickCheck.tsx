@@ -0,0 +1,200 @@
+import React, { useState, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Grid,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Typography
+} from '@mui/material';
+import { useAppetiteCheck } from '../../hooks/useUnderwriting';
+import { POLICY_TYPE_PRODUCT_CODES } from '../../constants/policy.constants';
+import { AppetiteOutcome } from '../../types/underwriting.types';
+
+// Props interface for the AppetiteQuickCheck component
+interface AppetiteQuickCheckProps {
+  className?: string;
+}
+
+// Chip color and label for each appetite outcome
+const OUTCOME_DISPLAY: Record<AppetiteOutcome, { color: 'success' | 'warning' | 'error'; label: string }> = {
+  IN_APPETITE: { color: 'success', label: 'In appetite' },
+  REFER: { color: 'warning', label: 'Refer to underwriter' },
+  OUT_OF_APPETITE: { color: 'error', label: 'Out of appetite' }
+};
+
+const EMPTY_FORM = {
+  policyType: '',
+  classCode: '',
+  state: '',
+  revenue: '',
+  perOccurrence: '',
+  aggregate: ''
+};
+
+/**
+ * AppetiteQuickCheck Component
+ * Screens a risk by class code, state, revenue and requested limits before a full
+ * submission is prepared, showing whether it is in appetite, would be referred or
+ * is declined, and why
+ */
+const AppetiteQuickCheck: React.FC<AppetiteQuickCheckProps> = ({ className }) => {
+  const { check, result, isChecking, error, reset } = useAppetiteCheck();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const handleChange = useCallback((field: keyof typeof EMPTY_FORM) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setForm(current => ({ ...current, [field]: event.target.value }));
+      reset();
+    }, [reset]);
+
+  const canCheck = Object.values(form).every(value => value.trim() !== '') &&
+    Number(form.aggregate) >= Number(form.perOccurrence);
+
+  const handleCheck = useCallback(() => {
+    check({
+      policyType: POLICY_TYPE_PRODUCT_CODES[form.policyType],
+      classCode: form.classCode.trim(),
+      state: form.state.trim().toUpperCase(),
+      revenue: Number(form.revenue),
+      requestedLimits: {
+        perOccurrence: Number(form.perOccurrence),
+        aggregate: Number(form.aggregate)
+      }
+    });
+  }, [check, form]);
+
+  return (
+    <Card className={className}>
+      <CardContent>
+        <Typography variant="h6" component="h2" gutterBottom>
+          Appetite Quick Check
+        </Typography>
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={4}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Policy type"
+              value={form.policyType}
+              onChange={handleChange('policyType')}
+            >
+              {Object.keys(POLICY_TYPE_PRODUCT_CODES).map(policyType => (
+                <MenuItem key={policyType} value={policyType}>
+                  {policyType.replace(/_/g, ' ')}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={6} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Class code"
+              value={form.classCode}
+              onChange={handleChange('classCode')}
+              inputProps={{ inputMode: 'numeric', maxLength: 6 }}
+            />
+          </Grid>
+          <Grid item xs={6} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="State"
+              value={form.state}
+              onChange={handleChange('state')}
+              inputProps={{ maxLength: 2 }}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Annual revenue"
+              value={form.revenue}
+              onChange={handleChange('revenue')}
+            />
+          </Grid>
+          <Grid item xs={6} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Per occurrence limit"
+              value={form.perOccurrence}
+              onChange={handleChange('perOccurrence')}
+            />
+          </Grid>
+          <Grid item xs={6} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Aggregate limit"
+              value={form.aggregate}
+              onChange={handleChange('aggregate')}
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+          <Button variant="contained" onClick={handleCheck} disabled={!canCheck || isChecking}>
+            {isChecking ? 'Checking...' : 'Check appetite'}
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error.message}
+          </Alert>
+        )}
+
+        {result && (
+          <Box sx={{ mt: 2 }}>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <Chip
+                color={OUTCOME_DISPLAY[result.outcome].color}
+                label={OUTCOME_DISPLAY[result.outcome].label}
+              />
+              {result.productVersion && (
+                <Typography variant="body2" color="textSecondary">
+                  Product version {result.productVersion}
+                </Typography>
+              )}
+            </Box>
+            {result.reasons.length > 0 && (
+              <List dense>
+                {result.reasons.map((reason, index) => (
+                  <ListItem key={`${reason.code}-${index}`} disableGutters>
+                    <ListItemText
+                      primary={reason.message}
+                      secondary={reason.source === 'RULE' ? 'Underwriting rule' : 'Product appetite'}
+                    />
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color={OUTCOME_DISPLAY[reason.outcome].color}
+                      label={reason.outcome === 'REFER' ? 'Refer' : 'Decline'}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AppetiteQuickCheck;
@@ -27,8 +27,9 @@ import {
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
 import { IRiskAssessmentDisplay, RiskSeverity, IRiskFactorDisplay, IRiskTrend } from '../../types/underwriting.types';
-import { useUnderwriting } from '../../hooks/useUnderwriting';
+import { useUnderwriting, useUnderwritingConfig } from '../../hooks/useUnderwriting';
 import StatusBadge from '../common/StatusBadge';
+import RiskScoreWaterfall from './RiskScoreWaterfall';
 import { RISK_SEVERITY } from '../../constants/underwriting.constants';
 
 // Styled components for enhanced visualization
@@ -69,6 +70,7 @@ const RiskAssessment: React.FC<RiskAssessmentProps> = ({
     error,
     submitForUnderwriting,
   } = useUnderwriting({ policyId });
+  const { getSeverity } = useUnderwritingConfig();
 
   // Handle real-time updates subscription
   useEffect(() => {
@@ -143,6 +145,9 @@ const RiskAssessment: React.FC<RiskAssessmentProps> = ({
     );
   }
 
+  // Band the overall score on the thresholds published by the underwriting engine
+  const severity = getSeverity(riskAssessment.riskScore) ?? riskAssessment.severity;
+
   return (
     <Card sx={{ p: 3 }}>
       {/* Risk Score Overview */}
@@ -154,7 +159,7 @@ const RiskAssessment: React.FC<RiskAssessmentProps> = ({
             size={120}
             thickness={8}
             sx={{
-              color: RISK_SEVERITY[riskAssessment.severity].color,
+              color: RISK_SEVERITY[severity].color,
               position: 'absolute',
             }}
           />
@@ -165,8 +170,8 @@ const RiskAssessment: React.FC<RiskAssessmentProps> = ({
         <Box>
           <StatusBadge
             statusType="underwriting"
-            status={riskAssessment.severity}
-            label={RISK_SEVERITY[riskAssessment.severity].label}
+            status={severity}
+            label={RISK_SEVERITY[severity].label}
           />
           {riskAssessment.trend && (
             <Tooltip title={getTrendIndicator(riskAssessment.trend).label}>
@@ -180,6 +185,9 @@ const RiskAssessment: React.FC<RiskAssessmentProps> = ({
 
       <Divider sx={{ my: 2 }} />
 
+      {/* Factor contributions to the score */}
+      {showDetails && <RiskScoreWaterfall policyId={policyId} />}
+
       {/* Risk Factors List */}
       {showDetails && (
         <List>
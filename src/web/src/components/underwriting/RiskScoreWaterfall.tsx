@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Typography
+} from '@mui/material';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'; // ^2.7.2
+import { useRiskBreakdown } from '../../hooks/useUnderwriting';
+import { RISK_FACTOR_TYPES } from '../../constants/underwriting.constants';
+import { IRiskFactorContribution } from '../../types/underwriting.types';
+
+// Props interface for the RiskScoreWaterfall component
+interface RiskScoreWaterfallProps {
+  policyId: string;
+  height?: number;
+}
+
+// Bar colors for validated factors, defaulted factors and the total
+const BAR_COLORS = {
+  factor: '#0088FE',
+  defaulted: '#FFBB28',
+  total: '#424242'
+} as const;
+
+// Row of the waterfall: an invisible offset bar stacked under the visible points bar
+interface WaterfallRow {
+  type: string;
+  label: string;
+  offset: number;
+  points: number;
+  contribution?: IRiskFactorContribution;
+}
+
+const factorLabel = (type: string): string =>
+  RISK_FACTOR_TYPES[type as keyof typeof RISK_FACTOR_TYPES]?.label || type;
+
+/**
+ * RiskScoreWaterfall Component
+ * Charts how each risk factor's weighted points build up to the risk score. Selecting
+ * a factor's bar shows what drove it and which inputs were missing or defaulted.
+ */
+const RiskScoreWaterfall: React.FC<RiskScoreWaterfallProps> = ({ policyId, height = 280 }) => {
+  const { breakdown, isLoading, isError } = useRiskBreakdown(policyId);
+  const [selectedType, setSelectedType] = useState<string | null>(null);
+
+  const rows = useMemo<WaterfallRow[]>(() => {
+    if (!breakdown) return [];
+    return [
+      ...breakdown.contributions.map(contribution => ({
+        type: contribution.type,
+        label: factorLabel(contribution.type),
+        offset: contribution.runningTotal - contribution.weightedPoints,
+        points: contribution.weightedPoints,
+        contribution
+      })),
+      { type: 'TOTAL', label: 'Risk score', offset: 0, points: breakdown.riskScore }
+    ];
+  }, [breakdown]);
+
+  const selected = breakdown?.contributions.find(contribution => contribution.type === selectedType);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+        <CircularProgress size={24} aria-label="Loading risk breakdown" />
+      </Box>
+    );
+  }
+
+  if (isError || !breakdown) {
+    return (
+      <Alert severity="info" sx={{ mb: 2 }}>
+        Risk score breakdown is unavailable
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle1" component="h3">
+          Score breakdown
+        </Typography>
+        <Typography variant="caption" color="textSecondary">
+          {breakdown.source === 'DECISION' ? 'As decided' : 'Current assessment'}
+        </Typography>
+      </Box>
+
+      {(breakdown.missingFactors.length > 0 || breakdown.missingInputs.length > 0) && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {breakdown.missingFactors.length > 0 &&
+            `Not assessed: ${breakdown.missingFactors.map(factorLabel).join(', ')}. `}
+          {breakdown.missingInputs.length > 0 &&
+            `Missing inputs: ${breakdown.missingInputs.join(', ')}.`}
+        </Alert>
+      )}
+
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart
+          data={rows}
+          margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+          role="img"
+          aria-label="Risk score contribution by factor"
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#E5E5E5" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} />
+          <Tooltip formatter={(value: number) => [value.toFixed(2), 'Points']} />
+          <Bar dataKey="offset" stackId="waterfall" fill="transparent" tooltipType="none" isAnimationActive={false} />
+          <Bar
+            dataKey="points"
+            stackId="waterfall"
+            cursor="pointer"
+            onClick={(row: WaterfallRow) => setSelectedType(row.contribution ? row.type : null)}
+          >
+            {rows.map(row => (
+              <Cell
+                key={row.type}
+                fill={!row.contribution
+                  ? BAR_COLORS.total
+                  : row.contribution.defaulted ? BAR_COLORS.defaulted : BAR_COLORS.factor}
+                stroke={row.type === selectedType ? BAR_COLORS.total : undefined}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      {selected && (
+        <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 1 }}>
+            <Typography variant="subtitle2">{factorLabel(selected.type)}</Typography>
+            <Chip size="small" label={`Score ${selected.score}`} />
+            <Chip size="small" label={`Weight ${Math.round(selected.weight * 100)}%`} />
+            <Chip size="small" label={`${selected.weightedPoints} pts (${selected.share}%)`} />
+            <Chip size="small" label={`Confidence ${Math.round(selected.confidence * 100)}%`} />
+            {selected.defaulted && <Chip size="small" color="warning" label="Defaulted" />}
+          </Box>
+          <List dense disablePadding>
+            {selected.drivers.length === 0 && (
+              <ListItem disableGutters>
+                <ListItemText secondary="No drivers recorded" />
+              </ListItem>
+            )}
+            {selected.drivers.map(driver => (
+              <ListItem key={driver} disableGutters>
+                <ListItemText primary={driver} />
+              </ListItem>
+            ))}
+            {selected.missingInputs.map(input => (
+              <ListItem key={input} disableGutters>
+                <ListItemText primary={`Missing: ${input}`} primaryTypographyProps={{ color: 'warning.main' }} />
+              </ListItem>
+            ))}
+          </List>
+          <Typography variant="caption" color="textSecondary">
+            Source: {selected.dataSource}
+          </Typography>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default RiskScoreWaterfall;
@@ -0,0 +1,256 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { UnderwritingService } from '../../services/underwriting.service';
+import { IRuleSimulationReport, IUnderwritingRule } from '../../types/underwriting.types';
+import { RISK_FACTOR_TYPES } from '../../constants/underwriting.constants';
+import { useUnderwritingConfig } from '../../hooks/useUnderwriting';
+import { formatCurrency } from '../../utils/format.utils';
+
+// Props interface for the RuleSimulationReport component
+interface RuleSimulationReportProps {
+  className?: string;
+}
+
+// Changed decisions listed in the report before truncation
+const MAX_LISTED_CHANGES = 100;
+
+/**
+ * RuleSimulationReport Component
+ * Replays historical underwriting decisions against candidate rules or risk factor
+ * weights and shows which decisions would change, with the premium affected
+ */
+const RuleSimulationReport: React.FC<RuleSimulationReportProps> = ({ className }) => {
+  const underwritingService = useRef(new UnderwritingService());
+  const { config } = useUnderwritingConfig();
+
+  // Weights in effect on the backend, used as the starting candidate
+  const currentWeights = config?.riskFactorWeights;
+
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [rulesJson, setRulesJson] = useState<string>('');
+  const [report, setReport] = useState<IRuleSimulationReport | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (currentWeights) {
+      setWeights(Object.fromEntries(
+        Object.entries(currentWeights).map(([factor, weight]) => [factor, String(weight)])
+      ));
+    }
+  }, [currentWeights]);
+
+  /**
+   * Loads the current rules into the editor as the starting candidate
+   */
+  const handleLoadRules = useCallback(async () => {
+    setError(null);
+    try {
+      const rules = await underwritingService.current.fetchUnderwritingRules();
+      setRulesJson(JSON.stringify(rules.map(({ id, ...rule }) => rule), null, 2));
+    } catch (err) {
+      setError('Failed to load the current rules. Please try again.');
+    }
+  }, []);
+
+  /**
+   * Runs the simulation with the edited weights and, when given, the candidate rules
+   */
+  const handleSimulate = useCallback(async () => {
+    setError(null);
+
+    let rules: IUnderwritingRule[] | undefined;
+    if (rulesJson.trim()) {
+      try {
+        rules = JSON.parse(rulesJson);
+      } catch (err) {
+        setError('Candidate rules must be valid JSON.');
+        return;
+      }
+    }
+
+    const riskFactorWeights = Object.fromEntries(
+      Object.entries(weights).map(([factor, weight]) => [factor, Number(weight)])
+    );
+    const weightsChanged = !!currentWeights && Object.entries(riskFactorWeights)
+      .some(([factor, weight]) => weight !== currentWeights[factor]);
+
+    if (!rules && !weightsChanged) {
+      setError('Change a risk factor weight or enter candidate rules to simulate.');
+      return;
+    }
+
+    setRunning(true);
+    try {
+      setReport(await underwritingService.current.runRuleSimulation({
+        rules,
+        riskFactorWeights: weightsChanged ? riskFactorWeights : undefined
+      }));
+    } catch (err) {
+      setError('Simulation failed. Check the candidate configuration and try again.');
+    } finally {
+      setRunning(false);
+    }
+  }, [rulesJson, weights, currentWeights]);
+
+  const weightTotal = Object.values(weights).reduce((sum, weight) => sum + (Number(weight) || 0), 0);
+
+  return (
+    <Card className={className}>
+      <CardContent>
+        <Typography variant="h6" component="h2" gutterBottom>
+          Rule Impact Simulation
+        </Typography>
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          Replays the latest decision on each policy against candidate risk factor weights
+          and rules before they go live.
+        </Typography>
+
+        <Grid container spacing={2}>
+          {Object.values(RISK_FACTOR_TYPES).map(factor => (
+            <Grid item xs={6} md={3} key={factor.id}>
+              <TextField
+                fullWidth
+                type="number"
+                label={`${factor.label} Weight`}
+                value={weights[factor.id] ?? ''}
+                disabled={!currentWeights}
+                onChange={(e) => setWeights(prev => ({ ...prev, [factor.id]: e.target.value }))}
+                inputProps={{ min: 0, max: 1, step: 0.05 }}
+              />
+            </Grid>
+          ))}
+          {currentWeights && Math.abs(weightTotal - 1) >= 0.001 && (
+            <Grid item xs={12}>
+              <Alert severity="warning">
+                Weights total {weightTotal.toFixed(2)}; they must sum to 1.0.
+              </Alert>
+            </Grid>
+          )}
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={4}
+              maxRows={16}
+              label="Candidate Rules (JSON)"
+              value={rulesJson}
+              onChange={(e) => setRulesJson(e.target.value)}
+              helperText="Leave empty to replay against the current rules"
+              inputProps={{ style: { fontFamily: 'monospace' } }}
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+          <Button variant="outlined" onClick={handleLoadRules} disabled={running}>
+            Load Current Rules
+          </Button>
+          <Button variant="contained" onClick={handleSimulate} disabled={running}>
+            {running ? 'Simulating...' : 'Run Simulation'}
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }} role="alert">
+            {error}
+          </Alert>
+        )}
+
+        {report && (
+          <Box sx={{ mt: 3 }} role="region" aria-label="Simulation Diff Report">
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+              <Chip label={`${report.decisionsEvaluated} decisions replayed`} />
+              <Chip
+                label={`${report.decisionsChanged} would change`}
+                color={report.decisionsChanged > 0 ? 'warning' : 'success'}
+              />
+              <Chip label={`${formatCurrency(report.premiumAffected)} premium affected`} variant="outlined" />
+            </Box>
+
+            {report.transitions.length > 0 && (
+              <TableContainer sx={{ mb: 3 }}>
+                <Table size="small" aria-label="Decision changes by status">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Current Decision</TableCell>
+                      <TableCell>Simulated Decision</TableCell>
+                      <TableCell align="right">Policies</TableCell>
+                      <TableCell align="right">Premium</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.transitions.map(transition => (
+                      <TableRow key={`${transition.from}-${transition.to}`}>
+                        <TableCell>{transition.from.replace(/_/g, ' ')}</TableCell>
+                        <TableCell>{transition.to.replace(/_/g, ' ')}</TableCell>
+                        <TableCell align="right">{transition.count}</TableCell>
+                        <TableCell align="right">{formatCurrency(transition.premium)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {report.changes.length > 0 && (
+              <TableContainer>
+                <Table size="small" aria-label="Affected policies">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Policy</TableCell>
+                      <TableCell>Type</TableCell>
+                      <TableCell align="right">Premium</TableCell>
+                      <TableCell align="right">Risk Score</TableCell>
+                      <TableCell>Decision</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.changes.slice(0, MAX_LISTED_CHANGES).map(change => (
+                      <TableRow key={change.policyId}>
+                        <TableCell>{change.policyNumber || change.policyId}</TableCell>
+                        <TableCell>{change.policyType.replace(/_/g, ' ')}</TableCell>
+                        <TableCell align="right">{formatCurrency(change.premium)}</TableCell>
+                        <TableCell align="right">
+                          {change.originalRiskScore === change.simulatedRiskScore
+                            ? change.originalRiskScore
+                            : `${change.originalRiskScore} → ${change.simulatedRiskScore}`}
+                        </TableCell>
+                        <TableCell>
+                          {change.originalStatus.replace(/_/g, ' ')} → {change.simulatedStatus.replace(/_/g, ' ')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {report.changes.length > MAX_LISTED_CHANGES && (
+                  <Typography variant="caption" color="textSecondary">
+                    Showing the {MAX_LISTED_CHANGES} largest of {report.changes.length} affected policies by premium.
+                  </Typography>
+                )}
+              </TableContainer>
+            )}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RuleSimulationReport;
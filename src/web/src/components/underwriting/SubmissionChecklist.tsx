@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import { CheckCircle, RadioButtonUnchecked } from '@mui/icons-material';
+import { useSubmissionChecklist } from '../../hooks/useUnderwriting';
+
+// Props interface for the SubmissionChecklist component
+interface SubmissionChecklistProps {
+  policyId: string;
+}
+
+// Turns a document type or field path into a readable label
+const itemLabel = (key: string): string =>
+  (key.split('.').pop() || key)
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/^./, first => first.toUpperCase());
+
+/**
+ * SubmissionChecklist Component
+ * Lists the documents and fields a submission's product requires and which have
+ * been received. Submissions waiting on the broker show the reminders sent so far
+ * and can be re-checked once items arrive.
+ */
+const SubmissionChecklist: React.FC<SubmissionChecklistProps> = ({ policyId }) => {
+  const { checklist, isLoading, isError, refresh, isRefreshing } = useSubmissionChecklist(policyId);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+        <CircularProgress size={24} aria-label="Loading submission checklist" />
+      </Box>
+    );
+  }
+
+  if (isError || !checklist) {
+    return (
+      <Alert severity="info" sx={{ mb: 2 }}>
+        No checklist yet; one is created when the submission is decided
+      </Alert>
+    );
+  }
+
+  const received = checklist.items.filter(item => item.received).length;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <Typography variant="subtitle1" component="h3">
+            {received} of {checklist.items.length} received
+          </Typography>
+          {checklist.pendingSince && (
+            <Chip
+              size="small"
+              color="warning"
+              label={`Waiting on broker · ${checklist.remindersSent} reminder${checklist.remindersSent === 1 ? '' : 's'} sent`}
+            />
+          )}
+        </Box>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => refresh()}
+          disabled={isRefreshing}
+        >
+          Re-check
+        </Button>
+      </Box>
+
+      <List dense>
+        {checklist.items.map(item => (
+          <ListItem key={`${item.kind}-${item.key}`} disableGutters>
+            <ListItemIcon>
+              {item.received
+                ? <CheckCircle color="success" aria-label="Received" />
+                : <RadioButtonUnchecked color="warning" aria-label="Missing" />}
+            </ListItemIcon>
+            <ListItemText
+              primary={itemLabel(item.key)}
+              secondary={item.kind === 'DOCUMENT' ? 'Document' : item.key}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default SubmissionChecklist;
@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { useUnderwritingQueueDepth } from '../../hooks/useUnderwriting';
+
+// Props interface for the UnderwriterQueueDepth component
+interface UnderwriterQueueDepthProps {
+  refreshInterval?: number;
+  className?: string;
+}
+
+/**
+ * UnderwriterQueueDepth Component
+ * Shows how many in-review and referred submissions each underwriter holds,
+ * who is out of office, and how many submissions are waiting for an assignee
+ */
+const UnderwriterQueueDepth: React.FC<UnderwriterQueueDepthProps> = ({
+  refreshInterval = 30000,
+  className
+}) => {
+  const { queueDepth, isLoading, isError } = useUnderwritingQueueDepth(refreshInterval);
+
+  return (
+    <Card className={className}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" component="h2">
+            Underwriter Workload
+          </Typography>
+          {queueDepth && (
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Chip size="small" variant="outlined" label={queueDepth.strategy.replace(/_/g, ' ')} />
+              <Chip
+                size="small"
+                label={`${queueDepth.unassigned} unassigned`}
+                color={queueDepth.unassigned > 0 ? 'warning' : 'default'}
+              />
+            </Box>
+          )}
+        </Box>
+
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+            <CircularProgress size={24} aria-label="Loading underwriter workload" />
+          </Box>
+        )}
+
+        {isError && (
+          <Typography color="error" role="alert">
+            Underwriter workload is unavailable.
+          </Typography>
+        )}
+
+        {queueDepth && (
+          <TableContainer>
+            <Table size="small" aria-label="Queue depth by underwriter">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Underwriter</TableCell>
+                  <TableCell align="right">In Review</TableCell>
+                  <TableCell align="right">Referred</TableCell>
+                  <TableCell align="right">Total</TableCell>
+                  <TableCell>Availability</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {queueDepth.underwriters.map(underwriter => (
+                  <TableRow key={underwriter.userId}>
+                    <TableCell>{underwriter.name}</TableCell>
+                    <TableCell align="right">{underwriter.inReview}</TableCell>
+                    <TableCell align="right">{underwriter.referred}</TableCell>
+                    <TableCell align="right">{underwriter.total}</TableCell>
+                    <TableCell>
+                      {underwriter.outOfOfficeUntil ? (
+                        <Chip
+                          size="small"
+                          color="default"
+                          label={`Out until ${new Date(underwriter.outOfOfficeUntil).toLocaleDateString()}`}
+                        />
+                      ) : (
+                        <Chip size="small" color="success" label="Available" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnderwriterQueueDepth;
@@ -16,8 +16,13 @@ import {
 import { useTheme } from '@mui/material/styles';
 import { DataGrid, GridColDef, GridRenderCellParams } from '@mui/x-data-grid';
 import RiskScoreWidget from '../analytics/RiskScoreWidget';
-import { useUnderwriting } from '../../hooks/useUnderwriting';
+import { useUnderwriting, useUnderwritingConfig } from '../../hooks/useUnderwriting';
 import StatusBadge from '../common/StatusBadge';
+import AppetiteQuickCheck from './AppetiteQuickCheck';
+import RuleSimulationReport from './RuleSimulationReport';
+import UnderwriterQueueDepth from './UnderwriterQueueDepth';
+import UnderwritingSlaSummary from './UnderwritingSlaSummary';
+import { useAuth } from '../../hooks/useAuth';
 import { 
   UNDERWRITING_STATUS,
   RISK_SEVERITY,
@@ -41,6 +46,8 @@ const initialFilters = {
  */
 const UnderwritingDashboard: React.FC = React.memo(() => {
   const theme = useTheme();
+  const { user } = useAuth();
+  const canManageRules = user?.role === 'MGA_ADMIN' || user?.role === 'UNDERWRITING_MANAGER';
   const [selectedRows, setSelectedRows] = useState<string[]>([]);
   const [confirmDialog, setConfirmDialog] = useState<{
     open: boolean;
@@ -66,6 +73,9 @@ const UnderwritingDashboard: React.FC = React.memo(() => {
     pagination
   } = useUnderwriting(initialFilters);
 
+  // Risk bands come from the thresholds published by the underwriting engine
+  const { getSeverity } = useUnderwritingConfig();
+
   // Generate queue columns with enhanced functionality
   const columns: GridColDef[] = useMemo(() => [
     {
@@ -107,19 +117,24 @@ const UnderwritingDashboard: React.FC = React.memo(() => {
       headerName: UNDERWRITING_QUEUE_COLUMNS.RISK_SCORE.label,
       width: UNDERWRITING_QUEUE_COLUMNS.RISK_SCORE.width,
       type: 'number',
-      renderCell: (params: GridRenderCellParams) => (
-        <Box
-          sx={{
-            color: params.value >= RISK_SEVERITY.HIGH.threshold
-              ? theme.palette.error.main
-              : params.value >= RISK_SEVERITY.MEDIUM.threshold
-                ? theme.palette.warning.main
-                : theme.palette.success.main
-          }}
-        >
-          {params.value}
-        </Box>
-      )
+      renderCell: (params: GridRenderCellParams) => {
+        const severity = getSeverity(params.value);
+        return (
+          <Box
+            sx={{
+              color: severity === RiskSeverity.HIGH
+                ? theme.palette.error.main
+                : severity === RiskSeverity.MEDIUM
+                  ? theme.palette.warning.main
+                  : severity === RiskSeverity.LOW
+                    ? theme.palette.success.main
+                    : theme.palette.text.primary
+            }}
+          >
+            {params.value}
+          </Box>
+        );
+      }
     },
     {
       field: 'severity',
@@ -172,7 +187,7 @@ const UnderwritingDashboard: React.FC = React.memo(() => {
         </Box>
       )
     }
-  ], [theme]);
+  ], [theme, getSeverity]);
 
   // Handle individual and bulk actions
   const handleAction = useCallback((policyId: string, action: string) => {
@@ -217,6 +232,21 @@ const UnderwritingDashboard: React.FC = React.memo(() => {
         />
       </Grid>
 
+      {/* Workload Section */}
+      <Grid item xs={12} md={8}>
+        <UnderwriterQueueDepth refreshInterval={30000} />
+      </Grid>
+
+      {/* Turnaround SLA Section */}
+      <Grid item xs={12}>
+        <UnderwritingSlaSummary />
+      </Grid>
+
+      {/* Appetite Screening Section */}
+      <Grid item xs={12}>
+        <AppetiteQuickCheck />
+      </Grid>
+
       {/* Queue Section */}
       <Grid item xs={12}>
         <Card>
@@ -275,6 +305,13 @@ const UnderwritingDashboard: React.FC = React.memo(() => {
         </Card>
       </Grid>
 
+      {/* Rule Simulation Section */}
+      {canManageRules && (
+        <Grid item xs={12}>
+          <RuleSimulationReport />
+        </Grid>
+      )}
+
       {/* Confirmation Dialog */}
       <Dialog
         open={confirmDialog.open}
@@ -9,7 +9,7 @@ import {
   Alert
 } from '@mui/material'; // @mui/material@5.14.x
 import DataGrid from '../common/DataGrid';
-import { useUnderwriting } from '../../hooks/useUnderwriting';
+import { useUnderwriting, useUnderwritingConfig } from '../../hooks/useUnderwriting';
 import {
   IUnderwritingQueueItem,
   UnderwritingStatus,
@@ -49,6 +49,13 @@ const UnderwritingQueue: React.FC<UnderwritingQueueProps> = ({
     realTimeUpdates
   } = useUnderwriting(filters);
 
+  // Severity bands follow the thresholds published by the underwriting engine
+  const { getSeverity } = useUnderwritingConfig();
+  const severityOf = useCallback(
+    (item: IUnderwritingQueueItem): RiskSeverity => getSeverity(item.riskScore) ?? item.severity,
+    [getSeverity]
+  );
+
   // Local state for selected policies and error handling
   const [selectedPolicies, setSelectedPolicies] = useState<string[]>([]);
   const [retryCount, setRetryCount] = useState(0);
@@ -109,7 +116,7 @@ const UnderwritingQueue: React.FC<UnderwritingQueueProps> = ({
             value={params.row.riskScore}
             size={24}
             sx={{
-              color: RISK_SEVERITY[params.row.severity].color,
+              color: RISK_SEVERITY[severityOf(params.row)].color,
               '& .MuiCircularProgress-circle': {
                 strokeLinecap: 'round',
               },
@@ -123,23 +130,26 @@ const UnderwritingQueue: React.FC<UnderwritingQueueProps> = ({
     },
     {
       ...UNDERWRITING_QUEUE_COLUMNS.SEVERITY,
-      renderCell: (params: { row: IUnderwritingQueueItem }) => (
-        <Tooltip title={RISK_SEVERITY[params.row.severity].label}>
-          <Chip
-            label={params.row.severity}
-            size="small"
-            sx={{
-              backgroundColor: RISK_SEVERITY[params.row.severity].color,
-              color: '#fff'
-            }}
-          />
-        </Tooltip>
-      )
+      renderCell: (params: { row: IUnderwritingQueueItem }) => {
+        const severity = severityOf(params.row);
+        return (
+          <Tooltip title={RISK_SEVERITY[severity].label}>
+            <Chip
+              label={severity}
+              size="small"
+              sx={{
+                backgroundColor: RISK_SEVERITY[severity].color,
+                color: '#fff'
+              }}
+            />
+          </Tooltip>
+        );
+      }
     },
     UNDERWRITING_QUEUE_COLUMNS.POLICY_TYPE,
     UNDERWRITING_QUEUE_COLUMNS.SUBMISSION_DATE,
     UNDERWRITING_QUEUE_COLUMNS.ASSIGNED_TO,
-  ], [onPolicySelect]);
+  ], [onPolicySelect, severityOf]);
 
   // Handle filter changes
   const handleFilterChange = useCallback((field: string, value: any) => {
@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Grid,
+  Typography
+} from '@mui/material';
+import { useUnderwritingMetrics } from '../../hooks/useUnderwriting';
+import { SlaStage } from '../../types/underwriting.types';
+
+// Props interface for the UnderwritingSlaSummary component
+interface UnderwritingSlaSummaryProps {
+  refreshInterval?: number;
+  className?: string;
+}
+
+// Display labels for the timed underwriting stages
+const STAGE_LABELS: Record<SlaStage, string> = {
+  INTAKE: 'Intake',
+  REVIEW: 'Review',
+  REFERRAL: 'Referral',
+  QUOTE_ISSUED: 'Quote issued'
+};
+
+// Formats SLA clock minutes as days, hours and minutes
+const formatDuration = (minutes: number): string => {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const remainder = Math.round(minutes % 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${remainder}m`;
+  return `${remainder}m`;
+};
+
+/**
+ * UnderwritingSlaSummary Component
+ * Shows average turnaround measured by SLA clocks, per stage and overall, and how
+ * many running clocks are at risk of or have breached their target
+ */
+const UnderwritingSlaSummary: React.FC<UnderwritingSlaSummaryProps> = ({
+  refreshInterval = 60000,
+  className
+}) => {
+  const { metrics, isLoading, isError } = useUnderwritingMetrics(refreshInterval);
+
+  return (
+    <Card className={className}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" component="h2">
+            Turnaround SLA
+          </Typography>
+          {metrics?.sla && (
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Chip
+                size="small"
+                label={`${metrics.sla.AT_RISK} at risk`}
+                color={metrics.sla.AT_RISK > 0 ? 'warning' : 'default'}
+              />
+              <Chip
+                size="small"
+                label={`${metrics.sla.BREACHED} breached`}
+                color={metrics.sla.BREACHED > 0 ? 'error' : 'default'}
+              />
+            </Box>
+          )}
+        </Box>
+
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+            <CircularProgress size={24} aria-label="Loading turnaround metrics" />
+          </Box>
+        )}
+
+        {isError && (
+          <Typography color="error" role="alert">
+            Turnaround metrics are unavailable.
+          </Typography>
+        )}
+
+        {metrics && (
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={4}>
+              <Typography variant="body2" color="textSecondary">
+                Average processing time
+              </Typography>
+              <Typography variant="h4">
+                {formatDuration(metrics.averageProcessingTime)}
+              </Typography>
+              <Typography variant="caption" color="textSecondary">
+                Excludes time waiting on broker documents
+              </Typography>
+            </Grid>
+            {metrics.averageStageTime && (Object.keys(STAGE_LABELS) as SlaStage[]).map(stage => (
+              <Grid item xs={6} md={2} key={stage}>
+                <Typography variant="body2" color="textSecondary">
+                  {STAGE_LABELS[stage]}
+                </Typography>
+                <Typography variant="h6">
+                  {formatDuration(metrics.averageStageTime?.[stage] || 0)}
+                </Typography>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnderwritingSlaSummary;
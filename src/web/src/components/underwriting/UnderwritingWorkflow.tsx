@@ -19,6 +19,7 @@ import {
   useTheme
 } from '@mui/material';
 import { useUnderwriting } from '../../hooks/useUnderwriting';
+import SubmissionChecklist from './SubmissionChecklist';
 import { useAuditLogger } from '@mga/audit-logger'; // ^1.0.0
 import {
   UnderwritingStatus,
@@ -26,7 +27,6 @@ import {
   IRiskAssessmentDisplay,
   IUnderwritingDecisionForm
 } from '../../types/underwriting.types';
-import { RISK_SEVERITY, RISK_SCORE_RANGES } from '../../constants/underwriting.constants';
 
 // Workflow step definitions
 const WORKFLOW_STEPS = [
@@ -224,11 +224,18 @@ export const UnderwritingWorkflow: React.FC<UnderwritingWorkflowProps> = ({
             )}
           </Box>
         );
+      case 2:
+        return (
+          <Box role="region" aria-label="Document Verification">
+            <Typography variant="h6">Document Verification</Typography>
+            <SubmissionChecklist policyId={policyId} />
+          </Box>
+        );
       // Additional step content...
       default:
         return null;
     }
-  }, [riskAssessment]);
+  }, [riskAssessment, policyId]);
 
   return (
     <Paper
@@ -73,8 +73,17 @@ export const API_ENDPOINTS = {
     DETAILS: '/policies/:id/details',
     HISTORY: '/policies/:id/history',
     ENDORSEMENTS: '/policies/:id/endorsements',
+    ENDORSEMENT_QUOTE: '/policies/:id/endorsements/quote',
     RENEWALS: '/policies/:id/renewals',
-    QUOTES: '/policies/:id/quotes'
+    NON_RENEWAL: '/policies/:id/non-renewal',
+    RENEWALS_DUE: '/policies/renewals/due',
+    CANCEL: '/policies/:id/cancel',
+    CANCELLATION_QUOTE: '/policies/:id/cancellation-quote',
+    REINSTATE: '/policies/:id/reinstate',
+    RATE: '/policies/:id/rate',
+    QUOTES: '/policies/:id/quotes',
+    QUOTE_BIND: '/policies/:id/quotes/:quoteId/bind',
+    PRODUCT_DEFINITION: '/policies/products/:policyType'
   },
   UNDERWRITING: {
     BASE: '/underwriting',
@@ -82,18 +91,29 @@ export const API_ENDPOINTS = {
     APPROVE: '/underwriting/:id/approve',
     REJECT: '/underwriting/:id/reject',
     REFER: '/underwriting/:id/refer',
+    CONFIG: '/underwriting/config',
+    QUEUE_DEPTH: '/underwriting/queue/depth',
+    SLA_METRICS: '/underwriting/sla/metrics',
     RULES: '/underwriting/rules',
+    RULES_SIMULATE: '/underwriting/rules/simulate',
     RISK_FACTORS: '/underwriting/:id/risk-factors',
+    RISK_BREAKDOWN: '/underwriting/risk-breakdown/:policyId',
+    CHECKLIST: '/underwriting/decisions/:policyId/checklist',
+    CHECKLIST_REFRESH: '/underwriting/decisions/:policyId/checklist/refresh',
+    APPETITE: '/underwriting/appetite',
     HISTORY: '/underwriting/:id/history'
   },
   CLAIMS: {
     BASE: '/claims',
     CREATE: '/claims/create',
+    DUPLICATE_CHECK: '/claims/duplicate-check',
     UPDATE: '/claims/:id',
     DETAILS: '/claims/:id/details',
     FNOL: '/claims/fnol',
     ASSESSMENT: '/claims/:id/assessment',
     PAYMENTS: '/claims/:id/payments',
+    PAYMENT_APPROVALS: '/claims/:id/payment-approvals',
+    SIU_REFERRALS: '/claims/siu-referrals',
     HISTORY: '/claims/:id/history'
   },
   DOCUMENTS: {
@@ -58,10 +58,24 @@ export const POLICY_VALIDATION = {
     MAX_COVERAGE_AMOUNT: 50000000,
     PREMIUM_CURRENCY: 'USD',
     ALLOWED_PAYMENT_TERMS: [30, 60, 90],
-    MAX_ENDORSEMENTS_PER_TERM: 10,
-    REQUIRED_DOCUMENTS: ['ACORD_125', 'LOSS_RUNS', 'FINANCIAL_STATEMENTS']
+    MAX_ENDORSEMENTS_PER_TERM: 10
 } as const;
 
+/**
+ * Product codes used by the policy administration API for each policy type
+ * Product definitions (limits, deductibles, coverages, documents, eligibility) are keyed by code
+ */
+export const POLICY_TYPE_PRODUCT_CODES: Readonly<Record<string, string>> = {
+    [POLICY_TYPES.COMMERCIAL_PROPERTY]: 'COMM_PROP',
+    [POLICY_TYPES.GENERAL_LIABILITY]: 'GEN_LIAB',
+    [POLICY_TYPES.PROFESSIONAL_LIABILITY]: 'PROF_LIAB',
+    [POLICY_TYPES.WORKERS_COMPENSATION]: 'WORK_COMP',
+    [POLICY_TYPES.COMMERCIAL_AUTO]: 'COMM_AUTO',
+    [POLICY_TYPES.CYBER_LIABILITY]: 'CYBER_LIAB',
+    [POLICY_TYPES.UMBRELLA]: 'UMBRELLA',
+    [POLICY_TYPES.BUSINESS_OWNERS_POLICY]: 'BOP'
+};
+
 /**
  * Configuration options for policy list table component
  * Defines display, interaction, and data management settings
@@ -24,85 +24,54 @@ export const UNDERWRITING_STATUS = {
 } as const;
 
 /**
- * Constants defining risk severity levels with associated visual indicators
- * and threshold values for risk categorization
+ * Constants defining the visual indicators for risk severity levels
+ * Score thresholds come from the backend underwriting configuration
+ * (GET /underwriting/config) and are not defined client-side
  */
 export const RISK_SEVERITY = {
     LOW: {
         value: 'LOW',
         label: 'Low Risk',
-        color: '#00C853',
-        threshold: 60
+        color: '#00C853'
     },
     MEDIUM: {
         value: 'MEDIUM',
         label: 'Medium Risk',
-        color: '#FFB300',
-        threshold: 80
+        color: '#FFB300'
     },
     HIGH: {
         value: 'HIGH',
         label: 'High Risk',
-        color: '#D32F2F',
-        threshold: 100
+        color: '#D32F2F'
     }
 } as const;
 
 /**
- * Constants defining risk score ranges with associated auto-approval
- * and referral rules for automated decisioning
- */
-export const RISK_SCORE_RANGES = {
-    LOW_RISK: {
-        min: 0,
-        max: 60,
-        autoApprovalEligible: true,
-        referralRequired: false
-    },
-    MEDIUM_RISK: {
-        min: 61,
-        max: 80,
-        autoApprovalEligible: false,
-        referralRequired: true
-    },
-    HIGH_RISK: {
-        min: 81,
-        max: 100,
-        autoApprovalEligible: false,
-        referralRequired: true
-    }
-} as const;
-
-/**
- * Constants defining types of risk factors with associated weights
- * and validation rules for risk assessment
+ * Constants defining types of risk factors with display and validation rules
+ * Factor weights come from the backend underwriting configuration
  */
 export const RISK_FACTOR_TYPES = {
     CLAIMS_HISTORY: {
         id: 'CLAIMS_HISTORY',
         label: 'Claims History',
-        weight: 0.35,
         displayOrder: 1,
         validationRules: ['requiresThreeYearHistory', 'excludeClosedClaims']
     },
     LOCATION_RISK: {
         id: 'LOCATION_RISK',
         label: 'Location Risk',
-        weight: 0.25,
         displayOrder: 2,
         validationRules: ['requiresGeocodingValidation', 'checkFloodZone']
     },
     COVERAGE_AMOUNT: {
         id: 'COVERAGE_AMOUNT',
         label: 'Coverage Amount',
-        weight: 0.2,
         displayOrder: 3,
         validationRules: ['withinCarrierLimits', 'checkReinsuranceThresholds']
     },
     BUSINESS_TYPE: {
         id: 'BUSINESS_TYPE',
         label: 'Business Type',
-        weight: 0.2,
         displayOrder: 4,
         validationRules: ['checkIndustryCode', 'validateLicensing']
     }
@@ -15,6 +15,16 @@ import {
   getFilteredUnderwritingQueue,
   subscribeToUpdates
 } from '../services/underwriting.service';
+import {
+  checkAppetite,
+  getRiskBreakdown,
+  getSubmissionChecklist,
+  getUnderwritingConfig,
+  getUnderwritingMetrics,
+  getUnderwritingQueueDepth,
+  refreshSubmissionChecklist
+} from '../api/underwriting.api';
+import { UnderwritingMetrics } from '../types/analytics.types';
 import {
   IRiskAssessment,
   IUnderwritingDecision,
@@ -22,9 +32,15 @@ import {
   UnderwritingStatus,
   RiskSeverity,
   IQueueFilters,
-  IPaginationCursor
+  IPaginationCursor,
+  IUnderwritingConfig,
+  IUnderwritingQueueDepth,
+  IRiskScoreBreakdown,
+  ISubmissionChecklist,
+  IAppetiteCheckRequest,
+  IAppetiteCheckResult,
+  getRiskSeverity
 } from '../types/underwriting.types';
-import { RISK_SEVERITY, RISK_SCORE_RANGES } from '../constants/underwriting.constants';
 
 // Cache configuration for optimized performance
 const CACHE_CONFIG = {
@@ -37,9 +53,17 @@ const CACHE_CONFIG = {
 // Query keys for react-query cache management
 const QUERY_KEYS = {
   riskAssessment: 'riskAssessment',
-  underwritingQueue: 'underwritingQueue'
+  underwritingQueue: 'underwritingQueue',
+  underwritingConfig: 'underwritingConfig',
+  queueDepth: 'underwritingQueueDepth',
+  metrics: 'underwritingMetrics',
+  riskBreakdown: 'riskBreakdown',
+  checklist: 'submissionChecklist'
 } as const;
 
+// Published configuration changes only with a backend release
+const CONFIG_STALE_TIME = 60 * 60 * 1000; // 1 hour
+
 /**
  * Primary hook for managing underwriting operations with optimized state management
  * @param initialFilters Initial queue filters
@@ -184,4 +208,162 @@ export function useUnderwriting(initialFilters: IQueueFilters) {
   };
 }
 
+/**
+ * Hook exposing the underwriting configuration published by the backend, so risk
+ * bands render from the same thresholds the underwriting engine decides on
+ * @returns Active configuration and a severity lookup that is null until it loads
+ */
+export function useUnderwritingConfig() {
+  const configQuery = useQuery<IUnderwritingConfig>(
+    QUERY_KEYS.underwritingConfig,
+    getUnderwritingConfig,
+    {
+      staleTime: CONFIG_STALE_TIME,
+      cacheTime: CONFIG_STALE_TIME,
+      retry: CACHE_CONFIG.maxRetries,
+      retryDelay: CACHE_CONFIG.retryDelay
+    }
+  );
+
+  const config = configQuery.data;
+
+  const getSeverity = useCallback((score: number): RiskSeverity | null => {
+    return config ? getRiskSeverity(score, config.riskScoreThresholds) : null;
+  }, [config]);
+
+  return {
+    config,
+    isLoading: configQuery.isLoading,
+    isError: configQuery.isError,
+    getSeverity
+  };
+}
+
+/**
+ * Hook polling the number of open submissions assigned to each underwriter
+ * @param refreshInterval Polling interval in milliseconds
+ * @returns Queue depth per underwriter and loading state
+ */
+export function useUnderwritingQueueDepth(refreshInterval: number = 30000) {
+  const depthQuery = useQuery<IUnderwritingQueueDepth>(
+    QUERY_KEYS.queueDepth,
+    getUnderwritingQueueDepth,
+    {
+      refetchInterval: refreshInterval,
+      retry: CACHE_CONFIG.maxRetries,
+      retryDelay: CACHE_CONFIG.retryDelay
+    }
+  );
+
+  return {
+    queueDepth: depthQuery.data,
+    isLoading: depthQuery.isLoading,
+    isError: depthQuery.isError
+  };
+}
+
+/**
+ * Hook polling underwriting throughput and SLA standing
+ * @param refreshInterval Polling interval in milliseconds
+ * @returns Underwriting metrics and loading state
+ */
+export function useUnderwritingMetrics(refreshInterval: number = 60000) {
+  const metricsQuery = useQuery<UnderwritingMetrics>(
+    QUERY_KEYS.metrics,
+    getUnderwritingMetrics,
+    {
+      refetchInterval: refreshInterval,
+      retry: CACHE_CONFIG.maxRetries,
+      retryDelay: CACHE_CONFIG.retryDelay
+    }
+  );
+
+  return {
+    metrics: metricsQuery.data,
+    isLoading: metricsQuery.isLoading,
+    isError: metricsQuery.isError
+  };
+}
+
+/**
+ * Hook retrieving a policy's risk score broken down factor by factor
+ * @param policyId Policy identifier; the query waits until one is given
+ * @returns Risk breakdown and loading state
+ */
+export function useRiskBreakdown(policyId?: string) {
+  const breakdownQuery = useQuery<IRiskScoreBreakdown>(
+    [QUERY_KEYS.riskBreakdown, policyId],
+    () => getRiskBreakdown(policyId as string),
+    {
+      enabled: !!policyId,
+      staleTime: CACHE_CONFIG.staleTime,
+      cacheTime: CACHE_CONFIG.cacheTime,
+      retry: CACHE_CONFIG.maxRetries,
+      retryDelay: CACHE_CONFIG.retryDelay
+    }
+  );
+
+  return {
+    breakdown: breakdownQuery.data,
+    isLoading: breakdownQuery.isLoading,
+    isError: breakdownQuery.isError
+  };
+}
+
+/**
+ * Hook retrieving a submission's completeness checklist, with a re-check that
+ * returns a complete submission to the review queue
+ * @param policyId Policy identifier; the query waits until one is given
+ * @returns Checklist, loading state and re-check action
+ */
+export function useSubmissionChecklist(policyId?: string) {
+  const queryClient = useQueryClient();
+
+  const checklistQuery = useQuery<ISubmissionChecklist>(
+    [QUERY_KEYS.checklist, policyId],
+    () => getSubmissionChecklist(policyId as string),
+    {
+      enabled: !!policyId,
+      staleTime: CACHE_CONFIG.staleTime,
+      retry: CACHE_CONFIG.maxRetries,
+      retryDelay: CACHE_CONFIG.retryDelay
+    }
+  );
+
+  const refreshMutation = useMutation(
+    () => refreshSubmissionChecklist(policyId as string),
+    {
+      onSuccess: (checklist) => {
+        queryClient.setQueryData([QUERY_KEYS.checklist, policyId], checklist);
+        queryClient.invalidateQueries(QUERY_KEYS.underwritingQueue);
+      }
+    }
+  );
+
+  return {
+    checklist: checklistQuery.data,
+    isLoading: checklistQuery.isLoading,
+    isError: checklistQuery.isError,
+    refresh: refreshMutation.mutate,
+    isRefreshing: refreshMutation.isLoading
+  };
+}
+
+/**
+ * Hook screening risks against product appetite before submission
+ */
+export function useAppetiteCheck() {
+  const checkMutation = useMutation<IAppetiteCheckResult, Error, IAppetiteCheckRequest>(
+    (request) => checkAppetite(request)
+  );
+
+  return {
+    check: checkMutation.mutate,
+    result: checkMutation.data,
+    isChecking: checkMutation.isLoading,
+    error: checkMutation.error,
+    reset: checkMutation.reset
+  };
+}
+
 export default useUnderwriting;
\ No newline at end of file
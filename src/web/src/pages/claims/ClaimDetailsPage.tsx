@@ -12,8 +12,11 @@ import {
 import { ErrorBoundary } from '../../components/common/ErrorBoundary';
 import { PageHeader } from '../../components/common/PageHeader';
 import { ClaimDetails } from '../../components/claims/ClaimDetails';
+import ClaimCoveragePosition from '../../components/claims/ClaimCoveragePosition';
+import ClaimFraudAssessment from '../../components/claims/ClaimFraudAssessment';
 import { useClaims } from '../../hooks/useClaims';
 import { CLAIM_STATUS } from '../../constants/claims.constants';
+import { CLAIMS_ROUTES } from '../../constants/routes.constants';
 import { useNotification } from '../../hooks/useNotification';
 
 /**
@@ -209,9 +212,28 @@ const ClaimDetailsPage: React.FC = () => {
           title={`Claim #${selectedClaim?.claimNumber || ''}`}
           subtitle={selectedClaim?.description}
           showBreadcrumbs
-          actions={renderSyncStatus()}
+          actions={
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              {renderSyncStatus()}
+              <Button
+                variant="outlined"
+                onClick={() => navigate(CLAIMS_ROUTES.PAYMENTS.replace(':id', claimId!))}
+                aria-label="View claim payments and recoveries"
+              >
+                Payments
+              </Button>
+            </Box>
+          }
         />
 
+        {selectedClaim?.coveragePosition && (
+          <ClaimCoveragePosition position={selectedClaim.coveragePosition} />
+        )}
+
+        {selectedClaim?.fraudAssessment && (
+          <ClaimFraudAssessment assessment={selectedClaim.fraudAssessment} />
+        )}
+
         {selectedClaim && (
           <ClaimDetails
             claimId={claimId!}
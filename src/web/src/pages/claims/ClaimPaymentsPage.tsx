@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Button,
+  Skeleton,
+  Alert,
+  Snackbar
+} from '@mui/material';
+import ClaimLedger from '../../components/claims/ClaimLedger';
+import PageHeader from '../../components/common/PageHeader';
+import { claimsApi } from '../../api/claims.api';
+import {
+  ClaimLedger as IClaimLedger,
+  RecordClaimTransactionRequest,
+  VoidClaimTransactionRequest
+} from '../../types/claims.types';
+import { CLAIMS_ROUTES } from '../../constants/routes.constants';
+
+/**
+ * ClaimPaymentsPage Component
+ * Shows a claim's financial ledger and records payments, reserve changes,
+ * recoveries and voids against it
+ */
+const ClaimPaymentsPage: React.FC = () => {
+  // URL parameter and navigation hooks
+  const { id: claimId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  // Local state management
+  const [ledger, setLedger] = useState<IClaimLedger | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [snackbar, setSnackbar] = useState<{
+    open: boolean;
+    message: string;
+    severity: 'success' | 'error';
+  }>({
+    open: false,
+    message: '',
+    severity: 'success'
+  });
+
+  /**
+   * Loads the claim ledger
+   */
+  const loadLedger = useCallback(async () => {
+    if (!claimId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setLedger(await claimsApi.getClaimLedger(claimId));
+    } catch (err) {
+      setError('Failed to load claim transactions. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [claimId]);
+
+  // Fetch the ledger on mount or claim ID change
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  /**
+   * Records a ledger entry; a rejected entry, such as a payment above the
+   * outstanding reserve, is reported with the server's reason, and an entry above
+   * the user's authority is reported as sent for approval
+   */
+  const handleRecord = useCallback(async (transaction: RecordClaimTransactionRequest) => {
+    if (!claimId) return;
+
+    setSubmitting(true);
+    try {
+      const { queuedApproval, ...updatedLedger } = await claimsApi.recordClaimTransaction(claimId, transaction);
+      setLedger(updatedLedger);
+      setSnackbar({
+        open: true,
+        message: queuedApproval
+          ? `Transaction sent for approval: ${queuedApproval.reasons.join('; ')}`
+          : 'Transaction recorded successfully',
+        severity: 'success'
+      });
+    } catch (err) {
+      setSnackbar({
+        open: true,
+        message: (err as Error).message || 'Failed to record transaction. Please try again.',
+        severity: 'error'
+      });
+      throw err;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [claimId]);
+
+  /**
+   * Voids a ledger entry
+   */
+  const handleVoid = useCallback(async (transactionId: string, request: VoidClaimTransactionRequest) => {
+    if (!claimId) return;
+
+    setSubmitting(true);
+    try {
+      setLedger(await claimsApi.voidClaimTransaction(claimId, transactionId, request));
+      setSnackbar({
+        open: true,
+        message: 'Transaction voided successfully',
+        severity: 'success'
+      });
+    } catch (err) {
+      setSnackbar({
+        open: true,
+        message: (err as Error).message || 'Failed to void transaction. Please try again.',
+        severity: 'error'
+      });
+      throw err;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [claimId]);
+
+  /**
+   * Approves a queued entry; it is recorded once all required approvals are in
+   */
+  const handleApprove = useCallback(async (approvalId: string) => {
+    if (!claimId) return;
+
+    setSubmitting(true);
+    try {
+      setLedger(await claimsApi.approveClaimPayment(claimId, approvalId));
+      setSnackbar({
+        open: true,
+        message: 'Approval recorded successfully',
+        severity: 'success'
+      });
+    } catch (err) {
+      setSnackbar({
+        open: true,
+        message: (err as Error).message || 'Failed to approve transaction. Please try again.',
+        severity: 'error'
+      });
+      throw err;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [claimId]);
+
+  /**
+   * Rejects a queued entry
+   */
+  const handleReject = useCallback(async (approvalId: string, reason: string) => {
+    if (!claimId) return;
+
+    setSubmitting(true);
+    try {
+      setLedger(await claimsApi.rejectClaimPayment(claimId, approvalId, reason));
+      setSnackbar({
+        open: true,
+        message: 'Transaction rejected',
+        severity: 'success'
+      });
+    } catch (err) {
+      setSnackbar({
+        open: true,
+        message: (err as Error).message || 'Failed to reject transaction. Please try again.',
+        severity: 'error'
+      });
+      throw err;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [claimId]);
+
+  /**
+   * Handles navigation back to claim details
+   */
+  const handleBackToClaim = useCallback(() => {
+    if (claimId) {
+      navigate(CLAIMS_ROUTES.DETAILS.replace(':id', claimId));
+    }
+  }, [navigate, claimId]);
+
+  /**
+   * Handles snackbar close
+   */
+  const handleSnackbarClose = useCallback(() => {
+    setSnackbar(prev => ({ ...prev, open: false }));
+  }, []);
+
+  // Render loading state
+  if (loading && !ledger) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ py: 4 }}>
+          <Skeleton variant="rectangular" height={60} sx={{ mb: 2 }} />
+          <Skeleton variant="rectangular" height={400} />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ py: 4 }}>
+        {/* Page Header */}
+        <PageHeader
+          title="Payments & Recoveries"
+          subtitle="Reserve and paid totals are derived from these transactions"
+          showBreadcrumbs
+          actions={
+            <Button
+              variant="outlined"
+              onClick={handleBackToClaim}
+              aria-label="Return to claim details"
+            >
+              Back to Claim
+            </Button>
+          }
+        />
+
+        {error || !ledger ? (
+          <Alert severity="error" sx={{ mt: 3 }} role="alert">
+            {error || 'Claim transactions are unavailable.'}
+          </Alert>
+        ) : (
+          <Box sx={{ mt: 3 }}>
+            <ClaimLedger
+              ledger={ledger}
+              onRecord={handleRecord}
+              onVoid={handleVoid}
+              onApprove={handleApprove}
+              onReject={handleReject}
+              isSubmitting={submitting}
+            />
+          </Box>
+        )}
+
+        {/* Feedback Snackbar */}
+        <Snackbar
+          open={snackbar.open}
+          autoHideDuration={6000}
+          onClose={handleSnackbarClose}
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        >
+          <Alert
+            onClose={handleSnackbarClose}
+            severity={snackbar.severity}
+            variant="filled"
+          >
+            {snackbar.message}
+          </Alert>
+        </Snackbar>
+      </Box>
+    </Container>
+  );
+};
+
+export default ClaimPaymentsPage;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Button,
+  Skeleton,
+  Alert,
+  Paper
+} from '@mui/material';
+import PolicyVersionHistory from '../../components/policy/PolicyVersionHistory';
+import PageHeader from '../../components/common/PageHeader';
+import { getPolicyHistory } from '../../api/policy.api';
+import { IPolicyVersionHistoryEntry } from '../../types/policy.types';
+import { POLICY_ROUTES } from '../../constants/routes.constants';
+
+/**
+ * PolicyHistoryPage Component
+ * Displays the point-in-time version history of a policy with field-level diffs
+ */
+const PolicyHistoryPage: React.FC = () => {
+  // URL parameter and navigation hooks
+  const { id: policyId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  // Local state management
+  const [versions, setVersions] = useState<IPolicyVersionHistoryEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch version history on mount or policy ID change
+  useEffect(() => {
+    if (!policyId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getPolicyHistory(policyId)
+      .then(history => {
+        if (!cancelled) setVersions(history);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load policy history. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [policyId]);
+
+  /**
+   * Handles navigation back to policy details
+   */
+  const handleBackToPolicy = useCallback(() => {
+    if (policyId) {
+      navigate(POLICY_ROUTES.DETAILS.replace(':id', policyId));
+    }
+  }, [navigate, policyId]);
+
+  // Render loading state
+  if (loading) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ py: 4 }}>
+          <Skeleton variant="rectangular" height={60} sx={{ mb: 2 }} />
+          <Skeleton variant="rectangular" height={400} />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ py: 4 }}>
+        {/* Page Header */}
+        <PageHeader
+          title="Policy History"
+          subtitle="Point-in-time versions recorded for each policy transaction"
+          showBreadcrumbs
+          actions={
+            <Button
+              variant="outlined"
+              onClick={handleBackToPolicy}
+              aria-label="Return to policy details"
+            >
+              Back to Policy
+            </Button>
+          }
+        />
+
+        {error ? (
+          <Alert severity="error" sx={{ mt: 3 }} role="alert">
+            {error}
+          </Alert>
+        ) : (
+          <Paper elevation={1} sx={{ mt: 3, p: 2 }}>
+            <PolicyVersionHistory versions={versions} />
+          </Paper>
+        )}
+      </Box>
+    </Container>
+  );
+};
+
+export default PolicyHistoryPage;
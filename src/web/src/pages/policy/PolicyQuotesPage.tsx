@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Button,
+  Skeleton,
+  Alert,
+  Paper,
+  Snackbar
+} from '@mui/material';
+import QuoteComparison from '../../components/policy/QuoteComparison';
+import PageHeader from '../../components/common/PageHeader';
+import PolicyService from '../../services/policy.service';
+import { IPolicyQuote } from '../../types/policy.types';
+import { POLICY_ROUTES } from '../../constants/routes.constants';
+
+/**
+ * PolicyQuotesPage Component
+ * Compares the quote options on a submission and binds the option the insured selects
+ */
+const PolicyQuotesPage: React.FC = () => {
+  // URL parameter and navigation hooks
+  const { id: policyId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  // Local state management
+  const [quotes, setQuotes] = useState<IPolicyQuote[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [bindingQuoteId, setBindingQuoteId] = useState<string | null>(null);
+  const [snackbar, setSnackbar] = useState<{
+    open: boolean;
+    message: string;
+    severity: 'success' | 'error';
+  }>({
+    open: false,
+    message: '',
+    severity: 'success'
+  });
+
+  /**
+   * Loads the quote options for the submission
+   */
+  const loadQuotes = useCallback(async () => {
+    if (!policyId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setQuotes(await PolicyService.fetchQuoteOptions(policyId));
+    } catch (err) {
+      setError('Failed to load quote options. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [policyId]);
+
+  // Fetch quote options on mount or policy ID change
+  useEffect(() => {
+    loadQuotes();
+  }, [loadQuotes]);
+
+  /**
+   * Binds the selected option; the remaining options are superseded
+   */
+  const handleBind = useCallback(async (quote: IPolicyQuote) => {
+    if (!policyId) return;
+
+    setBindingQuoteId(quote.id);
+    try {
+      await PolicyService.bindQuoteOption(policyId, quote.id);
+      setSnackbar({
+        open: true,
+        message: `Option ${quote.optionNumber} bound successfully`,
+        severity: 'success'
+      });
+      await loadQuotes();
+    } catch (err) {
+      setSnackbar({
+        open: true,
+        message: 'Failed to bind quote option. Please try again.',
+        severity: 'error'
+      });
+    } finally {
+      setBindingQuoteId(null);
+    }
+  }, [policyId, loadQuotes]);
+
+  /**
+   * Handles navigation back to policy details
+   */
+  const handleBackToPolicy = useCallback(() => {
+    if (policyId) {
+      navigate(POLICY_ROUTES.DETAILS.replace(':id', policyId));
+    }
+  }, [navigate, policyId]);
+
+  /**
+   * Handles snackbar close
+   */
+  const handleSnackbarClose = useCallback(() => {
+    setSnackbar(prev => ({ ...prev, open: false }));
+  }, []);
+
+  // Render loading state
+  if (loading && quotes.length === 0) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ py: 4 }}>
+          <Skeleton variant="rectangular" height={60} sx={{ mb: 2 }} />
+          <Skeleton variant="rectangular" height={400} />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ py: 4 }}>
+        {/* Page Header */}
+        <PageHeader
+          title="Quote Options"
+          subtitle="Compare options side by side; differences are highlighted"
+          showBreadcrumbs
+          actions={
+            <Button
+              variant="outlined"
+              onClick={handleBackToPolicy}
+              aria-label="Return to policy details"
+            >
+              Back to Policy
+            </Button>
+          }
+        />
+
+        {error ? (
+          <Alert severity="error" sx={{ mt: 3 }} role="alert">
+            {error}
+          </Alert>
+        ) : (
+          <Paper elevation={1} sx={{ mt: 3, p: 2 }}>
+            <QuoteComparison
+              quotes={quotes}
+              onBind={handleBind}
+              bindingQuoteId={bindingQuoteId}
+            />
+          </Paper>
+        )}
+
+        {/* Feedback Snackbar */}
+        <Snackbar
+          open={snackbar.open}
+          autoHideDuration={6000}
+          onClose={handleSnackbarClose}
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        >
+          <Alert
+            onClose={handleSnackbarClose}
+            severity={snackbar.severity}
+            variant="filled"
+          >
+            {snackbar.message}
+          </Alert>
+        </Snackbar>
+      </Box>
+    </Container>
+  );
+};
+
+export default PolicyQuotesPage;
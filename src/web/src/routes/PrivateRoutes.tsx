@@ -17,9 +17,12 @@ const Dashboard = React.lazy(() => import('../pages/Dashboard'));
 const PolicyList = React.lazy(() => import('../pages/policy/PolicyList'));
 const PolicyDetails = React.lazy(() => import('../pages/policy/PolicyDetails'));
 const NewPolicy = React.lazy(() => import('../pages/policy/NewPolicy'));
+const PolicyHistory = React.lazy(() => import('../pages/policy/PolicyHistoryPage'));
+const PolicyQuotes = React.lazy(() => import('../pages/policy/PolicyQuotesPage'));
 const UnderwritingQueue = React.lazy(() => import('../pages/underwriting/UnderwritingQueue'));
 const UnderwritingAnalytics = React.lazy(() => import('../pages/underwriting/UnderwritingAnalytics'));
 const Claims = React.lazy(() => import('../pages/claims/Claims'));
+const ClaimPayments = React.lazy(() => import('../pages/claims/ClaimPaymentsPage'));
 const Documents = React.lazy(() => import('../pages/documents/Documents'));
 
 /**
@@ -112,7 +115,7 @@ const PrivateRoutes: React.FC = () => {
               element={
                 <ProtectedRoute
                   element={<PolicyList />}
-                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER']}
+                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']}
                 />
               }
             />
@@ -121,7 +124,7 @@ const PrivateRoutes: React.FC = () => {
               element={
                 <ProtectedRoute
                   element={<PolicyDetails />}
-                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER']}
+                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']}
                 />
               }
             />
@@ -130,7 +133,25 @@ const PrivateRoutes: React.FC = () => {
               element={
                 <ProtectedRoute
                   element={<NewPolicy />}
-                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER']}
+                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']}
+                />
+              }
+            />
+            <Route
+              path={POLICY_ROUTES.HISTORY}
+              element={
+                <ProtectedRoute
+                  element={<PolicyHistory />}
+                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']}
+                />
+              }
+            />
+            <Route
+              path={POLICY_ROUTES.QUOTES}
+              element={
+                <ProtectedRoute
+                  element={<PolicyQuotes />}
+                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']}
                 />
               }
             />
@@ -143,7 +164,7 @@ const PrivateRoutes: React.FC = () => {
               element={
                 <ProtectedRoute
                   element={<UnderwritingQueue />}
-                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER']}
+                  requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER']}
                 />
               }
             />
@@ -168,6 +189,15 @@ const PrivateRoutes: React.FC = () => {
               />
             }
           />
+          <Route
+            path={CLAIMS_ROUTES.PAYMENTS}
+            element={
+              <ProtectedRoute
+                element={<ClaimPayments />}
+                requiredRoles={['MGA_ADMIN', 'CLAIMS_HANDLER']}
+              />
+            }
+          />
 
           {/* Document Routes */}
           <Route
@@ -175,7 +205,7 @@ const PrivateRoutes: React.FC = () => {
             element={
               <ProtectedRoute
                 element={<Documents />}
-                requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'CLAIMS_HANDLER', 'AUDITOR']}
+                requiredRoles={['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER', 'CLAIMS_HANDLER', 'AUDITOR']}
               />
             }
           />
@@ -11,13 +11,21 @@ import {
   createPolicy,
   updatePolicy,
   createEndorsement,
-  bindPolicy
+  getEndorsementQuote,
+  bindPolicy,
+  getQuotes,
+  bindQuote,
+  getProductDefinition
 } from '../api/policy.api';
 import {
   IPolicy,
   PolicyType,
   PolicyStatus,
-  IEndorsement
+  IEndorsement,
+  IEndorsementRating,
+  IPolicyQuote,
+  IProductDefinition,
+  SubjectivityStatus
 } from '../types/policy.types';
 
 // Cache configuration
@@ -233,6 +241,33 @@ export class PolicyService {
     }
   }
 
+  /**
+   * Calculates the prorated premium for an endorsement before submission
+   * @param policyId Policy identifier
+   * @param effectiveDate Endorsement effective date
+   * @param annualPremiumChange Full-term (annualized) premium delta
+   * @returns Promise resolving to prorated endorsement rating
+   */
+  static async quoteEndorsement(
+    policyId: string,
+    effectiveDate: Date,
+    annualPremiumChange: number
+  ): Promise<IEndorsementRating> {
+    try {
+      const response = await getEndorsementQuote(policyId, effectiveDate.toISOString(), annualPremiumChange);
+      const { data, success } = response.data;
+
+      if (!success || !data) {
+        throw new Error('Failed to calculate endorsement premium');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Endorsement quote error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Binds an approved policy to make it active
    * @param policyId Policy identifier
@@ -246,6 +281,16 @@ export class PolicyService {
         throw new Error('Policy must be approved before binding');
       }
 
+      // Binding waits on every pre-bind subjectivity being satisfied or waived
+      const openPreBind = (currentPolicy.underwritingInfo.subjectivities || []).filter(
+        subjectivity => subjectivity.timing === 'PRE_BIND' && subjectivity.status === SubjectivityStatus.OPEN
+      );
+      if (openPreBind.length > 0) {
+        throw new Error(
+          `Pre-bind subjectivities must be satisfied or waived before binding: ${openPreBind.map(subjectivity => subjectivity.description).join('; ')}`
+        );
+      }
+
       // Optimistic cache update
       policyCache.set(policyId, {
         data: { ...currentPolicy, status: PolicyStatus.BOUND },
@@ -280,6 +325,80 @@ export class PolicyService {
     }
   }
 
+  /**
+   * Retrieves the quote options offered on a submission
+   * @param policyId Submission (policy) identifier
+   * @returns Promise resolving to quote options in option order
+   */
+  static async fetchQuoteOptions(policyId: string): Promise<IPolicyQuote[]> {
+    try {
+      const response = await getQuotes(policyId);
+      const { data, success } = response.data;
+
+      if (!success || !data) {
+        throw new Error('Failed to fetch quote options');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Quote options fetch error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Binds the quote option selected by the insured, superseding the other options
+   * @param policyId Submission (policy) identifier
+   * @param quoteId Quote option identifier
+   * @returns Promise resolving to bound policy
+   */
+  static async bindQuoteOption(policyId: string, quoteId: string): Promise<IPolicy> {
+    try {
+      const response = await bindQuote(policyId, quoteId);
+      const { data, success } = response.data;
+
+      if (!success || !data) {
+        throw new Error('Failed to bind quote option');
+      }
+
+      // Update cache with bound policy
+      policyCache.set(policyId, {
+        data,
+        timestamp: Date.now()
+      });
+
+      // Invalidate list cache
+      listCache.clear();
+
+      return data;
+    } catch (error) {
+      console.error('Quote option binding error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the product definition a policy of the given type is written on
+   * @param policyType Policy type
+   * @param asOf Optional policy effective date (ISO string)
+   * @returns Promise resolving to the product definition in effect
+   */
+  static async fetchProductDefinition(policyType: PolicyType, asOf?: string): Promise<IProductDefinition> {
+    try {
+      const response = await getProductDefinition(policyType, asOf);
+      const { data, success } = response.data;
+
+      if (!success || !data) {
+        throw new Error('Failed to fetch product definition');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Product definition fetch error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Clears all policy-related caches
    * Useful when needing to force fresh data
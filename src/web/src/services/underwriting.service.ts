@@ -9,24 +9,29 @@ import {
   getRiskAssessment,
   submitForUnderwriting,
   makeUnderwritingDecision,
-  getUnderwritingQueue
+  getUnderwritingQueue,
+  getUnderwritingConfig,
+  getUnderwritingRules,
+  simulateUnderwritingRules
 } from '../api/underwriting.api';
 import {
   IRiskAssessmentDisplay,
   IUnderwritingQueueItem,
   IUnderwritingDecisionForm,
+  IUnderwritingRule,
+  IRuleSimulationRequest,
+  IRuleSimulationReport,
+  IUnderwritingConfig,
   UnderwritingStatus,
-  RiskSeverity
+  RiskSeverity,
+  getRiskSeverity
 } from '../types/underwriting.types';
-import {
-  RISK_SEVERITY,
-  UNDERWRITING_STATUS,
-  RISK_SCORE_RANGES
-} from '../constants/underwriting.constants';
+import { UNDERWRITING_STATUS } from '../constants/underwriting.constants';
 
 // Cache configuration
 const CACHE_CONFIG = {
   RISK_ASSESSMENT_TTL: 5 * 60 * 1000, // 5 minutes
+  CONFIG_TTL: 60 * 60 * 1000, // 1 hour
   QUEUE_REFRESH_INTERVAL: 30 * 1000, // 30 seconds
   MAX_RETRY_ATTEMPTS: 3,
   DEBOUNCE_TIME: 300 // 300ms for debouncing queue updates
@@ -38,6 +43,7 @@ const CACHE_CONFIG = {
 export class UnderwritingService {
   private queueCache$: Observable<IUnderwritingQueueItem[]> | null = null;
   private riskAssessmentCache: Map<string, { data: IRiskAssessmentDisplay; timestamp: number }> = new Map();
+  private configCache: { data: IUnderwritingConfig; timestamp: number } | null = null;
 
   /**
    * Retrieves and formats risk assessment data with caching and retry logic
@@ -53,12 +59,15 @@ export class UnderwritingService {
       }
 
       // Fetch fresh data with retry logic
-      const assessment = await getRiskAssessment(policyId);
+      const [assessment, config] = await Promise.all([
+        getRiskAssessment(policyId),
+        this.fetchUnderwritingConfig()
+      ]);
 
       // Format and enhance the assessment data
       const formattedAssessment: IRiskAssessmentDisplay = {
         ...assessment,
-        severity: this.calculateRiskSeverity(assessment.riskScore),
+        severity: getRiskSeverity(assessment.riskScore, config.riskScoreThresholds),
         factors: assessment.factors.map(factor => ({
           ...factor,
           severity: this.calculateFactorSeverity(factor.score)
@@ -155,21 +164,65 @@ export class UnderwritingService {
   }
 
   /**
-   * Invalidates the queue cache to force refresh
+   * Retrieves the underwriting configuration published by the backend, cached
+   * until the TTL expires or the backend publishes a new version
+   * @returns Active risk score thresholds, factor weights and auto-approval criteria
    */
-  private invalidateQueueCache(): void {
-    this.queueCache$ = null;
+  public async fetchUnderwritingConfig(): Promise<IUnderwritingConfig> {
+    if (this.configCache && Date.now() - this.configCache.timestamp < CACHE_CONFIG.CONFIG_TTL) {
+      return this.configCache.data;
+    }
+
+    try {
+      const config = await getUnderwritingConfig();
+      if (this.configCache && this.configCache.data.version !== config.version) {
+        // Severities were derived from the previous thresholds
+        this.riskAssessmentCache.clear();
+      }
+      this.configCache = { data: config, timestamp: Date.now() };
+      return config;
+    } catch (error) {
+      console.error('Underwriting config retrieval failed:', { error });
+      throw error;
+    }
   }
 
   /**
-   * Calculates risk severity based on risk score
-   * @param score Risk score value
-   * @returns Calculated risk severity
+   * Retrieves the current underwriting rules
+   * @returns Rules in evaluation order
    */
-  private calculateRiskSeverity(score: number): RiskSeverity {
-    if (score <= RISK_SEVERITY.LOW.threshold) return RiskSeverity.LOW;
-    if (score <= RISK_SEVERITY.MEDIUM.threshold) return RiskSeverity.MEDIUM;
-    return RiskSeverity.HIGH;
+  public async fetchUnderwritingRules(): Promise<IUnderwritingRule[]> {
+    try {
+      return await getUnderwritingRules();
+    } catch (error) {
+      console.error('Underwriting rules retrieval failed:', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a what-if simulation of candidate rules or weights over historical decisions
+   * @param request Candidate configuration
+   * @returns Diff report with changed decisions ordered by premium
+   */
+  public async runRuleSimulation(request: IRuleSimulationRequest): Promise<IRuleSimulationReport> {
+    if (!request.rules && !request.riskFactorWeights) {
+      throw new Error('Provide candidate rules or risk factor weights to simulate');
+    }
+
+    try {
+      return await simulateUnderwritingRules(request);
+    } catch (error) {
+      console.error('Rule simulation failed:', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Invalidates the queue cache to force refresh
+   */
+  private invalidateQueueCache(): void {
+    this.queueCache$ = null;
   }
 
   /**
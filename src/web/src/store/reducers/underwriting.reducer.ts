@@ -17,11 +17,7 @@ import {
   processUnderwritingDecision,
   updateUnderwritingQueue
 } from '../actions/underwriting.actions';
-import {
-  UNDERWRITING_STATUS,
-  RISK_SEVERITY,
-  RISK_SCORE_RANGES
-} from '../../constants/underwriting.constants';
+import { UNDERWRITING_STATUS } from '../../constants/underwriting.constants';
 
 // Interface for cache entries with metadata
 interface ICacheEntry<T> {
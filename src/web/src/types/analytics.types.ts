@@ -5,6 +5,7 @@
  */
 
 import { ID, Timestamp, DateRange } from './common.types';
+import { SlaAlertLevel, SlaStage } from './underwriting.types';
 
 /**
  * Interface for policy-related metrics tracking
@@ -22,9 +23,11 @@ export interface PolicyMetrics {
  */
 export interface UnderwritingMetrics {
   automationRate: number; // Percentage of automated underwriting decisions
-  averageProcessingTime: number; // Average time in minutes
+  averageProcessingTime: number; // Average SLA clock minutes per submission, excluding time waiting on documents
+  averageStageTime?: Record<SlaStage, number>; // Average SLA clock minutes per stage
   pendingReviews: number;
   riskScoreDistribution: Record<string, number>; // Distribution of risk scores
+  sla?: Record<SlaAlertLevel, number>; // Running SLA clocks by alert level
 }
 
 /**
@@ -57,7 +57,7 @@ export interface AuthTokens {
 /**
  * Type definition for available user roles based on RBAC requirements
  */
-export type UserRole = 'MGA_ADMIN' | 'UNDERWRITER' | 'CLAIMS_HANDLER' | 'AUDITOR';
+export type UserRole = 'MGA_ADMIN' | 'UNDERWRITER' | 'UNDERWRITING_MANAGER' | 'CLAIMS_HANDLER' | 'AUDITOR';
 
 /**
  * Comprehensive interface for authenticated user data with RBAC support
@@ -125,5 +125,5 @@ export const isAuthError = (error: unknown): error is AuthError => {
 };
 
 export const isValidUserRole = (role: string): role is UserRole => {
-  return ['MGA_ADMIN', 'UNDERWRITER', 'CLAIMS_HANDLER', 'AUDITOR'].includes(role);
+  return ['MGA_ADMIN', 'UNDERWRITER', 'UNDERWRITING_MANAGER', 'CLAIMS_HANDLER', 'AUDITOR'].includes(role);
 };
\ No newline at end of file
@@ -58,6 +58,11 @@ export interface Claim {
   claimantInfo: ClaimantInfo;
   reserveAmount: number;
   paidAmount: number;
+  coverageType?: string;
+  causeOfLoss?: string;
+  coveragePosition?: ClaimCoveragePosition;
+  fraudAssessment?: ClaimFraudAssessment;
+  linkedClaimIds?: string[];
   documents: ClaimDocument[];
   createdAt: Date;
   updatedAt: Date;
@@ -68,18 +73,129 @@ export interface Claim {
   isReopened: boolean;
 }
 
+/**
+ * Type defining the coverage position taken on a claim at first notice of loss
+ */
+export type CoverageDetermination = 'COVERED' | 'QUESTIONABLE' | 'NOT_COVERED';
+
+/**
+ * Interface defining the coverage position attached to a claim at first notice, with
+ * the reasons behind it and warnings, such as late reporting, for the adjuster
+ */
+export interface ClaimCoveragePosition {
+  determination: CoverageDetermination;
+  reasons: string[];
+  warnings: string[];
+  policyNumber: string;
+  policyStatus: string;
+  policyTerm: {
+    effectiveDate: string;
+    expirationDate: string;
+  };
+  coverageId?: string;
+  coverageType?: string;
+  deductible?: number;
+  perOccurrenceLimit?: number;
+  exclusions: string[];
+  daysToReport: number;
+  lateReport: boolean;
+  verifiedAt: string;
+}
+
+/**
+ * Rules-based fraud indicators a claim is screened against
+ */
+export type FraudIndicatorCode =
+  | 'EARLY_LOSS'
+  | 'POST_ENDORSEMENT_LOSS'
+  | 'REPEAT_CLAIMANT'
+  | 'ROUND_AMOUNT'
+  | 'LOCATION_MISMATCH'
+  | 'DOCUMENTS_BEFORE_INCIDENT';
+
+/**
+ * Interface defining a fraud indicator triggered on a claim with the weight it adds
+ * to the SIU referral score
+ */
+export interface FraudIndicator {
+  code: FraudIndicatorCode;
+  description: string;
+  weight: number;
+}
+
+/**
+ * Interface defining a claim's latest fraud screening: its SIU referral score, the
+ * indicators behind it and whether it was referred to special investigations
+ */
+export interface ClaimFraudAssessment {
+  score: number;
+  indicators: FraudIndicator[];
+  referred: boolean;
+  trigger: 'CLAIM_CREATED' | 'STATUS_CHANGED';
+  assessedAt: string;
+}
+
+/**
+ * Interface defining a claim referral to special investigations
+ */
+export interface SiuReferral {
+  id: string;
+  claimId: string;
+  claimNumber: string;
+  score: number;
+  indicators: FraudIndicator[];
+  status: 'OPEN' | 'CLOSED';
+  referredAt: string;
+  outcome?: 'CLEARED' | 'FRAUD_CONFIRMED';
+  notes?: string;
+  closedBy?: string;
+  closedAt?: string;
+}
+
 /**
  * Interface defining the structure of a claim creation request
  */
 export interface CreateClaimRequest {
   policyId: string;
   incidentDate: Date;
+  reportedDate?: Date;
   description: string;
+  coverageType?: string;
+  causeOfLoss?: string;
   location: ClaimLocation;
   claimantInfo: ClaimantInfo;
   initialReserve: number;
   priorityLevel?: 'HIGH' | 'MEDIUM' | 'LOW';
   notificationPreference?: 'EMAIL' | 'SMS' | 'BOTH';
+  duplicateResolution?: ClaimDuplicateResolution;
+}
+
+/**
+ * How a claim submitted while it has possible duplicates is taken in
+ */
+export type DuplicateClaimAction = 'LINK' | 'MERGE' | 'PROCEED';
+
+/**
+ * Interface defining the intake decision on a possible duplicate; linking or
+ * merging names the existing claim
+ */
+export interface ClaimDuplicateResolution {
+  action: DuplicateClaimAction;
+  claimId?: string;
+}
+
+/**
+ * Interface defining an existing claim on the same policy that a submission may
+ * duplicate, with its match score out of 100 and what matched
+ */
+export interface ClaimDuplicateMatch {
+  claimId: string;
+  claimNumber: string;
+  status: string;
+  incidentDate: string;
+  claimantName: string;
+  score: number;
+  reasons: string[];
 }
 
 /**
@@ -88,4 +204,124 @@ export interface CreateClaimRequest {
 export interface UpdateClaimStatusRequest {
   status: keyof typeof CLAIM_STATUS;
   notes: string;
-}
\ No newline at end of file
+}
+/**
+ * Types of entry in a claim's financial ledger
+ */
+export type ClaimTransactionType =
+  | 'INDEMNITY_PAYMENT'
+  | 'EXPENSE_PAYMENT'
+  | 'RESERVE_CHANGE'
+  | 'DEDUCTIBLE_RECOVERY'
+  | 'SUBROGATION_RECOVERY'
+  | 'SALVAGE_RECOVERY'
+  | 'VOID';
+
+/**
+ * Interface defining one entry in a claim's financial ledger; reserve changes are signed
+ */
+export interface ClaimTransaction {
+  id: string;
+  claimId: string;
+  type: ClaimTransactionType;
+  amount: number;
+  payee?: string;
+  paymentMethod?: 'CHECK' | 'ACH';
+  reference?: string;
+  approvedBy: string;
+  enteredBy: string;
+  transactionDate: string;
+  notes?: string;
+  voidsTransactionId?: string;
+  createdAt: string;
+}
+
+/**
+ * Interface defining the structure of a request to record a ledger entry
+ */
+export interface RecordClaimTransactionRequest {
+  type: Exclude<ClaimTransactionType, 'VOID'>;
+  amount: number;
+  payee?: string;
+  paymentMethod?: 'CHECK' | 'ACH';
+  reference?: string;
+  transactionDate?: string;
+  notes?: string;
+}
+
+/**
+ * Interface defining the structure of a request to void a ledger entry
+ */
+export interface VoidClaimTransactionRequest {
+  approvedBy: string;
+  notes: string;
+}
+
+/**
+ * Interface defining a claim's totals as derived from its ledger
+ */
+export interface ClaimFinancials {
+  reserveAmount: number;
+  paidAmount: number;
+  indemnityPaid: number;
+  expensePaid: number;
+  outstandingReserve: number;
+  deductibleRecovered: number;
+  subrogationRecovered: number;
+  salvageRecovered: number;
+  recoveredAmount: number;
+  netIncurred: number;
+}
+
+/**
+ * Interface defining a claim's ledger entries with their derived totals
+ */
+export interface ClaimLedger {
+  claimId: string;
+  transactions: ClaimTransaction[];
+  financials: ClaimFinancials;
+  pendingApprovals: ClaimPaymentApproval[];
+}
+
+/**
+ * Interface defining the ledger returned after recording an entry; an entry above
+ * the user's authority is returned as `queuedApproval` instead of being recorded
+ */
+export interface RecordClaimTransactionResult extends ClaimLedger {
+  queuedApproval?: ClaimPaymentApproval;
+}
+
+/**
+ * Type defining the status of a queued payment or reserve change
+ */
+export type PaymentApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * Interface defining a payment or reserve change waiting on approval
+ */
+export interface ClaimPaymentApproval {
+  id: string;
+  claimId: string;
+  type: 'INDEMNITY_PAYMENT' | 'EXPENSE_PAYMENT' | 'RESERVE_CHANGE';
+  amount: number;
+  payee?: string;
+  paymentMethod?: 'CHECK' | 'ACH';
+  reference?: string;
+  transactionDate?: string;
+  notes?: string;
+  requestedBy: string;
+  reasons: string[];
+  requiredApprovals: number;
+  approvals: Array<{
+    userId: string;
+    approvedAt: string;
+    notes?: string;
+  }>;
+  status: PaymentApprovalStatus;
+  rejectedBy?: string;
+  rejectionReason?: string;
+  decidedAt?: string;
+  transactionId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
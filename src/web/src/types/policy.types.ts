@@ -15,7 +15,9 @@ export enum PolicyType {
   PROFESSIONAL_LIABILITY = 'PROFESSIONAL_LIABILITY',
   WORKERS_COMPENSATION = 'WORKERS_COMPENSATION',
   COMMERCIAL_AUTO = 'COMMERCIAL_AUTO',
-  CYBER_LIABILITY = 'CYBER_LIABILITY'
+  CYBER_LIABILITY = 'CYBER_LIABILITY',
+  UMBRELLA = 'UMBRELLA',
+  BUSINESS_OWNERS_POLICY = 'BUSINESS_OWNERS_POLICY'
 }
 
 /**
@@ -29,7 +31,87 @@ export enum PolicyStatus {
   BOUND = 'BOUND',
   ACTIVE = 'ACTIVE',
   CANCELLED = 'CANCELLED',
-  EXPIRED = 'EXPIRED'
+  EXPIRED = 'EXPIRED',
+  PENDING_RENEWAL = 'PENDING_RENEWAL'
+}
+
+/**
+ * Enum defining the renewal status of a policy term
+ */
+export enum RenewalStatus {
+  PENDING = 'PENDING',
+  OFFERED = 'OFFERED',
+  NON_RENEWED = 'NON_RENEWED'
+}
+
+/**
+ * Enum defining reasons for a non-renewal decision
+ */
+export enum NonRenewalReason {
+  UNDERWRITING = 'UNDERWRITING',
+  LOSS_HISTORY = 'LOSS_HISTORY',
+  NON_PAYMENT = 'NON_PAYMENT',
+  OUT_OF_APPETITE = 'OUT_OF_APPETITE',
+  INSURED_REQUEST = 'INSURED_REQUEST',
+  CARRIER_WITHDRAWAL = 'CARRIER_WITHDRAWAL'
+}
+
+/**
+ * Enum defining reasons for a mid-term cancellation
+ */
+export enum CancellationReason {
+  INSURED_REQUEST = 'INSURED_REQUEST',
+  NON_PAYMENT = 'NON_PAYMENT',
+  UNDERWRITING = 'UNDERWRITING'
+}
+
+/**
+ * Enum defining return premium calculation methods
+ */
+export enum CancellationMethod {
+  PRO_RATA = 'PRO_RATA',
+  SHORT_RATE = 'SHORT_RATE',
+  FLAT = 'FLAT'
+}
+
+/**
+ * Enum defining reinstatement variants
+ */
+export enum ReinstatementType {
+  WITH_LAPSE = 'WITH_LAPSE',
+  WITHOUT_LAPSE = 'WITHOUT_LAPSE'
+}
+
+/**
+ * Enum defining the kinds of subjectivity an underwriter may attach to an approval
+ */
+export enum SubjectivityType {
+  DOCUMENT = 'DOCUMENT',
+  INSPECTION = 'INSPECTION',
+  SIGNATURE = 'SIGNATURE',
+  PAYMENT = 'PAYMENT',
+  OTHER = 'OTHER'
+}
+
+/**
+ * Enum defining the lifecycle of a subjectivity
+ */
+export enum SubjectivityStatus {
+  OPEN = 'OPEN',
+  SATISFIED = 'SATISFIED',
+  WAIVED = 'WAIVED'
+}
+
+/**
+ * Enum defining the bound transactions that produce a policy version
+ */
+export enum PolicyTransactionType {
+  NEW_BUSINESS = 'NEW_BUSINESS',
+  ENDORSEMENT = 'ENDORSEMENT',
+  RENEWAL = 'RENEWAL',
+  CANCELLATION = 'CANCELLATION',
+  REINSTATEMENT = 'REINSTATEMENT',
+  STATUS_CHANGE = 'STATUS_CHANGE'
 }
 
 /**
@@ -52,6 +134,18 @@ export interface IEndorsement {
   changes: Record<string, any>;
   premiumChange: number;
   policyId: ID;
+  annualPremiumChange?: number;
+  rating?: IEndorsementRating;
+}
+
+/**
+ * Interface defining the prorated rating of an endorsement
+ */
+export interface IEndorsementRating {
+  annualPremiumChange: number;
+  termDays: number;
+  proratedDays: number;
+  premiumChange: number;
 }
 
 /**
@@ -63,6 +157,41 @@ export interface IUnderwritingInfo {
   approvalStatus: string;
   reviewedBy: string;
   reviewDate: Timestamp;
+  subjectivities?: ISubjectivity[];
+  cancellationNotice?: ISubjectivityCancellationNotice;
+}
+
+/**
+ * Interface defining a condition of an underwriting approval: pre-bind
+ * subjectivities must be met before binding, post-bind ones by their due date
+ */
+export interface ISubjectivity {
+  id: ID;
+  type: SubjectivityType;
+  description: string;
+  timing: 'PRE_BIND' | 'POST_BIND';
+  dueDays?: number;
+  dueDate?: Timestamp;
+  documentType?: string;
+  documentId?: ID;
+  status: SubjectivityStatus;
+  resolvedBy?: string;
+  resolvedAt?: Timestamp;
+  notes?: string;
+  overdueAlertedAt?: Timestamp;
+  createdBy: string;
+  createdAt: Timestamp;
+}
+
+/**
+ * Interface defining a notice of cancellation issued for overdue post-bind subjectivities
+ */
+export interface ISubjectivityCancellationNotice {
+  noticeDate: Timestamp;
+  effectiveDate: Timestamp;
+  issuedBy: string;
+  subjectivityIds: ID[];
+  rescindedAt?: Timestamp;
 }
 
 /**
@@ -76,6 +205,230 @@ export interface IDocument {
   uploadedAt: Timestamp;
 }
 
+/**
+ * Interface defining renewal linkage, offer and non-renewal details for a policy term
+ */
+export interface IRenewalInfo {
+  termNumber: number;
+  status: RenewalStatus;
+  previousPolicyId?: ID;
+  renewalPolicyId?: ID;
+  offerDate?: Timestamp;
+  offerExpirationDate?: Timestamp;
+  rateChange?: number;
+  nonRenewal?: {
+    reason: NonRenewalReason;
+    noticeDate: Timestamp;
+    decidedBy: string;
+    notes?: string;
+  };
+}
+
+/**
+ * Interface defining earned and return premium for a cancellation
+ */
+export interface IReturnPremium {
+  method: CancellationMethod;
+  daysInForce: number;
+  termDays: number;
+  earnedPremium: number;
+  returnPremium: number;
+}
+
+/**
+ * Interface defining mid-term cancellation details and refund status
+ */
+export interface ICancellationInfo extends IReturnPremium {
+  cancellationId: string;
+  effectiveDate: Timestamp;
+  reason: CancellationReason;
+  requestedBy: string;
+  requestDate: Timestamp;
+  refundStatus: 'PENDING' | 'POSTED' | 'FAILED' | 'NOT_APPLICABLE';
+  refundTransactionId?: string;
+  notes?: string;
+}
+
+/**
+ * Interface defining reinstatement details for a previously cancelled policy
+ */
+export interface IReinstatementInfo {
+  type: ReinstatementType;
+  reinstatementDate: Timestamp;
+  cancellationDate: Timestamp;
+  lapseDays: number;
+  lapsePremium: number;
+  premiumChange: number;
+  earnedPremium: number;
+  reinstatedBy: string;
+  requestDate: Timestamp;
+  notes?: string;
+}
+
+/**
+ * Enum defining the exposure bases premium may be rated on
+ */
+export enum ExposureBasis {
+  REVENUE = 'REVENUE',
+  PAYROLL = 'PAYROLL',
+  SQUARE_FOOTAGE = 'SQUARE_FOOTAGE',
+  VEHICLE_COUNT = 'VEHICLE_COUNT'
+}
+
+/**
+ * Interface defining the rated premium of a single coverage
+ */
+export interface ICoveragePremium {
+  coverageId: string;
+  coverageType: string;
+  limit: number;
+  deductible: number;
+  coverageFactor: number;
+  increasedLimitFactor: number;
+  deductibleCredit: number;
+  premium: number;
+}
+
+/**
+ * Interface defining the premium breakdown produced by the rating engine
+ * Schedule modifiers are signed: negative values are credits, positive values debits
+ */
+export interface IPremiumBreakdown {
+  policyType: PolicyType;
+  rateTableVersion: string;
+  rateTableEffectiveDate: Timestamp;
+  exposureBasis: ExposureBasis;
+  exposure: number;
+  exposureUnit: number;
+  baseRate: number;
+  basePremium: number;
+  coverages: ICoveragePremium[];
+  subtotal: number;
+  scheduleModifiers: Record<string, number>;
+  scheduleModifier: number;
+  minimumPremium: number;
+  minimumPremiumApplied: boolean;
+  totalPremium: number;
+  ratedAt: Timestamp;
+}
+
+/**
+ * Enum defining the lifecycle of a quote option on a submission
+ */
+export enum QuoteStatus {
+  ACTIVE = 'ACTIVE',
+  BOUND = 'BOUND',
+  SUPERSEDED = 'SUPERSEDED',
+  EXPIRED = 'EXPIRED'
+}
+
+/**
+ * Interface defining a coverage offered in a quote option
+ */
+export interface IQuoteCoverage {
+  id?: string;
+  type: string;
+  limits: {
+    perOccurrence: number;
+    aggregate: number;
+  };
+  deductible: number;
+}
+
+/**
+ * Interface defining a quote option offered on a submission
+ */
+export interface IPolicyQuote {
+  id: ID;
+  policyId: ID;
+  optionNumber: number;
+  label: string;
+  coverages: IQuoteCoverage[];
+  premium: number;
+  premiumBreakdown?: IPremiumBreakdown;
+  expirationDate: Timestamp;
+  status: QuoteStatus;
+  createdBy?: string;
+  boundBy?: string;
+  boundAt?: Timestamp;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Enum defining the answer formats of a product eligibility question
+ */
+export enum EligibilityAnswerType {
+  BOOLEAN = 'BOOLEAN',
+  NUMBER = 'NUMBER',
+  SELECT = 'SELECT'
+}
+
+/**
+ * Answer given to an eligibility question, keyed by question ID on the policy
+ */
+export type EligibilityAnswer = boolean | number | string;
+
+/**
+ * Interface defining an eligibility question asked on submission
+ */
+export interface IEligibilityQuestion {
+  id: string;
+  text: string;
+  answerType: EligibilityAnswerType;
+  options?: string[];
+  required: boolean;
+  ineligibleWhen?: {
+    equals?: boolean | string;
+    in?: string[];
+    greaterThan?: number;
+    lessThan?: number;
+  };
+  declineReason?: string;
+}
+
+/**
+ * Interface defining the states, class codes and revenue a product writes, refers
+ * to an underwriter or declines
+ */
+export interface IProductAppetite {
+  excludedStates: string[];
+  referredStates: string[];
+  excludedClassCodes: string[];
+  referredClassCodes: string[];
+  maxRevenue?: number;
+  referRevenueAbove?: number;
+}
+
+/**
+ * Interface defining the product a policy type is written on: limits, deductibles,
+ * coverages, required documents and eligibility questions
+ */
+export interface IProductDefinition {
+  policyType: string;
+  version: string;
+  effectiveDate: Timestamp;
+  name: string;
+  limits: {
+    perOccurrence: { min: number; max: number };
+    aggregate: { min: number; max: number };
+  };
+  deductible: {
+    min: number;
+    max: number;
+    allowedValues?: number[];
+  };
+  allowedCoverages: Array<{
+    code: string;
+    name: string;
+    required: boolean;
+  }>;
+  requiredDocuments: string[];
+  requiredFields: string[];
+  eligibilityQuestions: IEligibilityQuestion[];
+  appetite: IProductAppetite;
+}
+
 /**
  * Primary interface defining the complete structure of an insurance policy
  */
@@ -87,10 +440,41 @@ export interface IPolicy {
   effectiveDate: Timestamp;
   expirationDate: Timestamp;
   premium: number;
+  premiumBreakdown?: IPremiumBreakdown;
   coverages: ICoverage[];
+  eligibilityAnswers?: Record<string, EligibilityAnswer>;
   underwritingInfo: IUnderwritingInfo;
   endorsements: IEndorsement[];
   documents: IDocument[];
+  renewalInfo?: IRenewalInfo;
+  cancellationInfo?: ICancellationInfo;
+  reinstatementInfo?: IReinstatementInfo;
   createdAt: Timestamp;
   updatedAt: Timestamp;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface defining a single field-level change between policy versions
+ */
+export interface IPolicyFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Interface defining a policy version history entry with its field-level diff
+ */
+export interface IPolicyVersionHistoryEntry {
+  id: ID;
+  policyId: ID;
+  versionNumber: number;
+  transactionType: PolicyTransactionType;
+  effectiveFrom: Timestamp;
+  effectiveTo?: Timestamp;
+  sourceId?: ID;
+  createdBy?: string;
+  supersededAt?: Timestamp;
+  createdAt: Timestamp;
+  changes: IPolicyFieldChange[];
+}
@@ -13,6 +13,7 @@ import type { UUID } from 'crypto'; // ^1.0.0
  */
 export enum UnderwritingStatus {
     PENDING_REVIEW = 'PENDING_REVIEW',
+    PENDING_DOCUMENTS = 'PENDING_DOCUMENTS',
     IN_REVIEW = 'IN_REVIEW',
     AUTO_APPROVED = 'AUTO_APPROVED',
     MANUAL_REVIEW = 'MANUAL_REVIEW',
@@ -85,6 +86,251 @@ export interface IUnderwritingDecisionForm {
     conditions: string[];
 }
 
+/**
+ * Interface for a declarative underwriting rule as maintained by underwriting managers
+ * Rules without a policy type apply to every policy type
+ */
+export interface IUnderwritingRule {
+    id?: string;
+    name: string;
+    description: string;
+    policyType: string | null;
+    criteria: {
+        conditions: Array<{
+            field: string;
+            operator: string;
+            value: unknown;
+        }>;
+        logicalOperator: 'AND' | 'OR';
+    };
+    action: 'APPROVE' | 'DECLINE' | 'REFER' | 'FLAG';
+    priority: number;
+    automationEligible?: boolean;
+    active?: boolean;
+}
+
+/**
+ * Interface for a what-if simulation of candidate rules or risk factor weights
+ * Omitted candidates fall back to the current configuration
+ */
+export interface IRuleSimulationRequest {
+    policyType?: string;
+    from?: string;
+    to?: string;
+    rules?: IUnderwritingRule[];
+    riskFactorWeights?: Record<string, number>;
+    limit?: number;
+}
+
+/**
+ * Interface for a historical decision the candidate configuration would change
+ */
+export interface IDecisionChange {
+    policyId: string;
+    policyNumber?: string;
+    policyType: string;
+    premium: number;
+    originalStatus: string;
+    simulatedStatus: string;
+    originalRiskScore: number;
+    simulatedRiskScore: number;
+    firedRuleIds: string[];
+    decidedAt: string;
+}
+
+/**
+ * Interface for the decisions moving between two statuses in a simulation
+ */
+export interface IDecisionTransition {
+    from: string;
+    to: string;
+    count: number;
+    premium: number;
+}
+
+/**
+ * Interface for the diff report returned by a rule simulation
+ */
+export interface IRuleSimulationReport {
+    decisionsEvaluated: number;
+    decisionsChanged: number;
+    premiumAffected: number;
+    transitions: IDecisionTransition[];
+    changes: IDecisionChange[];
+    candidate: {
+        ruleCount: number;
+        usesCurrentRules: boolean;
+        riskFactorWeights: Record<string, number>;
+    };
+    simulatedAt: string;
+}
+
+/**
+ * Interface for the underwriting configuration published by the backend
+ * Risk bands are rendered from these values rather than client-side constants
+ */
+export interface IUnderwritingConfig {
+    version: string;
+    riskScoreThresholds: {
+        lowRisk: number;
+        mediumRisk: number;
+        highRisk: number;
+    };
+    riskFactorWeights: Record<string, number>;
+    autoApprovalCriteria: {
+        maxRiskScore: number;
+        minYearsInBusiness: number;
+        maxClaimsCount: number;
+        maxClaimsAmount: number;
+        minCreditScore: number;
+        requiredDocumentsComplete: boolean;
+    };
+}
+
+/**
+ * Interface for an underwriter's open queue
+ */
+export interface IUnderwriterQueueDepth {
+    userId: string;
+    name: string;
+    inReview: number;
+    referred: number;
+    total: number;
+    outOfOfficeUntil: string | null;
+}
+
+/**
+ * Interface for queue depth across underwriters and the assignment strategy in use
+ */
+export interface IUnderwritingQueueDepth {
+    strategy: 'ROUND_ROBIN' | 'LEAST_LOADED' | 'SKILLS_BASED';
+    underwriters: IUnderwriterQueueDepth[];
+    unassigned: number;
+}
+
+/**
+ * Interface for one factor's contribution to a risk score
+ */
+export interface IRiskFactorContribution {
+    type: string;
+    score: number;
+    weight: number;
+    weightedPoints: number;
+    runningTotal: number;
+    share: number;
+    confidence: number;
+    drivers: string[];
+    missingInputs: string[];
+    defaulted: boolean;
+    dataSource: string;
+    details: Record<string, unknown>;
+}
+
+/**
+ * Interface for a risk score broken down factor by factor, largest contribution first
+ */
+export interface IRiskScoreBreakdown {
+    policyId: string;
+    riskScore: number;
+    source: 'DECISION' | 'ASSESSMENT';
+    assessedAt: string;
+    contributions: IRiskFactorContribution[];
+    missingFactors: string[];
+    missingInputs: string[];
+}
+
+/**
+ * Interface for one required document or field on a submission checklist
+ */
+export interface IChecklistItem {
+    kind: 'DOCUMENT' | 'FIELD';
+    key: string;
+    received: boolean;
+    receivedAt: string | null;
+}
+
+/**
+ * Interface for a submission's completeness checklist; pendingSince is set while
+ * the submission waits on the broker
+ */
+export interface ISubmissionChecklist {
+    policyId: string;
+    policyType: string;
+    items: IChecklistItem[];
+    pendingSince: string | null;
+    completedAt: string | null;
+    remindersSent: number;
+    lastRemindedAt: string | null;
+}
+
+/**
+ * Outcome of screening a risk against product appetite before submission
+ */
+export type AppetiteOutcome = 'IN_APPETITE' | 'REFER' | 'OUT_OF_APPETITE';
+
+/**
+ * Interface for a risk screened before a full submission; policyType is the
+ * product code the backend writes the risk on
+ */
+export interface IAppetiteCheckRequest {
+    policyType: string;
+    classCode: string;
+    state: string;
+    revenue: number;
+    requestedLimits: {
+        perOccurrence: number;
+        aggregate: number;
+    };
+    effectiveDate?: string;
+}
+
+/**
+ * Interface for one reason a screened risk is referred or out of appetite,
+ * from the product definition or from an underwriting rule
+ */
+export interface IAppetiteReason {
+    source: 'PRODUCT' | 'RULE';
+    outcome: Exclude<AppetiteOutcome, 'IN_APPETITE'>;
+    code: string;
+    message: string;
+    ruleId?: string;
+}
+
+/**
+ * Interface for the result of an appetite check
+ */
+export interface IAppetiteCheckResult {
+    policyType: string;
+    outcome: AppetiteOutcome;
+    reasons: IAppetiteReason[];
+    productVersion: string | null;
+    checkedAt: string;
+}
+
+/**
+ * Underwriting stages timed by SLA clocks
+ */
+export type SlaStage = 'INTAKE' | 'REVIEW' | 'REFERRAL' | 'QUOTE_ISSUED';
+
+/**
+ * Standing of an SLA clock against its target
+ */
+export type SlaAlertLevel = 'ON_TRACK' | 'AT_RISK' | 'BREACHED';
+
+/**
+ * Determines the risk severity band for a score using the published thresholds:
+ * at or below lowRisk is LOW, at or above highRisk is HIGH, anything between is MEDIUM
+ */
+export const getRiskSeverity = (
+    score: number,
+    thresholds: IUnderwritingConfig['riskScoreThresholds']
+): RiskSeverity => {
+    if (score <= thresholds.lowRisk) {
+        return RiskSeverity.LOW;
+    }
+    return score >= thresholds.highRisk ? RiskSeverity.HIGH : RiskSeverity.MEDIUM;
+};
+
 /**
  * Type guard to check if a value is a valid RiskSeverity
  */
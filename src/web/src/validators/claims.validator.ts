@@ -58,7 +58,13 @@ export const validateClaimForm = (formData: CreateClaimRequest): ValidationResul
     errors.incidentDate = incidentDateResult.errors.dateRange || [];
   }
 
-  // Description validation with length constraints
+  // Reported date must fall between the incident and today
+  if (formData.reportedDate &&
+    (new Date(formData.reportedDate) < new Date(formData.incidentDate) || new Date(formData.reportedDate) > today)) {
+    errors.reportedDate = ['Reported date must fall between the incident date and today'];
+  }
+
+    // Description validation with length constraints
   const descriptionResult = validateRequired(formData.description, 'Description');
   if (!descriptionResult.isValid) {
     errors.description = descriptionResult.errors.description || [];
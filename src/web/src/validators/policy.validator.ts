@@ -7,9 +7,18 @@
 
 import { z } from 'zod'; // v3.21.4
 import dayjs from 'dayjs'; // v1.11.9
-import { IPolicy, PolicyStatus, PolicyType } from '../types/policy.types';
+import {
+  IPolicy,
+  PolicyStatus,
+  PolicyType,
+  IProductDefinition,
+  IEligibilityQuestion,
+  EligibilityAnswer,
+  EligibilityAnswerType
+} from '../types/policy.types';
 import { POLICY_VALIDATION } from '../constants/policy.constants';
 import { ValidationUtils } from '../utils/validation.utils';
+import { formatCurrency } from '../utils/format.utils';
 import type { ValidationResult } from '../types/common.types';
 
 // Zod schema for policy validation
@@ -228,4 +237,106 @@ const validateUnderwritingInfo = (
     isValid: errors.length === 0,
     errors: errors.length ? { underwriting: errors } : {}
   };
-};
\ No newline at end of file
+};
+/**
+ * Validates coverages and eligibility answers against the product definition of the policy type
+ * Mirrors the product checks the policy API applies on submission
+ * @param policy - Policy coverages and eligibility answers
+ * @param definition - Product definition in effect on the policy effective date
+ * @param options - Whether to check eligibility answers (asked after coverage configuration)
+ * @returns ValidationResult with accessibility-compliant messages
+ */
+export const validatePolicyProduct = (
+  policy: Pick<IPolicy, 'coverages' | 'eligibilityAnswers'>,
+  definition: IProductDefinition,
+  options: { checkEligibility?: boolean } = {}
+): ValidationResult => {
+  const errors: Record<string, string[]> = {};
+  const coverageErrors: string[] = [];
+  const { perOccurrence } = definition.limits;
+  const { deductible } = definition;
+
+  (policy.coverages || []).forEach((coverage, index) => {
+    const label = `Coverage ${index + 1}`;
+
+    if (coverage.type && !definition.allowedCoverages.some(allowed => allowed.code === coverage.type)) {
+      coverageErrors.push(`${label}: ${coverage.type} is not offered on ${definition.name}`);
+    }
+
+    if (coverage.limit < perOccurrence.min || coverage.limit > perOccurrence.max) {
+      coverageErrors.push(
+        `${label}: Limit must be between ${formatCurrency(perOccurrence.min)} and ${formatCurrency(perOccurrence.max)}`
+      );
+    }
+
+    if (deductible.allowedValues) {
+      if (!deductible.allowedValues.includes(coverage.deductible)) {
+        coverageErrors.push(
+          `${label}: Deductible must be one of ${deductible.allowedValues.map(value => formatCurrency(value)).join(', ')}`
+        );
+      }
+    } else if (coverage.deductible < deductible.min || coverage.deductible > deductible.max) {
+      coverageErrors.push(
+        `${label}: Deductible must be between ${formatCurrency(deductible.min)} and ${formatCurrency(deductible.max)}`
+      );
+    }
+  });
+
+  definition.allowedCoverages
+    .filter(allowed => allowed.required && !(policy.coverages || []).some(coverage => coverage.type === allowed.code))
+    .forEach(allowed => coverageErrors.push(`${allowed.name} is required`));
+
+  if (coverageErrors.length) {
+    errors.product = coverageErrors;
+  }
+
+  if (options.checkEligibility) {
+    const eligibilityErrors: string[] = [];
+    const answers = policy.eligibilityAnswers || {};
+
+    definition.eligibilityQuestions.forEach(question => {
+      const answer = answers[question.id];
+
+      if (answer === undefined || answer === '') {
+        if (question.required) {
+          eligibilityErrors.push(`Please answer: ${question.text}`);
+        }
+      } else if (isIneligibleAnswer(question, answer)) {
+        eligibilityErrors.push(question.declineReason || `This risk is not eligible for ${definition.name}`);
+      }
+    });
+
+    if (eligibilityErrors.length) {
+      errors.eligibility = eligibilityErrors;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+};
+
+/**
+ * Checks whether an answer falls within a question's ineligible answers
+ * @param question - Eligibility question
+ * @param answer - Answer given
+ * @returns True when the answer makes the risk ineligible
+ */
+const isIneligibleAnswer = (
+  question: IEligibilityQuestion,
+  answer: EligibilityAnswer
+): boolean => {
+  const rule = question.ineligibleWhen;
+  if (!rule) {
+    return false;
+  }
+
+  if (question.answerType === EligibilityAnswerType.NUMBER && typeof answer === 'number') {
+    return (rule.greaterThan !== undefined && answer > rule.greaterThan)
+      || (rule.lessThan !== undefined && answer < rule.lessThan);
+  }
+
+  return (rule.equals !== undefined && answer === rule.equals)
+    || (rule.in !== undefined && typeof answer === 'string' && rule.in.includes(answer));
+};
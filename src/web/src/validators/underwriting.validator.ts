@@ -6,9 +6,15 @@
  */
 
 import { z } from 'zod'; // v3.21.4
-import { IRiskAssessmentDisplay, IUnderwritingDecisionForm, RiskSeverity, UnderwritingStatus } from '../types/underwriting.types';
+import {
+  IRiskAssessmentDisplay,
+  IUnderwritingConfig,
+  IUnderwritingDecisionForm,
+  RiskSeverity,
+  UnderwritingStatus,
+  getRiskSeverity
+} from '../types/underwriting.types';
 import { validateRequired } from '../utils/validation.utils';
-import { RISK_SCORE_RANGES } from '../constants/underwriting.constants';
 import type { ValidationResult } from '../types/common.types';
 
 // Cache for validation results to optimize performance
@@ -17,16 +23,18 @@ const validationCache = new Map<string, ValidationResult>();
 /**
  * Validates risk assessment data with comprehensive checks and WCAG 2.1 compliance
  * @param riskAssessment - Risk assessment data to validate
+ * @param config - Published underwriting configuration defining the severity bands
  * @returns ValidationResult with accessibility-compliant error messages
  */
 export const validateRiskAssessment = (
-  riskAssessment: IRiskAssessmentDisplay
+  riskAssessment: IRiskAssessmentDisplay,
+  config: IUnderwritingConfig
 ): ValidationResult => {
   const errors: Record<string, string[]> = {};
   const startTime = performance.now();
 
   // Generate cache key for this validation
-  const cacheKey = `risk_${riskAssessment.policyId}_${riskAssessment.riskScore}`;
+  const cacheKey = `risk_${config.version}_${riskAssessment.policyId}_${riskAssessment.riskScore}`;
   const cachedResult = validationCache.get(cacheKey);
   if (cachedResult) {
     return cachedResult;
@@ -43,7 +51,7 @@ export const validateRiskAssessment = (
   }
 
   // Validate severity matches score range
-  const expectedSeverity = determineRiskSeverity(riskAssessment.riskScore);
+  const expectedSeverity = getRiskSeverity(riskAssessment.riskScore, config.riskScoreThresholds);
   if (riskAssessment.severity !== expectedSeverity) {
     errors.severity = [
       `Risk severity does not match score. Expected ${expectedSeverity} for score ${riskAssessment.riskScore}`
@@ -143,10 +151,11 @@ export const validateUnderwritingDecision = (
 /**
  * Validates individual risk score with performance optimization and caching
  * @param score - Risk score to validate
+ * @param config - Published underwriting configuration defining the severity bands
  * @returns ValidationResult with optimized validation result
  */
-export const validateRiskScore = (score: number): ValidationResult => {
-  const cacheKey = `score_${score}`;
+export const validateRiskScore = (score: number, config: IUnderwritingConfig): ValidationResult => {
+  const cacheKey = `score_${config.version}_${score}`;
   const cachedResult = validationCache.get(cacheKey);
   if (cachedResult) {
     return cachedResult;
@@ -168,8 +177,8 @@ export const validateRiskScore = (score: number): ValidationResult => {
     isValid: Object.keys(errors).length === 0,
     errors,
     metadata: {
-      severity: determineRiskSeverity(score),
-      autoApprovalEligible: score <= RISK_SCORE_RANGES.LOW_RISK.max
+      severity: getRiskSeverity(score, config.riskScoreThresholds),
+      autoApprovalEligible: score <= config.autoApprovalCriteria.maxRiskScore
     }
   };
 
@@ -177,18 +186,4 @@ export const validateRiskScore = (score: number): ValidationResult => {
   validationCache.set(cacheKey, result);
 
   return result;
-};
-
-/**
- * Determines risk severity level based on score
- * @param score - Risk score to evaluate
- * @returns RiskSeverity level
- */
-const determineRiskSeverity = (score: number): RiskSeverity => {
-  if (score <= RISK_SCORE_RANGES.LOW_RISK.max) {
-    return RiskSeverity.LOW;
-  } else if (score <= RISK_SCORE_RANGES.MEDIUM_RISK.max) {
-    return RiskSeverity.MEDIUM;
-  }
-  return RiskSeverity.HIGH;
 };
\ No newline at end of file